@@ -1,11 +1,15 @@
 import { Switch, Route, Redirect } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
 import { Toaster } from "@/components/ui/toaster";
+import { StepUpDialog } from "@/components/StepUpDialog";
 import { ThemeProvider } from "@/components/theme-provider";
 import DashboardLayout from "@/components/DashboardLayout";
 
 // Pages
 import Login from "@/pages/Login";
+import Signup from "@/pages/Signup";
+import DeviceConfirmation from "@/pages/DeviceConfirmation";
+import ResetPassword from "@/pages/ResetPassword";
 import Home from "@/pages/Home";
 import Places from "@/pages/Places";
 import QuickEntry from "@/pages/QuickEntry";
@@ -41,6 +45,15 @@ import CreatePro from "@/pages/CreatePro";
 import Events from "@/pages/Events";
 import LiveSessions from "@/pages/LiveSessions";
 import Leads from "@/pages/Leads";
+import AccountSecurity from "@/pages/AccountSecurity";
+import AdminSessions from "@/pages/AdminSessions";
+import Security from "@/pages/Security";
+import AccessRequests from "@/pages/AccessRequests";
+import Approvals from "@/pages/Approvals";
+import Jobs from "@/pages/Jobs";
+import ApiKeys from "@/pages/ApiKeys";
+import CspReports from "@/pages/CspReports";
+import Invitations from "@/pages/Invitations";
 
 // Loading component
 function LoadingScreen() {
@@ -75,6 +88,9 @@ function App() {
     <ThemeProvider defaultTheme="dark" storageKey="tavvy-admin-theme">
       <Switch>
         <Route path="/login" component={Login} />
+        <Route path="/signup" component={Signup} />
+        <Route path="/device/confirm" component={DeviceConfirmation} />
+        <Route path="/reset-password" component={ResetPassword} />
         
         <Route path="/">
           <ProtectedRoute>
@@ -282,12 +298,73 @@ function App() {
           </ProtectedRoute>
         </Route>
 
+        <Route path="/account/security">
+          <ProtectedRoute>
+            <AccountSecurity />
+          </ProtectedRoute>
+        </Route>
+
+        <Route path="/admin-sessions">
+          <ProtectedRoute>
+            <AdminSessions />
+          </ProtectedRoute>
+        </Route>
+
+        <Route path="/security/csp">
+          <ProtectedRoute>
+            <CspReports />
+          </ProtectedRoute>
+        </Route>
+
+        <Route path="/security/anomalies">
+          <ProtectedRoute>
+            <Security />
+          </ProtectedRoute>
+        </Route>
+
+        <Route path="/security">
+          <ProtectedRoute>
+            <Security />
+          </ProtectedRoute>
+        </Route>
+
+        <Route path="/access-requests">
+          <ProtectedRoute>
+            <AccessRequests />
+          </ProtectedRoute>
+        </Route>
+
+        <Route path="/approvals">
+          <ProtectedRoute>
+            <Approvals />
+          </ProtectedRoute>
+        </Route>
+
+        <Route path="/invitations">
+          <ProtectedRoute>
+            <Invitations />
+          </ProtectedRoute>
+        </Route>
+
+        <Route path="/api-keys">
+          <ProtectedRoute>
+            <ApiKeys />
+          </ProtectedRoute>
+        </Route>
+
+        <Route path="/jobs">
+          <ProtectedRoute>
+            <Jobs />
+          </ProtectedRoute>
+        </Route>
+
         {/* Fallback - redirect to home */}
         <Route>
           <Redirect to="/" />
         </Route>
       </Switch>
       <Toaster />
+      <StepUpDialog />
     </ThemeProvider>
   );
 }
@@ -13,6 +13,7 @@ import {
   SidebarHeader,
   SidebarInset,
   SidebarMenu,
+  SidebarMenuBadge,
   SidebarMenuButton,
   SidebarMenuItem,
   SidebarMenuSub,
@@ -31,6 +32,9 @@ import { useIsMobile } from "@/hooks/useMobile";
 import { 
   LayoutDashboard, 
   LogOut, 
+  KeyRound,
+  MonitorSmartphone,
+  ShieldAlert,
   PanelLeft, 
   MapPin, 
   Zap, 
@@ -60,91 +64,123 @@ import {
   Calendar,
   Radio,
   Inbox,
+  CalendarClock,
+  KeySquare,
+  FileWarning,
+  MailPlus,
+  ClipboardCheck,
 } from "lucide-react";
 import { CSSProperties, useEffect, useRef, useState } from "react";
 import { useLocation } from "wouter";
 import { DashboardLayoutSkeleton } from './DashboardLayoutSkeleton';
+import { ImpersonationBanner } from './ImpersonationBanner';
+import { useAuth } from "@/hooks/useAuth";
+import { trpc } from "@/lib/trpc";
+import { Permissions, type Permission } from "@shared/permissions";
+
+type NavItem = {
+  icon: typeof LayoutDashboard;
+  label: string;
+  path: string;
+  permission?: Permission;
+};
 
 // Regular menu items (non-grouped)
-const menuItems = [
+const menuItems: NavItem[] = [
   { icon: LayoutDashboard, label: "Dashboard", path: "/" },
-  { icon: MapPin, label: "Places", path: "/places" },
-  { icon: PlusCircle, label: "Add Place", path: "/places/new" },
-  { icon: FileText, label: "Drafts", path: "/drafts" },
-  { icon: Zap, label: "Quick Entry", path: "/quick-entry" },
-  { icon: Upload, label: "Batch Upload", path: "/batch-upload" },
-  { icon: BarChart3, label: "Signals", path: "/signals" },
+  { icon: MapPin, label: "Places", path: "/places", permission: Permissions.PLACES_READ },
+  { icon: PlusCircle, label: "Add Place", path: "/places/new", permission: Permissions.PLACES_WRITE },
+  { icon: FileText, label: "Drafts", path: "/drafts", permission: Permissions.PLACES_WRITE },
+  { icon: Zap, label: "Quick Entry", path: "/quick-entry", permission: Permissions.SIGNALS_SUBMIT },
+  { icon: Upload, label: "Batch Upload", path: "/batch-upload", permission: Permissions.SIGNALS_IMPORT },
+  { icon: BarChart3, label: "Signals", path: "/signals", permission: Permissions.PLACES_READ },
 ];
 
 // Atlas section items
-const atlasItems = [
-  { icon: FileText, label: "Articles", path: "/articles" },
-  { icon: FileUp, label: "CSV Import", path: "/atlas-import" },
-  { icon: FileCode, label: "MD Import", path: "/markdown-import" },
+const atlasItems: NavItem[] = [
+  { icon: FileText, label: "Articles", path: "/articles", permission: Permissions.CONTENT_READ },
+  { icon: FileUp, label: "CSV Import", path: "/atlas-import", permission: Permissions.CONTENT_WRITE },
+  { icon: FileCode, label: "MD Import", path: "/markdown-import", permission: Permissions.CONTENT_WRITE },
 ];
 
 // Other menu items
-const otherItems = [
-  { icon: Building2, label: "Cities", path: "/cities" },
-  { icon: Globe, label: "Universes", path: "/universes" },
-  { icon: Zap, label: "Rides", path: "/rides" },
-  { icon: Calendar, label: "Events", path: "/events" },
-  { icon: Radio, label: "Live Sessions", path: "/live-sessions" },
+const otherItems: NavItem[] = [
+  { icon: Building2, label: "Cities", path: "/cities", permission: Permissions.CONTENT_READ },
+  { icon: Globe, label: "Universes", path: "/universes", permission: Permissions.CONTENT_READ },
+  { icon: Zap, label: "Rides", path: "/rides", permission: Permissions.CONTENT_READ },
+  { icon: Calendar, label: "Events", path: "/events", permission: Permissions.CONTENT_READ },
+  { icon: Radio, label: "Live Sessions", path: "/live-sessions", permission: Permissions.CONTENT_READ },
 ];
 
 // Content Moderation items
-const moderationItems = [
-  { icon: Film, label: "Stories", path: "/stories" },
-  { icon: ImageIcon, label: "Photos", path: "/photos" },
-  { icon: MessageSquare, label: "Reviews", path: "/reviews" },
-  { icon: Flag, label: "Flags Queue", path: "/moderation" },
+const moderationItems: NavItem[] = [
+  { icon: Film, label: "Stories", path: "/stories", permission: Permissions.MODERATION_READ },
+  { icon: ImageIcon, label: "Photos", path: "/photos", permission: Permissions.MODERATION_READ },
+  { icon: MessageSquare, label: "Reviews", path: "/reviews", permission: Permissions.MODERATION_READ },
+  { icon: Flag, label: "Flags Queue", path: "/moderation", permission: Permissions.MODERATION_READ },
 ];
 
 // Providers items
-const providerItems = [
-  { icon: Briefcase, label: "Providers", path: "/providers" },
-  { icon: CreditCard, label: "eCards", path: "/ecards" },
-  { icon: BadgeCheck, label: "Verifications", path: "/verifications" },
-  { icon: Award, label: "Badge Credentials", path: "/credentials" },
-  { icon: Shield, label: "Claims", path: "/business-claims" },
-  { icon: Inbox, label: "Leads", path: "/leads" },
+const providerItems: NavItem[] = [
+  { icon: Briefcase, label: "Providers", path: "/providers", permission: Permissions.PROVIDERS_READ },
+  { icon: CreditCard, label: "eCards", path: "/ecards", permission: Permissions.PROVIDERS_READ },
+  { icon: BadgeCheck, label: "Verifications", path: "/verifications", permission: Permissions.PROVIDERS_READ },
+  { icon: Award, label: "Badge Credentials", path: "/credentials", permission: Permissions.PROVIDERS_READ },
+  { icon: Shield, label: "Claims", path: "/business-claims", permission: Permissions.PROVIDERS_READ },
+  { icon: Inbox, label: "Leads", path: "/leads", permission: Permissions.PROVIDERS_READ },
 ];
 
 // Users & Access items
-const usersItems = [
-  { icon: Users, label: "Users", path: "/users" },
-  { icon: History, label: "Audit Log", path: "/audit-log" },
+const usersItems: NavItem[] = [
+  { icon: Users, label: "Users", path: "/users", permission: Permissions.USERS_READ },
+  { icon: MailPlus, label: "Invitations", path: "/invitations", permission: Permissions.ROLES_MANAGE },
+  { icon: History, label: "Audit Log", path: "/audit-log", permission: Permissions.AUDIT_READ },
+  { icon: MonitorSmartphone, label: "Admin Sessions", path: "/admin-sessions", permission: Permissions.SECURITY_READ },
+  { icon: ShieldAlert, label: "Security", path: "/security", permission: Permissions.SECURITY_READ },
+  { icon: FileWarning, label: "CSP Reports", path: "/security/csp", permission: Permissions.SECURITY_READ },
+  { icon: KeyRound, label: "Access Requests", path: "/access-requests" },
+  { icon: ClipboardCheck, label: "Approvals", path: "/approvals" },
+  { icon: KeySquare, label: "API Keys", path: "/api-keys", permission: Permissions.SECURITY_MANAGE },
 ];
 
 // System items
-const systemItems = [
-  { icon: Edit3, label: "Overrides", path: "/overrides" },
-  { icon: BarChart3, label: "Audit", path: "/strategic-audit" },
+const systemItems: NavItem[] = [
+  { icon: Edit3, label: "Overrides", path: "/overrides", permission: Permissions.PLACES_READ },
+  { icon: BarChart3, label: "Audit", path: "/strategic-audit", permission: Permissions.PLACES_READ },
+  { icon: CalendarClock, label: "Jobs", path: "/jobs", permission: Permissions.SYSTEM_MANAGE },
 ];
 
 // All mobile nav items flattened for the scrollable bar
-const mobileNavItems = [
+const mobileNavItems: NavItem[] = [
   ...menuItems,
-  { icon: BookOpen, label: "Atlas", path: "/articles" },
+  { icon: BookOpen, label: "Atlas", path: "/articles", permission: Permissions.CONTENT_READ },
   ...otherItems,
   // Moderation section
-  { icon: Film, label: "Stories", path: "/stories" },
-  { icon: ImageIcon, label: "Photos", path: "/photos" },
-  { icon: MessageSquare, label: "Reviews", path: "/reviews" },
-  { icon: Flag, label: "Flags", path: "/moderation" },
+  { icon: Film, label: "Stories", path: "/stories", permission: Permissions.MODERATION_READ },
+  { icon: ImageIcon, label: "Photos", path: "/photos", permission: Permissions.MODERATION_READ },
+  { icon: MessageSquare, label: "Reviews", path: "/reviews", permission: Permissions.MODERATION_READ },
+  { icon: Flag, label: "Flags", path: "/moderation", permission: Permissions.MODERATION_READ },
   // Providers section
-  { icon: Briefcase, label: "Providers", path: "/providers" },
-  { icon: CreditCard, label: "eCards", path: "/ecards" },
-  { icon: BadgeCheck, label: "Verify", path: "/verifications" },
-  { icon: Award, label: "Badges", path: "/credentials" },
-  { icon: Shield, label: "Claims", path: "/business-claims" },
-  { icon: Inbox, label: "Leads", path: "/leads" },
+  { icon: Briefcase, label: "Providers", path: "/providers", permission: Permissions.PROVIDERS_READ },
+  { icon: CreditCard, label: "eCards", path: "/ecards", permission: Permissions.PROVIDERS_READ },
+  { icon: BadgeCheck, label: "Verify", path: "/verifications", permission: Permissions.PROVIDERS_READ },
+  { icon: Award, label: "Badges", path: "/credentials", permission: Permissions.PROVIDERS_READ },
+  { icon: Shield, label: "Claims", path: "/business-claims", permission: Permissions.PROVIDERS_READ },
+  { icon: Inbox, label: "Leads", path: "/leads", permission: Permissions.PROVIDERS_READ },
   // Users section
-  { icon: Users, label: "Users", path: "/users" },
-  { icon: History, label: "Audit Log", path: "/audit-log" },
+  { icon: Users, label: "Users", path: "/users", permission: Permissions.USERS_READ },
+  { icon: MailPlus, label: "Invites", path: "/invitations", permission: Permissions.ROLES_MANAGE },
+  { icon: History, label: "Audit Log", path: "/audit-log", permission: Permissions.AUDIT_READ },
+  { icon: MonitorSmartphone, label: "Sessions", path: "/admin-sessions", permission: Permissions.SECURITY_READ },
+  { icon: ShieldAlert, label: "Security", path: "/security", permission: Permissions.SECURITY_READ },
+  { icon: FileWarning, label: "CSP", path: "/security/csp", permission: Permissions.SECURITY_READ },
+  { icon: KeyRound, label: "Access", path: "/access-requests" },
+  { icon: ClipboardCheck, label: "Approvals", path: "/approvals" },
+  { icon: KeySquare, label: "API Keys", path: "/api-keys", permission: Permissions.SECURITY_MANAGE },
   // System section
-  { icon: Edit3, label: "Overrides", path: "/overrides" },
-  { icon: BarChart3, label: "Str. Audit", path: "/strategic-audit" },
+  { icon: Edit3, label: "Overrides", path: "/overrides", permission: Permissions.PLACES_READ },
+  { icon: BarChart3, label: "Str. Audit", path: "/strategic-audit", permission: Permissions.PLACES_READ },
+  { icon: CalendarClock, label: "Jobs", path: "/jobs", permission: Permissions.SYSTEM_MANAGE },
 ];
 
 const SIDEBAR_WIDTH_KEY = "sidebar-width";
@@ -196,6 +232,7 @@ function DashboardLayoutContent({
   setSidebarWidth,
 }: DashboardLayoutContentProps) {
   const { user, signOut } = useSupabaseAuth();
+  const { can, impersonating } = useAuth();
   const [location, setLocation] = useLocation();
   const { state, toggleSidebar } = useSidebar();
   const isCollapsed = state === "collapsed";
@@ -204,6 +241,21 @@ function DashboardLayoutContent({
   const scrollNavRef = useRef<HTMLDivElement>(null);
   const isMobile = useIsMobile();
   
+  // Hide pages the caller's roles don't grant access to
+  const visibleItems = (items: NavItem[]) =>
+    items.filter(item => !item.permission || can(item.permission));
+  const visibleAtlasItems = visibleItems(atlasItems);
+
+  // Critical anomalies nobody has acknowledged yet, shown on the Security item
+  const { data: criticalAnomalies } = trpc.auth.getCriticalAnomalyCount.useQuery(undefined, {
+    // Portal-wide data is refused while viewing as another user
+    enabled: can(Permissions.SECURITY_READ) && !impersonating,
+    refetchInterval: 60 * 1000,
+  });
+  const navBadges: Record<string, number> = {
+    "/security": criticalAnomalies?.count || 0,
+  };
+
   // Check if current path is in Atlas section
   const isAtlasActive = atlasItems.some(item => item.path === location);
   const [atlasOpen, setAtlasOpen] = useState(isAtlasActive);
@@ -271,7 +323,7 @@ function DashboardLayoutContent({
     setLocation("/login");
   };
 
-  const renderMenuItem = (item: typeof menuItems[0]) => {
+  const renderMenuItem = (item: NavItem) => {
     const isActive = location === item.path;
     return (
       <SidebarMenuItem key={item.path}>
@@ -290,6 +342,11 @@ function DashboardLayoutContent({
           />
           <span className="truncate">{item.label}</span>
         </SidebarMenuButton>
+        {!!navBadges[item.path] && (
+          <SidebarMenuBadge className="top-3 bg-red-600 text-white" title="Critical anomalies awaiting acknowledgement">
+            {navBadges[item.path]}
+          </SidebarMenuBadge>
+        )}
       </SidebarMenuItem>
     );
   };
@@ -321,6 +378,13 @@ function DashboardLayoutContent({
               <DropdownMenuItem disabled className="text-xs text-muted-foreground">
                 {userEmail}
               </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() => setLocation("/account/security")}
+                className="cursor-pointer"
+              >
+                <KeyRound className="mr-2 h-4 w-4" />
+                <span>Account security</span>
+              </DropdownMenuItem>
               <DropdownMenuItem
                 onClick={handleSignOut}
                 className="cursor-pointer text-destructive focus:text-destructive"
@@ -342,7 +406,7 @@ function DashboardLayoutContent({
             scrollbarWidth: 'none',
           }}
         >
-          {mobileNavItems.map((item) => {
+          {visibleItems(mobileNavItems).map((item) => {
             const isActive = location === item.path;
             return (
               <button
@@ -357,12 +421,18 @@ function DashboardLayoutContent({
               >
                 <item.icon className={`h-3.5 w-3.5 shrink-0 ${isActive ? 'text-orange-400' : 'text-white/40'}`} />
                 <span>{item.label}</span>
+                {!!navBadges[item.path] && (
+                  <span className="rounded-full bg-red-600 px-1.5 text-[10px] font-semibold text-white">
+                    {navBadges[item.path]}
+                  </span>
+                )}
               </button>
             );
           })}
         </div>
 
         {/* Main Content */}
+        <ImpersonationBanner />
         <main className="flex-1 p-4 min-h-0">{children}</main>
       </div>
     );
@@ -403,78 +473,96 @@ function DashboardLayoutContent({
           <SidebarContent className="gap-0 px-2 py-4">
             <SidebarMenu>
               {/* Main menu items */}
-              {menuItems.map(renderMenuItem)}
+              {visibleItems(menuItems).map(renderMenuItem)}
               
               {/* Atlas Section - Collapsible */}
-              <Collapsible
-                open={atlasOpen}
-                onOpenChange={setAtlasOpen}
-                className="group/collapsible"
-              >
-                <SidebarMenuItem>
-                  <CollapsibleTrigger asChild>
-                    <SidebarMenuButton
-                      tooltip="Atlas"
-                      className={`h-11 transition-all font-medium rounded-lg mb-1 ${
-                        isAtlasActive 
-                          ? 'bg-gradient-to-r from-green-500/25 to-green-500/10 text-green-400 border border-green-500/30 hover:from-green-500/30 hover:to-green-500/15' 
-                          : 'text-white/70 hover:bg-white/8 hover:text-white border border-transparent'
-                      }`}
-                    >
-                      <BookOpen
-                        className={`h-5 w-5 shrink-0 ${isAtlasActive ? "text-green-400" : "text-white/50"}`}
-                      />
-                      <span className="truncate">Atlas</span>
-                      <ChevronRight className={`ml-auto h-4 w-4 transition-transform duration-200 ${atlasOpen ? 'rotate-90' : ''}`} />
-                    </SidebarMenuButton>
-                  </CollapsibleTrigger>
-                  <CollapsibleContent>
-                    <SidebarMenuSub>
-                      {atlasItems.map((item) => {
-                        const isActive = location === item.path;
-                        return (
-                          <SidebarMenuSubItem key={item.path}>
-                            <SidebarMenuSubButton
-                              onClick={() => setLocation(item.path)}
-                              className={`transition-all ${
-                                isActive 
-                                  ? 'text-green-400 bg-green-500/10' 
-                                  : 'text-white/60 hover:text-white hover:bg-white/5'
-                              }`}
-                            >
-                              <item.icon className={`h-4 w-4 ${isActive ? 'text-green-400' : 'text-white/40'}`} />
-                              <span>{item.label}</span>
-                            </SidebarMenuSubButton>
-                          </SidebarMenuSubItem>
-                        );
-                      })}
-                    </SidebarMenuSub>
-                  </CollapsibleContent>
-                </SidebarMenuItem>
-              </Collapsible>
+              {visibleAtlasItems.length > 0 && (
+                <Collapsible
+                  open={atlasOpen}
+                  onOpenChange={setAtlasOpen}
+                  className="group/collapsible"
+                >
+                  <SidebarMenuItem>
+                    <CollapsibleTrigger asChild>
+                      <SidebarMenuButton
+                        tooltip="Atlas"
+                        className={`h-11 transition-all font-medium rounded-lg mb-1 ${
+                          isAtlasActive 
+                            ? 'bg-gradient-to-r from-green-500/25 to-green-500/10 text-green-400 border border-green-500/30 hover:from-green-500/30 hover:to-green-500/15' 
+                            : 'text-white/70 hover:bg-white/8 hover:text-white border border-transparent'
+                        }`}
+                      >
+                        <BookOpen
+                          className={`h-5 w-5 shrink-0 ${isAtlasActive ? "text-green-400" : "text-white/50"}`}
+                        />
+                        <span className="truncate">Atlas</span>
+                        <ChevronRight className={`ml-auto h-4 w-4 transition-transform duration-200 ${atlasOpen ? 'rotate-90' : ''}`} />
+                      </SidebarMenuButton>
+                    </CollapsibleTrigger>
+                    <CollapsibleContent>
+                      <SidebarMenuSub>
+                        {visibleAtlasItems.map((item) => {
+                          const isActive = location === item.path;
+                          return (
+                            <SidebarMenuSubItem key={item.path}>
+                              <SidebarMenuSubButton
+                                onClick={() => setLocation(item.path)}
+                                className={`transition-all ${
+                                  isActive 
+                                    ? 'text-green-400 bg-green-500/10' 
+                                    : 'text-white/60 hover:text-white hover:bg-white/5'
+                                }`}
+                              >
+                                <item.icon className={`h-4 w-4 ${isActive ? 'text-green-400' : 'text-white/40'}`} />
+                                <span>{item.label}</span>
+                              </SidebarMenuSubButton>
+                            </SidebarMenuSubItem>
+                          );
+                        })}
+                      </SidebarMenuSub>
+                    </CollapsibleContent>
+                  </SidebarMenuItem>
+                </Collapsible>
+              )}
 
               {/* Other items */}
-              {otherItems.map(renderMenuItem)}
+              {visibleItems(otherItems).map(renderMenuItem)}
               
               {/* Divider - Content Moderation */}
-              <div className="my-3 mx-2 border-t border-white/10" />
-              <div className="px-3 py-1 text-xs uppercase tracking-wider text-white/40 font-medium">Moderation</div>
-              {moderationItems.map(renderMenuItem)}
+              {visibleItems(moderationItems).length > 0 && (
+                <>
+                  <div className="my-3 mx-2 border-t border-white/10" />
+                  <div className="px-3 py-1 text-xs uppercase tracking-wider text-white/40 font-medium">Moderation</div>
+                  {visibleItems(moderationItems).map(renderMenuItem)}
+                </>
+              )}
               
               {/* Divider - Providers */}
-              <div className="my-3 mx-2 border-t border-white/10" />
-              <div className="px-3 py-1 text-xs uppercase tracking-wider text-white/40 font-medium">Providers</div>
-              {providerItems.map(renderMenuItem)}
+              {visibleItems(providerItems).length > 0 && (
+                <>
+                  <div className="my-3 mx-2 border-t border-white/10" />
+                  <div className="px-3 py-1 text-xs uppercase tracking-wider text-white/40 font-medium">Providers</div>
+                  {visibleItems(providerItems).map(renderMenuItem)}
+                </>
+              )}
               
               {/* Divider - Users & Access */}
-              <div className="my-3 mx-2 border-t border-white/10" />
-              <div className="px-3 py-1 text-xs uppercase tracking-wider text-white/40 font-medium">Users & Access</div>
-              {usersItems.map(renderMenuItem)}
+              {visibleItems(usersItems).length > 0 && (
+                <>
+                  <div className="my-3 mx-2 border-t border-white/10" />
+                  <div className="px-3 py-1 text-xs uppercase tracking-wider text-white/40 font-medium">Users & Access</div>
+                  {visibleItems(usersItems).map(renderMenuItem)}
+                </>
+              )}
               
               {/* Divider - System */}
-              <div className="my-3 mx-2 border-t border-white/10" />
-              <div className="px-3 py-1 text-xs uppercase tracking-wider text-white/40 font-medium">System</div>
-              {systemItems.map(renderMenuItem)}
+              {visibleItems(systemItems).length > 0 && (
+                <>
+                  <div className="my-3 mx-2 border-t border-white/10" />
+                  <div className="px-3 py-1 text-xs uppercase tracking-wider text-white/40 font-medium">System</div>
+                  {visibleItems(systemItems).map(renderMenuItem)}
+                </>
+              )}
             </SidebarMenu>
           </SidebarContent>
 
@@ -501,6 +589,13 @@ function DashboardLayoutContent({
                 </button>
               </DropdownMenuTrigger>
               <DropdownMenuContent align="end" className="w-48">
+                <DropdownMenuItem
+                  onClick={() => setLocation("/account/security")}
+                  className="cursor-pointer"
+                >
+                  <KeyRound className="mr-2 h-4 w-4" />
+                  <span>Account security</span>
+                </DropdownMenuItem>
                 <DropdownMenuItem
                   onClick={handleSignOut}
                   className="cursor-pointer text-destructive focus:text-destructive"
@@ -526,6 +621,7 @@ function DashboardLayoutContent({
 
       {/* Main Content Area */}
       <SidebarInset className="bg-black">
+        <ImpersonationBanner />
         <main className="flex-1 p-6 min-h-screen">{children}</main>
       </SidebarInset>
     </>
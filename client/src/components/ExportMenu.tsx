@@ -0,0 +1,56 @@
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Download } from "lucide-react";
+
+type ExportDataset = "audit_log" | "login_anomalies";
+
+/**
+ * Build a URL for the streamed export endpoint; empty params are dropped
+ */
+export function buildExportUrl(
+  dataset: ExportDataset,
+  format: "csv" | "ndjson",
+  params: Record<string, string | undefined>
+): string {
+  const search = new URLSearchParams({ format });
+  Object.entries(params).forEach(([key, value]) => {
+    if (value) search.set(key, value);
+  });
+  return `/api/export/${dataset}?${search.toString()}`;
+}
+
+/**
+ * Download the current (filtered) results as CSV or NDJSON
+ */
+export function ExportMenu({
+  dataset,
+  params,
+}: {
+  dataset: ExportDataset;
+  params: Record<string, string | undefined>;
+}) {
+  // The server streams the file with Content-Disposition: attachment
+  const download = (format: "csv" | "ndjson") => {
+    window.location.href = buildExportUrl(dataset, format, params);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline">
+          <Download className="h-4 w-4 mr-2" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => download("csv")}>CSV</DropdownMenuItem>
+        <DropdownMenuItem onClick={() => download("ndjson")}>NDJSON</DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
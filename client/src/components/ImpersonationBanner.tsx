@@ -0,0 +1,70 @@
+import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { Eye, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { trpc } from "@/lib/trpc";
+import { useAuth } from "@/hooks/useAuth";
+
+/**
+ * Persistent banner shown while an admin is viewing the portal as another user
+ */
+export function ImpersonationBanner() {
+  const { impersonating } = useAuth();
+  const [, setLocation] = useLocation();
+  const utils = trpc.useUtils();
+  const [now, setNow] = useState(() => Date.now());
+
+  const stopMutation = trpc.impersonation.stop.useMutation({
+    onSettled: async () => {
+      await utils.invalidate();
+      setLocation("/users");
+    },
+  });
+
+  const expiresAt = impersonating ? new Date(impersonating.expiresAt).getTime() : 0;
+
+  useEffect(() => {
+    if (!impersonating) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [impersonating]);
+
+  // The server stops honouring the session at expiry; refresh everything when it does
+  useEffect(() => {
+    if (impersonating && now >= expiresAt) {
+      utils.invalidate();
+    }
+  }, [impersonating, now, expiresAt, utils]);
+
+  if (!impersonating) return null;
+
+  const remainingSeconds = Math.max(0, Math.floor((expiresAt - now) / 1000));
+  const minutes = Math.floor(remainingSeconds / 60);
+  const seconds = String(remainingSeconds % 60).padStart(2, "0");
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-2 border-b border-amber-500/40 bg-amber-500/15 px-4 py-2 text-sm text-amber-200">
+      <div className="flex items-center gap-2">
+        <Eye className="h-4 w-4 shrink-0" />
+        <span>
+          Viewing as <strong>{impersonating.email || impersonating.userId}</strong> (read-only). Every request is audited.
+        </span>
+      </div>
+      <div className="flex items-center gap-3">
+        <span className="tabular-nums text-amber-200/80">
+          Ends in {minutes}:{seconds}
+        </span>
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-7 border-amber-500/50 bg-transparent text-amber-100 hover:bg-amber-500/20"
+          onClick={() => stopMutation.mutate()}
+          disabled={stopMutation.isPending}
+        >
+          <X className="h-3.5 w-3.5 mr-1" />
+          Stop viewing
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import { useEffect, useState } from "react";
+import { browserSupportsWebAuthn, startAuthentication } from "@simplewebauthn/browser";
+import { KeyRound, ShieldAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { trpc } from "@/lib/trpc";
+import { resolveStepUp, subscribeStepUp } from "@/lib/stepUp";
+
+/**
+ * Password or passkey prompt opened by the step-up link when a sensitive
+ * action needs a fresh re-authentication; the action is retried once it succeeds
+ */
+export function StepUpDialog() {
+  const [open, setOpen] = useState(false);
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => subscribeStepUp(setOpen), []);
+
+  const onReauthenticated = () => {
+    setPassword("");
+    setError(null);
+    resolveStepUp(true);
+  };
+
+  const reauthMutation = trpc.auth.reauthenticate.useMutation({
+    onSuccess: onReauthenticated,
+    onError: (err) => {
+      setPassword("");
+      setError(err.message);
+    },
+  });
+
+  const passkeyOptionsMutation = trpc.auth.reauthenticationPasskeyOptions.useMutation();
+  const passkeyMutation = trpc.auth.reauthenticateWithPasskey.useMutation({
+    onSuccess: onReauthenticated,
+    onError: (err) => setError(err.message),
+  });
+  const passkeyPending = passkeyOptionsMutation.isPending || passkeyMutation.isPending;
+
+  const handlePasskey = async () => {
+    setError(null);
+    try {
+      const { challengeId, options } = await passkeyOptionsMutation.mutateAsync();
+      const response = await startAuthentication({ optionsJSON: options });
+      passkeyMutation.mutate({ challengeId, response });
+    } catch (err: any) {
+      // User cancelled the browser prompt - nothing to report
+      if (err?.name === "NotAllowedError") return;
+      setError(err?.message || "Passkey verification failed");
+    }
+  };
+
+  const cancel = () => {
+    setPassword("");
+    setError(null);
+    resolveStepUp(false);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!password) return;
+    reauthMutation.mutate({ password });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && cancel()}>
+      <DialogContent className="max-w-sm">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <ShieldAlert className="h-5 w-5 text-orange-500" />
+              Confirm it's you
+            </DialogTitle>
+            <DialogDescription>
+              This action is sensitive. Re-enter your password or use a passkey to continue; you won't be asked again for a few minutes.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 py-4">
+            <Label htmlFor="step-up-password">Password</Label>
+            <Input
+              id="step-up-password"
+              type="password"
+              autoComplete="current-password"
+              autoFocus
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+          <DialogFooter>
+            {browserSupportsWebAuthn() && (
+              <Button type="button" variant="outline" onClick={handlePasskey} disabled={passkeyPending}>
+                <KeyRound className="h-4 w-4 mr-2" />
+                {passkeyPending ? "Verifying..." : "Use passkey"}
+              </Button>
+            )}
+            <Button type="button" variant="outline" onClick={cancel}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!password || reauthMutation.isPending}>
+              {reauthMutation.isPending ? "Confirming..." : "Confirm"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,5 +1,6 @@
 import { trpc } from "@/lib/trpc";
 import { useLocation } from "wouter";
+import { hasPermission, type Permission } from "@shared/permissions";
 
 export function useAuth() {
   const [, setLocation] = useLocation();
@@ -17,11 +18,18 @@ export function useAuth() {
     logoutMutation.mutate();
   };
 
+  const permissions = user?.permissions || [];
+
   return {
     user,
     isLoading,
     isAuthenticated: !!user,
     isSuperAdmin: user?.isSuperAdmin || false,
+    roles: user?.roles || [],
+    permissions,
+    can: (permission: Permission) => hasPermission(permissions, permission),
+    // Set while viewing the portal as another user (read-only)
+    impersonating: user?.impersonating || null,
     error,
     logout,
   };
@@ -0,0 +1,19 @@
+/**
+ * High-impact mutations (user and universe deletes, super_admin grants, large
+ * imports) return a pending request instead of running when a second admin
+ * has to approve them. See server/pendingOperations.ts.
+ */
+export type PendingApproval = {
+  pendingApproval: true;
+  operationId: string;
+  summary: string;
+  expiresAt: Date;
+};
+
+export function isPendingApproval(result: unknown): result is PendingApproval {
+  return !!result && typeof result === "object" && (result as { pendingApproval?: unknown }).pendingApproval === true;
+}
+
+export function describePendingApproval(pending: PendingApproval): string {
+  return `Sent for approval: "${pending.summary}" runs once a second admin approves it (before ${new Date(pending.expiresAt).toLocaleString()}).`;
+}
@@ -0,0 +1,67 @@
+import type { TRPCLink } from "@trpc/client";
+import { observable, type Unsubscribable } from "@trpc/server/observable";
+import { STEP_UP_REQUIRED_ERR_MSG } from "@shared/const";
+import type { appRouter } from "../../../server/routers";
+
+type AppRouter = typeof appRouter;
+type Listener = (pending: boolean) => void;
+
+// Callers waiting for the re-auth dialog; concurrent calls share one prompt
+let waiting: Array<(confirmed: boolean) => void> = [];
+const listeners = new Set<Listener>();
+
+/**
+ * Ask the user to re-authenticate (password or passkey). Resolves true once
+ * that succeeded, false if the dialog was dismissed.
+ */
+export function requestStepUp(): Promise<boolean> {
+  return new Promise(resolve => {
+    waiting.push(resolve);
+    if (waiting.length === 1) {
+      listeners.forEach(listener => listener(true));
+    }
+  });
+}
+
+/**
+ * Called by the re-auth dialog when it closes
+ */
+export function resolveStepUp(confirmed: boolean) {
+  const callers = waiting;
+  waiting = [];
+  listeners.forEach(listener => listener(false));
+  callers.forEach(resolve => resolve(confirmed));
+}
+
+export function subscribeStepUp(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * tRPC link: when a call is refused for lack of a recent re-authentication,
+ * open the re-auth dialog and retry the call once it succeeds
+ */
+export const stepUpLink: TRPCLink<AppRouter> = () => ({ op, next }) =>
+  observable(observer => {
+    let subscription: Unsubscribable | null = null;
+
+    const attempt = (retried: boolean) => {
+      subscription = next(op).subscribe({
+        next: value => observer.next(value),
+        error: async error => {
+          if (!retried && error.message === STEP_UP_REQUIRED_ERR_MSG && (await requestStepUp())) {
+            attempt(true);
+            return;
+          }
+          observer.error(error);
+        },
+        complete: () => observer.complete(),
+      });
+    };
+
+    attempt(false);
+    return () => subscription?.unsubscribe();
+  });
@@ -25,7 +25,9 @@ const createSupabaseClient = () => {
     auth: {
       autoRefreshToken: true,
       persistSession: true,
-      detectSessionInUrl: true,
+      // The reset page hands its recovery token to the server instead of
+      // signing in with it
+      detectSessionInUrl: (url) => url.pathname !== "/reset-password",
     },
   });
 };
@@ -41,41 +43,11 @@ export async function signInWithEmail(email: string, password: string) {
   return { data, error };
 }
 
-export async function signUpWithEmail(
-  email: string,
-  password: string,
-  metadata?: Record<string, any>
-) {
-  const { data, error } = await supabase.auth.signUp({
-    email,
-    password,
-    options: {
-      data: metadata,
-      emailRedirectTo: `${window.location.origin}/dashboard`,
-    },
-  });
-  return { data, error };
-}
-
 export async function signOut() {
   const { error } = await supabase.auth.signOut();
   return { error };
 }
 
-export async function resetPassword(email: string) {
-  const { data, error } = await supabase.auth.resetPasswordForEmail(email, {
-    redirectTo: 'https://tavvy.com/app/reset-password',
-  });
-  return { data, error };
-}
-
-export async function updatePassword(newPassword: string) {
-  const { data, error } = await supabase.auth.updateUser({
-    password: newPassword,
-  });
-  return { data, error };
-}
-
 export async function getCurrentUser() {
   const {
     data: { user },
@@ -1,11 +1,12 @@
 import { trpc } from "@/lib/trpc";
-import { UNAUTHED_ERR_MSG } from '@shared/const';
+import { PASSWORD_ROTATION_ERR_MSG, UNAUTHED_ERR_MSG } from '@shared/const';
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { httpBatchLink, TRPCClientError } from "@trpc/client";
 import { createRoot } from "react-dom/client";
 import superjson from "superjson";
 import App from "./App";
 import "./index.css";
+import { stepUpLink } from "@/lib/stepUp";
 import { SupabaseAuthProvider } from "@/contexts/SupabaseAuthContext";
 
 const queryClient = new QueryClient();
@@ -14,6 +15,14 @@ const redirectToLoginIfUnauthorized = (error: unknown) => {
   if (!(error instanceof TRPCClientError)) return;
   if (typeof window === "undefined") return;
 
+  // Super admins with an expired password can only use their account page
+  if (error.message === PASSWORD_ROTATION_ERR_MSG) {
+    if (window.location.pathname !== "/account/security") {
+      window.location.href = "/account/security";
+    }
+    return;
+  }
+
   const isUnauthorized = error.message === UNAUTHED_ERR_MSG;
 
   if (!isUnauthorized) return;
@@ -40,6 +49,7 @@ queryClient.getMutationCache().subscribe(event => {
 
 const trpcClient = trpc.createClient({
   links: [
+    stepUpLink,
     httpBatchLink({
       url: "/api/trpc",
       transformer: superjson,
@@ -0,0 +1,406 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { trpc } from "@/lib/trpc";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Permissions, PORTAL_ROLES, type Role } from "@shared/permissions";
+import { KeyRound, Check, X, RefreshCw } from "lucide-react";
+
+const ROLE_LABELS: Record<Role, string> = {
+  super_admin: "Super Admin",
+  moderator: "Moderator",
+  content_editor: "Content Editor",
+  rep: "Rep",
+  support: "Support",
+};
+
+const DURATION_OPTIONS = [1, 4, 8, 24, 72];
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "outline",
+  approved: "default",
+  denied: "destructive",
+  cancelled: "secondary",
+  expired: "secondary",
+};
+
+type ReviewTarget = {
+  id: string;
+  decision: "approve" | "deny";
+  label: string;
+};
+
+const formatDuration = (minutes: number) =>
+  minutes % 60 === 0 ? `${minutes / 60}h` : `${minutes}m`;
+
+const formatDate = (date: Date | null) => (date ? new Date(date).toLocaleString() : "-");
+
+export default function AccessRequests() {
+  const { toast } = useToast();
+  const { user, roles, isSuperAdmin, can } = useAuth();
+  const [role, setRole] = useState<Role | "">("");
+  const [reason, setReason] = useState("");
+  const [durationHours, setDurationHours] = useState("4");
+  const [reviewTarget, setReviewTarget] = useState<ReviewTarget | null>(null);
+  const [note, setNote] = useState("");
+
+  const canReview = can(Permissions.ROLES_MANAGE);
+  const requestableRoles = PORTAL_ROLES.filter((r) => !roles.includes(r));
+
+  const { data: myRequests, isLoading: loadingMine, refetch: refetchMine } = trpc.roleElevation.mine.useQuery();
+  const {
+    data: pending,
+    isLoading: loadingPending,
+    refetch: refetchPending,
+    isFetching,
+  } = trpc.roleElevation.list.useQuery({ status: "pending" }, { enabled: canReview });
+
+  const onError = (error: { message: string }) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const requestMutation = trpc.roleElevation.request.useMutation({
+    onSuccess: () => {
+      toast({ title: "Request submitted", description: "A super admin will review it shortly." });
+      setRole("");
+      setReason("");
+      refetchMine();
+    },
+    onError,
+  });
+
+  const cancelMutation = trpc.roleElevation.cancel.useMutation({
+    onSuccess: () => {
+      toast({ title: "Request cancelled" });
+      refetchMine();
+    },
+    onError,
+  });
+
+  const reviewMutation = trpc.roleElevation.review.useMutation({
+    onSuccess: (data) => {
+      toast({
+        title: data.status === "approved" ? "Request approved" : "Request denied",
+        description:
+          data.status === "approved"
+            ? `Access expires ${formatDate(data.grantExpiresAt)}.`
+            : undefined,
+      });
+      setReviewTarget(null);
+      setNote("");
+      refetchPending();
+    },
+    onError,
+  });
+
+  const handleSubmit = () => {
+    if (!role) return;
+    requestMutation.mutate({
+      role,
+      reason: reason.trim(),
+      durationHours: Number(durationHours),
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Access Requests</h1>
+          <p className="text-muted-foreground">Temporary role elevation, approved by a second super admin</p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => {
+            refetchMine();
+            if (canReview) refetchPending();
+          }}
+          disabled={isFetching}
+        >
+          <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? "animate-spin" : ""}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {canReview && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Pending review</CardTitle>
+            <CardDescription>
+              {isSuperAdmin
+                ? "Approved roles are granted immediately and removed when they expire."
+                : "Only super admins can approve or deny requests."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loadingPending ? (
+              <div className="space-y-2">
+                {[...Array(3)].map((_, i) => (
+                  <Skeleton key={i} className="h-12 w-full" />
+                ))}
+              </div>
+            ) : !pending || pending.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">No pending requests</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Requester</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead>Duration</TableHead>
+                    <TableHead>Requested</TableHead>
+                    {isSuperAdmin && <TableHead className="text-right">Actions</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {pending.map((request) => {
+                    const isOwn = request.userId === user?.id;
+                    const label = `${ROLE_LABELS[request.role as Role] || request.role} for ${request.userEmail || request.userId}`;
+                    return (
+                      <TableRow key={request.id}>
+                        <TableCell className="font-medium">{request.userEmail || request.userId}</TableCell>
+                        <TableCell>{ROLE_LABELS[request.role as Role] || request.role}</TableCell>
+                        <TableCell className="max-w-sm text-sm">{request.reason}</TableCell>
+                        <TableCell>{formatDuration(request.durationMinutes)}</TableCell>
+                        <TableCell className="text-sm">{formatDate(request.requestedAt)}</TableCell>
+                        {isSuperAdmin && (
+                          <TableCell className="text-right space-x-2 whitespace-nowrap">
+                            {isOwn ? (
+                              <span className="text-xs text-muted-foreground">Needs another reviewer</span>
+                            ) : (
+                              <>
+                                <Button
+                                  size="sm"
+                                  onClick={() => setReviewTarget({ id: request.id, decision: "approve", label })}
+                                >
+                                  <Check className="h-4 w-4 mr-1" />
+                                  Approve
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => setReviewTarget({ id: request.id, decision: "deny", label })}
+                                >
+                                  <X className="h-4 w-4 mr-1" />
+                                  Deny
+                                </Button>
+                              </>
+                            )}
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            Request a role
+          </CardTitle>
+          <CardDescription>
+            Ask for a role you need for a specific task. Access is removed automatically when the duration ends.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Role</Label>
+              <Select value={role} onValueChange={(value) => setRole(value as Role)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a role" />
+                </SelectTrigger>
+                <SelectContent>
+                  {requestableRoles.map((r) => (
+                    <SelectItem key={r} value={r}>{ROLE_LABELS[r]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Duration</Label>
+              <Select value={durationHours} onValueChange={setDurationHours}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DURATION_OPTIONS.map((hours) => (
+                    <SelectItem key={hours} value={String(hours)}>
+                      {hours} hour{hours === 1 ? "" : "s"}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="elevation-reason">Reason</Label>
+            <Textarea
+              id="elevation-reason"
+              placeholder="e.g. Bulk-fixing universe metadata for the spring launch"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              maxLength={500}
+            />
+          </div>
+          <Button
+            onClick={handleSubmit}
+            disabled={!role || reason.trim().length < 10 || requestMutation.isPending}
+          >
+            {requestMutation.isPending ? "Submitting..." : "Submit request"}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>My requests</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loadingMine ? (
+            <div className="space-y-2">
+              {[...Array(3)].map((_, i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : !myRequests || myRequests.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">You haven't requested any roles</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Duration</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Requested</TableHead>
+                  <TableHead>Access until</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {myRequests.map((request) => (
+                  <TableRow key={request.id}>
+                    <TableCell className="font-medium">{ROLE_LABELS[request.role as Role] || request.role}</TableCell>
+                    <TableCell className="max-w-sm text-sm">
+                      {request.reason}
+                      {request.reviewNote && (
+                        <div className="text-xs text-muted-foreground mt-1">
+                          {request.reviewedByEmail || "Reviewer"}: {request.reviewNote}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>{formatDuration(request.durationMinutes)}</TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANTS[request.status] || "outline"} className="capitalize">
+                        {request.revokedAt ? "ended" : request.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">{formatDate(request.requestedAt)}</TableCell>
+                    <TableCell className="text-sm">{formatDate(request.grantExpiresAt)}</TableCell>
+                    <TableCell className="text-right">
+                      {request.status === "pending" && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => cancelMutation.mutate({ id: request.id })}
+                          disabled={cancelMutation.isPending}
+                        >
+                          Cancel
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog
+        open={!!reviewTarget}
+        onOpenChange={(open) => {
+          if (!open) {
+            setReviewTarget(null);
+            setNote("");
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {reviewTarget?.decision === "approve" ? "Approve request" : "Deny request"}
+            </DialogTitle>
+            <DialogDescription>
+              {reviewTarget?.label}. This decision is recorded in the audit log.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="review-note">Note (optional)</Label>
+            <Textarea
+              id="review-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={500}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setReviewTarget(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant={reviewTarget?.decision === "deny" ? "destructive" : "default"}
+              onClick={() =>
+                reviewTarget &&
+                reviewMutation.mutate({
+                  id: reviewTarget.id,
+                  decision: reviewTarget.decision,
+                  note: note.trim() || undefined,
+                })
+              }
+              disabled={reviewMutation.isPending}
+            >
+              {reviewTarget?.decision === "approve" ? "Approve" : "Deny"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
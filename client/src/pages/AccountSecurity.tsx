@@ -0,0 +1,585 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { trpc } from "@/lib/trpc";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { browserSupportsWebAuthn, startRegistration } from "@simplewebauthn/browser";
+import { KeyRound, ShieldCheck, ShieldOff, Copy, RefreshCw, Fingerprint, Trash2, Plus, LockKeyhole, AlertCircle, MonitorSmartphone, Pencil } from "lucide-react";
+
+type CodeAction = "disable" | "regenerate";
+
+export default function AccountSecurity() {
+  const { toast } = useToast();
+  const utils = trpc.useUtils();
+
+  const [enrollment, setEnrollment] = useState<{ secret: string; qrCodeDataUrl: string } | null>(null);
+  const [enrollCode, setEnrollCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [codeAction, setCodeAction] = useState<CodeAction | null>(null);
+  const [actionCode, setActionCode] = useState("");
+  const [passkeyName, setPasskeyName] = useState("");
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [passwordError, setPasswordError] = useState<string | null>(null);
+  const [deviceName, setDeviceName] = useState("");
+  const [renamingDevice, setRenamingDevice] = useState<{ id: string; name: string } | null>(null);
+
+  const { user } = useAuth();
+  const { data: passwordPolicy } = trpc.auth.passwordPolicy.useQuery();
+
+  const { data: status, isLoading } = trpc.twoFactor.status.useQuery();
+  const { data: passkeys, isLoading: passkeysLoading } = trpc.auth.listPasskeys.useQuery();
+  const { data: trustedDevices, isLoading: trustedDevicesLoading } = trpc.auth.listTrustedDevices.useQuery();
+
+  const onError = (error: { message: string }) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const setupMutation = trpc.twoFactor.setup.useMutation({
+    onSuccess: (data) => {
+      setEnrollment(data);
+      setEnrollCode("");
+    },
+    onError,
+  });
+
+  const enableMutation = trpc.twoFactor.enable.useMutation({
+    onSuccess: (data) => {
+      setEnrollment(null);
+      setRecoveryCodes(data.recoveryCodes);
+      utils.twoFactor.status.invalidate();
+      toast({ title: "Two-factor enabled", description: "Your account is now protected with an authenticator app." });
+    },
+    onError: (error) => {
+      setEnrollCode("");
+      onError(error);
+    },
+  });
+
+  const disableMutation = trpc.twoFactor.disable.useMutation({
+    onSuccess: () => {
+      closeCodeDialog();
+      utils.twoFactor.status.invalidate();
+      toast({ title: "Two-factor disabled" });
+    },
+    onError,
+  });
+
+  const regenerateMutation = trpc.twoFactor.regenerateRecoveryCodes.useMutation({
+    onSuccess: (data) => {
+      closeCodeDialog();
+      setRecoveryCodes(data.recoveryCodes);
+      utils.twoFactor.status.invalidate();
+    },
+    onError,
+  });
+
+  const passkeyOptionsMutation = trpc.auth.passkeyRegistrationOptions.useMutation();
+  const registerPasskeyMutation = trpc.auth.verifyPasskeyRegistration.useMutation({
+    onSuccess: () => {
+      setPasskeyName("");
+      utils.auth.listPasskeys.invalidate();
+      toast({ title: "Passkey added", description: "You can now sign in with this passkey." });
+    },
+    onError,
+  });
+
+  const deletePasskeyMutation = trpc.auth.deletePasskey.useMutation({
+    onSuccess: () => {
+      utils.auth.listPasskeys.invalidate();
+      toast({ title: "Passkey removed" });
+    },
+    onError,
+  });
+
+  const handleAddPasskey = async () => {
+    try {
+      const options = await passkeyOptionsMutation.mutateAsync();
+      const response = await startRegistration({ optionsJSON: options });
+      registerPasskeyMutation.mutate({ name: passkeyName.trim(), response });
+    } catch (err: any) {
+      // User cancelled the browser prompt - nothing to report
+      if (err?.name === "NotAllowedError") return;
+      onError({ message: err?.message || "Passkey registration failed" });
+    }
+  };
+
+  const trustDeviceMutation = trpc.auth.trustCurrentDevice.useMutation({
+    onSuccess: () => {
+      setDeviceName("");
+      utils.auth.listTrustedDevices.invalidate();
+      toast({ title: "Device trusted", description: "Sign-ins from this device won't be flagged as new." });
+    },
+    onError,
+  });
+
+  const renameDeviceMutation = trpc.auth.renameTrustedDevice.useMutation({
+    onSuccess: () => {
+      setRenamingDevice(null);
+      utils.auth.listTrustedDevices.invalidate();
+    },
+    onError,
+  });
+
+  const removeDeviceMutation = trpc.auth.removeTrustedDevice.useMutation({
+    onSuccess: () => {
+      utils.auth.listTrustedDevices.invalidate();
+      toast({ title: "Device removed" });
+    },
+    onError,
+  });
+
+  const changePasswordMutation = trpc.auth.changePassword.useMutation({
+    onSuccess: () => {
+      setCurrentPassword("");
+      setNewPassword("");
+      setConfirmPassword("");
+      setPasswordError(null);
+      utils.auth.me.invalidate();
+      toast({ title: "Password changed", description: "Use your new password the next time you sign in." });
+    },
+    // Policy failures explain themselves; keep them next to the form
+    onError: (error) => setPasswordError(error.message),
+  });
+
+  const handleChangePassword = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newPassword !== confirmPassword) {
+      setPasswordError("New passwords do not match");
+      return;
+    }
+    setPasswordError(null);
+    changePasswordMutation.mutate({ currentPassword, newPassword });
+  };
+
+  const closeCodeDialog = () => {
+    setCodeAction(null);
+    setActionCode("");
+  };
+
+  const handleCodeAction = () => {
+    if (codeAction === "disable") {
+      disableMutation.mutate({ code: actionCode.trim() });
+    } else if (codeAction === "regenerate") {
+      regenerateMutation.mutate({ code: actionCode.trim() });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Account Security</h1>
+        <p className="text-muted-foreground">Manage how you sign in to the admin portal</p>
+      </div>
+
+      {user?.passwordRotationDue && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            Your password has expired. Super admins must change their password regularly; choose a new one below to continue using the portal.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <LockKeyhole className="h-5 w-5" />
+            Password
+          </CardTitle>
+          <CardDescription>
+            At least {passwordPolicy?.minLength ?? 12} characters, not based on your email address, and not a password known from data breaches.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleChangePassword} className="space-y-4 max-w-sm">
+            {passwordError && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{passwordError}</AlertDescription>
+              </Alert>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="current-password">Current password</Label>
+              <Input
+                id="current-password"
+                type="password"
+                autoComplete="current-password"
+                value={currentPassword}
+                onChange={(e) => setCurrentPassword(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-password">New password</Label>
+              <Input
+                id="new-password"
+                type="password"
+                autoComplete="new-password"
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+                maxLength={passwordPolicy?.maxLength}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="confirm-password">Confirm new password</Label>
+              <Input
+                id="confirm-password"
+                type="password"
+                autoComplete="new-password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                required
+              />
+            </div>
+            <Button type="submit" disabled={changePasswordMutation.isPending}>
+              {changePasswordMutation.isPending ? "Changing..." : "Change password"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <KeyRound className="h-5 w-5" />
+                Two-factor authentication
+              </CardTitle>
+              <CardDescription>
+                Require a code from an authenticator app in addition to your password.
+              </CardDescription>
+            </div>
+            {status && (
+              <Badge variant={status.enabled ? "default" : "secondary"}>
+                {status.enabled ? "Enabled" : "Disabled"}
+              </Badge>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading ? (
+            <Skeleton className="h-20 w-full" />
+          ) : status?.enabled ? (
+            <>
+              <div className="flex items-center gap-2 text-sm">
+                <ShieldCheck className="h-4 w-4 text-green-500" />
+                <span>
+                  Enabled {status.enabledAt ? `on ${new Date(status.enabledAt).toLocaleDateString()}` : ""}
+                  {" - "}
+                  {status.recoveryCodesRemaining} recovery codes remaining
+                </span>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Button variant="outline" onClick={() => setCodeAction("regenerate")}>
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                  Regenerate recovery codes
+                </Button>
+                {!status.required && (
+                  <Button variant="destructive" onClick={() => setCodeAction("disable")}>
+                    <ShieldOff className="h-4 w-4 mr-2" />
+                    Disable
+                  </Button>
+                )}
+              </div>
+              {status.required && (
+                <p className="text-xs text-muted-foreground">
+                  Two-factor authentication is required for super admins and cannot be disabled.
+                </p>
+              )}
+            </>
+          ) : enrollment ? (
+            <div className="space-y-4 max-w-sm">
+              <p className="text-sm text-muted-foreground">
+                Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+              </p>
+              <div className="flex justify-center p-3 bg-white rounded-lg w-fit">
+                <img src={enrollment.qrCodeDataUrl} alt="Authenticator QR code" className="h-48 w-48" />
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Can't scan? Enter this key manually:</p>
+                <p className="font-mono text-sm break-all">{enrollment.secret}</p>
+              </div>
+              <InputOTP maxLength={6} value={enrollCode} onChange={setEnrollCode}>
+                <InputOTPGroup>
+                  {[0, 1, 2, 3, 4, 5].map((index) => (
+                    <InputOTPSlot key={index} index={index} />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+              <div className="flex gap-2">
+                <Button
+                  onClick={() => enableMutation.mutate({ code: enrollCode })}
+                  disabled={enrollCode.length !== 6 || enableMutation.isPending}
+                >
+                  {enableMutation.isPending ? "Verifying..." : "Enable"}
+                </Button>
+                <Button variant="ghost" onClick={() => setEnrollment(null)}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending}>
+              <ShieldCheck className="h-4 w-4 mr-2" />
+              {setupMutation.isPending ? "Preparing..." : "Set up two-factor authentication"}
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Fingerprint className="h-5 w-5" />
+            Passkeys
+          </CardTitle>
+          <CardDescription>
+            Sign in with your device's fingerprint, face or screen lock, or a security key, instead of a password.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {passkeysLoading ? (
+            <Skeleton className="h-16 w-full" />
+          ) : passkeys && passkeys.length > 0 ? (
+            <div className="divide-y rounded-lg border">
+              {passkeys.map((passkey) => (
+                <div key={passkey.id} className="flex items-center justify-between p-3">
+                  <div>
+                    <p className="font-medium">{passkey.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Added {new Date(passkey.createdAt).toLocaleDateString()}
+                      {" - "}
+                      {passkey.lastUsedAt
+                        ? `last used ${new Date(passkey.lastUsedAt).toLocaleString()}`
+                        : "never used"}
+                      {passkey.backedUp && " - synced"}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => deletePasskeyMutation.mutate({ id: passkey.id })}
+                    disabled={deletePasskeyMutation.isPending}
+                    aria-label={`Remove ${passkey.name}`}
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No passkeys registered yet.</p>
+          )}
+          {browserSupportsWebAuthn() ? (
+            <div className="flex gap-2 max-w-md">
+              <Input
+                placeholder="Passkey name (e.g. MacBook Touch ID)"
+                value={passkeyName}
+                onChange={(e) => setPasskeyName(e.target.value)}
+                maxLength={100}
+              />
+              <Button
+                onClick={handleAddPasskey}
+                disabled={!passkeyName.trim() || passkeyOptionsMutation.isPending || registerPasskeyMutation.isPending}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add passkey
+              </Button>
+            </div>
+          ) : (
+            <p className="text-xs text-muted-foreground">This browser does not support passkeys.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <MonitorSmartphone className="h-5 w-5" />
+            Trusted devices
+          </CardTitle>
+          <CardDescription>
+            Sign-ins from a device you haven't used before are reported and emailed to you for confirmation.
+            Devices you trust are not.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {trustedDevicesLoading ? (
+            <Skeleton className="h-16 w-full" />
+          ) : trustedDevices && trustedDevices.devices.length > 0 ? (
+            <div className="divide-y rounded-lg border">
+              {trustedDevices.devices.map((device) => (
+                <div key={device.id} className="flex items-center justify-between p-3">
+                  <div>
+                    <p className="font-medium flex items-center gap-2">
+                      {device.name}
+                      {device.isCurrent && <Badge variant="secondary">This device</Badge>}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Trusted {new Date(device.createdAt).toLocaleDateString()}
+                      {device.ipAddress && ` from ${device.ipAddress}`}
+                      {device.lastUsedAt && ` - last used ${new Date(device.lastUsedAt).toLocaleString()}`}
+                    </p>
+                  </div>
+                  <div className="flex">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setRenamingDevice({ id: device.id, name: device.name })}
+                      aria-label={`Rename ${device.name}`}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => removeDeviceMutation.mutate({ id: device.id })}
+                      disabled={removeDeviceMutation.isPending}
+                      aria-label={`Remove ${device.name}`}
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No trusted devices yet.</p>
+          )}
+          {trustedDevices && !trustedDevices.currentDeviceTrusted && (
+            <div className="flex gap-2 max-w-md">
+              <Input
+                placeholder={trustedDevices.suggestedName}
+                value={deviceName}
+                onChange={(e) => setDeviceName(e.target.value)}
+                maxLength={100}
+              />
+              <Button
+                onClick={() => trustDeviceMutation.mutate({ name: deviceName.trim() || trustedDevices.suggestedName })}
+                disabled={trustDeviceMutation.isPending}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Trust this device
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Rename a trusted device */}
+      <Dialog open={!!renamingDevice} onOpenChange={(open) => !open && setRenamingDevice(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rename trusted device</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="device-name">Name</Label>
+            <Input
+              id="device-name"
+              value={renamingDevice?.name || ""}
+              onChange={(e) => renamingDevice && setRenamingDevice({ ...renamingDevice, name: e.target.value })}
+              maxLength={100}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setRenamingDevice(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => renamingDevice && renameDeviceMutation.mutate({ id: renamingDevice.id, name: renamingDevice.name.trim() })}
+              disabled={!renamingDevice?.name.trim() || renameDeviceMutation.isPending}
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Recovery codes (shown once) */}
+      <Dialog open={!!recoveryCodes} onOpenChange={(open) => !open && setRecoveryCodes(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save your recovery codes</DialogTitle>
+            <DialogDescription>
+              Each code can be used once if you lose access to your authenticator app.
+              They will not be shown again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-2 p-4 bg-muted rounded-lg font-mono text-sm">
+            {recoveryCodes?.map((code) => (
+              <span key={code}>{code}</span>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => {
+                navigator.clipboard.writeText((recoveryCodes || []).join("\n"));
+                toast({ title: "Copied", description: "Recovery codes copied to clipboard." });
+              }}
+            >
+              <Copy className="h-4 w-4 mr-2" />
+              Copy codes
+            </Button>
+            <Button onClick={() => setRecoveryCodes(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Confirm sensitive action with a current code */}
+      <Dialog open={!!codeAction} onOpenChange={(open) => !open && closeCodeDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {codeAction === "disable" ? "Disable two-factor authentication" : "Regenerate recovery codes"}
+            </DialogTitle>
+            <DialogDescription>
+              Enter a code from your authenticator app or a recovery code to continue.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="action-code">Verification code</Label>
+            <Input
+              id="action-code"
+              value={actionCode}
+              onChange={(e) => setActionCode(e.target.value)}
+              autoComplete="one-time-code"
+              className="font-mono"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="ghost" onClick={closeCodeDialog}>
+              Cancel
+            </Button>
+            <Button
+              variant={codeAction === "disable" ? "destructive" : "default"}
+              onClick={handleCodeAction}
+              disabled={actionCode.trim().length < 6 || disableMutation.isPending || regenerateMutation.isPending}
+            >
+              Confirm
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,400 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { trpc } from "@/lib/trpc";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Permissions } from "@shared/permissions";
+import { MonitorSmartphone, MapPin, Clock, LogOut, RefreshCw, Lock, Unlock, Snowflake } from "lucide-react";
+
+type RevokeTarget =
+  | { type: "session"; sessionId: string; label: string }
+  | { type: "user"; userId: string; label: string };
+
+export default function AdminSessions() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const [userFilter, setUserFilter] = useState<string>("all");
+  const [revokeTarget, setRevokeTarget] = useState<RevokeTarget | null>(null);
+  const [reason, setReason] = useState("");
+
+  const canManage = can(Permissions.SECURITY_MANAGE);
+
+  const { data: sessions, isLoading, refetch, isFetching } = trpc.sessions.listAll.useQuery(
+    userFilter !== "all" ? { userId: userFilter } : undefined
+  );
+  const { data: lockedAccounts, refetch: refetchLockouts } = trpc.lockouts.list.useQuery();
+  const { data: frozenAccounts, refetch: refetchFreezes } = trpc.accountFreezes.list.useQuery();
+  // Unfiltered list for the user picker
+  const { data: allSessions } = trpc.sessions.listAll.useQuery();
+
+  const users = useMemo(() => {
+    const map = new Map<string, string>();
+    for (const s of allSessions || []) {
+      map.set(s.userId, s.userEmail || s.userId);
+    }
+    return Array.from(map.entries()).sort((a, b) => a[1].localeCompare(b[1]));
+  }, [allSessions]);
+
+  const onRevoked = (description: string) => {
+    toast({ title: "Sessions revoked", description });
+    setRevokeTarget(null);
+    setReason("");
+    refetch();
+  };
+
+  const onError = (error: { message: string }) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const revokeMutation = trpc.sessions.revoke.useMutation({
+    onSuccess: () => onRevoked("The session has been signed out."),
+    onError,
+  });
+
+  const revokeAllMutation = trpc.sessions.revokeAllForUser.useMutation({
+    onSuccess: (data) => onRevoked(`${data.sessionsRevoked} session(s) signed out.`),
+    onError,
+  });
+
+  const unlockMutation = trpc.lockouts.unlock.useMutation({
+    onSuccess: (_, variables) => {
+      toast({ title: "Account unlocked", description: `${variables.email} can sign in again.` });
+      refetchLockouts();
+    },
+    onError,
+  });
+
+  const unfreezeMutation = trpc.accountFreezes.unfreeze.useMutation({
+    onSuccess: (_, variables) => {
+      const account = frozenAccounts?.find((f) => f.userId === variables.userId);
+      toast({ title: "Freeze lifted", description: `${account?.userEmail || "The account"} can sign in again.` });
+      refetchFreezes();
+    },
+    onError,
+  });
+
+  const handleRevoke = () => {
+    if (!revokeTarget) return;
+    if (revokeTarget.type === "session") {
+      revokeMutation.mutate({ sessionId: revokeTarget.sessionId, reason });
+    } else {
+      revokeAllMutation.mutate({ userId: revokeTarget.userId, reason });
+    }
+  };
+
+  const formatDate = (date: string) => new Date(date).toLocaleString();
+
+  const shortAgent = (userAgent: string | null) => {
+    if (!userAgent) return "Unknown device";
+    const browser = userAgent.match(/(Edg|Chrome|Firefox|Safari)\/[\d.]+/)?.[0]?.replace("Edg", "Edge") || "Browser";
+    const os = userAgent.match(/\(([^;)]+)/)?.[1] || "Unknown OS";
+    return `${browser.split("/")[0]} on ${os}`;
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Admin Sessions</h1>
+          <p className="text-muted-foreground">Active portal sessions across the team</p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => {
+            refetch();
+            refetchLockouts();
+            refetchFreezes();
+          }}
+          disabled={isFetching}
+        >
+          <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? "animate-spin" : ""}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {lockedAccounts && lockedAccounts.length > 0 && (
+        <Card className="border-destructive/50">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Lock className="h-5 w-5 text-destructive" />
+              Locked accounts
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Failed attempts</TableHead>
+                  <TableHead>Last attempt</TableHead>
+                  <TableHead>Locked until</TableHead>
+                  {canManage && <TableHead className="text-right">Actions</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lockedAccounts.map((account) => (
+                  <TableRow key={account.email}>
+                    <TableCell className="font-medium">{account.email}</TableCell>
+                    <TableCell>{account.failedCount}</TableCell>
+                    <TableCell>
+                      <div className="text-sm">{formatDate(account.lastFailedAt)}</div>
+                      <div className="text-xs text-muted-foreground font-mono">{account.lastIpAddress || "-"}</div>
+                    </TableCell>
+                    <TableCell className="text-sm">{formatDate(account.lockedUntil)}</TableCell>
+                    {canManage && (
+                      <TableCell className="text-right">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => unlockMutation.mutate({ email: account.email })}
+                          disabled={unlockMutation.isPending}
+                        >
+                          <Unlock className="h-4 w-4 mr-2" />
+                          Unlock
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {frozenAccounts && frozenAccounts.length > 0 && (
+        <Card className="border-destructive/50">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Snowflake className="h-5 w-5 text-destructive" />
+              Frozen accounts
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Account</TableHead>
+                  <TableHead>Rule</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Frozen at</TableHead>
+                  {canManage && <TableHead className="text-right">Actions</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {frozenAccounts.map((account) => (
+                  <TableRow key={account.userId}>
+                    <TableCell className="font-medium">{account.userEmail || account.userId}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{account.rule.replace(/_/g, " ")}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">{account.reason || "-"}</TableCell>
+                    <TableCell className="text-sm">{formatDate(account.frozenAt)}</TableCell>
+                    {canManage && (
+                      <TableCell className="text-right">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => unfreezeMutation.mutate({ userId: account.userId })}
+                          disabled={unfreezeMutation.isPending}
+                        >
+                          <Unlock className="h-4 w-4 mr-2" />
+                          Lift freeze
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+          <CardTitle className="flex items-center gap-2">
+            <MonitorSmartphone className="h-5 w-5" />
+            {sessions ? `${sessions.length} active session${sessions.length === 1 ? "" : "s"}` : "Active sessions"}
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <Select value={userFilter} onValueChange={setUserFilter}>
+              <SelectTrigger className="w-64">
+                <SelectValue placeholder="All users" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All users</SelectItem>
+                {users.map(([id, email]) => (
+                  <SelectItem key={id} value={id}>{email}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {canManage && userFilter !== "all" && (
+              <Button
+                variant="destructive"
+                onClick={() =>
+                  setRevokeTarget({
+                    type: "user",
+                    userId: userFilter,
+                    label: users.find(([id]) => id === userFilter)?.[1] || userFilter,
+                  })
+                }
+              >
+                <LogOut className="h-4 w-4 mr-2" />
+                Revoke all
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-2">
+              {[...Array(5)].map((_, i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : !sessions || sessions.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No active sessions</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead>Device</TableHead>
+                  <TableHead>IP / Location</TableHead>
+                  <TableHead>Last activity</TableHead>
+                  <TableHead>Signed in</TableHead>
+                  {canManage && <TableHead className="text-right">Actions</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sessions.map((session) => (
+                  <TableRow key={session.id}>
+                    <TableCell>
+                      <div className="font-medium">{session.userEmail || session.userId}</div>
+                      {session.isCurrent && <Badge variant="secondary" className="mt-1">This session</Badge>}
+                    </TableCell>
+                    <TableCell>
+                      <div className="text-sm" title={session.userAgent || undefined}>
+                        {shortAgent(session.userAgent)}
+                      </div>
+                      <div className="text-xs text-muted-foreground font-mono">
+                        {session.deviceFingerprint || "-"}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="text-sm font-mono">{session.ipAddress || "-"}</div>
+                      <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                        <MapPin className="h-3 w-3" />
+                        {session.location || "Unknown location"}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-1 text-sm">
+                        <Clock className="h-3 w-3 text-muted-foreground" />
+                        {formatDate(session.lastActivityAt)}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">{formatDate(session.createdAt)}</TableCell>
+                    {canManage && (
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-destructive"
+                          onClick={() =>
+                            setRevokeTarget({
+                              type: "session",
+                              sessionId: session.id,
+                              label: `${session.userEmail || session.userId} (${session.ipAddress || "unknown IP"})`,
+                            })
+                          }
+                        >
+                          Revoke
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog
+        open={!!revokeTarget}
+        onOpenChange={(open) => {
+          if (!open) {
+            setRevokeTarget(null);
+            setReason("");
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {revokeTarget?.type === "user" ? "Revoke all sessions" : "Revoke session"}
+            </DialogTitle>
+            <DialogDescription>
+              {revokeTarget?.type === "user"
+                ? `Sign ${revokeTarget.label} out of every device.`
+                : `Sign out ${revokeTarget?.label}.`}{" "}
+              This action is recorded in the audit log.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="revoke-reason">Reason</Label>
+            <Textarea
+              id="revoke-reason"
+              placeholder="e.g. Lost laptop reported by user"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              maxLength={500}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setRevokeTarget(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleRevoke}
+              disabled={reason.trim().length < 3 || revokeMutation.isPending || revokeAllMutation.isPending}
+            >
+              Revoke
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,573 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { trpc } from "@/lib/trpc";
+import { useToast } from "@/hooks/use-toast";
+import { PORTAL_ROLES, Roles, type Role } from "@shared/permissions";
+import { BarChart3, Bot, Copy, KeySquare, Plus, RefreshCw, X } from "lucide-react";
+
+const ROLE_LABELS: Record<Role, string> = {
+  super_admin: "Super Admin",
+  moderator: "Moderator",
+  content_editor: "Content Editor",
+  rep: "Rep",
+  support: "Support",
+};
+
+const SERVICE_ACCOUNT_ROLES = PORTAL_ROLES.filter((r) => r !== Roles.SUPER_ADMIN);
+
+const EXPIRY_OPTIONS = [30, 90, 180, 365];
+
+type Scope = { namespace: string; access: "read" | "write" };
+
+const formatDate = (date: Date | null | undefined) => (date ? new Date(date).toLocaleString() : "-");
+
+const keyStatus = (key: { revokedAt: Date | null; expiresAt: Date }) => {
+  if (key.revokedAt) return { label: "revoked", variant: "destructive" as const };
+  if (new Date(key.expiresAt).getTime() <= Date.now()) return { label: "expired", variant: "secondary" as const };
+  return { label: "active", variant: "default" as const };
+};
+
+export default function ApiKeys() {
+  const { toast } = useToast();
+  const [accountDialogOpen, setAccountDialogOpen] = useState(false);
+  const [accountName, setAccountName] = useState("");
+  const [accountDescription, setAccountDescription] = useState("");
+  const [accountRole, setAccountRole] = useState<Role | "">("");
+
+  const [keyDialogOpen, setKeyDialogOpen] = useState(false);
+  const [keyAccountId, setKeyAccountId] = useState("");
+  const [keyName, setKeyName] = useState("");
+  const [scopes, setScopes] = useState<Scope[]>([]);
+  const [scopeNamespace, setScopeNamespace] = useState("");
+  const [scopeAccess, setScopeAccess] = useState<Scope["access"]>("read");
+  const [expiresInDays, setExpiresInDays] = useState("90");
+  const [rateLimit, setRateLimit] = useState("120");
+
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [revokeTarget, setRevokeTarget] = useState<{ id: string; name: string } | null>(null);
+  const [usageTarget, setUsageTarget] = useState<{ id: string; name: string } | null>(null);
+
+  const { data: accounts, isLoading: loadingAccounts, refetch: refetchAccounts } = trpc.apiKeys.serviceAccounts.useQuery();
+  const { data: keys, isLoading: loadingKeys, refetch: refetchKeys, isFetching } = trpc.apiKeys.list.useQuery();
+  const { data: namespaces } = trpc.apiKeys.namespaces.useQuery();
+  const { data: usage, isLoading: loadingUsage } = trpc.apiKeys.usage.useQuery(
+    { id: usageTarget?.id ?? "", days: 30 },
+    { enabled: !!usageTarget }
+  );
+
+  const onError = (error: { message: string }) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const createAccountMutation = trpc.apiKeys.createServiceAccount.useMutation({
+    onSuccess: (account) => {
+      toast({ title: "Service account created", description: account.name });
+      setAccountDialogOpen(false);
+      setAccountName("");
+      setAccountDescription("");
+      setAccountRole("");
+      refetchAccounts();
+    },
+    onError,
+  });
+
+  const toggleAccountMutation = trpc.apiKeys.setServiceAccountDisabled.useMutation({
+    onSuccess: (_, variables) => {
+      toast({ title: variables.disabled ? "Service account disabled" : "Service account enabled" });
+      refetchAccounts();
+    },
+    onError,
+  });
+
+  const createKeyMutation = trpc.apiKeys.create.useMutation({
+    onSuccess: (data) => {
+      setKeyDialogOpen(false);
+      setKeyName("");
+      setScopes([]);
+      setNewKey(data.key);
+      refetchKeys();
+    },
+    onError,
+  });
+
+  const revokeMutation = trpc.apiKeys.revoke.useMutation({
+    onSuccess: () => {
+      toast({ title: "API key revoked" });
+      setRevokeTarget(null);
+      refetchKeys();
+    },
+    onError,
+  });
+
+  const addScope = () => {
+    if (!scopeNamespace) return;
+    setScopes((current) => [
+      ...current.filter((s) => s.namespace !== scopeNamespace),
+      { namespace: scopeNamespace, access: scopeAccess },
+    ]);
+    setScopeNamespace("");
+  };
+
+  const activeAccounts = accounts?.filter((a) => !a.disabledAt) ?? [];
+  const maxUsage = Math.max(1, ...(usage?.map((u) => u.requestCount) ?? []));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">API Keys</h1>
+          <p className="text-muted-foreground">Scoped keys for scripts and integrations, bound to service accounts</p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => {
+            refetchAccounts();
+            refetchKeys();
+          }}
+          disabled={isFetching}
+        >
+          <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? "animate-spin" : ""}`} />
+          Refresh
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Bot className="h-5 w-5" />
+              Service accounts
+            </CardTitle>
+            <CardDescription>A key can never do more than its service account's role allows.</CardDescription>
+          </div>
+          <Button onClick={() => setAccountDialogOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New service account
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {loadingAccounts ? (
+            <div className="space-y-2">
+              {[...Array(2)].map((_, i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : !accounts || accounts.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No service accounts yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {accounts.map((account) => (
+                  <TableRow key={account.id}>
+                    <TableCell className="font-mono text-sm">{account.name}</TableCell>
+                    <TableCell>{ROLE_LABELS[account.role as Role] || account.role}</TableCell>
+                    <TableCell className="max-w-sm text-sm text-muted-foreground">{account.description || "-"}</TableCell>
+                    <TableCell className="text-sm">{formatDate(account.createdAt)}</TableCell>
+                    <TableCell>
+                      <Badge variant={account.disabledAt ? "secondary" : "default"}>
+                        {account.disabledAt ? "disabled" : "active"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={toggleAccountMutation.isPending}
+                        onClick={() => toggleAccountMutation.mutate({ id: account.id, disabled: !account.disabledAt })}
+                      >
+                        {account.disabledAt ? "Enable" : "Disable"}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <KeySquare className="h-5 w-5" />
+              Keys
+            </CardTitle>
+            <CardDescription>Send as <code>Authorization: Bearer tvk_...</code>. Keys are shown once and stored hashed.</CardDescription>
+          </div>
+          <Button onClick={() => setKeyDialogOpen(true)} disabled={activeAccounts.length === 0}>
+            <Plus className="h-4 w-4 mr-2" />
+            New key
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {loadingKeys ? (
+            <div className="space-y-2">
+              {[...Array(3)].map((_, i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : !keys || keys.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No API keys yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Key</TableHead>
+                  <TableHead>Service account</TableHead>
+                  <TableHead>Scopes</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead>Last used</TableHead>
+                  <TableHead>Requests</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {keys.map((key) => {
+                  const status = keyStatus(key);
+                  return (
+                    <TableRow key={key.id}>
+                      <TableCell>
+                        <div className="font-medium">{key.name}</div>
+                        <div className="font-mono text-xs text-muted-foreground">tvk_{key.keyPrefix}_…</div>
+                      </TableCell>
+                      <TableCell className="font-mono text-sm">{key.serviceAccountName || "-"}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1 max-w-xs">
+                          {key.scopes.map((scope) => (
+                            <Badge key={scope.namespace} variant="outline" className="font-mono text-xs">
+                              {scope.namespace}.* {scope.access === "read" ? "(read)" : "(read/write)"}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm">{formatDate(key.expiresAt)}</TableCell>
+                      <TableCell className="text-sm">
+                        {formatDate(key.lastUsedAt)}
+                        {key.lastUsedIp && <div className="text-xs text-muted-foreground">{key.lastUsedIp}</div>}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {key.usageCount.toLocaleString()}
+                        <div className="text-xs text-muted-foreground">{key.rateLimitPerMinute}/min limit</div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={status.variant}>{status.label}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right space-x-2 whitespace-nowrap">
+                        <Button size="sm" variant="outline" onClick={() => setUsageTarget({ id: key.id, name: key.name })}>
+                          <BarChart3 className="h-4 w-4 mr-1" />
+                          Usage
+                        </Button>
+                        {status.label === "active" && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setRevokeTarget({ id: key.id, name: key.name })}
+                          >
+                            <X className="h-4 w-4 mr-1" />
+                            Revoke
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* New service account */}
+      <Dialog open={accountDialogOpen} onOpenChange={setAccountDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New service account</DialogTitle>
+            <DialogDescription>Service accounts cannot sign in and cannot hold the Super Admin role.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Name</Label>
+              <Input
+                value={accountName}
+                onChange={(e) => setAccountName(e.target.value)}
+                placeholder="places-sync"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Role</Label>
+              <Select value={accountRole} onValueChange={(value) => setAccountRole(value as Role)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a role" />
+                </SelectTrigger>
+                <SelectContent>
+                  {SERVICE_ACCOUNT_ROLES.map((r) => (
+                    <SelectItem key={r} value={r}>{ROLE_LABELS[r]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Description</Label>
+              <Textarea
+                value={accountDescription}
+                onChange={(e) => setAccountDescription(e.target.value)}
+                placeholder="What uses this account and who owns it"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAccountDialogOpen(false)}>Cancel</Button>
+            <Button
+              disabled={!accountName.trim() || !accountRole || createAccountMutation.isPending}
+              onClick={() => {
+                if (!accountRole) return;
+                createAccountMutation.mutate({
+                  name: accountName.trim(),
+                  description: accountDescription.trim() || undefined,
+                  role: accountRole as Exclude<Role, "super_admin">,
+                });
+              }}
+            >
+              Create
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* New key */}
+      <Dialog open={keyDialogOpen} onOpenChange={setKeyDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>New API key</DialogTitle>
+            <DialogDescription>Limit the key to the router namespaces it needs.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Service account</Label>
+                <Select value={keyAccountId} onValueChange={setKeyAccountId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select an account" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {activeAccounts.map((account) => (
+                      <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Key name</Label>
+                <Input value={keyName} onChange={(e) => setKeyName(e.target.value)} placeholder="nightly import" />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Scopes</Label>
+              <div className="flex gap-2">
+                <Select value={scopeNamespace} onValueChange={setScopeNamespace}>
+                  <SelectTrigger className="flex-1">
+                    <SelectValue placeholder="Namespace" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="*">* (all allowed namespaces)</SelectItem>
+                    {namespaces?.map((ns) => (
+                      <SelectItem key={ns} value={ns}>{ns}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={scopeAccess} onValueChange={(value) => setScopeAccess(value as Scope["access"])}>
+                  <SelectTrigger className="w-[140px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="read">Read-only</SelectItem>
+                    <SelectItem value="write">Read/write</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button variant="outline" onClick={addScope} disabled={!scopeNamespace}>
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+              {scopes.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {scopes.map((scope) => (
+                    <Badge key={scope.namespace} variant="outline" className="font-mono text-xs gap-1">
+                      {scope.namespace}.* ({scope.access})
+                      <button
+                        type="button"
+                        onClick={() => setScopes((current) => current.filter((s) => s.namespace !== scope.namespace))}
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Expires in</Label>
+                <Select value={expiresInDays} onValueChange={setExpiresInDays}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EXPIRY_OPTIONS.map((days) => (
+                      <SelectItem key={days} value={days.toString()}>{days} days</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Rate limit (requests/min)</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={1000}
+                  value={rateLimit}
+                  onChange={(e) => setRateLimit(e.target.value)}
+                />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setKeyDialogOpen(false)}>Cancel</Button>
+            <Button
+              disabled={!keyAccountId || keyName.trim().length < 3 || scopes.length === 0 || createKeyMutation.isPending}
+              onClick={() =>
+                createKeyMutation.mutate({
+                  serviceAccountId: keyAccountId,
+                  name: keyName.trim(),
+                  scopes,
+                  expiresInDays: Number(expiresInDays),
+                  rateLimitPerMinute: Number(rateLimit) || 120,
+                })
+              }
+            >
+              Create key
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Show the new key once */}
+      <Dialog open={!!newKey} onOpenChange={(open) => !open && setNewKey(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Copy your API key</DialogTitle>
+            <DialogDescription>This is the only time the key is shown. Store it in a secret manager.</DialogDescription>
+          </DialogHeader>
+          <code className="block break-all rounded bg-muted p-3 text-sm">{newKey}</code>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => {
+                navigator.clipboard.writeText(newKey || "");
+                toast({ title: "Copied", description: "API key copied to clipboard." });
+              }}
+            >
+              <Copy className="h-4 w-4 mr-2" />
+              Copy key
+            </Button>
+            <Button onClick={() => setNewKey(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Revoke */}
+      <Dialog open={!!revokeTarget} onOpenChange={(open) => !open && setRevokeTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Revoke API key</DialogTitle>
+            <DialogDescription>
+              "{revokeTarget?.name}" will stop working within 30 seconds on every server. This cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRevokeTarget(null)}>Cancel</Button>
+            <Button
+              variant="destructive"
+              disabled={revokeMutation.isPending}
+              onClick={() => revokeTarget && revokeMutation.mutate({ id: revokeTarget.id })}
+            >
+              Revoke
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Usage */}
+      <Dialog open={!!usageTarget} onOpenChange={(open) => !open && setUsageTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Usage: {usageTarget?.name}</DialogTitle>
+            <DialogDescription>Requests per day (UTC), last 30 days</DialogDescription>
+          </DialogHeader>
+          {loadingUsage ? (
+            <Skeleton className="h-32 w-full" />
+          ) : !usage || usage.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No requests in this period</p>
+          ) : (
+            <div className="space-y-1 max-h-80 overflow-auto">
+              {usage.map((day) => (
+                <div key={day.day} className="flex items-center gap-3 text-sm">
+                  <span className="w-24 text-muted-foreground">{day.day}</span>
+                  <div className="flex-1 h-2 rounded bg-muted">
+                    <div
+                      className="h-2 rounded bg-primary"
+                      style={{ width: `${(day.requestCount / maxUsage) * 100}%` }}
+                    />
+                  </div>
+                  <span className="w-16 text-right">{day.requestCount.toLocaleString()}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
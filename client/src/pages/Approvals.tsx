@@ -0,0 +1,305 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { trpc } from "@/lib/trpc";
+import { useToast } from "@/hooks/use-toast";
+import { Check, ClipboardCheck, RefreshCw, X } from "lucide-react";
+
+const OPERATION_LABELS: Record<string, string> = {
+  "users.delete": "Delete user",
+  "universes.delete": "Delete universe",
+  "users.addRole": "Grant super admin",
+  "articles.bulkImport": "Article import",
+  "reviews.batchImport": "Review import",
+};
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "outline",
+  approved: "default",
+  executed: "default",
+  failed: "destructive",
+  rejected: "destructive",
+  cancelled: "secondary",
+  expired: "secondary",
+};
+
+type ReviewTarget = {
+  id: string;
+  decision: "approve" | "reject";
+  summary: string;
+};
+
+const formatDate = (date: Date | null) => (date ? new Date(date).toLocaleString() : "-");
+
+export default function Approvals() {
+  const { toast } = useToast();
+  const [reviewTarget, setReviewTarget] = useState<ReviewTarget | null>(null);
+  const [note, setNote] = useState("");
+
+  const {
+    data: pending,
+    isLoading: loadingPending,
+    refetch: refetchPending,
+    isFetching,
+  } = trpc.pendingOperations.list.useQuery({ status: "pending" });
+  const { data: history, isLoading: loadingHistory, refetch: refetchHistory } = trpc.pendingOperations.list.useQuery();
+
+  const refetchAll = () => {
+    refetchPending();
+    refetchHistory();
+  };
+
+  const onError = (error: { message: string }) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const reviewMutation = trpc.pendingOperations.review.useMutation({
+    onSuccess: (data) => {
+      if (data.status === "failed") {
+        toast({ title: "Approved, but the operation failed", description: data.error || undefined, variant: "destructive" });
+      } else {
+        toast({ title: data.status === "executed" ? "Operation approved and run" : "Operation rejected" });
+      }
+      setReviewTarget(null);
+      setNote("");
+      refetchAll();
+    },
+    onError: (error) => {
+      onError(error);
+      refetchAll();
+    },
+  });
+
+  const cancelMutation = trpc.pendingOperations.cancel.useMutation({
+    onSuccess: () => {
+      toast({ title: "Request withdrawn" });
+      refetchAll();
+    },
+    onError,
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Approvals</h1>
+          <p className="text-muted-foreground">High-impact operations run only after a second admin approves them</p>
+        </div>
+        <Button variant="outline" onClick={refetchAll} disabled={isFetching}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? "animate-spin" : ""}`} />
+          Refresh
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ClipboardCheck className="h-5 w-5" />
+            Waiting for approval
+          </CardTitle>
+          <CardDescription>
+            Approving runs the operation immediately, as you. Requests nobody approves expire.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loadingPending ? (
+            <div className="space-y-2">
+              {[...Array(3)].map((_, i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : !pending || pending.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">Nothing is waiting for approval</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Operation</TableHead>
+                  <TableHead>Details</TableHead>
+                  <TableHead>Requested by</TableHead>
+                  <TableHead>Requested</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {pending.map((operation) => (
+                  <TableRow key={operation.id}>
+                    <TableCell className="font-medium">
+                      {OPERATION_LABELS[operation.operation] || operation.operation}
+                    </TableCell>
+                    <TableCell className="max-w-sm text-sm">{operation.summary}</TableCell>
+                    <TableCell className="text-sm">{operation.requestedByEmail || operation.requestedBy}</TableCell>
+                    <TableCell className="text-sm">{formatDate(operation.requestedAt)}</TableCell>
+                    <TableCell className="text-sm">{formatDate(operation.expiresAt)}</TableCell>
+                    <TableCell className="text-right space-x-2 whitespace-nowrap">
+                      {operation.isMine ? (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => cancelMutation.mutate({ id: operation.id })}
+                          disabled={cancelMutation.isPending}
+                        >
+                          Withdraw
+                        </Button>
+                      ) : operation.canReview ? (
+                        <>
+                          <Button
+                            size="sm"
+                            onClick={() =>
+                              setReviewTarget({ id: operation.id, decision: "approve", summary: operation.summary })
+                            }
+                          >
+                            <Check className="h-4 w-4 mr-1" />
+                            Approve
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() =>
+                              setReviewTarget({ id: operation.id, decision: "reject", summary: operation.summary })
+                            }
+                          >
+                            <X className="h-4 w-4 mr-1" />
+                            Reject
+                          </Button>
+                        </>
+                      ) : null}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent operations</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loadingHistory ? (
+            <div className="space-y-2">
+              {[...Array(3)].map((_, i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : !history || history.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No operations yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Operation</TableHead>
+                  <TableHead>Details</TableHead>
+                  <TableHead>Requested by</TableHead>
+                  <TableHead>Reviewed by</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Requested</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {history.map((operation) => (
+                  <TableRow key={operation.id}>
+                    <TableCell className="font-medium">
+                      {OPERATION_LABELS[operation.operation] || operation.operation}
+                    </TableCell>
+                    <TableCell className="max-w-sm text-sm">
+                      {operation.summary}
+                      {operation.reviewNote && (
+                        <div className="text-xs text-muted-foreground mt-1">
+                          {operation.reviewedByEmail || "Reviewer"}: {operation.reviewNote}
+                        </div>
+                      )}
+                      {operation.error && <div className="text-xs text-destructive mt-1">{operation.error}</div>}
+                    </TableCell>
+                    <TableCell className="text-sm">{operation.requestedByEmail || operation.requestedBy}</TableCell>
+                    <TableCell className="text-sm">{operation.reviewedByEmail || "-"}</TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANTS[operation.status] || "outline"} className="capitalize">
+                        {operation.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">{formatDate(operation.requestedAt)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog
+        open={!!reviewTarget}
+        onOpenChange={(open) => {
+          if (!open) {
+            setReviewTarget(null);
+            setNote("");
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {reviewTarget?.decision === "approve" ? "Approve operation" : "Reject operation"}
+            </DialogTitle>
+            <DialogDescription>
+              {reviewTarget?.summary}.{" "}
+              {reviewTarget?.decision === "approve" ? "The operation runs as soon as you approve it. " : ""}
+              This decision is recorded in the audit log.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="approval-note">Note (optional)</Label>
+            <Textarea
+              id="approval-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={500}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setReviewTarget(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant={reviewTarget?.decision === "reject" ? "destructive" : "default"}
+              onClick={() =>
+                reviewTarget &&
+                reviewMutation.mutate({
+                  id: reviewTarget.id,
+                  decision: reviewTarget.decision,
+                  note: note.trim() || undefined,
+                })
+              }
+              disabled={reviewMutation.isPending}
+            >
+              {reviewTarget?.decision === "approve" ? "Approve" : "Reject"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
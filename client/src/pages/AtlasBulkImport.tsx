@@ -4,6 +4,7 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
 import { trpc } from "@/lib/trpc";
+import { describePendingApproval, isPendingApproval } from "@/lib/pendingApproval";
 import { 
   Upload, FileSpreadsheet, CheckCircle2, AlertCircle, Loader2, Download, X, BookOpen, RefreshCw,
   Eye, ChevronDown, ChevronRight, FileText, Image as ImageIcon, List, Quote, AlertTriangle, 
@@ -170,7 +171,11 @@ export default function AtlasBulkImport() {
 
   const bulkImportMutation = trpc.articles.bulkImport.useMutation({
     onSuccess: (result) => {
-      toast.success(`Import complete: ${result.inserted} inserted, ${result.updated} updated, ${result.skipped} skipped`);
+      if (isPendingApproval(result)) {
+        toast.info(describePendingApproval(result));
+      } else {
+        toast.success(`Import complete: ${result.inserted} inserted, ${result.updated} updated, ${result.skipped} skipped`);
+      }
       setFile(null);
       setParsedData([]);
     },
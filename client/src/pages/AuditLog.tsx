@@ -1,10 +1,11 @@
-import { useState, useMemo } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { trpc } from "@/lib/trpc";
+import { ExportMenu } from "@/components/ExportMenu";
 import { 
   History, 
   Loader2,
@@ -19,8 +20,12 @@ import {
   Filter,
   ChevronDown,
   ChevronUp,
+  ChevronLeft,
+  ChevronRight,
   RotateCcw,
-  X
+  X,
+  ShieldCheck,
+  ShieldX
 } from "lucide-react";
 import {
   Select,
@@ -42,6 +47,13 @@ import {
   CollapsibleContent,
   CollapsibleTrigger,
 } from "@/components/ui/collapsible";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 
 const actionTypeConfig: Record<string, { label: string; icon: React.ReactNode; color: string }> = {
   claim_verified: { label: "Claim Approved", icon: <CheckCircle2 className="h-4 w-4" />, color: "text-green-600" },
@@ -55,6 +67,11 @@ const actionTypeConfig: Record<string, { label: string; icon: React.ReactNode; c
   override_approved: { label: "Override Approved", icon: <CheckCircle2 className="h-4 w-4" />, color: "text-green-600" },
   override_rejected: { label: "Override Rejected", icon: <XCircle className="h-4 w-4" />, color: "text-red-600" },
   login: { label: "Login", icon: <User className="h-4 w-4" />, color: "text-blue-600" },
+  login_success: { label: "Login", icon: <User className="h-4 w-4" />, color: "text-blue-600" },
+  login_failed: { label: "Login Failed", icon: <XCircle className="h-4 w-4" />, color: "text-red-600" },
+  role_granted: { label: "Role Granted", icon: <Shield className="h-4 w-4" />, color: "text-purple-600" },
+  role_revoked: { label: "Role Revoked", icon: <Shield className="h-4 w-4" />, color: "text-orange-600" },
+  api_mutation: { label: "API Change", icon: <Edit className="h-4 w-4" />, color: "text-gray-600" },
   default: { label: "Action", icon: <FileText className="h-4 w-4" />, color: "text-gray-600" },
 };
 
@@ -66,71 +83,113 @@ const targetTypeLabels: Record<string, string> = {
   place: "Place",
   user: "User",
   review: "Review",
+  user_roles: "Role",
+  trpc_procedure: "API Procedure",
+};
+
+const chainBreakLabels: Record<string, string> = {
+  missing_entries: "Entries are missing from the chain (deleted rows)",
+  prev_hash_mismatch: "Entry does not link to the one before it",
+  hash_mismatch: "Entry content was modified after it was written",
+  anchor_mismatch: "Entry does not match the signed chain head recorded for it",
+  truncated: "Entries were removed from the end of the log",
+};
+
+type EventFilters = {
+  actor: string;
+  action: string;
+  resourceType: string;
+  resourceId: string;
+  from: string;
+  to: string;
+  search: string;
+};
+
+const emptyFilters: EventFilters = {
+  actor: "",
+  action: "",
+  resourceType: "",
+  resourceId: "",
+  from: "",
+  to: "",
+  search: "",
+};
+
+const filterLabels: Record<keyof EventFilters, string> = {
+  actor: "Actor",
+  action: "Action",
+  resourceType: "Resource",
+  resourceId: "Resource ID",
+  from: "From",
+  to: "To",
+  search: "Text",
 };
 
-const actionTypes = [
-  "claim_verified",
-  "claim_rejected",
-  "flag_reviewed",
-  "flag_dismissed",
-  "flag_actioned",
-  "moderation_approved",
-  "moderation_rejected",
-  "override_created",
-  "override_approved",
-  "override_rejected",
-  "login",
-];
+const humanize = (value: string) =>
+  value.replace(/_/g, " ").replace(/\b\w/g, (c) => c.toUpperCase());
 
-const targetTypes = [
-  "business_claim",
-  "content_flag",
-  "moderation_item",
-  "place_override",
-  "place",
-  "user",
-  "review",
-];
+// One-line summary of an event's details for the table
+const summarizeDetails = (action: string, details: Record<string, unknown>, errorMessage: string | null) => {
+  if (errorMessage) return errorMessage;
+  if (typeof details.notes === "string") return details.notes;
+  if (action === "api_mutation" && typeof details.path === "string") return details.path;
+  if (typeof details.reason === "string") return details.reason;
+  if (typeof details.role === "string") return `Role: ${details.role}`;
+  return "";
+};
 
 export default function AuditLog() {
   const [limit, setLimit] = useState<number>(100);
+  const [page, setPage] = useState(0);
   
-  // Search/filter state
+  // Search/filter state; text inputs are applied after a short pause
   const [showFilters, setShowFilters] = useState(false);
-  const [filters, setFilters] = useState({
-    actionType: "",
-    targetType: "",
-    adminId: "",
-    targetId: "",
-    notes: "",
-  });
+  const [filters, setFilters] = useState<EventFilters>(emptyFilters);
+  const [appliedFilters, setAppliedFilters] = useState<EventFilters>(emptyFilters);
+  const [selectedEventId, setSelectedEventId] = useState<string | null>(null);
 
-  const { data: logs, isLoading } = trpc.auditLog.getAll.useQuery({ limit });
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setAppliedFilters(filters);
+      setPage(0);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [filters]);
 
-  // Filter logs client-side
-  const filteredLogs = useMemo(() => {
-    if (!logs) return [];
-    return logs.filter(log => {
-      if (filters.actionType && log.action_type !== filters.actionType) return false;
-      if (filters.targetType && log.target_type !== filters.targetType) return false;
-      if (filters.adminId && !log.admin_id?.toLowerCase().includes(filters.adminId.toLowerCase())) return false;
-      if (filters.targetId && !log.target_id?.toLowerCase().includes(filters.targetId.toLowerCase())) return false;
-      if (filters.notes && !log.notes?.toLowerCase().includes(filters.notes.toLowerCase())) return false;
-      return true;
-    });
-  }, [logs, filters]);
+  const queryInput = useMemo(() => ({
+    limit,
+    offset: page * limit,
+    actor: appliedFilters.actor || undefined,
+    actions: appliedFilters.action ? [appliedFilters.action] : undefined,
+    resourceType: appliedFilters.resourceType || undefined,
+    resourceId: appliedFilters.resourceId || undefined,
+    from: appliedFilters.from ? new Date(`${appliedFilters.from}T00:00:00`) : undefined,
+    to: appliedFilters.to ? new Date(`${appliedFilters.to}T23:59:59.999`) : undefined,
+    search: appliedFilters.search || undefined,
+  }), [appliedFilters, limit, page]);
+
+  const { data, isLoading, isFetching } = trpc.auditLog.getEvents.useQuery(queryInput, {
+    placeholderData: (previous) => previous,
+  });
+  const { data: facets } = trpc.auditLog.getFacets.useQuery();
+  // Only runs when requested; walks the whole chain
+  const {
+    data: chain,
+    error: chainError,
+    isFetching: isVerifying,
+    refetch: verifyChain,
+  } = trpc.auditLog.verifyChain.useQuery(undefined, { enabled: false, retry: false });
 
-  const hasActiveFilters = Object.values(filters).some(v => v.length > 0);
-  const activeFilterCount = Object.values(filters).filter(v => v.length > 0).length;
+  const events = data?.events || [];
+  const total = data?.total || 0;
+  const pageCount = Math.max(1, Math.ceil(total / limit));
+  const selectedEvent = events.find(e => e.id === selectedEventId) || null;
+
+  const activeFilters = (Object.keys(filters) as (keyof EventFilters)[]).filter(key => filters[key].length > 0);
+  const hasActiveFilters = activeFilters.length > 0;
 
   const handleClearFilters = () => {
-    setFilters({
-      actionType: "",
-      targetType: "",
-      adminId: "",
-      targetId: "",
-      notes: "",
-    });
+    setFilters(emptyFilters);
   };
 
   const formatDate = (dateString: string) => {
@@ -144,8 +203,15 @@ export default function AuditLog() {
     });
   };
 
-  const getActionConfig = (actionType: string) => {
-    return actionTypeConfig[actionType] || actionTypeConfig.default;
+  const getActionConfig = (action: string) => {
+    return actionTypeConfig[action] || { ...actionTypeConfig.default, label: humanize(action) };
+  };
+
+  const filterValueLabel = (key: keyof EventFilters) => {
+    const value = filters[key];
+    if (key === "action") return getActionConfig(value).label;
+    if (key === "resourceType") return targetTypeLabels[value] || value;
+    return value;
   };
 
   return (
@@ -157,18 +223,99 @@ export default function AuditLog() {
         </p>
       </div>
 
+      {/* Integrity Card */}
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5" />
+              Integrity
+            </CardTitle>
+            <CardDescription>
+              Security audit entries are hash-chained. Verification detects edited or deleted entries.
+            </CardDescription>
+          </div>
+          <Button variant="outline" onClick={() => verifyChain()} disabled={isVerifying}>
+            {isVerifying && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Verify Chain
+          </Button>
+        </CardHeader>
+        {(chain || chainError) && (
+          <CardContent>
+            {chainError ? (
+              <p className="text-sm text-red-600">{chainError.message}</p>
+            ) : chain?.valid ? (
+              <div className="flex items-start gap-2 text-sm text-green-600">
+                <CheckCircle2 className="h-4 w-4 mt-0.5" />
+                <div>
+                  <p>
+                    Chain intact: {chain.checked.toLocaleString()} entries verified
+                    {chain.firstSeq !== null && ` (#${chain.firstSeq} to #${chain.lastSeq})`}
+                    {chain.anchorsChecked > 0 && `, matching ${chain.anchorsChecked.toLocaleString()} anchored heads`}.
+                  </p>
+                  {!chain.keyed && (
+                    <p className="text-amber-600">
+                      AUDIT_LOG_HMAC_KEY is not set, so the chain is unkeyed and could be recomputed after tampering.
+                    </p>
+                  )}
+                  {chain.unchainedEntries > 0 && (
+                    <p className="text-muted-foreground">
+                      {chain.unchainedEntries.toLocaleString()} older entries predate the chain and are not covered.
+                    </p>
+                  )}
+                  {chain.archivedThroughSeq !== null && (
+                    <p className="text-muted-foreground">
+                      Entries up to #{chain.archivedThroughSeq} were archived by retention; the chain is checked from there.
+                    </p>
+                  )}
+                </div>
+              </div>
+            ) : chain?.brokenAt ? (
+              <div className="flex items-start gap-2 text-sm text-red-600">
+                <ShieldX className="h-4 w-4 mt-0.5" />
+                <div>
+                  <p className="font-medium">
+                    Chain broken at entry #{chain.brokenAt.seq}: {chainBreakLabels[chain.brokenAt.reason] || chain.brokenAt.reason}
+                  </p>
+                  <p className="text-muted-foreground">
+                    {chain.checked.toLocaleString()} entries verified before the break.
+                    {chain.brokenAt.createdAt && ` Detected at the entry written ${formatDate(chain.brokenAt.createdAt)}.`}
+                    {chain.brokenAt.id && (
+                      <>
+                        {" "}Row ID <code className="text-xs">{chain.brokenAt.id}</code>.
+                      </>
+                    )}
+                  </p>
+                </div>
+              </div>
+            ) : null}
+          </CardContent>
+        )}
+      </Card>
+
       {/* Search/Filter Card */}
       <Card>
         <CardContent className="pt-6">
-          <Collapsible open={showFilters} onOpenChange={setShowFilters}>
+          <div className="flex flex-col gap-4 sm:flex-row sm:items-center">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search emails, actions, resources and details..."
+                value={filters.search}
+                onChange={(e) => setFilters({ ...filters, search: e.target.value })}
+                className="pl-10"
+              />
+            </div>
+          </div>
+          <Collapsible open={showFilters} onOpenChange={setShowFilters} className="pt-4">
             <div className="flex items-center justify-between">
               <CollapsibleTrigger asChild>
                 <Button variant="ghost" size="sm" className="gap-2">
                   <Filter className="h-4 w-4" />
-                  Search & Filter
-                  {activeFilterCount > 0 && (
+                  Filters
+                  {activeFilters.length > 0 && (
                     <Badge variant="secondary" className="ml-1">
-                      {activeFilterCount}
+                      {activeFilters.length}
                     </Badge>
                   )}
                   {showFilters ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
@@ -183,65 +330,73 @@ export default function AuditLog() {
             </div>
 
             <CollapsibleContent className="pt-4">
-              <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5">
+              <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+                <div className="space-y-2">
+                  <Label>Actor</Label>
+                  <div className="relative">
+                    <User className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                    <Input
+                      placeholder="User ID or email..."
+                      value={filters.actor}
+                      onChange={(e) => setFilters({ ...filters, actor: e.target.value })}
+                      className="pl-10"
+                    />
+                  </div>
+                </div>
                 <div className="space-y-2">
-                  <Label>Action Type</Label>
-                  <Select value={filters.actionType} onValueChange={(v) => setFilters({ ...filters, actionType: v === "all" ? "" : v })}>
+                  <Label>Action</Label>
+                  <Select value={filters.action || "all"} onValueChange={(v) => setFilters({ ...filters, action: v === "all" ? "" : v })}>
                     <SelectTrigger>
                       <SelectValue placeholder="All actions" />
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="all">All Actions</SelectItem>
-                      {actionTypes.map(type => (
-                        <SelectItem key={type} value={type}>
-                          {actionTypeConfig[type]?.label || type}
+                      {(facets?.actions || []).map(action => (
+                        <SelectItem key={action} value={action}>
+                          {getActionConfig(action).label}
                         </SelectItem>
                       ))}
                     </SelectContent>
                   </Select>
                 </div>
                 <div className="space-y-2">
-                  <Label>Target Type</Label>
-                  <Select value={filters.targetType} onValueChange={(v) => setFilters({ ...filters, targetType: v === "all" ? "" : v })}>
+                  <Label>Resource Type</Label>
+                  <Select value={filters.resourceType || "all"} onValueChange={(v) => setFilters({ ...filters, resourceType: v === "all" ? "" : v })}>
                     <SelectTrigger>
-                      <SelectValue placeholder="All targets" />
+                      <SelectValue placeholder="All resources" />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="all">All Targets</SelectItem>
-                      {targetTypes.map(type => (
+                      <SelectItem value="all">All Resources</SelectItem>
+                      {(facets?.resourceTypes || []).map(type => (
                         <SelectItem key={type} value={type}>
-                          {targetTypeLabels[type] || type}
+                          {targetTypeLabels[type] || humanize(type)}
                         </SelectItem>
                       ))}
                     </SelectContent>
                   </Select>
                 </div>
                 <div className="space-y-2">
-                  <Label>Admin ID</Label>
-                  <div className="relative">
-                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                    <Input
-                      placeholder="Search by admin..."
-                      value={filters.adminId}
-                      onChange={(e) => setFilters({ ...filters, adminId: e.target.value })}
-                      className="pl-10"
-                    />
-                  </div>
+                  <Label>Resource ID</Label>
+                  <Input
+                    placeholder="Exact resource ID..."
+                    value={filters.resourceId}
+                    onChange={(e) => setFilters({ ...filters, resourceId: e.target.value })}
+                  />
                 </div>
                 <div className="space-y-2">
-                  <Label>Target ID</Label>
+                  <Label>From</Label>
                   <Input
-                    placeholder="Search by target ID..."
-                    value={filters.targetId}
-                    onChange={(e) => setFilters({ ...filters, targetId: e.target.value })}
+                    type="date"
+                    value={filters.from}
+                    onChange={(e) => setFilters({ ...filters, from: e.target.value })}
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label>Notes</Label>
+                  <Label>To</Label>
                   <Input
-                    placeholder="Search in notes..."
-                    value={filters.notes}
-                    onChange={(e) => setFilters({ ...filters, notes: e.target.value })}
+                    type="date"
+                    value={filters.to}
+                    onChange={(e) => setFilters({ ...filters, to: e.target.value })}
                   />
                 </div>
               </div>
@@ -253,36 +408,12 @@ export default function AuditLog() {
       {/* Active Filters Display */}
       {hasActiveFilters && (
         <div className="flex flex-wrap gap-2">
-          {filters.actionType && (
-            <Badge variant="secondary" className="gap-1">
-              Action: {actionTypeConfig[filters.actionType]?.label || filters.actionType}
-              <X className="h-3 w-3 cursor-pointer" onClick={() => setFilters({ ...filters, actionType: "" })} />
-            </Badge>
-          )}
-          {filters.targetType && (
-            <Badge variant="secondary" className="gap-1">
-              Target: {targetTypeLabels[filters.targetType] || filters.targetType}
-              <X className="h-3 w-3 cursor-pointer" onClick={() => setFilters({ ...filters, targetType: "" })} />
-            </Badge>
-          )}
-          {filters.adminId && (
-            <Badge variant="secondary" className="gap-1">
-              Admin: {filters.adminId}
-              <X className="h-3 w-3 cursor-pointer" onClick={() => setFilters({ ...filters, adminId: "" })} />
-            </Badge>
-          )}
-          {filters.targetId && (
-            <Badge variant="secondary" className="gap-1">
-              Target ID: {filters.targetId}
-              <X className="h-3 w-3 cursor-pointer" onClick={() => setFilters({ ...filters, targetId: "" })} />
+          {activeFilters.map(key => (
+            <Badge key={key} variant="secondary" className="gap-1">
+              {filterLabels[key]}: {filterValueLabel(key)}
+              <X className="h-3 w-3 cursor-pointer" onClick={() => setFilters({ ...filters, [key]: "" })} />
             </Badge>
-          )}
-          {filters.notes && (
-            <Badge variant="secondary" className="gap-1">
-              Notes: {filters.notes}
-              <X className="h-3 w-3 cursor-pointer" onClick={() => setFilters({ ...filters, notes: "" })} />
-            </Badge>
-          )}
+          ))}
         </div>
       )}
 
@@ -290,24 +421,47 @@ export default function AuditLog() {
         <CardHeader>
           <div className="flex items-center justify-between">
             <div>
-              <CardTitle>Activity History</CardTitle>
+              <CardTitle className="flex items-center gap-2">
+                Activity History
+                {isFetching && !isLoading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+              </CardTitle>
               <CardDescription>
                 {hasActiveFilters 
-                  ? `Showing ${filteredLogs.length} of ${logs?.length || 0} entries`
+                  ? `${total.toLocaleString()} matching events`
                   : "All admin actions are logged for security and compliance"}
               </CardDescription>
             </div>
-            <Select value={limit.toString()} onValueChange={(v) => setLimit(parseInt(v))}>
-              <SelectTrigger className="w-[150px]">
-                <SelectValue placeholder="Show entries" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="50">Last 50</SelectItem>
-                <SelectItem value="100">Last 100</SelectItem>
-                <SelectItem value="250">Last 250</SelectItem>
-                <SelectItem value="500">Last 500</SelectItem>
-              </SelectContent>
-            </Select>
+            <div className="flex items-center gap-2">
+              <ExportMenu
+                dataset="audit_log"
+                params={{
+                  actor: appliedFilters.actor,
+                  action: appliedFilters.action,
+                  resourceType: appliedFilters.resourceType,
+                  resourceId: appliedFilters.resourceId,
+                  from: queryInput.from?.toISOString(),
+                  to: queryInput.to?.toISOString(),
+                  search: appliedFilters.search,
+                }}
+              />
+              <Select
+                value={limit.toString()}
+                onValueChange={(v) => {
+                  setLimit(parseInt(v));
+                  setPage(0);
+                }}
+              >
+                <SelectTrigger className="w-[150px]">
+                  <SelectValue placeholder="Per page" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="50">50 per page</SelectItem>
+                  <SelectItem value="100">100 per page</SelectItem>
+                  <SelectItem value="250">250 per page</SelectItem>
+                  <SelectItem value="500">500 per page</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
           </div>
         </CardHeader>
         <CardContent>
@@ -315,68 +469,100 @@ export default function AuditLog() {
             <div className="flex items-center justify-center py-12">
               <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
             </div>
-          ) : filteredLogs && filteredLogs.length > 0 ? (
-            <div className="rounded-md border">
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead className="w-[180px]">Timestamp</TableHead>
-                    <TableHead>Action</TableHead>
-                    <TableHead>Target</TableHead>
-                    <TableHead>Admin</TableHead>
-                    <TableHead>Notes</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {filteredLogs.map((log) => {
-                    const config = getActionConfig(log.action_type);
-                    return (
-                      <TableRow key={log.id}>
-                        <TableCell className="font-mono text-xs">
-                          {formatDate(log.created_at)}
-                        </TableCell>
-                        <TableCell>
-                          <div className="flex items-center gap-2">
-                            <span className={config.color}>{config.icon}</span>
-                            <span className="font-medium">{config.label}</span>
-                          </div>
-                        </TableCell>
-                        <TableCell>
-                          {log.target_type && (
+          ) : events.length > 0 ? (
+            <div className="space-y-4">
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-[180px]">Timestamp</TableHead>
+                      <TableHead>Action</TableHead>
+                      <TableHead>Resource</TableHead>
+                      <TableHead>Actor</TableHead>
+                      <TableHead>Details</TableHead>
+                      <TableHead className="w-[60px]"></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {events.map((event) => {
+                      const config = getActionConfig(event.action);
+                      return (
+                        <TableRow key={event.id}>
+                          <TableCell className="font-mono text-xs">
+                            {formatDate(event.createdAt)}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex items-center gap-2">
+                              <span className={event.success ? config.color : "text-red-600"}>{config.icon}</span>
+                              <span className="font-medium">{config.label}</span>
+                              {!event.success && (
+                                <Badge variant="destructive" className="text-xs">Failed</Badge>
+                              )}
+                            </div>
+                          </TableCell>
+                          <TableCell>
                             <div className="space-y-1">
-                              <Badge variant="outline" className="text-xs">
-                                {targetTypeLabels[log.target_type] || log.target_type}
+                              <Badge
+                                variant="outline"
+                                className="text-xs cursor-pointer"
+                                onClick={() => setFilters({ ...filters, resourceType: event.resourceType })}
+                              >
+                                {targetTypeLabels[event.resourceType] || humanize(event.resourceType)}
                               </Badge>
-                              {log.target_id && (
-                                <p className="text-xs text-muted-foreground font-mono truncate max-w-[200px]">
-                                  {log.target_id}
+                              {event.resourceId && (
+                                <p
+                                  className="text-xs text-muted-foreground font-mono truncate max-w-[200px] cursor-pointer hover:underline"
+                                  onClick={() => setFilters({ ...filters, resourceId: event.resourceId || "" })}
+                                >
+                                  {event.resourceId}
                                 </p>
                               )}
                             </div>
-                          )}
-                        </TableCell>
-                        <TableCell>
-                          <div className="flex items-center gap-2">
-                            <div className="h-6 w-6 rounded-full bg-primary/10 flex items-center justify-center">
-                              <User className="h-3 w-3 text-primary" />
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex items-center gap-2">
+                              <div className="h-6 w-6 rounded-full bg-primary/10 flex items-center justify-center">
+                                <User className="h-3 w-3 text-primary" />
+                              </div>
+                              <span
+                                className="text-xs font-mono truncate max-w-[180px] cursor-pointer hover:underline"
+                                onClick={() => setFilters({ ...filters, actor: event.actorId || event.actorEmail || "" })}
+                              >
+                                {event.actorEmail || event.actorId || "system"}
+                              </span>
                             </div>
-                            <span className="text-xs font-mono truncate max-w-[150px]">
-                              {log.admin_id}
-                            </span>
-                          </div>
-                        </TableCell>
-                        <TableCell>
-                          {log.notes && (
-                            <span className="text-sm text-muted-foreground truncate max-w-[200px] block">
-                              {log.notes}
+                          </TableCell>
+                          <TableCell>
+                            <span className="text-sm text-muted-foreground truncate max-w-[240px] block">
+                              {summarizeDetails(event.action, event.details, event.errorMessage)}
                             </span>
-                          )}
-                        </TableCell>
-                      </TableRow>
-                    );
-                  })}
-                </TableBody>
-              </Table>
+                          </TableCell>
+                          <TableCell>
+                            <Button variant="ghost" size="sm" onClick={() => setSelectedEventId(event.id)}>
+                              <Eye className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+              <div className="flex items-center justify-between text-sm text-muted-foreground">
+                <span>
+                  Page {page + 1} of {pageCount.toLocaleString()}
+                </span>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setPage(p => p - 1)} disabled={page === 0}>
+                    <ChevronLeft className="h-4 w-4" />
+                    Previous
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => setPage(p => p + 1)} disabled={page + 1 >= pageCount}>
+                    Next
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
             </div>
           ) : (
             <div className="py-12 text-center">
@@ -395,43 +581,74 @@ export default function AuditLog() {
       </Card>
 
       {/* Summary Stats */}
-      {filteredLogs && filteredLogs.length > 0 && (
+      {events.length > 0 && (
         <div className="grid gap-4 md:grid-cols-3">
           <Card>
             <CardHeader className="pb-2">
-              <CardTitle className="text-sm font-medium">Total Actions</CardTitle>
+              <CardTitle className="text-sm font-medium">Total Events</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{filteredLogs.length}</div>
+              <div className="text-2xl font-bold">{total.toLocaleString()}</div>
               <p className="text-xs text-muted-foreground">
-                {hasActiveFilters ? "matching filters" : "in selected period"}
+                {hasActiveFilters ? "matching filters" : "all time"}
               </p>
             </CardContent>
           </Card>
           <Card>
             <CardHeader className="pb-2">
-              <CardTitle className="text-sm font-medium">Approvals</CardTitle>
+              <CardTitle className="text-sm font-medium">Actors</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold text-green-600">
-                {filteredLogs.filter(l => l.action_type.includes("approved") || l.action_type.includes("verified")).length}
+              <div className="text-2xl font-bold">
+                {new Set(events.map(e => e.actorId || e.actorEmail).filter(Boolean)).size}
               </div>
-              <p className="text-xs text-muted-foreground">claims, content, overrides</p>
+              <p className="text-xs text-muted-foreground">on this page</p>
             </CardContent>
           </Card>
           <Card>
             <CardHeader className="pb-2">
-              <CardTitle className="text-sm font-medium">Rejections</CardTitle>
+              <CardTitle className="text-sm font-medium">Failures</CardTitle>
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold text-red-600">
-                {filteredLogs.filter(l => l.action_type.includes("rejected") || l.action_type.includes("actioned")).length}
+                {events.filter(e => !e.success).length}
               </div>
-              <p className="text-xs text-muted-foreground">claims, content, flags</p>
+              <p className="text-xs text-muted-foreground">on this page</p>
             </CardContent>
           </Card>
         </div>
       )}
+
+      <Dialog open={!!selectedEvent} onOpenChange={(open) => !open && setSelectedEventId(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{selectedEvent ? getActionConfig(selectedEvent.action).label : "Event"}</DialogTitle>
+            <DialogDescription>
+              {selectedEvent && `${formatDate(selectedEvent.createdAt)} by ${selectedEvent.actorEmail || selectedEvent.actorId || "system"}`}
+            </DialogDescription>
+          </DialogHeader>
+          {selectedEvent && (
+            <div className="space-y-3 text-sm">
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <span className="text-muted-foreground">IP address: </span>
+                  <span className="font-mono">{selectedEvent.ipAddress || "-"}</span>
+                </div>
+                <div>
+                  <span className="text-muted-foreground">Outcome: </span>
+                  {selectedEvent.success ? "Success" : `Failed${selectedEvent.errorMessage ? ` (${selectedEvent.errorMessage})` : ""}`}
+                </div>
+              </div>
+              {selectedEvent.userAgent && (
+                <p className="text-xs text-muted-foreground break-all">{selectedEvent.userAgent}</p>
+              )}
+              <pre className="max-h-96 overflow-auto rounded-md bg-muted p-3 text-xs">
+                {JSON.stringify(selectedEvent.details, null, 2)}
+              </pre>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -3,6 +3,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { trpc } from "@/lib/trpc";
+import { describePendingApproval, isPendingApproval } from "@/lib/pendingApproval";
 import { Upload, FileSpreadsheet, CheckCircle2, AlertCircle, Loader2, Download, X } from "lucide-react";
 import { toast } from "sonner";
 import {
@@ -32,7 +33,11 @@ export default function BatchUpload() {
 
   const batchImportMutation = trpc.reviews.batchImport.useMutation({
     onSuccess: (result) => {
-      toast.success(`Import complete: ${result.success} succeeded, ${result.failed} failed`);
+      if (isPendingApproval(result)) {
+        toast.info(describePendingApproval(result));
+      } else {
+        toast.success(`Import complete: ${result.success} succeeded, ${result.failed} failed`);
+      }
       setFile(null);
       setParsedData([]);
     },
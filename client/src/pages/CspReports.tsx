@@ -0,0 +1,283 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { trpc } from "@/lib/trpc";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Permissions } from "@shared/permissions";
+import { FileWarning, RefreshCw, ShieldCheck, Trash2 } from "lucide-react";
+
+const formatDate = (date: Date | null | undefined) => (date ? new Date(date).toLocaleString() : "-");
+
+type CspReport = {
+  id: string;
+  directive: string;
+  blockedUri: string;
+  disposition: string;
+  count: number;
+  documentUri: string | null;
+  sourceFile: string | null;
+  lineNumber: number | null;
+  columnNumber: number | null;
+  sample: string | null;
+  userAgent: string | null;
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+};
+
+export default function CspReports() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const canManage = can(Permissions.SECURITY_MANAGE);
+
+  const [disposition, setDisposition] = useState<"all" | "enforce" | "report">("all");
+  const [search, setSearch] = useState("");
+  const [appliedSearch, setAppliedSearch] = useState("");
+  const [selected, setSelected] = useState<CspReport | null>(null);
+
+  // Debounce free-text search
+  useEffect(() => {
+    const timer = setTimeout(() => setAppliedSearch(search.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const { data: settings } = trpc.cspReports.settings.useQuery();
+  const { data, isLoading, isFetching, refetch } = trpc.cspReports.list.useQuery({
+    disposition: disposition === "all" ? undefined : disposition,
+    search: appliedSearch || undefined,
+  });
+
+  const deleteMutation = trpc.cspReports.delete.useMutation({
+    onSuccess: () => {
+      toast({ title: "Report cleared", description: "It will reappear if the violation happens again." });
+      setSelected(null);
+      refetch();
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">CSP Reports</h1>
+          <p className="text-muted-foreground">Content-Security-Policy violations reported by browsers, grouped by directive and blocked URI</p>
+        </div>
+        <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? "animate-spin" : ""}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {settings && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5" />
+              Policy
+              <Badge variant={settings.reportOnly ? "secondary" : "default"}>
+                {settings.reportOnly ? "report-only" : "enforced"}
+              </Badge>
+              {settings.testStrictPolicy && <Badge variant="outline">testing strict policy</Badge>}
+            </CardTitle>
+            <CardDescription>
+              {settings.reportOnly
+                ? "CSP_MODE=report-only: violations are reported but nothing is blocked."
+                : "Violations are blocked and reported. Set CSP_MODE=report-only to stop enforcing."}{" "}
+              {settings.testStrictPolicy
+                ? "Violations of the stricter candidate policy show up as report-only."
+                : "Set CSP_TEST_STRICT_POLICY=true to try the stricter candidate policy in report-only mode."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div>
+              <p className="text-sm font-medium text-muted-foreground">Current policy</p>
+              <code className="block break-all rounded bg-muted p-2 text-xs">{settings.policy}</code>
+            </div>
+            {settings.testStrictPolicy && (
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">Strict candidate (report-only)</p>
+                <code className="block break-all rounded bg-muted p-2 text-xs">{settings.strictPolicy}</code>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardContent className="grid gap-4 pt-6 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label>Disposition</Label>
+            <Select value={disposition} onValueChange={(value) => setDisposition(value as typeof disposition)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All</SelectItem>
+                <SelectItem value="enforce">Blocked (enforced)</SelectItem>
+                <SelectItem value="report">Report-only</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2 md:col-span-2">
+            <Label>Search</Label>
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Blocked URI or page"
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{data ? `${data.total} violation group${data.total === 1 ? "" : "s"}` : "Violations"}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-2">
+              {[...Array(5)].map((_, i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : !data || data.reports.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No violations reported</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Directive</TableHead>
+                  <TableHead>Blocked URI</TableHead>
+                  <TableHead>Disposition</TableHead>
+                  <TableHead className="text-right">Count</TableHead>
+                  <TableHead>Last page</TableHead>
+                  <TableHead>Last seen</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.reports.map((report) => (
+                  <TableRow key={report.id} className="cursor-pointer" onClick={() => setSelected(report)}>
+                    <TableCell className="font-mono text-sm">{report.directive}</TableCell>
+                    <TableCell className="font-mono text-xs max-w-xs truncate" title={report.blockedUri}>
+                      {report.blockedUri}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={report.disposition === "enforce" ? "destructive" : "outline"}>
+                        {report.disposition === "enforce" ? "blocked" : "report-only"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">{report.count.toLocaleString()}</TableCell>
+                    <TableCell className="text-xs max-w-xs truncate" title={report.documentUri || undefined}>
+                      {report.documentUri || "-"}
+                    </TableCell>
+                    <TableCell className="text-sm">{formatDate(report.lastSeenAt)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <FileWarning className="h-5 w-5" />
+              {selected?.directive}
+            </DialogTitle>
+            <DialogDescription className="break-all">{selected?.blockedUri}</DialogDescription>
+          </DialogHeader>
+          {selected && (
+            <div className="grid grid-cols-2 gap-3 text-sm">
+              <div>
+                <p className="font-medium text-muted-foreground">Occurrences</p>
+                <p>{selected.count.toLocaleString()}</p>
+              </div>
+              <div>
+                <p className="font-medium text-muted-foreground">Disposition</p>
+                <p>{selected.disposition === "enforce" ? "Blocked" : "Report-only"}</p>
+              </div>
+              <div>
+                <p className="font-medium text-muted-foreground">First seen</p>
+                <p>{formatDate(selected.firstSeenAt)}</p>
+              </div>
+              <div>
+                <p className="font-medium text-muted-foreground">Last seen</p>
+                <p>{formatDate(selected.lastSeenAt)}</p>
+              </div>
+              <div className="col-span-2">
+                <p className="font-medium text-muted-foreground">Page</p>
+                <p className="break-all">{selected.documentUri || "-"}</p>
+              </div>
+              {selected.sourceFile && (
+                <div className="col-span-2">
+                  <p className="font-medium text-muted-foreground">Source</p>
+                  <p className="break-all font-mono text-xs">
+                    {selected.sourceFile}
+                    {selected.lineNumber ? `:${selected.lineNumber}` : ""}
+                    {selected.columnNumber ? `:${selected.columnNumber}` : ""}
+                  </p>
+                </div>
+              )}
+              {selected.sample && (
+                <div className="col-span-2">
+                  <p className="font-medium text-muted-foreground">Sample</p>
+                  <code className="block break-all rounded bg-muted p-2 text-xs">{selected.sample}</code>
+                </div>
+              )}
+              {selected.userAgent && (
+                <div className="col-span-2">
+                  <p className="font-medium text-muted-foreground">Browser</p>
+                  <p className="text-xs">{selected.userAgent}</p>
+                </div>
+              )}
+            </div>
+          )}
+          {canManage && (
+            <DialogFooter>
+              <Button
+                variant="outline"
+                disabled={deleteMutation.isPending}
+                onClick={() => selected && deleteMutation.mutate({ id: selected.id })}
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Clear
+              </Button>
+            </DialogFooter>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { trpc } from "@/lib/trpc";
+import { CheckCircle, MonitorSmartphone, ShieldAlert } from "lucide-react";
+
+// The token travels in the fragment so it never reaches server logs or referrers
+const readToken = () => new URLSearchParams(window.location.hash.slice(1)).get("token") || "";
+
+/**
+ * Landing page for the new-device sign-in email: trust the device, or sign
+ * that session out. Works without being signed in.
+ */
+export default function DeviceConfirmation() {
+  const [token] = useState(readToken);
+  const { data: confirmation, isLoading } = trpc.auth.deviceConfirmation.useQuery(
+    { token },
+    { enabled: !!token, retry: false }
+  );
+  const confirmMutation = trpc.auth.confirmDevice.useMutation();
+
+  const result = confirmMutation.data;
+  const invalid = !token || (!isLoading && !confirmation && !result);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 p-4">
+      <Card className="w-full max-w-md bg-slate-800/50 border-slate-700">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-4 p-3 bg-orange-500/10 rounded-full w-fit">
+            {result?.trusted ? (
+              <CheckCircle className="h-8 w-8 text-green-500" />
+            ) : result ? (
+              <ShieldAlert className="h-8 w-8 text-orange-500" />
+            ) : (
+              <MonitorSmartphone className="h-8 w-8 text-orange-500" />
+            )}
+          </div>
+          <CardTitle className="text-2xl text-white">
+            {result?.trusted
+              ? "Device trusted"
+              : result
+                ? "Device signed out"
+                : invalid
+                  ? "Link not valid"
+                  : "Was this you?"}
+          </CardTitle>
+          <CardDescription className="text-slate-400">
+            {result?.trusted
+              ? "Future sign-ins from this device won't be flagged."
+              : result
+                ? "That session has been signed out. Change your password now, since someone else may know it."
+                : invalid
+                  ? "This link is invalid, has expired or was already used."
+                  : "Your admin account was signed in from a device we haven't seen before."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading && token ? (
+            <Skeleton className="h-24 w-full" />
+          ) : confirmation && !result ? (
+            <>
+              <div className="rounded-lg border border-slate-700 p-3 text-sm text-slate-300 space-y-1">
+                <p><span className="text-slate-500">Device:</span> {confirmation.device}</p>
+                <p><span className="text-slate-500">IP address:</span> {confirmation.ipAddress || "unknown"}</p>
+                <p><span className="text-slate-500">Time:</span> {new Date(confirmation.signedInAt).toLocaleString()}</p>
+              </div>
+              {confirmMutation.error && (
+                <p className="text-sm text-destructive">{confirmMutation.error.message}</p>
+              )}
+              <div className="flex flex-col gap-2">
+                <Button
+                  className="w-full bg-orange-500 hover:bg-orange-600"
+                  onClick={() => confirmMutation.mutate({ token, trusted: true })}
+                  disabled={confirmMutation.isPending}
+                >
+                  Yes, trust this device
+                </Button>
+                <Button
+                  variant="outline"
+                  className="w-full border-slate-600 text-slate-300 hover:bg-slate-700"
+                  onClick={() => confirmMutation.mutate({ token, trusted: false })}
+                  disabled={confirmMutation.isPending}
+                >
+                  No, sign it out
+                </Button>
+              </div>
+            </>
+          ) : (
+            <Link href="/login">
+              <Button variant="outline" className="w-full border-slate-600 text-slate-300 hover:bg-slate-700">
+                Go to sign in
+              </Button>
+            </Link>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
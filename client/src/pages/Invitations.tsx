@@ -0,0 +1,293 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { trpc } from "@/lib/trpc";
+import { useToast } from "@/hooks/use-toast";
+import { PORTAL_ROLES, Roles, type Role } from "@shared/permissions";
+import { Copy, MailPlus, Plus, RefreshCw, X } from "lucide-react";
+
+// Super admin is granted after sign-up, with a second admin's approval
+const INVITABLE_ROLES = PORTAL_ROLES.filter((r) => r !== Roles.SUPER_ADMIN);
+
+const ROLE_LABELS: Record<Role, string> = {
+  super_admin: "Super Admin",
+  moderator: "Moderator",
+  content_editor: "Content Editor",
+  rep: "Rep",
+  support: "Support",
+};
+
+const EXPIRY_OPTIONS = [1, 3, 7, 14, 30];
+
+const STATUS_VARIANTS = {
+  pending: "default",
+  accepted: "secondary",
+  revoked: "destructive",
+  expired: "outline",
+} as const;
+
+const formatDate = (date: Date | null | undefined) => (date ? new Date(date).toLocaleString() : "-");
+
+export default function Invitations() {
+  const { toast } = useToast();
+  const [inviteDialogOpen, setInviteDialogOpen] = useState(false);
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<Role | "">("");
+  const [expiresInDays, setExpiresInDays] = useState("7");
+
+  const [created, setCreated] = useState<{ link: string; emailSent: boolean } | null>(null);
+  const [revokeTarget, setRevokeTarget] = useState<{ id: string; email: string } | null>(null);
+
+  const { data: invitations, isLoading, refetch, isFetching } = trpc.invitations.list.useQuery();
+
+  const onError = (error: { message: string }) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const createMutation = trpc.invitations.create.useMutation({
+    onSuccess: (data) => {
+      setInviteDialogOpen(false);
+      setEmail("");
+      setRole("");
+      setCreated({ link: `${window.location.origin}/signup#invite=${data.token}`, emailSent: data.emailSent });
+      refetch();
+    },
+    onError,
+  });
+
+  const revokeMutation = trpc.invitations.revoke.useMutation({
+    onSuccess: () => {
+      toast({ title: "Invitation revoked" });
+      setRevokeTarget(null);
+      refetch();
+    },
+    onError,
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Invitations</h1>
+          <p className="text-muted-foreground">Accounts are created by invitation only, with the role chosen here</p>
+        </div>
+        <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? "animate-spin" : ""}`} />
+          Refresh
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <MailPlus className="h-5 w-5" />
+              Invitations
+            </CardTitle>
+            <CardDescription>Each link works once, until it expires or is revoked.</CardDescription>
+          </div>
+          <Button onClick={() => setInviteDialogOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Invite admin
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-2">
+              {[...Array(3)].map((_, i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : !invitations || invitations.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No invitations yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Invited by</TableHead>
+                  <TableHead>Sent</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {invitations.map((invitation) => (
+                  <TableRow key={invitation.id}>
+                    <TableCell className="font-medium">{invitation.email}</TableCell>
+                    <TableCell>{ROLE_LABELS[invitation.role] || invitation.role}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{invitation.invitedByEmail || "-"}</TableCell>
+                    <TableCell className="text-sm">{formatDate(invitation.createdAt)}</TableCell>
+                    <TableCell className="text-sm">
+                      {formatDate(invitation.expiresAt)}
+                      {invitation.acceptedAt && (
+                        <div className="text-xs text-muted-foreground">accepted {formatDate(invitation.acceptedAt)}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANTS[invitation.status]}>{invitation.status}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {invitation.status === "pending" && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setRevokeTarget({ id: invitation.id, email: invitation.email })}
+                        >
+                          <X className="h-4 w-4 mr-1" />
+                          Revoke
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* New invitation */}
+      <Dialog open={inviteDialogOpen} onOpenChange={setInviteDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Invite an admin</DialogTitle>
+            <DialogDescription>The role is granted when the invitation is accepted.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Email</Label>
+              <Input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="name@example.com"
+              />
+            </div>
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Role</Label>
+                <Select value={role} onValueChange={(value) => setRole(value as Role)}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a role" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {INVITABLE_ROLES.map((r) => (
+                      <SelectItem key={r} value={r}>{ROLE_LABELS[r]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Expires in</Label>
+                <Select value={expiresInDays} onValueChange={setExpiresInDays}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EXPIRY_OPTIONS.map((days) => (
+                      <SelectItem key={days} value={days.toString()}>
+                        {days} {days === 1 ? "day" : "days"}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setInviteDialogOpen(false)}>Cancel</Button>
+            <Button
+              disabled={!email.trim() || !role || createMutation.isPending}
+              onClick={() => {
+                if (!role) return;
+                createMutation.mutate({ email: email.trim(), role, expiresInDays: Number(expiresInDays) });
+              }}
+            >
+              Send invitation
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Show the link once */}
+      <Dialog open={!!created} onOpenChange={(open) => !open && setCreated(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Invitation created</DialogTitle>
+            <DialogDescription>
+              {created?.emailSent
+                ? "The invitation was emailed. You can also share this link; it is only shown now."
+                : "The invitation email could not be sent. Share this link with the invitee yourself; it is only shown now."}
+            </DialogDescription>
+          </DialogHeader>
+          <code className="block break-all rounded bg-muted p-3 text-sm">{created?.link}</code>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => {
+                navigator.clipboard.writeText(created?.link || "");
+                toast({ title: "Copied", description: "Invitation link copied to clipboard." });
+              }}
+            >
+              <Copy className="h-4 w-4 mr-2" />
+              Copy link
+            </Button>
+            <Button onClick={() => setCreated(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Revoke */}
+      <Dialog open={!!revokeTarget} onOpenChange={(open) => !open && setRevokeTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Revoke invitation</DialogTitle>
+            <DialogDescription>
+              The invitation link for {revokeTarget?.email} will stop working. This cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRevokeTarget(null)}>Cancel</Button>
+            <Button
+              variant="destructive"
+              disabled={revokeMutation.isPending}
+              onClick={() => revokeTarget && revokeMutation.mutate({ id: revokeTarget.id })}
+            >
+              Revoke
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,306 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { trpc } from "@/lib/trpc";
+import { useToast } from "@/hooks/use-toast";
+import { CalendarClock, ChevronLeft, ChevronRight, Loader2, Play, RefreshCw } from "lucide-react";
+
+const PAGE_SIZE = 50;
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  running: "outline",
+  succeeded: "default",
+  failed: "destructive",
+};
+
+const formatDate = (date: Date | null | undefined) => (date ? new Date(date).toLocaleString() : "-");
+
+const formatDuration = (ms: number | null | undefined) => {
+  if (ms === null || ms === undefined) return "-";
+  if (ms < 1000) return `${ms}ms`;
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`;
+  return `${Math.floor(ms / 60000)}m ${Math.round((ms % 60000) / 1000)}s`;
+};
+
+type RunDetail = {
+  id: string;
+  jobName: string;
+  status: string;
+  startedAt: Date;
+  result: Record<string, unknown> | null;
+  error: string | null;
+};
+
+export default function Jobs() {
+  const { toast } = useToast();
+  const [jobFilter, setJobFilter] = useState("all");
+  const [page, setPage] = useState(0);
+  const [selectedRun, setSelectedRun] = useState<RunDetail | null>(null);
+
+  const { data: jobs, isLoading: loadingJobs, refetch: refetchJobs, isFetching } = trpc.jobs.list.useQuery(undefined, {
+    // Poll while something is running so status updates without a manual refresh
+    refetchInterval: (query) => (query.state.data?.some((job) => job.running) ? 5000 : 30000),
+  });
+  const anyRunning = jobs?.some((job) => job.running) ?? false;
+
+  const { data: history, isLoading: loadingRuns, refetch: refetchRuns } = trpc.jobs.runs.useQuery(
+    {
+      jobName: jobFilter === "all" ? undefined : jobFilter,
+      limit: PAGE_SIZE,
+      offset: page * PAGE_SIZE,
+    },
+    { refetchInterval: anyRunning ? 5000 : 30000 }
+  );
+
+  const triggerMutation = trpc.jobs.trigger.useMutation({
+    onSuccess: (run) => {
+      toast({ title: "Job started", description: `${run.jobName} is running.` });
+      refetchJobs();
+      refetchRuns();
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const totalPages = Math.max(1, Math.ceil((history?.total || 0) / PAGE_SIZE));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Jobs</h1>
+          <p className="text-muted-foreground">Scheduled maintenance jobs and their run history (schedules are in UTC)</p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => {
+            refetchJobs();
+            refetchRuns();
+          }}
+          disabled={isFetching}
+        >
+          <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? "animate-spin" : ""}`} />
+          Refresh
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5" />
+            Scheduled jobs
+          </CardTitle>
+          <CardDescription>Only one run of a job happens at a time, across all server instances.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loadingJobs ? (
+            <div className="space-y-2">
+              {[...Array(4)].map((_, i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : !jobs || jobs.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No jobs registered</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Job</TableHead>
+                  <TableHead>Schedule</TableHead>
+                  <TableHead>Last run</TableHead>
+                  <TableHead>Duration</TableHead>
+                  <TableHead>Next run</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {jobs.map((job) => (
+                  <TableRow key={job.name}>
+                    <TableCell>
+                      <div className="font-medium font-mono text-sm">{job.name}</div>
+                      <div className="text-xs text-muted-foreground max-w-sm">{job.description}</div>
+                    </TableCell>
+                    <TableCell className="font-mono text-sm whitespace-nowrap">{job.schedule}</TableCell>
+                    <TableCell className="text-sm">
+                      {job.running ? (
+                        <Badge variant="outline">running</Badge>
+                      ) : job.lastRun ? (
+                        <div className="space-y-1">
+                          <Badge variant={STATUS_VARIANTS[job.lastRun.status] || "secondary"}>{job.lastRun.status}</Badge>
+                          <div className="text-xs text-muted-foreground">{formatDate(job.lastRun.startedAt)}</div>
+                          {job.lastRun.error && (
+                            <div className="text-xs text-destructive max-w-xs truncate" title={job.lastRun.error}>
+                              {job.lastRun.error}
+                            </div>
+                          )}
+                        </div>
+                      ) : (
+                        <span className="text-muted-foreground">Never</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">{formatDuration(job.lastRun?.durationMs)}</TableCell>
+                    <TableCell className="text-sm">{formatDate(job.nextRunAt)}</TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={job.running || triggerMutation.isPending}
+                        onClick={() => triggerMutation.mutate({ name: job.name })}
+                      >
+                        {job.running ? (
+                          <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                        ) : (
+                          <Play className="h-4 w-4 mr-1" />
+                        )}
+                        Run now
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+          <div>
+            <CardTitle>Run history</CardTitle>
+            <CardDescription>{history ? `${history.total} run(s)` : "Loading..."}</CardDescription>
+          </div>
+          <Select
+            value={jobFilter}
+            onValueChange={(value) => {
+              setJobFilter(value);
+              setPage(0);
+            }}
+          >
+            <SelectTrigger className="w-[220px]">
+              <SelectValue placeholder="All jobs" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All jobs</SelectItem>
+              {jobs?.map((job) => (
+                <SelectItem key={job.name} value={job.name}>{job.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {loadingRuns ? (
+            <div className="space-y-2">
+              {[...Array(5)].map((_, i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : !history || history.runs.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No runs recorded yet</p>
+          ) : (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Job</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Trigger</TableHead>
+                    <TableHead>Started</TableHead>
+                    <TableHead>Duration</TableHead>
+                    <TableHead>Instance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {history.runs.map((run) => (
+                    <TableRow key={run.id} className="cursor-pointer" onClick={() => setSelectedRun(run)}>
+                      <TableCell className="font-mono text-sm">{run.jobName}</TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_VARIANTS[run.status] || "secondary"}>{run.status}</Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {run.trigger === "manual" ? `Manual (${run.triggeredByEmail || "unknown"})` : "Schedule"}
+                      </TableCell>
+                      <TableCell className="text-sm">{formatDate(run.startedAt)}</TableCell>
+                      <TableCell className="text-sm">{formatDuration(run.durationMs)}</TableCell>
+                      <TableCell className="text-xs text-muted-foreground font-mono">{run.instanceId}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              {totalPages > 1 && (
+                <div className="flex items-center justify-between mt-4">
+                  <p className="text-sm text-muted-foreground">
+                    Page {page + 1} of {totalPages}
+                  </p>
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page === 0}>
+                      <ChevronLeft className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setPage(page + 1)}
+                      disabled={page + 1 >= totalPages}
+                    >
+                      <ChevronRight className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!selectedRun} onOpenChange={(open) => !open && setSelectedRun(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="font-mono">{selectedRun?.jobName}</DialogTitle>
+            <DialogDescription>
+              {selectedRun?.status} · started {formatDate(selectedRun?.startedAt)}
+            </DialogDescription>
+          </DialogHeader>
+          {selectedRun?.error && (
+            <div>
+              <p className="text-sm font-medium text-muted-foreground">Error</p>
+              <p className="text-sm text-destructive whitespace-pre-wrap">{selectedRun.error}</p>
+            </div>
+          )}
+          {selectedRun?.result && (
+            <div>
+              <p className="text-sm font-medium text-muted-foreground">Result</p>
+              <pre className="text-xs bg-muted rounded p-3 overflow-auto max-h-64">
+                {JSON.stringify(selectedRun.result, null, 2)}
+              </pre>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
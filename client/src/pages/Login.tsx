@@ -1,13 +1,16 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useLocation } from "wouter";
 import { trpc } from "@/lib/trpc";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
 import { useToast } from "@/hooks/use-toast";
-import { Shield, ArrowLeft, Mail, CheckCircle } from "lucide-react";
-import { resetPassword } from "@/lib/supabase";
+import { Shield, ArrowLeft, Mail, CheckCircle, KeyRound, Copy, Fingerprint, Building2 } from "lucide-react";
+import { browserSupportsWebAuthn, startAuthentication } from "@simplewebauthn/browser";
+
+type TwoFactorStep = "verify" | "enroll";
 
 export default function Login() {
   const [, setLocation] = useLocation();
@@ -18,34 +21,158 @@ export default function Login() {
   const [password, setPassword] = useState("");
   const [showForgotPassword, setShowForgotPassword] = useState(false);
   const [resetEmail, setResetEmail] = useState("");
-  const [resetLoading, setResetLoading] = useState(false);
   const [resetSent, setResetSent] = useState(false);
 
-  const loginMutation = trpc.auth.login.useMutation({
-    onSuccess: async () => {
-      toast({
-        title: "Welcome back!",
-        description: "You have been logged in successfully.",
-      });
-      // Refetch auth state after login to ensure cookie is properly recognized
-      await utils.auth.me.refetch();
-      setLocation("/");
-    },
+  // Two-factor step state
+  const [twoFactorStep, setTwoFactorStep] = useState<TwoFactorStep | null>(null);
+  const [challengeToken, setChallengeToken] = useState("");
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [enrollment, setEnrollment] = useState<{ secret: string; qrCodeDataUrl: string } | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const onLoggedIn = async () => {
+    toast({
+      title: "Welcome back!",
+      description: "You have been logged in successfully.",
+    });
+    // Refetch auth state after login to ensure cookie is properly recognized
+    await utils.auth.me.refetch();
+    setLocation("/");
+  };
+
+  const onLoginError = (error: { message: string }) => {
+    toast({
+      title: "Login failed",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const resetTwoFactor = () => {
+    setTwoFactorStep(null);
+    setChallengeToken("");
+    setCode("");
+    setUseRecoveryCode(false);
+    setEnrollment(null);
+    setRecoveryCodes(null);
+  };
+
+  const requestPasswordResetMutation = trpc.auth.requestPasswordReset.useMutation({
+    onSuccess: () => setResetSent(true),
     onError: (error) => {
       toast({
-        title: "Login failed",
-        description: error.message,
+        title: "Error",
+        description: error.message || "Failed to send reset email",
         variant: "destructive",
       });
     },
   });
 
+  const beginEnrollmentMutation = trpc.auth.beginTwoFactorEnrollment.useMutation({
+    onSuccess: (data) => setEnrollment(data),
+    onError: onLoginError,
+  });
+
+  const loginMutation = trpc.auth.login.useMutation({
+    onSuccess: async (data) => {
+      if (!data.success) {
+        // Password accepted; a second factor (or enrollment) is required
+        setChallengeToken(data.challengeToken);
+        setTwoFactorStep(data.twoFactor);
+        setCode("");
+        if (data.twoFactor === "enroll") {
+          beginEnrollmentMutation.mutate({ challengeToken: data.challengeToken });
+        }
+        return;
+      }
+      await onLoggedIn();
+    },
+    onError: onLoginError,
+  });
+
+  const verifyTwoFactorMutation = trpc.auth.verifyTwoFactor.useMutation({
+    onSuccess: onLoggedIn,
+    onError: (error) => {
+      setCode("");
+      onLoginError(error);
+      // Challenge is gone (expired or too many attempts) - start over
+      if (error.data?.code === "UNAUTHORIZED" && error.message.includes("sign in again")) {
+        resetTwoFactor();
+      }
+    },
+  });
+
+  const completeEnrollmentMutation = trpc.auth.completeTwoFactorEnrollment.useMutation({
+    onSuccess: (data) => setRecoveryCodes(data.recoveryCodes),
+    onError: (error) => {
+      setCode("");
+      onLoginError(error);
+      if (error.data?.code === "UNAUTHORIZED" && error.message.includes("sign in again")) {
+        resetTwoFactor();
+      }
+    },
+  });
+
+  // Single sign-on: errors come back as ?sso_error=..., a required second
+  // factor as #sso_challenge=...&two_factor=verify|enroll
+  const { data: ssoProvider } = trpc.auth.ssoProvider.useQuery();
+
+  useEffect(() => {
+    const ssoError = new URLSearchParams(window.location.search).get("sso_error");
+    const hash = new URLSearchParams(window.location.hash.slice(1));
+    const ssoChallenge = hash.get("sso_challenge");
+    const step = hash.get("two_factor");
+    if (!ssoError && !ssoChallenge) return;
+
+    window.history.replaceState(null, "", window.location.pathname);
+    if (ssoError) {
+      onLoginError({ message: ssoError });
+      return;
+    }
+    if (ssoChallenge && (step === "verify" || step === "enroll")) {
+      setChallengeToken(ssoChallenge);
+      setTwoFactorStep(step);
+      if (step === "enroll") {
+        beginEnrollmentMutation.mutate({ challengeToken: ssoChallenge });
+      }
+    }
+  }, []); // Once, on arrival from the provider
+
+  const passkeyOptionsMutation = trpc.auth.passkeyAuthenticationOptions.useMutation();
+  const verifyPasskeyMutation = trpc.auth.verifyPasskeyAuthentication.useMutation({
+    onSuccess: onLoggedIn,
+    onError: onLoginError,
+  });
+  const passkeyPending = passkeyOptionsMutation.isPending || verifyPasskeyMutation.isPending;
+
+  const handlePasskeyLogin = async () => {
+    try {
+      const { challengeId, options } = await passkeyOptionsMutation.mutateAsync();
+      const response = await startAuthentication({ optionsJSON: options });
+      verifyPasskeyMutation.mutate({ challengeId, response });
+    } catch (err: any) {
+      // User cancelled the browser prompt - nothing to report
+      if (err?.name === "NotAllowedError") return;
+      onLoginError({ message: err?.message || "Passkey sign-in failed" });
+    }
+  };
+
   const handleLogin = (e: React.FormEvent) => {
     e.preventDefault();
     loginMutation.mutate({ email, password });
   };
 
-  const handleForgotPassword = async (e: React.FormEvent) => {
+  const handleVerifyTwoFactor = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (twoFactorStep === "enroll") {
+      completeEnrollmentMutation.mutate({ challengeToken, code });
+    } else {
+      verifyTwoFactorMutation.mutate({ challengeToken, code: code.trim() });
+    }
+  };
+
+  const handleForgotPassword = (e: React.FormEvent) => {
     e.preventDefault();
     if (!resetEmail) {
       toast({
@@ -56,27 +183,7 @@ export default function Login() {
       return;
     }
 
-    setResetLoading(true);
-    try {
-      const { error } = await resetPassword(resetEmail);
-      if (error) {
-        toast({
-          title: "Error",
-          description: error.message,
-          variant: "destructive",
-        });
-      } else {
-        setResetSent(true);
-      }
-    } catch (err: any) {
-      toast({
-        title: "Error",
-        description: err.message || "Failed to send reset email",
-        variant: "destructive",
-      });
-    } finally {
-      setResetLoading(false);
-    }
+    requestPasswordResetMutation.mutate({ email: resetEmail });
   };
 
   // Forgot Password View
@@ -93,7 +200,7 @@ export default function Login() {
             </CardTitle>
             <CardDescription className="text-slate-400">
               {resetSent
-                ? `We sent a reset link to ${resetEmail}`
+                ? `If ${resetEmail} has an account, we sent it a reset link`
                 : "Enter your email and we'll send you a reset link"}
             </CardDescription>
           </CardHeader>
@@ -148,9 +255,9 @@ export default function Login() {
                 <Button
                   type="submit"
                   className="w-full bg-gradient-to-r from-orange-500 to-orange-600 hover:from-orange-600 hover:to-orange-700 text-white font-semibold"
-                  disabled={resetLoading}
+                  disabled={requestPasswordResetMutation.isPending}
                 >
-                  {resetLoading ? "Sending..." : "Send Reset Link"}
+                  {requestPasswordResetMutation.isPending ? "Sending..." : "Send Reset Link"}
                 </Button>
                 <Button
                   type="button"
@@ -172,6 +279,156 @@ export default function Login() {
     );
   }
 
+  // Recovery codes view (shown once after enrolling during login)
+  if (recoveryCodes) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 p-4">
+        <Card className="w-full max-w-md bg-slate-800/50 border-slate-700">
+          <CardHeader className="text-center">
+            <div className="mx-auto mb-4 p-3 bg-orange-500/10 rounded-full w-fit">
+              <KeyRound className="h-8 w-8 text-orange-500" />
+            </div>
+            <CardTitle className="text-2xl text-white">Save your recovery codes</CardTitle>
+            <CardDescription className="text-slate-400">
+              Each code can be used once if you lose access to your authenticator app.
+              They will not be shown again.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 gap-2 p-4 bg-slate-900/60 rounded-lg font-mono text-sm text-slate-200">
+              {recoveryCodes.map((recoveryCode) => (
+                <span key={recoveryCode}>{recoveryCode}</span>
+              ))}
+            </div>
+            <Button
+              variant="outline"
+              className="w-full border-slate-600 text-slate-300 hover:bg-slate-700"
+              onClick={() => {
+                navigator.clipboard.writeText(recoveryCodes.join("\n"));
+                toast({ title: "Copied", description: "Recovery codes copied to clipboard." });
+              }}
+            >
+              <Copy className="h-4 w-4 mr-2" />
+              Copy codes
+            </Button>
+            <Button
+              className="w-full bg-gradient-to-r from-orange-500 to-orange-600 hover:from-orange-600 hover:to-orange-700 text-white font-semibold"
+              onClick={onLoggedIn}
+            >
+              I've saved my codes - Continue
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  // Two-Factor View (verification or mandatory enrollment)
+  if (twoFactorStep) {
+    const isEnrolling = twoFactorStep === "enroll";
+    const isPending = verifyTwoFactorMutation.isPending || completeEnrollmentMutation.isPending;
+    const canSubmit = useRecoveryCode ? code.trim().length >= 10 : code.length === 6;
+
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 p-4">
+        <Card className="w-full max-w-md bg-slate-800/50 border-slate-700">
+          <CardHeader className="text-center">
+            <div className="mx-auto mb-4 p-3 bg-orange-500/10 rounded-full w-fit">
+              <KeyRound className="h-8 w-8 text-orange-500" />
+            </div>
+            <CardTitle className="text-2xl text-white">
+              {isEnrolling ? "Set up two-factor authentication" : "Two-factor authentication"}
+            </CardTitle>
+            <CardDescription className="text-slate-400">
+              {isEnrolling
+                ? "Two-factor authentication is required for your account. Scan the QR code with your authenticator app, then enter the 6-digit code."
+                : useRecoveryCode
+                  ? "Enter one of your recovery codes"
+                  : "Enter the 6-digit code from your authenticator app"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleVerifyTwoFactor} className="space-y-4">
+              {isEnrolling && (
+                <div className="space-y-2">
+                  {enrollment ? (
+                    <>
+                      <div className="flex justify-center p-3 bg-white rounded-lg">
+                        <img src={enrollment.qrCodeDataUrl} alt="Authenticator QR code" className="h-48 w-48" />
+                      </div>
+                      <p className="text-center text-xs text-slate-400">
+                        Can't scan? Enter this key manually:
+                      </p>
+                      <p className="text-center font-mono text-sm text-slate-200 break-all">
+                        {enrollment.secret}
+                      </p>
+                    </>
+                  ) : (
+                    <p className="text-center text-sm text-slate-400">
+                      {beginEnrollmentMutation.isPending ? "Generating QR code..." : "Unable to generate QR code."}
+                    </p>
+                  )}
+                </div>
+              )}
+              {useRecoveryCode ? (
+                <Input
+                  id="recovery-code"
+                  placeholder="xxxxx-xxxxx"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  autoComplete="one-time-code"
+                  autoFocus
+                  className="bg-slate-700/50 border-slate-600 text-white placeholder:text-slate-500 font-mono text-center"
+                />
+              ) : (
+                <div className="flex justify-center">
+                  <InputOTP maxLength={6} value={code} onChange={setCode} autoFocus>
+                    <InputOTPGroup>
+                      {[0, 1, 2, 3, 4, 5].map((index) => (
+                        <InputOTPSlot key={index} index={index} className="border-slate-600 text-white" />
+                      ))}
+                    </InputOTPGroup>
+                  </InputOTP>
+                </div>
+              )}
+              <Button
+                type="submit"
+                className="w-full bg-gradient-to-r from-orange-500 to-orange-600 hover:from-orange-600 hover:to-orange-700 text-white font-semibold"
+                disabled={isPending || !canSubmit}
+              >
+                {isPending ? "Verifying..." : "Verify"}
+              </Button>
+              {!isEnrolling && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    setUseRecoveryCode(!useRecoveryCode);
+                    setCode("");
+                  }}
+                  className="w-full text-xs text-orange-400 hover:text-orange-300 transition-colors"
+                >
+                  {useRecoveryCode ? "Use authenticator app instead" : "Use a recovery code instead"}
+                </button>
+              )}
+              <Button
+                type="button"
+                variant="ghost"
+                className="w-full text-orange-400 hover:text-orange-300 hover:bg-slate-700/50"
+                onClick={() => {
+                  resetTwoFactor();
+                  setPassword("");
+                }}
+              >
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Login
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   // Login View
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 p-4">
@@ -232,6 +489,42 @@ export default function Login() {
               {loginMutation.isPending ? "Signing in..." : "Sign In"}
             </Button>
           </form>
+          {(ssoProvider?.enabled || browserSupportsWebAuthn()) && (
+            <>
+              <div className="my-4 flex items-center gap-3">
+                <div className="h-px flex-1 bg-slate-700" />
+                <span className="text-xs text-slate-500">or</span>
+                <div className="h-px flex-1 bg-slate-700" />
+              </div>
+              <div className="space-y-2">
+                {ssoProvider?.enabled && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="w-full border-slate-600 text-slate-300 hover:bg-slate-700"
+                    onClick={() => {
+                      window.location.href = ssoProvider.loginUrl;
+                    }}
+                  >
+                    <Building2 className="h-4 w-4 mr-2" />
+                    Sign in with {ssoProvider.name}
+                  </Button>
+                )}
+                {browserSupportsWebAuthn() && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="w-full border-slate-600 text-slate-300 hover:bg-slate-700"
+                    onClick={handlePasskeyLogin}
+                    disabled={passkeyPending}
+                  >
+                    <Fingerprint className="h-4 w-4 mr-2" />
+                    {passkeyPending ? "Waiting for passkey..." : "Sign in with passkey"}
+                  </Button>
+                )}
+              </div>
+            </>
+          )}
           <div className="mt-6 p-3 bg-slate-700/30 rounded-lg">
             <p className="text-center text-xs text-slate-500">
               This portal is restricted to authorized Tavvy administrators only.
@@ -0,0 +1,131 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { trpc } from "@/lib/trpc";
+import { CheckCircle, KeyRound, ShieldAlert } from "lucide-react";
+
+// Supabase puts the recovery session in the fragment; only the access token is
+// needed, and the server checks it really is a recovery token
+const readRecoveryToken = () => {
+  const params = new URLSearchParams(window.location.hash.slice(1));
+  return params.get("type") === "recovery" ? params.get("access_token") || "" : "";
+};
+
+/**
+ * Landing page for the password reset email: choose a new password. The
+ * server applies the password policy and signs out every other session.
+ */
+export default function ResetPassword() {
+  const [accessToken] = useState(readRecoveryToken);
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: passwordPolicy } = trpc.auth.passwordPolicy.useQuery();
+  const minLength = passwordPolicy?.minLength ?? 12;
+
+  const resetMutation = trpc.auth.resetPassword.useMutation({
+    onError: (err) => setError(err.message),
+  });
+  const loading = resetMutation.isPending;
+  const done = resetMutation.isSuccess;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (password !== confirmPassword) {
+      setError("Passwords do not match");
+      return;
+    }
+
+    if (password.length < minLength) {
+      setError(`Password must be at least ${minLength} characters`);
+      return;
+    }
+
+    resetMutation.mutate({ accessToken, password });
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 p-4">
+      <Card className="w-full max-w-md bg-slate-800/50 border-slate-700">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-4 p-3 bg-orange-500/10 rounded-full w-fit">
+            {done ? (
+              <CheckCircle className="h-8 w-8 text-green-500" />
+            ) : !accessToken ? (
+              <ShieldAlert className="h-8 w-8 text-orange-500" />
+            ) : (
+              <KeyRound className="h-8 w-8 text-orange-500" />
+            )}
+          </div>
+          <CardTitle className="text-2xl text-white">
+            {done ? "Password reset" : !accessToken ? "Link not valid" : "Choose a new password"}
+          </CardTitle>
+          <CardDescription className="text-slate-400">
+            {done
+              ? "Your password has been changed and all your sessions were signed out. Sign in with the new password."
+              : !accessToken
+                ? "This reset link is invalid or has expired. Request a new one from the sign-in page."
+                : "Enter the new password for your admin account."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {accessToken && !done ? (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="password" className="text-slate-300">New Password</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  placeholder="••••••••"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  disabled={loading}
+                  maxLength={passwordPolicy?.maxLength}
+                  className="bg-slate-700/50 border-slate-600 text-white placeholder:text-slate-500"
+                />
+                <p className="text-xs text-slate-500">
+                  At least {minLength} characters. Avoid anything based on your email address or
+                  passwords known from data breaches.
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirmPassword" className="text-slate-300">Confirm Password</Label>
+                <Input
+                  id="confirmPassword"
+                  type="password"
+                  placeholder="••••••••"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                  disabled={loading}
+                  className="bg-slate-700/50 border-slate-600 text-white placeholder:text-slate-500"
+                />
+              </div>
+              {error && <p className="text-sm text-destructive">{error}</p>}
+              <Button
+                type="submit"
+                className="w-full bg-gradient-to-r from-orange-500 to-orange-600 hover:from-orange-600 hover:to-orange-700 text-white font-semibold"
+                disabled={loading}
+              >
+                {loading ? "Saving..." : "Reset Password"}
+              </Button>
+            </form>
+          ) : (
+            <Link href="/login">
+              <Button variant="outline" className="w-full border-slate-600 text-slate-300 hover:bg-slate-700">
+                Go to sign in
+              </Button>
+            </Link>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
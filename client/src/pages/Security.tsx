@@ -0,0 +1,645 @@
+import { useMemo, useState } from "react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { trpc } from "@/lib/trpc";
+import { ExportMenu } from "@/components/ExportMenu";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Permissions } from "@shared/permissions";
+import {
+  ShieldAlert,
+  RefreshCw,
+  CheckCircle2,
+  XCircle,
+  MapPin,
+  History,
+  BarChart3,
+  Search,
+  X,
+} from "lucide-react";
+
+const anomalyTypeLabels: Record<string, string> = {
+  brute_force_attempt: "Brute force",
+  new_device_login: "New device",
+  new_ip_location: "New location",
+  impossible_travel: "Impossible travel",
+  unusual_login_time: "Unusual time",
+  multiple_failed_logins: "Multiple failures",
+  potential_session_hijack: "Session hijack",
+  concurrent_session_limit: "Session limit",
+  account_locked: "Account locked",
+  admin_mass_deletion: "Mass deletion",
+  admin_off_hours_role_grant: "Off-hours role grant",
+  admin_export_after_new_device: "Export after new device",
+};
+
+const severityVariant: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  low: "outline",
+  medium: "secondary",
+  high: "default",
+  critical: "destructive",
+};
+
+const chartColors = [
+  "var(--chart-1)",
+  "var(--chart-2)",
+  "var(--chart-3)",
+  "var(--chart-4)",
+  "var(--chart-5)",
+  "#a855f7",
+  "#14b8a6",
+  "#f43f5e",
+  "#84cc16",
+];
+
+type Anomaly = {
+  id: string;
+  anomalyType: string;
+  severity: string;
+  userEmail?: string;
+  ipAddress?: string;
+};
+
+const emptyFilters = {
+  anomalyType: "all",
+  severity: "all",
+  status: "open" as "open" | "acknowledged" | "all",
+  userEmail: "",
+  from: "",
+  to: "",
+};
+
+export default function Security() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const canManage = can(Permissions.SECURITY_MANAGE);
+
+  const [tab, setTab] = useState("timeline");
+  const [filters, setFilters] = useState(emptyFilters);
+  const [acknowledgeTarget, setAcknowledgeTarget] = useState<Anomaly | null>(null);
+  const [note, setNote] = useState("");
+  const [statsDays, setStatsDays] = useState(14);
+  const [historyEmail, setHistoryEmail] = useState("");
+  const [historyQuery, setHistoryQuery] = useState<string | null>(null);
+
+  const anomalyInput = {
+    limit: 200,
+    status: filters.status,
+    anomalyType: filters.anomalyType !== "all" ? filters.anomalyType : undefined,
+    severity: filters.severity !== "all" ? filters.severity : undefined,
+    userEmail: filters.userEmail.trim() || undefined,
+    from: filters.from ? new Date(`${filters.from}T00:00:00`).toISOString() : undefined,
+    to: filters.to ? new Date(`${filters.to}T23:59:59`).toISOString() : undefined,
+  };
+
+  const { data: anomalies, isLoading, isFetching, refetch } = trpc.auth.getAnomalies.useQuery(anomalyInput);
+  const { data: stats } = trpc.auth.getAnomalyStats.useQuery({ days: statsDays });
+  const { data: criticalCount, refetch: refetchCritical } = trpc.auth.getCriticalAnomalyCount.useQuery();
+  const { data: loginHistory, isFetching: historyLoading } = trpc.auth.getLoginHistory.useQuery(
+    { email: historyQuery || undefined },
+    { enabled: !!historyQuery }
+  );
+
+  const acknowledgeMutation = trpc.auth.acknowledgeAnomaly.useMutation({
+    onSuccess: (data) => {
+      if (!data.success) {
+        toast({ title: "Error", description: "Failed to acknowledge anomaly", variant: "destructive" });
+        return;
+      }
+      toast({ title: "Anomaly acknowledged" });
+      setAcknowledgeTarget(null);
+      setNote("");
+      refetch();
+      refetchCritical();
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const chartConfig = useMemo<ChartConfig>(
+    () =>
+      Object.fromEntries(
+        (stats?.types || []).map((type, i) => [
+          type,
+          { label: anomalyTypeLabels[type] || type, color: chartColors[i % chartColors.length] },
+        ])
+      ),
+    [stats?.types]
+  );
+
+  const chartData = useMemo(
+    () => (stats?.days || []).map((day) => ({ date: day.date.slice(5), ...day.counts })),
+    [stats?.days]
+  );
+
+  const totalsByType = useMemo(() => {
+    const totals: Record<string, number> = {};
+    for (const day of stats?.days || []) {
+      for (const [type, count] of Object.entries(day.counts)) {
+        totals[type] = (totals[type] || 0) + count;
+      }
+    }
+    return totals;
+  }, [stats?.days]);
+
+  const hasFilters = JSON.stringify(filters) !== JSON.stringify(emptyFilters);
+
+  const formatDate = (date: string) => new Date(date).toLocaleString();
+  const describe = (details: Record<string, unknown> | undefined) =>
+    typeof details?.message === "string" ? details.message : null;
+
+  const showLoginHistory = (email: string) => {
+    setHistoryEmail(email);
+    setHistoryQuery(email);
+    setTab("logins");
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Security</h1>
+          <p className="text-muted-foreground">Login anomalies, trends and login history</p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => {
+            refetch();
+            refetchCritical();
+          }}
+          disabled={isFetching}
+        >
+          <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? "animate-spin" : ""}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {!!criticalCount?.count && (
+        <Card className="border-destructive/50">
+          <CardContent className="flex items-center justify-between gap-4 py-4">
+            <div className="flex items-center gap-3">
+              <ShieldAlert className="h-5 w-5 text-destructive" />
+              <span>
+                {criticalCount.count} critical anomal{criticalCount.count === 1 ? "y" : "ies"} awaiting acknowledgement
+              </span>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                setFilters({ ...emptyFilters, severity: "critical" });
+                setTab("timeline");
+              }}
+            >
+              Show
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <Tabs value={tab} onValueChange={setTab}>
+        <TabsList>
+          <TabsTrigger value="timeline">
+            <ShieldAlert className="h-4 w-4 mr-2" />
+            Anomalies
+          </TabsTrigger>
+          <TabsTrigger value="trends">
+            <BarChart3 className="h-4 w-4 mr-2" />
+            Trends
+          </TabsTrigger>
+          <TabsTrigger value="logins">
+            <History className="h-4 w-4 mr-2" />
+            Login history
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="timeline" className="space-y-4">
+          <Card>
+            <CardContent className="grid gap-4 pt-6 md:grid-cols-3 lg:grid-cols-6">
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select
+                  value={filters.anomalyType}
+                  onValueChange={(value) => setFilters({ ...filters, anomalyType: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All types</SelectItem>
+                    {Object.entries(anomalyTypeLabels).map(([type, label]) => (
+                      <SelectItem key={type} value={type}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Severity</Label>
+                <Select
+                  value={filters.severity}
+                  onValueChange={(value) => setFilters({ ...filters, severity: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All severities</SelectItem>
+                    <SelectItem value="critical">Critical</SelectItem>
+                    <SelectItem value="high">High</SelectItem>
+                    <SelectItem value="medium">Medium</SelectItem>
+                    <SelectItem value="low">Low</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Status</Label>
+                <Select
+                  value={filters.status}
+                  onValueChange={(value) => setFilters({ ...filters, status: value as typeof filters.status })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="open">Open</SelectItem>
+                    <SelectItem value="acknowledged">Acknowledged</SelectItem>
+                    <SelectItem value="all">All</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="filter-user">User</Label>
+                <Input
+                  id="filter-user"
+                  placeholder="Email contains..."
+                  value={filters.userEmail}
+                  onChange={(e) => setFilters({ ...filters, userEmail: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="filter-from">From</Label>
+                <Input
+                  id="filter-from"
+                  type="date"
+                  value={filters.from}
+                  onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="filter-to">To</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="filter-to"
+                    type="date"
+                    value={filters.to}
+                    onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+                  />
+                  {hasFilters && (
+                    <Button variant="ghost" size="icon" onClick={() => setFilters(emptyFilters)} title="Clear filters">
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+              <CardTitle>
+                {anomalies ? `${anomalies.length} anomal${anomalies.length === 1 ? "y" : "ies"}` : "Anomalies"}
+              </CardTitle>
+              <ExportMenu
+                dataset="login_anomalies"
+                params={{
+                  type: anomalyInput.anomalyType,
+                  severity: anomalyInput.severity,
+                  status: anomalyInput.status,
+                  userEmail: anomalyInput.userEmail,
+                  from: anomalyInput.from,
+                  to: anomalyInput.to,
+                }}
+              />
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="space-y-2">
+                  {[...Array(5)].map((_, i) => (
+                    <Skeleton key={i} className="h-12 w-full" />
+                  ))}
+                </div>
+              ) : !anomalies || anomalies.length === 0 ? (
+                <p className="text-center text-muted-foreground py-8">No anomalies match these filters</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>When</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Severity</TableHead>
+                      <TableHead>User</TableHead>
+                      <TableHead>IP</TableHead>
+                      <TableHead>Status</TableHead>
+                      {canManage && <TableHead className="text-right">Actions</TableHead>}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {anomalies.map((anomaly) => (
+                      <TableRow key={anomaly.id}>
+                        <TableCell className="text-sm whitespace-nowrap">{formatDate(anomaly.createdAt)}</TableCell>
+                        <TableCell>
+                          <div className="font-medium">
+                            {anomalyTypeLabels[anomaly.anomalyType] || anomaly.anomalyType}
+                          </div>
+                          {describe(anomaly.details) && (
+                            <div className="text-xs text-muted-foreground max-w-sm">{describe(anomaly.details)}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={severityVariant[anomaly.severity] || "outline"}>{anomaly.severity}</Badge>
+                        </TableCell>
+                        <TableCell>
+                          {anomaly.userEmail ? (
+                            <button
+                              className="text-sm hover:underline"
+                              onClick={() => showLoginHistory(anomaly.userEmail!)}
+                              title="Show login history"
+                            >
+                              {anomaly.userEmail}
+                            </button>
+                          ) : (
+                            <span className="text-muted-foreground">-</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm font-mono">{anomaly.ipAddress || "-"}</TableCell>
+                        <TableCell>
+                          {anomaly.acknowledgedAt ? (
+                            <div>
+                              <div className="flex items-center gap-1 text-sm text-green-600">
+                                <CheckCircle2 className="h-4 w-4" />
+                                {formatDate(anomaly.acknowledgedAt)}
+                              </div>
+                              {anomaly.acknowledgementNote && (
+                                <div className="text-xs text-muted-foreground max-w-xs">{anomaly.acknowledgementNote}</div>
+                              )}
+                            </div>
+                          ) : (
+                            <Badge variant="outline">Open</Badge>
+                          )}
+                        </TableCell>
+                        {canManage && (
+                          <TableCell className="text-right">
+                            {!anomaly.acknowledgedAt && (
+                              <Button variant="outline" size="sm" onClick={() => setAcknowledgeTarget(anomaly)}>
+                                Acknowledge
+                              </Button>
+                            )}
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="trends" className="space-y-4">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+              <div>
+                <CardTitle>Anomalies per day</CardTitle>
+                <CardDescription>Counts of each anomaly type (UTC days)</CardDescription>
+              </div>
+              <Select value={String(statsDays)} onValueChange={(value) => setStatsDays(Number(value))}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="7">Last 7 days</SelectItem>
+                  <SelectItem value="14">Last 14 days</SelectItem>
+                  <SelectItem value="30">Last 30 days</SelectItem>
+                  <SelectItem value="90">Last 90 days</SelectItem>
+                </SelectContent>
+              </Select>
+            </CardHeader>
+            <CardContent>
+              {!stats ? (
+                <Skeleton className="h-64 w-full" />
+              ) : (
+                <ChartContainer config={chartConfig} className="h-72 w-full aspect-auto">
+                  <BarChart data={chartData}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="date" tickLine={false} axisLine={false} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    {stats.types.map((type) => (
+                      <Bar key={type} dataKey={type} stackId="anomalies" fill={`var(--color-${type})`} />
+                    ))}
+                  </BarChart>
+                </ChartContainer>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Totals</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Type</TableHead>
+                    <TableHead className="text-right">Count</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {(stats?.types || []).map((type) => (
+                    <TableRow key={type}>
+                      <TableCell>{anomalyTypeLabels[type] || type}</TableCell>
+                      <TableCell className="text-right tabular-nums">{totalsByType[type] || 0}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="logins" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Login history</CardTitle>
+              <CardDescription>Successful and failed sign-ins for one account</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <form
+                className="flex gap-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  if (historyEmail.trim()) setHistoryQuery(historyEmail.trim());
+                }}
+              >
+                <Input
+                  type="email"
+                  placeholder="user@example.com"
+                  value={historyEmail}
+                  onChange={(e) => setHistoryEmail(e.target.value)}
+                  className="max-w-sm"
+                />
+                <Button type="submit" disabled={!historyEmail.trim()}>
+                  <Search className="h-4 w-4 mr-2" />
+                  Look up
+                </Button>
+              </form>
+
+              {!historyQuery ? (
+                <p className="text-center text-muted-foreground py-8">Enter an email to see its login history</p>
+              ) : historyLoading ? (
+                <div className="space-y-2">
+                  {[...Array(5)].map((_, i) => (
+                    <Skeleton key={i} className="h-12 w-full" />
+                  ))}
+                </div>
+              ) : !loginHistory || loginHistory.length === 0 ? (
+                <p className="text-center text-muted-foreground py-8">No logins recorded for {historyQuery}</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>When</TableHead>
+                      <TableHead>Result</TableHead>
+                      <TableHead>Method</TableHead>
+                      <TableHead>IP / Location</TableHead>
+                      <TableHead>User agent</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {loginHistory.map((login) => (
+                      <TableRow key={login.id}>
+                        <TableCell className="text-sm whitespace-nowrap">{formatDate(login.createdAt)}</TableCell>
+                        <TableCell>
+                          {login.success ? (
+                            <span className="flex items-center gap-1 text-sm text-green-600">
+                              <CheckCircle2 className="h-4 w-4" />
+                              Success
+                            </span>
+                          ) : (
+                            <span className="flex items-center gap-1 text-sm text-red-600" title={login.reason || undefined}>
+                              <XCircle className="h-4 w-4" />
+                              Failed
+                            </span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm">{login.method || "-"}</TableCell>
+                        <TableCell>
+                          <div className="text-sm font-mono">{login.ipAddress || "-"}</div>
+                          <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                            <MapPin className="h-3 w-3" />
+                            {login.location || "Unknown location"}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-xs text-muted-foreground max-w-xs truncate" title={login.userAgent || undefined}>
+                          {login.userAgent || "-"}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      <Dialog
+        open={!!acknowledgeTarget}
+        onOpenChange={(open) => {
+          if (!open) {
+            setAcknowledgeTarget(null);
+            setNote("");
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Acknowledge anomaly</DialogTitle>
+            <DialogDescription>
+              {acknowledgeTarget &&
+                `${anomalyTypeLabels[acknowledgeTarget.anomalyType] || acknowledgeTarget.anomalyType} for ${
+                  acknowledgeTarget.userEmail || acknowledgeTarget.ipAddress || "unknown user"
+                }.`}{" "}
+              This action is recorded in the audit log.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="acknowledge-note">Note (optional)</Label>
+            <Textarea
+              id="acknowledge-note"
+              placeholder="e.g. Confirmed with user, travelling abroad"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={1000}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setAcknowledgeTarget(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() =>
+                acknowledgeTarget &&
+                acknowledgeMutation.mutate({ anomalyId: acknowledgeTarget.id, note: note.trim() || undefined })
+              }
+              disabled={acknowledgeMutation.isPending}
+            >
+              Acknowledge
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
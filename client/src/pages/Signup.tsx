@@ -1,60 +1,61 @@
-import { useState, useEffect } from "react";
-import { useLocation, useSearch } from "wouter";
+import { useState } from "react";
+import { useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Loader2, UserPlus, AlertCircle, CheckCircle, PartyPopper } from "lucide-react";
-import { signUpWithEmail } from "@/lib/supabase";
+import { Loader2, UserPlus, AlertCircle, CheckCircle, MailX } from "lucide-react";
+import { trpc } from "@/lib/trpc";
 
+// The invite token travels in the fragment so it never reaches server logs or referrers
+const readInviteToken = () => new URLSearchParams(window.location.hash.slice(1)).get("invite") || "";
+
+const formatRole = (role: string) => role.replace(/_/g, " ").replace(/\b\w/g, c => c.toUpperCase());
+
+/**
+ * Invitation-only signup: the link from the invitation email carries a
+ * signed, single-use token that fixes the email and role
+ */
 export default function Signup() {
   const [, setLocation] = useLocation();
-  const searchString = useSearch();
-  const searchParams = new URLSearchParams(searchString);
-  const paymentSuccess = searchParams.get("payment") === "success";
-  
+  const [inviteToken] = useState(readInviteToken);
+
   const [fullName, setFullName] = useState("");
-  const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [confirmPassword, setConfirmPassword] = useState("");
-  const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  const { data: invitation, isLoading: invitationLoading } = trpc.auth.invitation.useQuery(
+    { token: inviteToken },
+    { enabled: !!inviteToken, retry: false }
+  );
+  const { data: passwordPolicy } = trpc.auth.passwordPolicy.useQuery();
+  const minLength = passwordPolicy?.minLength ?? 12;
+
+  // The server checks the invitation and password policy and explains any rejection
+  const signupMutation = trpc.auth.signup.useMutation({
+    onSuccess: () => setSuccess(true),
+    onError: (err) => setError(err.message),
+  });
+  const loading = signupMutation.isPending;
+
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    setLoading(true);
     setError(null);
 
     if (password !== confirmPassword) {
       setError("Passwords do not match");
-      setLoading(false);
       return;
     }
 
-    if (password.length < 6) {
-      setError("Password must be at least 6 characters");
-      setLoading(false);
+    if (password.length < minLength) {
+      setError(`Password must be at least ${minLength} characters`);
       return;
     }
 
-    const { data, error: signUpError } = await signUpWithEmail(email, password, {
-      full_name: fullName,
-      is_pro: true,
-      subscription_status: 'active',
-    });
-
-    if (signUpError) {
-      setError(signUpError.message);
-      setLoading(false);
-      return;
-    }
-
-    if (data.user) {
-      setSuccess(true);
-    }
-    setLoading(false);
+    signupMutation.mutate({ inviteToken, fullName, password });
   };
 
   if (success) {
@@ -67,20 +68,46 @@ export default function Signup() {
                 <CheckCircle className="h-8 w-8 text-white" />
               </div>
             </div>
-            <CardTitle className="text-2xl text-slate-900">Check Your Email</CardTitle>
+            <CardTitle className="text-2xl text-slate-900">Account Created</CardTitle>
             <CardDescription className="text-slate-600">
-              We've sent a confirmation link to <strong className="text-slate-800">{email}</strong>. 
-              Please check your email and click the link to activate your account.
+              Your account for <strong className="text-slate-800">{invitation?.email}</strong> is ready.
+              Sign in with the password you just chose.
             </CardDescription>
           </CardHeader>
-          <CardContent className="text-center text-slate-600">
-            <p className="text-sm">
-              After confirming your email, you'll be able to set up your Business Profile and start receiving leads.
-            </p>
-          </CardContent>
           <CardFooter>
-            <Button 
-              className="w-full bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800" 
+            <Button
+              className="w-full bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800"
+              onClick={() => setLocation("/login")}
+            >
+              Go to Login
+            </Button>
+          </CardFooter>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!inviteToken || (!invitationLoading && !invitation)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-[#f9f7f2] p-4">
+        <Card className="w-full max-w-md border-none shadow-xl">
+          <CardHeader className="text-center">
+            <div className="flex justify-center mb-4">
+              <div className="w-16 h-16 bg-slate-200 rounded-full flex items-center justify-center">
+                <MailX className="h-8 w-8 text-slate-600" />
+              </div>
+            </div>
+            <CardTitle className="text-2xl text-slate-900">Invitation Required</CardTitle>
+            <CardDescription className="text-slate-600">
+              {inviteToken
+                ? "This invitation link is invalid, has expired, was revoked or was already used. Ask an administrator for a new one."
+                : "Accounts are created by invitation only. Open the link from your invitation email, or ask an administrator to invite you."}
+            </CardDescription>
+          </CardHeader>
+          <CardFooter>
+            <Button
+              variant="outline"
+              className="w-full"
               onClick={() => setLocation("/login")}
             >
               Back to Login
@@ -95,30 +122,23 @@ export default function Signup() {
     <div className="min-h-screen flex items-center justify-center bg-[#f9f7f2] p-4">
       <Card className="w-full max-w-md border-none shadow-xl">
         <CardHeader className="text-center">
-          {paymentSuccess && (
-            <div className="mb-4 p-4 bg-green-50 border border-green-200 rounded-xl">
-              <div className="flex items-center justify-center gap-2 text-green-700 font-semibold mb-1">
-                <PartyPopper className="h-5 w-5" />
-                Payment Successful!
-              </div>
-              <p className="text-green-600 text-sm">
-                Welcome to Tavvy Pros! Create your account to get started.
-              </p>
-            </div>
-          )}
           <div className="flex justify-center mb-4">
-            <img 
-              src="/tavvy-logo.png" 
-              alt="Tavvy" 
+            <img
+              src="/tavvy-logo.png"
+              alt="Tavvy"
               className="h-12 w-auto"
             />
           </div>
-          <CardTitle className="text-2xl text-slate-900">Create Your Pro Account</CardTitle>
+          <CardTitle className="text-2xl text-slate-900">Accept Your Invitation</CardTitle>
           <CardDescription className="text-slate-600">
-            {paymentSuccess 
-              ? "Complete your registration to access your Pro dashboard"
-              : "Join Tavvy Pros and start growing your business"
-            }
+            {invitation ? (
+              <>
+                {invitation.invitedByEmail ? `${invitation.invitedByEmail} invited you` : "You've been invited"} to
+                the Tavvy admin portal as <strong className="text-slate-800">{formatRole(invitation.role)}</strong>.
+              </>
+            ) : (
+              "Loading your invitation..."
+            )}
           </CardDescription>
         </CardHeader>
         <form onSubmit={handleSubmit}>
@@ -129,6 +149,17 @@ export default function Signup() {
                 <AlertDescription>{error}</AlertDescription>
               </Alert>
             )}
+            <div className="space-y-2">
+              <Label htmlFor="email" className="text-slate-700">Email</Label>
+              <Input
+                id="email"
+                type="email"
+                value={invitation?.email || ""}
+                readOnly
+                disabled
+                className="border-slate-300"
+              />
+            </div>
             <div className="space-y-2">
               <Label htmlFor="fullName" className="text-slate-700">Full Name</Label>
               <Input
@@ -142,19 +173,6 @@ export default function Signup() {
                 className="border-slate-300 focus:border-blue-500"
               />
             </div>
-            <div className="space-y-2">
-              <Label htmlFor="email" className="text-slate-700">Email</Label>
-              <Input
-                id="email"
-                type="email"
-                placeholder="you@example.com"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                required
-                disabled={loading}
-                className="border-slate-300 focus:border-blue-500"
-              />
-            </div>
             <div className="space-y-2">
               <Label htmlFor="password" className="text-slate-700">Password</Label>
               <Input
@@ -165,8 +183,13 @@ export default function Signup() {
                 onChange={(e) => setPassword(e.target.value)}
                 required
                 disabled={loading}
+                maxLength={passwordPolicy?.maxLength}
                 className="border-slate-300 focus:border-blue-500"
               />
+              <p className="text-xs text-slate-500">
+                At least {minLength} characters. Avoid anything based on your email address or
+                passwords known from data breaches; a passphrase of a few unrelated words works well.
+              </p>
             </div>
             <div className="space-y-2">
               <Label htmlFor="confirmPassword" className="text-slate-700">Confirm Password</Label>
@@ -181,12 +204,17 @@ export default function Signup() {
                 className="border-slate-300 focus:border-blue-500"
               />
             </div>
+            {invitation && (
+              <p className="text-xs text-slate-500">
+                This invitation expires {new Date(invitation.expiresAt).toLocaleString()}.
+              </p>
+            )}
           </CardContent>
           <CardFooter className="flex flex-col gap-4">
-            <Button 
-              type="submit" 
-              className="w-full bg-gradient-to-r from-orange-500 to-orange-600 hover:from-orange-600 hover:to-orange-700" 
-              disabled={loading}
+            <Button
+              type="submit"
+              className="w-full bg-gradient-to-r from-orange-500 to-orange-600 hover:from-orange-600 hover:to-orange-700"
+              disabled={loading || !invitation}
             >
               {loading ? (
                 <>
@@ -196,7 +224,7 @@ export default function Signup() {
               ) : (
                 <>
                   <UserPlus className="mr-2 h-4 w-4" />
-                  Create Pro Account
+                  Create Account
                 </>
               )}
             </Button>
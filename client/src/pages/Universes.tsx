@@ -31,6 +31,7 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { trpc } from "@/lib/trpc";
+import { describePendingApproval, isPendingApproval } from "@/lib/pendingApproval";
 import { 
   Search, 
   Plus, 
@@ -146,8 +147,12 @@ export default function Universes() {
   });
 
   const deleteMutation = trpc.universes.delete.useMutation({
-    onSuccess: () => {
-      toast.success("Universe deleted successfully!");
+    onSuccess: (result) => {
+      if (isPendingApproval(result)) {
+        toast.info(describePendingApproval(result));
+      } else {
+        toast.success("Universe deleted successfully!");
+      }
       refetch();
     },
     onError: (error) => {
@@ -49,6 +49,10 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { trpc } from "@/lib/trpc";
+import { describePendingApproval, isPendingApproval } from "@/lib/pendingApproval";
+import { useAuth } from "@/hooks/useAuth";
+import { Permissions } from "@shared/permissions";
+import { useLocation } from "wouter";
 import { toast } from "sonner";
 import {
   Users as UsersIcon,
@@ -76,6 +80,7 @@ import {
   ChevronRight,
   Edit,
   Save,
+  ScanEye,
 } from "lucide-react";
 
 const AVAILABLE_ROLES = [
@@ -107,6 +112,9 @@ export default function Users() {
   const [showStrikeDialog, setShowStrikeDialog] = useState(false);
   const [showBlockDialog, setShowBlockDialog] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [impersonateTarget, setImpersonateTarget] = useState<{ id: string; label: string } | null>(null);
+  const [impersonateReason, setImpersonateReason] = useState("");
+  const [impersonateMinutes, setImpersonateMinutes] = useState("15");
   const [newRole, setNewRole] = useState("");
   const [strikeReason, setStrikeReason] = useState("");
   const [customStrikeReason, setCustomStrikeReason] = useState("");
@@ -122,6 +130,9 @@ export default function Users() {
   });
   
   const limit = 50;
+  const { can } = useAuth();
+  const [, setLocation] = useLocation();
+  const utils = trpc.useUtils();
 
   // Queries
   const { data: stats, isLoading: statsLoading } = trpc.users.getStats.useQuery();
@@ -153,8 +164,12 @@ export default function Users() {
 
   // Mutations
   const addRoleMutation = trpc.users.addRole.useMutation({
-    onSuccess: () => {
-      toast.success("Role added successfully");
+    onSuccess: (result) => {
+      if (isPendingApproval(result)) {
+        toast.info(describePendingApproval(result));
+      } else {
+        toast.success("Role added successfully");
+      }
       refetchRoles();
       setShowRoleDialog(false);
       setNewRole("");
@@ -242,8 +257,12 @@ export default function Users() {
   });
 
   const deleteUserMutation = trpc.users.delete.useMutation({
-    onSuccess: () => {
-      toast.success("User deleted successfully");
+    onSuccess: (result) => {
+      if (isPendingApproval(result)) {
+        toast.info(describePendingApproval(result));
+      } else {
+        toast.success("User deleted successfully");
+      }
       refetchUsers();
       setShowDeleteDialog(false);
       setShowUserDialog(false);
@@ -254,6 +273,19 @@ export default function Users() {
     },
   });
 
+  const impersonateMutation = trpc.impersonation.start.useMutation({
+    onSuccess: async (data) => {
+      toast.success(`Now viewing as ${data.email || "user"} (read-only)`);
+      setImpersonateTarget(null);
+      setImpersonateReason("");
+      await utils.invalidate();
+      setLocation("/");
+    },
+    onError: (error) => {
+      toast.error(`Failed to start impersonation: ${error.message}`);
+    },
+  });
+
   const handleSearch = () => {
     setDebouncedSearch(searchQuery);
     setPage(0);
@@ -540,6 +572,19 @@ export default function Users() {
                               <Edit className="h-4 w-4 mr-2" />
                               Edit User
                             </DropdownMenuItem>
+                            {can(Permissions.USERS_IMPERSONATE) && (
+                              <DropdownMenuItem
+                                onClick={() =>
+                                  setImpersonateTarget({
+                                    id: user.id,
+                                    label: user.email || user.display_name || user.username || user.id,
+                                  })
+                                }
+                              >
+                                <ScanEye className="h-4 w-4 mr-2" />
+                                View as User
+                              </DropdownMenuItem>
+                            )}
                             <DropdownMenuSeparator />
                             <DropdownMenuItem
                               onClick={() => {
@@ -1089,6 +1134,72 @@ export default function Users() {
         </AlertDialogContent>
       </AlertDialog>
 
+      {/* View as User Dialog */}
+      <Dialog
+        open={!!impersonateTarget}
+        onOpenChange={(open) => {
+          if (!open) {
+            setImpersonateTarget(null);
+            setImpersonateReason("");
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>View as User</DialogTitle>
+            <DialogDescription>
+              See the portal as {impersonateTarget?.label} with read-only access. Every request is recorded in the audit log.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="impersonate-reason">Reason</Label>
+              <Textarea
+                id="impersonate-reason"
+                placeholder="e.g. Support ticket #1234: drafts not showing"
+                value={impersonateReason}
+                onChange={(e) => setImpersonateReason(e.target.value)}
+                maxLength={500}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Duration</Label>
+              <Select value={impersonateMinutes} onValueChange={setImpersonateMinutes}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="5">5 minutes</SelectItem>
+                  <SelectItem value="15">15 minutes</SelectItem>
+                  <SelectItem value="30">30 minutes</SelectItem>
+                  <SelectItem value="60">60 minutes</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setImpersonateTarget(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() =>
+                impersonateTarget &&
+                impersonateMutation.mutate({
+                  userId: impersonateTarget.id,
+                  reason: impersonateReason.trim(),
+                  durationMinutes: Number(impersonateMinutes),
+                })
+              }
+              disabled={impersonateReason.trim().length < 3 || impersonateMutation.isPending}
+            >
+              {impersonateMutation.isPending ? "Starting..." : "Start Viewing"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Delete User Dialog */}
       <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
         <AlertDialogContent>
@@ -1,8 +1,25 @@
 import type { Request, Response } from "express";
 import { verifySupabaseToken } from "../supabaseAuth";
+import { isSessionActive } from "../sessionManager";
+import {
+  IMPERSONATION_COOKIE_NAME,
+  getActiveImpersonation,
+  type ImpersonationSession,
+} from "../impersonation";
+import { authenticateApiKey, serviceAccountEmail, type ApiKeyContext } from "../apiKeys";
+import { getPasswordChangedAt } from "../passwordPolicy";
 
 const AUTH_COOKIE_NAME = "tavvy_auth_token";
 
+type ContextUser = {
+  id: string;
+  openId: string;
+  email: string | undefined;
+  name: string;
+  // When the signed-in user's password was last set (null for keys, SSO and impersonated users)
+  passwordChangedAt: Date | null;
+};
+
 export async function createContext({
   req,
   res,
@@ -12,18 +29,55 @@ export async function createContext({
 }) {
   // Get token from cookie
   const token = req.cookies?.[AUTH_COOKIE_NAME];
+  const bearer = req.headers.authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
   
-  let user = null;
+  let user: ContextUser | null = null;
+  // Set while an admin is viewing as another user; user is then the target
+  let impersonator: ContextUser | null = null;
+  let impersonation: ImpersonationSession | null = null;
+  // Set when the request is authenticated by an API key; user is then its service account
+  let apiKey: ApiKeyContext | null = null;
   
-  if (token) {
+  if (bearer) {
+    // A presented key is the only credential considered, even if it is invalid
+    apiKey = await authenticateApiKey(bearer);
+    if (apiKey) {
+      user = {
+        id: apiKey.userId,
+        openId: apiKey.userId,
+        email: serviceAccountEmail(apiKey.serviceAccountName),
+        name: apiKey.serviceAccountName,
+        passwordChangedAt: null,
+      };
+    }
+  } else if (token) {
     // Verify token with Supabase
     const supabaseUser = await verifySupabaseToken(token);
-    if (supabaseUser) {
+    // Only tokens issued through completeLogin carry a tracked session; revoked, expired or
+    // untracked sessions are rejected even if the Supabase token itself is still valid
+    if (supabaseUser && (await isSessionActive(token))) {
       user = {
         id: supabaseUser.id,
         openId: supabaseUser.id,
         email: supabaseUser.email,
         name: supabaseUser.user_metadata?.full_name || supabaseUser.email?.split("@")[0] || "User",
+        passwordChangedAt: getPasswordChangedAt(supabaseUser),
+      };
+    }
+  }
+
+  const impersonationId = req.cookies?.[IMPERSONATION_COOKIE_NAME];
+  if (user && impersonationId) {
+    impersonation = await getActiveImpersonation(impersonationId, user.id);
+    if (impersonation) {
+      impersonator = user;
+      const targetEmail = impersonation.targetEmail || undefined;
+      user = {
+        id: impersonation.targetUserId,
+        openId: impersonation.targetUserId,
+        email: targetEmail,
+        name: targetEmail?.split("@")[0] || "User",
+        passwordChangedAt: null,
       };
     }
   }
@@ -32,7 +86,13 @@ export async function createContext({
     req,
     res,
     user,
+    impersonator,
+    impersonation,
+    apiKey,
   };
 }
 
-export type Context = Awaited<ReturnType<typeof createContext>>;
+export type Context = Awaited<ReturnType<typeof createContext>> & {
+  // Set on the server-side call that runs a four-eyes operation once approved
+  approvedOperationId?: string;
+};
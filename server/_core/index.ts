@@ -5,7 +5,12 @@ import * as trpcExpress from "@trpc/server/adapters/express";
 import { appRouter } from "../routers";
 import { createContext } from "./context";
 import path from "path";
-import { adminPortalSecurityHeaders } from "./securityHeaders";
+import { adminPortalSecurityHeaders, CSP_REPORT_PATH } from "./securityHeaders";
+import { createRateLimiter } from "../rateLimit";
+import { handleDataExport } from "../dataExport";
+import { handleCspReport } from "../cspReports";
+import { startJobScheduler } from "../jobScheduler";
+import { registerOidcRoutes } from "./oidc";
 
 // ============================================================
 // CORS Configuration - Environment-based allowlist
@@ -36,90 +41,31 @@ function getAllowedOrigins(): string[] {
 const ALLOWED_ORIGINS = getAllowedOrigins();
 
 // ============================================================
-// Rate Limiting - In-memory sliding window implementation
+// Rate Limiting - Sliding window, pluggable store (see ../rateLimit.ts)
+// Per-procedure limits are applied by the tRPC middleware.
 // ============================================================
 
-interface RateLimitEntry {
-  count: number;
-  resetTime: number;
-}
-
-const rateLimitStore = new Map<string, RateLimitEntry>();
-
-// Clean up expired entries periodically (every 5 minutes)
-setInterval(() => {
-  const now = Date.now();
-  for (const [key, entry] of rateLimitStore.entries()) {
-    if (entry.resetTime < now) {
-      rateLimitStore.delete(key);
-    }
-  }
-}, 5 * 60 * 1000);
-
-interface RateLimitConfig {
-  windowMs: number;  // Time window in milliseconds
-  maxRequests: number;  // Max requests per window
-  message?: string;
-}
-
-function createRateLimiter(config: RateLimitConfig) {
-  return (req: express.Request, res: express.Response, next: express.NextFunction) => {
-    // Get client identifier (IP address, with fallback)
-    const clientIp = req.ip || 
-      req.headers['x-forwarded-for']?.toString().split(',')[0] || 
-      req.socket.remoteAddress || 
-      'unknown';
-    
-    const key = `${clientIp}:${req.path}`;
-    const now = Date.now();
-    
-    let entry = rateLimitStore.get(key);
-    
-    if (!entry || entry.resetTime < now) {
-      // Create new entry or reset expired one
-      entry = {
-        count: 1,
-        resetTime: now + config.windowMs,
-      };
-      rateLimitStore.set(key, entry);
-    } else {
-      entry.count++;
-    }
-    
-    // Set rate limit headers
-    res.setHeader('X-RateLimit-Limit', config.maxRequests);
-    res.setHeader('X-RateLimit-Remaining', Math.max(0, config.maxRequests - entry.count));
-    res.setHeader('X-RateLimit-Reset', Math.ceil(entry.resetTime / 1000));
-    
-    if (entry.count > config.maxRequests) {
-      console.warn(`[RateLimit] Exceeded for ${clientIp} on ${req.path}`);
-      return res.status(429).json({
-        error: config.message || 'Too many requests, please try again later.',
-        retryAfter: Math.ceil((entry.resetTime - now) / 1000),
-      });
-    }
-    
-    next();
-  };
-}
-
-// Rate limiters for different endpoints
-const authRateLimiter = createRateLimiter({
-  windowMs: 15 * 60 * 1000,  // 15 minutes
-  maxRequests: 10,  // 10 login attempts per 15 minutes
-  message: 'Too many login attempts. Please try again in 15 minutes.',
-});
-
 const apiRateLimiter = createRateLimiter({
   windowMs: 60 * 1000,  // 1 minute
   maxRequests: 100,  // 100 requests per minute
   message: 'API rate limit exceeded. Please slow down.',
 });
 
-const strictRateLimiter = createRateLimiter({
+const exportRateLimiter = createRateLimiter({
+  windowMs: 60 * 60 * 1000,  // 1 hour
+  maxRequests: 30,
+  message: 'Export limit reached. Please try again later.',
+});
+
+const ssoRateLimiter = createRateLimiter({
   windowMs: 60 * 1000,  // 1 minute
-  maxRequests: 20,  // 20 requests per minute for sensitive operations
-  message: 'Rate limit exceeded for this operation.',
+  maxRequests: 20,
+  message: 'Too many sign-in attempts. Please try again later.',
+});
+
+const cspReportRateLimiter = createRateLimiter({
+  windowMs: 60 * 1000,  // 1 minute
+  maxRequests: 60,
 });
 
 const app = express();
@@ -153,13 +99,6 @@ app.use(express.json());
 // Security headers
 app.use(adminPortalSecurityHeaders);
 
-// Apply rate limiting to auth endpoints (login)
-app.use('/api/trpc/auth.login', authRateLimiter);
-
-// Apply strict rate limiting to sensitive operations
-app.use('/api/trpc/reviews.batchImport', strictRateLimiter);
-app.use('/api/trpc/articles.bulkImport', strictRateLimiter);
-
 // Apply general rate limiting to all API endpoints
 app.use('/api/trpc', apiRateLimiter);
 
@@ -179,6 +118,21 @@ app.get("/", (req, res, next) => {
   next();
 });
 
+// CSP violation reports from browsers (see ../cspReports.ts)
+app.post(
+  CSP_REPORT_PATH,
+  cspReportRateLimiter,
+  express.json({ type: ["application/csp-report", "application/reports+json", "application/json"], limit: "64kb" }),
+  handleCspReport
+);
+
+// OIDC single sign-on (see ./oidc.ts and ../oidc.ts)
+app.use('/api/auth/oidc', ssoRateLimiter);
+registerOidcRoutes(app);
+
+// Streamed CSV/NDJSON exports (see ../dataExport.ts)
+app.get("/api/export/:dataset", exportRateLimiter, handleDataExport);
+
 // tRPC endpoint
 app.use(
   "/api/trpc",
@@ -205,6 +159,7 @@ const PORT = process.env.PORT || 3000;
 
 app.listen(PORT, () => {
   console.log(`Server running on http://localhost:${PORT}/`);
+  startJobScheduler();
 });
 
 export { app };
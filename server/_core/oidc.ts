@@ -0,0 +1,190 @@
+import type { Express, Request, Response } from "express";
+import { TRPCError } from "@trpc/server";
+import {
+  getOidcConfig,
+  startOidcAuthorization,
+  takeOidcAuthorization,
+  exchangeOidcCode,
+  isAllowedEmailDomain,
+  findLinkedSsoUser,
+  linkSsoIdentity,
+  provisionOidcUser,
+} from "../oidc";
+import { createSessionForEmail, getAuthUserById } from "../supabaseAuth";
+import { getUserAccess } from "../rbac";
+import { logFailedLogin } from "../auditLog";
+import { trackFailedLogin } from "../anomalyDetection";
+import { createLoginChallenge, getTwoFactorStatus, type LoginChallengePurpose } from "../twoFactor";
+import { assertLoginAllowed, completeLogin, getRequestClientInfo } from "../loginSession";
+import { Roles } from "@shared/permissions";
+
+export const OIDC_LOGIN_PATH = "/api/auth/oidc/login";
+export const OIDC_CALLBACK_PATH = "/api/auth/oidc/callback";
+
+// Signed pending authorization; binds the provider round-trip to the browser that started it
+const STATE_COOKIE_NAME = "tavvy_oidc_state";
+const STATE_COOKIE_MAX_AGE_MS = 10 * 60 * 1000;
+
+function getQueryParam(req: Request, key: string): string | undefined {
+  const value = req.query[key];
+  return typeof value === "string" ? value : undefined;
+}
+
+function getRedirectUri(req: Request, configured?: string): string {
+  return configured || `${req.protocol}://${req.get("host")}${OIDC_CALLBACK_PATH}`;
+}
+
+function redirectWithError(res: Response, message: string) {
+  res.redirect(302, `/login?sso_error=${encodeURIComponent(message)}`);
+}
+
+export function registerOidcRoutes(app: Express) {
+  app.get(OIDC_LOGIN_PATH, async (req: Request, res: Response) => {
+    const config = getOidcConfig();
+    if (!config) {
+      res.status(404).json({ error: "Single sign-on is not configured" });
+      return;
+    }
+
+    try {
+      const { url, pending } = await startOidcAuthorization(config, getRedirectUri(req, config.redirectUri));
+      // Lax so the cookie comes back on the provider's top-level redirect
+      res.cookie(STATE_COOKIE_NAME, pending, {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === "production",
+        sameSite: "lax",
+        maxAge: STATE_COOKIE_MAX_AGE_MS,
+        path: OIDC_CALLBACK_PATH,
+      });
+      res.redirect(302, url);
+    } catch (error) {
+      console.error("[OIDC] Failed to start sign-in", error);
+      redirectWithError(res, "Single sign-on is unavailable right now");
+    }
+  });
+
+  app.get(OIDC_CALLBACK_PATH, async (req: Request, res: Response) => {
+    const config = getOidcConfig();
+    if (!config) {
+      res.status(404).json({ error: "Single sign-on is not configured" });
+      return;
+    }
+
+    const { clientIp, userAgent } = getRequestClientInfo(req);
+    const state = getQueryParam(req, "state");
+    const code = getQueryParam(req, "code");
+    const pending = req.cookies?.[STATE_COOKIE_NAME];
+    res.clearCookie(STATE_COOKIE_NAME, { path: OIDC_CALLBACK_PATH });
+
+    const providerError = getQueryParam(req, "error");
+    if (providerError) {
+      redirectWithError(res, providerError === "access_denied" ? "Sign-in was cancelled" : "Sign-in failed at the provider");
+      return;
+    }
+
+    const authorization = state ? takeOidcAuthorization(pending, state) : null;
+    if (!code || !authorization) {
+      redirectWithError(res, "Sign-in expired. Please try again.");
+      return;
+    }
+
+    try {
+      const identity = await exchangeOidcCode(config, code, authorization);
+
+      if (!isAllowedEmailDomain(identity.email, config.allowedDomains)) {
+        await logFailedLogin(identity.email, "SSO email domain not allowed", clientIp, userAgent);
+        await trackFailedLogin(identity.email, clientIp, userAgent);
+        redirectWithError(res, "This account is not allowed to access the admin portal");
+        return;
+      }
+
+      await assertLoginAllowed(identity.email, clientIp, userAgent);
+
+      // Linked accounts match on issuer + subject, whatever the email claim says now
+      const linkedUserId = await findLinkedSsoUser(config.issuer, identity.subject);
+      let result;
+      if (linkedUserId) {
+        const linkedUser = await getAuthUserById(linkedUserId);
+        result = linkedUser?.email
+          ? await createSessionForEmail(linkedUser.email)
+          : { user: null, session: null, error: "Linked account has no email address" };
+      } else {
+        // First sign-in with this identity: linking by email needs a verified claim
+        if (!identity.emailVerified) {
+          await logFailedLogin(identity.email, "SSO email not verified by the provider", clientIp, userAgent);
+          await trackFailedLogin(identity.email, clientIp, userAgent);
+          redirectWithError(res, "Your provider did not confirm this email address");
+          return;
+        }
+
+        // Existing accounts are linked on their first SSO sign-in; first-time users are provisioned
+        result = await createSessionForEmail(identity.email);
+        if (result.user && result.session) {
+          if (!(await linkSsoIdentity(result.user.id, config, identity, clientIp, userAgent))) {
+            await logFailedLogin(identity.email, "Account is linked to a different SSO identity", clientIp, userAgent);
+            await trackFailedLogin(identity.email, clientIp, userAgent);
+            redirectWithError(res, "This account is linked to a different single sign-on identity");
+            return;
+          }
+        } else {
+          const userId = await provisionOidcUser(config, identity, clientIp, userAgent);
+          if (userId) {
+            result = await createSessionForEmail(identity.email);
+          }
+        }
+      }
+      const { user, session } = result;
+      if (!user || !session) {
+        console.error("[OIDC] Failed to create session:", result.error);
+        redirectWithError(res, "Failed to create session");
+        return;
+      }
+
+      // Same portal role check as password login; accounts whose roles were
+      // removed are not re-provisioned
+      const access = await getUserAccess(user.id);
+      if (access.roles.length === 0) {
+        await logFailedLogin(identity.email, "User has no admin portal role", clientIp, userAgent);
+        await trackFailedLogin(identity.email, clientIp, userAgent);
+        redirectWithError(res, "This account is not allowed to access the admin portal");
+        return;
+      }
+
+      // Same second-factor rules as password login; the login page picks up
+      // the challenge from the URL fragment (never sent to the server)
+      const twoFactor = await getTwoFactorStatus(user.id);
+      if (twoFactor.enabled || access.roles.includes(Roles.SUPER_ADMIN)) {
+        const purpose: LoginChallengePurpose = twoFactor.enabled ? "verify" : "enroll";
+        const challengeToken = await createLoginChallenge(
+          user.id,
+          user.email || identity.email,
+          session.access_token,
+          purpose,
+          clientIp,
+          userAgent
+        );
+        if (!challengeToken) {
+          redirectWithError(res, "Failed to start two-factor verification");
+          return;
+        }
+        res.redirect(302, `/login#sso_challenge=${encodeURIComponent(challengeToken)}&two_factor=${purpose}`);
+        return;
+      }
+
+      await completeLogin(req, res, {
+        user,
+        accessToken: session.access_token,
+        access,
+        method: "oidc",
+      });
+      res.redirect(302, "/");
+    } catch (error) {
+      if (error instanceof TRPCError) {
+        redirectWithError(res, error.message);
+        return;
+      }
+      console.error("[OIDC] Callback failed", error);
+      redirectWithError(res, "Single sign-on failed");
+    }
+  });
+}
@@ -11,6 +11,12 @@ export interface SecurityHeadersConfig {
   // Content Security Policy
   enableCSP?: boolean;
   cspDirectives?: Record<string, string[]>;
+  // Send cspDirectives as Content-Security-Policy-Report-Only instead of enforcing them
+  cspReportOnly?: boolean;
+  // Extra policy that is only reported, e.g. a stricter candidate being tested
+  cspReportOnlyDirectives?: Record<string, string[]>;
+  // Where browsers send violation reports (report-uri and Reporting API)
+  cspReportUri?: string;
   
   // HTTP Strict Transport Security
   enableHSTS?: boolean;
@@ -61,6 +67,21 @@ function buildCSPHeader(directives: Record<string, string[]>): string {
     .join('; ');
 }
 
+// Reporting API endpoint name used in report-to
+const CSP_REPORT_GROUP = 'csp-endpoint';
+
+/**
+ * Add report-uri / report-to to a policy when a report endpoint is configured
+ */
+function withReporting(directives: Record<string, string[]>, reportUri?: string): Record<string, string[]> {
+  if (!reportUri) return directives;
+  return {
+    ...directives,
+    'report-uri': [reportUri],
+    'report-to': [CSP_REPORT_GROUP],
+  };
+}
+
 /**
  * Build HSTS header value
  */
@@ -84,8 +105,17 @@ export function securityHeaders(customConfig?: Partial<SecurityHeadersConfig>) {
   return (req: Request, res: Response, next: NextFunction) => {
     // Content Security Policy
     if (config.enableCSP && config.cspDirectives) {
-      const cspHeader = buildCSPHeader(config.cspDirectives);
-      res.setHeader('Content-Security-Policy', cspHeader);
+      const cspHeader = buildCSPHeader(withReporting(config.cspDirectives, config.cspReportUri));
+      res.setHeader(config.cspReportOnly ? 'Content-Security-Policy-Report-Only' : 'Content-Security-Policy', cspHeader);
+    }
+    if (config.enableCSP && config.cspReportOnlyDirectives && !config.cspReportOnly) {
+      res.setHeader(
+        'Content-Security-Policy-Report-Only',
+        buildCSPHeader(withReporting(config.cspReportOnlyDirectives, config.cspReportUri))
+      );
+    }
+    if (config.enableCSP && config.cspReportUri) {
+      res.setHeader('Reporting-Endpoints', `${CSP_REPORT_GROUP}="${config.cspReportUri}"`);
     }
     
     // HTTP Strict Transport Security (only in production)
@@ -125,26 +155,57 @@ export function securityHeaders(customConfig?: Partial<SecurityHeadersConfig>) {
   };
 }
 
+// Policy enforced on the admin portal
+export const adminPortalCspDirectives: Record<string, string[]> = {
+  'default-src': ["'self'"],
+  'script-src': ["'self'", "'unsafe-inline'", "'unsafe-eval'"],
+  'style-src': ["'self'", "'unsafe-inline'", 'https://fonts.googleapis.com'],
+  'img-src': ["'self'", 'data:', 'https:', 'blob:'],
+  'font-src': ["'self'", 'data:', 'https://fonts.gstatic.com'],
+  'connect-src': [
+    "'self'",
+    'https://*.supabase.co',
+    'wss://*.supabase.co',
+    'https://api.stripe.com',
+  ],
+  'frame-ancestors': ["'none'"],
+  'form-action': ["'self'"],
+  'base-uri': ["'self'"],
+};
+
+// Stricter candidate policy, reported (never enforced) when CSP_TEST_STRICT_POLICY=true
+export const adminPortalStrictCspDirectives: Record<string, string[]> = {
+  ...adminPortalCspDirectives,
+  'script-src': ["'self'"],
+  'object-src': ["'none'"],
+};
+
+export const CSP_REPORT_PATH = '/api/csp-report';
+
+/**
+ * CSP settings from the environment:
+ * CSP_MODE=report-only stops enforcing the policy (violations are still reported);
+ * CSP_TEST_STRICT_POLICY=true also reports violations of the stricter candidate.
+ */
+export function getCspSettings(env: NodeJS.ProcessEnv = process.env) {
+  return {
+    reportOnly: env.CSP_MODE === 'report-only',
+    testStrictPolicy: env.CSP_TEST_STRICT_POLICY === 'true',
+    policy: buildCSPHeader(adminPortalCspDirectives),
+    strictPolicy: buildCSPHeader(adminPortalStrictCspDirectives),
+  };
+}
+
+const cspSettings = getCspSettings();
+
 /**
  * Pre-configured security headers for admin portal
  */
 export const adminPortalSecurityHeaders = securityHeaders({
   enableCSP: true,
-  cspDirectives: {
-    'default-src': ["'self'"],
-    'script-src': ["'self'", "'unsafe-inline'", "'unsafe-eval'"],
-    'style-src': ["'self'", "'unsafe-inline'", 'https://fonts.googleapis.com'],
-    'img-src': ["'self'", 'data:', 'https:', 'blob:'],
-    'font-src': ["'self'", 'data:', 'https://fonts.gstatic.com'],
-    'connect-src': [
-      "'self'",
-      'https://*.supabase.co',
-      'wss://*.supabase.co',
-      'https://api.stripe.com',
-    ],
-    'frame-ancestors': ["'none'"],
-    'form-action': ["'self'"],
-    'base-uri': ["'self'"],
-  },
+  cspDirectives: adminPortalCspDirectives,
+  cspReportOnly: cspSettings.reportOnly,
+  cspReportOnlyDirectives: cspSettings.testStrictPolicy ? adminPortalStrictCspDirectives : undefined,
+  cspReportUri: CSP_REPORT_PATH,
   xFrameOptions: 'DENY',
 });
@@ -1,16 +1,207 @@
 import { initTRPC, TRPCError } from "@trpc/server";
 import superjson from "superjson";
+import { NOT_ADMIN_ERR_MSG, PASSWORD_ROTATION_ERR_MSG, STEP_UP_REQUIRED_ERR_MSG } from "../../shared/const";
+import { hasPermission, type Permission } from "../../shared/permissions";
 import type { Context } from "./context";
+import { getUserAccess } from "../rbac";
+import {
+  checkRateLimit,
+  getRateLimitClientIp,
+  procedureRateLimits,
+  setRateLimitHeaders,
+} from "../rateLimit";
+import { isAllowedWhileImpersonating } from "../impersonation";
+import { logAuditEvent, AuditActions, ResourceTypes } from "../auditLog";
+import { loadAuditSnapshot, procedureAuditSnapshots, redactAuditInput } from "../mutationAudit";
+import { apiKeyAllows, meterApiKeyRequest } from "../apiKeys";
+import { mustRotatePassword } from "../passwordPolicy";
+import { STEP_UP_PROCEDURES, hasFreshStepUp } from "../stepUpAuth";
+import { AUTH_COOKIE_NAME } from "../loginSession";
+import { checkAdminMutation } from "../adminActivityRules";
+import { isPendingApprovalResult } from "../pendingOperations";
 
 const t = initTRPC.context<Context>().create({
   transformer: superjson,
 });
 
+// Rate limit middleware - applies the per-procedure limits from procedureRateLimits
+const rateLimited = t.middleware(async ({ ctx, path, next }) => {
+  const rules = procedureRateLimits[path];
+  if (!rules) return next();
+
+  for (const rule of rules) {
+    const identifier = rule.by === 'user' ? ctx.user?.id
+      : rule.by === 'api_key' ? ctx.apiKey?.id
+      : getRateLimitClientIp(ctx.req);
+    if (!identifier) continue; // User- and key-keyed limits only apply once authenticated
+
+    const result = await checkRateLimit(`trpc:${path}`, identifier, rule);
+    setRateLimitHeaders(ctx.res, result);
+
+    if (!result.allowed) {
+      console.warn(`[RateLimit] ${path} limit exceeded for ${rule.by} ${identifier}`);
+      throw new TRPCError({
+        code: "TOO_MANY_REQUESTS",
+        message: rule.message || "Too many requests, please try again later.",
+      });
+    }
+  }
+
+  return next();
+});
+
+// API key middleware - enforces the key's namespace scopes and its own rate limit,
+// and counts the request towards the key's usage
+const apiKeyGuard = t.middleware(async ({ ctx, path, type, next }) => {
+  const { apiKey } = ctx;
+  if (!apiKey) return next();
+
+  if (!apiKeyAllows(apiKey.scopes, path, type)) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: `This API key is not allowed to call ${path}`,
+    });
+  }
+
+  if (!(await meterApiKeyRequest(apiKey, ctx.req, ctx.res))) {
+    throw new TRPCError({
+      code: "TOO_MANY_REQUESTS",
+      message: "API key rate limit exceeded, please slow down.",
+    });
+  }
+
+  return next();
+});
+
+// Impersonation middleware - keeps "view as user" read-only and limited to the
+// viewed user's own content, and audits every request
+const impersonationGuard = t.middleware(async ({ ctx, path, type, next }) => {
+  const { impersonation, impersonator } = ctx;
+  if (!impersonation || !impersonator) return next();
+
+  const blocked = !isAllowedWhileImpersonating(path, type);
+
+  await logAuditEvent({
+    userId: impersonator.id,
+    userEmail: impersonator.email,
+    action: AuditActions.IMPERSONATED_REQUEST,
+    resourceType: ResourceTypes.USER,
+    resourceId: impersonation.targetUserId,
+    details: {
+      impersonationId: impersonation.id,
+      impersonatedUserId: impersonation.targetUserId,
+      impersonatedEmail: impersonation.targetEmail,
+      path,
+      type,
+    },
+    ipAddress: getRateLimitClientIp(ctx.req),
+    userAgent: ctx.req.headers["user-agent"],
+    success: !blocked,
+    errorMessage: blocked ? "Blocked: read-only impersonation" : undefined,
+  });
+
+  if (blocked) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: type === "mutation"
+        ? "You are viewing as another user. Changes are disabled until you stop impersonating."
+        : "You are viewing as another user. Only their own places, stories, eCards and drafts are available.",
+    });
+  }
+
+  return next();
+});
+
+// Audit middleware - records every mutation with its redacted input, outcome and,
+// where procedureAuditSnapshots declares a loader, before/after snapshots
+const auditedMutation = t.middleware(async ({ ctx, path, type, getRawInput, next }) => {
+  if (type !== "mutation") return next();
+
+  const startedAt = Date.now();
+  const rawInput = await getRawInput().catch(() => undefined);
+  const snapshot = procedureAuditSnapshots[path];
+  const resourceId = snapshot?.getResourceId(rawInput);
+  // Snapshots are only loaded for signed-in callers
+  const withSnapshot = !!snapshot && !!ctx.user;
+  const before = withSnapshot ? await loadAuditSnapshot(snapshot, resourceId) : undefined;
+
+  const result = await next();
+
+  const after = withSnapshot && result.ok ? await loadAuditSnapshot(snapshot, resourceId) : undefined;
+  const caller = ctx.impersonator ?? ctx.user;
+  // Four-eyes operations answer with a request for approval instead of running
+  const pendingApproval = result.ok && isPendingApprovalResult(result.data);
+  await logAuditEvent({
+    userId: caller?.id,
+    userEmail: caller?.email,
+    action: AuditActions.API_MUTATION,
+    resourceType: snapshot?.resourceType ?? ResourceTypes.PROCEDURE,
+    resourceId: snapshot ? resourceId : path,
+    details: {
+      path,
+      input: redactAuditInput(rawInput),
+      before,
+      after,
+      durationMs: Date.now() - startedAt,
+      errorCode: result.ok ? undefined : result.error.code,
+      pendingApproval: pendingApproval || undefined,
+      apiKeyId: ctx.apiKey?.id,
+    },
+    ipAddress: getRateLimitClientIp(ctx.req),
+    userAgent: ctx.req.headers["user-agent"],
+    success: result.ok,
+    errorMessage: result.ok ? undefined : result.error.message,
+  });
+
+  // Admin behavior rules (mass deletes, off-hours role grants) - never delays the response
+  if (result.ok && !pendingApproval && caller) {
+    checkAdminMutation(
+      {
+        userId: caller.id,
+        userEmail: caller.email,
+        ipAddress: getRateLimitClientIp(ctx.req),
+        userAgent: ctx.req.headers["user-agent"],
+        viaApiKey: !!ctx.apiKey,
+      },
+      path,
+      rawInput
+    ).catch(err => console.error("[AdminActivity] Rule check failed:", err));
+  }
+
+  return result;
+});
+
+// Step-up guard - sensitive procedures need a recent password re-entry on this
+// session (see ../stepUpAuth.ts). Runs inside the audit middleware so refused
+// calls are recorded.
+const stepUpGuard = t.middleware(async ({ ctx, path, next }) => {
+  if (!STEP_UP_PROCEDURES.has(path) || !ctx.user) return next();
+
+  if (ctx.apiKey) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "This operation requires interactive re-authentication and is not available to API keys",
+    });
+  }
+  if (!(await hasFreshStepUp(ctx.req.cookies?.[AUTH_COOKIE_NAME]))) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: STEP_UP_REQUIRED_ERR_MSG,
+    });
+  }
+  return next();
+});
+
 export const router = t.router;
-export const publicProcedure = t.procedure;
+export const publicProcedure = t.procedure
+  .use(apiKeyGuard)
+  .use(rateLimited)
+  .use(impersonationGuard)
+  .use(auditedMutation)
+  .use(stepUpGuard);
 
 // Protected procedure - requires authentication
-export const protectedProcedure = t.procedure.use(async ({ ctx, next }) => {
+export const protectedProcedure = publicProcedure.use(async ({ ctx, next }) => {
   if (!ctx.user) {
     throw new TRPCError({
       code: "UNAUTHORIZED",
@@ -25,6 +216,49 @@ export const protectedProcedure = t.procedure.use(async ({ ctx, next }) => {
   });
 });
 
-// Admin procedure - requires authentication and admin role
-// For now, this is an alias to protectedProcedure since all portal users are super admins
-export const adminProcedure = protectedProcedure;
+// Account self-service still available while a password change is due
+const PASSWORD_ROTATION_ALLOWED_NAMESPACES = new Set(["auth", "twoFactor"]);
+
+// Admin procedure - requires authentication and at least one active portal role
+// Adds the caller's roles and permissions (from user_roles) to the context.
+// While impersonating, access comes from the admin, not the viewed user.
+// Super admins whose password is past the rotation period can only reach
+// their own account settings until they change it.
+export const adminProcedure = protectedProcedure.use(async ({ ctx, path, next }) => {
+  const access = await getUserAccess(ctx.impersonator?.id ?? ctx.user.id);
+  if (access.roles.length === 0) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: NOT_ADMIN_ERR_MSG,
+    });
+  }
+  if (
+    mustRotatePassword(access.roles, ctx.user.passwordChangedAt) &&
+    !PASSWORD_ROTATION_ALLOWED_NAMESPACES.has(path.split(".")[0])
+  ) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: PASSWORD_ROTATION_ERR_MSG,
+    });
+  }
+  return next({
+    ctx: {
+      ...ctx,
+      roles: access.roles,
+      permissions: access.permissions,
+    },
+  });
+});
+
+// Permission procedure - requires a specific permission granted by the caller's roles
+export function permissionProcedure(permission: Permission) {
+  return adminProcedure.use(async ({ ctx, next }) => {
+    if (!hasPermission(ctx.permissions, permission)) {
+      throw new TRPCError({
+        code: "FORBIDDEN",
+        message: NOT_ADMIN_ERR_MSG,
+      });
+    }
+    return next();
+  });
+}
@@ -0,0 +1,201 @@
+/**
+ * Account Lockout Module
+ *
+ * Tracks failed logins per email address (persisted in login_lockouts so it
+ * survives restarts and IP rotation). Applies an exponential delay between
+ * attempts and a temporary lockout once the failure threshold is reached.
+ */
+
+import { supabaseAdmin } from "./supabaseAuth";
+
+// Configuration (overridable via environment)
+const LOCKOUT_THRESHOLD = parseInt(process.env.LOGIN_LOCKOUT_THRESHOLD || '5', 10);
+const LOCKOUT_DURATION_MINUTES = parseInt(process.env.LOGIN_LOCKOUT_DURATION_MINUTES || '15', 10);
+const FAILURE_WINDOW_MINUTES = parseInt(process.env.LOGIN_FAILURE_WINDOW_MINUTES || '60', 10);
+const BACKOFF_BASE_SECONDS = 1;
+const BACKOFF_MAX_SECONDS = 60;
+
+export interface LoginThrottle {
+  allowed: boolean;
+  locked: boolean;
+  retryAfterSeconds: number;
+}
+
+export interface AccountFailureResult {
+  failedCount: number;
+  lockedNow: boolean;
+  lockedUntil?: Date;
+}
+
+export interface LockedAccount {
+  email: string;
+  failedCount: number;
+  lockedUntil: Date;
+  lastFailedAt: Date;
+  lastIpAddress?: string;
+}
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Delay required after the nth consecutive failure (1s, 2s, 4s, ... capped)
+ */
+export function getBackoffSeconds(failedCount: number): number {
+  if (failedCount <= 1) return 0;
+  return Math.min(BACKOFF_BASE_SECONDS * 2 ** (failedCount - 2), BACKOFF_MAX_SECONDS);
+}
+
+/**
+ * Check whether a login attempt for an email is currently allowed
+ */
+export async function getLoginThrottle(email: string): Promise<LoginThrottle> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('login_lockouts')
+      .select('failed_count, last_failed_at, locked_until')
+      .eq('email', normalizeEmail(email))
+      .maybeSingle();
+
+    if (error || !data) {
+      return { allowed: true, locked: false, retryAfterSeconds: 0 };
+    }
+
+    const now = Date.now();
+
+    if (data.locked_until && new Date(data.locked_until).getTime() > now) {
+      return {
+        allowed: false,
+        locked: true,
+        retryAfterSeconds: Math.ceil((new Date(data.locked_until).getTime() - now) / 1000),
+      };
+    }
+
+    // Failures outside the window no longer count
+    const lastFailedAt = new Date(data.last_failed_at).getTime();
+    if (now - lastFailedAt > FAILURE_WINDOW_MINUTES * 60 * 1000) {
+      return { allowed: true, locked: false, retryAfterSeconds: 0 };
+    }
+
+    const nextAllowedAt = lastFailedAt + getBackoffSeconds(data.failed_count) * 1000;
+    if (nextAllowedAt > now) {
+      return {
+        allowed: false,
+        locked: false,
+        retryAfterSeconds: Math.ceil((nextAllowedAt - now) / 1000),
+      };
+    }
+
+    return { allowed: true, locked: false, retryAfterSeconds: 0 };
+  } catch (err) {
+    console.error('[AccountLockout] Exception checking throttle:', err);
+    return { allowed: true, locked: false, retryAfterSeconds: 0 };
+  }
+}
+
+/**
+ * Record a failed login for an email, locking the account at the threshold
+ */
+export async function recordAccountFailure(
+  email: string,
+  ipAddress?: string
+): Promise<AccountFailureResult> {
+  const key = normalizeEmail(email);
+  const now = new Date();
+
+  try {
+    const { data: existing } = await supabaseAdmin
+      .from('login_lockouts')
+      .select('failed_count, last_failed_at, locked_until')
+      .eq('email', key)
+      .maybeSingle();
+
+    const windowExpired = !existing ||
+      now.getTime() - new Date(existing.last_failed_at).getTime() > FAILURE_WINDOW_MINUTES * 60 * 1000;
+    const lockExpired = !!existing?.locked_until && new Date(existing.locked_until) <= now;
+
+    // Start a fresh count when the window or a previous lockout has passed
+    const failedCount = windowExpired || lockExpired ? 1 : existing.failed_count + 1;
+    const lockedNow = failedCount >= LOCKOUT_THRESHOLD;
+    const lockedUntil = lockedNow
+      ? new Date(now.getTime() + LOCKOUT_DURATION_MINUTES * 60 * 1000)
+      : undefined;
+
+    const { error } = await supabaseAdmin
+      .from('login_lockouts')
+      .upsert({
+        email: key,
+        failed_count: failedCount,
+        first_failed_at: failedCount === 1 ? now.toISOString() : undefined,
+        last_failed_at: now.toISOString(),
+        last_ip_address: ipAddress || null,
+        locked_until: lockedUntil ? lockedUntil.toISOString() : null,
+        updated_at: now.toISOString(),
+      }, { onConflict: 'email' });
+
+    if (error) {
+      console.error('[AccountLockout] Error recording failure:', error);
+    }
+
+    if (lockedNow) {
+      console.warn(`[AccountLockout] Locked ${key} until ${lockedUntil!.toISOString()} after ${failedCount} failures`);
+    }
+
+    return { failedCount, lockedNow, lockedUntil };
+  } catch (err) {
+    console.error('[AccountLockout] Exception recording failure:', err);
+    return { failedCount: 0, lockedNow: false };
+  }
+}
+
+/**
+ * Clear failure tracking for an email (after a successful login or admin unlock)
+ */
+export async function clearAccountFailures(email: string): Promise<boolean> {
+  try {
+    const { error } = await supabaseAdmin
+      .from('login_lockouts')
+      .delete()
+      .eq('email', normalizeEmail(email));
+
+    if (error) {
+      console.error('[AccountLockout] Error clearing failures:', error);
+      return false;
+    }
+
+    return true;
+  } catch (err) {
+    console.error('[AccountLockout] Exception clearing failures:', err);
+    return false;
+  }
+}
+
+/**
+ * List accounts that are currently locked
+ */
+export async function getLockedAccounts(): Promise<LockedAccount[]> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('login_lockouts')
+      .select('email, failed_count, locked_until, last_failed_at, last_ip_address')
+      .gt('locked_until', new Date().toISOString())
+      .order('locked_until', { ascending: false });
+
+    if (error) {
+      console.error('[AccountLockout] Error listing locked accounts:', error);
+      return [];
+    }
+
+    return (data || []).map(row => ({
+      email: row.email,
+      failedCount: row.failed_count,
+      lockedUntil: new Date(row.locked_until),
+      lastFailedAt: new Date(row.last_failed_at),
+      lastIpAddress: row.last_ip_address || undefined,
+    }));
+  } catch (err) {
+    console.error('[AccountLockout] Exception listing locked accounts:', err);
+    return [];
+  }
+}
@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+const { supabaseAdmin, auditQuery } = vi.hoisted(() => {
+  // Chainable stand-in for a PostgREST query that resolves to auditQuery.result
+  const auditQuery = { calls: [] as unknown[][], result: { data: [] as unknown[], error: null as unknown } };
+  const builder: Record<string, unknown> = {
+    then: (resolve: (value: unknown) => unknown) => resolve(auditQuery.result),
+  };
+  for (const method of ["select", "eq", "gt", "is", "or"]) {
+    builder[method] = (...args: unknown[]) => {
+      auditQuery.calls.push([method, ...args]);
+      return builder;
+    };
+  }
+  return { supabaseAdmin: { from: () => builder }, auditQuery };
+});
+
+vi.mock("./supabaseAuth", () => ({ supabaseAdmin }));
+
+import {
+  countRecentDeletes,
+  getAutoFreezeRules,
+  isDeleteProcedure,
+  isWithinBusinessHours,
+} from "./adminActivityRules";
+
+describe("Admin activity rules", () => {
+  const weekdays = { startHour: 8, endHour: 18, days: [1, 2, 3, 4, 5], timeZone: "UTC" };
+
+  afterEach(() => {
+    auditQuery.calls = [];
+    delete process.env.ADMIN_AUTO_FREEZE_RULES;
+  });
+
+  it("checks business hours in the configured time zone", () => {
+    // Wednesday 2026-06-03
+    expect(isWithinBusinessHours(new Date("2026-06-03T09:30:00Z"), weekdays)).toBe(true);
+    expect(isWithinBusinessHours(new Date("2026-06-03T18:00:00Z"), weekdays)).toBe(false);
+    expect(isWithinBusinessHours(new Date("2026-06-06T10:00:00Z"), weekdays)).toBe(false);
+    expect(
+      isWithinBusinessHours(new Date("2026-06-03T14:00:00Z"), { ...weekdays, timeZone: "America/New_York" })
+    ).toBe(true);
+    // 02:00 UTC is 22:00 the previous evening in New York
+    expect(
+      isWithinBusinessHours(new Date("2026-06-04T02:00:00Z"), { ...weekdays, timeZone: "America/New_York" })
+    ).toBe(false);
+  });
+
+  it("counts portal deletes but not self-service removals", () => {
+    expect(isDeleteProcedure("articles.delete")).toBe(true);
+    expect(isDeleteProcedure("tavvyPlaces.deleteTavvyPlace")).toBe(true);
+    expect(isDeleteProcedure("auth.deletePasskey")).toBe(false);
+    expect(isDeleteProcedure("users.removeRole")).toBe(false);
+  });
+
+  it("counts an admin's executed deletes from the audit log", async () => {
+    auditQuery.result = {
+      data: [{ path: "articles.delete" }, { path: "users.bulkDelete" }, { path: "auth.deletePasskey" }],
+      error: null,
+    };
+    const since = new Date("2026-06-03T09:00:00Z");
+
+    expect(await countRecentDeletes("admin-1", since)).toBe(2);
+    expect(auditQuery.calls).toContainEqual(["eq", "user_id", "admin-1"]);
+    expect(auditQuery.calls).toContainEqual(["eq", "success", true]);
+    expect(auditQuery.calls).toContainEqual(["gt", "created_at", since.toISOString()]);
+    // Requests only sent for four-eyes approval are not deletions
+    expect(auditQuery.calls).toContainEqual(["is", "details->>pendingApproval", null]);
+
+    auditQuery.result = { data: [], error: { message: "unavailable" } };
+    expect(await countRecentDeletes("admin-1", since)).toBeNull();
+  });
+
+  it("only freezes for known rules listed in the environment", () => {
+    expect(getAutoFreezeRules().size).toBe(0);
+    process.env.ADMIN_AUTO_FREEZE_RULES = "mass_deletion, unknown_rule,export_after_new_device";
+    expect([...getAutoFreezeRules()]).toEqual(["mass_deletion", "export_after_new_device"]);
+  });
+});
@@ -0,0 +1,444 @@
+/**
+ * Admin Activity Rules Module
+ *
+ * Watches what signed-in admins do, not only how they sign in. Successful
+ * mutations (from the audit middleware) and data exports are checked against
+ * a few rules: many deletes in a short window, role grants outside business
+ * hours, and a bulk export soon after a sign-in from a new device. Deletes are
+ * counted from audit_log, so every instance sees the same window and requests
+ * only sent for four-eyes approval don't count. Matches are
+ * logged as anomalies (which routes them through sendSecurityAlert) and, for
+ * the rules listed in ADMIN_AUTO_FREEZE_RULES, the account is frozen: its
+ * sessions and refresh tokens are revoked and sign-in is refused until a
+ * security admin lifts the freeze.
+ */
+
+import { supabaseAdmin } from "./supabaseAuth";
+import { AnomalyTypes, logAnomaly, SeverityLevels } from "./anomalyDetection";
+import { logAuditEvent, AuditActions, ResourceTypes } from "./auditLog";
+import { revokeAllUserSessions } from "./sessionManager";
+import { revokeAllUserTokens } from "./tokenRotation";
+
+export const AdminActivityRules = {
+  MASS_DELETION: 'mass_deletion',
+  OFF_HOURS_ROLE_GRANT: 'off_hours_role_grant',
+  EXPORT_AFTER_NEW_DEVICE: 'export_after_new_device',
+} as const;
+
+export type AdminActivityRule = typeof AdminActivityRules[keyof typeof AdminActivityRules];
+
+// Configuration (overridable via environment)
+const DELETE_THRESHOLD = parseInt(process.env.ADMIN_DELETE_THRESHOLD || '20', 10);
+const DELETE_WINDOW_MINUTES = parseInt(process.env.ADMIN_DELETE_WINDOW_MINUTES || '10', 10);
+const EXPORT_AFTER_NEW_DEVICE_MINUTES = parseInt(process.env.ADMIN_EXPORT_AFTER_NEW_DEVICE_MINUTES || '60', 10);
+const BULK_EXPORT_MIN_ROWS = parseInt(process.env.ADMIN_BULK_EXPORT_MIN_ROWS || '1000', 10);
+
+// Namespaces whose deletes only touch the caller's own account (passkeys, devices)
+const SELF_SERVICE_NAMESPACES = new Set(['auth', 'twoFactor']);
+
+// Mutations that give someone a role, and when a call counts as a grant
+const ROLE_GRANT_PROCEDURES: Record<string, (input: any) => boolean> = {
+  'users.addRole': () => true,
+  'invitations.create': () => true,
+  'roleElevation.review': (input) => input?.decision === 'approve',
+};
+
+export interface BusinessHours {
+  startHour: number;
+  endHour: number;
+  // ISO weekdays, 1 = Monday ... 7 = Sunday
+  days: number[];
+  timeZone: string;
+}
+
+export interface AdminActivityContext {
+  userId: string;
+  userEmail?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  // API key callers are service accounts; their keys are managed separately
+  viaApiKey?: boolean;
+}
+
+export interface AccountFreeze {
+  id: string;
+  userId: string;
+  userEmail?: string;
+  rule: string;
+  reason?: string;
+  frozenAt: Date;
+}
+
+/**
+ * Parse "a-b" (or a single "a") into the inclusive list of integers it covers
+ */
+function parseRange(value: string, min: number, max: number): number[] {
+  const [from, to = from] = value.split('-').map(part => parseInt(part.trim(), 10));
+  if (isNaN(from) || isNaN(to) || from < min || to > max || from > to) return [];
+  return Array.from({ length: to - from + 1 }, (_, i) => from + i);
+}
+
+/**
+ * Read the business hours from ADMIN_BUSINESS_HOURS ("8-18", end exclusive),
+ * ADMIN_BUSINESS_DAYS ("1-5") and ADMIN_BUSINESS_TIMEZONE ("UTC")
+ */
+export function getBusinessHours(): BusinessHours {
+  const hours = parseRange(process.env.ADMIN_BUSINESS_HOURS || '8-18', 0, 24);
+  const days = parseRange(process.env.ADMIN_BUSINESS_DAYS || '1-5', 1, 7);
+  return {
+    startHour: hours.length > 0 ? hours[0] : 8,
+    endHour: hours.length > 0 ? hours[hours.length - 1] : 18,
+    days: days.length > 0 ? days : [1, 2, 3, 4, 5],
+    timeZone: process.env.ADMIN_BUSINESS_TIMEZONE || 'UTC',
+  };
+}
+
+/**
+ * Rules that freeze the acting account when they match (ADMIN_AUTO_FREEZE_RULES,
+ * comma separated; empty by default so matches only alert)
+ */
+export function getAutoFreezeRules(): Set<AdminActivityRule> {
+  const known = new Set<string>(Object.values(AdminActivityRules));
+  return new Set(
+    (process.env.ADMIN_AUTO_FREEZE_RULES || '')
+      .split(',')
+      .map(rule => rule.trim())
+      .filter((rule): rule is AdminActivityRule => known.has(rule))
+  );
+}
+
+/**
+ * Whether a moment falls inside business hours in the configured time zone
+ */
+export function isWithinBusinessHours(date: Date, hours: BusinessHours = getBusinessHours()): boolean {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: hours.timeZone,
+      weekday: 'short',
+      hour: 'numeric',
+      hourCycle: 'h23',
+    }).formatToParts(date);
+  } catch {
+    console.error(`[AdminActivity] Unknown time zone "${hours.timeZone}", using UTC`);
+    return isWithinBusinessHours(date, { ...hours, timeZone: 'UTC' });
+  }
+
+  const weekday = parts.find(p => p.type === 'weekday')?.value;
+  const hour = parseInt(parts.find(p => p.type === 'hour')?.value || '0', 10);
+  const isoDay = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'].indexOf(weekday || '') + 1;
+
+  return hours.days.includes(isoDay) && hour >= hours.startHour && hour < hours.endHour;
+}
+
+/**
+ * Whether a procedure path deletes something on behalf of the portal
+ */
+export function isDeleteProcedure(path: string): boolean {
+  const segments = path.split('.');
+  const name = segments[segments.length - 1];
+  return segments.length > 1 && !SELF_SERVICE_NAMESPACES.has(segments[0]) && /^(delete|bulkDelete)/.test(name);
+}
+
+/**
+ * Count the deletes an admin ran since a moment, from the audit middleware's
+ * entries: successful calls only, and not the ones that were merely sent for
+ * four-eyes approval (their approved run is logged under the approver)
+ */
+export async function countRecentDeletes(userId: string, since: Date): Promise<number | null> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('audit_log')
+      .select('path:details->>path')
+      .eq('user_id', userId)
+      .eq('action', AuditActions.API_MUTATION)
+      .eq('success', true)
+      .gt('created_at', since.toISOString())
+      .is('details->>pendingApproval', null)
+      .or('details->>path.like.*.delete*,details->>path.like.*.bulkDelete*');
+
+    if (error) {
+      console.error('[AdminActivity] Error counting recent deletes:', error);
+      return null;
+    }
+
+    return (data || []).filter(row => typeof row.path === 'string' && isDeleteProcedure(row.path)).length;
+  } catch (err) {
+    console.error('[AdminActivity] Exception counting recent deletes:', err);
+    return null;
+  }
+}
+
+/**
+ * When an anomaly of this type was last logged for an admin since a moment,
+ * so a rule alerts once per burst rather than on every further match
+ */
+async function getLastAnomalyAt(userId: string, anomalyType: string, since: Date): Promise<Date | null> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('login_anomalies')
+      .select('created_at')
+      .eq('user_id', userId)
+      .eq('anomaly_type', anomalyType)
+      .gte('created_at', since.toISOString())
+      .order('created_at', { ascending: false })
+      .limit(1);
+
+    if (error) {
+      console.error('[AdminActivity] Error checking recent anomalies:', error);
+      return null;
+    }
+
+    return data && data.length > 0 ? new Date(data[0].created_at) : null;
+  } catch (err) {
+    console.error('[AdminActivity] Exception checking recent anomalies:', err);
+    return null;
+  }
+}
+
+// ============ RULE CHECKS ============
+
+/**
+ * Check a successful mutation against the admin behavior rules
+ */
+export async function checkAdminMutation(
+  actor: AdminActivityContext,
+  path: string,
+  input: unknown
+): Promise<void> {
+  if (isDeleteProcedure(path)) {
+    const windowStart = new Date(Date.now() - DELETE_WINDOW_MINUTES * 60 * 1000);
+    // Deletes already reported in this window don't count again
+    const lastAlertAt = await getLastAnomalyAt(actor.userId, AnomalyTypes.MASS_DELETION, windowStart);
+    const count = await countRecentDeletes(actor.userId, lastAlertAt ?? windowStart);
+    if (count !== null && count >= DELETE_THRESHOLD) {
+      await handleRuleMatch(actor, AdminActivityRules.MASS_DELETION, {
+        anomalyType: AnomalyTypes.MASS_DELETION,
+        severity: SeverityLevels.HIGH,
+        details: {
+          path,
+          deleteCount: count,
+          windowMinutes: DELETE_WINDOW_MINUTES,
+          message: `${count} deletes within ${DELETE_WINDOW_MINUTES} minutes`,
+        },
+      });
+    }
+  }
+
+  const isRoleGrant = ROLE_GRANT_PROCEDURES[path];
+  if (isRoleGrant && isRoleGrant(input) && !isWithinBusinessHours(new Date())) {
+    const hours = getBusinessHours();
+    const grant = (input || {}) as Record<string, unknown>;
+    await handleRuleMatch(actor, AdminActivityRules.OFF_HOURS_ROLE_GRANT, {
+      anomalyType: AnomalyTypes.OFF_HOURS_ROLE_GRANT,
+      severity: SeverityLevels.MEDIUM,
+      details: {
+        path,
+        role: grant.role,
+        targetUserId: grant.userId,
+        targetEmail: grant.email,
+        requestId: grant.id,
+        businessHours: `${hours.startHour}:00-${hours.endHour}:00 ${hours.timeZone}, days ${hours.days.join(',')}`,
+        message: 'Role granted outside business hours',
+      },
+    });
+  }
+}
+
+/**
+ * Check a completed data export: a bulk export soon after the admin signed in
+ * from a new device is suspicious
+ */
+export async function checkDataExport(
+  actor: AdminActivityContext,
+  dataset: string,
+  rowCount: number
+): Promise<void> {
+  if (rowCount < BULK_EXPORT_MIN_ROWS) return;
+
+  const since = new Date(Date.now() - EXPORT_AFTER_NEW_DEVICE_MINUTES * 60 * 1000);
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('login_anomalies')
+      .select('id, created_at, ip_address')
+      .eq('user_id', actor.userId)
+      .eq('anomaly_type', AnomalyTypes.NEW_DEVICE)
+      .gte('created_at', since.toISOString())
+      .order('created_at', { ascending: false })
+      .limit(1);
+
+    if (error) {
+      console.error('[AdminActivity] Error checking recent new-device logins:', error);
+      return;
+    }
+    if (!data || data.length === 0) return;
+
+    await handleRuleMatch(actor, AdminActivityRules.EXPORT_AFTER_NEW_DEVICE, {
+      anomalyType: AnomalyTypes.EXPORT_AFTER_NEW_DEVICE,
+      severity: SeverityLevels.HIGH,
+      details: {
+        dataset,
+        rowCount,
+        newDeviceAnomalyId: data[0].id,
+        newDeviceLoginAt: data[0].created_at,
+        newDeviceIpAddress: data[0].ip_address,
+        message: `Exported ${rowCount} rows within ${EXPORT_AFTER_NEW_DEVICE_MINUTES} minutes of a new-device sign-in`,
+      },
+    });
+  } catch (err) {
+    console.error('[AdminActivity] Exception checking data export:', err);
+  }
+}
+
+/**
+ * Log the anomaly for a matched rule and freeze the account if configured
+ */
+async function handleRuleMatch(
+  actor: AdminActivityContext,
+  rule: AdminActivityRule,
+  anomaly: { anomalyType: string; severity: string; details: Record<string, unknown> }
+): Promise<void> {
+  const freeze = getAutoFreezeRules().has(rule) && !actor.viaApiKey;
+
+  await logAnomaly({
+    userId: actor.userId,
+    userEmail: actor.userEmail,
+    anomalyType: anomaly.anomalyType,
+    severity: freeze ? SeverityLevels.CRITICAL : anomaly.severity,
+    ipAddress: actor.ipAddress,
+    userAgent: actor.userAgent,
+    details: { ...anomaly.details, rule, accountFrozen: freeze },
+  });
+
+  if (freeze) {
+    await freezeAccount(actor, rule, String(anomaly.details.message || rule));
+  }
+}
+
+// ============ ACCOUNT FREEZES ============
+
+/**
+ * Freeze an admin account: refuse sign-in and end every session and refresh token
+ */
+export async function freezeAccount(
+  actor: AdminActivityContext,
+  rule: string,
+  reason: string
+): Promise<boolean> {
+  try {
+    const { error } = await supabaseAdmin
+      .from('account_freezes')
+      .insert({
+        user_id: actor.userId,
+        user_email: actor.userEmail || null,
+        rule,
+        reason,
+      });
+
+    // 23505: already frozen (one active freeze per account)
+    if (error && error.code !== '23505') {
+      console.error('[AdminActivity] Failed to record account freeze:', error);
+    }
+
+    const sessionsRevoked = await revokeAllUserSessions(actor.userId, 'account_frozen');
+    const tokensRevoked = await revokeAllUserTokens(actor.userId, 'account_frozen');
+
+    console.warn(`[AdminActivity] Froze account ${actor.userEmail || actor.userId} (${rule})`);
+
+    await logAuditEvent({
+      userId: actor.userId,
+      userEmail: actor.userEmail,
+      action: AuditActions.ACCOUNT_FROZEN,
+      resourceType: ResourceTypes.USER,
+      resourceId: actor.userId,
+      details: { rule, reason, sessionsRevoked, tokensRevoked },
+      ipAddress: actor.ipAddress,
+      userAgent: actor.userAgent,
+      success: !error || error.code === '23505',
+    });
+
+    return !error || error.code === '23505';
+  } catch (err) {
+    console.error('[AdminActivity] Exception freezing account:', err);
+    return false;
+  }
+}
+
+/**
+ * Whether an account is currently frozen (fails open so an outage of the
+ * table does not lock every admin out)
+ */
+export async function isAccountFrozen(userId: string): Promise<boolean> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('account_freezes')
+      .select('id')
+      .eq('user_id', userId)
+      .is('unfrozen_at', null)
+      .limit(1);
+
+    if (error) {
+      console.error('[AdminActivity] Error checking account freeze:', error);
+      return false;
+    }
+
+    return (data || []).length > 0;
+  } catch (err) {
+    console.error('[AdminActivity] Exception checking account freeze:', err);
+    return false;
+  }
+}
+
+/**
+ * List accounts that are currently frozen
+ */
+export async function getFrozenAccounts(): Promise<AccountFreeze[]> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('account_freezes')
+      .select('id, user_id, user_email, rule, reason, frozen_at')
+      .is('unfrozen_at', null)
+      .order('frozen_at', { ascending: false });
+
+    if (error) {
+      console.error('[AdminActivity] Error listing frozen accounts:', error);
+      return [];
+    }
+
+    return (data || []).map(row => ({
+      id: row.id,
+      userId: row.user_id,
+      userEmail: row.user_email || undefined,
+      rule: row.rule,
+      reason: row.reason || undefined,
+      frozenAt: new Date(row.frozen_at),
+    }));
+  } catch (err) {
+    console.error('[AdminActivity] Exception listing frozen accounts:', err);
+    return [];
+  }
+}
+
+/**
+ * Lift the active freeze on an account
+ */
+export async function unfreezeAccount(userId: string, unfrozenBy: string): Promise<boolean> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('account_freezes')
+      .update({ unfrozen_at: new Date().toISOString(), unfrozen_by: unfrozenBy })
+      .eq('user_id', userId)
+      .is('unfrozen_at', null)
+      .select('id');
+
+    if (error) {
+      console.error('[AdminActivity] Failed to unfreeze account:', error);
+      return false;
+    }
+
+    return (data || []).length > 0;
+  } catch (err) {
+    console.error('[AdminActivity] Exception unfreezing account:', err);
+    return false;
+  }
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("./supabaseAuth", () => ({ supabaseAdmin: {} }));
+
+import {
+  AlertSeverity,
+  DEFAULT_ALERT_ROUTES,
+  buildDigestAlert,
+  buildEmailAlertHtml,
+  matchAlertRoutes,
+  parseAlertRoutes,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  type SecurityAlert,
+} from "./alertService";
+
+const alert = (overrides: Partial<SecurityAlert> = {}): SecurityAlert => ({
+  title: "Test",
+  severity: AlertSeverity.HIGH,
+  description: "Test alert",
+  timestamp: new Date("2026-01-01T00:00:00Z"),
+  ...overrides,
+});
+
+describe("alert routing", () => {
+  const routes = parseAlertRoutes(JSON.stringify([
+    { severities: ["critical"], channels: ["email"], emailTo: ["oncall@example.com"] },
+    { anomalyTypes: ["impossible_travel"], channels: ["webhook"] },
+    { severities: ["low"], channels: ["slack"], delivery: "hourly" },
+  ]));
+
+  it("matches by severity and anomaly type", () => {
+    expect(matchAlertRoutes(alert({ severity: "critical" }), routes)).toHaveLength(1);
+    expect(matchAlertRoutes(alert({ severity: "critical", anomalyType: "impossible_travel" }), routes)).toHaveLength(2);
+    expect(matchAlertRoutes(alert({ severity: "medium" }), routes)).toHaveLength(0);
+  });
+
+  it("defaults delivery to immediate", () => {
+    expect(routes[0].delivery).toBe("immediate");
+    expect(routes[2].delivery).toBe("hourly");
+  });
+
+  it("falls back to the default routes on invalid config", () => {
+    expect(parseAlertRoutes("not json")).toBe(DEFAULT_ALERT_ROUTES);
+    expect(parseAlertRoutes(JSON.stringify([{ channels: ["pager"] }]))).toBe(DEFAULT_ALERT_ROUTES);
+  });
+});
+
+describe("digests", () => {
+  it("summarizes alerts under the highest severity", () => {
+    const digest = buildDigestAlert([alert({ severity: "low" }), alert({ severity: "medium", title: "Other" })], "daily");
+    expect(digest.title).toBe("Daily security digest: 2 alerts");
+    expect(digest.severity).toBe("medium");
+    expect(digest.description.split("\n")).toHaveLength(2);
+  });
+
+  it("escapes alert fields in the email body", () => {
+    const digest = buildDigestAlert([
+      alert({ title: "<img src=x onerror=alert(1)>", userEmail: "a\"><script>@example.com", userAgent: "<b>ua</b>" }),
+    ], "hourly");
+    const html = buildEmailAlertHtml(digest);
+    expect(html).not.toContain("<img");
+    expect(html).not.toContain("<script>");
+    expect(html).not.toContain("<b>");
+    expect(html).toContain("&lt;img src=x onerror=alert(1)&gt;");
+  });
+});
+
+describe("webhook signatures", () => {
+  it("verifies its own signatures and rejects tampering or stale timestamps", () => {
+    const body = JSON.stringify({ event: "security.alert" });
+    const header = signWebhookPayload(body, "secret", 1_700_000_000);
+
+    expect(verifyWebhookSignature(body, header, "secret", 1_700_000_010)).toBe(true);
+    expect(verifyWebhookSignature(body + " ", header, "secret", 1_700_000_010)).toBe(false);
+    expect(verifyWebhookSignature(body, header, "other", 1_700_000_010)).toBe(false);
+    expect(verifyWebhookSignature(body, header, "secret", 1_700_001_000)).toBe(false);
+  });
+});
@@ -2,15 +2,28 @@
  * Alert Service Module
  * 
  * Sends email and webhook alerts for critical security events.
- * Supports multiple notification channels: Email (Resend), Slack, Discord.
+ * Supports multiple notification channels: Email (Resend), Slack, Discord and
+ * a generic signed webhook. Routing rules decide which channels and recipients
+ * each severity / anomaly type goes to, and whether it is sent immediately or
+ * batched into an hourly or daily digest. Unacknowledged critical anomalies are
+ * escalated to a second tier after ALERT_ESCALATION_MINUTES.
  */
 
+import crypto from "crypto";
+import { z } from "zod";
+import { supabaseAdmin } from "./supabaseAuth";
+
 // Configuration from environment
 const RESEND_API_KEY = process.env.RESEND_API_KEY;
 const ALERT_EMAIL_FROM = process.env.ALERT_EMAIL_FROM || 'security@tavvy.app';
 const ALERT_EMAIL_TO = process.env.ALERT_EMAIL_TO?.split(',') || [];
 const SLACK_WEBHOOK_URL = process.env.SLACK_SECURITY_WEBHOOK;
 const DISCORD_WEBHOOK_URL = process.env.DISCORD_SECURITY_WEBHOOK;
+const ALERT_WEBHOOK_URL = process.env.ALERT_WEBHOOK_URL;
+const ALERT_WEBHOOK_SECRET = process.env.ALERT_WEBHOOK_SECRET;
+const ALERT_ESCALATION_MINUTES = parseInt(process.env.ALERT_ESCALATION_MINUTES || '15', 10);
+const ALERT_ESCALATION_EMAIL_TO = process.env.ALERT_ESCALATION_EMAIL_TO?.split(',').filter(Boolean) || [];
+const ALERT_ESCALATION_CHANNELS = process.env.ALERT_ESCALATION_CHANNELS?.split(',').filter(Boolean) || [];
 
 // Alert severity levels
 export const AlertSeverity = {
@@ -22,10 +35,31 @@ export const AlertSeverity = {
 
 export type AlertSeverityType = typeof AlertSeverity[keyof typeof AlertSeverity];
 
+// Notification channels
+export const AlertChannels = {
+  EMAIL: 'email',
+  SLACK: 'slack',
+  DISCORD: 'discord',
+  WEBHOOK: 'webhook',
+} as const;
+
+export type AlertChannel = typeof AlertChannels[keyof typeof AlertChannels];
+
+// When a routed alert is delivered
+export const AlertDelivery = {
+  IMMEDIATE: 'immediate',
+  HOURLY: 'hourly',
+  DAILY: 'daily',
+} as const;
+
+export type AlertDeliveryType = typeof AlertDelivery[keyof typeof AlertDelivery];
+
 export interface SecurityAlert {
   title: string;
   severity: AlertSeverityType;
   description: string;
+  anomalyType?: string;
+  anomalyId?: string;
   userId?: string;
   userEmail?: string;
   ipAddress?: string;
@@ -35,6 +69,73 @@ export interface SecurityAlert {
   actionUrl?: string;
 }
 
+export type AlertDispatchResult = Record<AlertChannel, boolean> & { digested: boolean };
+
+// ============ ROUTING RULES ============
+
+const SEVERITY_VALUES = Object.values(AlertSeverity) as [AlertSeverityType, ...AlertSeverityType[]];
+const CHANNEL_VALUES = Object.values(AlertChannels) as [AlertChannel, ...AlertChannel[]];
+const DELIVERY_VALUES = Object.values(AlertDelivery) as [AlertDeliveryType, ...AlertDeliveryType[]];
+
+const alertRouteSchema = z.object({
+  // Omitted criteria match every alert
+  severities: z.array(z.enum(SEVERITY_VALUES)).optional(),
+  anomalyTypes: z.array(z.string()).optional(),
+  channels: z.array(z.enum(CHANNEL_VALUES)).min(1),
+  // Overrides ALERT_EMAIL_TO for the email channel
+  emailTo: z.array(z.string().email()).optional(),
+  delivery: z.enum(DELIVERY_VALUES).default(AlertDelivery.IMMEDIATE),
+});
+
+export type AlertRoute = z.infer<typeof alertRouteSchema>;
+
+// Used when ALERT_ROUTES is not set
+export const DEFAULT_ALERT_ROUTES: AlertRoute[] = [
+  {
+    severities: [AlertSeverity.HIGH, AlertSeverity.CRITICAL],
+    channels: [AlertChannels.EMAIL, AlertChannels.SLACK, AlertChannels.DISCORD, AlertChannels.WEBHOOK],
+    delivery: AlertDelivery.IMMEDIATE,
+  },
+  {
+    severities: [AlertSeverity.LOW, AlertSeverity.MEDIUM],
+    channels: [AlertChannels.EMAIL, AlertChannels.SLACK, AlertChannels.DISCORD, AlertChannels.WEBHOOK],
+    delivery: AlertDelivery.DAILY,
+  },
+];
+
+/**
+ * Parse routing rules from ALERT_ROUTES (a JSON array of routes)
+ */
+export function parseAlertRoutes(raw: string | undefined): AlertRoute[] {
+  if (!raw) {
+    return DEFAULT_ALERT_ROUTES;
+  }
+
+  try {
+    const parsed = z.array(alertRouteSchema).safeParse(JSON.parse(raw));
+    if (!parsed.success) {
+      console.error('[AlertService] Invalid ALERT_ROUTES, using defaults:', parsed.error.message);
+      return DEFAULT_ALERT_ROUTES;
+    }
+    return parsed.data;
+  } catch (err) {
+    console.error('[AlertService] ALERT_ROUTES is not valid JSON, using defaults:', err);
+    return DEFAULT_ALERT_ROUTES;
+  }
+}
+
+const alertRoutes = parseAlertRoutes(process.env.ALERT_ROUTES);
+
+/**
+ * Routes whose severity and anomaly type criteria match the alert
+ */
+export function matchAlertRoutes(alert: SecurityAlert, routes: AlertRoute[] = alertRoutes): AlertRoute[] {
+  return routes.filter(route =>
+    (!route.severities || route.severities.includes(alert.severity)) &&
+    (!route.anomalyTypes || (!!alert.anomalyType && route.anomalyTypes.includes(alert.anomalyType)))
+  );
+}
+
 // Rate limiting for alerts (prevent alert storms)
 const alertCooldowns = new Map<string, number>();
 const ALERT_COOLDOWN_MS = 5 * 60 * 1000; // 5 minutes between same alerts
@@ -62,14 +163,22 @@ function getAlertKey(alert: SecurityAlert): string {
 }
 
 /**
- * Send email alert via Resend API
+ * Escape a value for interpolation into email HTML
+ * (alert fields carry user-controlled input such as emails and user agents)
  */
-async function sendEmailAlert(alert: SecurityAlert): Promise<boolean> {
-  if (!RESEND_API_KEY || ALERT_EMAIL_TO.length === 0) {
-    console.log('[AlertService] Email alerts not configured (missing RESEND_API_KEY or ALERT_EMAIL_TO)');
-    return false;
-  }
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
 
+/**
+ * Render an alert (including digests and escalations) as the email body
+ */
+export function buildEmailAlertHtml(alert: SecurityAlert): string {
   const severityEmoji = {
     low: '🔵',
     medium: '🟡',
@@ -77,43 +186,43 @@ async function sendEmailAlert(alert: SecurityAlert): Promise<boolean> {
     critical: '🔴',
   };
 
-  const htmlContent = `
+  return `
     <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
       <div style="background: ${alert.severity === 'critical' ? '#dc2626' : alert.severity === 'high' ? '#ea580c' : '#eab308'}; color: white; padding: 20px; border-radius: 8px 8px 0 0;">
         <h1 style="margin: 0; font-size: 24px;">
-          ${severityEmoji[alert.severity]} Security Alert: ${alert.title}
+          ${severityEmoji[alert.severity]} Security Alert: ${escapeHtml(alert.title)}
         </h1>
         <p style="margin: 10px 0 0 0; opacity: 0.9;">
-          Severity: ${alert.severity.toUpperCase()}
+          Severity: ${escapeHtml(alert.severity.toUpperCase())}
         </p>
       </div>
       
       <div style="background: #f9fafb; padding: 20px; border: 1px solid #e5e7eb; border-top: none;">
-        <p style="margin: 0 0 15px 0; font-size: 16px; color: #374151;">
-          ${alert.description}
+        <p style="margin: 0 0 15px 0; font-size: 16px; color: #374151; white-space: pre-line;">
+          ${escapeHtml(alert.description)}
         </p>
         
         <table style="width: 100%; border-collapse: collapse; margin-top: 15px;">
           <tr>
             <td style="padding: 8px 0; border-bottom: 1px solid #e5e7eb; color: #6b7280; width: 120px;">Timestamp</td>
-            <td style="padding: 8px 0; border-bottom: 1px solid #e5e7eb; color: #111827;">${alert.timestamp.toISOString()}</td>
+            <td style="padding: 8px 0; border-bottom: 1px solid #e5e7eb; color: #111827;">${escapeHtml(alert.timestamp.toISOString())}</td>
           </tr>
           ${alert.userEmail ? `
           <tr>
             <td style="padding: 8px 0; border-bottom: 1px solid #e5e7eb; color: #6b7280;">User Email</td>
-            <td style="padding: 8px 0; border-bottom: 1px solid #e5e7eb; color: #111827;">${alert.userEmail}</td>
+            <td style="padding: 8px 0; border-bottom: 1px solid #e5e7eb; color: #111827;">${escapeHtml(alert.userEmail)}</td>
           </tr>
           ` : ''}
           ${alert.ipAddress ? `
           <tr>
             <td style="padding: 8px 0; border-bottom: 1px solid #e5e7eb; color: #6b7280;">IP Address</td>
-            <td style="padding: 8px 0; border-bottom: 1px solid #e5e7eb; color: #111827;">${alert.ipAddress}</td>
+            <td style="padding: 8px 0; border-bottom: 1px solid #e5e7eb; color: #111827;">${escapeHtml(alert.ipAddress)}</td>
           </tr>
           ` : ''}
           ${alert.userAgent ? `
           <tr>
             <td style="padding: 8px 0; border-bottom: 1px solid #e5e7eb; color: #6b7280;">User Agent</td>
-            <td style="padding: 8px 0; border-bottom: 1px solid #e5e7eb; color: #111827; font-size: 12px; word-break: break-all;">${alert.userAgent}</td>
+            <td style="padding: 8px 0; border-bottom: 1px solid #e5e7eb; color: #111827; font-size: 12px; word-break: break-all;">${escapeHtml(alert.userAgent)}</td>
           </tr>
           ` : ''}
         </table>
@@ -121,13 +230,13 @@ async function sendEmailAlert(alert: SecurityAlert): Promise<boolean> {
         ${alert.details ? `
         <div style="margin-top: 15px; padding: 10px; background: #fff; border: 1px solid #e5e7eb; border-radius: 4px;">
           <strong style="color: #374151;">Additional Details:</strong>
-          <pre style="margin: 10px 0 0 0; font-size: 12px; overflow-x: auto;">${JSON.stringify(alert.details, null, 2)}</pre>
+          <pre style="margin: 10px 0 0 0; font-size: 12px; overflow-x: auto;">${escapeHtml(JSON.stringify(alert.details, null, 2))}</pre>
         </div>
         ` : ''}
         
         ${alert.actionUrl ? `
         <div style="margin-top: 20px;">
-          <a href="${alert.actionUrl}" style="display: inline-block; background: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: 500;">
+          <a href="${escapeHtml(alert.actionUrl)}" style="display: inline-block; background: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: 500;">
             View in Admin Portal
           </a>
         </div>
@@ -142,6 +251,38 @@ async function sendEmailAlert(alert: SecurityAlert): Promise<boolean> {
       </div>
     </div>
   `;
+}
+
+/**
+ * Send email alert via Resend API
+ */
+async function sendEmailAlert(alert: SecurityAlert, recipients: string[] = ALERT_EMAIL_TO): Promise<boolean> {
+  if (!RESEND_API_KEY || recipients.length === 0) {
+    console.log('[AlertService] Email alerts not configured (missing RESEND_API_KEY or ALERT_EMAIL_TO)');
+    return false;
+  }
+
+  const htmlContent = buildEmailAlertHtml(alert);
+
+  const sent = await sendEmail(
+    recipients,
+    `[${alert.severity.toUpperCase()}] Security Alert: ${alert.title}`,
+    htmlContent
+  );
+  if (sent) {
+    console.log(`[AlertService] Email alert sent for: ${alert.title}`);
+  }
+  return sent;
+}
+
+/**
+ * Send an email via the Resend API (also used for account notifications
+ * such as new-device sign-in confirmations)
+ */
+export async function sendEmail(to: string[], subject: string, html: string): Promise<boolean> {
+  if (!RESEND_API_KEY || to.length === 0) {
+    return false;
+  }
 
   try {
     const response = await fetch('https://api.resend.com/emails', {
@@ -152,9 +293,9 @@ async function sendEmailAlert(alert: SecurityAlert): Promise<boolean> {
       },
       body: JSON.stringify({
         from: ALERT_EMAIL_FROM,
-        to: ALERT_EMAIL_TO,
-        subject: `[${alert.severity.toUpperCase()}] Security Alert: ${alert.title}`,
-        html: htmlContent,
+        to,
+        subject,
+        html,
       }),
     });
 
@@ -164,7 +305,6 @@ async function sendEmailAlert(alert: SecurityAlert): Promise<boolean> {
       return false;
     }
 
-    console.log(`[AlertService] Email alert sent for: ${alert.title}`);
     return true;
   } catch (err) {
     console.error('[AlertService] Exception sending email:', err);
@@ -292,32 +432,325 @@ async function sendDiscordAlert(alert: SecurityAlert): Promise<boolean> {
   }
 }
 
+// ============ SIGNED WEBHOOK ============
+
+const WEBHOOK_SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+/**
+ * Sign a webhook body as "t=<unix seconds>,v1=<hex HMAC-SHA256 of `${t}.${body}`>"
+ */
+export function signWebhookPayload(body: string, secret: string, timestamp: number = Math.floor(Date.now() / 1000)): string {
+  const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
 /**
- * Send a security alert through all configured channels
+ * Verify a signature header produced by signWebhookPayload (for subscribers)
  */
-export async function sendSecurityAlert(alert: SecurityAlert): Promise<{ email: boolean; slack: boolean; discord: boolean }> {
+export function verifyWebhookSignature(
+  body: string,
+  header: string,
+  secret: string,
+  nowSeconds: number = Math.floor(Date.now() / 1000)
+): boolean {
+  const parts = Object.fromEntries(header.split(',').map(part => part.split('=', 2) as [string, string]));
+  const timestamp = parseInt(parts.t || '', 10);
+  if (!timestamp || !parts.v1 || Math.abs(nowSeconds - timestamp) > WEBHOOK_SIGNATURE_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const expected = Buffer.from(signWebhookPayload(body, secret, timestamp).split('v1=')[1], 'hex');
+  const received = Buffer.from(parts.v1, 'hex');
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
+
+/**
+ * Send a signed JSON webhook so other tools can subscribe to alerts
+ */
+async function sendWebhookAlert(alert: SecurityAlert, event: string): Promise<boolean> {
+  if (!ALERT_WEBHOOK_URL) {
+    return false;
+  }
+  if (!ALERT_WEBHOOK_SECRET) {
+    console.warn('[AlertService] ALERT_WEBHOOK_URL is set but ALERT_WEBHOOK_SECRET is missing; webhook not sent');
+    return false;
+  }
+
+  const deliveryId = crypto.randomUUID();
+  const body = JSON.stringify({
+    id: deliveryId,
+    event,
+    alert: { ...alert, timestamp: alert.timestamp.toISOString() },
+  });
+
+  try {
+    const response = await fetch(ALERT_WEBHOOK_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Tavvy-Event': event,
+        'X-Tavvy-Delivery': deliveryId,
+        'X-Tavvy-Signature': signWebhookPayload(body, ALERT_WEBHOOK_SECRET),
+      },
+      body,
+    });
+
+    if (!response.ok) {
+      console.error('[AlertService] Failed to send webhook alert:', response.status);
+      return false;
+    }
+
+    console.log(`[AlertService] Webhook alert sent for: ${alert.title}`);
+    return true;
+  } catch (err) {
+    console.error('[AlertService] Exception sending webhook alert:', err);
+    return false;
+  }
+}
+
+// ============ DISPATCH ============
+
+/**
+ * Send an alert to the given channels in parallel
+ */
+async function deliverToChannels(
+  alert: SecurityAlert,
+  channels: AlertChannel[],
+  emailTo: string[],
+  event: string
+): Promise<Record<AlertChannel, boolean>> {
+  const [email, slack, discord, webhook] = await Promise.all([
+    channels.includes(AlertChannels.EMAIL) ? sendEmailAlert(alert, emailTo) : false,
+    channels.includes(AlertChannels.SLACK) ? sendSlackAlert(alert) : false,
+    channels.includes(AlertChannels.DISCORD) ? sendDiscordAlert(alert) : false,
+    channels.includes(AlertChannels.WEBHOOK) ? sendWebhookAlert(alert, event) : false,
+  ]);
+
+  return { email, slack, discord, webhook };
+}
+
+/**
+ * Email recipients for a route (ALERT_EMAIL_TO unless the route overrides it)
+ */
+function getRouteRecipients(route: AlertRoute): string[] {
+  return route.channels.includes(AlertChannels.EMAIL) ? (route.emailTo || ALERT_EMAIL_TO) : [];
+}
+
+/**
+ * Send a security alert through the channels its routing rules select.
+ * Digest routes queue the alert instead of sending it.
+ */
+export async function sendSecurityAlert(alert: SecurityAlert): Promise<AlertDispatchResult> {
+  const result: AlertDispatchResult = { email: false, slack: false, discord: false, webhook: false, digested: false };
   const alertKey = getAlertKey(alert);
   
   // Rate limiting check
   if (!shouldSendAlert(alertKey)) {
     console.log(`[AlertService] Alert rate-limited: ${alert.title}`);
-    return { email: false, slack: false, discord: false };
+    return result;
   }
 
-  // Send to all configured channels in parallel
-  const [emailResult, slackResult, discordResult] = await Promise.all([
-    sendEmailAlert(alert),
-    sendSlackAlert(alert),
-    sendDiscordAlert(alert),
-  ]);
+  const routes = matchAlertRoutes(alert);
+  if (routes.length === 0) {
+    console.log(`[AlertService] No route for ${alert.severity} alert: ${alert.title}`);
+    return result;
+  }
+
+  const immediateRoutes = routes.filter(route => route.delivery === AlertDelivery.IMMEDIATE);
+  const digestRoutes = routes.filter(route => route.delivery !== AlertDelivery.IMMEDIATE);
+
+  if (immediateRoutes.length > 0) {
+    const channels = Array.from(new Set(immediateRoutes.flatMap(route => route.channels)));
+    const emailTo = Array.from(new Set(immediateRoutes.flatMap(getRouteRecipients)));
+    Object.assign(result, await deliverToChannels(alert, channels, emailTo, 'security.alert'));
+  }
+
+  if (digestRoutes.length > 0) {
+    result.digested = await queueForDigest(alert, digestRoutes);
+  }
+
+  return result;
+}
+
+// ============ DIGESTS ============
+
+/**
+ * Queue an alert for the next digest of each route
+ */
+async function queueForDigest(alert: SecurityAlert, routes: AlertRoute[]): Promise<boolean> {
+  try {
+    const { error } = await supabaseAdmin
+      .from('security_alert_digest_queue')
+      .insert(routes.map(route => ({
+        delivery: route.delivery,
+        channels: route.channels,
+        email_to: getRouteRecipients(route),
+        alert: { ...alert, timestamp: alert.timestamp.toISOString() },
+      })));
+
+    if (error) {
+      console.error('[AlertService] Failed to queue alert for digest:', error);
+      return false;
+    }
+
+    return true;
+  } catch (err) {
+    console.error('[AlertService] Exception queueing alert for digest:', err);
+    return false;
+  }
+}
+
+/**
+ * Start of the digest period containing now (UTC hour or day)
+ */
+function getDigestPeriodStart(delivery: AlertDeliveryType, now: Date): Date {
+  const start = new Date(now);
+  start.setUTCMinutes(0, 0, 0);
+  if (delivery === AlertDelivery.DAILY) {
+    start.setUTCHours(0);
+  }
+  return start;
+}
+
+/**
+ * Summarize queued alerts as a single alert for the channel senders
+ */
+export function buildDigestAlert(alerts: SecurityAlert[], delivery: AlertDeliveryType): SecurityAlert {
+  const severityOrder: AlertSeverityType[] = [AlertSeverity.LOW, AlertSeverity.MEDIUM, AlertSeverity.HIGH, AlertSeverity.CRITICAL];
+  const highest = alerts.reduce<AlertSeverityType>(
+    (max, alert) => severityOrder.indexOf(alert.severity) > severityOrder.indexOf(max) ? alert.severity : max,
+    AlertSeverity.LOW
+  );
+
+  const lines = alerts.map(alert =>
+    `• [${alert.severity.toUpperCase()}] ${alert.title}${alert.userEmail ? ` (${alert.userEmail})` : ''} at ${alert.timestamp.toISOString()}`
+  );
 
   return {
-    email: emailResult,
-    slack: slackResult,
-    discord: discordResult,
+    title: `${delivery === AlertDelivery.DAILY ? 'Daily' : 'Hourly'} security digest: ${alerts.length} alert${alerts.length === 1 ? '' : 's'}`,
+    severity: highest,
+    description: lines.join('\n'),
+    timestamp: new Date(),
+    details: {
+      alerts: alerts.map(alert => ({
+        title: alert.title,
+        severity: alert.severity,
+        anomalyType: alert.anomalyType,
+        userEmail: alert.userEmail,
+        ipAddress: alert.ipAddress,
+        timestamp: alert.timestamp.toISOString(),
+      })),
+    },
+    actionUrl: process.env.ADMIN_PORTAL_URL ? `${process.env.ADMIN_PORTAL_URL}/security/anomalies` : undefined,
   };
 }
 
+/**
+ * Send digests for every period that has ended. Rows are claimed with a
+ * conditional update so concurrent instances never send the same alert twice.
+ */
+export async function flushAlertDigests(now: Date = new Date()): Promise<number> {
+  let digestsSent = 0;
+
+  for (const delivery of [AlertDelivery.HOURLY, AlertDelivery.DAILY]) {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('security_alert_digest_queue')
+        .update({ sent_at: now.toISOString() })
+        .eq('delivery', delivery)
+        .is('sent_at', null)
+        .lt('created_at', getDigestPeriodStart(delivery, now).toISOString())
+        .select('channels, email_to, alert');
+
+      if (error) {
+        console.error(`[AlertService] Failed to claim ${delivery} digest:`, error);
+        continue;
+      }
+
+      // One digest per distinct channel/recipient combination
+      const groups = new Map<string, { channels: AlertChannel[]; emailTo: string[]; alerts: SecurityAlert[] }>();
+      (data || []).forEach(row => {
+        const channels: AlertChannel[] = [...(row.channels || [])].sort();
+        const emailTo: string[] = [...(row.email_to || [])].sort();
+        const key = `${channels.join(',')}|${emailTo.join(',')}`;
+        const group = groups.get(key) || { channels, emailTo, alerts: [] };
+        group.alerts.push({ ...row.alert, timestamp: new Date(row.alert.timestamp) });
+        groups.set(key, group);
+      });
+
+      for (const group of Array.from(groups.values())) {
+        await deliverToChannels(buildDigestAlert(group.alerts, delivery), group.channels, group.emailTo, 'security.alert.digest');
+        digestsSent++;
+      }
+    } catch (err) {
+      console.error(`[AlertService] Exception sending ${delivery} digest:`, err);
+    }
+  }
+
+  return digestsSent;
+}
+
+// ============ ESCALATION ============
+
+/**
+ * Re-send critical anomalies nobody acknowledged within ALERT_ESCALATION_MINUTES
+ * to the escalation tier (ALERT_ESCALATION_CHANNELS / ALERT_ESCALATION_EMAIL_TO).
+ */
+export async function escalateUnacknowledgedAlerts(now: Date = new Date()): Promise<number> {
+  const channels = (ALERT_ESCALATION_CHANNELS.length > 0
+    ? ALERT_ESCALATION_CHANNELS
+    : ALERT_ESCALATION_EMAIL_TO.length > 0 ? [AlertChannels.EMAIL] : []
+  ).filter((channel): channel is AlertChannel => CHANNEL_VALUES.includes(channel as AlertChannel));
+
+  if (channels.length === 0) {
+    return 0;
+  }
+
+  try {
+    const cutoff = new Date(now.getTime() - ALERT_ESCALATION_MINUTES * 60 * 1000);
+    const { data, error } = await supabaseAdmin
+      .from('login_anomalies')
+      .update({ escalated_at: now.toISOString() })
+      .eq('severity', AlertSeverity.CRITICAL)
+      .is('acknowledged_at', null)
+      .is('escalated_at', null)
+      .lte('created_at', cutoff.toISOString())
+      .select('id, anomaly_type, user_id, user_email, ip_address, user_agent, details, created_at');
+
+    if (error) {
+      console.error('[AlertService] Failed to find alerts to escalate:', error);
+      return 0;
+    }
+
+    for (const anomaly of data || []) {
+      const title = anomaly.anomaly_type.replace(/_/g, ' ').replace(/\b\w/g, (c: string) => c.toUpperCase());
+      await deliverToChannels({
+        title: `Escalated: ${title}`,
+        severity: AlertSeverity.CRITICAL,
+        description: `This critical alert has not been acknowledged for ${ALERT_ESCALATION_MINUTES} minutes.`,
+        anomalyType: anomaly.anomaly_type,
+        anomalyId: anomaly.id,
+        userId: anomaly.user_id || undefined,
+        userEmail: anomaly.user_email || undefined,
+        ipAddress: anomaly.ip_address || undefined,
+        userAgent: anomaly.user_agent || undefined,
+        timestamp: new Date(anomaly.created_at),
+        details: anomaly.details || undefined,
+        actionUrl: process.env.ADMIN_PORTAL_URL ? `${process.env.ADMIN_PORTAL_URL}/security/anomalies` : undefined,
+      }, channels, ALERT_ESCALATION_EMAIL_TO, 'security.alert.escalated');
+    }
+
+    if (data && data.length > 0) {
+      console.warn(`[AlertService] Escalated ${data.length} unacknowledged critical alert(s)`);
+    }
+
+    return data?.length || 0;
+  } catch (err) {
+    console.error('[AlertService] Exception escalating alerts:', err);
+    return 0;
+  }
+}
+
 /**
  * Pre-built alert generators for common security events
  */
@@ -329,6 +762,7 @@ export const SecurityAlerts = {
   ): SecurityAlert => ({
     title: 'Brute Force Attack Detected',
     severity: AlertSeverity.CRITICAL,
+    anomalyType: 'brute_force_attempt',
     description: `Multiple failed login attempts detected for account "${email}". This may indicate a brute force attack attempting to guess the password.`,
     userEmail: email,
     ipAddress,
@@ -352,6 +786,7 @@ export const SecurityAlerts = {
   ): SecurityAlert => ({
     title: 'Impossible Travel Detected',
     severity: AlertSeverity.CRITICAL,
+    anomalyType: 'impossible_travel',
     description: `User "${email}" logged in from ${toLocation} only ${timeMinutes} minutes after logging in from ${fromLocation}. The distance of ${distanceKm.toFixed(0)} km would require impossible travel speed.`,
     userId,
     userEmail: email,
@@ -376,6 +811,7 @@ export const SecurityAlerts = {
   ): SecurityAlert => ({
     title: 'New Device Login',
     severity: AlertSeverity.LOW,
+    anomalyType: 'new_device_login',
     description: `User "${email}" logged in from a new device that has not been seen before.`,
     userId,
     userEmail: email,
@@ -394,6 +830,7 @@ export const SecurityAlerts = {
   ): SecurityAlert => ({
     title: 'Session Limit Exceeded',
     severity: AlertSeverity.MEDIUM,
+    anomalyType: 'concurrent_session_limit',
     description: `User "${email}" exceeded the concurrent session limit. An older session was automatically revoked.`,
     userId,
     userEmail: email,
@@ -426,9 +863,9 @@ export const SecurityAlerts = {
 // Cleanup old cooldown entries periodically
 setInterval(() => {
   const now = Date.now();
-  for (const [key, timestamp] of alertCooldowns.entries()) {
+  Array.from(alertCooldowns.entries()).forEach(([key, timestamp]) => {
     if ((now - timestamp) > ALERT_COOLDOWN_MS * 2) {
       alertCooldowns.delete(key);
     }
-  }
+  });
 }, 10 * 60 * 1000); // Every 10 minutes
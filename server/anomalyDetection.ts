@@ -1,7 +1,8 @@
 /**
  * Anomaly Detection Module
  * 
- * Detects and logs suspicious login patterns and security anomalies.
+ * Detects and logs suspicious login patterns and security anomalies
+ * (admin behavior rules live in ./adminActivityRules.ts).
  * Provides alerting for security monitoring.
  */
 
@@ -12,6 +13,8 @@ import {
   getLastKnownLocation,
   formatLocation,
 } from "./geoipService";
+import { recordAccountFailure } from "./accountLockout";
+import { isTrustedDevice } from "./trustedDevices";
 
 // Anomaly types
 export const AnomalyTypes = {
@@ -23,6 +26,11 @@ export const AnomalyTypes = {
   MULTIPLE_FAILED: 'multiple_failed_logins',
   SESSION_HIJACK: 'potential_session_hijack',
   CONCURRENT_SESSIONS: 'concurrent_session_limit',
+  ACCOUNT_LOCKED: 'account_locked',
+  // Admin behavior (see ./adminActivityRules.ts)
+  MASS_DELETION: 'admin_mass_deletion',
+  OFF_HOURS_ROLE_GRANT: 'admin_off_hours_role_grant',
+  EXPORT_AFTER_NEW_DEVICE: 'admin_export_after_new_device',
 } as const;
 
 // Severity levels
@@ -52,11 +60,12 @@ const FAILED_LOGIN_WINDOW_MS = 15 * 60 * 1000; // 15 minutes
 const BRUTE_FORCE_THRESHOLD = 10; // Number of attempts that indicate brute force
 
 /**
- * Log an anomaly to the database and send alerts for critical/high severity
+ * Log an anomaly to the database and hand it to the alert router
+ * (which decides between immediate delivery, digests or no alert)
  */
 export async function logAnomaly(anomaly: AnomalyDetails): Promise<boolean> {
   try {
-    const { error } = await supabaseAdmin
+    const { data: inserted, error } = await supabaseAdmin
       .from('login_anomalies')
       .insert({
         user_id: anomaly.userId || null,
@@ -66,7 +75,9 @@ export async function logAnomaly(anomaly: AnomalyDetails): Promise<boolean> {
         ip_address: anomaly.ipAddress || null,
         user_agent: anomaly.userAgent || null,
         details: anomaly.details || {},
-      });
+      })
+      .select('id')
+      .single();
 
     if (error) {
       console.error('[AnomalyDetection] Failed to log anomaly:', error);
@@ -78,21 +89,20 @@ export async function logAnomaly(anomaly: AnomalyDetails): Promise<boolean> {
       ip: anomaly.ipAddress,
     });
 
-    // Send alerts for critical and high severity anomalies
-    if (anomaly.severity === SeverityLevels.CRITICAL || anomaly.severity === SeverityLevels.HIGH) {
-      // Fire and forget - don't block on alert sending
-      sendSecurityAlert({
-        title: anomaly.anomalyType.replace(/_/g, ' ').replace(/\b\w/g, c => c.toUpperCase()),
-        severity: anomaly.severity as 'low' | 'medium' | 'high' | 'critical',
-        description: `Security anomaly detected: ${anomaly.anomalyType}`,
-        userId: anomaly.userId,
-        userEmail: anomaly.userEmail,
-        ipAddress: anomaly.ipAddress,
-        userAgent: anomaly.userAgent,
-        timestamp: new Date(),
-        details: anomaly.details,
-      }).catch(err => console.error('[AnomalyDetection] Failed to send alert:', err));
-    }
+    // Fire and forget - don't block on alert sending
+    sendSecurityAlert({
+      title: anomaly.anomalyType.replace(/_/g, ' ').replace(/\b\w/g, c => c.toUpperCase()),
+      severity: anomaly.severity as 'low' | 'medium' | 'high' | 'critical',
+      description: `Security anomaly detected: ${anomaly.anomalyType}`,
+      anomalyType: anomaly.anomalyType,
+      anomalyId: inserted?.id,
+      userId: anomaly.userId,
+      userEmail: anomaly.userEmail,
+      ipAddress: anomaly.ipAddress,
+      userAgent: anomaly.userAgent,
+      timestamp: new Date(),
+      details: anomaly.details,
+    }).catch(err => console.error('[AnomalyDetection] Failed to send alert:', err));
 
     return true;
   } catch (err) {
@@ -103,12 +113,30 @@ export async function logAnomaly(anomaly: AnomalyDetails): Promise<boolean> {
 
 /**
  * Track a failed login attempt and detect brute force patterns
+ * (per IP in memory, and per account in the database for lockouts)
  */
 export async function trackFailedLogin(
   email: string,
   ipAddress?: string,
   userAgent?: string
 ): Promise<void> {
+  // Per-account tracking survives IP rotation and restarts
+  const accountResult = await recordAccountFailure(email, ipAddress);
+  if (accountResult.lockedNow) {
+    await logAnomaly({
+      userEmail: email,
+      anomalyType: AnomalyTypes.ACCOUNT_LOCKED,
+      severity: SeverityLevels.HIGH,
+      ipAddress,
+      userAgent,
+      details: {
+        failedCount: accountResult.failedCount,
+        lockedUntil: accountResult.lockedUntil?.toISOString(),
+        message: 'Account temporarily locked after repeated failed logins',
+      },
+    });
+  }
+
   const key = ipAddress || 'unknown';
   const now = Date.now();
 
@@ -163,7 +191,7 @@ export function clearFailedLoginTracking(ipAddress?: string): void {
 }
 
 /**
- * Check for new device login
+ * Check for new device login (devices the user trusts never count as new)
  */
 export async function checkNewDevice(
   userId: string,
@@ -173,6 +201,10 @@ export async function checkNewDevice(
   userAgent?: string
 ): Promise<boolean> {
   try {
+    if (await isTrustedDevice(userId, deviceFingerprint)) {
+      return false;
+    }
+
     // Check if this device fingerprint has been seen before for this user
     const { data: existingSessions, error } = await supabaseAdmin
       .from('user_sessions')
@@ -375,32 +407,85 @@ export async function runLoginAnomalyChecks(
   return { anomaliesDetected };
 }
 
+export interface AnomalyRecord extends AnomalyDetails {
+  id: string;
+  createdAt: string;
+  acknowledgedAt: string | null;
+  acknowledgedBy: string | null;
+  acknowledgementNote: string | null;
+}
+
+export interface AnomalyFilters {
+  anomalyType?: string;
+  severity?: string;
+  userEmail?: string;
+  from?: Date;
+  to?: Date;
+  status?: 'open' | 'acknowledged' | 'all';
+  limit?: number;
+  offset?: number;
+  // Exports page through oldest first so new rows don't shift pages
+  oldestFirst?: boolean;
+}
+
+function mapAnomaly(a: any): AnomalyRecord {
+  return {
+    id: a.id,
+    userId: a.user_id,
+    userEmail: a.user_email,
+    anomalyType: a.anomaly_type,
+    severity: a.severity,
+    ipAddress: a.ip_address,
+    userAgent: a.user_agent,
+    details: a.details,
+    createdAt: a.created_at,
+    acknowledgedAt: a.acknowledged_at,
+    acknowledgedBy: a.acknowledged_by,
+    acknowledgementNote: a.acknowledgement_note || null,
+  };
+}
+
 /**
- * Get unacknowledged anomalies for admin dashboard
+ * List anomalies, newest first unless oldestFirst is set, with optional filters
  */
-export async function getUnacknowledgedAnomalies(limit: number = 50): Promise<AnomalyDetails[]> {
+export async function listAnomalies(filters: AnomalyFilters = {}): Promise<AnomalyRecord[]> {
   try {
-    const { data, error } = await supabaseAdmin
+    const offset = filters.offset || 0;
+    let query = supabaseAdmin
       .from('login_anomalies')
       .select('*')
-      .is('acknowledged_at', null)
-      .order('created_at', { ascending: false })
-      .limit(limit);
+      .order('created_at', { ascending: !!filters.oldestFirst })
+      .range(offset, offset + (filters.limit || 50) - 1);
+
+    if (filters.anomalyType) {
+      query = query.eq('anomaly_type', filters.anomalyType);
+    }
+    if (filters.severity) {
+      query = query.eq('severity', filters.severity);
+    }
+    if (filters.userEmail) {
+      query = query.ilike('user_email', `%${filters.userEmail}%`);
+    }
+    if (filters.from) {
+      query = query.gte('created_at', filters.from.toISOString());
+    }
+    if (filters.to) {
+      query = query.lte('created_at', filters.to.toISOString());
+    }
+    if (filters.status === 'open') {
+      query = query.is('acknowledged_at', null);
+    } else if (filters.status === 'acknowledged') {
+      query = query.not('acknowledged_at', 'is', null);
+    }
+
+    const { data, error } = await query;
 
     if (error) {
       console.error('[AnomalyDetection] Error fetching anomalies:', error);
       return [];
     }
 
-    return data.map(a => ({
-      userId: a.user_id,
-      userEmail: a.user_email,
-      anomalyType: a.anomaly_type,
-      severity: a.severity,
-      ipAddress: a.ip_address,
-      userAgent: a.user_agent,
-      details: a.details,
-    }));
+    return (data || []).map(mapAnomaly);
   } catch (err) {
     console.error('[AnomalyDetection] Exception fetching anomalies:', err);
     return [];
@@ -408,11 +493,84 @@ export async function getUnacknowledgedAnomalies(limit: number = 50): Promise<An
 }
 
 /**
- * Acknowledge an anomaly
+ * Get unacknowledged anomalies for admin dashboard
+ */
+export async function getUnacknowledgedAnomalies(limit: number = 50): Promise<AnomalyRecord[]> {
+  return listAnomalies({ status: 'open', limit });
+}
+
+/**
+ * Count critical anomalies nobody has acknowledged yet
+ */
+export async function countCriticalUnacknowledgedAnomalies(): Promise<number> {
+  try {
+    const { count, error } = await supabaseAdmin
+      .from('login_anomalies')
+      .select('id', { count: 'exact', head: true })
+      .eq('severity', SeverityLevels.CRITICAL)
+      .is('acknowledged_at', null);
+
+    if (error) {
+      console.error('[AnomalyDetection] Error counting critical anomalies:', error);
+      return 0;
+    }
+
+    return count || 0;
+  } catch (err) {
+    console.error('[AnomalyDetection] Exception counting critical anomalies:', err);
+    return 0;
+  }
+}
+
+/**
+ * Count anomalies per type for each UTC day in the last `days` days
+ */
+export async function getAnomalyCountsByDay(
+  days: number = 14
+): Promise<Array<{ date: string; counts: Record<string, number> }>> {
+  const start = new Date();
+  start.setUTCHours(0, 0, 0, 0);
+  start.setUTCDate(start.getUTCDate() - (days - 1));
+
+  // Pre-fill every day and type so gaps show as zero
+  const buckets = new Map<string, Record<string, number>>();
+  for (let i = 0; i < days; i++) {
+    const day = new Date(start.getTime() + i * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    buckets.set(day, Object.fromEntries(Object.values(AnomalyTypes).map(type => [type, 0])));
+  }
+
+  try {
+    // Grouped in the database (login_anomaly_daily_counts) so counts aren't capped by row limits
+    const { data, error } = await supabaseAdmin.rpc('login_anomaly_daily_counts', {
+      p_since: start.toISOString(),
+    });
+
+    if (error) {
+      console.error('[AnomalyDetection] Error fetching anomaly counts:', error);
+    }
+
+    ((data || []) as Array<{ day: string; counts: Record<string, number> }>).forEach(row => {
+      const bucket = buckets.get(row.day);
+      if (bucket) {
+        for (const [type, count] of Object.entries(row.counts || {})) {
+          bucket[type] = Number(count);
+        }
+      }
+    });
+  } catch (err) {
+    console.error('[AnomalyDetection] Exception fetching anomaly counts:', err);
+  }
+
+  return Array.from(buckets.entries()).map(([date, counts]) => ({ date, counts }));
+}
+
+/**
+ * Acknowledge an anomaly, optionally with a note on what was done
  */
 export async function acknowledgeAnomaly(
   anomalyId: string,
-  acknowledgedBy: string
+  acknowledgedBy: string,
+  note?: string
 ): Promise<boolean> {
   try {
     const { error } = await supabaseAdmin
@@ -420,6 +578,7 @@ export async function acknowledgeAnomaly(
       .update({
         acknowledged_at: new Date().toISOString(),
         acknowledged_by: acknowledgedBy,
+        acknowledgement_note: note || null,
       })
       .eq('id', anomalyId);
 
@@ -0,0 +1,47 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("./supabaseAuth", () => ({ supabaseAdmin: {} }));
+vi.mock("./rbac", () => ({ invalidateUserAccess: vi.fn() }));
+
+import {
+  apiKeyAllows,
+  authenticateApiKey,
+  generateApiKey,
+  hashApiKey,
+  parseApiKeyScope,
+} from "./apiKeys";
+
+describe("API keys", () => {
+  it("allows queries on read scopes and mutations only on write scopes", () => {
+    const scopes = [
+      { namespace: "places", access: "read" as const },
+      { namespace: "articles", access: "write" as const },
+    ];
+    expect(apiKeyAllows(scopes, "places.getAll", "query")).toBe(true);
+    expect(apiKeyAllows(scopes, "places.update", "mutation")).toBe(false);
+    expect(apiKeyAllows(scopes, "articles.update", "mutation")).toBe(true);
+    expect(apiKeyAllows(scopes, "users.getAll", "query")).toBe(false);
+  });
+
+  it("never allows blocked namespaces, even with a wildcard scope", () => {
+    const scopes = [{ namespace: "*", access: "write" as const }];
+    expect(apiKeyAllows(scopes, "cities.delete", "mutation")).toBe(true);
+    expect(apiKeyAllows(scopes, "auth.me", "query")).toBe(false);
+    expect(apiKeyAllows(scopes, "apiKeys.create", "mutation")).toBe(false);
+  });
+
+  it("parses stored scopes", () => {
+    expect(parseApiKeyScope("places:read")).toEqual({ namespace: "places", access: "read" });
+    expect(parseApiKeyScope("places:admin")).toBeNull();
+  });
+
+  it("generates keys whose hash is stored, not the key", async () => {
+    const { key, prefix, hash } = generateApiKey();
+    expect(key).toMatch(/^tvk_[0-9a-f]{12}_[A-Za-z0-9_-]{43}$/);
+    expect(key.slice(4, 16)).toBe(prefix);
+    expect(hash).toBe(hashApiKey(key));
+    expect(hash).not.toContain(key.slice(17));
+    // Malformed keys are rejected before any lookup
+    await expect(authenticateApiKey("not-a-key")).resolves.toBeNull();
+  });
+});
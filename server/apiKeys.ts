@@ -0,0 +1,489 @@
+/**
+ * API Keys Module
+ *
+ * Long-lived credentials for scripts and partner integrations. Keys belong to
+ * a service account: an auth user with no password whose portal role (in
+ * user_roles) decides what it may do, exactly like a person. Each key further
+ * limits that access to a list of router namespaces, read-only or read-write,
+ * and expires on a fixed date.
+ *
+ * Keys are shown once at creation and stored only as a SHA-256 hash; the
+ * short prefix is kept in clear for lookup and display. Requests send the key
+ * as "Authorization: Bearer tvk_...". Usage is counted per key and day via the
+ * api_key_record_usage function, and each key has its own rate limit.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import type { Request, Response } from "express";
+import { supabaseAdmin } from "./supabaseAuth";
+import { invalidateUserAccess } from "./rbac";
+import { checkRateLimit, getRateLimitClientIp, setRateLimitHeaders } from "./rateLimit";
+
+export const API_KEY_PREFIX = 'tvk_';
+
+export const ApiKeyAccess = {
+  READ: 'read',
+  WRITE: 'write',
+} as const;
+
+export type ApiKeyAccessLevel = typeof ApiKeyAccess[keyof typeof ApiKeyAccess];
+
+export interface ApiKeyScope {
+  namespace: string; // Router namespace, e.g. "places", or "*" for all
+  access: ApiKeyAccessLevel; // "write" includes read
+}
+
+// Credential and access management is never available to API keys
+export const API_KEY_BLOCKED_NAMESPACES: ReadonlySet<string> = new Set([
+  'auth',
+  'twoFactor',
+  'sessions',
+  'impersonation',
+  'roleElevation',
+  'apiKeys',
+]);
+
+export const API_KEY_MAX_DAYS = 365;
+export const API_KEY_DEFAULT_RATE_LIMIT = 120; // Requests per minute
+
+// Verified keys are reused briefly; revocation on another instance applies within this window
+const API_KEY_CACHE_TTL_MS = 30 * 1000;
+
+// Service account users get an address that can never receive mail
+const SERVICE_ACCOUNT_EMAIL_DOMAIN = 'service-accounts.tavvy.invalid';
+
+export function serviceAccountEmail(name: string): string {
+  return `${name}@${SERVICE_ACCOUNT_EMAIL_DOMAIN}`;
+}
+
+export interface ServiceAccount {
+  id: string;
+  userId: string;
+  name: string;
+  description: string | null;
+  role: string;
+  createdBy: string | null;
+  createdAt: Date;
+  disabledAt: Date | null;
+}
+
+export interface ApiKey {
+  id: string;
+  serviceAccountId: string;
+  serviceAccountName: string | null;
+  name: string;
+  keyPrefix: string;
+  scopes: ApiKeyScope[];
+  rateLimitPerMinute: number;
+  expiresAt: Date;
+  createdBy: string | null;
+  createdAt: Date;
+  revokedAt: Date | null;
+  revokedBy: string | null;
+  lastUsedAt: Date | null;
+  lastUsedIp: string | null;
+  usageCount: number;
+}
+
+// What createContext attaches to requests authenticated by a key
+export interface ApiKeyContext {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  scopes: ApiKeyScope[];
+  rateLimitPerMinute: number;
+  serviceAccountId: string;
+  serviceAccountName: string;
+  userId: string;
+}
+
+/**
+ * Parse a stored scope such as "places:read" or "*:write"
+ */
+export function parseApiKeyScope(value: string): ApiKeyScope | null {
+  const [namespace, access] = value.split(':');
+  if (!namespace || (access !== ApiKeyAccess.READ && access !== ApiKeyAccess.WRITE)) return null;
+  return { namespace, access };
+}
+
+export function formatApiKeyScope(scope: ApiKeyScope): string {
+  return `${scope.namespace}:${scope.access}`;
+}
+
+/**
+ * Whether the key's scopes allow a tRPC call. Queries need read access to the
+ * procedure's namespace; mutations need write access.
+ */
+export function apiKeyAllows(scopes: ApiKeyScope[], path: string, type: string): boolean {
+  const namespace = path.split('.')[0];
+  if (API_KEY_BLOCKED_NAMESPACES.has(namespace)) return false;
+
+  const needsWrite = type === 'mutation';
+  return scopes.some(scope =>
+    (scope.namespace === '*' || scope.namespace === namespace) &&
+    (!needsWrite || scope.access === ApiKeyAccess.WRITE)
+  );
+}
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * New random key: tvk_<12 hex prefix>_<43 char secret>
+ */
+export function generateApiKey(): { key: string; prefix: string; hash: string } {
+  const prefix = randomBytes(6).toString('hex');
+  const key = `${API_KEY_PREFIX}${prefix}_${randomBytes(32).toString('base64url')}`;
+  return { key, prefix, hash: hashApiKey(key) };
+}
+
+function mapServiceAccount(row: any): ServiceAccount {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    name: row.name,
+    description: row.description,
+    role: row.role,
+    createdBy: row.created_by,
+    createdAt: new Date(row.created_at),
+    disabledAt: row.disabled_at ? new Date(row.disabled_at) : null,
+  };
+}
+
+function mapApiKey(row: any): ApiKey {
+  return {
+    id: row.id,
+    serviceAccountId: row.service_account_id,
+    serviceAccountName: row.service_accounts?.name ?? null,
+    name: row.name,
+    keyPrefix: row.key_prefix,
+    scopes: (row.scopes || []).map(parseApiKeyScope).filter(Boolean) as ApiKeyScope[],
+    rateLimitPerMinute: row.rate_limit_per_minute,
+    expiresAt: new Date(row.expires_at),
+    createdBy: row.created_by,
+    createdAt: new Date(row.created_at),
+    revokedAt: row.revoked_at ? new Date(row.revoked_at) : null,
+    revokedBy: row.revoked_by,
+    lastUsedAt: row.last_used_at ? new Date(row.last_used_at) : null,
+    lastUsedIp: row.last_used_ip,
+    usageCount: Number(row.usage_count || 0),
+  };
+}
+
+// ============ SERVICE ACCOUNTS ============
+
+/**
+ * Create a service account: a password-less auth user holding one portal role
+ */
+export async function createServiceAccount(params: {
+  name: string;
+  description?: string | null;
+  role: string;
+  createdBy: string;
+}): Promise<ServiceAccount | null> {
+  try {
+    const { data: created, error: userError } = await supabaseAdmin.auth.admin.createUser({
+      email: serviceAccountEmail(params.name),
+      email_confirm: true,
+      app_metadata: { service_account: true },
+      user_metadata: { full_name: `Service account: ${params.name}` },
+    });
+
+    if (userError || !created.user) {
+      console.error('[ApiKeys] Failed to create service account user:', userError);
+      return null;
+    }
+
+    const userId = created.user.id;
+    const { data, error } = await supabaseAdmin
+      .from('service_accounts')
+      .insert({
+        user_id: userId,
+        name: params.name,
+        description: params.description || null,
+        role: params.role,
+        created_by: params.createdBy,
+      })
+      .select('*')
+      .single();
+
+    if (error || !data) {
+      console.error('[ApiKeys] Failed to record service account:', error);
+      await supabaseAdmin.auth.admin.deleteUser(userId);
+      return null;
+    }
+
+    const { error: roleError } = await supabaseAdmin
+      .from('user_roles')
+      .insert({ user_id: userId, role: params.role, granted_by: params.createdBy, granted_at: new Date().toISOString() });
+    if (roleError) {
+      console.error('[ApiKeys] Failed to grant service account role:', roleError);
+    }
+    invalidateUserAccess(userId);
+
+    return mapServiceAccount(data);
+  } catch (err) {
+    console.error('[ApiKeys] Exception creating service account:', err);
+    return null;
+  }
+}
+
+export async function listServiceAccounts(): Promise<ServiceAccount[]> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('service_accounts')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('[ApiKeys] Failed to list service accounts:', error);
+      return [];
+    }
+    return (data || []).map(mapServiceAccount);
+  } catch (err) {
+    console.error('[ApiKeys] Exception listing service accounts:', err);
+    return [];
+  }
+}
+
+export async function getServiceAccount(id: string): Promise<ServiceAccount | null> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('service_accounts')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error || !data) return null;
+    return mapServiceAccount(data);
+  } catch (err) {
+    console.error('[ApiKeys] Exception loading service account:', err);
+    return null;
+  }
+}
+
+/**
+ * Disable or re-enable a service account. Disabled accounts' keys stop working.
+ */
+export async function setServiceAccountDisabled(id: string, disabled: boolean): Promise<boolean> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('service_accounts')
+      .update({ disabled_at: disabled ? new Date().toISOString() : null })
+      .eq('id', id)
+      .select('id');
+
+    if (error) {
+      console.error('[ApiKeys] Failed to update service account:', error);
+      return false;
+    }
+    keyCache.clear();
+    return !!data && data.length > 0;
+  } catch (err) {
+    console.error('[ApiKeys] Exception updating service account:', err);
+    return false;
+  }
+}
+
+// ============ KEYS ============
+
+/**
+ * Issue a key. The plaintext key is only returned here.
+ */
+export async function createApiKey(params: {
+  serviceAccountId: string;
+  name: string;
+  scopes: ApiKeyScope[];
+  expiresAt: Date;
+  rateLimitPerMinute?: number;
+  createdBy: string;
+}): Promise<{ apiKey: ApiKey; key: string } | null> {
+  try {
+    const { key, prefix, hash } = generateApiKey();
+    const { data, error } = await supabaseAdmin
+      .from('api_keys')
+      .insert({
+        service_account_id: params.serviceAccountId,
+        name: params.name,
+        key_prefix: prefix,
+        key_hash: hash,
+        scopes: params.scopes.map(formatApiKeyScope),
+        rate_limit_per_minute: params.rateLimitPerMinute ?? API_KEY_DEFAULT_RATE_LIMIT,
+        expires_at: params.expiresAt.toISOString(),
+        created_by: params.createdBy,
+      })
+      .select('*, service_accounts(name)')
+      .single();
+
+    if (error || !data) {
+      console.error('[ApiKeys] Failed to create key:', error);
+      return null;
+    }
+    return { apiKey: mapApiKey(data), key };
+  } catch (err) {
+    console.error('[ApiKeys] Exception creating key:', err);
+    return null;
+  }
+}
+
+export async function listApiKeys(serviceAccountId?: string): Promise<ApiKey[]> {
+  try {
+    let query = supabaseAdmin
+      .from('api_keys')
+      .select('*, service_accounts(name)')
+      .order('created_at', { ascending: false });
+
+    if (serviceAccountId) query = query.eq('service_account_id', serviceAccountId);
+
+    const { data, error } = await query;
+    if (error) {
+      console.error('[ApiKeys] Failed to list keys:', error);
+      return [];
+    }
+    return (data || []).map(mapApiKey);
+  } catch (err) {
+    console.error('[ApiKeys] Exception listing keys:', err);
+    return [];
+  }
+}
+
+/**
+ * Revoke a key immediately on this instance (others within the cache window)
+ */
+export async function revokeApiKey(id: string, revokedBy: string): Promise<ApiKey | null> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('api_keys')
+      .update({ revoked_at: new Date().toISOString(), revoked_by: revokedBy })
+      .eq('id', id)
+      .is('revoked_at', null)
+      .select('*, service_accounts(name)')
+      .maybeSingle();
+
+    if (error || !data) {
+      if (error) console.error('[ApiKeys] Failed to revoke key:', error);
+      return null;
+    }
+    keyCache.delete(data.key_prefix);
+    return mapApiKey(data);
+  } catch (err) {
+    console.error('[ApiKeys] Exception revoking key:', err);
+    return null;
+  }
+}
+
+/**
+ * Daily request counts for a key, oldest first
+ */
+export async function getApiKeyUsage(id: string, days = 30): Promise<{ day: string; requestCount: number }[]> {
+  try {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    const { data, error } = await supabaseAdmin
+      .from('api_key_usage_daily')
+      .select('day, request_count')
+      .eq('api_key_id', id)
+      .gte('day', since)
+      .order('day', { ascending: true });
+
+    if (error) {
+      console.error('[ApiKeys] Failed to load usage:', error);
+      return [];
+    }
+    return (data || []).map(row => ({ day: row.day, requestCount: Number(row.request_count) }));
+  } catch (err) {
+    console.error('[ApiKeys] Exception loading usage:', err);
+    return [];
+  }
+}
+
+// ============ AUTHENTICATION ============
+
+const keyCache = new Map<string, { hash: string; context: ApiKeyContext | null; timestamp: number }>();
+
+/**
+ * Resolve a presented key to its context, or null when it is unknown,
+ * revoked, expired or its service account is disabled
+ */
+export async function authenticateApiKey(key: string): Promise<ApiKeyContext | null> {
+  const match = /^tvk_([0-9a-f]{12})_[A-Za-z0-9_-]{43}$/.exec(key);
+  if (!match) return null;
+
+  const prefix = match[1];
+  const hash = hashApiKey(key);
+  const cached = keyCache.get(prefix);
+  if (cached && cached.hash === hash && (Date.now() - cached.timestamp) < API_KEY_CACHE_TTL_MS) {
+    return cached.context;
+  }
+
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('api_keys')
+      .select('*, service_accounts(id, user_id, name, disabled_at)')
+      .eq('key_prefix', prefix)
+      .maybeSingle();
+
+    if (error) {
+      console.error('[ApiKeys] Failed to look up key:', error);
+      return null;
+    }
+
+    let context: ApiKeyContext | null = null;
+    const account = data?.service_accounts;
+    const valid = !!data && !!account &&
+      timingSafeEqual(Buffer.from(data.key_hash, 'hex'), Buffer.from(hash, 'hex')) &&
+      !data.revoked_at &&
+      new Date(data.expires_at).getTime() > Date.now() &&
+      !account.disabled_at;
+
+    if (valid) {
+      const apiKey = mapApiKey(data);
+      context = {
+        id: apiKey.id,
+        name: apiKey.name,
+        keyPrefix: apiKey.keyPrefix,
+        scopes: apiKey.scopes,
+        rateLimitPerMinute: apiKey.rateLimitPerMinute,
+        serviceAccountId: account.id,
+        serviceAccountName: account.name,
+        userId: account.user_id,
+      };
+    }
+
+    keyCache.set(prefix, { hash, context, timestamp: Date.now() });
+    return context;
+  } catch (err) {
+    console.error('[ApiKeys] Exception authenticating key:', err);
+    return null;
+  }
+}
+
+/**
+ * Count one request against the key (fire-and-forget)
+ */
+export function recordApiKeyUsage(keyId: string, ipAddress: string): void {
+  Promise.resolve(
+    supabaseAdmin.rpc('api_key_record_usage', { p_key_id: keyId, p_ip: ipAddress })
+  )
+    .then(({ error }) => {
+      if (error) console.error('[ApiKeys] Failed to record usage:', error);
+    })
+    .catch(err => console.error('[ApiKeys] Exception recording usage:', err));
+}
+
+/**
+ * Apply the key's own per-minute rate limit and count the request towards its
+ * usage. Returns false when the key is over its limit.
+ */
+export async function meterApiKeyRequest(apiKey: ApiKeyContext, req: Request, res: Response): Promise<boolean> {
+  const result = await checkRateLimit('apikey', apiKey.id, {
+    windowMs: 60 * 1000,
+    max: apiKey.rateLimitPerMinute,
+    by: 'api_key',
+  });
+  setRateLimitHeaders(res, result);
+  if (!result.allowed) return false;
+
+  recordApiKeyUsage(apiKey.id, getRateLimitClientIp(req));
+  return true;
+}
@@ -0,0 +1,147 @@
+import { createHash } from "crypto";
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("./supabaseAuth", () => ({ supabaseAdmin: {} }));
+
+import {
+  AUDIT_CHAIN_GENESIS_HASH,
+  buildAuditArchiveBoundary,
+  canonicalJson,
+  checkAuditArchiveBoundary,
+  checkAuditAnchor,
+  checkAuditChainLink,
+  computeAuditContentHash,
+  computeAuditEntryHash,
+  signAuditAnchor,
+  type AuditChainRow,
+} from "./auditLog";
+
+// Entries written by audit_log_append: keyed content hash, linked by the database
+function buildChain(count: number, legacy = false): AuditChainRow[] {
+  const rows: AuditChainRow[] = [];
+  let prevHash = AUDIT_CHAIN_GENESIS_HASH;
+  for (let i = 1; i <= count; i++) {
+    const row: AuditChainRow = {
+      id: `row-${i}`,
+      chain_seq: i,
+      prev_hash: prevHash,
+      user_id: "user-1",
+      user_email: "admin@example.com",
+      action: "role_granted",
+      resource_type: "user_roles",
+      resource_id: `grant-${i}`,
+      details: { role: "moderator", nested: { b: 2, a: 1 } },
+      ip_address: "203.0.113.7",
+      user_agent: "vitest",
+      success: true,
+      error_message: null,
+      created_at: new Date(Date.UTC(2026, 0, 1, 0, i)).toISOString(),
+    };
+    if (!legacy) row.content_hash = computeAuditContentHash(row, "test-key");
+    row.entry_hash = computeAuditEntryHash(row, "test-key");
+    prevHash = row.entry_hash;
+    rows.push(row);
+  }
+  return rows;
+}
+
+// Walks rows the way verifyAuditChain does, from the genesis entry or an archive boundary
+function verify(rows: AuditChainRow[], from: { seq: number; hash: string } | null = null) {
+  process.env.AUDIT_LOG_HMAC_KEY = "test-key";
+  let previous = from;
+  for (const row of rows) {
+    const reason = checkAuditChainLink(row, previous);
+    if (reason) return { seq: row.chain_seq, reason };
+    previous = { seq: row.chain_seq, hash: row.entry_hash as string };
+  }
+  return null;
+}
+
+describe("audit log hash chain", () => {
+  it("sorts keys so jsonb key order doesn't change the hash", () => {
+    expect(canonicalJson({ b: 1, a: { d: [1, { f: 1, e: 2 }], c: undefined } })).toBe(
+      '{"a":{"d":[1,{"e":2,"f":1}]},"b":1}'
+    );
+  });
+
+  it("hashes the timestamp regardless of Postgres formatting", () => {
+    const [row] = buildChain(1);
+    const fromDb = { ...row, created_at: row.created_at.replace("T", " ").replace("Z", "+00:00") };
+    expect(computeAuditEntryHash(fromDb, "test-key")).toBe(row.entry_hash);
+  });
+
+  it("accepts an intact chain", () => {
+    expect(verify(buildChain(5))).toBeNull();
+  });
+
+  it("still verifies entries written before audit_log_append", () => {
+    const rows = buildChain(3, true);
+    expect(verify(rows)).toBeNull();
+    rows[1] = { ...rows[1], action: "role_revoked" };
+    expect(verify(rows)).toEqual({ seq: 2, reason: "hash_mismatch" });
+  });
+
+  it("links new entries the way audit_log_append does", () => {
+    const [row] = buildChain(1);
+    const expected = createHash("sha256").update(`1:${AUDIT_CHAIN_GENESIS_HASH}:${row.content_hash}`).digest("hex");
+    expect(row.entry_hash).toBe(expected);
+  });
+
+  it("reports edited entries", () => {
+    const rows = buildChain(5);
+    rows[2] = { ...rows[2], details: { role: "super_admin" } };
+    expect(verify(rows)).toEqual({ seq: 3, reason: "hash_mismatch" });
+  });
+
+  it("reports deleted entries", () => {
+    const rows = buildChain(5);
+    rows.splice(1, 1);
+    expect(verify(rows)).toEqual({ seq: 3, reason: "missing_entries" });
+  });
+
+  it("reports entries relinked after a deletion", () => {
+    const rows = buildChain(5);
+    const forged = { ...rows[3], prev_hash: "f".repeat(64) };
+    forged.entry_hash = computeAuditEntryHash(forged, "test-key");
+    rows[3] = forged;
+    expect(verify(rows)).toEqual({ seq: 4, reason: "prev_hash_mismatch" });
+  });
+
+  it("rejects a chain rebuilt after an edit when it no longer matches an anchor", () => {
+    process.env.AUDIT_LOG_HMAC_KEY = "test-key";
+    const rows = buildChain(3);
+    const anchor = { chain_seq: 3, entry_hash: rows[2].entry_hash as string, signature: signAuditAnchor(3, rows[2].entry_hash as string) };
+    expect(checkAuditAnchor(rows[2], anchor)).toBeNull();
+
+    // Without the key the attacker can relink, but not re-sign the anchor
+    const relinked = { ...rows[2], prev_hash: "f".repeat(64) };
+    relinked.entry_hash = computeAuditEntryHash(relinked);
+    expect(checkAuditAnchor(relinked, anchor)).toBe("anchor_mismatch");
+    expect(checkAuditAnchor(relinked, { ...anchor, entry_hash: relinked.entry_hash })).toBe("anchor_mismatch");
+  });
+
+  it("anchors the first entry to the genesis hash and reports a missing start", () => {
+    const rows = buildChain(5);
+    expect(verify([{ ...rows[0], prev_hash: "a".repeat(64) }])).toEqual({ seq: 1, reason: "prev_hash_mismatch" });
+    expect(verify(rows.slice(2))).toEqual({ seq: 3, reason: "missing_entries" });
+  });
+
+  it("still verifies after retention archived the oldest entries", () => {
+    process.env.AUDIT_LOG_HMAC_KEY = "test-key";
+    const rows = buildChain(8);
+    // Retention archives a prefix, with an unchained legacy row, and records its last entry
+    const archived = [{ chain_seq: null, entry_hash: null }, ...rows.slice(0, 5)];
+    const boundary = buildAuditArchiveBoundary(archived);
+    expect(boundary).toMatchObject({ last_chain_seq: 5, last_entry_hash: rows[4].entry_hash });
+
+    expect(checkAuditArchiveBoundary(boundary!)).toBeNull();
+    const from = { seq: boundary!.last_chain_seq, hash: boundary!.last_entry_hash };
+    expect(verify(rows.slice(5), from)).toBeNull();
+    // Deleting more than was archived is still caught
+    expect(verify(rows.slice(6), from)).toEqual({ seq: 7, reason: "missing_entries" });
+    // A boundary forged without the key is refused
+    expect(checkAuditArchiveBoundary({ ...boundary!, last_chain_seq: 6, last_entry_hash: rows[5].entry_hash as string })).toBe(
+      "anchor_mismatch"
+    );
+  });
+});
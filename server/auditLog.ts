@@ -3,8 +3,17 @@
  * 
  * Provides centralized audit logging for sensitive operations.
  * All logs are stored in the audit_log table in Supabase.
+ *
+ * Entries form a hash chain: each row stores its sequence number, the hash of
+ * the previous entry and a hash of its own content (HMAC-SHA256 when
+ * AUDIT_LOG_HMAC_KEY is set). Sequence numbers are assigned by the
+ * audit_log_append database function under a row lock on the chain head, and
+ * the head is periodically anchored (signed with the same key) so truncating
+ * the log is detected too. Editing or deleting a row breaks the chain, which
+ * verifyAuditChain() detects.
  */
 
+import { createHash, createHmac } from "crypto";
 import { supabaseAdmin } from "./supabaseAuth";
 
 export interface AuditLogEntry {
@@ -26,10 +35,49 @@ export const AuditActions = {
   LOGIN_SUCCESS: 'login_success',
   LOGIN_FAILED: 'login_failed',
   LOGOUT: 'logout',
+  SIGNUP: 'signup',
+  PASSWORD_CHANGED: 'password_changed',
+  STEP_UP_VERIFIED: 'step_up_verified',
+  TWO_FACTOR_ENABLED: 'two_factor_enabled',
+  TWO_FACTOR_DISABLED: 'two_factor_disabled',
+  RECOVERY_CODES_REGENERATED: 'recovery_codes_regenerated',
+  PASSKEY_REGISTERED: 'passkey_registered',
+  PASSKEY_REMOVED: 'passkey_removed',
+  TRUSTED_DEVICE_ADDED: 'trusted_device_added',
+  TRUSTED_DEVICE_REMOVED: 'trusted_device_removed',
+  NEW_DEVICE_CONFIRMED: 'new_device_confirmed',
+  NEW_DEVICE_DENIED: 'new_device_denied',
+  SSO_USER_PROVISIONED: 'sso_user_provisioned',
+  SSO_ACCOUNT_LINKED: 'sso_account_linked',
+  SESSION_REVOKED: 'session_revoked',
+  ACCOUNT_UNLOCKED: 'account_unlocked',
+  ACCOUNT_FROZEN: 'account_frozen',
+  ACCOUNT_UNFROZEN: 'account_unfrozen',
+  ANOMALY_ACKNOWLEDGED: 'anomaly_acknowledged',
+  IMPERSONATION_STARTED: 'impersonation_started',
+  IMPERSONATION_ENDED: 'impersonation_ended',
+  IMPERSONATED_REQUEST: 'impersonated_request',
+
+  // Recorded for every tRPC mutation by the audit middleware
+  API_MUTATION: 'api_mutation',
   
+  // Four-eyes approval of high-impact operations
+  OPERATION_APPROVAL_REQUESTED: 'operation_approval_requested',
+  OPERATION_APPROVED: 'operation_approved',
+  OPERATION_REJECTED: 'operation_rejected',
+  OPERATION_CANCELLED: 'operation_cancelled',
+  OPERATION_EXPIRED: 'operation_expired',
+  OPERATION_EXECUTED: 'operation_executed',
+
   // Role management
   ROLE_GRANTED: 'role_granted',
   ROLE_REVOKED: 'role_revoked',
+  ROLE_ELEVATION_REQUESTED: 'role_elevation_requested',
+  ROLE_ELEVATION_DENIED: 'role_elevation_denied',
+  ROLE_ELEVATION_CANCELLED: 'role_elevation_cancelled',
+  INVITATION_CREATED: 'invitation_created',
+  INVITATION_REVOKED: 'invitation_revoked',
+  INVITATION_ACCEPTED: 'invitation_accepted',
   
   // Content moderation
   CONTENT_APPROVED: 'content_approved',
@@ -45,9 +93,20 @@ export const AuditActions = {
   BULK_IMPORT: 'bulk_import',
   BULK_DELETE: 'bulk_delete',
   DATA_EXPORT: 'data_export',
+  DATA_ARCHIVED: 'data_archived',
   
   // Settings changes
   SETTINGS_UPDATED: 'settings_updated',
+
+  // Scheduled jobs
+  JOB_TRIGGERED: 'job_triggered',
+
+  // Service accounts & API keys
+  SERVICE_ACCOUNT_CREATED: 'service_account_created',
+  SERVICE_ACCOUNT_DISABLED: 'service_account_disabled',
+  SERVICE_ACCOUNT_ENABLED: 'service_account_enabled',
+  API_KEY_CREATED: 'api_key_created',
+  API_KEY_REVOKED: 'api_key_revoked',
   
   // Place management
   PLACE_CREATED: 'place_created',
@@ -64,14 +123,293 @@ export const AuditActions = {
 export const ResourceTypes = {
   USER: 'user',
   ROLE: 'user_roles',
+  ROLE_ELEVATION: 'role_elevation_request',
+  SESSION: 'user_session',
+  ANOMALY: 'login_anomaly',
   PLACE: 'place',
   REVIEW: 'review',
   ARTICLE: 'article',
   CONTENT_FLAG: 'content_flag',
   SETTINGS: 'settings',
   SUBSCRIPTION: 'subscription',
+  PROCEDURE: 'trpc_procedure',
+  AUDIT_LOG: 'audit_log',
+  SCHEDULED_JOB: 'scheduled_job',
+  SERVICE_ACCOUNT: 'service_account',
+  API_KEY: 'api_key',
+  INVITATION: 'admin_invitation',
+  PENDING_OPERATION: 'pending_operation',
 } as const;
 
+// ============ HASH CHAIN ============
+
+// prev_hash of the very first chained entry
+export const AUDIT_CHAIN_GENESIS_HASH = '0'.repeat(64);
+
+
+// Columns covered by entry_hash, as stored in audit_log
+export interface AuditChainRow {
+  id?: string;
+  chain_seq: number;
+  prev_hash: string;
+  entry_hash?: string;
+  // Keyed hash of the entry's own content; null for entries written before audit_log_append
+  content_hash?: string | null;
+  user_id: string | null;
+  user_email: string | null;
+  action: string;
+  resource_type: string;
+  resource_id: string | null;
+  details: Record<string, unknown> | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  success: boolean;
+  error_message: string | null;
+  created_at: string;
+}
+
+export type AuditChainBreak =
+  | 'missing_entries'
+  | 'prev_hash_mismatch'
+  | 'hash_mismatch'
+  | 'anchor_mismatch'
+  | 'truncated';
+
+export interface AuditChainAnchor {
+  chain_seq: number;
+  entry_hash: string;
+  signature: string;
+  created_at?: string;
+}
+
+// Where retention cut the chain: its last archived entry, recorded in data_archives
+export interface AuditArchiveBoundary {
+  last_chain_seq: number;
+  last_entry_hash: string;
+  chain_signature: string;
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  checked: number;
+  firstSeq: number | null;
+  lastSeq: number | null;
+  // Rows written before the chain existed
+  unchainedEntries: number;
+  // Entries up to this sequence number were archived by retention
+  archivedThroughSeq: number | null;
+  // Anchored heads matched against the chain
+  anchorsChecked: number;
+  // False when AUDIT_LOG_HMAC_KEY is unset, so hashes could be recomputed by anyone
+  keyed: boolean;
+  brokenAt: {
+    seq: number;
+    id: string | null;
+    createdAt: string | null;
+    reason: AuditChainBreak;
+  } | null;
+}
+
+/**
+ * JSON with object keys sorted, so the hash doesn't depend on jsonb key order
+ */
+export function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(v => canonicalJson(v === undefined ? null : v)).join(',')}]`;
+  }
+  const entries = Object.keys(value as Record<string, unknown>)
+    .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+  return `{${entries.join(',')}}`;
+}
+
+let missingKeyWarned = false;
+
+/**
+ * Key for the chain hashes and anchors. Without it anyone with database access
+ * can rewrite entries and recompute the chain, so production logs it loudly.
+ */
+function getAuditHmacKey(): string | undefined {
+  const key = process.env.AUDIT_LOG_HMAC_KEY;
+  if (!key && process.env.NODE_ENV === 'production' && !missingKeyWarned) {
+    missingKeyWarned = true;
+    console.error('[AuditLog] AUDIT_LOG_HMAC_KEY is not set: audit log hashes are unkeyed and tampering cannot be proven. Set it before relying on the audit trail.');
+  }
+  return key;
+}
+
+function hashAuditPayload(payload: string, key: string | undefined): string {
+  return key
+    ? createHmac('sha256', key).update(payload).digest('hex')
+    : createHash('sha256').update(payload).digest('hex');
+}
+
+function auditContentPayload(row: AuditChainRow): Record<string, unknown> {
+  return {
+    userId: row.user_id,
+    userEmail: row.user_email,
+    action: row.action,
+    resourceType: row.resource_type,
+    resourceId: row.resource_id,
+    // Round-trip through JSON so Dates etc. hash the way jsonb stores them
+    details: JSON.parse(JSON.stringify(row.details ?? {})),
+    ipAddress: row.ip_address,
+    userAgent: row.user_agent,
+    success: row.success,
+    errorMessage: row.error_message,
+    // Postgres returns timestamptz in its own format
+    createdAt: new Date(row.created_at).toISOString(),
+  };
+}
+
+/**
+ * Hash an entry's own content (everything except its place in the chain)
+ */
+export function computeAuditContentHash(
+  row: AuditChainRow,
+  key: string | undefined = getAuditHmacKey()
+): string {
+  return hashAuditPayload(canonicalJson(auditContentPayload(row)), key);
+}
+
+/**
+ * Link a content hash into the chain. Must match audit_log_append in
+ * supabase/migrations/028_audit_log_chain_append.sql.
+ */
+export function computeAuditLinkHash(seq: number, prevHash: string, contentHash: string): string {
+  return createHash('sha256').update(`${seq}:${prevHash}:${contentHash}`).digest('hex');
+}
+
+/**
+ * Hash an entry's content together with the previous entry's hash (entries
+ * written before audit_log_append hash everything in a single keyed pass)
+ */
+export function computeAuditEntryHash(
+  row: AuditChainRow,
+  key: string | undefined = getAuditHmacKey()
+): string {
+  if (row.content_hash) {
+    return computeAuditLinkHash(row.chain_seq, row.prev_hash, row.content_hash);
+  }
+
+  const payload = canonicalJson({
+    seq: row.chain_seq,
+    prevHash: row.prev_hash,
+    ...auditContentPayload(row),
+  });
+  return hashAuditPayload(payload, key);
+}
+
+/**
+ * Signature stored with an anchored chain head
+ */
+export function signAuditAnchor(
+  seq: number,
+  entryHash: string,
+  key: string | undefined = getAuditHmacKey()
+): string {
+  return hashAuditPayload(`anchor:${seq}:${entryHash}`, key);
+}
+
+/**
+ * Check one row against the entry before it. Pass null when nothing was
+ * archived: the first row must then be the first entry ever written.
+ */
+export function checkAuditChainLink(
+  row: AuditChainRow,
+  previous: { seq: number; hash: string } | null
+): AuditChainBreak | null {
+  if (previous) {
+    if (row.chain_seq !== previous.seq + 1) return 'missing_entries';
+    if (row.prev_hash !== previous.hash) return 'prev_hash_mismatch';
+  } else if (row.chain_seq !== 1) {
+    return 'missing_entries';
+  } else if (row.prev_hash !== AUDIT_CHAIN_GENESIS_HASH) {
+    return 'prev_hash_mismatch';
+  }
+
+  if (row.content_hash && row.content_hash !== computeAuditContentHash(row)) return 'hash_mismatch';
+  if (row.entry_hash !== computeAuditEntryHash(row)) return 'hash_mismatch';
+  return null;
+}
+
+/**
+ * Check a chain entry against the head anchored at its sequence number
+ */
+export function checkAuditAnchor(row: AuditChainRow, anchor: AuditChainAnchor): AuditChainBreak | null {
+  if (anchor.signature !== signAuditAnchor(anchor.chain_seq, anchor.entry_hash)) return 'anchor_mismatch';
+  if (row.entry_hash !== anchor.entry_hash) return 'anchor_mismatch';
+  return null;
+}
+
+/**
+ * Boundary to record when retention archives audit rows: the highest chained
+ * entry among them, signed like an anchor. Null if none of the rows is chained.
+ */
+export function buildAuditArchiveBoundary(
+  rows: { chain_seq: number | null; entry_hash?: string | null }[]
+): AuditArchiveBoundary | null {
+  let last: { seq: number; hash: string } | null = null;
+  for (const row of rows) {
+    if (row.chain_seq && row.entry_hash && (!last || row.chain_seq > last.seq)) {
+      last = { seq: row.chain_seq, hash: row.entry_hash };
+    }
+  }
+  if (!last) return null;
+  return {
+    last_chain_seq: last.seq,
+    last_entry_hash: last.hash,
+    chain_signature: signAuditAnchor(last.seq, last.hash),
+  };
+}
+
+/**
+ * Check a recorded archive boundary before the chain is resumed from it
+ */
+export function checkAuditArchiveBoundary(boundary: AuditArchiveBoundary): AuditChainBreak | null {
+  if (boundary.chain_signature !== signAuditAnchor(boundary.last_chain_seq, boundary.last_entry_hash)) {
+    return 'anchor_mismatch';
+  }
+  return null;
+}
+
+let chainFunctionMissing = false;
+
+async function insertChainedEntry(
+  fields: Omit<AuditChainRow, 'chain_seq' | 'prev_hash' | 'created_at'>
+): Promise<boolean> {
+  const row = { ...fields, created_at: new Date().toISOString() };
+
+  if (!chainFunctionMissing) {
+    // audit_log_append assigns chain_seq and prev_hash under a lock on the chain head
+    const { error } = await supabaseAdmin.rpc('audit_log_append', {
+      p_entry: row,
+      p_content_hash: computeAuditContentHash(row as AuditChainRow),
+    });
+    if (!error) return true;
+
+    // Chain function not migrated yet: keep logging without the chain
+    if (error.code === 'PGRST202' || error.code === '42883') {
+      console.warn('[AuditLog] audit_log_append is missing; run the audit chain migrations');
+      chainFunctionMissing = true;
+    } else {
+      console.error('[AuditLog] Failed to write audit log:', error);
+      return false;
+    }
+  }
+
+  const { error } = await supabaseAdmin.from('audit_log').insert(row);
+  if (error) {
+    console.error('[AuditLog] Failed to write audit log:', error);
+    return false;
+  }
+  return true;
+}
+
 /**
  * Log an audit event
  * 
@@ -80,30 +418,217 @@ export const ResourceTypes = {
  */
 export async function logAuditEvent(entry: AuditLogEntry): Promise<boolean> {
   try {
-    const { error } = await supabaseAdmin
-      .from('audit_log')
-      .insert({
-        user_id: entry.userId || null,
-        user_email: entry.userEmail || null,
-        action: entry.action,
-        resource_type: entry.resourceType,
-        resource_id: entry.resourceId || null,
-        details: entry.details || {},
-        ip_address: entry.ipAddress || null,
-        user_agent: entry.userAgent || null,
-        success: entry.success !== false, // Default to true
-        error_message: entry.errorMessage || null,
-      });
+    return await insertChainedEntry({
+      user_id: entry.userId || null,
+      user_email: entry.userEmail || null,
+      action: entry.action,
+      resource_type: entry.resourceType,
+      resource_id: entry.resourceId || null,
+      details: entry.details || {},
+      ip_address: entry.ipAddress || null,
+      user_agent: entry.userAgent || null,
+      success: entry.success !== false, // Default to true
+      error_message: entry.errorMessage || null,
+    });
+  } catch (err) {
+    console.error('[AuditLog] Exception writing audit log:', err);
+    return false;
+  }
+}
+
+/**
+ * Record the current chain head with a keyed signature. Entries deleted from
+ * the end of the log, or a chain rebuilt after an edit, no longer match the
+ * anchors. The log line keeps a copy outside the database.
+ */
+export async function anchorAuditChain(): Promise<AuditChainAnchor | null> {
+  try {
+    const { data: head, error } = await supabaseAdmin
+      .from('audit_log_chain_head')
+      .select('chain_seq, entry_hash')
+      .maybeSingle();
 
     if (error) {
-      console.error('[AuditLog] Failed to write audit log:', error);
-      return false;
+      console.error('[AuditLog] Failed to load chain head:', error);
+      return null;
+    }
+    if (!head || head.chain_seq === 0) return null;
+
+    const { data: latest, error: latestError } = await supabaseAdmin
+      .from('audit_log_anchors')
+      .select('chain_seq')
+      .order('chain_seq', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (latestError) {
+      console.error('[AuditLog] Failed to load latest anchor:', latestError);
+      return null;
+    }
+    // Nothing written since the last anchor
+    if (latest && latest.chain_seq >= head.chain_seq) return null;
+
+    const anchor: AuditChainAnchor = {
+      chain_seq: head.chain_seq,
+      entry_hash: head.entry_hash,
+      signature: signAuditAnchor(head.chain_seq, head.entry_hash),
+    };
+    const { error: insertError } = await supabaseAdmin.from('audit_log_anchors').insert(anchor);
+    if (insertError) {
+      console.error('[AuditLog] Failed to anchor chain head:', insertError);
+      return null;
     }
 
-    return true;
+    console.log(`[AuditLog] Anchored chain head #${anchor.chain_seq} ${anchor.entry_hash}`);
+    return anchor;
   } catch (err) {
-    console.error('[AuditLog] Exception writing audit log:', err);
-    return false;
+    console.error('[AuditLog] Exception anchoring chain head:', err);
+    return null;
+  }
+}
+
+async function loadAuditAnchors(batchSize: number): Promise<Map<number, AuditChainAnchor> | null> {
+  const anchors = new Map<number, AuditChainAnchor>();
+  let lastSeq = 0;
+  while (true) {
+    const { data, error } = await supabaseAdmin
+      .from('audit_log_anchors')
+      .select('chain_seq, entry_hash, signature, created_at')
+      .gt('chain_seq', lastSeq)
+      .order('chain_seq', { ascending: true })
+      .limit(batchSize);
+
+    if (error) {
+      console.error('[AuditLog] Failed to read chain anchors:', error);
+      return null;
+    }
+
+    const rows = (data || []) as AuditChainAnchor[];
+    rows.forEach(anchor => anchors.set(anchor.chain_seq, anchor));
+    if (rows.length < batchSize) return anchors;
+    lastSeq = rows[rows.length - 1].chain_seq;
+  }
+}
+
+/**
+ * Walk the audit chain from the genesis entry, or from where retention last
+ * archived it, and report the first broken link, checking anchored heads along
+ * the way and that the chain reaches the latest one. Returns null if the log
+ * could not be read.
+ */
+export async function verifyAuditChain(batchSize: number = 1000): Promise<AuditChainVerification | null> {
+  try {
+    const { count: unchained, error: countError } = await supabaseAdmin
+      .from('audit_log')
+      .select('id', { count: 'exact', head: true })
+      .is('chain_seq', null);
+
+    if (countError) {
+      console.error('[AuditLog] Failed to count unchained entries:', countError);
+      return null;
+    }
+
+    const [anchors, headResult, boundaryResult] = await Promise.all([
+      loadAuditAnchors(batchSize),
+      supabaseAdmin.from('audit_log_chain_head').select('chain_seq').maybeSingle(),
+      supabaseAdmin
+        .from('data_archives')
+        .select('last_chain_seq, last_entry_hash, chain_signature')
+        .eq('table_name', 'audit_log')
+        .not('last_chain_seq', 'is', null)
+        .order('last_chain_seq', { ascending: false })
+        .limit(1)
+        .maybeSingle(),
+    ]);
+    if (!anchors) return null;
+    if (headResult.error) {
+      console.error('[AuditLog] Failed to load chain head:', headResult.error);
+      return null;
+    }
+    if (boundaryResult.error) {
+      console.error('[AuditLog] Failed to load archive boundary:', boundaryResult.error);
+      return null;
+    }
+    const boundary = boundaryResult.data as AuditArchiveBoundary | null;
+
+    const result: AuditChainVerification = {
+      valid: true,
+      checked: 0,
+      firstSeq: null,
+      lastSeq: null,
+      unchainedEntries: unchained || 0,
+      archivedThroughSeq: boundary?.last_chain_seq ?? null,
+      anchorsChecked: 0,
+      keyed: !!getAuditHmacKey(),
+      brokenAt: null,
+    };
+
+    const fail = (seq: number, reason: AuditChainBreak, row?: AuditChainRow) => {
+      result.valid = false;
+      result.brokenAt = { seq, id: row?.id || null, createdAt: row?.created_at || null, reason };
+      return result;
+    };
+
+    // Archived entries are gone; the chain resumes from the last one retention recorded
+    let previous: { seq: number; hash: string } | null = null;
+    if (boundary) {
+      const boundaryReason = checkAuditArchiveBoundary(boundary);
+      if (boundaryReason) return fail(boundary.last_chain_seq, boundaryReason);
+      previous = { seq: boundary.last_chain_seq, hash: boundary.last_entry_hash };
+    }
+    while (true) {
+      let query = supabaseAdmin
+        .from('audit_log')
+        .select('id, chain_seq, prev_hash, entry_hash, content_hash, user_id, user_email, action, resource_type, resource_id, details, ip_address, user_agent, success, error_message, created_at')
+        .not('chain_seq', 'is', null)
+        .order('chain_seq', { ascending: true })
+        .limit(batchSize);
+      if (previous) {
+        query = query.gt('chain_seq', previous.seq);
+      }
+
+      const { data, error } = await query;
+      if (error) {
+        console.error('[AuditLog] Failed to read audit chain:', error);
+        return null;
+      }
+
+      const rows = (data || []) as AuditChainRow[];
+      for (const row of rows) {
+        const reason = checkAuditChainLink(row, previous);
+        if (reason) {
+          // For gaps, report the first missing sequence number
+          return fail(reason === 'missing_entries' && previous ? previous.seq + 1 : row.chain_seq, reason, row);
+        }
+
+        const anchor = anchors.get(row.chain_seq);
+        if (anchor) {
+          const anchorReason = checkAuditAnchor(row, anchor);
+          if (anchorReason) return fail(row.chain_seq, anchorReason, row);
+          result.anchorsChecked++;
+        }
+
+        if (result.firstSeq === null) result.firstSeq = row.chain_seq;
+        result.lastSeq = row.chain_seq;
+        result.checked++;
+        previous = { seq: row.chain_seq, hash: row.entry_hash as string };
+      }
+
+      if (rows.length < batchSize) break;
+    }
+
+    // Entries removed from the end leave anchors (or the head) past the last entry
+    const lastSeq = result.lastSeq ?? result.archivedThroughSeq ?? 0;
+    const latestAnchored = Array.from(anchors.keys()).reduce((max, seq) => Math.max(max, seq), 0);
+    const headSeq = headResult.data?.chain_seq ?? 0;
+    if (latestAnchored > lastSeq || headSeq > lastSeq) {
+      return fail(lastSeq + 1, 'truncated');
+    }
+
+    return result;
+  } catch (err) {
+    console.error('[AuditLog] Exception verifying audit chain:', err);
+    return null;
   }
 }
 
@@ -114,7 +639,8 @@ export async function logLogin(
   userId: string,
   email: string,
   ipAddress?: string,
-  userAgent?: string
+  userAgent?: string,
+  method: string = 'password'
 ): Promise<void> {
   await logAuditEvent({
     userId,
@@ -122,6 +648,7 @@ export async function logLogin(
     action: AuditActions.LOGIN_SUCCESS,
     resourceType: ResourceTypes.USER,
     resourceId: userId,
+    details: { method },
     ipAddress,
     userAgent,
   });
@@ -191,3 +718,212 @@ export async function logBulkOperation(
     },
   });
 }
+
+export interface LoginHistoryEntry {
+  id: string;
+  userId: string | null;
+  userEmail: string | null;
+  success: boolean;
+  method: string | null;
+  reason: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+}
+
+/**
+ * Get successful and failed logins for a user (by id or email), newest first
+ */
+export async function getLoginHistory(
+  user: { userId?: string; email?: string },
+  limit: number = 100
+): Promise<LoginHistoryEntry[]> {
+  try {
+    let query = supabaseAdmin
+      .from('audit_log')
+      .select('id, user_id, user_email, action, details, ip_address, user_agent, success, created_at')
+      .in('action', [AuditActions.LOGIN_SUCCESS, AuditActions.LOGIN_FAILED])
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    // Failed attempts only carry the email, so match on either when both are known
+    if (user.userId && user.email) {
+      query = query.or(`user_id.eq.${user.userId},user_email.eq.${user.email}`);
+    } else if (user.userId) {
+      query = query.eq('user_id', user.userId);
+    } else if (user.email) {
+      query = query.eq('user_email', user.email);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('[AuditLog] Failed to fetch login history:', error);
+      return [];
+    }
+
+    return (data || []).map(row => ({
+      id: row.id,
+      userId: row.user_id,
+      userEmail: row.user_email,
+      success: row.action === AuditActions.LOGIN_SUCCESS,
+      method: row.details?.method || null,
+      reason: row.details?.reason || null,
+      ipAddress: row.ip_address,
+      userAgent: row.user_agent,
+      createdAt: row.created_at,
+    }));
+  } catch (err) {
+    console.error('[AuditLog] Exception fetching login history:', err);
+    return [];
+  }
+}
+
+// ============ ADMIN EVENT STREAM ============
+// audit_log is the single store for admin activity; legacy admin_activity_log
+// rows were backfilled into it (migration 017).
+
+export interface AdminEvent {
+  id: string;
+  actorId: string | null;
+  actorEmail: string | null;
+  action: string;
+  resourceType: string;
+  resourceId: string | null;
+  details: Record<string, unknown>;
+  ipAddress: string | null;
+  userAgent: string | null;
+  success: boolean;
+  errorMessage: string | null;
+  createdAt: string;
+}
+
+export interface AdminEventFilters {
+  // User id, or part of an email address
+  actor?: string;
+  actions?: string[];
+  resourceType?: string;
+  resourceId?: string;
+  from?: Date;
+  to?: Date;
+  // Matched against email, action, resource, details and error message
+  search?: string;
+  success?: boolean;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, match => `\\${match}`);
+}
+
+function mapAdminEvent(row: any): AdminEvent {
+  return {
+    id: row.id,
+    actorId: row.user_id,
+    actorEmail: row.user_email,
+    action: row.action,
+    resourceType: row.resource_type,
+    resourceId: row.resource_id,
+    details: row.details || {},
+    ipAddress: row.ip_address,
+    userAgent: row.user_agent,
+    success: row.success !== false,
+    errorMessage: row.error_message,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Search the admin event stream, newest first. Exports page through oldest
+ * first (so new rows don't shift pages) and skip the total count.
+ */
+export async function queryAdminEvents(
+  filters: AdminEventFilters = {},
+  limit: number = 100,
+  offset: number = 0,
+  options: { oldestFirst?: boolean; withTotal?: boolean } = {}
+): Promise<{ events: AdminEvent[]; total: number }> {
+  try {
+    let query = supabaseAdmin
+      .from('audit_log')
+      .select(
+        'id, user_id, user_email, action, resource_type, resource_id, details, ip_address, user_agent, success, error_message, created_at',
+        options.withTotal === false ? undefined : { count: 'exact' }
+      )
+      .order('created_at', { ascending: !!options.oldestFirst })
+      .range(offset, offset + limit - 1);
+
+    const actor = filters.actor?.trim();
+    if (actor) {
+      query = UUID_PATTERN.test(actor)
+        ? query.eq('user_id', actor)
+        : query.ilike('user_email', `%${escapeLikePattern(actor)}%`);
+    }
+    if (filters.actions && filters.actions.length > 0) {
+      query = query.in('action', filters.actions);
+    }
+    if (filters.resourceType) {
+      query = query.eq('resource_type', filters.resourceType);
+    }
+    if (filters.resourceId) {
+      query = query.eq('resource_id', filters.resourceId);
+    }
+    if (filters.from) {
+      query = query.gte('created_at', filters.from.toISOString());
+    }
+    if (filters.to) {
+      query = query.lte('created_at', filters.to.toISOString());
+    }
+    if (filters.success !== undefined) {
+      query = query.eq('success', filters.success);
+    }
+    const search = filters.search?.trim().toLowerCase();
+    if (search) {
+      query = query.ilike('search_text', `%${escapeLikePattern(search)}%`);
+    }
+
+    const { data, error, count } = await query;
+
+    if (error) {
+      console.error('[AuditLog] Failed to query admin events:', error);
+      return { events: [], total: 0 };
+    }
+
+    return {
+      events: (data || []).map(mapAdminEvent),
+      total: count || 0,
+    };
+  } catch (err) {
+    console.error('[AuditLog] Exception querying admin events:', err);
+    return { events: [], total: 0 };
+  }
+}
+
+/**
+ * Distinct actions and resource types present in the stream, for filter pickers
+ */
+export async function getAdminEventFacets(): Promise<{ actions: string[]; resourceTypes: string[] }> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('audit_log_facets')
+      .select('facet, value');
+
+    if (error) {
+      console.error('[AuditLog] Failed to load event facets:', error);
+      return { actions: [], resourceTypes: [] };
+    }
+
+    const rows = data || [];
+    const valuesFor = (facet: string) =>
+      rows.filter(r => r.facet === facet && r.value).map(r => r.value as string).sort();
+
+    return {
+      actions: valuesFor('action'),
+      resourceTypes: valuesFor('resource_type'),
+    };
+  } catch (err) {
+    console.error('[AuditLog] Exception loading event facets:', err);
+    return { actions: [], resourceTypes: [] };
+  }
+}
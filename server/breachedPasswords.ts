@@ -0,0 +1,533 @@
+/**
+ * Breached Password Hashes
+ *
+ * SHA-1 hashes (uppercase hex, the Have I Been Pwned format) of passwords
+ * that appear most often in public breach corpora. Bundled so the password
+ * policy works offline; PASSWORD_BREACH_LIST_PATH can add a larger list.
+ */
+
+export const BREACHED_PASSWORD_SHA1: readonly string[] = [
+  '006345B12AD566BF7891BE05CEF5909DF928CBCD',
+  '006839D264A38B7F58E5C8130447528BF4B7AEE1',
+  '00C79A9F0252E5454E8F593F0EC3BB99805BA6C3',
+  '011C945F30CE2CBAFC452F39840F025693339C42',
+  '014A5F52613B4742A930F7F953EE9F59BDD19769',
+  '018F4D7F06CB8626E1756452581373E05AE41C56',
+  '019DB0BFD5F85951CB46E4452E9642858C004155',
+  '01B307ACBA4F54F55AAFC33BB06BBBF6CA803E9A',
+  '02726D40F378E716981C4321D60BA3A325ED6A4C',
+  '02E0A999C50B1F88DF7A8F5A04E1B76B35EA6A88',
+  '03785D4E638CD09CEA620FD0939BF06825BE88DF',
+  '0405F09E8CCD8CE4236BDB6B167E4426BFC41848',
+  '043A558250409758B64F73D07D7F06B3DF654BC0',
+  '04ACD0232B89546581E6737D084CFE57A7E75D1F',
+  '05B530AD0FB56286FE051D5F8BE5B8453F1CD93F',
+  '05FE7461C607C33229772D402505601016A7D0EA',
+  '068942C83F0E6994D046F7EC01B8F42BA8F317A7',
+  '06FCF6F50BE6161D4B65E560A8EE589CE1BF8661',
+  '079F6548028BBF1AFB559EF43E7FC4D99048AB20',
+  '08808065106E0F48E0D8EFBD4C492C633B4D69E8',
+  '08B314F0E1E2C41EC92C3735910658E5A82C6BA7',
+  '08D7DE6CBF6C3FA0A26E094E5115BCD1A0E3D2C3',
+  '0963992090AAC2D595B32D34E8A5FCAB9FAE3151',
+  '0A66E107BB05FD282DA95EF7155E7DD65E927894',
+  '0AE9E4DEBA26021986FFD99636DA6601F6393631',
+  '0B12FC56D3B2C3F3D153092E951BE67E0B2801A5',
+  '0CE7911E6479995D6C346D6F03EB723B5135309E',
+  '0E818BFA0679DF304036382AAA7667DF92CBE30E',
+  '0F12541AFCCE175FB34BB05A79C95B76E765488B',
+  '0F58D5A5515F1A8A9D179AA58858B67B2F8A3388',
+  '104E03314A82F3FBC0CE1C681CFDFA2D0542E492',
+  '10A07CDB61A9A8B27B7104CF5EC97EB5FA5B4D20',
+  '10C28F9CF0668595D45C1090A7B4A2AE98EDFA58',
+  '12E9293EC6B30C7FA8A0926AF42807E929C1684F',
+  '1411678A0B9E25EE2F7C8B2F7AC92B6A74B3F9C5',
+  '1645EE78DE0F7C73001E1A8ED1FACC25A72B6796',
+  '166ADF7CB43FC4D37EE98226D117B953BCF79516',
+  '17B9E1C64588C7FA6419B4D29DC1F4426279BA01',
+  '18AD10FD4A67F21FC07B1AA5046B410F6B2BEDF1',
+  '18C28604DD31094A8D69DAE60F1BCD347F1AFC5A',
+  '18FC3D8A738BEEB78439D5F843D1AA5D200B1503',
+  '19485E369C691FA8ECE1FABC8A6CEABFB5666B79',
+  '1999E4893F732BA38B948DBE8D34ED48CD54F058',
+  '1AA25EAD3880825480B6C0197552D90EB5D48D23',
+  '1ABD2C47DC248F9136D6E48862C75BAC09D1B05D',
+  '1B2D43E95F16DF6039748099CCABA49766F4FF6D',
+  '1C29CF0CEB89AFCE131E27B76C18AF1E9CF7F5E3',
+  '1C9059170910835368500990479A5CF828444D34',
+  '1C9E4D0D9B5045F69AB72E9FA07AC5AB0B497260',
+  '1CB5BD5A9E45420321F44C72DA5D90D7F0432FFB',
+  '1CE1416347075B6070A35CE5E9D26B61D91EA6C3',
+  '1D572ACBFA68C7C6E541C7B840D6B622E5C0DC91',
+  '1E41C981637834CAEC149B4D33F7F8566076DDFA',
+  '1EE7760A3190C95641442F2BE0EF7774E139FB1F',
+  '1EF41AF4175FE164BF14A260FDF226218961C106',
+  '1F0160076C9F42A157F0A8F0DCC68E02FF69045B',
+  '1F3C53AE14626035383B39C207564D32D083E8FD',
+  '1F5523A8F535289B3401B29958D01B2966ED61D2',
+  '1F82C942BEFDA29B6ED487A51DA199F78FCE7F05',
+  '1FC854110E5532480000542834F453DE31936C2F',
+  '1FD1B4516473C36C8FB30BBF7C4490FC20419A10',
+  '1FD655F2CFD95956EF97A04F73F5CFF2CF5F679E',
+  '1FFF8C7BE7829FB657F9CDF5D55334999C9DD6A3',
+  '20D253779A917A99F0FC278C478A10D748945850',
+  '20EABE5D64B0E216796E834F52D61FD0B70332FC',
+  '20F9A9009EB90DFD925B0BF312726C1C921FEFF1',
+  '21BD12DC183F740EE76F27B78EB39C8AD972A757',
+  '22942B7C5CDF7813BA3C1EA82FF3A2B406486271',
+  '2394EEAC9FC3DB56189A894E221220B6089E78D3',
+  '23F2916E01209D6282F226BE9677AFFAEC44A8D6',
+  '2475FCB006E003DC09EA816345FAA8EF00B58654',
+  '248510136410798C784BA702DF249756AD286BE4',
+  '250E77F12A5AB6972A0895D290C4792F0A326EA8',
+  '2539D3DF1FCFA43CD1D5F5D55901F6718A10C595',
+  '258465759831222D475216E3266E71E3567310DD',
+  '25C2C9AFDD83B8D34234AA2881CC341C09689AAA',
+  '263D00820F9F5E0ACC0274DA747E0A9B6868145E',
+  '266DC053A8163E676E83243070241C8917F8A8A3',
+  '269A03F47F0550E98664C4A542EA78A23B305A82',
+  '26F3CD230E935F8BEF3596727F75448CB446120B',
+  '273A0C7BD3C679BA9A6F5D99078E36E85D02B952',
+  '2741F5D8A2FDB12A3EBED4A6E006EABAFFFEE22A',
+  '275E5D5F064B3DB5F71FF7A2C2B5116CF0C902D3',
+  '27E72DBA56CBC8AD7DC2FD00F42B2D369C44A02E',
+  '2891BACEEEF1652EE698294DA0E71BA78A2A4064',
+  '2984B6333F453CFC7778391D1E45D4FD7C0F232B',
+  '2C490B8E68B92E79CE344C25F3D87FC297D12346',
+  '2C4C3891E2AC6958E9810A1E49C6705784FBFA1A',
+  '2D27B62C597EC858F6E7B54E7E58525E6A95E6D8',
+  '2DE0CD3415AE8324B03034F6797FF44A99FA737E',
+  '2E8AA918660411855C6D44D5BB2DA677AA033255',
+  '2EA6201A068C5FA0EEA5D81A3863321A87F8D533',
+  '2F27C5970E47C4FFD0867088F6BEC0F872991C65',
+  '2F77A250B04E7C390270402FB42033102B28B071',
+  '320BCA71FC381A4A025636043CA86E734E31CF8B',
+  '327156AB287C6AA52C8670E13163FC1BF660ADD4',
+  '33712D62C7B46DBC49345B5C3E15F02871FF8EDA',
+  '345120426285FF8B1D43653A4D078170B4761F75',
+  '34A345E9544ECABF7EA023ED2F3A80E52492A0C9',
+  '34E90DD5D5C0293F86B9947A8D6F280D84F1C1BE',
+  '3559EFC37C61A31AA9DA4F2E4ECD952192CD9DA0',
+  '35E52AD282F5122DB1EF202C536B7CE980AB3F6C',
+  '360E46F15F432AF83C77017177A759ABA8A58519',
+  '3674951EC264A72168CB2D89A5F634E512F6629D',
+  '3692BFA45759A67D83AEDF0045F6CB635A966ABF',
+  '36A7AC9BD13EDC65DF386D0A809ABC6268B30A1A',
+  '37AC5E111A9B2F779E373F78EFA4F7678B93FEB1',
+  '37D2EF282DFCC97EB77245FF5D24E311D58625FE',
+  '384FCD160AB3B33174EA279AD26052EEE191508A',
+  '39DFA55283318D31AFE5A3FF4A0E3253E2045E43',
+  '39F6F95327B31D796F8D305A29DF43B1D585E3CF',
+  '3ACD0BE86DE7DCCCDBF91B20F94A68CEA535922D',
+  '3B004AC6D8A602681F5EE3587C924855679E21D9',
+  '3B19ECD69B492A40E3061F17786B33C28F504239',
+  '3B9DE09F2FF76AFE9F0AD4FCAE4FF68F52EC7FC4',
+  '3D0F3B9DDCACEC30C4008C5E030E6C13A478CB4F',
+  '3D4F2BF07DC1BE38B20CD6E46949A1071F9D0E3D',
+  '3D7B4F23B8F853910E4C64F09CDF897A59DB524A',
+  '3DA541559918A808C2402BBA5012F6C60B27661C',
+  '3DD635A808DDB6DD4B6731F7C409D53DD4B14DF2',
+  '3E2573A75821576A00DAE928F8A77E35EF60E176',
+  '3FCFC1F7F34E78A937E81171BA51DC39538DB993',
+  '40123E9C6273385EA69892C48C80AA6CB25B9113',
+  '4068F0880B399410602D694B3CC711C8A8F4727E',
+  '40D19D8DAB1B8412E014D182B812C78C1725AE86',
+  '40D35D55F267E36711ECB6DCA59DF4036A1DD556',
+  '41250C14DB7A7F8A82EBDAF6CB6F90E154FB35E8',
+  '4162CED6406E0FE70B201ACC706F246A448D879F',
+  '41880EE3438C878762E9A1A0FEC66BCC23DAC767',
+  '420FCC63481AC21FDCA8F011608A9F8731609CFA',
+  '4233137D1C510F2E55BA5CB220B864B11033F156',
+  '42CFE854913594FE572CB9712A188E829830291F',
+  '42D1F9243114643C3B0DC2D3E5E86A94122D2306',
+  '435B41068E8665513A20070C033B08B9C66E4332',
+  '43988DA0D21D1488A93971A03A462F3BC0433B0D',
+  '44213F9F4D59B557314FADCD233232EEBCAC8012',
+  '449938CD38C82BCDDC2B534548DDBE984ADB8EFC',
+  '461476587780AA9FA5611EA6DC3912C146A91760',
+  '466BC8CEF3E71DE796EC483E212724A2C2044C68',
+  '468DA084E9953050D716E5425E004F33AC88C947',
+  '46E3D772A1888EADFF26C7ADA47FD7502D796E07',
+  '473C2D0D0950352C9927B3EADD71015C390478CB',
+  '474BA67BDB289C6263B36DFD8A7BED6C85B04943',
+  '476E251CC54B60534F68D0F614FCC67950151353',
+  '47C1DC4559EAE95CDDE6246BF4AA3FB058DD8373',
+  '47DFD61B81026A5065A72623EC9430A703C9A756',
+  '48058E0C99BF7D689CE71C360699A14CE2F99774',
+  '48EFC4851E15940AF5D477D3C0CE99211A70A3BE',
+  '494559CA59368D9B044021BCC5546ADB2C47A599',
+  '49F2B18D5D38E0470E6634A98A6847190A00ADCF',
+  '4BBF2DDC38798E41CDC1D415C756FAA92BA47FFD',
+  '4BE30D9814C6D4E9800E0D2EA9EC9FB00EFA887B',
+  '4BFE029D971DDB359DABED0D0AB968A329ED0AB0',
+  '4C9A82CE72CA2519F38D0AF0ABBB4CECB9FCECA9',
+  '4CC19AAFF82F60AC4097F935AB4A06AD4F0891CC',
+  '4D0FB475B242228032CBDF6D53924D2538DF037B',
+  '4D8B4D6E78C7A1679BCF58B4E37FF35F623C2B56',
+  '4D9012B4A77A9524D675DAD27C3276AB5705E5E8',
+  '4E861409DBAD2B3A8DB9240779D21184BD82A860',
+  '4F26AEAFDB2367620A393C973EDDBE8F8B846EBD',
+  '501AB5444EAE9AD32B562570B36FF628EC3790CE',
+  '505E836BB07E69BA387CD3D62A70890B0001BEBB',
+  '5116E40694AC48F654CB7B6816177E0E717237C6',
+  '516FA3FD6BF97A4B3FF09EC93877D39005A7996D',
+  '519BC3F0FDA96312357E1409DE278BFF4D5F5B25',
+  '5300F44183EEE909B3FE2C2527315B5F4169EB55',
+  '5361FCA33CAB1237145ABCB4790DDBA289B7AC57',
+  '53A5687CB26DC41F2AB4033E97E13ADEFD3740D6',
+  '54669547A225FF20CBA8B75A4ADCA540EEF25858',
+  '5479F2FA49524ADACFF538D1CB23DF73200D0EC6',
+  '5514AE81CF9B1AF3B5719D9446F062E2B1F0CA9D',
+  '55B5A0F748D3A82DCE10B205ECB0A0D8916C66A1',
+  '56259DD1C4EA0117CD601FFF7AEFA0E8892A3B25',
+  '568B156009CA4316B0D656DA88F0E1C2ACEB2185',
+  '57449F915FCB5FB12533512C5320A98615718BBE',
+  '5801C8B4F3BD25B0E94EFF40FBBD7D80D42DF6A0',
+  '583ADC8AEBB04A62CC76E71314B46474113BE146',
+  '59033478180D07080D5E4F3BAA0099996C364162',
+  '59C826FC854197CBD4D1083BCE8FC00D0761E8B3',
+  '5A46B8253D07320A14CACE9B4DCBF80F93DCEF04',
+  '5A4F26B21EBC770C5837D49E7C35574B29654610',
+  '5A8F70E725742EE64204353E700778B29F81B988',
+  '5B96672AE7709EAB297550CAE362D5BEE468C57D',
+  '5BAA61E4C9B93F3F0682250B6CF8331B7EE68FD8',
+  '5BC1824930FFBBAFC27E7EB204260A4017859A35',
+  '5BF82649C8F5401745708119D12AB51DC7E17980',
+  '5BFD08BDAC5988B8C1D14A86BF8AB736DB159E9F',
+  '5C17FA03E6D5FC247565E1CD8FFA70E1BFE5B8D9',
+  '5C6ACA6504E010FC38BDBF9B940CAA1D463407CF',
+  '5C6D9EDC3A951CDA763F650235CFC41A3FC23FE8',
+  '5C8A7A129DE8B649E9A0CBFBB7E9CEC37A6EFCB6',
+  '5C9688A59F3FCBFDBFEEA06378A76AF06A09AA95',
+  '5C995BBB81B028B869EE4EA7C44BB1A9EA6152BC',
+  '5CEC175B165E3D5E62C9E13CE848EF6FEAC81BFF',
+  '5D70C3D101EFD9CC0A69F4DF2DDF33B21E641F6A',
+  '5D74AE093A16A00E5AF127763F2DC7E13988F162',
+  '5F079981221CE504832142E9526B623BBFB6E686',
+  '5F50443BFE76F7279A8E0F2F0A98975CDBFF38E9',
+  '5F50A84C1FA3BCFF146405017F36AEC1A10A9E38',
+  '5FA339BBBB1EEACED3B52E54F44576AAF0D77D96',
+  '5FEE00239940F883D4C2854E41C7F989E75278A3',
+  '601F1889667EFAEBB33B8C12572835DA3F027F78',
+  '6092A032351D76D6AACE89D4467BAC17E09B52CE',
+  '60C6D277A8BD81DE7FDDE19201BF9C58A3DF08F4',
+  '612D9EC34BDDCE122042DB4C143E86DCA655BC15',
+  '618DCDFB0CD9AE4481164961C4796DD8E3930C8D',
+  '624C22A8C8F8C93F18FE5ECD4713100C8D754507',
+  '62A56A64C1489FBE3BAD6983401EF58E0CC26B41',
+  '62B487BC84825B3DF028A932F082526E195EEFF2',
+  '62C786C5932DA8817304F644E74141DB94B5B83F',
+  '6320B01C0A04AF092B14A9BEA75C2A7168D47764',
+  '6367C48DD193D56EA7B0BAAD25B19455E529F5EE',
+  '640FB06193D8F2177C0FBF84F172DC686D33DD00',
+  '6420ED4D831B436D1E92D25605D18297296374E3',
+  '64356BCFAE350C970263C1CE575185B289F7B836',
+  '643FEC50E79C69BC6BBB7616AFD3904ACF40867C',
+  '64438EE426438161DA88554B3E2DE796B0CA265E',
+  '65DE2388433E80F9BE577F410A7BB4F951F8A404',
+  '675DC611BAFB0B7348DD3BAF7E005B6916FB954D',
+  '67C1A7FEB14FE3540F7A70650E2B9F0A5A48D3EC',
+  '689CD1CD19BFC2EAA606599AA8A2606A0EA3DF25',
+  '68C46A606457643EAB92053C1C05574ABB26F861',
+  '691AB698A43FD6443F845CCD2B7F8F1607A14AEE',
+  '69DF79BEF9287D3BCB8F104A408B06DE6A108FD8',
+  '6B060C4678D379863897045B978102BF778B80C4',
+  '6B43E6C822EC426567D261D91812135E420017C0',
+  '6C616F7C2D2FDE9018A09F06EAEFCFC7582BC7BA',
+  '6D0EBBBDCE32474DB8141D23D2C01BD9628D6E5F',
+  '6DEFCDCE4D06B8518640F0FE5F692B639BF31A4A',
+  '6E0012C588F997639167097BDF76B5BADA65360C',
+  '6E1A438CFE5A6C9E2165665F8C2258849CCC43F0',
+  '6E2F9E6111E77EDD0C446EA7A84E25323D137A61',
+  '6EA164759ADCCDF0B63C3E6A8A52792691F4C37B',
+  '701B389B848A2B1CFAB867093101D8D5AC56ADDD',
+  '7073D0FAB1EA36CD0C0F1F603A2A5E44B931B31C',
+  '70CCD9007338D6D81DD3B6271621B9CF9A97EA00',
+  '70FFC281DBEC8DACF4E02E879C6E20A93B1ACD59',
+  '7110EDA4D09E062AA5E4A390B0A572AC0D2C0220',
+  '711C73F64AFDCE07B7E38039A96D2224209E9A6C',
+  '7148686369B144C8E4147A0C9BA3E45FECEFD6B3',
+  '7212A9E01329EA93A57F574BD9BF77695D5FDCA4',
+  '721D65122734734800A1EDD6E68C03210E7B2ACA',
+  '746A6DDE920B9AC6609F2D3FEB2D83BD96F32C6D',
+  '74A871ACBF060DDA5FC7260D05A5924A34E4C0E7',
+  '75105193BFDD0DB68CD7B988DDA79744A9BAEA41',
+  '7539B2514C21539549E11ECA3B17B90DDADBDECA',
+  '75A0A1C981FEA69A013811B3091B66D8E1457FC6',
+  '76C2436B593F27AA073F0B2404531B8DE04A6AE7',
+  '775BB961B81DA1CA49217A48E533C832C337154A',
+  '77BCE9FB18F977EA576BBCD143B2B521073F0CD6',
+  '782F9B10621E362D5BD0DEF3A279B5E0908C9EBB',
+  '7965A665163253A12F43312BF69D07012A113A2A',
+  '79B333C96EC99512A3BF72653B23C7ED8A52DC42',
+  '7AA129F67FDE68C6D88AA58B8B8C5C28EB7DD3A3',
+  '7AB515D12BD2CF431745511AC4EE13FED15AB578',
+  '7AF2D10B73AB7CD8F603937F7697CB5FE432C7FF',
+  '7AFAA0A74C41394C7122FE61723DDC365F322A55',
+  '7B21848AC9AF35BE0DDB2D6B9FC3851934DB8420',
+  '7C222FB2927D828AF22F592134E8932480637C0D',
+  '7C4A8D09CA3762AF61E59520943DC26494F8941B',
+  '7C6A61C68EF8B9B6B061B28C348BC1ED7921CB53',
+  '7CC918F959308C71F292F9308E7A748ADF4D1434',
+  '7CE0359F12857F2A90C7DE465F40A95F01CB5DA9',
+  '7D8F4B4B4613DC7E15333E6449692AD4AF502D1D',
+  '7EA35D812706D9213868749011AF1ED4FA2F6AA0',
+  '7EB3EC264E63186678B54E645AAB6EDFEE9A0AEE',
+  '7EC8AA461C2C28BE905E1DFB0BE256A971AA6108',
+  '7ECFD8F97B4729C6FF0799B0B4D40F870083B461',
+  '7EDA77675FEE6B6DCCBD9CD01587B9BCAF74E7FA',
+  '7F2BE99D71F38FEEF79D926C8F8FFA7A41C7D7DC',
+  '80E126659C008667CB626BAEF0C86E7B7DD00E20',
+  '814FF90C56A74B5E2BB48CD240331867A95357E1',
+  '8488307681665F3DC017EBCAB0C4CD7B1733E102',
+  '8594E5DC6E05443FF53308A444710B3EE75FA1D2',
+  '85F45E1685B99E03226A2A1371245DDB286D887A',
+  '85F940C72D551AB70C79A22134A14DC2838D31AB',
+  '863DAE13577340B98C4C247F4A05B204A3543248',
+  '884950A05FE822DDDEE8030304783E21CDC2B246',
+  '889C6853A117ACA83EF9D6523335DC065213AE86',
+  '88EA39439E74FA27C09A4FC0BC8EBE6D00978392',
+  '88FA846E5F8AA198848BE76E1ABDCB7D7A42D292',
+  '895B317C76B8E504C2FB32DBB4420178F60CE321',
+  '89E89C17F877CA2821B557F633CEC3253B0AA941',
+  '8A6B3C5E6BA4DA6EBFDF08B068CA74F7D99ED161',
+  '8BE3C943B1609FFFBFC51AAD666D0A04ADF83C9D',
+  '8BE9377EB23A3A1FF6EDAA540117CFC75C183C93',
+  '8C258085654083B891CB5125CB6DCB740C8A73F8',
+  '8CB2237D0679CA88DB6464EAC60DA96345513964',
+  '8D6E34F987851AA599257D3831A1AF040886842F',
+  '8D993CCDF628E26E170A949EE2A3870455DBD8FA',
+  '8E756C9F2B15DA6A63F84852FC39667617523133',
+  '8F2174C83B060AD8A652B5070A46CF2CC46314F0',
+  '9009337CF16333F07109B593405CF7552ED8059A',
+  '91E09D0708EC4EF6ED88032ED825E9522792792F',
+  '92119E2C63E9366ACFEFE818B50537A85577E2DB',
+  '92429D82A41E930486C6DE5EBDA9602D55C39986',
+  '929D3BA22D02B494DD0971784A3700C3DBF1D89F',
+  '93A4B670ECF7057A2D3F561FA2C9CE6DF8E960B1',
+  '93EC71B22793A81569C94CA17E4D9C293D8E201F',
+  '947C844D900B26A575AEAF8EF37C3851E8BE474B',
+  '9517A04D3A898BCBD1E4E9999E265398C010A164',
+  '9653AF05F246108D5724E5DA6F5ED0E89FC69C02',
+  '96773332455A5770CBA61B43B62383E896C09C39',
+  '96D53734FC1BD54D848CD30F98069B90333B1BB3',
+  '96DE5543D183D7DE52AC5FA21C46FC811F673F89',
+  '96EB2931C743295B68B2EC5BAF113A022DA8C5F9',
+  '976272B40FB37F813D4A0104C7C8310FA8D0E85F',
+  '984FF6EE7C78078D4CB1CA08255303FB8741D986',
+  '988506D376BA789DA3640B49E2B2ECB5E9B9B8B3',
+  '99996B911567C83CCE17CDF194F314975C57DDF1',
+  '9AC20922B054316BE23842A5BCA7D69F29F69D77',
+  '9B8C02FED3901E82728D18F32BB0369743B22C35',
+  '9C421D03FE8562827BCF573310051844A65DA0FC',
+  '9C881BDB6BC930D18797D72D07BB9E01EEB40D8B',
+  '9CF95DACD226DCF43DA376CDB6CBBA7035218921',
+  '9D4E1E23BD5B727046A9E3B4B7DB57BD8D6EE684',
+  '9D61BA84065FC83956CDFC63E49BC7A9D21D8665',
+  '9DC7226A87062ACBF9F614CDC26FCC847A47D3DB',
+  '9EC4236A09D01395A838F2E774923B4E8548FD19',
+  '9F2FEB0F1EF425B292F2F94BC8482494DF430413',
+  '9FD8DE5FC2A7C2C0D469B2FFF1AFDE4E5DEF37BA',
+  'A0847543CDE93421D289F9CA3F9372A660844CED',
+  'A08670FF00AB376DFCA8A7542DCCE81626B2B469',
+  'A0C849D62D67126BB39974573611F1CDF03FBCA4',
+  'A17FED27EAA842282862FF7C1B9C8395A26AC320',
+  'A247ED270CC8ACB88EEB5865703EBCDE87AC8892',
+  'A248BF1D171D9F7EA5683F6E096512090D17D94E',
+  'A2B7429C2D5480505D5E2673C8E4EB580F65D80D',
+  'A2C901C8C6DEA98958C219F6F2D038C44DC5D362',
+  'A36E1F2D2C1309E9F4CD2D6D2EF75D01DD4FD21C',
+  'A47B5CC8F06168F0EC3832A99894834E1D27F744',
+  'A4AC914C09D7C097FE1F4F96B897E625B6922069',
+  'A51DDA7C7FF50B61EAEA0444371F4A6A9301E501',
+  'A642A77ABD7D4F51BF9226CEAF891FCBB5B299B8',
+  'A6F375A196CD4C89C41DBB4500553EBF3BAB0A41',
+  'A761CE3A45D97E41840A788495E85A70D1BB3815',
+  'A77591BE2044AFCD45B50ACDFCE3A585CAAE257C',
+  'A7D579BA76398070EAE654C30FF153A4C273272A',
+  'A94A8FE5CCB19BA61C4C0873D391E987982FBBD3',
+  'AA57CB5780DB885B12AEE20C747C6F2B8CABA5BD',
+  'AA743A0AAEC8F7D7A1F01442503957F4D7A2D634',
+  'AAF4C61DDCC5E8A2DABEDE0F3B482CD9AEA9434D',
+  'AB5E2BCA84933118BBC9D48FFACCCE3BAC4EEB64',
+  'AB65D8B9611FB58F4C612F6A5EC239E0E73FD38C',
+  'AB87D24BDC7452E55738DEB5F868E1F16DEA5ACE',
+  'ABAE854DCEB7A01AB186D14E8E024480E917AF31',
+  'ABCCF54B832D256110CD9DB45C5391DA9AB6AB33',
+  'AC137C6AE0947718332991E7CB2F50EB20B62AAA',
+  'AC9A2CD0A01D65C21A3393E1373A6CEE8348D14A',
+  'ACE893FB2C9553A38A873FB03D0E21A406B351A1',
+  'AD70AB97AE1376E656002641CFB067C9C94906A2',
+  'AEBC3EBEE2F0C8B08B43D26C2B0055B19CAEAF4A',
+  'AF2C41EB4E034ED0A417D1EC637082072A4D3AAE',
+  'AF8978B1797B72ACFFF9595A5A2A373EC3D9106D',
+  'AFAED75406BD414820CEA4A5119F90C259C05755',
+  'B0399D2029F64D445BD131FFAA399A42D2F8E7DC',
+  'B09833CEC69EFF1BB667940A45E311262E85A422',
+  'B1285D4B43914CC9980FF65D3F54031D0F908E72',
+  'B14AB480028768CB748FD97DE56144A304EB8A1A',
+  'B1B3773A05C0ED0176787A4F1574FF0075F7521E',
+  'B1F45ED147D6803AC1A2A91BDEA1FAB603F910A5',
+  'B227CBD22EAA96019EBFC4AFF35AD2ADD2A47439',
+  'B2E98AD6F6EB8508DD6A14CFA704BAD7F05F6FB1',
+  'B2EE60370AD57D9BC3877E9024C507AB99303A64',
+  'B2FFDBEB87E8E6331D350B482B328D309BC5A321',
+  'B363C6EF45640A79DDC7BBC826A87E02734D88F0',
+  'B3932535E8072DA5632841244F7FE1EF9B1C604C',
+  'B3ACA92C793EE0E9B1A9B0A5F5FC044E05140DF3',
+  'B3F594E10A9EDCF5413CF1190121D45078C62290',
+  'B628F7F92D6E0852AFBB39B1BE7080333CAD0947',
+  'B68F4EC3FF455CE0E47E7B79C7EF74B1337B975E',
+  'B77EB819278979B8524ABDDDC9CEC90F76C61268',
+  'B7A875FC1EA228B9061041B7CEC4BD3C52AB3CE3',
+  'B7C40B9C66BC88D38A59E554C639D743E77F1B65',
+  'B80A9AED8AF17118E51D4D0C2D7872AE26E2109E',
+  'B84689B769AB3D929F7CC14EE35E77C4AE6427C8',
+  'BA5D8027D4FBAF0E92582959DECFE1A2E20FD300',
+  'BADCFA3C62742B3BCC1DCD893E78713BD36AA430',
+  'BB3ACF149DB4936FBACA693A61D56BE89205D997',
+  'BCD5917B85289CF889711720CE741F75C47ADD13',
+  'BCEE59CECBC4A9A283E2AB6222DF371C0906261D',
+  'BCEF7A046258082993759BADE995B3AE8BEE26C7',
+  'BCF22DFC6FB76B7366B1F1675BAF2332A0E6A7CE',
+  'BD3404F882780FB6F1D4233CE0C3D9CBE1AD5B86',
+  'BD5BDA15418D7E571550396DDD50801D65CA7FAD',
+  'BF1EDB9A0628BD52C6E20A2DA633EF3FB5CF8B56',
+  'BF2F749E80C970F50552E9D5F3E8434E78B88D35',
+  'BFE54CAA6D483CC3887DCE9D1B8EB91408F1EA7A',
+  'BFFF2DD4F1B310EB0DBF593BD83F94DD8D34077E',
+  'C0B137FE2D792459F26FF763CCE44574A5B5AB03',
+  'C0D821EEFE9E6CC9BDE6046BE1FD6EB9E23B26A4',
+  'C129B324AEE662B04ECCF68BABBA85851346DFF9',
+  'C165BB234EE4ABDC30E8421400629F604F7BF738',
+  'C22D4A0C96122151D0F579000083484879DBB527',
+  'C2311E92660DE47B456E721B0DABC9F857AB48F0',
+  'C2577430D91716490DC5D33C20D901E008B696E7',
+  'C31405B16FBB48ADB41B8F6505E788FCB13EBD91',
+  'C3F63EE769C8F251565E45CF724F6E4EFAEE0387',
+  'C539153BA1F947BD4B6F910263B967C4A0A62357',
+  'C590AFA9BB59191FFAB30F223791E82D3FD3E3AF',
+  'C60266A8ADAD2F8EE67D793B4FD3FD0FFD73CC61',
+  'C6922B6BA9E0939583F973BC1682493351AD4FE8',
+  'C734B169509CFC35152F4D9598BF9101A9904B8B',
+  'C824FE0AFE16857DD6F587AA7C4044D2642D60FB',
+  'C8A50F632C3C4BAF27FC05FACB1883104E1D16EF',
+  'C95259DE1FD719814DAEF8F1DC4BD64F9D885FF0',
+  'C984AED014AEC7623A54F0591DA07A85FD4B762D',
+  'CA581782DD06E7199AC414994744D633ED8FEDEF',
+  'CA9290D12CE41B907521589D52120245481AB028',
+  'CAD1524360E58851CD0AE1E82B75FF5283474667',
+  'CAE355B615B61313E7A2D42D0C650F705DC3D94E',
+  'CB45C671CBC500627EA424EEA5F91996221B5935',
+  'CB654AC8F36F840016F043AA3E4E06796529704D',
+  'CBB7353E6D953EF360BAF960C122346276C6E320',
+  'CBDB0CC7F3F5B4BE81A75FA7242590E3E9882E1E',
+  'CBF2510A5F9F7EECE23428DA7125C06115839E2B',
+  'CBFDAC6008F9CAB4083784CBD1874F76618D2A97',
+  'CDF547ED4C64E6994AF35CFCD69C4204C9227A97',
+  'CEDF41FCCB586DC39E1CE34BB482F0AFE557B49F',
+  'CEF7E59218E3A7E18AAF7FAA4A23BCD964323A66',
+  'D033E22AE348AEB5660FC2140AEC35850C4DA997',
+  'D052F85FA58FB0497AD4BB7F2D069DD486C4A9AA',
+  'D0A65436A81128B4FAC0F27A75B9A15CFD6F07C9',
+  'D232C6C498283DA7CB5B433A82E2B2BB9D5B39A9',
+  'D318F44739DCED66793B1A603028133A76AE680E',
+  'D53652DE63B26F2B99ABFC5699FAC10F3F95E1F7',
+  'D54B76B2BAD9D9946011EBC62A1D272F4122C7B5',
+  'D5A1BDF9CE989FD6161063E94B92BDEACB94ED23',
+  'D5BD422EFE6A0881A746E4F32360CAD19E91117E',
+  'D637E6EDAF4193FFCD807B5F60282A26FF72989B',
+  'D6955D9721560531274CB8F50FF595A9BD39D66F',
+  'D6CFE5E76C8347BC803168FE861F69FCC69CC79C',
+  'D6F7DC74A8B9C6AEC2753204C6136FE6F516C929',
+  'D714D8456935FA20E60BD9E661423CB2583C79D9',
+  'D7966074B3D619B43EE1C6296AE5332C48D6CB1C',
+  'D79AC4A2B1AC0251B7BBBCEB4649E4A964BC5597',
+  'D81B69B3443BE6529521AE051E08515F45B39BF1',
+  'D851607621E80FD175DFECBBA90F2DF08DFAD5BF',
+  'D869DB7FE62FB07C25A0403ECAEA55031744B5FB',
+  'D8C64FB4213DC46D51A012E4F69D5890E544171B',
+  'D8CD10B920DCBDB5163CA0185E402357BC27C265',
+  'D99A16EBF6A70D2F47406343DF6BC9DAEF0D4895',
+  'DABA78D3C4AD9A0083B686515778DABDB3305BED',
+  'DB25F2FC14CD2D2B1E7AF307241F548FB03C312A',
+  'DB7DB5897571E433FD1EBC420D06EB91142AAFFB',
+  'DC76E9F0C0006E8F919E0C515C66DBBA3982F785',
+  'DCB94B0B87D6222FD6F30214FE01ABE179A9B16E',
+  'DD08B58E1D30DAD48D37A35A8760CFFE8D756CFA',
+  'DD5FEF9C1C1DA1394D6D34B248C51BE2AD740840',
+  'DD94709528BB1C83D08F3088D4043F4742891F4F',
+  'DDF45997A7E18A25AD5F5CF222DA64814DD060D5',
+  'DE4AB6E26DB462B930510BA83E9F80B7DB2BEF88',
+  'DE61F824AB25050E5870F29E6E064B4B702BA1E4',
+  'DEA742E166979027AE70B28E0A9006FB1010E760',
+  'DF0B6C410FC70CEEB16C10880A3D0A573CA26631',
+  'DF70F9B975B42116EE6C0231A7E6EAD0BBB283AA',
+  'E07F8C4AB682212744526982F0F08D336E1C9041',
+  'E0C95748A455C27A80FD289269120D4944D1F318',
+  'E18BA7E526C93A837D7BA6D45EA292AD66C42930',
+  'E286977B13F1A89E20D0459207545D15FE1EBA08',
+  'E2F3E36EA43BA45AB3503CED0A944CD1A950065C',
+  'E38AD214943DAAD1D64C102FAEC29DE4AFE9DA3D',
+  'E3CD9F6469FC3E1ACFB9F2BDBFC5A3D2BBB8E2AD',
+  'E3D9D95962C452F35E4CE7166B8D584F7B43ADF0',
+  'E5E9FA1BA31ECD1AE84F75CAAA474F3A663F05F4',
+  'E6852777C0260493DE41FB43918AB07BBB3A659C',
+  'E68E11BE8B70E435C65AEF8BA9798FF7775C361E',
+  'E6B6AFBD6D76BB5D2041542D7D2E3FAC5BB05593',
+  'E7D537E128158790157EA057BB883E0292A84930',
+  'E7EA4F94CB4AF75C6643566CA6D95D9433B8A6F2',
+  'E8126C64C3486E84081FFFAD6A0AB22D4267BB41',
+  'E9FE51F94EADABF54DBF2FBBD57188B9ABEE436E',
+  'EAB0F0D675765E4F0E8773762673A9D86F53028C',
+  'EB068C74E80689F5FE7A1028D991786BBACCFF57',
+  'EB3B0C150D06E5AA2E8D921FEA8C1056C1FEA6F8',
+  'EB4608CEBFCFD4DF81410CBD06507EA6AF978D9C',
+  'EBFC7910077770C8340F63CD2DCA2AC1F120444F',
+  'EC30ADC79E734900430E4174CF0A36C2D0C42272',
+  'EC4083CA341DA86269204F1FDEBBA909F0F5699E',
+  'EC461B5480380ECF863D9802EDBE70152AEE1C46',
+  'EC5A7C3E21436A8E76716710CE551356F9AA745E',
+  'ECB7B4F4EA2FE692223555D6051620A093CA01CB',
+  'ED9D3D832AF899035363A69FD53CD3BE8F71501C',
+  'EE8D8728F435FD550F83852AABAB5234CE1DA528',
+  'EF0EBBB77298E1FBD81F756A4EFC35B977C93DAE',
+  'EF7830DB5BFBF3536820C00105AB5734EF4609FC',
+  'EF89A3A842B0384565A210F0122804F411FE51FB',
+  'EF971EE38BBA25D9AC8A840D235457A038448B09',
+  'EFCE8CD161897FEEAA7979D892DC26A8A8D8EEA3',
+  'EFEBDFC78EA1935C4B926324522B452B766FBC76',
+  'F001F96576472A769C087F98121B0345A559A11E',
+  'F0744D60DD500C92C0D37C16174CC58D3C4BDD8E',
+  'F08A7A19E6F47E1125C9AEE2336C6759C7798FE4',
+  'F0D61723FDF7301391BEA5FFF1EF28FA3C7D0EEA',
+  'F11EA658082349955674A565FE658AD5BEDFB328',
+  'F15E518A239A5DDBC4E7F942B93B7FBD60C1048D',
+  'F1EB08C4E3F8A5AB5761723B1210AD4C30E41DC7',
+  'F2847B1BD9624F927E979C1846D9FE17DD65F518',
+  'F2B14F68EB995FACB3A1C35287B778D5BD785511',
+  'F32157A45887E4FE5ADC0B5198F7EC4920A526D7',
+  'F32BCA49B3796C2F74F13B29FCDBF6C5F7BE00A8',
+  'F4A69973E7B0BF9D160F9F60E3C3ACD2494BEB0D',
+  'F4C16FCFFE10DC7743AB27040AC0A805B3D54F9A',
+  'F4EE7415066B23ED0C5555E3A10AA76726A995D7',
+  'F61A56082C62717815E7024BD7694BF3AC7F49A1',
+  'F71B47E5F8BE4C6E31DAD9F5BB646B0D544B5A90',
+  'F732DFDBD0AED62727F958CCCCA9EC3A5CB13EDA',
+  'F7A9E24777EC23212C54D7A350BC5BEA5477FDBB',
+  'F7C3BC1D808E04732ADF679965CCC34CA7AE3441',
+  'F80D0CA101E967B50B730DDF8E8ACA0DE85E8DF6',
+  'F8248E12727710C946F73D8F6E02EB93530DD9DE',
+  'F865B53623B121FD34EE5426C792E5C33AF8C227',
+  'F872CAAD177D67BBE18C119D0505F2D3CAA02AF3',
+  'F91D8F69C042267444B74CC0B3C747757EB0E065',
+  'FA9BEB99E4029AD5A6615399E7BBAE21356086B3',
+  'FAC673092FBDCAB2CD92EFC19675F2750ED97CA1',
+  'FBA9F1C9AE2A8AFE7815C9CDD492512622A66302',
+  'FC84AAA687374AED41957693F32664E5F4981862',
+  'FDB87DFD199045AF7165780B11640B83768A0D57',
+  'FDDA0C46F953C1A45BDC520849BE1E4EDF4E228C',
+  'FE09BC2EF2737A3258F978E26226DCBAC1B3F948',
+  'FF9E43337E6AF8AB422C86C86B5C7F99375BF5C0',
+  'FFAAAFBDEE1DE041310096E1FF171618A2049F6E',
+];
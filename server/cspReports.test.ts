@@ -0,0 +1,46 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("./supabaseAuth", () => ({ supabaseAdmin: {} }));
+
+import { normalizeBlockedUri, parseCspReportBody } from "./cspReports";
+
+describe("CSP reports", () => {
+  it("parses legacy report-uri bodies", () => {
+    const violations = parseCspReportBody({
+      "csp-report": {
+        "document-uri": "https://admin.example.com/users?id=42",
+        "violated-directive": "script-src 'self'",
+        "blocked-uri": "https://cdn.example.net/lib.js?v=3",
+        "line-number": 12,
+      },
+    });
+    expect(violations).toEqual([
+      expect.objectContaining({
+        directive: "script-src",
+        blockedUri: "https://cdn.example.net/lib.js",
+        disposition: "enforce",
+        documentUri: "https://admin.example.com/users",
+        lineNumber: 12,
+      }),
+    ]);
+  });
+
+  it("parses Reporting API bodies and ignores other report types", () => {
+    const violations = parseCspReportBody([
+      {
+        type: "csp-violation",
+        body: { effectiveDirective: "img-src", blockedURL: "data:image/png;base64,AAAA", disposition: "report" },
+      },
+      { type: "deprecation", body: { id: "x" } },
+    ]);
+    expect(violations).toHaveLength(1);
+    expect(violations[0]).toMatchObject({ directive: "img-src", blockedUri: "data", disposition: "report" });
+  });
+
+  it("keeps keywords and drops query strings from blocked URIs", () => {
+    expect(normalizeBlockedUri("inline")).toBe("inline");
+    expect(normalizeBlockedUri("/api/x?token=secret#frag")).toBe("/api/x");
+    expect(normalizeBlockedUri(undefined)).toBe("unknown");
+    expect(parseCspReportBody({ unrelated: true })).toEqual([]);
+  });
+});
@@ -0,0 +1,285 @@
+/**
+ * CSP Reports Module
+ *
+ * Receives Content-Security-Policy violation reports at POST /api/csp-report,
+ * in both the legacy report-uri format (application/csp-report) and the
+ * Reporting API format (application/reports+json). Reports are grouped by
+ * directive, blocked URI and disposition (enforced or report-only), counted
+ * in memory, and flushed to the csp_reports table every few seconds, so a
+ * page that fires hundreds of reports costs one database write.
+ */
+
+import type { Request, Response } from "express";
+import { supabaseAdmin } from "./supabaseAuth";
+
+export const CspDispositions = {
+  ENFORCE: 'enforce',
+  REPORT: 'report',
+} as const;
+
+export type CspDisposition = typeof CspDispositions[keyof typeof CspDispositions];
+
+export interface CspViolation {
+  directive: string;
+  blockedUri: string;
+  disposition: CspDisposition;
+  documentUri: string | null;
+  sourceFile: string | null;
+  lineNumber: number | null;
+  columnNumber: number | null;
+  sample: string | null;
+}
+
+export interface CspReportGroup {
+  id: string;
+  directive: string;
+  blockedUri: string;
+  disposition: CspDisposition;
+  count: number;
+  documentUri: string | null;
+  sourceFile: string | null;
+  lineNumber: number | null;
+  columnNumber: number | null;
+  sample: string | null;
+  userAgent: string | null;
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+}
+
+const FLUSH_INTERVAL_MS = 10 * 1000;
+// Distinct groups held between flushes; reports for new groups beyond this are dropped
+const MAX_PENDING_GROUPS = 500;
+const MAX_FIELD_LENGTH = 500;
+
+const clip = (value: unknown): string | null => {
+  if (value === null || value === undefined || value === '') return null;
+  return String(value).slice(0, MAX_FIELD_LENGTH);
+};
+
+const toNumber = (value: unknown): number | null => {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : null;
+};
+
+/**
+ * Reduce a blocked URI to something that groups well and holds no secrets:
+ * URLs keep scheme, host and path (no query or fragment); keywords such as
+ * "inline" or "eval" are kept as-is.
+ */
+export function normalizeBlockedUri(value: unknown): string {
+  const raw = clip(value);
+  if (!raw) return 'unknown';
+  try {
+    const url = new URL(raw);
+    if (url.protocol === 'data:' || url.protocol === 'blob:') return url.protocol.slice(0, -1);
+    return `${url.protocol}//${url.host}${url.pathname}`;
+  } catch {
+    return raw.split(/[?#]/)[0];
+  }
+}
+
+function normalizeDocumentUri(value: unknown): string | null {
+  const raw = clip(value);
+  if (!raw) return null;
+  try {
+    const url = new URL(raw);
+    return `${url.origin}${url.pathname}`;
+  } catch {
+    return raw.split(/[?#]/)[0];
+  }
+}
+
+function toViolation(report: Record<string, unknown>): CspViolation | null {
+  const directive = clip(report.effectiveDirective ?? report['effective-directive'] ?? report['violated-directive']);
+  if (!directive) return null;
+
+  const disposition = report.disposition === CspDispositions.REPORT ? CspDispositions.REPORT : CspDispositions.ENFORCE;
+  return {
+    // violated-directive may carry the full directive value; keep its name
+    directive: directive.split(' ')[0],
+    blockedUri: normalizeBlockedUri(report.blockedURL ?? report['blocked-uri']),
+    disposition,
+    documentUri: normalizeDocumentUri(report.documentURL ?? report['document-uri']),
+    sourceFile: normalizeDocumentUri(report.sourceFile ?? report['source-file']),
+    lineNumber: toNumber(report.lineNumber ?? report['line-number']),
+    columnNumber: toNumber(report.columnNumber ?? report['column-number']),
+    sample: clip(report.sample ?? report['script-sample']),
+  };
+}
+
+/**
+ * Extract violations from a report-uri body ({"csp-report": {...}}) or a
+ * Reporting API body ([{ type: "csp-violation", body: {...} }, ...])
+ */
+export function parseCspReportBody(body: unknown): CspViolation[] {
+  if (Array.isArray(body)) {
+    return body
+      .filter(entry => entry && typeof entry === 'object' && entry.type === 'csp-violation' && entry.body)
+      .map(entry => toViolation(entry.body))
+      .filter((v): v is CspViolation => v !== null);
+  }
+
+  if (body && typeof body === 'object' && 'csp-report' in body) {
+    const report = (body as Record<string, unknown>)['csp-report'];
+    const violation = report && typeof report === 'object' ? toViolation(report as Record<string, unknown>) : null;
+    return violation ? [violation] : [];
+  }
+
+  return [];
+}
+
+// ============ AGGREGATION ============
+
+const pending = new Map<string, { violation: CspViolation; userAgent: string | null; count: number }>();
+
+function groupKey(v: CspViolation): string {
+  return `${v.disposition}|${v.directive}|${v.blockedUri}`;
+}
+
+/**
+ * Count violations towards their groups; written on the next flush
+ */
+export function recordCspViolations(violations: CspViolation[], userAgent: string | null): void {
+  for (const violation of violations) {
+    const key = groupKey(violation);
+    const existing = pending.get(key);
+    if (existing) {
+      existing.count += 1;
+      existing.violation = violation;
+      continue;
+    }
+    if (pending.size >= MAX_PENDING_GROUPS) continue;
+    pending.set(key, { violation, userAgent: clip(userAgent), count: 1 });
+  }
+}
+
+/**
+ * Write pending counts to csp_reports
+ */
+export async function flushCspReports(): Promise<number> {
+  if (pending.size === 0) return 0;
+
+  const batch = Array.from(pending.values());
+  pending.clear();
+
+  let written = 0;
+  for (const { violation, userAgent, count } of batch) {
+    try {
+      const { error } = await supabaseAdmin.rpc('csp_report_record', {
+        p_directive: violation.directive,
+        p_blocked_uri: violation.blockedUri,
+        p_disposition: violation.disposition,
+        p_count: count,
+        p_document_uri: violation.documentUri,
+        p_source_file: violation.sourceFile,
+        p_line_number: violation.lineNumber,
+        p_column_number: violation.columnNumber,
+        p_sample: violation.sample,
+        p_user_agent: userAgent,
+      });
+
+      if (error) {
+        console.error('[CspReports] Failed to record report:', error);
+        continue;
+      }
+      written += 1;
+    } catch (err) {
+      console.error('[CspReports] Exception recording report:', err);
+    }
+  }
+  return written;
+}
+
+/**
+ * Express handler for POST /api/csp-report. Always answers 204 so browsers
+ * don't retry.
+ */
+export function handleCspReport(req: Request, res: Response): void {
+  const violations = parseCspReportBody(req.body);
+  if (violations.length > 0) {
+    recordCspViolations(violations, req.headers['user-agent'] || null);
+  }
+  res.status(204).end();
+}
+
+// ============ VIEWER ============
+
+function mapGroup(row: any): CspReportGroup {
+  return {
+    id: row.id,
+    directive: row.directive,
+    blockedUri: row.blocked_uri,
+    disposition: row.disposition,
+    count: Number(row.count),
+    documentUri: row.document_uri,
+    sourceFile: row.source_file,
+    lineNumber: row.line_number,
+    columnNumber: row.column_number,
+    sample: row.sample,
+    userAgent: row.user_agent,
+    firstSeenAt: new Date(row.first_seen_at),
+    lastSeenAt: new Date(row.last_seen_at),
+  };
+}
+
+/**
+ * Report groups, most recently seen first
+ */
+export async function listCspReports(
+  filters: { directive?: string; disposition?: CspDisposition; search?: string } = {},
+  limit = 100,
+  offset = 0
+): Promise<{ reports: CspReportGroup[]; total: number }> {
+  try {
+    let query = supabaseAdmin
+      .from('csp_reports')
+      .select('*', { count: 'exact' })
+      .order('last_seen_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (filters.directive) query = query.eq('directive', filters.directive);
+    if (filters.disposition) query = query.eq('disposition', filters.disposition);
+    if (filters.search) {
+      const term = filters.search.replace(/[%_,()]/g, ' ').trim();
+      if (term) query = query.or(`blocked_uri.ilike.%${term}%,document_uri.ilike.%${term}%`);
+    }
+
+    const { data, error, count } = await query;
+    if (error) {
+      console.error('[CspReports] Failed to list reports:', error);
+      return { reports: [], total: 0 };
+    }
+    return { reports: (data || []).map(mapGroup), total: count || 0 };
+  } catch (err) {
+    console.error('[CspReports] Exception listing reports:', err);
+    return { reports: [], total: 0 };
+  }
+}
+
+/**
+ * Delete a report group once it has been dealt with; it reappears if the
+ * violation happens again
+ */
+export async function deleteCspReport(id: string): Promise<boolean> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('csp_reports')
+      .delete()
+      .eq('id', id)
+      .select('id');
+
+    if (error) {
+      console.error('[CspReports] Failed to delete report:', error);
+      return false;
+    }
+    return !!data && data.length > 0;
+  } catch (err) {
+    console.error('[CspReports] Exception deleting report:', err);
+    return false;
+  }
+}
+
+// Write aggregated reports (every 10 seconds)
+setInterval(() => {
+  flushCspReports().catch(err => console.error('[CspReports] Flush error:', err));
+}, FLUSH_INTERVAL_MS).unref?.();
@@ -0,0 +1,71 @@
+import { EventEmitter } from "events";
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("./_core/context", () => ({ createContext: vi.fn() }));
+vi.mock("./rbac", () => ({ getUserAccess: vi.fn() }));
+vi.mock("./loginSession", () => ({ getRequestClientInfo: vi.fn() }));
+vi.mock("./anomalyDetection", () => ({ listAnomalies: vi.fn() }));
+vi.mock("./apiKeys", () => ({ apiKeyAllows: vi.fn(), meterApiKeyRequest: vi.fn() }));
+vi.mock("./adminActivityRules", () => ({ checkDataExport: vi.fn() }));
+vi.mock("./auditLog", () => ({
+  queryAdminEvents: vi.fn(),
+  logAuditEvent: vi.fn(),
+  AuditActions: { DATA_EXPORT: "data_export" },
+  ResourceTypes: { AUDIT_LOG: "audit_log", ANOMALY: "anomaly" },
+}));
+
+import { createContext } from "./_core/context";
+import { getUserAccess } from "./rbac";
+import { getRequestClientInfo } from "./loginSession";
+import { queryAdminEvents, logAuditEvent } from "./auditLog";
+import { checkDataExport } from "./adminActivityRules";
+import { csvField, formatExportRow, handleDataExport } from "./dataExport";
+
+describe("data export formatting", () => {
+  it("escapes CSV fields and neutralizes spreadsheet formulas", () => {
+    expect(csvField(null)).toBe("");
+    expect(csvField("plain")).toBe("plain");
+    expect(csvField('say "hi", then')).toBe('"say ""hi"", then"');
+    expect(csvField("=HYPERLINK(1)")).toBe("'=HYPERLINK(1)");
+    expect(csvField({ a: 1 })).toBe('"{""a"":1}"');
+  });
+
+  it("formats rows as CSV in column order or as NDJSON", () => {
+    const row = { b: 2, a: "x" };
+    expect(formatExportRow(row, ["a", "b"], "csv")).toBe("x,2\r\n");
+    expect(formatExportRow(row, ["a", "b"], "ndjson")).toBe('{"b":2,"a":"x"}\n');
+  });
+});
+
+describe("data export streaming", () => {
+  it("records the export when the client disconnects while the buffer is full", async () => {
+    vi.mocked(createContext).mockResolvedValue({ user: { id: "admin-1", email: "admin@example.com" } } as any);
+    vi.mocked(getUserAccess).mockResolvedValue({ roles: ["auditor"], permissions: ["audit:read"] } as any);
+    vi.mocked(getRequestClientInfo).mockReturnValue({ clientIp: "203.0.113.7", userAgent: "vitest" } as any);
+    vi.mocked(queryAdminEvents).mockResolvedValue({ events: [{ id: "e1" }, { id: "e2" }], total: 2 } as any);
+
+    const req = Object.assign(new EventEmitter(), { params: { dataset: "audit_log" }, query: {} });
+    // The socket never drains: every write reports a full buffer
+    const res = Object.assign(new EventEmitter(), {
+      writableEnded: false,
+      destroyed: false,
+      setHeader: vi.fn(),
+      write: vi.fn(() => {
+        setImmediate(() => req.emit("close"));
+        return false;
+      }),
+      end: vi.fn(),
+    });
+
+    await handleDataExport(req as any, res as any);
+
+    expect(logAuditEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: "data_export",
+        success: false,
+        details: expect.objectContaining({ aborted: true, rowCount: 0 }),
+      })
+    );
+    expect(checkDataExport).toHaveBeenCalledWith(expect.objectContaining({ userId: "admin-1" }), "audit_log", 0);
+  });
+});
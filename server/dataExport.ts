@@ -0,0 +1,292 @@
+/**
+ * Data Export Module
+ *
+ * Streams filtered audit log and login anomaly results as CSV or NDJSON from
+ * GET /api/export/:dataset. Rows are read in pages and written as they arrive,
+ * so large exports never sit in memory. Every export is recorded in audit_log
+ * as DATA_EXPORT and checked against the admin behavior rules.
+ */
+
+import type { Request, Response } from "express";
+import { once } from "events";
+import { z } from "zod";
+import { PASSWORD_ROTATION_ERR_MSG } from "../shared/const";
+import { createContext } from "./_core/context";
+import { getUserAccess } from "./rbac";
+import { getRequestClientInfo } from "./loginSession";
+import { mustRotatePassword } from "./passwordPolicy";
+import { hasPermission, Permissions, type Permission } from "../shared/permissions";
+import {
+  queryAdminEvents,
+  logAuditEvent,
+  AuditActions,
+  ResourceTypes,
+} from "./auditLog";
+import { listAnomalies } from "./anomalyDetection";
+import { apiKeyAllows, meterApiKeyRequest } from "./apiKeys";
+import { checkDataExport } from "./adminActivityRules";
+
+export const ExportFormats = {
+  CSV: 'csv',
+  NDJSON: 'ndjson',
+} as const;
+
+export type ExportFormat = typeof ExportFormats[keyof typeof ExportFormats];
+
+const EXPORT_PAGE_SIZE = 1000;
+const EXPORT_MAX_ROWS = 100000;
+
+type ExportRow = Record<string, unknown>;
+
+interface ExportDataset {
+  permission: Permission;
+  // Router namespace whose API key scope covers this export
+  namespace: string;
+  columns: string[];
+  parseFilters: (query: Request['query']) => Record<string, unknown>;
+  fetchPage: (filters: any, offset: number, limit: number) => Promise<ExportRow[]>;
+}
+
+const optionalDate = z.coerce.date().optional();
+const commaList = z.string().optional().transform(v => v ? v.split(',').map(s => s.trim()).filter(Boolean) : undefined);
+
+const auditLogFilterSchema = z.object({
+  actor: z.string().trim().max(255).optional(),
+  action: commaList,
+  resourceType: z.string().optional(),
+  resourceId: z.string().optional(),
+  from: optionalDate,
+  to: optionalDate,
+  search: z.string().trim().max(200).optional(),
+  success: z.enum(['true', 'false']).optional().transform(v => v === undefined ? undefined : v === 'true'),
+});
+
+const anomalyFilterSchema = z.object({
+  type: z.string().optional(),
+  severity: z.string().optional(),
+  userEmail: z.string().optional(),
+  from: optionalDate,
+  to: optionalDate,
+  status: z.enum(['open', 'acknowledged', 'all']).optional().default('all'),
+});
+
+const datasets: Record<string, ExportDataset> = {
+  audit_log: {
+    permission: Permissions.AUDIT_READ,
+    namespace: 'auditLog',
+    columns: [
+      'created_at', 'id', 'actor_id', 'actor_email', 'action', 'resource_type', 'resource_id',
+      'success', 'error_message', 'ip_address', 'user_agent', 'details',
+    ],
+    parseFilters: (query) => {
+      const { action, ...rest } = auditLogFilterSchema.parse(query);
+      return { ...rest, actions: action };
+    },
+    fetchPage: async (filters, offset, limit) => {
+      const { events } = await queryAdminEvents(filters, limit, offset, { oldestFirst: true, withTotal: false });
+      return events.map(e => ({
+        created_at: e.createdAt,
+        id: e.id,
+        actor_id: e.actorId,
+        actor_email: e.actorEmail,
+        action: e.action,
+        resource_type: e.resourceType,
+        resource_id: e.resourceId,
+        success: e.success,
+        error_message: e.errorMessage,
+        ip_address: e.ipAddress,
+        user_agent: e.userAgent,
+        details: e.details,
+      }));
+    },
+  },
+  login_anomalies: {
+    permission: Permissions.SECURITY_READ,
+    namespace: 'auth',
+    columns: [
+      'created_at', 'id', 'user_id', 'user_email', 'anomaly_type', 'severity', 'ip_address', 'user_agent',
+      'acknowledged_at', 'acknowledged_by', 'acknowledgement_note', 'details',
+    ],
+    parseFilters: (query) => {
+      const { type, ...rest } = anomalyFilterSchema.parse(query);
+      return { ...rest, anomalyType: type };
+    },
+    fetchPage: async (filters, offset, limit) => {
+      const anomalies = await listAnomalies({ ...filters, offset, limit, oldestFirst: true });
+      return anomalies.map(a => ({
+        created_at: a.createdAt,
+        id: a.id,
+        user_id: a.userId,
+        user_email: a.userEmail,
+        anomaly_type: a.anomalyType,
+        severity: a.severity,
+        ip_address: a.ipAddress,
+        user_agent: a.userAgent,
+        acknowledged_at: a.acknowledgedAt,
+        acknowledged_by: a.acknowledgedBy,
+        acknowledgement_note: a.acknowledgementNote,
+        details: a.details,
+      }));
+    },
+  },
+};
+
+/**
+ * Escape one CSV field. Values that spreadsheets would run as formulas are
+ * prefixed with a quote.
+ */
+export function csvField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  let text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Format one row in the requested format, including the line ending
+ */
+export function formatExportRow(row: ExportRow, columns: string[], format: ExportFormat): string {
+  if (format === ExportFormats.NDJSON) {
+    return `${JSON.stringify(row)}\n`;
+  }
+  return `${columns.map(c => csvField(row[c])).join(',')}\r\n`;
+}
+
+/**
+ * Express handler for GET /api/export/:dataset?format=csv|ndjson&<filters>
+ */
+export async function handleDataExport(req: Request, res: Response): Promise<void> {
+  const dataset = datasets[req.params.dataset];
+  if (!dataset) {
+    res.status(404).json({ error: 'Unknown export' });
+    return;
+  }
+
+  const ctx = await createContext({ req, res });
+  const user = ctx.user;
+  if (!user) {
+    res.status(401).json({ error: 'You must be logged in to access this resource' });
+    return;
+  }
+  if (ctx.impersonation) {
+    res.status(403).json({ error: 'Exports are disabled while viewing as another user' });
+    return;
+  }
+  if (ctx.apiKey) {
+    if (!apiKeyAllows(ctx.apiKey.scopes, `${dataset.namespace}.export`, 'query')) {
+      res.status(403).json({ error: 'This API key is not allowed to export this data' });
+      return;
+    }
+    // Same per-key limit and usage count as tRPC calls (apiKeyGuard)
+    if (!(await meterApiKeyRequest(ctx.apiKey, req, res))) {
+      res.status(429).json({ error: 'API key rate limit exceeded, please slow down.' });
+      return;
+    }
+  }
+  const access = await getUserAccess(user.id);
+  if (!hasPermission(access.permissions, dataset.permission)) {
+    res.status(403).json({ error: 'You do not have permission to export this data' });
+    return;
+  }
+  if (mustRotatePassword(access.roles, user.passwordChangedAt)) {
+    res.status(403).json({ error: PASSWORD_ROTATION_ERR_MSG });
+    return;
+  }
+
+  const format: ExportFormat = req.query.format === ExportFormats.NDJSON ? ExportFormats.NDJSON : ExportFormats.CSV;
+  let filters: Record<string, unknown>;
+  try {
+    filters = dataset.parseFilters(req.query);
+  } catch {
+    res.status(400).json({ error: 'Invalid export filters' });
+    return;
+  }
+
+  const datasetName = req.params.dataset;
+  const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+  res.setHeader('Content-Type', format === ExportFormats.CSV ? 'text/csv; charset=utf-8' : 'application/x-ndjson; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="${datasetName}-${stamp}.${format}"`);
+  res.setHeader('Cache-Control', 'no-store');
+
+  // A disconnect ends the export; 'drain' never fires after one, so waits are aborted too
+  const disconnected = new AbortController();
+  const onClose = () => {
+    if (!res.writableEnded) disconnected.abort();
+  };
+  req.on('close', onClose);
+  res.on('close', onClose);
+  const isAborted = () => disconnected.signal.aborted || res.destroyed;
+
+  const write = async (chunk: string) => {
+    if (!res.write(chunk)) {
+      await once(res, 'drain', { signal: disconnected.signal });
+    }
+  };
+
+  // Rows written so far; the audit entry records them even if the client left
+  let rowCount = 0;
+  let fetched = 0;
+  let errorMessage: string | undefined;
+  try {
+    if (format === ExportFormats.CSV) {
+      await write(`${dataset.columns.join(',')}\r\n`);
+    }
+
+    while (!isAborted() && fetched < EXPORT_MAX_ROWS) {
+      const limit = Math.min(EXPORT_PAGE_SIZE, EXPORT_MAX_ROWS - fetched);
+      const rows = await dataset.fetchPage(filters, fetched, limit);
+      fetched += rows.length;
+      for (const row of rows) {
+        if (isAborted()) break;
+        await write(formatExportRow(row, dataset.columns, format));
+        rowCount++;
+      }
+      if (rows.length < limit) break;
+    }
+  } catch (err) {
+    if (!isAborted()) {
+      console.error(`[DataExport] ${datasetName} export failed:`, err);
+      errorMessage = err instanceof Error ? err.message : 'Export failed';
+    }
+  } finally {
+    const aborted = isAborted() && !errorMessage;
+    req.off('close', onClose);
+    res.off('close', onClose);
+    if (!res.destroyed) res.end();
+
+    // Recorded and checked even when the client disconnected part-way
+    const { clientIp, userAgent } = getRequestClientInfo(req);
+    await logAuditEvent({
+      userId: user.id,
+      userEmail: user.email,
+      action: AuditActions.DATA_EXPORT,
+      resourceType: datasetName === 'audit_log' ? ResourceTypes.AUDIT_LOG : ResourceTypes.ANOMALY,
+      details: {
+        dataset: datasetName,
+        format,
+        filters,
+        rowCount,
+        truncated: fetched >= EXPORT_MAX_ROWS,
+        aborted,
+      },
+      ipAddress: clientIp,
+      userAgent,
+      success: !errorMessage && !aborted,
+      errorMessage: errorMessage || (aborted ? 'Client disconnected' : undefined),
+    });
+
+    await checkDataExport(
+      {
+        userId: user.id,
+        userEmail: user.email,
+        ipAddress: clientIp,
+        userAgent,
+        viaApiKey: !!ctx.apiKey,
+      },
+      datasetName,
+      rowCount
+    );
+  }
+}
@@ -0,0 +1,222 @@
+/**
+ * Data Retention Module
+ *
+ * Moves audit_log and login_anomalies rows older than their configured
+ * retention into gzip-compressed NDJSON archives in storage (via storagePut),
+ * then deletes them from the database. Rows are only deleted after their
+ * archive uploaded successfully. Each archive file is recorded in the
+ * data_archives table and each run in audit_log as DATA_ARCHIVED.
+ *
+ * audit_log is archived as a prefix of its hash chain (see auditLog.ts): every
+ * chained entry up to the last one older than the cutoff goes, and the last
+ * archived entry is recorded, signed, with its archive so verifyAuditChain
+ * can resume the chain from there.
+ *
+ * Retention is off unless AUDIT_LOG_RETENTION_DAYS or
+ * LOGIN_ANOMALY_RETENTION_DAYS is set. It runs as the data_retention job in
+ * jobScheduler.ts.
+ */
+
+import { gzipSync } from "zlib";
+import { randomUUID } from "crypto";
+import { supabaseAdmin } from "./supabaseAuth";
+import { storagePut } from "./storage";
+import { buildAuditArchiveBoundary, logAuditEvent, AuditActions, ResourceTypes } from "./auditLog";
+
+export const RetentionTables = {
+  AUDIT_LOG: 'audit_log',
+  LOGIN_ANOMALIES: 'login_anomalies',
+} as const;
+
+export type RetentionTable = typeof RetentionTables[keyof typeof RetentionTables];
+
+export interface RetentionPolicy {
+  table: RetentionTable;
+  days: number;
+}
+
+export interface ArchiveResult {
+  table: RetentionTable;
+  cutoff: string;
+  rowsArchived: number;
+  files: string[];
+  error?: string;
+}
+
+// Shorter retention is refused so a typo can't wipe recent history
+export const MIN_RETENTION_DAYS = 30;
+
+const ARCHIVE_BATCH_SIZE = 5000;
+const DELETE_CHUNK_SIZE = 500;
+// Upper bound per table per run; the next run picks up the rest
+const MAX_BATCHES_PER_RUN = 20;
+
+const RETENTION_ENV: Record<RetentionTable, string> = {
+  [RetentionTables.AUDIT_LOG]: 'AUDIT_LOG_RETENTION_DAYS',
+  [RetentionTables.LOGIN_ANOMALIES]: 'LOGIN_ANOMALY_RETENTION_DAYS',
+};
+
+/**
+ * Read retention policies from the environment. Unset or 0 keeps rows forever.
+ */
+export function getRetentionPolicies(env: NodeJS.ProcessEnv = process.env): RetentionPolicy[] {
+  const policies: RetentionPolicy[] = [];
+  (Object.keys(RETENTION_ENV) as RetentionTable[]).forEach(table => {
+    const raw = env[RETENTION_ENV[table]];
+    const days = raw ? parseInt(raw, 10) : 0;
+    if (!days || Number.isNaN(days) || days <= 0) return;
+    if (days < MIN_RETENTION_DAYS) {
+      console.warn(`[Retention] ${RETENTION_ENV[table]}=${days} is below the ${MIN_RETENTION_DAYS}-day minimum; using ${MIN_RETENTION_DAYS}`);
+    }
+    policies.push({ table, days: Math.max(days, MIN_RETENTION_DAYS) });
+  });
+  return policies;
+}
+
+/**
+ * Storage key for an archive file, e.g.
+ * archives/audit_log/2026-01-15/audit_log_2025-10-01T00-00-00_2025-10-03T12-30-00_1a2b3c4d.ndjson.gz
+ */
+export function buildArchiveKey(table: RetentionTable, firstCreatedAt: string, lastCreatedAt: string, now: Date): string {
+  const safe = (iso: string) => new Date(iso).toISOString().slice(0, 19).replace(/:/g, '-');
+  return `archives/${table}/${now.toISOString().slice(0, 10)}/${table}_${safe(firstCreatedAt)}_${safe(lastCreatedAt)}_${randomUUID().slice(0, 8)}.ndjson.gz`;
+}
+
+async function deleteArchivedRows(table: RetentionTable, ids: string[]): Promise<boolean> {
+  for (let i = 0; i < ids.length; i += DELETE_CHUNK_SIZE) {
+    const { error } = await supabaseAdmin
+      .from(table)
+      .delete()
+      .in('id', ids.slice(i, i + DELETE_CHUNK_SIZE));
+
+    if (error) {
+      console.error(`[Retention] Failed to delete archived ${table} rows:`, error);
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Last audit chain sequence number written before the cutoff; the chain is
+ * archived up to it so it is cut at a single point
+ */
+async function getLastChainSeqBefore(cutoff: string): Promise<number | null> {
+  const { data, error } = await supabaseAdmin
+    .from(RetentionTables.AUDIT_LOG)
+    .select('chain_seq')
+    .not('chain_seq', 'is', null)
+    .lt('created_at', cutoff)
+    .order('chain_seq', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data?.chain_seq ?? null;
+}
+
+/**
+ * Next batch of expired rows. audit_log goes in chain order, including the
+ * few entries just past the cutoff that were chained before its last expired one.
+ */
+function selectExpiredBatch(table: RetentionTable, cutoff: string, lastChainSeq: number | null) {
+  const query = supabaseAdmin.from(table).select('*');
+  if (table !== RetentionTables.AUDIT_LOG) {
+    return query.lt('created_at', cutoff).order('created_at', { ascending: true }).limit(ARCHIVE_BATCH_SIZE);
+  }
+
+  const unchained = `and(chain_seq.is.null,created_at.lt.${cutoff})`;
+  return query
+    .or(lastChainSeq !== null ? `chain_seq.lte.${lastChainSeq},${unchained}` : unchained)
+    .order('chain_seq', { ascending: true, nullsFirst: true })
+    .limit(ARCHIVE_BATCH_SIZE);
+}
+
+/**
+ * Archive and delete one table's rows older than the policy's cutoff
+ */
+export async function archiveExpiredRows(policy: RetentionPolicy, now: Date = new Date()): Promise<ArchiveResult> {
+  const cutoff = new Date(now.getTime() - policy.days * 24 * 60 * 60 * 1000).toISOString();
+  const result: ArchiveResult = { table: policy.table, cutoff, rowsArchived: 0, files: [] };
+
+  try {
+    const lastChainSeq = policy.table === RetentionTables.AUDIT_LOG ? await getLastChainSeqBefore(cutoff) : null;
+    for (let batch = 0; batch < MAX_BATCHES_PER_RUN; batch++) {
+      const { data, error } = await selectExpiredBatch(policy.table, cutoff, lastChainSeq);
+
+      if (error) {
+        result.error = error.message;
+        console.error(`[Retention] Failed to read expired ${policy.table} rows:`, error);
+        break;
+      }
+
+      const rows = data || [];
+      if (rows.length === 0) break;
+
+      const body = gzipSync(rows.map(row => JSON.stringify(row)).join('\n') + '\n');
+      const key = buildArchiveKey(policy.table, rows[0].created_at, rows[rows.length - 1].created_at, now);
+      const { url } = await storagePut(key, body, 'application/gzip');
+
+      // Recorded before the rows are deleted, so the chain boundary is never lost
+      const { error: recordError } = await supabaseAdmin.from('data_archives').insert({
+        table_name: policy.table,
+        storage_key: key,
+        storage_url: url,
+        row_count: rows.length,
+        first_created_at: rows[0].created_at,
+        last_created_at: rows[rows.length - 1].created_at,
+        size_bytes: body.length,
+        ...(policy.table === RetentionTables.AUDIT_LOG ? buildAuditArchiveBoundary(rows) : null),
+      });
+      result.files.push(key);
+      if (recordError) {
+        result.error = 'Archive could not be recorded';
+        console.error(`[Retention] Failed to record ${policy.table} archive:`, recordError);
+        break;
+      }
+
+      const deleted = await deleteArchivedRows(policy.table, rows.map(row => row.id));
+      if (!deleted) {
+        result.error = 'Archived rows could not be deleted';
+        break;
+      }
+
+      result.rowsArchived += rows.length;
+      if (rows.length < ARCHIVE_BATCH_SIZE) break;
+    }
+  } catch (err) {
+    result.error = err instanceof Error ? err.message : String(err);
+    console.error(`[Retention] Exception archiving ${policy.table}:`, err);
+  }
+
+  if (result.rowsArchived > 0 || result.error) {
+    console.log(`[Retention] Archived ${result.rowsArchived} ${policy.table} row(s) older than ${cutoff} into ${result.files.length} file(s)`);
+    await logAuditEvent({
+      action: AuditActions.DATA_ARCHIVED,
+      resourceType: policy.table === RetentionTables.AUDIT_LOG ? ResourceTypes.AUDIT_LOG : ResourceTypes.ANOMALY,
+      details: {
+        table: policy.table,
+        retentionDays: policy.days,
+        cutoff,
+        rowsArchived: result.rowsArchived,
+        files: result.files,
+      },
+      success: !result.error,
+      errorMessage: result.error,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Apply every configured retention policy
+ */
+export async function runRetention(now: Date = new Date()): Promise<ArchiveResult[]> {
+  const policies = getRetentionPolicies();
+  const results: ArchiveResult[] = [];
+  for (const policy of policies) {
+    results.push(await archiveExpiredRows(policy, now));
+  }
+  return results;
+}
@@ -261,6 +261,27 @@ export async function snoozeDraft(
   });
 }
 
+// Clear expired snoozes so the drafts surface again as active
+export async function releaseSnoozedDrafts(now: Date = new Date()): Promise<number> {
+  try {
+    const { data, error } = await supabase
+      .from("content_drafts")
+      .update({ remind_later_until: null, updated_at: now.toISOString() })
+      .lte("remind_later_until", now.toISOString())
+      .neq("status", "submitted")
+      .select("id");
+
+    if (error) {
+      console.error("[DraftDb] Release snoozed drafts error:", error);
+      return 0;
+    }
+    return data?.length || 0;
+  } catch (error) {
+    console.error("[DraftDb] Release snoozed drafts exception:", error);
+    return 0;
+  }
+}
+
 export interface SubmitDraftResult {
   success: boolean;
   final_id?: string;
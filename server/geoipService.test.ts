@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { GeoLookupCache, getGeoLocation, setGeoDatabases, type GeoLocation } from "./geoipService";
+
+const location = (ip: string): GeoLocation => ({
+  ip,
+  country: "Testland",
+  countryCode: "TL",
+  region: "",
+  city: "",
+  lat: 0,
+  lon: 0,
+  isp: "",
+  isValid: true,
+});
+
+describe("GeoLookupCache", () => {
+  it("evicts the least recently used entry", () => {
+    const cache = new GeoLookupCache(2, 60_000);
+    cache.set("1.1.1.1", location("1.1.1.1"), 0);
+    cache.set("2.2.2.2", location("2.2.2.2"), 0);
+
+    // Touch the first entry so the second becomes least recently used
+    expect(cache.get("1.1.1.1", 1)).toBeDefined();
+    cache.set("3.3.3.3", location("3.3.3.3"), 2);
+
+    expect(cache.get("2.2.2.2", 3)).toBeUndefined();
+    expect(cache.get("1.1.1.1", 3)).toBeDefined();
+    expect(cache.size).toBe(2);
+  });
+
+  it("expires entries after the TTL", () => {
+    const cache = new GeoLookupCache(10, 1000);
+    cache.set("1.1.1.1", location("1.1.1.1"), 0);
+    expect(cache.get("1.1.1.1", 999)).toBeDefined();
+    expect(cache.get("1.1.1.1", 2000)).toBeUndefined();
+  });
+});
+
+describe("getGeoLocation with a local database", () => {
+  afterEach(() => {
+    setGeoDatabases(null);
+    vi.unstubAllGlobals();
+  });
+
+  it("maps database records and never calls the HTTP provider", async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+
+    const get = vi.fn((ip: string) =>
+      ip === "81.2.69.142"
+        ? ({
+            country: { geoname_id: 1, iso_code: "GB", names: { en: "United Kingdom" } },
+            subdivisions: [{ geoname_id: 2, iso_code: "ENG", names: { en: "England" } }],
+            city: { geoname_id: 3, names: { en: "London" } },
+            location: { accuracy_radius: 10, latitude: 51.5, longitude: -0.1 },
+          } as any)
+        : null
+    );
+    setGeoDatabases({
+      city: { get },
+      asn: { get: () => ({ autonomous_system_number: 1, autonomous_system_organization: "Example ISP" }) as any },
+    });
+
+    const geo = await getGeoLocation("81.2.69.142");
+    expect(geo).toMatchObject({
+      country: "United Kingdom",
+      countryCode: "GB",
+      region: "England",
+      city: "London",
+      lat: 51.5,
+      lon: -0.1,
+      isp: "Example ISP",
+    });
+
+    // Cached on the second lookup; unknown IPs resolve to null without HTTP
+    await getGeoLocation("81.2.69.142");
+    expect(get).toHaveBeenCalledTimes(1);
+    expect(await getGeoLocation("8.8.8.8")).toBeNull();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -2,12 +2,16 @@
  * GeoIP Service Module
  * 
  * Provides IP geolocation for detecting impossible travel and geographic anomalies.
- * Uses ip-api.com free tier (45 requests/minute) with caching.
+ * When GEOIP_DB_PATH points at a MaxMind-format (.mmdb) City database, lookups
+ * are done locally (optionally enriched with ISP names from GEOIP_ASN_DB_PATH).
+ * Only when no database file is configured does it fall back to the ip-api.com
+ * free tier (45 requests/minute). Results are kept in an LRU cache either way.
  */
 
-// Cache for IP geolocation results
-const geoCache = new Map<string, { data: GeoLocation; timestamp: number }>();
+import maxmind, { type AsnResponse, type CityResponse, type Reader } from "maxmind";
+
 const GEO_CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const GEO_CACHE_MAX_ENTRIES = 10000;
 
 // Rate limiting for API calls
 let apiCallsThisMinute = 0;
@@ -48,6 +52,154 @@ const MIN_DISTANCE_FOR_ANALYSIS_KM = 100;
 // Ignore very short intervals that might be session refreshes
 const MIN_TIME_FOR_ANALYSIS_MINUTES = 5;
 
+// ============ LRU CACHE ============
+
+/**
+ * Size-bounded cache that evicts the least recently used entry.
+ * Relies on Map preserving insertion order: hits are re-inserted at the end.
+ */
+export class GeoLookupCache {
+  private entries = new Map<string, { data: GeoLocation; timestamp: number }>();
+
+  constructor(private maxEntries: number = GEO_CACHE_MAX_ENTRIES, private ttlMs: number = GEO_CACHE_TTL_MS) {}
+
+  get(ip: string, now: number = Date.now()): GeoLocation | undefined {
+    const entry = this.entries.get(ip);
+    if (!entry) {
+      return undefined;
+    }
+
+    this.entries.delete(ip);
+    if (now - entry.timestamp >= this.ttlMs) {
+      return undefined;
+    }
+
+    this.entries.set(ip, entry);
+    return entry.data;
+  }
+
+  set(ip: string, data: GeoLocation, now: number = Date.now()): void {
+    this.entries.delete(ip);
+    this.entries.set(ip, { data, timestamp: now });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  /**
+   * Drop expired entries
+   */
+  prune(now: number = Date.now()): void {
+    Array.from(this.entries.entries()).forEach(([ip, entry]) => {
+      if (now - entry.timestamp >= this.ttlMs) {
+        this.entries.delete(ip);
+      }
+    });
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+const geoCache = new GeoLookupCache();
+
+// ============ LOCAL DATABASE ============
+
+interface GeoDatabases {
+  city: Pick<Reader<CityResponse>, 'get'>;
+  asn?: Pick<Reader<AsnResponse>, 'get'> | null;
+}
+
+let databasesPromise: Promise<GeoDatabases | null> | null = null;
+
+/**
+ * Whether a local database file is configured (disables the HTTP provider)
+ */
+export function isGeoDatabaseConfigured(): boolean {
+  return !!process.env.GEOIP_DB_PATH || databasesPromise !== null;
+}
+
+/**
+ * Open the configured database files once and share the readers
+ */
+function getDatabases(): Promise<GeoDatabases | null> {
+  if (!databasesPromise) {
+    const cityPath = process.env.GEOIP_DB_PATH;
+    const asnPath = process.env.GEOIP_ASN_DB_PATH;
+
+    databasesPromise = (async () => {
+      try {
+        const city = await maxmind.open<CityResponse>(cityPath!, { watchForUpdates: true, watchForUpdatesNonPersistent: true });
+        let asn: Reader<AsnResponse> | null = null;
+        if (asnPath) {
+          try {
+            asn = await maxmind.open<AsnResponse>(asnPath, { watchForUpdates: true, watchForUpdatesNonPersistent: true });
+          } catch (err) {
+            console.error('[GeoIP] Failed to open ASN database, ISP names unavailable:', err);
+          }
+        }
+        console.log(`[GeoIP] Using local database ${cityPath}`);
+        return { city, asn };
+      } catch (err) {
+        console.error('[GeoIP] Failed to open database:', cityPath, err);
+        return null;
+      }
+    })();
+  }
+  return databasesPromise;
+}
+
+/**
+ * Use the given readers instead of opening GEOIP_DB_PATH (e.g. in tests).
+ * Pass null to go back to the environment configuration.
+ */
+export function setGeoDatabases(databases: GeoDatabases | null): void {
+  databasesPromise = databases ? Promise.resolve(databases) : null;
+  geoCache.clear();
+}
+
+/**
+ * Look up an IP in the local database
+ */
+async function lookupInDatabase(ip: string): Promise<GeoLocation | null> {
+  const databases = await getDatabases();
+  if (!databases || !maxmind.validate(ip)) {
+    return null;
+  }
+
+  try {
+    const record = databases.city.get(ip);
+    if (!record?.location) {
+      return null;
+    }
+
+    const asn = databases.asn?.get(ip);
+
+    return {
+      ip,
+      country: record.country?.names.en || '',
+      countryCode: record.country?.iso_code || '',
+      region: record.subdivisions?.[0]?.names.en || '',
+      city: record.city?.names.en || '',
+      lat: record.location.latitude,
+      lon: record.location.longitude,
+      isp: record.traits?.isp || asn?.autonomous_system_organization || record.traits?.autonomous_system_organization || '',
+      isValid: true,
+    };
+  } catch (err) {
+    console.error('[GeoIP] Exception during database lookup:', err);
+    return null;
+  }
+}
+
 /**
  * Check rate limit and reset if minute has passed
  */
@@ -92,10 +244,26 @@ export async function getGeoLocation(ip: string): Promise<GeoLocation | null> {
 
   // Check cache first
   const cached = geoCache.get(ip);
-  if (cached && (Date.now() - cached.timestamp) < GEO_CACHE_TTL_MS) {
-    return cached.data;
+  if (cached) {
+    return cached;
   }
 
+  // A configured database is authoritative; never fall back to HTTP
+  if (isGeoDatabaseConfigured()) {
+    const geoLocation = await lookupInDatabase(ip);
+    if (geoLocation) {
+      geoCache.set(ip, geoLocation);
+    }
+    return geoLocation;
+  }
+
+  return lookupViaHttp(ip);
+}
+
+/**
+ * Look up an IP via ip-api.com (used only when no database is configured)
+ */
+async function lookupViaHttp(ip: string): Promise<GeoLocation | null> {
   // Check rate limit
   if (!checkRateLimit()) {
     console.warn('[GeoIP] Rate limit reached, skipping lookup');
@@ -133,7 +301,7 @@ export async function getGeoLocation(ip: string): Promise<GeoLocation | null> {
     };
 
     // Cache the result
-    geoCache.set(ip, { data: geoLocation, timestamp: Date.now() });
+    geoCache.set(ip, geoLocation);
 
     return geoLocation;
   } catch (err) {
@@ -291,10 +459,5 @@ export async function getLastKnownLocation(
 
 // Cleanup old cache entries periodically
 setInterval(() => {
-  const now = Date.now();
-  for (const [ip, entry] of geoCache.entries()) {
-    if ((now - entry.timestamp) > GEO_CACHE_TTL_MS) {
-      geoCache.delete(ip);
-    }
-  }
+  geoCache.prune();
 }, 60 * 60 * 1000); // Every hour
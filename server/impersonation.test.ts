@@ -0,0 +1,39 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("./supabaseAuth", () => ({ supabaseAdmin: {} }));
+vi.mock("./auditLog", () => ({
+  logAuditEvent: vi.fn(),
+  AuditActions: { IMPERSONATED_REQUEST: "impersonated_request" },
+  ResourceTypes: { USER: "user" },
+}));
+
+import { z } from "zod";
+import { publicProcedure, router } from "./_core/trpc";
+import { isAllowedWhileImpersonating } from "./impersonation";
+
+describe("impersonation access", () => {
+  it("allows the viewed user's own content", () => {
+    expect(isAllowedWhileImpersonating("tavvyPlaces.getTavvyPlaces", "query")).toBe(true);
+    expect(isAllowedWhileImpersonating("drafts.list", "query")).toBe(true);
+    expect(isAllowedWhileImpersonating("impersonation.stop", "mutation")).toBe(true);
+    expect(isAllowedWhileImpersonating("drafts.delete", "mutation")).toBe(false);
+  });
+
+  it("refuses queries outside the allowlist", async () => {
+    const testRouter = router({
+      drafts: router({ list: publicProcedure.query(() => "drafts") }),
+      users: router({ getAll: publicProcedure.input(z.void()).query(() => "everyone") }),
+    });
+    const caller = testRouter.createCaller({
+      req: { headers: {}, cookies: {}, socket: {} },
+      res: {},
+      user: { id: "user-1" },
+      impersonator: { id: "admin-1" },
+      impersonation: { id: "imp-1", targetUserId: "user-1", targetEmail: "user@example.com" },
+      apiKey: null,
+    } as any);
+
+    await expect(caller.drafts.list()).resolves.toBe("drafts");
+    await expect(caller.users.getAll()).rejects.toMatchObject({ code: "FORBIDDEN" });
+  });
+});
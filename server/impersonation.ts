@@ -0,0 +1,174 @@
+/**
+ * Impersonation Module
+ *
+ * Time-boxed, read-only "view as user" sessions for support staff. While a
+ * session is active the request context acts as the target user (so existing
+ * routers return that user's content), only queries for that user's own
+ * content are allowed, mutations are rejected, and every
+ * request is written to audit_log with both the admin and the target user id.
+ * Sessions live in the admin_impersonation_sessions table and are bound to the
+ * admin who started them via the tavvy_impersonation cookie.
+ */
+
+import { supabaseAdmin } from "./supabaseAuth";
+
+export const IMPERSONATION_COOKIE_NAME = "tavvy_impersonation";
+
+// Allowed session lengths
+export const IMPERSONATION_DEFAULT_MINUTES = 15;
+export const IMPERSONATION_MAX_MINUTES = 60;
+
+// Mutations that remain available while impersonating
+export const IMPERSONATION_ALLOWED_MUTATIONS: ReadonlySet<string> = new Set([
+  "impersonation.stop",
+  "auth.logout",
+]);
+
+// Queries that remain available while impersonating: the viewed user's own
+// content, scoped to ctx.user.id. Every other query runs with the admin's
+// permissions and would return portal-wide data, so it is refused.
+export const IMPERSONATION_ALLOWED_QUERIES: ReadonlySet<string> = new Set([
+  "version",
+  "auth.me",
+  "tavvyPlaces.getTavvyPlaces",
+  "stories.getAll",
+  "digitalCards.getAll",
+  "drafts.get",
+  "drafts.getActive",
+  "drafts.list",
+  "drafts.getPendingOffline",
+]);
+
+/**
+ * Whether a procedure may be called during a read-only impersonation session
+ */
+export function isAllowedWhileImpersonating(path: string, type: string): boolean {
+  return type === "mutation" ? IMPERSONATION_ALLOWED_MUTATIONS.has(path) : IMPERSONATION_ALLOWED_QUERIES.has(path);
+}
+
+export interface ImpersonationSession {
+  id: string;
+  adminId: string;
+  adminEmail: string | null;
+  targetUserId: string;
+  targetEmail: string | null;
+  reason: string;
+  startedAt: Date;
+  expiresAt: Date;
+  endedAt: Date | null;
+}
+
+function mapSession(row: any): ImpersonationSession {
+  return {
+    id: row.id,
+    adminId: row.admin_id,
+    adminEmail: row.admin_email,
+    targetUserId: row.target_user_id,
+    targetEmail: row.target_email,
+    reason: row.reason,
+    startedAt: new Date(row.started_at),
+    expiresAt: new Date(row.expires_at),
+    endedAt: row.ended_at ? new Date(row.ended_at) : null,
+  };
+}
+
+/**
+ * Start a session; any session the admin already has open is ended first
+ */
+export async function startImpersonation(params: {
+  adminId: string;
+  adminEmail?: string | null;
+  targetUserId: string;
+  targetEmail?: string | null;
+  reason: string;
+  durationMinutes: number;
+  ipAddress?: string;
+  userAgent?: string;
+}): Promise<ImpersonationSession | null> {
+  try {
+    await supabaseAdmin
+      .from('admin_impersonation_sessions')
+      .update({ ended_at: new Date().toISOString(), end_reason: 'replaced' })
+      .eq('admin_id', params.adminId)
+      .is('ended_at', null);
+
+    const minutes = Math.min(Math.max(params.durationMinutes, 1), IMPERSONATION_MAX_MINUTES);
+    const { data, error } = await supabaseAdmin
+      .from('admin_impersonation_sessions')
+      .insert({
+        admin_id: params.adminId,
+        admin_email: params.adminEmail || null,
+        target_user_id: params.targetUserId,
+        target_email: params.targetEmail || null,
+        reason: params.reason,
+        expires_at: new Date(Date.now() + minutes * 60 * 1000).toISOString(),
+        ip_address: params.ipAddress || null,
+        user_agent: params.userAgent || null,
+      })
+      .select('*')
+      .single();
+
+    if (error || !data) {
+      console.error('[Impersonation] Failed to start session:', error);
+      return null;
+    }
+
+    console.log(`[Impersonation] ${params.adminEmail || params.adminId} is viewing as ${params.targetEmail || params.targetUserId}`);
+    return mapSession(data);
+  } catch (err) {
+    console.error('[Impersonation] Exception starting session:', err);
+    return null;
+  }
+}
+
+/**
+ * Get a session if it belongs to the admin, has not ended and has not expired
+ */
+export async function getActiveImpersonation(
+  sessionId: string,
+  adminId: string
+): Promise<ImpersonationSession | null> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('admin_impersonation_sessions')
+      .select('*')
+      .eq('id', sessionId)
+      .eq('admin_id', adminId)
+      .is('ended_at', null)
+      .gt('expires_at', new Date().toISOString())
+      .maybeSingle();
+
+    if (error) {
+      console.error('[Impersonation] Error loading session:', error);
+      return null;
+    }
+
+    return data ? mapSession(data) : null;
+  } catch (err) {
+    console.error('[Impersonation] Exception loading session:', err);
+    return null;
+  }
+}
+
+/**
+ * End a session (stopped by the admin, logout, or expiry)
+ */
+export async function endImpersonation(sessionId: string, reason: string): Promise<boolean> {
+  try {
+    const { error } = await supabaseAdmin
+      .from('admin_impersonation_sessions')
+      .update({ ended_at: new Date().toISOString(), end_reason: reason })
+      .eq('id', sessionId)
+      .is('ended_at', null);
+
+    if (error) {
+      console.error('[Impersonation] Failed to end session:', error);
+      return false;
+    }
+
+    return true;
+  } catch (err) {
+    console.error('[Impersonation] Exception ending session:', err);
+    return false;
+  }
+}
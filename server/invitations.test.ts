@@ -0,0 +1,37 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("./supabaseAuth", () => ({ supabaseAdmin: {} }));
+vi.mock("./rbac", () => ({ invalidateUserAccess: vi.fn() }));
+
+import { createInviteToken, verifyInviteToken } from "./invitations";
+
+describe("Invitation link tokens", () => {
+  const invitationId = "6f1c2a9e-3b7d-4c1e-9a2f-0d8e5b4c3a21";
+  const expiresAt = new Date("2026-06-08T12:00:00Z");
+  const beforeExpiry = new Date("2026-06-01T12:00:00Z");
+
+  afterEach(() => {
+    delete process.env.INVITE_SIGNING_SECRET;
+  });
+
+  it("round-trips the invitation id until the expiry", () => {
+    const token = createInviteToken(invitationId, expiresAt);
+    expect(verifyInviteToken(token, beforeExpiry)).toBe(invitationId);
+    expect(verifyInviteToken(token, new Date("2026-06-08T12:00:01Z"))).toBeNull();
+  });
+
+  it("rejects tokens whose id or expiry was changed", () => {
+    const [, expiry, signature] = createInviteToken(invitationId, expiresAt).split(".");
+    const otherId = "0a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b3c4d";
+    expect(verifyInviteToken(`${otherId}.${expiry}.${signature}`, beforeExpiry)).toBeNull();
+    expect(verifyInviteToken(`${invitationId}.${Number(expiry) + 86400}.${signature}`, beforeExpiry)).toBeNull();
+    expect(verifyInviteToken("not-a-token", beforeExpiry)).toBeNull();
+  });
+
+  it("rejects tokens signed with another key", () => {
+    process.env.INVITE_SIGNING_SECRET = "first-secret";
+    const token = createInviteToken(invitationId, expiresAt);
+    process.env.INVITE_SIGNING_SECRET = "second-secret";
+    expect(verifyInviteToken(token, beforeExpiry)).toBeNull();
+  });
+});
@@ -0,0 +1,385 @@
+/**
+ * Admin Invitations Module
+ *
+ * Signup is by invitation only. A super admin invites an email with a
+ * preassigned role and an expiry; the invitee gets a link carrying a token
+ * signed with HMAC-SHA256 (invite id + expiry), so links can't be forged or
+ * extended. Accepting is single-use: it claims the invitation, creates the
+ * account and grants the role.
+ */
+
+import crypto from "crypto";
+import { supabaseAdmin } from "./supabaseAuth";
+import { sendEmail } from "./alertService";
+import { invalidateUserAccess } from "./rbac";
+import { PORTAL_ROLES, Roles, type Role } from "../shared/permissions";
+
+// Configuration
+export const DEFAULT_INVITE_EXPIRY_DAYS = 7;
+export const MAX_INVITE_EXPIRY_DAYS = 30;
+
+export const InvitationStatuses = {
+  PENDING: 'pending',
+  ACCEPTED: 'accepted',
+  REVOKED: 'revoked',
+  EXPIRED: 'expired',
+} as const;
+
+export type InvitationStatus = typeof InvitationStatuses[keyof typeof InvitationStatuses];
+
+export interface InvitationInfo {
+  id: string;
+  email: string;
+  role: Role;
+  invitedBy?: string;
+  invitedByEmail?: string;
+  createdAt: Date;
+  expiresAt: Date;
+  acceptedAt?: Date;
+  acceptedUserId?: string;
+  revokedAt?: Date;
+  status: InvitationStatus;
+}
+
+export interface AcceptInvitationResult {
+  success: boolean;
+  invitation?: InvitationInfo;
+  userId?: string;
+  roleGranted?: boolean;
+  error?: string;
+}
+
+function mapInvitation(row: any): InvitationInfo {
+  const expiresAt = new Date(row.expires_at);
+  const status: InvitationStatus =
+    row.accepted_at ? InvitationStatuses.ACCEPTED :
+    row.revoked_at ? InvitationStatuses.REVOKED :
+    expiresAt.getTime() <= Date.now() ? InvitationStatuses.EXPIRED :
+    InvitationStatuses.PENDING;
+
+  return {
+    id: row.id,
+    email: row.email,
+    role: row.role,
+    invitedBy: row.invited_by || undefined,
+    invitedByEmail: row.invited_by_email || undefined,
+    createdAt: new Date(row.created_at),
+    expiresAt,
+    acceptedAt: row.accepted_at ? new Date(row.accepted_at) : undefined,
+    acceptedUserId: row.accepted_user_id || undefined,
+    revokedAt: row.revoked_at ? new Date(row.revoked_at) : undefined,
+    status,
+  };
+}
+
+// ============ SIGNED TOKENS ============
+
+/**
+ * Key for signing invite links: INVITE_SIGNING_SECRET, else JWT_SECRET
+ */
+function getSigningKey(): Buffer {
+  const secret = process.env.INVITE_SIGNING_SECRET || process.env.JWT_SECRET;
+  if (!secret) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('INVITE_SIGNING_SECRET (or JWT_SECRET) must be set in production');
+    }
+    console.warn('[Invitations] INVITE_SIGNING_SECRET not set, using development key');
+    return crypto.createHash('sha256').update('tavvy-dev-invite-key').digest();
+  }
+  return crypto.createHash('sha256').update(secret).digest();
+}
+
+function sign(payload: string): string {
+  return crypto.createHmac('sha256', getSigningKey()).update(payload).digest('base64url');
+}
+
+/**
+ * Link token for an invitation: "<id>.<expiry in unix seconds>.<signature>"
+ */
+export function createInviteToken(invitationId: string, expiresAt: Date): string {
+  const payload = `${invitationId}.${Math.floor(expiresAt.getTime() / 1000)}`;
+  return `${payload}.${sign(payload)}`;
+}
+
+/**
+ * Check a link token's signature and expiry; returns the invitation id
+ */
+export function verifyInviteToken(token: string, now: Date = new Date()): string | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+
+  const [invitationId, expiresAtSeconds, signature] = parts;
+  const expected = Buffer.from(sign(`${invitationId}.${expiresAtSeconds}`));
+  const given = Buffer.from(signature);
+  if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+    return null;
+  }
+
+  const expiresAt = parseInt(expiresAtSeconds, 10) * 1000;
+  if (!Number.isFinite(expiresAt) || expiresAt <= now.getTime()) return null;
+  return invitationId;
+}
+
+// ============ INVITATIONS ============
+
+/**
+ * Create an invitation; returns it with its link token (not stored anywhere)
+ */
+export async function createInvitation(params: {
+  email: string;
+  role: Role;
+  expiresInDays: number;
+  invitedBy: string;
+  invitedByEmail?: string;
+}): Promise<{ invitation: InvitationInfo; token: string } | { error: string }> {
+  if (!PORTAL_ROLES.includes(params.role)) {
+    return { error: 'Unknown role' };
+  }
+  // super_admin is only granted through users.addRole, which needs a second approval
+  if (params.role === Roles.SUPER_ADMIN) {
+    return { error: 'Super admins cannot be invited; invite with another role and grant super admin afterwards' };
+  }
+
+  const email = params.email.trim().toLowerCase();
+  try {
+    const { data: pending, error: pendingError } = await supabaseAdmin
+      .from('admin_invitations')
+      .select('id')
+      .eq('email', email)
+      .is('accepted_at', null)
+      .is('revoked_at', null)
+      .gt('expires_at', new Date().toISOString())
+      .limit(1);
+
+    if (pendingError) {
+      console.error('[Invitations] Error checking pending invitations:', pendingError);
+      return { error: 'Failed to create invitation' };
+    }
+    if ((pending || []).length > 0) {
+      return { error: 'This email already has a pending invitation. Revoke it first to send a new one.' };
+    }
+
+    const expiresAt = new Date(Date.now() + params.expiresInDays * 24 * 60 * 60 * 1000);
+    const { data, error } = await supabaseAdmin
+      .from('admin_invitations')
+      .insert({
+        email,
+        role: params.role,
+        invited_by: params.invitedBy,
+        invited_by_email: params.invitedByEmail || null,
+        expires_at: expiresAt.toISOString(),
+      })
+      .select('*')
+      .single();
+
+    if (error || !data) {
+      console.error('[Invitations] Error creating invitation:', error);
+      return { error: 'Failed to create invitation' };
+    }
+
+    const invitation = mapInvitation(data);
+    return { invitation, token: createInviteToken(invitation.id, invitation.expiresAt) };
+  } catch (err) {
+    console.error('[Invitations] Exception creating invitation:', err);
+    return { error: 'Failed to create invitation' };
+  }
+}
+
+/**
+ * All invitations, newest first
+ */
+export async function listInvitations(limit: number = 200): Promise<InvitationInfo[]> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('admin_invitations')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('[Invitations] Error listing invitations:', error);
+      return [];
+    }
+
+    return (data || []).map(mapInvitation);
+  } catch (err) {
+    console.error('[Invitations] Exception listing invitations:', err);
+    return [];
+  }
+}
+
+/**
+ * Revoke a pending invitation; returns it, or null if it was not pending
+ */
+export async function revokeInvitation(invitationId: string, revokedBy: string): Promise<InvitationInfo | null> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('admin_invitations')
+      .update({ revoked_at: new Date().toISOString(), revoked_by: revokedBy })
+      .eq('id', invitationId)
+      .is('accepted_at', null)
+      .is('revoked_at', null)
+      .select('*');
+
+    if (error) {
+      console.error('[Invitations] Error revoking invitation:', error);
+      return null;
+    }
+
+    return data && data.length > 0 ? mapInvitation(data[0]) : null;
+  } catch (err) {
+    console.error('[Invitations] Exception revoking invitation:', err);
+    return null;
+  }
+}
+
+/**
+ * The pending invitation a link token points to, or null if the token is
+ * invalid or the invitation was accepted, revoked or has expired
+ */
+export async function getInvitationByToken(token: string): Promise<InvitationInfo | null> {
+  const invitationId = verifyInviteToken(token);
+  if (!invitationId) return null;
+
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('admin_invitations')
+      .select('*')
+      .eq('id', invitationId)
+      .maybeSingle();
+
+    if (error || !data) {
+      if (error) console.error('[Invitations] Error reading invitation:', error);
+      return null;
+    }
+
+    const invitation = mapInvitation(data);
+    return invitation.status === InvitationStatuses.PENDING ? invitation : null;
+  } catch (err) {
+    console.error('[Invitations] Exception reading invitation:', err);
+    return null;
+  }
+}
+
+/**
+ * Accept an invitation: claim it (single use), create the account with a
+ * confirmed email and grant the invited role. The claim is released again
+ * if the account can't be created.
+ */
+export async function acceptInvitation(
+  token: string,
+  fullName: string,
+  password: string
+): Promise<AcceptInvitationResult> {
+  const invitationId = verifyInviteToken(token);
+  if (!invitationId) {
+    return { success: false, error: 'This invitation link is invalid or has expired.' };
+  }
+
+  try {
+    const claimedAt = new Date().toISOString();
+    const { data: claimed, error: claimError } = await supabaseAdmin
+      .from('admin_invitations')
+      .update({ accepted_at: claimedAt })
+      .eq('id', invitationId)
+      .is('accepted_at', null)
+      .is('revoked_at', null)
+      .gt('expires_at', claimedAt)
+      .select('*');
+
+    if (claimError) {
+      console.error('[Invitations] Error claiming invitation:', claimError);
+      return { success: false, error: 'Failed to accept invitation' };
+    }
+    if (!claimed || claimed.length === 0) {
+      return { success: false, error: 'This invitation was already used, revoked or has expired.' };
+    }
+
+    const invitation = mapInvitation(claimed[0]);
+    const { data: created, error: createError } = await supabaseAdmin.auth.admin.createUser({
+      email: invitation.email,
+      password,
+      // The invitation link was delivered to this address
+      email_confirm: true,
+      user_metadata: { full_name: fullName },
+      app_metadata: { password_changed_at: claimedAt, invitation_id: invitation.id },
+    });
+
+    if (createError || !created.user) {
+      console.error('[Invitations] Failed to create invited user:', createError);
+      await supabaseAdmin
+        .from('admin_invitations')
+        .update({ accepted_at: null })
+        .eq('id', invitation.id);
+      return {
+        success: false,
+        error: createError?.message || 'Failed to create account',
+      };
+    }
+
+    const userId = created.user.id;
+    const { error: roleError } = await supabaseAdmin
+      .from('user_roles')
+      .insert({
+        user_id: userId,
+        role: invitation.role,
+        granted_by: invitation.invitedBy || userId,
+        granted_at: claimedAt,
+      });
+    if (roleError) {
+      console.error('[Invitations] Failed to grant invited role:', roleError);
+    }
+    invalidateUserAccess(userId);
+
+    await supabaseAdmin
+      .from('admin_invitations')
+      .update({ accepted_user_id: userId })
+      .eq('id', invitation.id);
+
+    console.log(`[Invitations] ${invitation.email} accepted an invitation as ${invitation.role}`);
+    return {
+      success: true,
+      invitation: { ...invitation, acceptedUserId: userId },
+      userId,
+      roleGranted: !roleError,
+    };
+  } catch (err) {
+    console.error('[Invitations] Exception accepting invitation:', err);
+    return { success: false, error: 'Failed to accept invitation' };
+  }
+}
+
+/**
+ * Email the invitation link. Needs ADMIN_PORTAL_URL (links are never built
+ * from request headers); without it the inviter shares the link themselves.
+ */
+export async function sendInvitationEmail(invitation: InvitationInfo, token: string): Promise<boolean> {
+  const portalUrl = process.env.ADMIN_PORTAL_URL?.replace(/\/+$/, '');
+  if (!portalUrl) {
+    console.log('[Invitations] Invitation emails not configured (missing ADMIN_PORTAL_URL)');
+    return false;
+  }
+
+  const link = `${portalUrl}/signup#invite=${token}`;
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2 style="color: #111827;">You're invited to the Tavvy admin portal</h2>
+      <p style="color: #374151;">
+        ${invitation.invitedByEmail ? `${invitation.invitedByEmail} has` : 'A Tavvy administrator has'}
+        invited you to join the admin portal with the <strong>${invitation.role.replace(/_/g, ' ')}</strong> role.
+      </p>
+      <p style="color: #374151;">
+        The link below can be used once and expires on ${invitation.expiresAt.toUTCString()}.
+      </p>
+      <a href="${link}" style="display: inline-block; background: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: 500;">
+        Accept invitation
+      </a>
+    </div>
+  `;
+
+  const sent = await sendEmail([invitation.email], "You're invited to the Tavvy admin portal", html);
+  if (sent) {
+    console.log(`[Invitations] Invitation sent to ${invitation.email}`);
+  }
+  return sent;
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("./supabaseAuth", () => ({ supabaseAdmin: {} }));
+vi.mock("./tokenRotation", () => ({ cleanupOldTokens: vi.fn() }));
+vi.mock("./draftDb", () => ({ releaseSnoozedDrafts: vi.fn() }));
+vi.mock("./supabaseDb", () => ({ endStaleLiveSessions: vi.fn() }));
+vi.mock("./roleElevation", () => ({ expireElevatedRoles: vi.fn() }));
+vi.mock("./dataRetention", () => ({ runRetention: vi.fn() }));
+vi.mock("./alertService", () => ({
+  flushAlertDigests: vi.fn(),
+  escalateUnacknowledgedAlerts: vi.fn(),
+}));
+
+import { cronMatches, nextCronRun, parseCron, scheduledJobs } from "./jobScheduler";
+
+describe("job scheduler cron", () => {
+  it("parses steps, ranges and lists", () => {
+    const schedule = parseCron("*/15 9-17 * * 1,3,5");
+    expect(Array.from(schedule.minutes)).toEqual([0, 15, 30, 45]);
+    expect(Array.from(schedule.hours)).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17]);
+    expect(Array.from(schedule.daysOfWeek)).toEqual([1, 3, 5]);
+    expect(Array.from(parseCron("0 0 * * 7").daysOfWeek)).toEqual([0]);
+  });
+
+  it("rejects malformed expressions", () => {
+    expect(() => parseCron("* * * *")).toThrow();
+    expect(() => parseCron("60 * * * *")).toThrow();
+    expect(() => parseCron("5-1 * * * *")).toThrow();
+    expect(() => parseCron("*/0 * * * *")).toThrow();
+  });
+
+  it("matches either day field when both are restricted", () => {
+    const schedule = parseCron("0 12 1 * 1");
+    // 2026-06-01 is a Monday, 2026-06-08 a Monday, 2026-07-01 a Wednesday
+    expect(cronMatches(schedule, new Date("2026-06-08T12:00:00Z"))).toBe(true);
+    expect(cronMatches(schedule, new Date("2026-07-01T12:00:00Z"))).toBe(true);
+    expect(cronMatches(schedule, new Date("2026-06-09T12:00:00Z"))).toBe(false);
+  });
+
+  it("finds the next run in UTC", () => {
+    expect(nextCronRun(parseCron("30 */6 * * *"), new Date("2026-03-10T06:30:20Z"))).toEqual(
+      new Date("2026-03-10T12:30:00Z")
+    );
+  });
+
+  it("registers only valid schedules", () => {
+    Object.values(scheduledJobs).forEach(job => {
+      expect(() => parseCron(job.schedule)).not.toThrow();
+    });
+  });
+});
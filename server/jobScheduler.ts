@@ -0,0 +1,562 @@
+/**
+ * Job Scheduler Module
+ *
+ * Runs maintenance jobs in-process on cron-style schedules (five fields,
+ * evaluated in UTC). Every run is recorded in the job_runs table with its
+ * trigger, status, duration, result and error.
+ *
+ * With several server instances, two guards keep jobs from overlapping:
+ *   - a lease row in scheduled_job_locks, held for the length of a run, so a
+ *     slow run is never started a second time, and
+ *   - a unique (job_name, scheduled_for) key on scheduled runs, so each
+ *     schedule slot runs on one instance only.
+ * A lease left behind by a crashed instance expires after the job's timeout
+ * and its unfinished run is marked as interrupted.
+ *
+ * Set JOB_SCHEDULER_ENABLED=false to stop an instance from running scheduled
+ * jobs. Manual triggers still work.
+ */
+
+import { randomUUID } from "crypto";
+import { hostname } from "os";
+import { supabaseAdmin } from "./supabaseAuth";
+import { cleanupOldTokens } from "./tokenRotation";
+import { releaseSnoozedDrafts } from "./draftDb";
+import { endStaleLiveSessions } from "./supabaseDb";
+import { expireElevatedRoles } from "./roleElevation";
+import { expirePendingOperations } from "./pendingOperations";
+import { runRetention } from "./dataRetention";
+import { flushAlertDigests, escalateUnacknowledgedAlerts } from "./alertService";
+import { anchorAuditChain } from "./auditLog";
+
+export const JobRunStatus = {
+  RUNNING: 'running',
+  SUCCEEDED: 'succeeded',
+  FAILED: 'failed',
+} as const;
+
+export type JobRunStatusType = typeof JobRunStatus[keyof typeof JobRunStatus];
+
+export const JobTriggers = {
+  SCHEDULE: 'schedule',
+  MANUAL: 'manual',
+} as const;
+
+export type JobTrigger = typeof JobTriggers[keyof typeof JobTriggers];
+
+export interface ScheduledJob {
+  description: string;
+  schedule: string;
+  // Lease length; a run still going after this may be started again elsewhere
+  timeoutMs?: number;
+  run: () => Promise<Record<string, unknown>>;
+}
+
+export interface JobRun {
+  id: string;
+  jobName: string;
+  trigger: JobTrigger;
+  scheduledFor: Date | null;
+  triggeredBy: string | null;
+  triggeredByEmail: string | null;
+  instanceId: string;
+  status: JobRunStatusType;
+  startedAt: Date;
+  finishedAt: Date | null;
+  durationMs: number | null;
+  result: Record<string, unknown> | null;
+  error: string | null;
+}
+
+export interface JobSummary {
+  name: string;
+  description: string;
+  schedule: string;
+  nextRunAt: Date | null;
+  lastRun: JobRun | null;
+  running: boolean;
+}
+
+const DEFAULT_JOB_TIMEOUT_MS = 30 * 60 * 1000;
+const JOB_RUN_HISTORY_DAYS = 30;
+const TICK_INTERVAL_MS = 15 * 1000;
+
+// Identifies this process in locks and run history
+const INSTANCE_ID = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+/**
+ * Job registry, keyed by job name
+ */
+export const scheduledJobs: Record<string, ScheduledJob> = {
+  role_expiry: {
+    description: 'Remove expired user_roles grants and close stale elevation requests',
+    schedule: '* * * * *',
+    run: async () => ({ removed: await expireElevatedRoles() }),
+  },
+  pending_operation_expiry: {
+    description: 'Close four-eyes operations nobody approved in time',
+    schedule: '* * * * *',
+    run: async () => ({ expired: await expirePendingOperations() }),
+  },
+  security_alerts: {
+    description: 'Send due alert digests and escalate unacknowledged critical alerts',
+    schedule: '* * * * *',
+    run: async () => ({
+      digestsSent: await flushAlertDigests(),
+      escalated: await escalateUnacknowledgedAlerts(),
+    }),
+  },
+  audit_chain_anchor: {
+    description: 'Record a signed copy of the audit chain head so truncation is detected',
+    schedule: '*/15 * * * *',
+    run: async () => ({ anchoredSeq: (await anchorAuditChain())?.chain_seq ?? null }),
+  },
+  snoozed_drafts: {
+    description: 'Resurface drafts whose "remind me later" time has passed',
+    schedule: '*/5 * * * *',
+    run: async () => ({ released: await releaseSnoozedDrafts() }),
+  },
+  stale_live_sessions: {
+    description: 'End live sessions left active an hour past their scheduled end',
+    schedule: '*/10 * * * *',
+    run: async () => ({ ended: await endStaleLiveSessions() }),
+  },
+  token_cleanup: {
+    description: 'Delete expired, used and revoked refresh tokens',
+    schedule: '0 */6 * * *',
+    run: async () => ({ deleted: await cleanupOldTokens() }),
+  },
+  data_retention: {
+    description: 'Archive and delete audit log and anomaly rows past retention',
+    schedule: '30 */6 * * *',
+    timeoutMs: 2 * 60 * 60 * 1000,
+    run: async () => {
+      const results = await runRetention();
+      const failed = results.filter(r => r.error);
+      if (failed.length > 0) {
+        throw new Error(failed.map(r => `${r.table}: ${r.error}`).join('; '));
+      }
+      return { tables: results.map(r => ({ table: r.table, rowsArchived: r.rowsArchived, files: r.files.length })) };
+    },
+  },
+  job_history_cleanup: {
+    description: `Delete job run history older than ${JOB_RUN_HISTORY_DAYS} days`,
+    schedule: '45 3 * * *',
+    run: async () => ({ deleted: await pruneJobRuns() }),
+  },
+};
+
+// ============ CRON ============
+
+const CRON_FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+] as const;
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Standard cron: when both day fields are restricted, either may match
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+function parseCronField(field: string, index: number): Set<number> {
+  const { name, min, max } = CRON_FIELDS[index];
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = /^(\*|\d+(?:-\d+)?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new Error(`Invalid ${name} field "${field}"`);
+    }
+
+    let start: number = min;
+    let end: number = max;
+    if (match[1] !== '*') {
+      const [from, to] = match[1].split('-').map(Number);
+      start = from;
+      end = to ?? (match[2] ? max : from);
+    }
+    const step = match[2] ? Number(match[2]) : 1;
+    if (start < min || end > max || start > end || step < 1) {
+      throw new Error(`Invalid ${name} field "${field}"`);
+    }
+
+    for (let v = start; v <= end; v += step) {
+      // Sunday may be written as 0 or 7
+      values.add(index === 4 && v === 7 ? 0 : v);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a five-field cron expression: minute hour day-of-month month day-of-week.
+ * Supports *, numbers, ranges (1-5), lists (1,15) and steps (*\/10, 0-30/5).
+ */
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression "${expression}" must have 5 fields`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((f, i) => parseCronField(f, i));
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: !fields[2].startsWith('*'),
+    dayOfWeekRestricted: !fields[4].startsWith('*'),
+  };
+}
+
+/**
+ * Whether the schedule fires in the (UTC) minute containing `date`
+ */
+export function cronMatches(schedule: CronSchedule, date: Date): boolean {
+  if (!schedule.minutes.has(date.getUTCMinutes())) return false;
+  if (!schedule.hours.has(date.getUTCHours())) return false;
+  if (!schedule.months.has(date.getUTCMonth() + 1)) return false;
+
+  const domMatch = schedule.daysOfMonth.has(date.getUTCDate());
+  const dowMatch = schedule.daysOfWeek.has(date.getUTCDay());
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+/**
+ * Next minute after `from` at which the schedule fires, within a year
+ */
+export function nextCronRun(schedule: CronSchedule, from: Date): Date | null {
+  const candidate = new Date(from);
+  candidate.setUTCSeconds(0, 0);
+  for (let i = 0; i < 366 * 24 * 60; i++) {
+    candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+    if (cronMatches(schedule, candidate)) return new Date(candidate);
+  }
+  return null;
+}
+
+const parsedSchedules = new Map<string, CronSchedule>();
+Object.entries(scheduledJobs).forEach(([name, job]) => {
+  parsedSchedules.set(name, parseCron(job.schedule));
+});
+
+// ============ LOCKS & HISTORY ============
+
+function mapRun(row: any): JobRun {
+  return {
+    id: row.id,
+    jobName: row.job_name,
+    trigger: row.trigger,
+    scheduledFor: row.scheduled_for ? new Date(row.scheduled_for) : null,
+    triggeredBy: row.triggered_by,
+    triggeredByEmail: row.triggered_by_email,
+    instanceId: row.instance_id,
+    status: row.status,
+    startedAt: new Date(row.started_at),
+    finishedAt: row.finished_at ? new Date(row.finished_at) : null,
+    durationMs: row.duration_ms,
+    result: row.result,
+    error: row.error,
+  };
+}
+
+/**
+ * Take the job's lease. An expired lease is taken over, and the run its
+ * holder left unfinished is marked as interrupted.
+ */
+async function acquireJobLock(jobName: string, timeoutMs: number): Promise<boolean> {
+  const now = new Date();
+  const lockedUntil = new Date(now.getTime() + timeoutMs).toISOString();
+
+  const { error } = await supabaseAdmin
+    .from('scheduled_job_locks')
+    .insert({ job_name: jobName, locked_by: INSTANCE_ID, locked_at: now.toISOString(), locked_until: lockedUntil });
+
+  if (!error) return true;
+  if (error.code !== '23505') {
+    console.error(`[JobScheduler] Failed to lock ${jobName}:`, error);
+    return false;
+  }
+
+  const { data: stale } = await supabaseAdmin
+    .from('scheduled_job_locks')
+    .select('locked_by')
+    .eq('job_name', jobName)
+    .lt('locked_until', now.toISOString())
+    .maybeSingle();
+  if (!stale) return false;
+
+  // Conditional on the old holder so only one instance wins the takeover
+  const { data: taken, error: takeError } = await supabaseAdmin
+    .from('scheduled_job_locks')
+    .update({ locked_by: INSTANCE_ID, locked_at: now.toISOString(), locked_until: lockedUntil })
+    .eq('job_name', jobName)
+    .eq('locked_by', stale.locked_by)
+    .lt('locked_until', now.toISOString())
+    .select('job_name');
+
+  if (takeError || !taken || taken.length === 0) return false;
+
+  await supabaseAdmin
+    .from('job_runs')
+    .update({
+      status: JobRunStatus.FAILED,
+      finished_at: now.toISOString(),
+      error: 'Interrupted: the instance running this job stopped before it finished',
+    })
+    .eq('job_name', jobName)
+    .eq('instance_id', stale.locked_by)
+    .eq('status', JobRunStatus.RUNNING);
+
+  return true;
+}
+
+async function releaseJobLock(jobName: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('scheduled_job_locks')
+    .delete()
+    .eq('job_name', jobName)
+    .eq('locked_by', INSTANCE_ID);
+
+  if (error) {
+    console.error(`[JobScheduler] Failed to release ${jobName}:`, error);
+  }
+}
+
+async function finishJobRun(runId: string, startedAt: number, outcome: { result?: Record<string, unknown>; error?: string }): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('job_runs')
+    .update({
+      status: outcome.error ? JobRunStatus.FAILED : JobRunStatus.SUCCEEDED,
+      finished_at: new Date().toISOString(),
+      duration_ms: Date.now() - startedAt,
+      result: outcome.result ?? null,
+      error: outcome.error ?? null,
+    })
+    .eq('id', runId);
+
+  if (error) {
+    console.error('[JobScheduler] Failed to record run result:', error);
+  }
+}
+
+async function pruneJobRuns(): Promise<number> {
+  const cutoff = new Date(Date.now() - JOB_RUN_HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const { data, error } = await supabaseAdmin
+    .from('job_runs')
+    .delete()
+    .lt('started_at', cutoff)
+    .neq('status', JobRunStatus.RUNNING)
+    .select('id');
+
+  if (error) {
+    console.error('[JobScheduler] Failed to prune run history:', error);
+    return 0;
+  }
+  return data?.length || 0;
+}
+
+// ============ RUNNING JOBS ============
+
+const runningJobs = new Set<string>();
+
+export type StartJobResult =
+  | { started: true; run: JobRun; done: Promise<void> }
+  | { started: false; reason: 'unknown_job' | 'already_running' | 'slot_taken' | 'error' };
+
+/**
+ * Start a job run if no other run of the same job is in progress. The run
+ * continues in the background; `done` settles when it is recorded.
+ */
+export async function startJob(
+  jobName: string,
+  trigger: JobTrigger,
+  options: { scheduledFor?: Date; triggeredBy?: string; triggeredByEmail?: string | null } = {}
+): Promise<StartJobResult> {
+  const job = scheduledJobs[jobName];
+  if (!job) return { started: false, reason: 'unknown_job' };
+  if (runningJobs.has(jobName)) return { started: false, reason: 'already_running' };
+
+  runningJobs.add(jobName);
+  let locked = false;
+  try {
+    locked = await acquireJobLock(jobName, job.timeoutMs ?? DEFAULT_JOB_TIMEOUT_MS);
+    if (!locked) {
+      runningJobs.delete(jobName);
+      return { started: false, reason: 'already_running' };
+    }
+
+    const startedAt = Date.now();
+    const { data, error } = await supabaseAdmin
+      .from('job_runs')
+      .insert({
+        job_name: jobName,
+        trigger,
+        scheduled_for: options.scheduledFor?.toISOString() ?? null,
+        triggered_by: options.triggeredBy ?? null,
+        triggered_by_email: options.triggeredByEmail ?? null,
+        instance_id: INSTANCE_ID,
+        status: JobRunStatus.RUNNING,
+        started_at: new Date(startedAt).toISOString(),
+      })
+      .select('*')
+      .single();
+
+    if (error || !data) {
+      await releaseJobLock(jobName);
+      runningJobs.delete(jobName);
+      if (error?.code === '23505') {
+        return { started: false, reason: 'slot_taken' };
+      }
+      console.error(`[JobScheduler] Failed to record ${jobName} run:`, error);
+      return { started: false, reason: 'error' };
+    }
+
+    const run = mapRun(data);
+    const done = (async () => {
+      try {
+        const result = await job.run();
+        await finishJobRun(run.id, startedAt, { result });
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.error(`[JobScheduler] Job ${jobName} failed:`, err);
+        await finishJobRun(run.id, startedAt, { error: message });
+      } finally {
+        await releaseJobLock(jobName);
+        runningJobs.delete(jobName);
+      }
+    })();
+
+    return { started: true, run, done };
+  } catch (err) {
+    console.error(`[JobScheduler] Exception starting ${jobName}:`, err);
+    if (locked) await releaseJobLock(jobName);
+    runningJobs.delete(jobName);
+    return { started: false, reason: 'error' };
+  }
+}
+
+/**
+ * Job list with each job's next run time and latest run
+ */
+export async function listJobs(): Promise<JobSummary[]> {
+  const names = Object.keys(scheduledJobs);
+  const lastRuns = new Map<string, JobRun>();
+  const lockedJobs = new Set<string>();
+
+  try {
+    const [runsResult, locksResult] = await Promise.all([
+      supabaseAdmin.from('job_runs_latest').select('*'),
+      supabaseAdmin.from('scheduled_job_locks').select('job_name').gt('locked_until', new Date().toISOString()),
+    ]);
+
+    if (runsResult.error) {
+      console.error('[JobScheduler] Failed to load latest runs:', runsResult.error);
+    }
+    (runsResult.data || []).forEach(row => lastRuns.set(row.job_name, mapRun(row)));
+    (locksResult.data || []).forEach(row => lockedJobs.add(row.job_name));
+  } catch (err) {
+    console.error('[JobScheduler] Exception listing jobs:', err);
+  }
+
+  const now = new Date();
+  return names.map(name => ({
+    name,
+    description: scheduledJobs[name].description,
+    schedule: scheduledJobs[name].schedule,
+    nextRunAt: schedulerEnabled() ? nextCronRun(parsedSchedules.get(name)!, now) : null,
+    lastRun: lastRuns.get(name) || null,
+    running: lockedJobs.has(name) || runningJobs.has(name),
+  }));
+}
+
+/**
+ * Run history, newest first
+ */
+export async function listJobRuns(
+  filters: { jobName?: string; status?: JobRunStatusType } = {},
+  limit = 50,
+  offset = 0
+): Promise<{ runs: JobRun[]; total: number }> {
+  try {
+    let query = supabaseAdmin
+      .from('job_runs')
+      .select('*', { count: 'exact' })
+      .order('started_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (filters.jobName) query = query.eq('job_name', filters.jobName);
+    if (filters.status) query = query.eq('status', filters.status);
+
+    const { data, error, count } = await query;
+    if (error) {
+      console.error('[JobScheduler] Failed to list runs:', error);
+      return { runs: [], total: 0 };
+    }
+    return { runs: (data || []).map(mapRun), total: count || 0 };
+  } catch (err) {
+    console.error('[JobScheduler] Exception listing runs:', err);
+    return { runs: [], total: 0 };
+  }
+}
+
+// ============ SCHEDULER LOOP ============
+
+function schedulerEnabled(): boolean {
+  return process.env.JOB_SCHEDULER_ENABLED !== 'false';
+}
+
+let lastTickMinute = 0;
+
+/**
+ * Start every job due in the current minute. Called a few times a minute;
+ * each minute is only processed once per instance.
+ */
+export async function runDueJobs(now: Date = new Date()): Promise<void> {
+  const minute = new Date(now);
+  minute.setUTCSeconds(0, 0);
+  if (minute.getTime() <= lastTickMinute) return;
+  lastTickMinute = minute.getTime();
+
+  for (const name of Object.keys(scheduledJobs)) {
+    if (!cronMatches(parsedSchedules.get(name)!, minute)) continue;
+    const outcome = await startJob(name, JobTriggers.SCHEDULE, { scheduledFor: minute });
+    if (!outcome.started && outcome.reason === 'already_running') {
+      console.warn(`[JobScheduler] Skipped ${name}: previous run still in progress`);
+    }
+  }
+}
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Begin running scheduled jobs in this process
+ */
+export function startJobScheduler(): void {
+  if (schedulerTimer) return;
+  if (!schedulerEnabled()) {
+    console.log('[JobScheduler] Disabled by JOB_SCHEDULER_ENABLED=false');
+    return;
+  }
+
+  console.log(`[JobScheduler] Started ${Object.keys(scheduledJobs).length} job(s) on ${INSTANCE_ID}`);
+  // Check for due jobs (every 15 seconds)
+  schedulerTimer = setInterval(() => {
+    runDueJobs().catch(err => console.error('[JobScheduler] Tick error:', err));
+  }, TICK_INTERVAL_MS);
+  schedulerTimer.unref?.();
+}
@@ -0,0 +1,204 @@
+/**
+ * Login Session Module
+ *
+ * Shared steps of every portal sign-in method (password, second factor,
+ * passkey, SSO): the lockout check up front, and the final account freeze
+ * check, concurrent session limit, audit log, anomaly checks, tracked
+ * session, new-device confirmation email, refresh token and auth cookies.
+ */
+
+import type { Request, Response } from "express";
+import type { User } from "@supabase/supabase-js";
+import { TRPCError } from "@trpc/server";
+import { logFailedLogin, logLogin } from "./auditLog";
+import { createSession, enforceSessionLimit, generateDeviceFingerprint } from "./sessionManager";
+import { AnomalyTypes, logAnomaly, runLoginAnomalyChecks, SeverityLevels } from "./anomalyDetection";
+import { createRefreshToken, revokeSessionTokens } from "./tokenRotation";
+import { sendNewDeviceConfirmation } from "./trustedDevices";
+import { clearAccountFailures, getLoginThrottle } from "./accountLockout";
+import { isAccountFrozen } from "./adminActivityRules";
+import type { UserAccess } from "./rbac";
+import { Roles } from "../shared/permissions";
+
+// Cookie names for Supabase auth token and rotating refresh token
+export const AUTH_COOKIE_NAME = "tavvy_auth_token";
+export const REFRESH_COOKIE_NAME = "tavvy_refresh_token";
+
+export interface CompleteLoginOptions {
+  user: User;
+  accessToken: string;
+  access: UserAccess;
+  method: string;
+}
+
+/**
+ * Get client IP and user agent from a request
+ */
+export function getRequestClientInfo(req: Request): { clientIp?: string; userAgent?: string } {
+  return {
+    clientIp: req.ip || req.headers['x-forwarded-for']?.toString(),
+    userAgent: req.headers['user-agent'],
+  };
+}
+
+/**
+ * Reject login attempts for an account that is locked or in back-off
+ * (throttled attempts are audited but don't count as new failures)
+ */
+export async function assertLoginAllowed(email: string, clientIp?: string, userAgent?: string) {
+  const throttle = await getLoginThrottle(email);
+  if (throttle.allowed) return;
+
+  await logFailedLogin(
+    email,
+    throttle.locked ? "Account temporarily locked" : "Login attempt during back-off",
+    clientIp,
+    userAgent
+  );
+  throw new TRPCError({
+    code: "TOO_MANY_REQUESTS",
+    message: throttle.locked
+      ? `Too many failed attempts. Account locked - try again in ${Math.ceil(throttle.retryAfterSeconds / 60)} minute(s).`
+      : `Too many failed attempts. Please wait ${throttle.retryAfterSeconds} second(s) before trying again.`,
+  });
+}
+
+/**
+ * Finish a successful sign-in and set the auth cookies
+ */
+export async function completeLogin(
+  req: Request,
+  res: Response,
+  { user, accessToken, access, method }: CompleteLoginOptions
+) {
+  const { clientIp, userAgent } = getRequestClientInfo(req);
+  const email = user.email || '';
+
+  // Accounts frozen by an admin behavior rule stay out until a security admin lifts the freeze
+  if (await isAccountFrozen(user.id)) {
+    await logFailedLogin(email, "Account frozen", clientIp, userAgent);
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "This account has been frozen after suspicious activity. Contact a security administrator.",
+    });
+  }
+
+  // Concurrent session limit: evict the oldest sessions or refuse the sign-in
+  const sessionLimit = await enforceSessionLimit(user.id, access.roles);
+  if (!sessionLimit.allowed || sessionLimit.revokedSessionIds.length > 0) {
+    await logAnomaly({
+      userId: user.id,
+      userEmail: email,
+      anomalyType: AnomalyTypes.CONCURRENT_SESSIONS,
+      severity: sessionLimit.allowed ? SeverityLevels.LOW : SeverityLevels.MEDIUM,
+      ipAddress: clientIp,
+      userAgent,
+      details: {
+        limit: sessionLimit.limit,
+        action: sessionLimit.action,
+        activeSessions: sessionLimit.activeSessionCount,
+        revokedSessionIds: sessionLimit.revokedSessionIds,
+        message: sessionLimit.allowed
+          ? 'Oldest session(s) signed out to stay within the concurrent session limit'
+          : 'Sign-in refused: concurrent session limit reached',
+      },
+    });
+  }
+  if (!sessionLimit.allowed) {
+    await logFailedLogin(email, "Concurrent session limit reached", clientIp, userAgent);
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: `You already have ${sessionLimit.activeSessionCount} active session(s), the maximum for your account. Sign out on another device and try again.`,
+    });
+  }
+  for (const sessionId of sessionLimit.revokedSessionIds) {
+    await revokeSessionTokens(sessionId, 'session_limit');
+  }
+
+  // Log successful login and reset per-account failure tracking
+  await logLogin(user.id, email, clientIp, userAgent, method);
+  await clearAccountFailures(email);
+
+  // Generate device fingerprint for anomaly detection
+  const deviceFingerprint = generateDeviceFingerprint(userAgent, clientIp);
+
+  // Run anomaly detection checks
+  const anomalyResult = await runLoginAnomalyChecks(
+    user.id,
+    email,
+    deviceFingerprint,
+    clientIp,
+    userAgent
+  );
+
+  if (anomalyResult.anomaliesDetected.length > 0) {
+    console.log(`[Auth] Anomalies detected for ${email}:`, anomalyResult.anomaliesDetected);
+  }
+
+  // Create tracked session
+  const sessionResult = await createSession(
+    user.id,
+    accessToken,
+    clientIp,
+    userAgent
+  );
+  // Requests only authenticate with a tracked session, so the sign-in fails without one
+  if (!sessionResult.session) {
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: "Failed to start a session. Please try again.",
+    });
+  }
+
+  // Ask the user to confirm a sign-in from an untrusted, unseen device
+  // (fire and forget - email delivery must not delay the sign-in)
+  if (anomalyResult.anomaliesDetected.includes(AnomalyTypes.NEW_DEVICE) && email) {
+    sendNewDeviceConfirmation({
+      userId: user.id,
+      email,
+      sessionId: sessionResult.session.id,
+      deviceFingerprint,
+      ipAddress: clientIp,
+      userAgent,
+    }).catch(err => console.error('[Auth] Failed to send new-device confirmation:', err));
+  }
+
+  // Create refresh token for token rotation
+  const refreshTokenResult = await createRefreshToken(
+    user.id,
+    sessionResult.session.id,
+    clientIp,
+    userAgent
+  );
+
+  // Set auth cookie with enhanced security settings
+  res.cookie(AUTH_COOKIE_NAME, accessToken, {
+    httpOnly: true,  // Prevent XSS access to cookie
+    secure: process.env.NODE_ENV === "production",  // HTTPS only in production
+    sameSite: "strict",  // Strict CSRF protection
+    maxAge: 60 * 60 * 24 * 1 * 1000, // 1 day
+    path: "/",
+  });
+
+  // Set refresh token cookie (longer lived, but also httpOnly)
+  if (refreshTokenResult) {
+    res.cookie(REFRESH_COOKIE_NAME, refreshTokenResult.token, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "strict",
+      maxAge: 60 * 60 * 24 * 7 * 1000, // 7 days
+      path: "/",
+    });
+  }
+
+  return {
+    success: true as const,
+    user: {
+      id: user.id,
+      email: user.email,
+      name: user.user_metadata?.full_name || "Admin",
+      roles: access.roles,
+      isSuperAdmin: access.roles.includes(Roles.SUPER_ADMIN),
+    },
+  };
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("./supabaseDb", () => ({
+  getArticleById: vi.fn(),
+  getCityById: vi.fn(),
+  getEventById: vi.fn(),
+  getRideById: vi.fn(),
+  getUniverseById: vi.fn(),
+  getUserById: vi.fn(),
+  getUserRoles: vi.fn(),
+}));
+
+import { isRedactedAuditKey, loadAuditSnapshot, redactAuditInput } from "./mutationAudit";
+
+describe("mutation audit", () => {
+  it("redacts sensitive keys at any depth", () => {
+    expect(
+      redactAuditInput({
+        email: "admin@example.com",
+        password: "hunter2",
+        challengeToken: "abc",
+        code: "123456",
+        countryCode: "US",
+        nested: [{ apiKey: "k", name: "ok" }],
+      })
+    ).toEqual({
+      email: "admin@example.com",
+      password: "[REDACTED]",
+      challengeToken: "[REDACTED]",
+      code: "[REDACTED]",
+      countryCode: "US",
+      nested: [{ apiKey: "[REDACTED]", name: "ok" }],
+    });
+  });
+
+  it("matches whole words of camelCase and snake_case keys", () => {
+    ["newPassword", "refresh_token", "x-api-key", "APIKey", "totpSecret", "recoveryCodes", "Authorization", "otp"].forEach(key =>
+      expect(isRedactedAuditKey(key)).toBe(true)
+    );
+    ["passengers", "bypass", "footprint", "tokenCount", "keyword", "countryCode", "sortKey"].forEach(key =>
+      expect(isRedactedAuditKey(key)).toBe(false)
+    );
+  });
+
+  it("records failed snapshot loads as null", async () => {
+    const loader = {
+      resourceType: "universe",
+      getResourceId: (input: any) => input.id,
+      load: vi.fn().mockRejectedValue(new Error("boom")),
+    };
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await expect(loadAuditSnapshot(loader, "u1")).resolves.toBeNull();
+    await expect(loadAuditSnapshot(loader, undefined)).resolves.toBeNull();
+    expect(loader.load).toHaveBeenCalledTimes(1);
+  });
+});
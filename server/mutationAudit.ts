@@ -0,0 +1,148 @@
+/**
+ * Mutation Audit Module
+ *
+ * Every tRPC mutation is recorded in audit_log by the auditedMutation
+ * middleware in _core/trpc.ts: procedure path, redacted input, caller, IP,
+ * user agent and outcome. Procedures listed in procedureAuditSnapshots also
+ * get before/after snapshots of the resource they change.
+ */
+
+import {
+  getArticleById,
+  getCityById,
+  getEventById,
+  getRideById,
+  getUniverseById,
+  getUserById,
+  getUserRoles,
+} from "./supabaseDb";
+
+// Input keys whose values are never written to the audit log. Keys are split
+// into camelCase / snake_case words: a key is redacted when any word is in
+// REDACTED_KEY_WORDS, or its last word (or last two joined) is in
+// REDACTED_KEY_SUFFIXES, so challengeToken is redacted but tokenCount isn't.
+const REDACTED_KEY_WORDS = new Set([
+  'pass', 'password', 'passwd', 'passphrase', 'passcode', 'pwd',
+  'secret', 'secrets', 'otp', 'totp', 'recovery',
+  'credential', 'credentials', 'authorization', 'cookie', 'cookies',
+]);
+const REDACTED_KEY_SUFFIXES = new Set(['token', 'tokens', 'apikey', 'privatekey']);
+// Whole keys that are only sensitive on their own (countryCode is fine)
+const REDACTED_KEYS = new Set(['code']);
+
+const REDACTED_VALUE = '[REDACTED]';
+
+// Snapshots larger than this (serialized) are replaced with a marker
+const MAX_SNAPSHOT_CHARS = 20000;
+
+const MAX_REDACT_DEPTH = 8;
+
+export interface AuditSnapshotLoader {
+  resourceType: string;
+  getResourceId: (input: any) => string | undefined;
+  load: (id: string) => Promise<unknown>;
+}
+
+const byId = (input: any) => (typeof input?.id === 'string' ? input.id : undefined);
+const byUserId = (input: any) => (typeof input?.userId === 'string' ? input.userId : undefined);
+
+const userSnapshot: AuditSnapshotLoader = { resourceType: 'user', getResourceId: byUserId, load: getUserById };
+const userRolesSnapshot: AuditSnapshotLoader = { resourceType: 'user_roles', getResourceId: byUserId, load: getUserRoles };
+const universeSnapshot: AuditSnapshotLoader = { resourceType: 'universe', getResourceId: byId, load: getUniverseById };
+const citySnapshot: AuditSnapshotLoader = { resourceType: 'city', getResourceId: byId, load: getCityById };
+const articleSnapshot: AuditSnapshotLoader = { resourceType: 'article', getResourceId: byId, load: getArticleById };
+const rideSnapshot: AuditSnapshotLoader = { resourceType: 'ride', getResourceId: byId, load: getRideById };
+const eventSnapshot: AuditSnapshotLoader = { resourceType: 'event', getResourceId: byId, load: getEventById };
+
+// How to load the resource a procedure changes, keyed by procedure path
+export const procedureAuditSnapshots: Record<string, AuditSnapshotLoader> = {
+  'users.update': userSnapshot,
+  'users.updateEmail': userSnapshot,
+  'users.block': userSnapshot,
+  'users.unblock': userSnapshot,
+  'users.delete': userSnapshot,
+  'users.addRole': userRolesSnapshot,
+  'users.removeRole': userRolesSnapshot,
+  'universes.update': universeSnapshot,
+  'universes.delete': universeSnapshot,
+  'cities.update': citySnapshot,
+  'cities.delete': citySnapshot,
+  'articles.update': articleSnapshot,
+  'articles.delete': articleSnapshot,
+  'rides.update': rideSnapshot,
+  'rides.delete': rideSnapshot,
+  'events.update': eventSnapshot,
+  'events.delete': eventSnapshot,
+};
+
+/**
+ * Split a key into lowercase words: "newPassword" -> ["new", "password"],
+ * "x-api-key" -> ["x", "api", "key"], "APIKey" -> ["api", "key"]
+ */
+function splitKeyWords(key: string): string[] {
+  return key
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(word => word.toLowerCase());
+}
+
+/**
+ * Whether a key's value must be kept out of the audit log
+ */
+export function isRedactedAuditKey(key: string): boolean {
+  const words = splitKeyWords(key);
+  if (words.length === 0) return false;
+  if (REDACTED_KEYS.has(words.join(''))) return true;
+  if (words.some(word => REDACTED_KEY_WORDS.has(word))) return true;
+
+  const last = words[words.length - 1];
+  const lastTwo = words.slice(-2).join('');
+  return REDACTED_KEY_SUFFIXES.has(last) || REDACTED_KEY_SUFFIXES.has(lastTwo);
+}
+
+/**
+ * Copy a value with sensitive fields replaced, for storage in the audit log
+ */
+export function redactAuditInput(value: unknown, depth: number = 0): unknown {
+  if (value === null || value === undefined) return value ?? null;
+  if (depth >= MAX_REDACT_DEPTH) return '[TRUNCATED]';
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) {
+    return value.map(item => redactAuditInput(item, depth + 1));
+  }
+  if (typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    Object.entries(value as Record<string, unknown>).forEach(([key, item]) => {
+      result[key] = isRedactedAuditKey(key) ? REDACTED_VALUE : redactAuditInput(item, depth + 1);
+    });
+    return result;
+  }
+  if (typeof value === 'string' && value.length > 2000) {
+    return `${value.slice(0, 2000)}…`;
+  }
+  return value;
+}
+
+/**
+ * Load a redacted snapshot of the resource a procedure changes.
+ * Never throws; a failed load is recorded as null.
+ */
+export async function loadAuditSnapshot(
+  loader: AuditSnapshotLoader,
+  resourceId: string | undefined
+): Promise<unknown> {
+  if (!resourceId) return null;
+  try {
+    const snapshot = redactAuditInput(await loader.load(resourceId));
+    const serialized = JSON.stringify(snapshot) ?? 'null';
+    if (serialized.length > MAX_SNAPSHOT_CHARS) {
+      return { truncated: true, size: serialized.length };
+    }
+    return snapshot;
+  } catch (err) {
+    console.error(`[MutationAudit] Failed to load ${loader.resourceType} snapshot:`, err);
+    return null;
+  }
+}
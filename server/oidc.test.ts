@@ -0,0 +1,173 @@
+import http from "http";
+import crypto from "crypto";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { exportJWK, generateKeyPair, SignJWT } from "jose";
+
+vi.mock("./supabaseAuth", () => ({ supabaseAdmin: {} }));
+vi.mock("./rbac", () => ({ invalidateUserAccess: vi.fn() }));
+vi.mock("./auditLog", () => ({ logAuditEvent: vi.fn(), AuditActions: {}, ResourceTypes: {} }));
+
+import {
+  exchangeOidcCode,
+  isAllowedEmailDomain,
+  startOidcAuthorization,
+  takeOidcAuthorization,
+  type OidcConfig,
+} from "./oidc";
+
+/**
+ * Minimal local OIDC issuer: discovery, JWKS and a token endpoint that
+ * checks the PKCE verifier and signs an ID token carrying the nonce
+ */
+async function startMockIssuer() {
+  const { publicKey, privateKey } = await generateKeyPair("RS256");
+  const jwk = { ...(await exportJWK(publicKey)), kid: "test-key", alg: "RS256", use: "sig" };
+  const codes = new Map<string, { challenge: string; nonce: string; email: string; claims: Record<string, unknown> }>();
+  let issuer = "";
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url || "/", issuer);
+    const json = (status: number, body: unknown) => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+
+    if (url.pathname === "/.well-known/openid-configuration") {
+      return json(200, {
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        jwks_uri: `${issuer}/jwks`,
+      });
+    }
+    if (url.pathname === "/jwks") {
+      return json(200, { keys: [jwk] });
+    }
+    if (url.pathname === "/token" && req.method === "POST") {
+      let raw = "";
+      for await (const chunk of req) raw += chunk;
+      const body = new URLSearchParams(raw);
+      const grant = codes.get(body.get("code") || "");
+      const verifier = body.get("code_verifier") || "";
+      const challenge = crypto.createHash("sha256").update(verifier).digest("base64url");
+      if (!grant || grant.challenge !== challenge) {
+        return json(400, { error: "invalid_grant" });
+      }
+      const idToken = await new SignJWT({ email: grant.email, ...grant.claims, nonce: grant.nonce, name: "Test Admin" })
+        .setProtectedHeader({ alg: "RS256", kid: "test-key" })
+        .setIssuer(issuer)
+        .setAudience("portal-client")
+        .setSubject("subject-123")
+        .setIssuedAt()
+        .setExpirationTime("5m")
+        .sign(privateKey);
+      return json(200, { access_token: "at", token_type: "Bearer", id_token: idToken });
+    }
+    json(404, { error: "not_found" });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  /** What the provider does when the user approves: issue a code bound to the request */
+  const authorize = (authorizationUrl: string, email: string, claims: Record<string, unknown> = { email_verified: true }) => {
+    const params = new URL(authorizationUrl).searchParams;
+    const code = crypto.randomBytes(8).toString("hex");
+    codes.set(code, { challenge: params.get("code_challenge") || "", nonce: params.get("nonce") || "", email, claims });
+    return { code, state: params.get("state") || "" };
+  };
+
+  return { issuer, authorize, close: () => new Promise(resolve => server.close(resolve)) };
+}
+
+describe("OIDC single sign-on", () => {
+  let issuer: Awaited<ReturnType<typeof startMockIssuer>>;
+  let config: OidcConfig;
+  const redirectUri = "http://localhost:3000/api/auth/oidc/callback";
+
+  beforeAll(async () => {
+    issuer = await startMockIssuer();
+    config = {
+      issuer: issuer.issuer,
+      clientId: "portal-client",
+      scopes: "openid email profile",
+      allowedDomains: ["example.com"],
+      defaultRole: "support",
+      providerName: "Test IdP",
+    };
+  });
+
+  afterAll(async () => {
+    await issuer.close();
+  });
+
+  it("completes the code flow with PKCE and returns the validated identity", async () => {
+    const { url, state, pending } = await startOidcAuthorization(config, redirectUri);
+    const params = new URL(url).searchParams;
+    expect(params.get("code_challenge_method")).toBe("S256");
+    expect(params.get("redirect_uri")).toBe(redirectUri);
+
+    const { code } = issuer.authorize(url, "Admin@Example.com");
+    const authorization = takeOidcAuthorization(pending, state);
+    expect(authorization).not.toBeNull();
+
+    const identity = await exchangeOidcCode(config, code, authorization!);
+    expect(identity).toEqual({ subject: "subject-123", email: "admin@example.com", emailVerified: true, name: "Test Admin" });
+  });
+
+  it("only accepts the signed pending authorization issued for the state", async () => {
+    const { state, pending } = await startOidcAuthorization(config, redirectUri);
+    const other = await startOidcAuthorization(config, redirectUri);
+    const [payload, signature] = pending.split(".");
+    const forged = Buffer.from(
+      JSON.stringify({ ...JSON.parse(Buffer.from(payload, "base64url").toString()), redirectUri: "https://evil.example" })
+    ).toString("base64url");
+
+    expect(takeOidcAuthorization(pending, other.state)).toBeNull();
+    expect(takeOidcAuthorization(`${forged}.${signature}`, state)).toBeNull();
+    expect(takeOidcAuthorization(undefined, state)).toBeNull();
+  });
+
+  it("only treats an explicit email_verified claim as verified", async () => {
+    const { url, state, pending } = await startOidcAuthorization(config, redirectUri);
+    const { code } = issuer.authorize(url, "admin@example.com", {});
+    const identity = await exchangeOidcCode(config, code, takeOidcAuthorization(pending, state)!);
+    expect(identity.emailVerified).toBe(false);
+  });
+
+  it("rejects ID tokens for another client or with the wrong nonce", async () => {
+    const { url, state, pending } = await startOidcAuthorization(config, redirectUri);
+    const { code } = issuer.authorize(url, "admin@example.com");
+    const authorization = takeOidcAuthorization(pending, state)!;
+
+    await expect(
+      exchangeOidcCode({ ...config, clientId: "other-client" }, code, authorization)
+    ).rejects.toThrow();
+
+    const second = await startOidcAuthorization(config, redirectUri);
+    const { code: secondCode } = issuer.authorize(second.url, "admin@example.com");
+    const secondAuthorization = takeOidcAuthorization(second.pending, second.state)!;
+    await expect(
+      exchangeOidcCode(config, secondCode, { ...secondAuthorization, nonce: "forged" })
+    ).rejects.toThrow(/nonce/);
+  });
+
+  it("rejects a code redeemed without the matching PKCE verifier", async () => {
+    const { url, state, pending } = await startOidcAuthorization(config, redirectUri);
+    const { code } = issuer.authorize(url, "admin@example.com");
+    const authorization = takeOidcAuthorization(pending, state)!;
+
+    await expect(
+      exchangeOidcCode(config, code, { ...authorization, codeVerifier: "wrong-verifier" })
+    ).rejects.toThrow(/invalid_grant/);
+  });
+
+  it("only allows exact email domains", () => {
+    expect(isAllowedEmailDomain("a@example.com", ["example.com"])).toBe(true);
+    expect(isAllowedEmailDomain("a@EXAMPLE.com", ["example.com"])).toBe(true);
+    expect(isAllowedEmailDomain("a@evil-example.com", ["example.com"])).toBe(false);
+    expect(isAllowedEmailDomain("a@mail.example.com", ["example.com"])).toBe(false);
+    expect(isAllowedEmailDomain("example.com", ["example.com"])).toBe(false);
+  });
+});
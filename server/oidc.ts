@@ -0,0 +1,503 @@
+/**
+ * OIDC Single Sign-On Module
+ *
+ * Generic OpenID Connect login (Google Workspace or any compliant provider):
+ * issuer discovery, authorization code flow with PKCE, and ID-token
+ * validation against the issuer's JWKS. Accounts are auto-provisioned only
+ * for allowed email domains and get the configured default role. Once an
+ * account is linked (sso_identities), sign-ins match on issuer + subject;
+ * linking by email needs a verified email claim. Pending authorizations
+ * travel in a short-lived signed cookie, so any instance can finish them.
+ *
+ * The HTTP endpoints live in ./_core/oidc.ts.
+ */
+
+import crypto from "crypto";
+import { createRemoteJWKSet, jwtVerify, type JWTPayload } from "jose";
+import { supabaseAdmin } from "./supabaseAuth";
+import { invalidateUserAccess } from "./rbac";
+import { logAuditEvent, AuditActions, ResourceTypes } from "./auditLog";
+import { Roles, isPortalRole, type Role } from "../shared/permissions";
+
+// Configuration
+const AUTHORIZATION_TTL_MS = 10 * 60 * 1000; // 10 minutes
+const DISCOVERY_CACHE_MS = 60 * 60 * 1000; // 1 hour
+const CLOCK_TOLERANCE_SECONDS = 60;
+const ID_TOKEN_ALGORITHMS = ['RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512', 'EdDSA'];
+const DEFAULT_ROLE: Role = Roles.SUPPORT;
+
+export interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  redirectUri?: string;
+  scopes: string;
+  allowedDomains: string[];
+  defaultRole: Role;
+  providerName: string;
+}
+
+export interface OidcProviderMetadata {
+  issuer: string;
+  authorizationEndpoint: string;
+  tokenEndpoint: string;
+  jwksUri: string;
+}
+
+export interface OidcAuthorization {
+  codeVerifier: string;
+  nonce: string;
+  redirectUri: string;
+}
+
+export interface OidcIdentity {
+  subject: string;
+  email: string;
+  // Only an explicit email_verified: true counts
+  emailVerified: boolean;
+  name?: string;
+}
+
+/**
+ * Read the OIDC settings from the environment; null when SSO is not configured
+ */
+export function getOidcConfig(): OidcConfig | null {
+  const issuer = process.env.OIDC_ISSUER?.trim();
+  const clientId = process.env.OIDC_CLIENT_ID?.trim();
+  if (!issuer || !clientId) return null;
+
+  const allowedDomains = (process.env.OIDC_ALLOWED_DOMAINS || '')
+    .split(',')
+    .map(d => d.trim().toLowerCase().replace(/^@/, ''))
+    .filter(d => d.length > 0);
+  if (allowedDomains.length === 0) {
+    console.warn('[OIDC] OIDC_ALLOWED_DOMAINS is empty; single sign-on is disabled');
+    return null;
+  }
+
+  const configuredRole = process.env.OIDC_DEFAULT_ROLE?.trim();
+  let defaultRole = DEFAULT_ROLE;
+  if (configuredRole) {
+    // Super admin is never handed out automatically
+    if (isPortalRole(configuredRole) && configuredRole !== Roles.SUPER_ADMIN) {
+      defaultRole = configuredRole;
+    } else {
+      console.warn(`[OIDC] Ignoring OIDC_DEFAULT_ROLE=${configuredRole}; using ${DEFAULT_ROLE}`);
+    }
+  }
+
+  return {
+    issuer: issuer.replace(/\/+$/, ''),
+    clientId,
+    clientSecret: process.env.OIDC_CLIENT_SECRET || undefined,
+    redirectUri: process.env.OIDC_REDIRECT_URI || undefined,
+    scopes: process.env.OIDC_SCOPES || 'openid email profile',
+    allowedDomains,
+    defaultRole,
+    providerName: process.env.OIDC_PROVIDER_NAME || 'SSO',
+  };
+}
+
+/**
+ * Whether an email belongs to one of the allowed domains (exact match, no subdomains)
+ */
+export function isAllowedEmailDomain(email: string, allowedDomains: string[]): boolean {
+  const at = email.lastIndexOf('@');
+  if (at < 1) return false;
+  return allowedDomains.includes(email.slice(at + 1).toLowerCase());
+}
+
+// ============ DISCOVERY ============
+
+const discoveryCache = new Map<string, { metadata: OidcProviderMetadata; expiresAt: number }>();
+const jwksCache = new Map<string, ReturnType<typeof createRemoteJWKSet>>();
+
+/**
+ * Load the issuer's provider metadata from /.well-known/openid-configuration
+ */
+export async function discoverOidcProvider(issuer: string): Promise<OidcProviderMetadata> {
+  const cached = discoveryCache.get(issuer);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.metadata;
+  }
+
+  const response = await fetch(`${issuer}/.well-known/openid-configuration`, {
+    headers: { Accept: 'application/json' },
+  });
+  if (!response.ok) {
+    throw new Error(`Discovery failed with status ${response.status}`);
+  }
+
+  const doc = await response.json() as Record<string, unknown>;
+  // The document must describe the issuer we asked for (OIDC Discovery 4.3)
+  if (typeof doc.issuer !== 'string' || doc.issuer.replace(/\/+$/, '') !== issuer) {
+    throw new Error('Discovery document issuer does not match');
+  }
+  if (
+    typeof doc.authorization_endpoint !== 'string' ||
+    typeof doc.token_endpoint !== 'string' ||
+    typeof doc.jwks_uri !== 'string'
+  ) {
+    throw new Error('Discovery document is missing required endpoints');
+  }
+
+  const metadata: OidcProviderMetadata = {
+    issuer: doc.issuer,
+    authorizationEndpoint: doc.authorization_endpoint,
+    tokenEndpoint: doc.token_endpoint,
+    jwksUri: doc.jwks_uri,
+  };
+  discoveryCache.set(issuer, { metadata, expiresAt: Date.now() + DISCOVERY_CACHE_MS });
+  return metadata;
+}
+
+function getJwks(jwksUri: string) {
+  let jwks = jwksCache.get(jwksUri);
+  if (!jwks) {
+    jwks = createRemoteJWKSet(new URL(jwksUri));
+    jwksCache.set(jwksUri, jwks);
+  }
+  return jwks;
+}
+
+// ============ AUTHORIZATION ============
+
+/**
+ * Key for signing pending authorizations: OIDC_STATE_SECRET, else JWT_SECRET
+ */
+function getStateSigningKey(): Buffer {
+  const secret = process.env.OIDC_STATE_SECRET || process.env.JWT_SECRET;
+  if (!secret) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('OIDC_STATE_SECRET (or JWT_SECRET) must be set in production');
+    }
+    console.warn('[OIDC] OIDC_STATE_SECRET not set, using development key');
+    return crypto.createHash('sha256').update('tavvy-dev-oidc-state-key').digest();
+  }
+  return crypto.createHash('sha256').update(secret).digest();
+}
+
+function signState(payload: string): string {
+  return crypto.createHmac('sha256', getStateSigningKey()).update(payload).digest('base64url');
+}
+
+/**
+ * Generate a PKCE code verifier and its S256 challenge
+ */
+export function createPkcePair(): { codeVerifier: string; codeChallenge: string } {
+  const codeVerifier = crypto.randomBytes(32).toString('base64url');
+  const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+  return { codeVerifier, codeChallenge };
+}
+
+/**
+ * Start an authorization and return the provider URL to send the browser to,
+ * plus the signed pending authorization (PKCE verifier, nonce, state) for the
+ * caller to keep in an httpOnly cookie until the callback
+ */
+export async function startOidcAuthorization(
+  config: OidcConfig,
+  redirectUri: string
+): Promise<{ url: string; state: string; pending: string }> {
+  const metadata = await discoverOidcProvider(config.issuer);
+  const { codeVerifier, codeChallenge } = createPkcePair();
+  const state = crypto.randomBytes(24).toString('base64url');
+  const nonce = crypto.randomBytes(24).toString('base64url');
+
+  const payload = Buffer.from(JSON.stringify({
+    state,
+    codeVerifier,
+    nonce,
+    redirectUri,
+    expiresAt: Date.now() + AUTHORIZATION_TTL_MS,
+  })).toString('base64url');
+  const pending = `${payload}.${signState(payload)}`;
+
+  const url = new URL(metadata.authorizationEndpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', config.clientId);
+  url.searchParams.set('redirect_uri', redirectUri);
+  url.searchParams.set('scope', config.scopes);
+  url.searchParams.set('state', state);
+  url.searchParams.set('nonce', nonce);
+  url.searchParams.set('code_challenge', codeChallenge);
+  url.searchParams.set('code_challenge_method', 'S256');
+  // Google Workspace: pre-select the account when a single domain is allowed
+  if (config.allowedDomains.length === 1) {
+    url.searchParams.set('hd', config.allowedDomains[0]);
+  }
+
+  return { url: url.toString(), state, pending };
+}
+
+/**
+ * Read a pending authorization back from its cookie. Null unless the
+ * signature is valid, it hasn't expired and it was issued for this state.
+ */
+export function takeOidcAuthorization(pending: string | undefined, state: string): OidcAuthorization | null {
+  if (!pending) return null;
+  const [payload, signature] = pending.split('.');
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(signState(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const entry = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (entry.state !== state || typeof entry.expiresAt !== 'number' || entry.expiresAt < Date.now()) {
+      return null;
+    }
+    return { codeVerifier: entry.codeVerifier, nonce: entry.nonce, redirectUri: entry.redirectUri };
+  } catch {
+    return null;
+  }
+}
+
+// ============ TOKEN EXCHANGE & VALIDATION ============
+
+/**
+ * Validate an ID token: signature against the issuer's JWKS, issuer,
+ * audience, expiry, nonce and authorized party
+ */
+export async function validateIdToken(
+  config: OidcConfig,
+  metadata: OidcProviderMetadata,
+  idToken: string,
+  nonce: string
+): Promise<OidcIdentity> {
+  const { payload } = await jwtVerify(idToken, getJwks(metadata.jwksUri), {
+    issuer: metadata.issuer,
+    audience: config.clientId,
+    algorithms: ID_TOKEN_ALGORITHMS,
+    clockTolerance: CLOCK_TOLERANCE_SECONDS,
+    requiredClaims: ['sub', 'exp', 'iat'],
+  });
+
+  if (payload.nonce !== nonce) {
+    throw new Error('ID token nonce mismatch');
+  }
+  if (Array.isArray(payload.aud) && payload.aud.length > 1 && payload.azp !== config.clientId) {
+    throw new Error('ID token authorized party mismatch');
+  }
+
+  return toIdentity(payload);
+}
+
+function toIdentity(payload: JWTPayload): OidcIdentity {
+  const email = typeof payload.email === 'string' ? payload.email.trim().toLowerCase() : '';
+  if (!email) {
+    throw new Error('ID token has no email claim');
+  }
+  if (payload.email_verified === false || payload.email_verified === 'false') {
+    throw new Error('Email address is not verified by the provider');
+  }
+
+  return {
+    subject: payload.sub as string,
+    email,
+    // Providers that omit email_verified (e.g. some Entra ID setups) can sign
+    // in to accounts already linked to the subject, but can't link by email
+    emailVerified: payload.email_verified === true || payload.email_verified === 'true',
+    name: typeof payload.name === 'string' ? payload.name : undefined,
+  };
+}
+
+/**
+ * Redeem an authorization code (with its PKCE verifier) and validate the
+ * returned ID token
+ */
+export async function exchangeOidcCode(
+  config: OidcConfig,
+  code: string,
+  authorization: OidcAuthorization
+): Promise<OidcIdentity> {
+  const metadata = await discoverOidcProvider(config.issuer);
+
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: authorization.redirectUri,
+    code_verifier: authorization.codeVerifier,
+  });
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/x-www-form-urlencoded',
+    Accept: 'application/json',
+  };
+  if (config.clientSecret) {
+    // client_secret_basic (RFC 6749 2.3.1: credentials are form-encoded first)
+    const credentials = `${encodeURIComponent(config.clientId)}:${encodeURIComponent(config.clientSecret)}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+  } else {
+    body.set('client_id', config.clientId);
+  }
+
+  const response = await fetch(metadata.tokenEndpoint, { method: 'POST', headers, body });
+  const tokens = await response.json().catch(() => ({})) as Record<string, unknown>;
+  if (!response.ok) {
+    throw new Error(`Token exchange failed: ${tokens.error || response.status}`);
+  }
+  if (typeof tokens.id_token !== 'string') {
+    throw new Error('Token response has no ID token');
+  }
+
+  return validateIdToken(config, metadata, tokens.id_token, authorization.nonce);
+}
+
+// ============ ACCOUNT LINKING ============
+
+/**
+ * The account linked to a provider identity, if any
+ */
+export async function findLinkedSsoUser(issuer: string, subject: string): Promise<string | null> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('sso_identities')
+      .select('user_id')
+      .eq('issuer', issuer)
+      .eq('subject', subject)
+      .maybeSingle();
+
+    if (error) {
+      console.error('[OIDC] Error looking up linked identity:', error);
+      return null;
+    }
+
+    if (data) {
+      await supabaseAdmin
+        .from('sso_identities')
+        .update({ last_login_at: new Date().toISOString() })
+        .eq('issuer', issuer)
+        .eq('subject', subject);
+    }
+
+    return data?.user_id ?? null;
+  } catch (err) {
+    console.error('[OIDC] Exception looking up linked identity:', err);
+    return null;
+  }
+}
+
+async function insertSsoIdentity(userId: string, config: OidcConfig, identity: OidcIdentity): Promise<boolean> {
+  const { error } = await supabaseAdmin
+    .from('sso_identities')
+    .insert({
+      user_id: userId,
+      issuer: config.issuer,
+      subject: identity.subject,
+      email: identity.email,
+      last_login_at: new Date().toISOString(),
+    });
+
+  if (error) {
+    // 23505: the account is already linked to another subject of this issuer
+    if (error.code !== '23505') {
+      console.error('[OIDC] Failed to link identity:', error);
+    }
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Link an existing account to a provider identity on its first SSO sign-in.
+ * Only verified email claims may link; fails when the account is already
+ * linked to a different subject of the same issuer.
+ */
+export async function linkSsoIdentity(
+  userId: string,
+  config: OidcConfig,
+  identity: OidcIdentity,
+  ipAddress?: string,
+  userAgent?: string
+): Promise<boolean> {
+  if (!identity.emailVerified) return false;
+
+  try {
+    if (!(await insertSsoIdentity(userId, config, identity))) return false;
+
+    await logAuditEvent({
+      userId,
+      userEmail: identity.email,
+      action: AuditActions.SSO_ACCOUNT_LINKED,
+      resourceType: ResourceTypes.USER,
+      resourceId: userId,
+      details: { issuer: config.issuer, subject: identity.subject },
+      ipAddress,
+      userAgent,
+    });
+    return true;
+  } catch (err) {
+    console.error('[OIDC] Exception linking identity:', err);
+    return false;
+  }
+}
+
+// ============ PROVISIONING ============
+
+/**
+ * Create a portal account for a first-time SSO user, link it to the provider
+ * identity and grant the default role. Returns the new user id, or null when
+ * the email isn't verified or the account could not be created (e.g. it
+ * already exists).
+ */
+export async function provisionOidcUser(
+  config: OidcConfig,
+  identity: OidcIdentity,
+  ipAddress?: string,
+  userAgent?: string
+): Promise<string | null> {
+  if (!identity.emailVerified) return null;
+
+  try {
+    const { data, error } = await supabaseAdmin.auth.admin.createUser({
+      email: identity.email,
+      email_confirm: true,
+      user_metadata: {
+        full_name: identity.name || identity.email.split('@')[0],
+      },
+      // app_metadata is server-controlled, unlike user_metadata
+      app_metadata: {
+        sso_issuer: config.issuer,
+        sso_subject: identity.subject,
+      },
+    });
+
+    if (error || !data.user) {
+      console.error('[OIDC] Failed to provision user:', error);
+      return null;
+    }
+
+    const userId = data.user.id;
+    if (!(await insertSsoIdentity(userId, config, identity))) {
+      console.error('[OIDC] Provisioned user could not be linked:', userId);
+    }
+
+    const { error: roleError } = await supabaseAdmin
+      .from('user_roles')
+      .insert({ user_id: userId, role: config.defaultRole, granted_by: userId, granted_at: new Date().toISOString() });
+    if (roleError) {
+      console.error('[OIDC] Failed to grant default role:', roleError);
+    }
+    invalidateUserAccess(userId);
+
+    await logAuditEvent({
+      userId,
+      userEmail: identity.email,
+      action: AuditActions.SSO_USER_PROVISIONED,
+      resourceType: ResourceTypes.USER,
+      resourceId: userId,
+      details: { issuer: config.issuer, subject: identity.subject, role: config.defaultRole, roleGranted: !roleError },
+      ipAddress,
+      userAgent,
+    });
+
+    console.log(`[OIDC] Provisioned ${identity.email} with role ${config.defaultRole}`);
+    return userId;
+  } catch (err) {
+    console.error('[OIDC] Exception provisioning user:', err);
+    return null;
+  }
+}
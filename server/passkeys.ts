@@ -0,0 +1,361 @@
+/**
+ * Passkey (WebAuthn) Module
+ *
+ * Registration and authentication ceremonies for admin passkeys.
+ * Credentials are stored in the admin_passkeys table; ceremony challenges
+ * are short-lived and kept in memory.
+ */
+
+import crypto from "crypto";
+import {
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+  type AuthenticationResponseJSON,
+  type AuthenticatorTransportFuture,
+  type PublicKeyCredentialCreationOptionsJSON,
+  type PublicKeyCredentialRequestOptionsJSON,
+  type RegistrationResponseJSON,
+} from "@simplewebauthn/server";
+import { supabaseAdmin } from "./supabaseAuth";
+
+// Configuration
+const RP_NAME = 'Tavvy Admin';
+const CHALLENGE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+const MAX_PASSKEYS_PER_USER = 10;
+
+export interface RelyingParty {
+  rpID: string;
+  origin: string;
+}
+
+export interface PasskeyInfo {
+  id: string;
+  name: string;
+  deviceType?: string;
+  backedUp: boolean;
+  createdAt: Date;
+  lastUsedAt?: Date;
+}
+
+export interface PasskeyAuthenticationResult {
+  userId: string;
+  passkeyId: string;
+}
+
+// Pending ceremony challenges (registration keyed by user id, authentication by challenge id)
+const registrationChallenges = new Map<string, { challenge: string; expiresAt: number }>();
+const authenticationChallenges = new Map<string, { challenge: string; expiresAt: number }>();
+
+// Clean up expired challenges every minute
+setInterval(() => {
+  const now = Date.now();
+  for (const challenges of [registrationChallenges, authenticationChallenges]) {
+    Array.from(challenges.entries()).forEach(([key, entry]) => {
+      if (entry.expiresAt < now) {
+        challenges.delete(key);
+      }
+    });
+  }
+}, 60 * 1000);
+
+/**
+ * Resolve the relying party for a request.
+ * Uses WEBAUTHN_RP_ID / WEBAUTHN_ORIGIN when set, otherwise the request origin.
+ */
+export function getRelyingParty(requestOrigin?: string): RelyingParty | null {
+  const origin = process.env.WEBAUTHN_ORIGIN || requestOrigin;
+  if (!origin) return null;
+
+  try {
+    return {
+      rpID: process.env.WEBAUTHN_RP_ID || new URL(origin).hostname,
+      origin,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Take a pending challenge (single use)
+ */
+function takeChallenge(
+  challenges: Map<string, { challenge: string; expiresAt: number }>,
+  key: string
+): string | null {
+  const entry = challenges.get(key);
+  challenges.delete(key);
+  if (!entry || entry.expiresAt < Date.now()) {
+    return null;
+  }
+  return entry.challenge;
+}
+
+// ============ REGISTRATION ============
+
+/**
+ * Generate registration options for a signed-in admin
+ */
+export async function startPasskeyRegistration(
+  user: { id: string; email: string; name: string },
+  rp: RelyingParty
+): Promise<PublicKeyCredentialCreationOptionsJSON | null> {
+  try {
+    const { data: existing, error } = await supabaseAdmin
+      .from('admin_passkeys')
+      .select('credential_id, transports')
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('[Passkeys] Error loading existing passkeys:', error);
+      return null;
+    }
+
+    if ((existing || []).length >= MAX_PASSKEYS_PER_USER) {
+      console.warn(`[Passkeys] User ${user.id} reached the passkey limit`);
+      return null;
+    }
+
+    const options = await generateRegistrationOptions({
+      rpName: RP_NAME,
+      rpID: rp.rpID,
+      userName: user.email,
+      userDisplayName: user.name,
+      userID: new TextEncoder().encode(user.id),
+      attestationType: 'none',
+      excludeCredentials: (existing || []).map(p => ({
+        id: p.credential_id,
+        transports: (p.transports || undefined) as AuthenticatorTransportFuture[] | undefined,
+      })),
+      authenticatorSelection: {
+        residentKey: 'required',
+        userVerification: 'required',
+      },
+    });
+
+    registrationChallenges.set(user.id, {
+      challenge: options.challenge,
+      expiresAt: Date.now() + CHALLENGE_TTL_MS,
+    });
+
+    return options;
+  } catch (err) {
+    console.error('[Passkeys] Exception starting registration:', err);
+    return null;
+  }
+}
+
+/**
+ * Verify a registration response and store the new credential
+ */
+export async function finishPasskeyRegistration(
+  userId: string,
+  response: RegistrationResponseJSON,
+  name: string,
+  rp: RelyingParty
+): Promise<PasskeyInfo | null> {
+  const expectedChallenge = takeChallenge(registrationChallenges, userId);
+  if (!expectedChallenge) {
+    return null;
+  }
+
+  try {
+    const verification = await verifyRegistrationResponse({
+      response,
+      expectedChallenge,
+      expectedOrigin: rp.origin,
+      expectedRPID: rp.rpID,
+      requireUserVerification: true,
+    });
+
+    if (!verification.verified) {
+      return null;
+    }
+
+    const { credential, credentialDeviceType, credentialBackedUp } = verification.registrationInfo;
+
+    const { data, error } = await supabaseAdmin
+      .from('admin_passkeys')
+      .insert({
+        user_id: userId,
+        credential_id: credential.id,
+        public_key: Buffer.from(credential.publicKey).toString('base64url'),
+        counter: credential.counter,
+        transports: credential.transports || [],
+        device_type: credentialDeviceType,
+        backed_up: credentialBackedUp,
+        name,
+      })
+      .select('id, name, device_type, backed_up, created_at, last_used_at')
+      .single();
+
+    if (error || !data) {
+      console.error('[Passkeys] Error storing passkey:', error);
+      return null;
+    }
+
+    return mapPasskey(data);
+  } catch (err) {
+    console.error('[Passkeys] Exception verifying registration:', err);
+    return null;
+  }
+}
+
+// ============ AUTHENTICATION ============
+
+/**
+ * Generate authentication options (discoverable credentials, no username needed)
+ */
+export async function startPasskeyAuthentication(
+  rp: RelyingParty
+): Promise<{ challengeId: string; options: PublicKeyCredentialRequestOptionsJSON } | null> {
+  try {
+    const options = await generateAuthenticationOptions({
+      rpID: rp.rpID,
+      userVerification: 'required',
+    });
+
+    const challengeId = crypto.randomUUID();
+    authenticationChallenges.set(challengeId, {
+      challenge: options.challenge,
+      expiresAt: Date.now() + CHALLENGE_TTL_MS,
+    });
+
+    return { challengeId, options };
+  } catch (err) {
+    console.error('[Passkeys] Exception starting authentication:', err);
+    return null;
+  }
+}
+
+/**
+ * Look up the owner of a credential (used for failed-login attribution)
+ */
+export async function getPasskeyOwner(credentialId: string): Promise<string | null> {
+  const { data } = await supabaseAdmin
+    .from('admin_passkeys')
+    .select('user_id')
+    .eq('credential_id', credentialId)
+    .maybeSingle();
+
+  return data?.user_id || null;
+}
+
+/**
+ * Verify an authentication response against the stored credential
+ */
+export async function finishPasskeyAuthentication(
+  challengeId: string,
+  response: AuthenticationResponseJSON,
+  rp: RelyingParty
+): Promise<PasskeyAuthenticationResult | null> {
+  const expectedChallenge = takeChallenge(authenticationChallenges, challengeId);
+  if (!expectedChallenge) {
+    return null;
+  }
+
+  try {
+    const { data: passkey, error } = await supabaseAdmin
+      .from('admin_passkeys')
+      .select('id, user_id, credential_id, public_key, counter, transports')
+      .eq('credential_id', response.id)
+      .maybeSingle();
+
+    if (error || !passkey) {
+      return null;
+    }
+
+    const verification = await verifyAuthenticationResponse({
+      response,
+      expectedChallenge,
+      expectedOrigin: rp.origin,
+      expectedRPID: rp.rpID,
+      requireUserVerification: true,
+      credential: {
+        id: passkey.credential_id,
+        publicKey: new Uint8Array(Buffer.from(passkey.public_key, 'base64url')),
+        counter: Number(passkey.counter),
+        transports: (passkey.transports || undefined) as AuthenticatorTransportFuture[] | undefined,
+      },
+    });
+
+    if (!verification.verified) {
+      return null;
+    }
+
+    await supabaseAdmin
+      .from('admin_passkeys')
+      .update({
+        counter: verification.authenticationInfo.newCounter,
+        last_used_at: new Date().toISOString(),
+      })
+      .eq('id', passkey.id);
+
+    return { userId: passkey.user_id, passkeyId: passkey.id };
+  } catch (err) {
+    console.error('[Passkeys] Exception verifying authentication:', err);
+    return null;
+  }
+}
+
+// ============ MANAGEMENT ============
+
+function mapPasskey(row: any): PasskeyInfo {
+  return {
+    id: row.id,
+    name: row.name,
+    deviceType: row.device_type || undefined,
+    backedUp: !!row.backed_up,
+    createdAt: new Date(row.created_at),
+    lastUsedAt: row.last_used_at ? new Date(row.last_used_at) : undefined,
+  };
+}
+
+/**
+ * List a user's registered passkeys
+ */
+export async function listPasskeys(userId: string): Promise<PasskeyInfo[]> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('admin_passkeys')
+      .select('id, name, device_type, backed_up, created_at, last_used_at')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('[Passkeys] Error listing passkeys:', error);
+      return [];
+    }
+
+    return (data || []).map(mapPasskey);
+  } catch (err) {
+    console.error('[Passkeys] Exception listing passkeys:', err);
+    return [];
+  }
+}
+
+/**
+ * Remove one of a user's passkeys
+ */
+export async function deletePasskey(userId: string, passkeyId: string): Promise<boolean> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('admin_passkeys')
+      .delete()
+      .eq('id', passkeyId)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) {
+      console.error('[Passkeys] Error deleting passkey:', error);
+      return false;
+    }
+
+    return !!data && data.length > 0;
+  } catch (err) {
+    console.error('[Passkeys] Exception deleting passkey:', err);
+    return false;
+  }
+}
@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  checkPassword,
+  isBreachedPassword,
+  isPasswordRotationDue,
+  isSimilarToEmail,
+  PasswordViolations,
+} from "./passwordPolicy";
+
+describe("Password policy", () => {
+  afterEach(() => {
+    delete process.env.SUPER_ADMIN_PASSWORD_MAX_AGE_DAYS;
+  });
+
+  it("accepts a long password unrelated to the email", () => {
+    expect(checkPassword("correct horse battery staple", "jane.doe@example.com")).toEqual([]);
+  });
+
+  it("rejects short passwords and explains why", () => {
+    const violations = checkPassword("Xy7!kq", "jane@example.com");
+    expect(violations.map(v => v.code)).toContain(PasswordViolations.TOO_SHORT);
+    expect(violations[0].message).toMatch(/at least 12 characters/);
+  });
+
+  it("rejects passwords built from the email", () => {
+    expect(isSimilarToEmail("JaneDoe2024!!", "jane.doe@example.com")).toBe(true);
+    expect(isSimilarToEmail("example-company", "jane@example.com")).toBe(true);
+    expect(isSimilarToEmail("janedoa", "jane.doe@example.com")).toBe(true);
+    expect(isSimilarToEmail("violet tundra kettle", "jane.doe@example.com")).toBe(false);
+  });
+
+  it("rejects passwords on the breached list regardless of case", () => {
+    expect(isBreachedPassword("password123")).toBe(true);
+    expect(isBreachedPassword("PASSWORD123")).toBe(true);
+    expect(checkPassword("qwertyuiop123", "jane@example.com").map(v => v.code)).toEqual([
+      PasswordViolations.BREACHED,
+    ]);
+  });
+
+  it("only requires rotation when a maximum age is configured", () => {
+    const changedAt = new Date("2026-01-01T00:00:00Z");
+    const now = new Date("2026-05-01T00:00:00Z");
+    expect(isPasswordRotationDue(changedAt, now)).toBe(false);
+
+    process.env.SUPER_ADMIN_PASSWORD_MAX_AGE_DAYS = "90";
+    expect(isPasswordRotationDue(changedAt, now)).toBe(true);
+    expect(isPasswordRotationDue(new Date("2026-04-01T00:00:00Z"), now)).toBe(false);
+    expect(isPasswordRotationDue(null, now)).toBe(false);
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Password Policy Module
+ *
+ * Server-side rules for new passwords (signup and password change):
+ * minimum length, not too similar to the account's email, and not on the
+ * breached-password list (bundled, optionally extended from a file). Also
+ * tracks when a password was last changed so super admins can be made to
+ * rotate theirs.
+ */
+
+import crypto from "crypto";
+import fs from "fs";
+import type { User } from "@supabase/supabase-js";
+import { BREACHED_PASSWORD_SHA1 } from "./breachedPasswords";
+import { Roles } from "../shared/permissions";
+
+// Configuration
+const DEFAULT_MIN_LENGTH = 12;
+// Supabase (bcrypt) ignores anything past 72 bytes
+const MAX_LENGTH = 72;
+// Passwords this close to the email (1 = identical) are rejected
+const MAX_EMAIL_SIMILARITY = 0.7;
+
+export const PasswordViolations = {
+  TOO_SHORT: 'too_short',
+  TOO_LONG: 'too_long',
+  SIMILAR_TO_EMAIL: 'similar_to_email',
+  BREACHED: 'breached',
+} as const;
+
+export type PasswordViolationCode = typeof PasswordViolations[keyof typeof PasswordViolations];
+
+export interface PasswordViolation {
+  code: PasswordViolationCode;
+  message: string;
+}
+
+export interface PasswordPolicy {
+  minLength: number;
+  maxLength: number;
+  // Days before a super admin must choose a new password; null when rotation is off
+  superAdminMaxAgeDays: number | null;
+}
+
+export function getPasswordPolicy(): PasswordPolicy {
+  const minLength = parseInt(process.env.PASSWORD_MIN_LENGTH || '', 10);
+  const maxAgeDays = parseInt(process.env.SUPER_ADMIN_PASSWORD_MAX_AGE_DAYS || '', 10);
+  return {
+    minLength: Number.isFinite(minLength) && minLength >= 8 ? Math.min(minLength, MAX_LENGTH) : DEFAULT_MIN_LENGTH,
+    maxLength: MAX_LENGTH,
+    superAdminMaxAgeDays: Number.isFinite(maxAgeDays) && maxAgeDays > 0 ? maxAgeDays : null,
+  };
+}
+
+// ============ BREACHED PASSWORDS ============
+
+let breachedHashes: Set<string> | null = null;
+
+/**
+ * Bundled hashes plus PASSWORD_BREACH_LIST_PATH (one SHA-1 per line; the
+ * HIBP "HASH:count" format is accepted), loaded once
+ */
+function getBreachedHashes(): Set<string> {
+  if (breachedHashes) return breachedHashes;
+
+  breachedHashes = new Set(BREACHED_PASSWORD_SHA1);
+  const extraPath = process.env.PASSWORD_BREACH_LIST_PATH;
+  if (extraPath) {
+    try {
+      const before = breachedHashes.size;
+      for (const line of fs.readFileSync(extraPath, 'utf8').split('\n')) {
+        const hash = line.split(':')[0].trim().toUpperCase();
+        if (/^[0-9A-F]{40}$/.test(hash)) breachedHashes.add(hash);
+      }
+      console.log(`[PasswordPolicy] Loaded ${breachedHashes.size - before} breached password hashes from ${extraPath}`);
+    } catch (err) {
+      console.error('[PasswordPolicy] Failed to load breached password list:', err);
+    }
+  }
+  return breachedHashes;
+}
+
+function sha1(value: string): string {
+  return crypto.createHash('sha1').update(value).digest('hex').toUpperCase();
+}
+
+export function isBreachedPassword(password: string): boolean {
+  const hashes = getBreachedHashes();
+  return hashes.has(sha1(password)) || hashes.has(sha1(password.toLowerCase()));
+}
+
+// ============ EMAIL SIMILARITY ============
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Whether a password is built from the email: contains the mailbox name (or
+ * the whole address), or is within a few edits of either
+ */
+export function isSimilarToEmail(password: string, email: string): boolean {
+  const candidate = normalize(password);
+  if (!candidate) return false;
+  const [localPart, domain = ''] = email.toLowerCase().split('@');
+  const parts = [normalize(localPart), normalize(email), normalize(domain.split('.')[0])]
+    .filter(part => part.length >= 3);
+
+  return parts.some(part => {
+    if (candidate.includes(part) || part.includes(candidate)) return true;
+    const similarity = 1 - levenshtein(candidate, part) / Math.max(candidate.length, part.length);
+    return similarity >= MAX_EMAIL_SIMILARITY;
+  });
+}
+
+// ============ VALIDATION ============
+
+/**
+ * Check a new password against the policy; an empty list means it is accepted
+ */
+export function checkPassword(password: string, email: string): PasswordViolation[] {
+  const policy = getPasswordPolicy();
+  const violations: PasswordViolation[] = [];
+
+  if (password.length < policy.minLength) {
+    violations.push({
+      code: PasswordViolations.TOO_SHORT,
+      message: `Use at least ${policy.minLength} characters.`,
+    });
+  }
+  if (password.length > policy.maxLength) {
+    violations.push({
+      code: PasswordViolations.TOO_LONG,
+      message: `Use at most ${policy.maxLength} characters.`,
+    });
+  }
+  if (email && isSimilarToEmail(password, email)) {
+    violations.push({
+      code: PasswordViolations.SIMILAR_TO_EMAIL,
+      message: 'Your password is too similar to your email address.',
+    });
+  }
+  if (isBreachedPassword(password)) {
+    violations.push({
+      code: PasswordViolations.BREACHED,
+      message: 'This password has appeared in a data breach and is easy to guess.',
+    });
+  }
+
+  return violations;
+}
+
+// ============ ROTATION ============
+
+/**
+ * When the user's password was last set: the recorded change, else account
+ * creation. Null for accounts that sign in without a password (SSO).
+ */
+export function getPasswordChangedAt(user: User): Date | null {
+  const changedAt = user.app_metadata?.password_changed_at;
+  if (typeof changedAt === 'string') return new Date(changedAt);
+  if (user.app_metadata?.sso_issuer) return null;
+  return user.created_at ? new Date(user.created_at) : null;
+}
+
+/**
+ * Whether a super admin's password is older than the rotation period
+ */
+export function isPasswordRotationDue(changedAt: Date | null | undefined, now: Date = new Date()): boolean {
+  const { superAdminMaxAgeDays } = getPasswordPolicy();
+  if (!superAdminMaxAgeDays || !changedAt) return false;
+  return now.getTime() - changedAt.getTime() > superAdminMaxAgeDays * 24 * 60 * 60 * 1000;
+}
+
+/**
+ * Whether a caller is held to their own account settings until they change
+ * their password: super admins past the rotation period
+ */
+export function mustRotatePassword(roles: readonly string[], changedAt: Date | null | undefined): boolean {
+  return roles.includes(Roles.SUPER_ADMIN) && isPasswordRotationDue(changedAt);
+}
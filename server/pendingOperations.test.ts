@@ -0,0 +1,54 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("./supabaseAuth", () => ({ supabaseAdmin: {} }));
+
+import {
+  FourEyesOperations,
+  fourEyesRequirements,
+  getBulkImportThreshold,
+  getPendingOperationExpiryHours,
+} from "./pendingOperations";
+
+describe("Four-eyes requirements", () => {
+  afterEach(() => {
+    delete process.env.FOUR_EYES_BULK_IMPORT_THRESHOLD;
+    delete process.env.FOUR_EYES_EXPIRY_HOURS;
+  });
+
+  it("always needs approval to delete users and universes", () => {
+    expect(fourEyesRequirements[FourEyesOperations.DELETE_USER].appliesTo({ userId: "u1" })).toBe(true);
+    expect(fourEyesRequirements[FourEyesOperations.DELETE_UNIVERSE].appliesTo({ id: "x" })).toBe(true);
+    expect(fourEyesRequirements[FourEyesOperations.DELETE_USER].getResourceId({ userId: "u1" })).toBe("u1");
+  });
+
+  it("only needs approval to grant super_admin", () => {
+    const grant = fourEyesRequirements[FourEyesOperations.GRANT_ROLE];
+    expect(grant.appliesTo({ userId: "u1", role: "super_admin" })).toBe(true);
+    expect(grant.appliesTo({ userId: "u1", role: "moderator" })).toBe(false);
+  });
+
+  it("needs approval for imports over the configured threshold", () => {
+    const articles = fourEyesRequirements[FourEyesOperations.IMPORT_ARTICLES];
+    const rows = (n: number) => Array.from({ length: n }, (_, i) => ({ title: `t${i}`, slug: `t${i}` }));
+    const reviews = (n: number) =>
+      Array.from({ length: n }, (_, i) => ({ place_id: `p${i}`, signal_slug: "friendly", tap_count: 1 }));
+
+    expect(getBulkImportThreshold()).toBe(100);
+    expect(articles.appliesTo({ articles: rows(100), updateExisting: false })).toBe(false);
+    expect(articles.appliesTo({ articles: rows(101), updateExisting: false })).toBe(true);
+
+    process.env.FOUR_EYES_BULK_IMPORT_THRESHOLD = "10";
+    expect(
+      fourEyesRequirements[FourEyesOperations.IMPORT_REVIEWS].appliesTo({ reviews: reviews(11), fileName: "taps.csv" })
+    ).toBe(true);
+    expect(articles.getItemCount({ articles: rows(11), updateExisting: false })).toBe(11);
+  });
+
+  it("falls back to the default expiry for invalid settings", () => {
+    expect(getPendingOperationExpiryHours()).toBe(24);
+    process.env.FOUR_EYES_EXPIRY_HOURS = "0";
+    expect(getPendingOperationExpiryHours()).toBe(24);
+    process.env.FOUR_EYES_EXPIRY_HOURS = "48";
+    expect(getPendingOperationExpiryHours()).toBe(48);
+  });
+});
@@ -0,0 +1,518 @@
+/**
+ * Pending Operations Module
+ *
+ * Four-eyes approval for high-impact operations. Deleting a user or a
+ * universe, granting super_admin and bulk imports over a size threshold are
+ * not run when first called: the intended call (procedure path and input) is
+ * stored as a pending operation, and it only runs once a second admin who
+ * holds the same permission approves it. Requests nobody approves in time
+ * expire. Operations live in the pending_operations table.
+ */
+
+import { z } from "zod";
+import { supabaseAdmin } from "./supabaseAuth";
+import { logAuditEvent, AuditActions, ResourceTypes } from "./auditLog";
+import { Permissions, Roles, type Permission } from "../shared/permissions";
+
+export const PendingOperationStatus = {
+  PENDING: 'pending',
+  // Claimed by the approver while the operation runs
+  APPROVED: 'approved',
+  EXECUTED: 'executed',
+  FAILED: 'failed',
+  REJECTED: 'rejected',
+  CANCELLED: 'cancelled',
+  EXPIRED: 'expired',
+} as const;
+
+export type PendingOperationStatusType = typeof PendingOperationStatus[keyof typeof PendingOperationStatus];
+
+// Procedures that may need a second admin, keyed by name
+export const FourEyesOperations = {
+  DELETE_USER: 'users.delete',
+  DELETE_UNIVERSE: 'universes.delete',
+  GRANT_ROLE: 'users.addRole',
+  IMPORT_ARTICLES: 'articles.bulkImport',
+  IMPORT_REVIEWS: 'reviews.batchImport',
+} as const;
+
+export type FourEyesOperation = typeof FourEyesOperations[keyof typeof FourEyesOperations];
+
+// Inputs of those procedures; routers.ts validates with the same schemas
+export const fourEyesInputSchemas = {
+  [FourEyesOperations.DELETE_USER]: z.object({ userId: z.string() }),
+  [FourEyesOperations.DELETE_UNIVERSE]: z.object({ id: z.string() }),
+  [FourEyesOperations.GRANT_ROLE]: z.object({
+    userId: z.string(),
+    role: z.string(),
+    expiresAt: z.string().optional(),
+  }),
+  [FourEyesOperations.IMPORT_ARTICLES]: z.object({
+    articles: z.array(z.object({
+      title: z.string(),
+      slug: z.string(),
+      excerpt: z.string().optional(),
+      content: z.string().optional(),
+      author_name: z.string().optional(),
+      category_id: z.string().nullable().optional(),
+      content_blocks: z.any().optional(),
+      section_images: z.any().optional(),
+      cover_image_url: z.string().optional(),
+      read_time_minutes: z.number().optional(),
+      article_template_type: z.string().optional(),
+      is_featured: z.boolean().optional(),
+      status: z.string().optional(),
+    })),
+    updateExisting: z.boolean().default(false),
+  }),
+  [FourEyesOperations.IMPORT_REVIEWS]: z.object({
+    reviews: z.array(
+      z.object({
+        place_id: z.string(),
+        signal_slug: z.string(),
+        tap_count: z.number().min(1).max(10),
+      })
+    ),
+    fileName: z.string(),
+  }),
+};
+
+export type FourEyesInputs = {
+  [Op in FourEyesOperation]: z.infer<typeof fourEyesInputSchemas[Op]>;
+};
+
+// Defaults (overridable via environment)
+const DEFAULT_BULK_IMPORT_THRESHOLD = 100;
+const DEFAULT_EXPIRY_HOURS = 24;
+
+export interface FourEyesRequirement<Input> {
+  // Approvers need this permission; it is checked again when the operation runs
+  permission: Permission;
+  // Whether this particular call needs a second admin
+  appliesTo: (input: Input) => boolean;
+  getResourceId: (input: Input) => string | null;
+  getItemCount: (input: Input) => number | null;
+  describe: (input: Input) => string;
+}
+
+export type FourEyesRequirements = {
+  [Op in FourEyesOperation]: FourEyesRequirement<FourEyesInputs[Op]>;
+};
+
+/**
+ * Rows from which a bulk import needs approval (FOUR_EYES_BULK_IMPORT_THRESHOLD)
+ */
+export function getBulkImportThreshold(): number {
+  const threshold = parseInt(process.env.FOUR_EYES_BULK_IMPORT_THRESHOLD || '', 10);
+  return Number.isFinite(threshold) && threshold > 0 ? threshold : DEFAULT_BULK_IMPORT_THRESHOLD;
+}
+
+/**
+ * How long a request waits for approval (FOUR_EYES_EXPIRY_HOURS)
+ */
+export function getPendingOperationExpiryHours(): number {
+  const hours = parseInt(process.env.FOUR_EYES_EXPIRY_HOURS || '', 10);
+  return Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_EXPIRY_HOURS;
+}
+
+export const fourEyesRequirements: FourEyesRequirements = {
+  [FourEyesOperations.DELETE_USER]: {
+    permission: Permissions.USERS_DELETE,
+    appliesTo: () => true,
+    getResourceId: (input) => input.userId,
+    getItemCount: () => null,
+    describe: (input) => `Delete user ${input.userId}`,
+  },
+  [FourEyesOperations.DELETE_UNIVERSE]: {
+    permission: Permissions.CONTENT_DELETE,
+    appliesTo: () => true,
+    getResourceId: (input) => input.id,
+    getItemCount: () => null,
+    describe: (input) => `Delete universe ${input.id}`,
+  },
+  [FourEyesOperations.GRANT_ROLE]: {
+    permission: Permissions.ROLES_MANAGE,
+    appliesTo: (input) => input.role === Roles.SUPER_ADMIN,
+    getResourceId: (input) => input.userId,
+    getItemCount: () => null,
+    describe: (input) => `Grant ${input.role} to user ${input.userId}`,
+  },
+  [FourEyesOperations.IMPORT_ARTICLES]: {
+    permission: Permissions.CONTENT_WRITE,
+    appliesTo: (input) => input.articles.length > getBulkImportThreshold(),
+    getResourceId: () => null,
+    getItemCount: (input) => input.articles.length,
+    describe: (input) =>
+      `Import ${input.articles.length} articles${input.updateExisting ? ', updating existing ones' : ''}`,
+  },
+  [FourEyesOperations.IMPORT_REVIEWS]: {
+    permission: Permissions.SIGNALS_IMPORT,
+    appliesTo: (input) => input.reviews.length > getBulkImportThreshold(),
+    getResourceId: () => null,
+    getItemCount: (input) => input.reviews.length,
+    describe: (input) => `Import ${input.reviews.length} reviews from ${input.fileName}`,
+  },
+};
+
+export interface PendingOperation {
+  id: string;
+  operation: FourEyesOperation;
+  summary: string;
+  resourceId: string | null;
+  itemCount: number | null;
+  input: unknown;
+  status: PendingOperationStatusType;
+  requestedBy: string;
+  requestedByEmail: string | null;
+  requestedAt: Date;
+  expiresAt: Date;
+  reviewedBy: string | null;
+  reviewedByEmail: string | null;
+  reviewedAt: Date | null;
+  reviewNote: string | null;
+  executedAt: Date | null;
+  error: string | null;
+}
+
+/**
+ * Whether a procedure's result is a request sent for approval (see
+ * requireSecondApproval in routers.ts) rather than the operation itself
+ */
+export function isPendingApprovalResult(result: unknown): boolean {
+  return !!result && typeof result === 'object' && (result as { pendingApproval?: unknown }).pendingApproval === true;
+}
+
+// A pending_operations row as stored
+interface PendingOperationRow {
+  id: string;
+  operation: FourEyesOperation;
+  summary: string;
+  resource_id: string | null;
+  item_count: number | null;
+  input: unknown;
+  status: PendingOperationStatusType;
+  requested_by: string;
+  requested_by_email: string | null;
+  requested_at: string;
+  expires_at: string;
+  reviewed_by: string | null;
+  reviewed_by_email: string | null;
+  reviewed_at: string | null;
+  review_note: string | null;
+  executed_at: string | null;
+  error: string | null;
+}
+
+function mapOperation(row: PendingOperationRow): PendingOperation {
+  const expiresAt = new Date(row.expires_at);
+  // Requests past their expiry read as expired even before the sweep closes them
+  const status = row.status === PendingOperationStatus.PENDING && expiresAt.getTime() <= Date.now()
+    ? PendingOperationStatus.EXPIRED
+    : row.status;
+
+  return {
+    id: row.id,
+    operation: row.operation,
+    summary: row.summary,
+    resourceId: row.resource_id,
+    itemCount: row.item_count,
+    input: row.input,
+    status,
+    requestedBy: row.requested_by,
+    requestedByEmail: row.requested_by_email,
+    requestedAt: new Date(row.requested_at),
+    expiresAt,
+    reviewedBy: row.reviewed_by,
+    reviewedByEmail: row.reviewed_by_email,
+    reviewedAt: row.reviewed_at ? new Date(row.reviewed_at) : null,
+    reviewNote: row.review_note,
+    executedAt: row.executed_at ? new Date(row.executed_at) : null,
+    error: row.error,
+  };
+}
+
+/**
+ * Store an operation for approval by a second admin
+ */
+export async function createPendingOperation<Op extends FourEyesOperation>(params: {
+  operation: Op;
+  input: FourEyesInputs[Op];
+  requester: { id: string; email?: string | null };
+}): Promise<PendingOperation | null> {
+  try {
+    const requirement = fourEyesRequirements[params.operation];
+    const expiresAt = new Date(Date.now() + getPendingOperationExpiryHours() * 60 * 60 * 1000);
+    const { data, error } = await supabaseAdmin
+      .from('pending_operations')
+      .insert({
+        operation: params.operation,
+        summary: requirement.describe(params.input),
+        resource_id: requirement.getResourceId(params.input),
+        item_count: requirement.getItemCount(params.input),
+        input: params.input ?? null,
+        status: PendingOperationStatus.PENDING,
+        requested_by: params.requester.id,
+        requested_by_email: params.requester.email || null,
+        expires_at: expiresAt.toISOString(),
+      })
+      .select('*')
+      .single();
+
+    if (error || !data) {
+      console.error('[PendingOperations] Failed to create operation:', error);
+      return null;
+    }
+
+    return mapOperation(data);
+  } catch (err) {
+    console.error('[PendingOperations] Exception creating operation:', err);
+    return null;
+  }
+}
+
+/**
+ * Find an unexpired pending request for the same operation on the same resource
+ */
+export async function findOpenOperation(
+  operation: FourEyesOperation,
+  resourceId: string
+): Promise<PendingOperation | null> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('pending_operations')
+      .select('*')
+      .eq('operation', operation)
+      .eq('resource_id', resourceId)
+      .eq('status', PendingOperationStatus.PENDING)
+      .gt('expires_at', new Date().toISOString())
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error('[PendingOperations] Error checking open operations:', error);
+      return null;
+    }
+
+    return data ? mapOperation(data) : null;
+  } catch (err) {
+    console.error('[PendingOperations] Exception checking open operations:', err);
+    return null;
+  }
+}
+
+/**
+ * List operations, newest first
+ */
+export async function listPendingOperations(
+  filters: { status?: PendingOperationStatusType } = {},
+  limit: number = 100
+): Promise<PendingOperation[]> {
+  try {
+    let query = supabaseAdmin
+      .from('pending_operations')
+      .select('*')
+      .order('requested_at', { ascending: false })
+      .limit(limit);
+
+    if (filters.status === PendingOperationStatus.PENDING) {
+      query = query.eq('status', PendingOperationStatus.PENDING).gt('expires_at', new Date().toISOString());
+    } else if (filters.status) {
+      query = query.eq('status', filters.status);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      console.error('[PendingOperations] Error listing operations:', error);
+      return [];
+    }
+
+    return (data || []).map(mapOperation);
+  } catch (err) {
+    console.error('[PendingOperations] Exception listing operations:', err);
+    return [];
+  }
+}
+
+/**
+ * Get a single operation by id
+ */
+export async function getPendingOperation(id: string): Promise<PendingOperation | null> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('pending_operations')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('[PendingOperations] Error loading operation:', error);
+      return null;
+    }
+
+    return data ? mapOperation(data) : null;
+  } catch (err) {
+    console.error('[PendingOperations] Exception loading operation:', err);
+    return null;
+  }
+}
+
+/**
+ * Close a pending, unexpired operation. Only one reviewer can win: the
+ * update is conditional on the operation still being pending.
+ */
+async function closePendingOperation(
+  id: string,
+  update: Record<string, unknown>
+): Promise<PendingOperation | null> {
+  const { data, error } = await supabaseAdmin
+    .from('pending_operations')
+    .update(update)
+    .eq('id', id)
+    .eq('status', PendingOperationStatus.PENDING)
+    .gt('expires_at', new Date().toISOString())
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    console.error('[PendingOperations] Failed to update operation:', error);
+    return null;
+  }
+
+  return data ? mapOperation(data) : null;
+}
+
+/**
+ * Claim a pending operation for execution by its approver. Returns null if
+ * it is no longer pending.
+ */
+export async function approvePendingOperation(
+  id: string,
+  reviewer: { id: string; email?: string | null },
+  note?: string
+): Promise<PendingOperation | null> {
+  try {
+    return await closePendingOperation(id, {
+      status: PendingOperationStatus.APPROVED,
+      reviewed_by: reviewer.id,
+      reviewed_by_email: reviewer.email || null,
+      reviewed_at: new Date().toISOString(),
+      review_note: note || null,
+    });
+  } catch (err) {
+    console.error('[PendingOperations] Exception approving operation:', err);
+    return null;
+  }
+}
+
+/**
+ * Reject a pending operation. Returns null if it is no longer pending.
+ */
+export async function rejectPendingOperation(
+  id: string,
+  reviewer: { id: string; email?: string | null },
+  note?: string
+): Promise<PendingOperation | null> {
+  try {
+    return await closePendingOperation(id, {
+      status: PendingOperationStatus.REJECTED,
+      reviewed_by: reviewer.id,
+      reviewed_by_email: reviewer.email || null,
+      reviewed_at: new Date().toISOString(),
+      review_note: note || null,
+    });
+  } catch (err) {
+    console.error('[PendingOperations] Exception rejecting operation:', err);
+    return null;
+  }
+}
+
+/**
+ * Withdraw one of the caller's own pending operations
+ */
+export async function cancelPendingOperation(id: string, userId: string): Promise<boolean> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('pending_operations')
+      .update({ status: PendingOperationStatus.CANCELLED, reviewed_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('requested_by', userId)
+      .eq('status', PendingOperationStatus.PENDING)
+      .select('id');
+
+    if (error) {
+      console.error('[PendingOperations] Failed to cancel operation:', error);
+      return false;
+    }
+
+    return (data || []).length > 0;
+  } catch (err) {
+    console.error('[PendingOperations] Exception cancelling operation:', err);
+    return false;
+  }
+}
+
+/**
+ * Record how an approved operation ended
+ */
+export async function recordOperationOutcome(id: string, errorMessage?: string): Promise<void> {
+  try {
+    const { error } = await supabaseAdmin
+      .from('pending_operations')
+      .update({
+        status: errorMessage ? PendingOperationStatus.FAILED : PendingOperationStatus.EXECUTED,
+        executed_at: new Date().toISOString(),
+        error: errorMessage || null,
+      })
+      .eq('id', id)
+      .eq('status', PendingOperationStatus.APPROVED);
+
+    if (error) {
+      console.error('[PendingOperations] Failed to record outcome:', error);
+    }
+  } catch (err) {
+    console.error('[PendingOperations] Exception recording outcome:', err);
+  }
+}
+
+/**
+ * Close pending operations whose approval window has passed, auditing each
+ * as OPERATION_EXPIRED. Returns the number closed.
+ */
+export async function expirePendingOperations(now: Date = new Date()): Promise<number> {
+  try {
+    const nowIso = now.toISOString();
+    const { data: expired, error } = await supabaseAdmin
+      .from('pending_operations')
+      .update({ status: PendingOperationStatus.EXPIRED, reviewed_at: nowIso })
+      .eq('status', PendingOperationStatus.PENDING)
+      .lte('expires_at', nowIso)
+      .select('id, operation, summary, requested_by, requested_by_email, expires_at');
+
+    if (error) {
+      console.error('[PendingOperations] Error expiring operations:', error);
+      return 0;
+    }
+    if (!expired || expired.length === 0) return 0;
+
+    for (const operation of expired) {
+      await logAuditEvent({
+        action: AuditActions.OPERATION_EXPIRED,
+        resourceType: ResourceTypes.PENDING_OPERATION,
+        resourceId: operation.id,
+        details: {
+          operation: operation.operation,
+          summary: operation.summary,
+          requestedBy: operation.requested_by,
+          requestedByEmail: operation.requested_by_email,
+          expiresAt: operation.expires_at,
+        },
+      });
+    }
+
+    console.log(`[PendingOperations] Expired ${expired.length} unapproved operation(s)`);
+    return expired.length;
+  } catch (err) {
+    console.error('[PendingOperations] Exception expiring operations:', err);
+    return 0;
+  }
+}
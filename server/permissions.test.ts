@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import {
+  ALL_PERMISSIONS,
+  getPermissionsForRoles,
+  hasPermission,
+  isPortalRole,
+  Permissions,
+  Roles,
+} from "../shared/permissions";
+
+describe("role permissions", () => {
+  it("grants every permission to super_admin", () => {
+    expect(getPermissionsForRoles([Roles.SUPER_ADMIN])).toEqual(ALL_PERMISSIONS);
+  });
+
+  it("does not let non-super-admin roles delete users or manage roles", () => {
+    for (const role of [Roles.MODERATOR, Roles.CONTENT_EDITOR, Roles.REP, Roles.SUPPORT]) {
+      const granted = getPermissionsForRoles([role]);
+      expect(hasPermission(granted, Permissions.USERS_DELETE)).toBe(false);
+      expect(hasPermission(granted, Permissions.ROLES_MANAGE)).toBe(false);
+    }
+  });
+
+  it("merges permissions across multiple roles", () => {
+    const granted = getPermissionsForRoles([Roles.REP, Roles.MODERATOR]);
+    expect(hasPermission(granted, Permissions.SIGNALS_IMPORT)).toBe(true);
+    expect(hasPermission(granted, Permissions.MODERATION_WRITE)).toBe(true);
+    expect(hasPermission(granted, Permissions.PLACES_DELETE)).toBe(false);
+  });
+
+  it("ignores roles that are not portal roles", () => {
+    expect(isPortalRole("pro")).toBe(false);
+    expect(getPermissionsForRoles(["pro", "user"])).toEqual([]);
+  });
+
+  it("denies everything when no permissions are granted", () => {
+    expect(hasPermission(undefined, Permissions.PLACES_READ)).toBe(false);
+    expect(hasPermission([], Permissions.PLACES_READ)).toBe(false);
+  });
+});
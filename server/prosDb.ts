@@ -5,6 +5,7 @@
  */
 
 import { supabaseAdmin as supabase } from "./supabaseAuth";
+import { logAuditEvent } from "./auditLog";
 
 // Pro provider interface matching actual pro_providers columns
 export interface ProProvider {
@@ -590,16 +591,11 @@ async function logAdminActivity(
   targetType: string,
   details?: string
 ): Promise<void> {
-  try {
-    await supabase.from("admin_activity_log").insert({
-      admin_id: adminId,
-      action,
-      target_id: targetId,
-      target_type: targetType,
-      details,
-      created_at: new Date().toISOString(),
-    });
-  } catch (error) {
-    console.error("[Supabase] Log admin activity error:", error);
-  }
+  await logAuditEvent({
+    userId: adminId && adminId !== "unknown" ? adminId : undefined,
+    action,
+    resourceType: targetType,
+    resourceId: targetId,
+    details: details ? { notes: details } : {},
+  });
 }
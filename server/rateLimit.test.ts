@@ -0,0 +1,42 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("./supabaseAuth", () => ({ supabaseAdmin: {} }));
+
+import { MemoryRateLimitStore } from "./rateLimit";
+
+describe("in-memory sliding window rate limit", () => {
+  it("allows up to max requests in the window and rejects the rest", async () => {
+    const store = new MemoryRateLimitStore();
+    const now = 1_000_000;
+
+    for (let i = 0; i < 3; i++) {
+      const result = await store.hit("key", 60_000, 3, now + i);
+      expect(result.allowed).toBe(true);
+      expect(result.remaining).toBe(2 - i);
+    }
+
+    const blocked = await store.hit("key", 60_000, 3, now + 10);
+    expect(blocked.allowed).toBe(false);
+    expect(blocked.remaining).toBe(0);
+    expect(blocked.resetMs).toBe(60_000 - 10);
+  });
+
+  it("slides instead of resetting at a fixed boundary", async () => {
+    const store = new MemoryRateLimitStore();
+
+    await store.hit("key", 60_000, 2, 0);
+    await store.hit("key", 60_000, 2, 30_000);
+
+    // First hit has left the window, second has not
+    expect((await store.hit("key", 60_000, 2, 60_001)).allowed).toBe(true);
+    expect((await store.hit("key", 60_000, 2, 60_002)).allowed).toBe(false);
+  });
+
+  it("keeps keys independent", async () => {
+    const store = new MemoryRateLimitStore();
+
+    expect((await store.hit("a", 60_000, 1, 0)).allowed).toBe(true);
+    expect((await store.hit("a", 60_000, 1, 1)).allowed).toBe(false);
+    expect((await store.hit("b", 60_000, 1, 1)).allowed).toBe(true);
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * Rate Limiting Module
+ *
+ * Sliding-window rate limiting with a pluggable store. The in-memory store
+ * suits a single instance; the SQL store (rate_limit_hits table via the
+ * rate_limit_hit RPC) shares limits across instances and deploys.
+ * Used by the Express middleware for coarse IP limits and by the tRPC
+ * middleware for per-procedure limits keyed by IP, user id or API key.
+ */
+
+import type { Request, Response, NextFunction } from "express";
+import { supabaseAdmin } from "./supabaseAuth";
+
+export interface RateLimitRule {
+  windowMs: number;  // Sliding window length in milliseconds
+  max: number;       // Maximum requests allowed within the window
+  by: 'ip' | 'user' | 'api_key'; // Key requests by client IP, authenticated user id or API key id
+  message?: string;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetMs: number; // Milliseconds until the oldest counted request leaves the window
+}
+
+export interface RateLimitStore {
+  /**
+   * Count a request for key if it fits within max requests in the window.
+   * Requests that are rejected are not counted.
+   */
+  hit(key: string, windowMs: number, max: number): Promise<RateLimitResult>;
+}
+
+// ============ STORES ============
+
+/**
+ * Process-local sliding log of request timestamps per key
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private hits = new Map<string, number[]>();
+
+  constructor(cleanupIntervalMs: number = 5 * 60 * 1000) {
+    // Drop keys with no recent hits
+    const timer = setInterval(() => {
+      const cutoff = Date.now() - 24 * 60 * 60 * 1000;
+      Array.from(this.hits.entries()).forEach(([key, timestamps]) => {
+        if (timestamps.length === 0 || timestamps[timestamps.length - 1] < cutoff) {
+          this.hits.delete(key);
+        }
+      });
+    }, cleanupIntervalMs);
+    timer.unref?.();
+  }
+
+  async hit(key: string, windowMs: number, max: number, now: number = Date.now()): Promise<RateLimitResult> {
+    const windowStart = now - windowMs;
+    const timestamps = (this.hits.get(key) || []).filter(t => t > windowStart);
+
+    const allowed = timestamps.length < max;
+    if (allowed) {
+      timestamps.push(now);
+    }
+    this.hits.set(key, timestamps);
+
+    return {
+      allowed,
+      limit: max,
+      remaining: Math.max(0, max - timestamps.length),
+      resetMs: timestamps.length > 0 ? Math.max(0, timestamps[0] + windowMs - now) : windowMs,
+    };
+  }
+}
+
+/**
+ * Shared store backed by the rate_limit_hit Postgres function
+ */
+export class SqlRateLimitStore implements RateLimitStore {
+  constructor(private fallback: RateLimitStore = new MemoryRateLimitStore()) {}
+
+  async hit(key: string, windowMs: number, max: number): Promise<RateLimitResult> {
+    try {
+      const { data, error } = await supabaseAdmin.rpc('rate_limit_hit', {
+        p_key: key,
+        p_window_ms: windowMs,
+        p_max: max,
+      });
+
+      const row = Array.isArray(data) ? data[0] : data;
+      if (error || !row) {
+        console.error('[RateLimit] SQL store error, using in-memory fallback:', error);
+        return this.fallback.hit(key, windowMs, max);
+      }
+
+      return {
+        allowed: row.allowed,
+        limit: max,
+        remaining: Math.max(0, max - row.hit_count),
+        resetMs: row.oldest_hit_at
+          ? Math.max(0, new Date(row.oldest_hit_at).getTime() + windowMs - Date.now())
+          : windowMs,
+      };
+    } catch (err) {
+      console.error('[RateLimit] SQL store exception, using in-memory fallback:', err);
+      return this.fallback.hit(key, windowMs, max);
+    }
+  }
+}
+
+/**
+ * Create the store selected by RATE_LIMIT_STORE ('memory' or 'sql')
+ */
+function createStoreFromEnv(): RateLimitStore {
+  if (process.env.RATE_LIMIT_STORE === 'sql') {
+    console.log('[RateLimit] Using SQL-backed store');
+    return new SqlRateLimitStore();
+  }
+  return new MemoryRateLimitStore();
+}
+
+let activeStore: RateLimitStore = createStoreFromEnv();
+
+/**
+ * Replace the active store (e.g. in tests)
+ */
+export function setRateLimitStore(store: RateLimitStore): void {
+  activeStore = store;
+}
+
+// ============ PER-PROCEDURE LIMITS ============
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Limits applied to individual tRPC procedures, in addition to the global Express limits
+export const procedureRateLimits: Record<string, RateLimitRule[]> = {
+  'auth.login': [
+    { windowMs: 15 * 60 * 1000, max: 10, by: 'ip', message: 'Too many login attempts. Please try again later.' },
+  ],
+  'auth.verifyTwoFactor': [
+    { windowMs: 15 * 60 * 1000, max: 10, by: 'ip', message: 'Too many verification attempts. Please try again later.' },
+  ],
+  'auth.invitation': [
+    { windowMs: 15 * 60 * 1000, max: 20, by: 'ip', message: 'Too many attempts. Please try again later.' },
+  ],
+  'auth.signup': [
+    { windowMs: HOUR_MS, max: 5, by: 'ip', message: 'Too many sign-up attempts. Please try again later.' },
+  ],
+  'auth.requestPasswordReset': [
+    { windowMs: HOUR_MS, max: 5, by: 'ip', message: 'Too many reset requests. Please try again later.' },
+  ],
+  'auth.resetPassword': [
+    { windowMs: 15 * 60 * 1000, max: 10, by: 'ip', message: 'Too many attempts. Please try again later.' },
+  ],
+  'auth.changePassword': [
+    { windowMs: 15 * 60 * 1000, max: 10, by: 'user', message: 'Too many password change attempts. Please try again later.' },
+  ],
+  'auth.reauthenticate': [
+    { windowMs: 15 * 60 * 1000, max: 10, by: 'user', message: 'Too many re-authentication attempts. Please try again later.' },
+  ],
+  'auth.deviceConfirmation': [
+    { windowMs: 15 * 60 * 1000, max: 20, by: 'ip', message: 'Too many attempts. Please try again later.' },
+  ],
+  'auth.confirmDevice': [
+    { windowMs: 15 * 60 * 1000, max: 10, by: 'ip', message: 'Too many attempts. Please try again later.' },
+  ],
+  'auth.verifyPasskeyAuthentication': [
+    { windowMs: 15 * 60 * 1000, max: 20, by: 'ip' },
+  ],
+  'reviews.batchImport': [
+    { windowMs: 60 * 1000, max: 20, by: 'ip', message: 'Rate limit exceeded for this operation.' },
+    { windowMs: HOUR_MS, max: 10, by: 'user', message: 'Batch import limit reached. Please try again later.' },
+  ],
+  'articles.bulkImport': [
+    { windowMs: 60 * 1000, max: 20, by: 'ip', message: 'Rate limit exceeded for this operation.' },
+    { windowMs: HOUR_MS, max: 10, by: 'user', message: 'Bulk import limit reached. Please try again later.' },
+  ],
+  'users.delete': [
+    { windowMs: HOUR_MS, max: 20, by: 'user', message: 'User deletion limit reached. Please try again later.' },
+  ],
+  'auditLog.verifyChain': [
+    { windowMs: HOUR_MS, max: 10, by: 'user', message: 'Verification limit reached. Please try again later.' },
+  ],
+};
+
+// ============ CHECKS & HEADERS ============
+
+/**
+ * Get the client IP for rate limiting
+ */
+export function getRateLimitClientIp(req: Request): string {
+  return req.ip ||
+    req.headers['x-forwarded-for']?.toString().split(',')[0] ||
+    req.socket?.remoteAddress ||
+    'unknown';
+}
+
+/**
+ * Check a request against a rule and key (scope is part of the key)
+ */
+export async function checkRateLimit(
+  scope: string,
+  identifier: string,
+  rule: RateLimitRule
+): Promise<RateLimitResult> {
+  return activeStore.hit(`${scope}:${rule.by}:${identifier}`, rule.windowMs, rule.max);
+}
+
+/**
+ * Set standard (IETF draft) and legacy X- rate limit headers
+ */
+export function setRateLimitHeaders(res: Response, result: RateLimitResult): void {
+  const resetSeconds = Math.ceil(result.resetMs / 1000);
+  res.setHeader('RateLimit-Limit', result.limit);
+  res.setHeader('RateLimit-Remaining', result.remaining);
+  res.setHeader('RateLimit-Reset', resetSeconds);
+  res.setHeader('X-RateLimit-Limit', result.limit);
+  res.setHeader('X-RateLimit-Remaining', result.remaining);
+  res.setHeader('X-RateLimit-Reset', Math.ceil((Date.now() + result.resetMs) / 1000));
+  if (!result.allowed) {
+    res.setHeader('Retry-After', resetSeconds);
+  }
+}
+
+/**
+ * Express middleware limiting requests per IP and path
+ */
+export function createRateLimiter(config: { windowMs: number; maxRequests: number; message?: string }) {
+  const rule: RateLimitRule = { windowMs: config.windowMs, max: config.maxRequests, by: 'ip' };
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const clientIp = getRateLimitClientIp(req);
+    const result = await checkRateLimit(`http${req.baseUrl}${req.path}`, clientIp, rule);
+
+    setRateLimitHeaders(res, result);
+
+    if (!result.allowed) {
+      console.warn(`[RateLimit] Exceeded for ${clientIp} on ${req.baseUrl}${req.path}`);
+      return res.status(429).json({
+        error: config.message || 'Too many requests, please try again later.',
+        retryAfter: Math.ceil(result.resetMs / 1000),
+      });
+    }
+
+    next();
+  };
+}
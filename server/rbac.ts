@@ -0,0 +1,92 @@
+/**
+ * Role-Based Access Control Module
+ *
+ * Loads a user's active portal roles from the user_roles table and resolves
+ * them into permissions. Results are cached briefly so that batched tRPC
+ * calls don't each hit the database.
+ */
+
+import { supabaseAdmin } from "./supabaseAuth";
+import {
+  getPermissionsForRoles,
+  isPortalRole,
+  Roles,
+  type Permission,
+  type Role,
+} from "../shared/permissions";
+
+export interface UserAccess {
+  roles: Role[];
+  permissions: Permission[];
+}
+
+// Short-lived cache of resolved access per user
+const accessCache = new Map<string, { access: UserAccess; timestamp: number }>();
+const ACCESS_CACHE_TTL_MS = 60 * 1000; // 1 minute
+
+/**
+ * Get the active (non-expired) portal roles for a user
+ */
+export async function getActiveRoles(userId: string): Promise<Role[]> {
+  if (!userId) return [];
+
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('user_roles')
+      .select('role, expires_at')
+      .eq('user_id', userId)
+      .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`);
+
+    if (error) {
+      console.error('[RBAC] Error loading user roles:', error);
+      return [];
+    }
+
+    const roles = (data || [])
+      .map(r => r.role as string)
+      .filter(isPortalRole);
+
+    return Array.from(new Set(roles));
+  } catch (err) {
+    console.error('[RBAC] Exception loading user roles:', err);
+    return [];
+  }
+}
+
+/**
+ * Resolve roles and permissions for a user (cached)
+ */
+export async function getUserAccess(userId: string): Promise<UserAccess> {
+  const cached = accessCache.get(userId);
+  if (cached && (Date.now() - cached.timestamp) < ACCESS_CACHE_TTL_MS) {
+    return cached.access;
+  }
+
+  const roles = await getActiveRoles(userId);
+  const access: UserAccess = {
+    roles,
+    permissions: getPermissionsForRoles(roles),
+  };
+
+  accessCache.set(userId, { access, timestamp: Date.now() });
+  return access;
+}
+
+/**
+ * Drop cached access for a user after their roles change
+ */
+export function invalidateUserAccess(userId?: string): void {
+  if (userId) {
+    accessCache.delete(userId);
+  } else {
+    accessCache.clear();
+  }
+}
+
+/**
+ * Check if a user currently holds the super_admin role
+ */
+export async function isSuperAdmin(userId: string): Promise<boolean> {
+  const { roles } = await getUserAccess(userId);
+  return roles.includes(Roles.SUPER_ADMIN);
+}
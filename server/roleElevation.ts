@@ -0,0 +1,399 @@
+/**
+ * Role Elevation Module
+ *
+ * Just-in-time access for portal roles. An admin requests a role for a stated
+ * reason and duration; a different super admin approves or denies it. Approved
+ * requests are written to user_roles with an expiry, and a periodic sweep
+ * removes expired grants (from elevations or from users.addRole) so that
+ * elevated access never outlives its window. Requests live in the
+ * role_elevation_requests table.
+ */
+
+import { supabaseAdmin } from "./supabaseAuth";
+import { invalidateUserAccess } from "./rbac";
+import { logAuditEvent, AuditActions, ResourceTypes } from "./auditLog";
+
+export const RoleElevationStatus = {
+  PENDING: 'pending',
+  APPROVED: 'approved',
+  DENIED: 'denied',
+  CANCELLED: 'cancelled',
+  EXPIRED: 'expired',
+} as const;
+
+export type RoleElevationStatusType = typeof RoleElevationStatus[keyof typeof RoleElevationStatus];
+
+// Allowed grant lengths
+export const ROLE_ELEVATION_MAX_HOURS = 72;
+
+// Pending requests nobody reviewed within this window are closed
+const PENDING_REQUEST_TTL_MS = 24 * 60 * 60 * 1000;
+
+export interface RoleElevationRequest {
+  id: string;
+  userId: string;
+  userEmail: string | null;
+  role: string;
+  reason: string;
+  durationMinutes: number;
+  status: RoleElevationStatusType;
+  requestedAt: Date;
+  reviewedBy: string | null;
+  reviewedByEmail: string | null;
+  reviewedAt: Date | null;
+  reviewNote: string | null;
+  userRoleId: string | null;
+  grantExpiresAt: Date | null;
+  revokedAt: Date | null;
+}
+
+function mapRequest(row: any): RoleElevationRequest {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    userEmail: row.user_email,
+    role: row.role,
+    reason: row.reason,
+    durationMinutes: row.duration_minutes,
+    status: row.status,
+    requestedAt: new Date(row.requested_at),
+    reviewedBy: row.reviewed_by,
+    reviewedByEmail: row.reviewed_by_email,
+    reviewedAt: row.reviewed_at ? new Date(row.reviewed_at) : null,
+    reviewNote: row.review_note,
+    userRoleId: row.user_role_id,
+    grantExpiresAt: row.grant_expires_at ? new Date(row.grant_expires_at) : null,
+    revokedAt: row.revoked_at ? new Date(row.revoked_at) : null,
+  };
+}
+
+/**
+ * Create a pending request for the caller
+ */
+export async function createRoleElevationRequest(params: {
+  userId: string;
+  userEmail?: string | null;
+  role: string;
+  reason: string;
+  durationMinutes: number;
+}): Promise<RoleElevationRequest | null> {
+  try {
+    const minutes = Math.min(Math.max(params.durationMinutes, 1), ROLE_ELEVATION_MAX_HOURS * 60);
+    const { data, error } = await supabaseAdmin
+      .from('role_elevation_requests')
+      .insert({
+        user_id: params.userId,
+        user_email: params.userEmail || null,
+        role: params.role,
+        reason: params.reason,
+        duration_minutes: minutes,
+        status: RoleElevationStatus.PENDING,
+      })
+      .select('*')
+      .single();
+
+    if (error || !data) {
+      console.error('[RoleElevation] Failed to create request:', error);
+      return null;
+    }
+
+    return mapRequest(data);
+  } catch (err) {
+    console.error('[RoleElevation] Exception creating request:', err);
+    return null;
+  }
+}
+
+/**
+ * Check whether the user already has an open request for a role
+ */
+export async function hasPendingRoleElevation(userId: string, role: string): Promise<boolean> {
+  try {
+    const { count, error } = await supabaseAdmin
+      .from('role_elevation_requests')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .eq('role', role)
+      .eq('status', RoleElevationStatus.PENDING);
+
+    if (error) {
+      console.error('[RoleElevation] Error checking pending requests:', error);
+      return false;
+    }
+
+    return (count || 0) > 0;
+  } catch (err) {
+    console.error('[RoleElevation] Exception checking pending requests:', err);
+    return false;
+  }
+}
+
+/**
+ * List requests, newest first
+ */
+export async function listRoleElevationRequests(
+  filters: { status?: RoleElevationStatusType; userId?: string } = {},
+  limit: number = 100
+): Promise<RoleElevationRequest[]> {
+  try {
+    let query = supabaseAdmin
+      .from('role_elevation_requests')
+      .select('*')
+      .order('requested_at', { ascending: false })
+      .limit(limit);
+
+    if (filters.status) {
+      query = query.eq('status', filters.status);
+    }
+    if (filters.userId) {
+      query = query.eq('user_id', filters.userId);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      console.error('[RoleElevation] Error listing requests:', error);
+      return [];
+    }
+
+    return (data || []).map(mapRequest);
+  } catch (err) {
+    console.error('[RoleElevation] Exception listing requests:', err);
+    return [];
+  }
+}
+
+/**
+ * Get a single request by id
+ */
+export async function getRoleElevationRequest(id: string): Promise<RoleElevationRequest | null> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('role_elevation_requests')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('[RoleElevation] Error loading request:', error);
+      return null;
+    }
+
+    return data ? mapRequest(data) : null;
+  } catch (err) {
+    console.error('[RoleElevation] Exception loading request:', err);
+    return null;
+  }
+}
+
+/**
+ * Close a pending request. Only one reviewer can win: the update is
+ * conditional on the request still being pending.
+ */
+async function closePendingRequest(
+  id: string,
+  update: Record<string, unknown>
+): Promise<RoleElevationRequest | null> {
+  const { data, error } = await supabaseAdmin
+    .from('role_elevation_requests')
+    .update(update)
+    .eq('id', id)
+    .eq('status', RoleElevationStatus.PENDING)
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    console.error('[RoleElevation] Failed to update request:', error);
+    return null;
+  }
+
+  return data ? mapRequest(data) : null;
+}
+
+/**
+ * Approve a pending request and grant the role until the requested duration
+ * has passed. Returns null if the request is no longer pending.
+ */
+export async function approveRoleElevation(
+  id: string,
+  reviewer: { id: string; email?: string | null },
+  note?: string
+): Promise<RoleElevationRequest | null> {
+  try {
+    const now = new Date();
+    const claimed = await closePendingRequest(id, {
+      status: RoleElevationStatus.APPROVED,
+      reviewed_by: reviewer.id,
+      reviewed_by_email: reviewer.email || null,
+      reviewed_at: now.toISOString(),
+      review_note: note || null,
+    });
+    if (!claimed) return null;
+
+    const expiresAt = new Date(now.getTime() + claimed.durationMinutes * 60 * 1000);
+    const { data: grant, error: grantError } = await supabaseAdmin
+      .from('user_roles')
+      .insert({
+        user_id: claimed.userId,
+        role: claimed.role,
+        granted_by: reviewer.id,
+        granted_at: now.toISOString(),
+        expires_at: expiresAt.toISOString(),
+      })
+      .select('id')
+      .single();
+
+    if (grantError || !grant) {
+      console.error('[RoleElevation] Failed to grant role:', grantError);
+      // Put the request back so it can be reviewed again
+      await supabaseAdmin
+        .from('role_elevation_requests')
+        .update({ status: RoleElevationStatus.PENDING, reviewed_by: null, reviewed_by_email: null, reviewed_at: null, review_note: null })
+        .eq('id', id);
+      return null;
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('role_elevation_requests')
+      .update({ user_role_id: grant.id, grant_expires_at: expiresAt.toISOString() })
+      .eq('id', id)
+      .select('*')
+      .single();
+
+    invalidateUserAccess(claimed.userId);
+    console.log(`[RoleElevation] ${claimed.role} granted to ${claimed.userEmail || claimed.userId} until ${expiresAt.toISOString()}`);
+
+    if (error || !data) {
+      console.error('[RoleElevation] Failed to record grant on request:', error);
+      return { ...claimed, userRoleId: grant.id, grantExpiresAt: expiresAt };
+    }
+
+    return mapRequest(data);
+  } catch (err) {
+    console.error('[RoleElevation] Exception approving request:', err);
+    return null;
+  }
+}
+
+/**
+ * Deny a pending request. Returns null if the request is no longer pending.
+ */
+export async function denyRoleElevation(
+  id: string,
+  reviewer: { id: string; email?: string | null },
+  note?: string
+): Promise<RoleElevationRequest | null> {
+  try {
+    return await closePendingRequest(id, {
+      status: RoleElevationStatus.DENIED,
+      reviewed_by: reviewer.id,
+      reviewed_by_email: reviewer.email || null,
+      reviewed_at: new Date().toISOString(),
+      review_note: note || null,
+    });
+  } catch (err) {
+    console.error('[RoleElevation] Exception denying request:', err);
+    return null;
+  }
+}
+
+/**
+ * Withdraw one of the caller's own pending requests
+ */
+export async function cancelRoleElevation(id: string, userId: string): Promise<boolean> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('role_elevation_requests')
+      .update({ status: RoleElevationStatus.CANCELLED, reviewed_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('user_id', userId)
+      .eq('status', RoleElevationStatus.PENDING)
+      .select('id');
+
+    if (error) {
+      console.error('[RoleElevation] Failed to cancel request:', error);
+      return false;
+    }
+
+    return (data || []).length > 0;
+  } catch (err) {
+    console.error('[RoleElevation] Exception cancelling request:', err);
+    return false;
+  }
+}
+
+/**
+ * Remove every user_roles grant whose expiry has passed, audit each removal
+ * as ROLE_REVOKED, and close pending requests nobody reviewed in time.
+ * Returns the number of grants removed.
+ */
+export async function expireElevatedRoles(now: Date = new Date()): Promise<number> {
+  try {
+    const nowIso = now.toISOString();
+
+    await supabaseAdmin
+      .from('role_elevation_requests')
+      .update({ status: RoleElevationStatus.EXPIRED, reviewed_at: nowIso })
+      .eq('status', RoleElevationStatus.PENDING)
+      .lt('requested_at', new Date(now.getTime() - PENDING_REQUEST_TTL_MS).toISOString());
+
+    const { data: expired, error } = await supabaseAdmin
+      .from('user_roles')
+      .select('id, user_id, role, granted_by, expires_at')
+      .not('expires_at', 'is', null)
+      .lte('expires_at', nowIso);
+
+    if (error) {
+      console.error('[RoleElevation] Error loading expired grants:', error);
+      return 0;
+    }
+    if (!expired || expired.length === 0) return 0;
+
+    let removed = 0;
+    for (const grant of expired) {
+      // Delete by id so a concurrent sweep can't audit the same grant twice
+      const { data: deleted, error: deleteError } = await supabaseAdmin
+        .from('user_roles')
+        .delete()
+        .eq('id', grant.id)
+        .select('id');
+
+      if (deleteError) {
+        console.error('[RoleElevation] Failed to remove expired grant:', deleteError);
+        continue;
+      }
+      if (!deleted || deleted.length === 0) continue;
+
+      removed++;
+      invalidateUserAccess(grant.user_id);
+
+      const { data: request } = await supabaseAdmin
+        .from('role_elevation_requests')
+        .update({ revoked_at: nowIso })
+        .eq('user_role_id', grant.id)
+        .select('id')
+        .maybeSingle();
+
+      await logAuditEvent({
+        action: AuditActions.ROLE_REVOKED,
+        resourceType: ResourceTypes.ROLE,
+        resourceId: grant.id,
+        details: {
+          targetUserId: grant.user_id,
+          role: grant.role,
+          grantedBy: grant.granted_by,
+          expiresAt: grant.expires_at,
+          reason: 'expired',
+          elevationRequestId: request?.id || null,
+        },
+      });
+    }
+
+    if (removed > 0) {
+      console.log(`[RoleElevation] Removed ${removed} expired role grant(s)`);
+    }
+    return removed;
+  } catch (err) {
+    console.error('[RoleElevation] Exception expiring grants:', err);
+    return 0;
+  }
+}
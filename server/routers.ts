@@ -1,4 +1,12 @@
-import { publicProcedure, protectedProcedure, router } from "./_core/trpc";
+import {
+  publicProcedure,
+  adminProcedure,
+  permissionProcedure,
+  protectedProcedure,
+  router,
+} from "./_core/trpc";
+import { Permissions, Roles, PORTAL_ROLES, hasPermission, type Role } from "../shared/permissions";
+import { getUserAccess, invalidateUserAccess } from "./rbac";
 import {
   searchPlacesTypesense,
   getAutocompleteSuggestions,
@@ -99,7 +107,6 @@ import {
   reviewContentFlag,
   reviewModerationItem,
   // Audit Log
-  getAdminActivityLog,
   logAdminActivity,
   // Place Overrides
   getPlaceOverrides,
@@ -238,340 +245,2338 @@ import { eq, desc } from "drizzle-orm";
 import { syncProToGHL } from "./ghl";
 import {
   signInWithEmail,
+  updateUserPassword,
+  verifyUserPassword,
+  sendPasswordResetEmail,
+  isRecoveryToken,
+  signOutEverywhere,
   verifySupabaseToken,
+  createSessionForEmail,
+  getAuthUserById,
 } from "./supabaseAuth";
 import { supabase } from "./supabaseDb";
 import {
-  logLogin,
+  logAuditEvent,
   logFailedLogin,
   logBulkOperation,
   logModerationAction,
+  getLoginHistory,
+  verifyAuditChain,
+  queryAdminEvents,
+  getAdminEventFacets,
   AuditActions,
   ResourceTypes,
 } from "./auditLog";
 import {
-  createSession,
   revokeSessionByToken,
   getUserSessions,
   revokeAllUserSessions,
+  getAllActiveSessions,
+  getSessionById,
+  revokeSession,
+  isSessionActive,
+  recordSessionReauthentication,
   generateDeviceFingerprint,
 } from "./sessionManager";
 import {
   trackFailedLogin,
-  runLoginAnomalyChecks,
-  getUnacknowledgedAnomalies,
+  listAnomalies,
   acknowledgeAnomaly,
+  countCriticalUnacknowledgedAnomalies,
+  getAnomalyCountsByDay,
+  AnomalyTypes,
+  SeverityLevels,
 } from "./anomalyDetection";
 import {
-  createRefreshToken,
   rotateRefreshToken,
   revokeAllUserTokens,
+  revokeSessionTokens,
 } from "./tokenRotation";
+import { getGeoLocation, formatLocation } from "./geoipService";
+import {
+  IMPERSONATION_COOKIE_NAME,
+  IMPERSONATION_DEFAULT_MINUTES,
+  IMPERSONATION_MAX_MINUTES,
+  startImpersonation,
+  endImpersonation,
+} from "./impersonation";
+import {
+  RoleElevationStatus,
+  ROLE_ELEVATION_MAX_HOURS,
+  createRoleElevationRequest,
+  hasPendingRoleElevation,
+  listRoleElevationRequests,
+  getRoleElevationRequest,
+  approveRoleElevation,
+  denyRoleElevation,
+  cancelRoleElevation,
+} from "./roleElevation";
+import {
+  FourEyesOperations,
+  PendingOperationStatus,
+  fourEyesInputSchemas,
+  fourEyesRequirements,
+  createPendingOperation,
+  findOpenOperation,
+  listPendingOperations,
+  getPendingOperation,
+  approvePendingOperation,
+  rejectPendingOperation,
+  cancelPendingOperation,
+  recordOperationOutcome,
+  type FourEyesInputs,
+  type FourEyesOperation,
+  type PendingOperation,
+} from "./pendingOperations";
+import {
+  JobRunStatus,
+  JobTriggers,
+  listJobs,
+  listJobRuns,
+  startJob,
+  type JobRunStatusType,
+} from "./jobScheduler";
+import {
+  ApiKeyAccess,
+  API_KEY_BLOCKED_NAMESPACES,
+  API_KEY_DEFAULT_RATE_LIMIT,
+  API_KEY_MAX_DAYS,
+  createServiceAccount,
+  listServiceAccounts,
+  getServiceAccount,
+  setServiceAccountDisabled,
+  createApiKey,
+  listApiKeys,
+  revokeApiKey,
+  getApiKeyUsage,
+} from "./apiKeys";
+import { CspDispositions, listCspReports, deleteCspReport, type CspDisposition } from "./cspReports";
+import { getCspSettings } from "./_core/securityHeaders";
+import { getOidcConfig } from "./oidc";
+import {
+  checkPassword,
+  getPasswordChangedAt,
+  getPasswordPolicy,
+  isPasswordRotationDue,
+} from "./passwordPolicy";
+import { getStepUpWindowMinutes } from "./stepUpAuth";
+import { OIDC_LOGIN_PATH } from "./_core/oidc";
+import {
+  AUTH_COOKIE_NAME,
+  assertLoginAllowed,
+  completeLogin,
+  getRequestClientInfo,
+} from "./loginSession";
+import {
+  getTwoFactorStatus,
+  startTwoFactorEnrollment,
+  confirmTwoFactorEnrollment,
+  verifySecondFactor,
+  regenerateRecoveryCodes,
+  disableTwoFactor,
+  createLoginChallenge,
+  getLoginChallenge,
+  recordChallengeFailure,
+  consumeLoginChallenge,
+  type LoginChallenge,
+  type LoginChallengePurpose,
+} from "./twoFactor";
+import {
+  getRelyingParty,
+  startPasskeyRegistration,
+  finishPasskeyRegistration,
+  startPasskeyAuthentication,
+  finishPasskeyAuthentication,
+  getPasskeyOwner,
+  listPasskeys,
+  deletePasskey,
+  type RelyingParty,
+} from "./passkeys";
+import {
+  describeDevice,
+  getDeviceConfirmation,
+  listTrustedDevices,
+  redeemDeviceConfirmation,
+  removeTrustedDevice,
+  renameTrustedDevice,
+  trustDevice,
+} from "./trustedDevices";
+import {
+  acceptInvitation,
+  createInvitation,
+  DEFAULT_INVITE_EXPIRY_DAYS,
+  getInvitationByToken,
+  listInvitations,
+  MAX_INVITE_EXPIRY_DAYS,
+  revokeInvitation,
+  sendInvitationEmail,
+} from "./invitations";
+import type { AuthenticationResponseJSON, RegistrationResponseJSON } from "@simplewebauthn/server";
+import {
+  clearAccountFailures,
+  getLockedAccounts,
+} from "./accountLockout";
+import { getFrozenAccounts, unfreezeAccount } from "./adminActivityRules";
+import type { Context } from "./_core/context";
+
+// Version for deployment verification
+const BUILD_VERSION = '2026-01-26-fsq-search-fix';
+
+/**
+ * Re-check a signed-in admin's password (password change, step-up) without
+ * creating a session. Wrong passwords count towards lockout and anomaly
+ * detection like failed logins.
+ */
+async function verifyCurrentPassword(ctx: Context, password: string, reason: string): Promise<string> {
+  const email = ctx.user?.email;
+  if (!email) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "This account has no email address",
+    });
+  }
+  const { clientIp, userAgent } = getRequestClientInfo(ctx.req);
+
+  await assertLoginAllowed(email, clientIp, userAgent);
+  const { valid } = await verifyUserPassword(email, password);
+  if (!valid) {
+    await logFailedLogin(email, reason, clientIp, userAgent);
+    await trackFailedLogin(email, clientIp, userAgent);
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Current password is incorrect",
+    });
+  }
+  return email;
+}
+
+/**
+ * Mark this session as freshly re-authenticated so it may call step-up
+ * procedures for the next few minutes
+ */
+async function recordStepUp(ctx: Context, email: string, method: string) {
+  const token = ctx.req.cookies?.[AUTH_COOKIE_NAME];
+  if (!token || !(await recordSessionReauthentication(token))) {
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: "Failed to record re-authentication. Please sign in again.",
+    });
+  }
+
+  const { clientIp, userAgent } = getRequestClientInfo(ctx.req);
+  await logAuditEvent({
+    userId: ctx.user?.id,
+    userEmail: email,
+    action: AuditActions.STEP_UP_VERIFIED,
+    resourceType: ResourceTypes.SESSION,
+    details: { method, windowMinutes: getStepUpWindowMinutes() },
+    ipAddress: clientIp,
+    userAgent,
+  });
+
+  return { success: true, expiresInMinutes: getStepUpWindowMinutes() };
+}
+
+/**
+ * Complete a sign-in held by a login challenge once its second factor passed
+ */
+async function finishChallengeLogin(ctx: Context, challenge: LoginChallenge, method: string) {
+  const accessToken = await consumeLoginChallenge(challenge);
+  const user = accessToken ? await verifySupabaseToken(accessToken) : null;
+  if (!accessToken || !user) {
+    throw new TRPCError({
+      code: "UNAUTHORIZED",
+      message: "Verification expired. Please sign in again.",
+    });
+  }
+
+  const access = await getUserAccess(user.id);
+  if (access.roles.length === 0) {
+    throw new TRPCError({
+      code: "UNAUTHORIZED",
+      message: "Invalid credentials",
+    });
+  }
+
+  return completeLogin(ctx.req, ctx.res, { user, accessToken, access, method });
+}
+
+/**
+ * Resolve the WebAuthn relying party for the calling origin
+ */
+function requireRelyingParty(ctx: Context): RelyingParty {
+  const rp = getRelyingParty(ctx.req.headers.origin);
+  if (!rp) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Passkeys are not available for this origin",
+    });
+  }
+  return rp;
+}
+
+/**
+ * Four-eyes gate (see ./pendingOperations.ts): when this call needs a second
+ * admin, store it for approval and return the pending request instead of
+ * running it. Returns null when the call may run now.
+ */
+async function requireSecondApproval<Op extends FourEyesOperation>(ctx: Context, operation: Op, input: FourEyesInputs[Op]) {
+  const requirement = fourEyesRequirements[operation];
+  // The approved call itself, replayed by pendingOperations.review
+  if (ctx.approvedOperationId || !requirement.appliesTo(input)) return null;
+
+  const requester = ctx.user;
+  if (!requester) {
+    throw new TRPCError({ code: "UNAUTHORIZED", message: "You must be logged in to access this resource" });
+  }
+
+  const resourceId = requirement.getResourceId(input);
+  if (resourceId && (await findOpenOperation(operation, resourceId))) {
+    throw new TRPCError({ code: "CONFLICT", message: "This operation is already waiting for approval" });
+  }
+
+  const pending = await createPendingOperation({
+    operation,
+    input,
+    requester: { id: requester.id, email: requester.email },
+  });
+  if (!pending) {
+    throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Failed to submit the operation for approval" });
+  }
+
+  const { clientIp, userAgent } = getRequestClientInfo(ctx.req);
+  await logAuditEvent({
+    userId: requester.id,
+    userEmail: requester.email || undefined,
+    action: AuditActions.OPERATION_APPROVAL_REQUESTED,
+    resourceType: ResourceTypes.PENDING_OPERATION,
+    resourceId: pending.id,
+    details: {
+      operation,
+      summary: pending.summary,
+      targetResourceId: pending.resourceId,
+      itemCount: pending.itemCount,
+      expiresAt: pending.expiresAt.toISOString(),
+    },
+    ipAddress: clientIp,
+    userAgent,
+  });
+
+  return {
+    pendingApproval: true as const,
+    operationId: pending.id,
+    summary: pending.summary,
+    expiresAt: pending.expiresAt,
+  };
+}
 
-// Cookie name for Supabase auth token
-const AUTH_COOKIE_NAME = "tavvy_auth_token";
+type AppCaller = ReturnType<typeof appRouter.createCaller>;
+
+// The procedure behind each four-eyes operation
+const fourEyesProcedures: {
+  [Op in FourEyesOperation]: (caller: AppCaller, input: FourEyesInputs[Op]) => Promise<unknown>;
+} = {
+  [FourEyesOperations.DELETE_USER]: (caller, input) => caller.users.delete(input),
+  [FourEyesOperations.DELETE_UNIVERSE]: (caller, input) => caller.universes.delete(input),
+  [FourEyesOperations.GRANT_ROLE]: (caller, input) => caller.users.addRole(input),
+  [FourEyesOperations.IMPORT_ARTICLES]: (caller, input) => caller.articles.bulkImport(input),
+  [FourEyesOperations.IMPORT_REVIEWS]: (caller, input) => caller.reviews.batchImport(input),
+};
+
+function callFourEyesProcedure<Op extends FourEyesOperation>(caller: AppCaller, operation: Op, input: FourEyesInputs[Op]) {
+  return fourEyesProcedures[operation](caller, input);
+}
 
-// Helper function to check if user has super_admin role via database
-// This replaces the hardcoded SUPER_ADMIN_EMAILS array with RBAC
-async function isUserSuperAdmin(userId: string): Promise<boolean> {
-  if (!userId) return false;
-  
+/**
+ * Run an approved operation through its own procedure, as the approver, so
+ * the usual permission, step-up, validation and audit checks apply again.
+ * Returns the error message if it failed.
+ */
+async function executeApprovedOperation(ctx: Context, operation: PendingOperation): Promise<string | undefined> {
   try {
-    const { data, error } = await supabase
-      .from('user_roles')
-      .select('role')
-      .eq('user_id', userId)
-      .eq('role', 'super_admin')
-      .or('expires_at.is.null,expires_at.gt.now()')
-      .maybeSingle();
-    
-    if (error) {
-      console.error('[Auth] Error checking admin role:', error);
-      return false;
+    const caller = appRouter.createCaller({ ...ctx, approvedOperationId: operation.id });
+    // The stored input was validated when requested and is validated again by the procedure
+    const input = operation.input as FourEyesInputs[typeof operation.operation];
+    const result = await callFourEyesProcedure(caller, operation.operation, input);
+    // Some procedures report failure in their result instead of throwing
+    if (result && typeof result === "object" && "success" in result && result.success === false) {
+      return "error" in result && typeof result.error === "string" ? result.error : "The operation reported a failure";
     }
-    
-    return !!data;
+    return undefined;
   } catch (err) {
-    console.error('[Auth] Exception checking admin role:', err);
-    return false;
+    return err instanceof Error ? err.message : "The operation failed";
   }
 }
 
-// Version for deployment verification
-const BUILD_VERSION = '2026-01-26-fsq-search-fix';
-
 export const appRouter = router({
   // Version endpoint for deployment verification
   version: publicProcedure.query(() => {
     return { version: BUILD_VERSION, timestamp: new Date().toISOString() };
   }),
 
-  // Auth router - Login only, super admin restricted
+  // Auth router - Login only, restricted to users with a portal role
   auth: router({
     me: publicProcedure.query(async ({ ctx }) => {
       // Get token from cookie
       const token = ctx.req.cookies?.[AUTH_COOKIE_NAME];
       if (!token) return null;
 
-      // Verify token with Supabase
-      const user = await verifySupabaseToken(token);
-      if (!user) return null;
+      // Verify token with Supabase
+      const user = await verifySupabaseToken(token);
+      if (!user) return null;
+
+      // Revoked, expired or untracked sessions are treated as logged out
+      if (!(await isSessionActive(token))) return null;
+
+      // Load portal roles from the database (RBAC)
+      const access = await getUserAccess(user.id);
+      if (access.roles.length === 0) {
+        return null; // Users without a portal role get null (treated as not logged in)
+      }
+
+      const isSuperAdmin = access.roles.includes(Roles.SUPER_ADMIN);
+
+      return {
+        id: user.id,
+        openId: user.id,
+        email: user.email,
+        name: user.user_metadata?.full_name || user.email?.split("@")[0] || "Admin",
+        role: isSuperAdmin ? Roles.SUPER_ADMIN : access.roles[0],
+        roles: access.roles,
+        permissions: access.permissions,
+        isSuperAdmin,
+        // Super admins past the rotation period must change their password first
+        passwordRotationDue: isSuperAdmin && isPasswordRotationDue(getPasswordChangedAt(user)),
+        impersonating: ctx.impersonation
+          ? {
+              userId: ctx.impersonation.targetUserId,
+              email: ctx.impersonation.targetEmail,
+              reason: ctx.impersonation.reason,
+              expiresAt: ctx.impersonation.expiresAt.toISOString(),
+            }
+          : null,
+      };
+    }),
+
+    login: publicProcedure
+      .input(
+        z.object({
+          email: z.string().email(),
+          password: z.string().min(6),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        // NOTE: We no longer check email before login.
+        // This prevents email enumeration attacks.
+        // Role check happens AFTER successful auth.
+
+        const clientIp = ctx.req.ip || ctx.req.headers['x-forwarded-for']?.toString();
+        const userAgent = ctx.req.headers['user-agent'];
+
+        // Per-account lockout / exponential back-off (applies whether or not the email exists)
+        await assertLoginAllowed(input.email, clientIp, userAgent);
+
+        const { user, session, error } = await signInWithEmail(
+          input.email,
+          input.password
+        );
+
+        if (error || !user || !session) {
+          // Log failed login attempt
+          await logFailedLogin(
+            input.email,
+            error || "Invalid credentials",
+            clientIp,
+            userAgent
+          );
+          // Track for anomaly detection (brute force detection)
+          await trackFailedLogin(input.email, clientIp, userAgent);
+          throw new TRPCError({
+            code: "UNAUTHORIZED",
+            message: error || "Invalid credentials",
+          });
+        }
+
+        // Check if user has a portal role in database (RBAC)
+        const access = await getUserAccess(user.id);
+        if (access.roles.length === 0) {
+          // Log failed login (non-admin trying to access admin portal)
+          await logFailedLogin(
+            input.email,
+            "User has no admin portal role",
+            clientIp,
+            userAgent
+          );
+          // Track for anomaly detection
+          await trackFailedLogin(input.email, clientIp, userAgent);
+          // Don't reveal that the user exists but isn't an admin
+          // Use the same error message as invalid credentials
+          throw new TRPCError({
+            code: "UNAUTHORIZED",
+            message: "Invalid credentials",
+          });
+        }
+
+        // Second factor: required when enrolled, and mandatory for super admins.
+        // The session is held server-side until the second step succeeds.
+        const twoFactor = await getTwoFactorStatus(user.id);
+        if (twoFactor.enabled || access.roles.includes(Roles.SUPER_ADMIN)) {
+          const purpose: LoginChallengePurpose = twoFactor.enabled ? 'verify' : 'enroll';
+          const challengeToken = await createLoginChallenge(
+            user.id,
+            user.email || input.email,
+            session.access_token,
+            purpose,
+            clientIp,
+            userAgent
+          );
+          if (!challengeToken) {
+            throw new TRPCError({
+              code: "INTERNAL_SERVER_ERROR",
+              message: "Failed to start two-factor verification",
+            });
+          }
+          return { success: false as const, twoFactor: purpose, challengeToken };
+        }
+
+        return completeLogin(ctx.req, ctx.res, {
+          user,
+          accessToken: session.access_token,
+          access,
+          method: 'password',
+        });
+      }),
+
+    // Second login step: verify a TOTP or recovery code for a pending challenge
+    verifyTwoFactor: publicProcedure
+      .input(
+        z.object({
+          challengeToken: z.string().min(1),
+          code: z.string().min(6).max(20),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const { clientIp, userAgent } = getRequestClientInfo(ctx.req);
+        const challenge = await getLoginChallenge(input.challengeToken);
+        if (!challenge || challenge.purpose !== 'verify') {
+          throw new TRPCError({
+            code: "UNAUTHORIZED",
+            message: "Verification expired. Please sign in again.",
+          });
+        }
+        await assertLoginAllowed(challenge.email, clientIp, userAgent);
+
+        const result = await verifySecondFactor(challenge.userId, input.code);
+        if (!result.success) {
+          await recordChallengeFailure(challenge);
+          await logFailedLogin(challenge.email, "Invalid two-factor code", clientIp, userAgent);
+          await trackFailedLogin(challenge.email, clientIp, userAgent);
+          throw new TRPCError({
+            code: "UNAUTHORIZED",
+            message: "Invalid verification code",
+          });
+        }
+
+        return finishChallengeLogin(ctx, challenge, `password+${result.method}`);
+      }),
+
+    // Mandatory enrollment during login (super admins without 2FA): get QR code
+    beginTwoFactorEnrollment: publicProcedure
+      .input(z.object({ challengeToken: z.string().min(1) }))
+      .mutation(async ({ input }) => {
+        const challenge = await getLoginChallenge(input.challengeToken);
+        if (!challenge || challenge.purpose !== 'enroll') {
+          throw new TRPCError({
+            code: "UNAUTHORIZED",
+            message: "Verification expired. Please sign in again.",
+          });
+        }
+
+        const enrollment = await startTwoFactorEnrollment(challenge.userId, challenge.email);
+        if (!enrollment) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: "Failed to start two-factor enrollment",
+          });
+        }
+        return { secret: enrollment.secret, qrCodeDataUrl: enrollment.qrCodeDataUrl };
+      }),
+
+    // Mandatory enrollment during login: confirm first code, then sign in
+    completeTwoFactorEnrollment: publicProcedure
+      .input(
+        z.object({
+          challengeToken: z.string().min(1),
+          code: z.string().length(6),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const { clientIp, userAgent } = getRequestClientInfo(ctx.req);
+        const challenge = await getLoginChallenge(input.challengeToken);
+        if (!challenge || challenge.purpose !== 'enroll') {
+          throw new TRPCError({
+            code: "UNAUTHORIZED",
+            message: "Verification expired. Please sign in again.",
+          });
+        }
+
+        const recoveryCodes = await confirmTwoFactorEnrollment(challenge.userId, input.code);
+        if (!recoveryCodes) {
+          await recordChallengeFailure(challenge);
+          await logFailedLogin(challenge.email, "Invalid two-factor enrollment code", clientIp, userAgent);
+          await trackFailedLogin(challenge.email, clientIp, userAgent);
+          throw new TRPCError({
+            code: "UNAUTHORIZED",
+            message: "Invalid verification code",
+          });
+        }
+
+        await logAuditEvent({
+          userId: challenge.userId,
+          userEmail: challenge.email,
+          action: AuditActions.TWO_FACTOR_ENABLED,
+          resourceType: ResourceTypes.USER,
+          resourceId: challenge.userId,
+          ipAddress: clientIp,
+          userAgent,
+        });
+
+        const result = await finishChallengeLogin(ctx, challenge, 'password+totp');
+        return { ...result, recoveryCodes };
+      }),
+
+    // Single sign-on availability for the login page (flow runs at /api/auth/oidc/*)
+    ssoProvider: publicProcedure.query(() => {
+      const config = getOidcConfig();
+      return config
+        ? { enabled: true as const, name: config.providerName, loginUrl: OIDC_LOGIN_PATH }
+        : { enabled: false as const };
+    }),
+
+    // Passkey sign-in, step 1: get a challenge (no username needed)
+    passkeyAuthenticationOptions: publicProcedure.mutation(async ({ ctx }) => {
+      const result = await startPasskeyAuthentication(requireRelyingParty(ctx));
+      if (!result) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to start passkey sign-in",
+        });
+      }
+      return result;
+    }),
+
+    // Passkey sign-in, step 2: verify the assertion and create the session
+    verifyPasskeyAuthentication: publicProcedure
+      .input(
+        z.object({
+          challengeId: z.string().uuid(),
+          response: z.custom<AuthenticationResponseJSON>(
+            (value) => typeof value === "object" && value !== null && "id" in value
+          ),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const { clientIp, userAgent } = getRequestClientInfo(ctx.req);
+        const rp = requireRelyingParty(ctx);
+
+        const result = await finishPasskeyAuthentication(input.challengeId, input.response, rp);
+        const authUser = result ? await getAuthUserById(result.userId) : null;
+
+        if (!result || !authUser?.email) {
+          // Attribute the failure to the credential owner when we can
+          const ownerId = await getPasskeyOwner(input.response.id);
+          const owner = ownerId ? await getAuthUserById(ownerId) : null;
+          const email = owner?.email || "unknown (passkey)";
+          await logFailedLogin(email, "Passkey verification failed", clientIp, userAgent);
+          await trackFailedLogin(email, clientIp, userAgent);
+          throw new TRPCError({
+            code: "UNAUTHORIZED",
+            message: "Passkey sign-in failed",
+          });
+        }
+
+        // Same portal role check as password login
+        const access = await getUserAccess(authUser.id);
+        if (access.roles.length === 0) {
+          await logFailedLogin(authUser.email, "User has no admin portal role", clientIp, userAgent);
+          await trackFailedLogin(authUser.email, clientIp, userAgent);
+          throw new TRPCError({
+            code: "UNAUTHORIZED",
+            message: "Passkey sign-in failed",
+          });
+        }
+
+        // Locked accounts and accounts in back-off stay out whichever factor is used
+        await assertLoginAllowed(authUser.email, clientIp, userAgent);
+
+        const { user, session, error } = await createSessionForEmail(authUser.email);
+        if (error || !user || !session) {
+          console.error('[Auth] Failed to create session after passkey sign-in:', error);
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: "Failed to create session",
+          });
+        }
+
+        return completeLogin(ctx.req, ctx.res, {
+          user,
+          accessToken: session.access_token,
+          access,
+          method: 'passkey',
+        });
+      }),
+
+    // Passkey registration, step 1: get creation options for the signed-in admin
+    passkeyRegistrationOptions: adminProcedure.mutation(async ({ ctx }) => {
+      const options = await startPasskeyRegistration(
+        {
+          id: ctx.user.id,
+          email: ctx.user.email || ctx.user.id,
+          name: ctx.user.name,
+        },
+        requireRelyingParty(ctx)
+      );
+      if (!options) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to start passkey registration",
+        });
+      }
+      return options;
+    }),
+
+    // Passkey registration, step 2: verify the attestation and store the passkey
+    verifyPasskeyRegistration: adminProcedure
+      .input(
+        z.object({
+          name: z.string().trim().min(1).max(100),
+          response: z.custom<RegistrationResponseJSON>(
+            (value) => typeof value === "object" && value !== null && "id" in value
+          ),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const passkey = await finishPasskeyRegistration(
+          ctx.user.id,
+          input.response,
+          input.name,
+          requireRelyingParty(ctx)
+        );
+        if (!passkey) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Passkey registration failed",
+          });
+        }
+
+        const { clientIp, userAgent } = getRequestClientInfo(ctx.req);
+        await logAuditEvent({
+          userId: ctx.user.id,
+          userEmail: ctx.user.email || undefined,
+          action: AuditActions.PASSKEY_REGISTERED,
+          resourceType: ResourceTypes.USER,
+          resourceId: ctx.user.id,
+          details: { passkeyId: passkey.id, name: passkey.name },
+          ipAddress: clientIp,
+          userAgent,
+        });
+
+        return passkey;
+      }),
+
+    // List the signed-in admin's passkeys
+    listPasskeys: adminProcedure.query(async ({ ctx }) => {
+      return listPasskeys(ctx.user.id);
+    }),
+
+    // Remove one of the signed-in admin's passkeys
+    deletePasskey: adminProcedure
+      .input(z.object({ id: z.string().uuid() }))
+      .mutation(async ({ ctx, input }) => {
+        const success = await deletePasskey(ctx.user.id, input.id);
+        if (success) {
+          const { clientIp, userAgent } = getRequestClientInfo(ctx.req);
+          await logAuditEvent({
+            userId: ctx.user.id,
+            userEmail: ctx.user.email || undefined,
+            action: AuditActions.PASSKEY_REMOVED,
+            resourceType: ResourceTypes.USER,
+            resourceId: ctx.user.id,
+            details: { passkeyId: input.id },
+            ipAddress: clientIp,
+            userAgent,
+          });
+        }
+        return { success };
+      }),
+
+    // The signed-in admin's trusted devices (no new-device alerts from these)
+    listTrustedDevices: adminProcedure.query(async ({ ctx }) => {
+      const { clientIp, userAgent } = getRequestClientInfo(ctx.req);
+      const currentFingerprint = generateDeviceFingerprint(userAgent, clientIp);
+      const devices = await listTrustedDevices(ctx.user.id);
+      return {
+        suggestedName: describeDevice(userAgent),
+        currentDeviceTrusted: devices.some(d => d.deviceFingerprint === currentFingerprint),
+        devices: devices.map(({ deviceFingerprint, ...device }) => ({
+          ...device,
+          isCurrent: deviceFingerprint === currentFingerprint,
+        })),
+      };
+    }),
+
+    // Trust (and name) the device this request comes from
+    trustCurrentDevice: adminProcedure
+      .input(z.object({ name: z.string().trim().min(1).max(100) }))
+      .mutation(async ({ ctx, input }) => {
+        const { clientIp, userAgent } = getRequestClientInfo(ctx.req);
+        const deviceFingerprint = generateDeviceFingerprint(userAgent, clientIp);
+        const device = await trustDevice(ctx.user.id, deviceFingerprint, input.name, userAgent, clientIp);
+        if (!device) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Could not trust this device. Remove a trusted device you no longer use and try again.",
+          });
+        }
+
+        await logAuditEvent({
+          userId: ctx.user.id,
+          userEmail: ctx.user.email || undefined,
+          action: AuditActions.TRUSTED_DEVICE_ADDED,
+          resourceType: ResourceTypes.USER,
+          resourceId: ctx.user.id,
+          details: { trustedDeviceId: device.id, name: device.name, deviceFingerprint },
+          ipAddress: clientIp,
+          userAgent,
+        });
+        return { success: true, id: device.id };
+      }),
+
+    renameTrustedDevice: adminProcedure
+      .input(z.object({ id: z.string().uuid(), name: z.string().trim().min(1).max(100) }))
+      .mutation(async ({ ctx, input }) => {
+        const success = await renameTrustedDevice(ctx.user.id, input.id, input.name);
+        if (!success) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Trusted device not found" });
+        }
+        return { success };
+      }),
+
+    removeTrustedDevice: adminProcedure
+      .input(z.object({ id: z.string().uuid() }))
+      .mutation(async ({ ctx, input }) => {
+        const success = await removeTrustedDevice(ctx.user.id, input.id);
+        if (success) {
+          const { clientIp, userAgent } = getRequestClientInfo(ctx.req);
+          await logAuditEvent({
+            userId: ctx.user.id,
+            userEmail: ctx.user.email || undefined,
+            action: AuditActions.TRUSTED_DEVICE_REMOVED,
+            resourceType: ResourceTypes.USER,
+            resourceId: ctx.user.id,
+            details: { trustedDeviceId: input.id },
+            ipAddress: clientIp,
+            userAgent,
+          });
+        }
+        return { success };
+      }),
+
+    // New-device email link, step 1: show what signed in (works signed out)
+    deviceConfirmation: publicProcedure
+      .input(z.object({ token: z.string().min(1).max(200) }))
+      .query(async ({ input }) => {
+        const confirmation = await getDeviceConfirmation(input.token);
+        if (!confirmation) return null;
+        return {
+          device: describeDevice(confirmation.userAgent),
+          ipAddress: confirmation.ipAddress || null,
+          signedInAt: confirmation.createdAt.toISOString(),
+          expiresAt: confirmation.expiresAt.toISOString(),
+        };
+      }),
+
+    // New-device email link, step 2: trust the device, or sign that session out
+    confirmDevice: publicProcedure
+      .input(z.object({ token: z.string().min(1).max(200), trusted: z.boolean() }))
+      .mutation(async ({ ctx, input }) => {
+        const confirmation = await redeemDeviceConfirmation(input.token, input.trusted ? 'confirmed' : 'denied');
+        if (!confirmation) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "This link is invalid, has expired or was already used.",
+          });
+        }
+
+        const owner = await getAuthUserById(confirmation.userId);
+        let sessionRevoked = false;
+        if (input.trusted) {
+          await trustDevice(
+            confirmation.userId,
+            confirmation.deviceFingerprint,
+            describeDevice(confirmation.userAgent),
+            confirmation.userAgent,
+            confirmation.ipAddress
+          );
+        } else if (confirmation.sessionId) {
+          sessionRevoked = await revokeSession(confirmation.sessionId, 'new_device_denied');
+          await revokeSessionTokens(confirmation.sessionId, 'new_device_denied');
+        }
+
+        const { clientIp, userAgent } = getRequestClientInfo(ctx.req);
+        await logAuditEvent({
+          userId: confirmation.userId,
+          userEmail: owner?.email || undefined,
+          action: input.trusted ? AuditActions.NEW_DEVICE_CONFIRMED : AuditActions.NEW_DEVICE_DENIED,
+          resourceType: ResourceTypes.SESSION,
+          resourceId: confirmation.sessionId,
+          details: {
+            deviceFingerprint: confirmation.deviceFingerprint,
+            signInIp: confirmation.ipAddress,
+            sessionRevoked,
+          },
+          ipAddress: clientIp,
+          userAgent,
+        });
+        return { success: true, trusted: input.trusted, sessionRevoked };
+      }),
+
+    // Refresh access token using refresh token rotation
+    refresh: publicProcedure.mutation(async ({ ctx }) => {
+      const refreshToken = ctx.req.cookies?.['tavvy_refresh_token'];
+      
+      if (!refreshToken) {
+        throw new TRPCError({
+          code: "UNAUTHORIZED",
+          message: "No refresh token provided",
+        });
+      }
+
+      const clientIp = ctx.req.ip || ctx.req.headers['x-forwarded-for']?.toString();
+      const userAgent = ctx.req.headers['user-agent'];
+
+      const result = await rotateRefreshToken(refreshToken, clientIp, userAgent);
+
+      if (!result.success) {
+        // Clear cookies on failure
+        ctx.res.clearCookie(AUTH_COOKIE_NAME, { path: "/" });
+        ctx.res.clearCookie('tavvy_refresh_token', { path: "/" });
+        
+        throw new TRPCError({
+          code: result.securityAlert ? "FORBIDDEN" : "UNAUTHORIZED",
+          message: result.error || "Token refresh failed",
+        });
+      }
+
+      // Set new tokens
+      if (result.tokenPair) {
+        ctx.res.cookie(AUTH_COOKIE_NAME, result.tokenPair.accessToken, {
+          httpOnly: true,
+          secure: process.env.NODE_ENV === "production",
+          sameSite: "strict",
+          maxAge: 60 * 60 * 1000, // 1 hour
+          path: "/",
+        });
+
+        ctx.res.cookie('tavvy_refresh_token', result.tokenPair.refreshToken, {
+          httpOnly: true,
+          secure: process.env.NODE_ENV === "production",
+          sameSite: "strict",
+          maxAge: 60 * 60 * 24 * 7 * 1000, // 7 days
+          path: "/",
+        });
+      }
+
+      return { success: true };
+    }),
+
+    // Password rules, shown on the signup and password change forms
+    passwordPolicy: publicProcedure.query(() => {
+      const policy = getPasswordPolicy();
+      return { minLength: policy.minLength, maxLength: policy.maxLength };
+    }),
+
+    // Invitation link, step 1: who is invited and as what (works signed out)
+    invitation: publicProcedure
+      .input(z.object({ token: z.string().min(1).max(300) }))
+      .query(async ({ input }) => {
+        const invitation = await getInvitationByToken(input.token);
+        if (!invitation) return null;
+        return {
+          email: invitation.email,
+          role: invitation.role,
+          invitedByEmail: invitation.invitedByEmail || null,
+          expiresAt: invitation.expiresAt.toISOString(),
+        };
+      }),
+
+    // Invitation link, step 2: create the account (signup is invitation-only);
+    // the password policy is enforced here rather than left to Supabase
+    signup: publicProcedure
+      .input(
+        z.object({
+          inviteToken: z.string().min(1).max(300),
+          fullName: z.string().trim().min(1).max(100),
+          password: z.string().min(1).max(200),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const invitation = await getInvitationByToken(input.inviteToken);
+        if (!invitation) {
+          throw new TRPCError({
+            code: "FORBIDDEN",
+            message: "Signing up requires a valid invitation. This link is invalid, expired, revoked or was already used.",
+          });
+        }
+
+        const violations = checkPassword(input.password, invitation.email);
+        if (violations.length > 0) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: violations.map(v => v.message).join(" "),
+          });
+        }
+
+        const result = await acceptInvitation(input.inviteToken, input.fullName, input.password);
+        if (!result.success || !result.userId || !result.invitation) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: result.error || "Failed to create account",
+          });
+        }
+
+        const { clientIp, userAgent } = getRequestClientInfo(ctx.req);
+        await logAuditEvent({
+          userId: result.userId,
+          userEmail: result.invitation.email,
+          action: AuditActions.INVITATION_ACCEPTED,
+          resourceType: ResourceTypes.INVITATION,
+          resourceId: result.invitation.id,
+          details: {
+            role: result.invitation.role,
+            roleGranted: result.roleGranted,
+            invitedBy: result.invitation.invitedBy,
+            invitedByEmail: result.invitation.invitedByEmail,
+          },
+          ipAddress: clientIp,
+          userAgent,
+          success: result.roleGranted,
+        });
+
+        return { success: true, email: result.invitation.email };
+      }),
+
+    // Change the signed-in admin's password (re-checks the current one)
+    changePassword: adminProcedure
+      .input(
+        z.object({
+          currentPassword: z.string().min(1),
+          newPassword: z.string().min(1).max(200),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const email = await verifyCurrentPassword(ctx, input.currentPassword, "Incorrect current password on password change");
+        const { clientIp, userAgent } = getRequestClientInfo(ctx.req);
+
+        if (input.newPassword === input.currentPassword) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Choose a password different from your current one.",
+          });
+        }
+        const violations = checkPassword(input.newPassword, email);
+        if (violations.length > 0) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: violations.map(v => v.message).join(" "),
+          });
+        }
+
+        const { error } = await updateUserPassword(ctx.user.id, input.newPassword);
+        if (error) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: "Failed to change password",
+          });
+        }
+
+        await logAuditEvent({
+          userId: ctx.user.id,
+          userEmail: email,
+          action: AuditActions.PASSWORD_CHANGED,
+          resourceType: ResourceTypes.USER,
+          resourceId: ctx.user.id,
+          ipAddress: clientIp,
+          userAgent,
+        });
+
+        return { success: true };
+      }),
+
+    // Forgotten password, step 1: email a reset link to the portal's reset page.
+    // Always reports success so it can't be used to probe for accounts.
+    requestPasswordReset: publicProcedure
+      .input(z.object({ email: z.string().trim().email().max(255) }))
+      .mutation(async ({ input }) => {
+        const portalUrl = process.env.ADMIN_PORTAL_URL?.replace(/\/+$/, '');
+        if (!portalUrl) {
+          console.log('[Auth] Password reset emails not configured (missing ADMIN_PORTAL_URL)');
+          throw new TRPCError({
+            code: "PRECONDITION_FAILED",
+            message: "Password reset is not available. Please contact an administrator.",
+          });
+        }
+
+        const { error } = await sendPasswordResetEmail(input.email.toLowerCase(), `${portalUrl}/reset-password`);
+        if (error) {
+          console.error('[Auth] Failed to send password reset email:', error);
+        }
+        return { success: true };
+      }),
+
+    // Forgotten password, step 2: set the new password with the recovery token
+    // from the link. The password policy applies and the rotation clock restarts.
+    resetPassword: publicProcedure
+      .input(
+        z.object({
+          accessToken: z.string().min(1).max(4096),
+          password: z.string().min(1).max(200),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const user = await verifySupabaseToken(input.accessToken);
+        if (!user || !user.email || !isRecoveryToken(input.accessToken)) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "This reset link is invalid or has expired. Please request a new one.",
+          });
+        }
+
+        const violations = checkPassword(input.password, user.email);
+        if (violations.length > 0) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: violations.map(v => v.message).join(" "),
+          });
+        }
+
+        const { error } = await updateUserPassword(user.id, input.password);
+        if (error) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: "Failed to reset password",
+          });
+        }
+
+        // Whoever knew the old password is signed out everywhere, including the recovery session
+        await signOutEverywhere(input.accessToken);
+        const sessionsRevoked = await revokeAllUserSessions(user.id, 'password_reset');
+        await revokeAllUserTokens(user.id, 'password_reset');
+
+        const { clientIp, userAgent } = getRequestClientInfo(ctx.req);
+        await logAuditEvent({
+          userId: user.id,
+          userEmail: user.email,
+          action: AuditActions.PASSWORD_CHANGED,
+          resourceType: ResourceTypes.USER,
+          resourceId: user.id,
+          details: { method: 'reset', sessionsRevoked },
+          ipAddress: clientIp,
+          userAgent,
+        });
+
+        return { success: true };
+      }),
+
+    // Step-up: re-enter the password so this session may call sensitive
+    // procedures for the next few minutes
+    reauthenticate: adminProcedure
+      .input(z.object({ password: z.string().min(1) }))
+      .mutation(async ({ ctx, input }) => {
+        const email = await verifyCurrentPassword(ctx, input.password, "Incorrect password on re-authentication");
+        return recordStepUp(ctx, email, 'password');
+      }),
+
+    // Step-up with a passkey instead of the password (e.g. for SSO accounts), step 1
+    reauthenticationPasskeyOptions: adminProcedure.mutation(async ({ ctx }) => {
+      const result = await startPasskeyAuthentication(requireRelyingParty(ctx));
+      if (!result) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to start passkey verification",
+        });
+      }
+      return result;
+    }),
+
+    // Step-up with a passkey, step 2: the assertion must come from one of the admin's own passkeys
+    reauthenticateWithPasskey: adminProcedure
+      .input(
+        z.object({
+          challengeId: z.string().uuid(),
+          response: z.custom<AuthenticationResponseJSON>(
+            (value) => typeof value === "object" && value !== null && "id" in value
+          ),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const email = ctx.user.email || ctx.user.id;
+        const { clientIp, userAgent } = getRequestClientInfo(ctx.req);
+        await assertLoginAllowed(email, clientIp, userAgent);
+
+        const result = await finishPasskeyAuthentication(input.challengeId, input.response, requireRelyingParty(ctx));
+        if (!result || result.userId !== ctx.user.id) {
+          await logFailedLogin(email, "Passkey verification failed on re-authentication", clientIp, userAgent);
+          await trackFailedLogin(email, clientIp, userAgent);
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Passkey verification failed",
+          });
+        }
+
+        return recordStepUp(ctx, email, 'passkey');
+      }),
+
+    logout: publicProcedure.mutation(async ({ ctx }) => {
+      // Revoke the session in the database
+      const token = ctx.req.cookies?.[AUTH_COOKIE_NAME];
+      if (token) {
+        await revokeSessionByToken(token, 'user_logout');
+      }
+      if (ctx.impersonation) {
+        await endImpersonation(ctx.impersonation.id, 'logout');
+      }
+      ctx.res.clearCookie(IMPERSONATION_COOKIE_NAME, { path: "/" });
+      // Clear both auth and refresh token cookies
+      ctx.res.clearCookie(AUTH_COOKIE_NAME, { path: "/" });
+      ctx.res.clearCookie('tavvy_refresh_token', { path: "/" });
+      return { success: true };
+    }),
+
+    // Get all active sessions for the current user
+    getSessions: adminProcedure.query(async ({ ctx }) => {
+      if (!ctx.user?.id) return [];
+      const sessions = await getUserSessions(ctx.user.id);
+      return sessions.map(s => ({
+        id: s.id,
+        ipAddress: s.ipAddress,
+        userAgent: s.userAgent,
+        createdAt: s.createdAt.toISOString(),
+        lastActivityAt: s.lastActivityAt.toISOString(),
+        isCurrent: s.sessionToken === ctx.req.cookies?.[AUTH_COOKIE_NAME],
+      }));
+    }),
+
+    // Logout from all devices
+    logoutAll: adminProcedure.mutation(async ({ ctx }) => {
+      if (!ctx.user?.id) return { success: false, count: 0 };
+      // Revoke all sessions and refresh tokens
+      const sessionCount = await revokeAllUserSessions(ctx.user.id, 'user_logout_all');
+      const tokenCount = await revokeAllUserTokens(ctx.user.id, 'user_logout_all');
+      // Clear cookies
+      ctx.res.clearCookie(AUTH_COOKIE_NAME, { path: "/" });
+      ctx.res.clearCookie('tavvy_refresh_token', { path: "/" });
+      return { success: true, sessionsRevoked: sessionCount, tokensRevoked: tokenCount };
+    }),
+
+    // Get security anomalies (super admin only); unacknowledged by default
+    getAnomalies: permissionProcedure(Permissions.SECURITY_READ)
+      .input(
+        z.object({
+          limit: z.number().min(1).max(500).default(50),
+          anomalyType: z.enum(Object.values(AnomalyTypes) as [string, ...string[]]).optional(),
+          severity: z.enum(Object.values(SeverityLevels) as [string, ...string[]]).optional(),
+          userEmail: z.string().max(255).optional(),
+          from: z.string().datetime().optional(),
+          to: z.string().datetime().optional(),
+          status: z.enum(["open", "acknowledged", "all"]).default("open"),
+        }).optional()
+      )
+      .query(async ({ input }) => {
+        const anomalies = await listAnomalies({
+          limit: input?.limit || 50,
+          anomalyType: input?.anomalyType,
+          severity: input?.severity,
+          userEmail: input?.userEmail || undefined,
+          from: input?.from ? new Date(input.from) : undefined,
+          to: input?.to ? new Date(input.to) : undefined,
+          status: input?.status || "open",
+        });
+        return anomalies;
+      }),
+
+    // Daily counts per anomaly type
+    getAnomalyStats: permissionProcedure(Permissions.SECURITY_READ)
+      .input(z.object({ days: z.number().min(1).max(90).default(14) }).optional())
+      .query(async ({ input }) => {
+        return {
+          types: Object.values(AnomalyTypes),
+          days: await getAnomalyCountsByDay(input?.days || 14),
+        };
+      }),
+
+    // Critical anomalies awaiting acknowledgement (navigation badge)
+    getCriticalAnomalyCount: permissionProcedure(Permissions.SECURITY_READ).query(async () => {
+      return { count: await countCriticalUnacknowledgedAnomalies() };
+    }),
+
+    // Acknowledge a security anomaly
+    acknowledgeAnomaly: permissionProcedure(Permissions.SECURITY_MANAGE)
+      .input(
+        z.object({
+          anomalyId: z.string().uuid(),
+          note: z.string().max(1000).optional(),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        if (!ctx.user?.id) return { success: false };
+        const note = input.note?.trim() || undefined;
+        const success = await acknowledgeAnomaly(input.anomalyId, ctx.user.id, note);
+        if (success) {
+          const { clientIp, userAgent } = getRequestClientInfo(ctx.req);
+          await logAuditEvent({
+            userId: ctx.user.id,
+            userEmail: ctx.user.email || undefined,
+            action: AuditActions.ANOMALY_ACKNOWLEDGED,
+            resourceType: ResourceTypes.ANOMALY,
+            resourceId: input.anomalyId,
+            details: { note },
+            ipAddress: clientIp,
+            userAgent,
+          });
+        }
+        return { success };
+      }),
+
+    // Successful and failed logins for one user, with geo locations
+    getLoginHistory: permissionProcedure(Permissions.SECURITY_READ)
+      .input(
+        z.object({
+          userId: z.string().uuid().optional(),
+          email: z.string().email().optional(),
+          limit: z.number().min(1).max(500).default(100),
+        }).refine(value => value.userId || value.email, { message: "userId or email is required" })
+      )
+      .query(async ({ input }) => {
+        const logins = await getLoginHistory({ userId: input.userId, email: input.email }, input.limit);
+
+        const ips = Array.from(new Set(logins.map(l => l.ipAddress).filter((ip): ip is string => !!ip)));
+        const geos = await Promise.all(ips.map(ip => getGeoLocation(ip)));
+        const geoByIp = new Map(ips.map((ip, i) => [ip, geos[i]]));
+
+        return logins.map(login => {
+          const geo = login.ipAddress ? geoByIp.get(login.ipAddress) : null;
+          return {
+            ...login,
+            location: geo?.isValid ? formatLocation(geo) : null,
+            countryCode: geo?.isValid ? geo.countryCode : null,
+          };
+        });
+      }),
+  }),
+
+  // Two-factor authentication settings for the signed-in admin
+  twoFactor: router({
+    status: adminProcedure.query(async ({ ctx }) => {
+      const status = await getTwoFactorStatus(ctx.user.id);
+      return {
+        ...status,
+        required: ctx.roles.includes(Roles.SUPER_ADMIN),
+      };
+    }),
+
+    // Generate a pending secret and QR code
+    setup: adminProcedure.mutation(async ({ ctx }) => {
+      const status = await getTwoFactorStatus(ctx.user.id);
+      if (status.enabled) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Two-factor authentication is already enabled",
+        });
+      }
+
+      const enrollment = await startTwoFactorEnrollment(ctx.user.id, ctx.user.email || ctx.user.id);
+      if (!enrollment) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to start two-factor enrollment",
+        });
+      }
+      return { secret: enrollment.secret, qrCodeDataUrl: enrollment.qrCodeDataUrl };
+    }),
+
+    // Confirm the pending secret and return recovery codes (shown once)
+    enable: adminProcedure
+      .input(z.object({ code: z.string().length(6) }))
+      .mutation(async ({ ctx, input }) => {
+        const recoveryCodes = await confirmTwoFactorEnrollment(ctx.user.id, input.code);
+        if (!recoveryCodes) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Invalid verification code",
+          });
+        }
+
+        const { clientIp, userAgent } = getRequestClientInfo(ctx.req);
+        await logAuditEvent({
+          userId: ctx.user.id,
+          userEmail: ctx.user.email || undefined,
+          action: AuditActions.TWO_FACTOR_ENABLED,
+          resourceType: ResourceTypes.USER,
+          resourceId: ctx.user.id,
+          ipAddress: clientIp,
+          userAgent,
+        });
+
+        return { success: true, recoveryCodes };
+      }),
+
+    // Disable 2FA (not allowed for super admins, for whom it is mandatory)
+    disable: adminProcedure
+      .input(z.object({ code: z.string().min(6).max(20) }))
+      .mutation(async ({ ctx, input }) => {
+        if (ctx.roles.includes(Roles.SUPER_ADMIN)) {
+          throw new TRPCError({
+            code: "FORBIDDEN",
+            message: "Two-factor authentication is required for super admins",
+          });
+        }
+
+        const verified = await verifySecondFactor(ctx.user.id, input.code);
+        if (!verified.success) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Invalid verification code",
+          });
+        }
+
+        const success = await disableTwoFactor(ctx.user.id);
+        if (success) {
+          const { clientIp, userAgent } = getRequestClientInfo(ctx.req);
+          await logAuditEvent({
+            userId: ctx.user.id,
+            userEmail: ctx.user.email || undefined,
+            action: AuditActions.TWO_FACTOR_DISABLED,
+            resourceType: ResourceTypes.USER,
+            resourceId: ctx.user.id,
+            ipAddress: clientIp,
+            userAgent,
+          });
+        }
+        return { success };
+      }),
+
+    // Replace all recovery codes (requires a current code)
+    regenerateRecoveryCodes: adminProcedure
+      .input(z.object({ code: z.string().min(6).max(20) }))
+      .mutation(async ({ ctx, input }) => {
+        const verified = await verifySecondFactor(ctx.user.id, input.code);
+        if (!verified.success) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Invalid verification code",
+          });
+        }
+
+        const recoveryCodes = await regenerateRecoveryCodes(ctx.user.id);
+        if (!recoveryCodes) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: "Failed to regenerate recovery codes",
+          });
+        }
+
+        const { clientIp, userAgent } = getRequestClientInfo(ctx.req);
+        await logAuditEvent({
+          userId: ctx.user.id,
+          userEmail: ctx.user.email || undefined,
+          action: AuditActions.RECOVERY_CODES_REGENERATED,
+          resourceType: ResourceTypes.USER,
+          resourceId: ctx.user.id,
+          ipAddress: clientIp,
+          userAgent,
+        });
+
+        return { success: true, recoveryCodes };
+      }),
+  }),
+
+  // Per-account login lockouts
+  lockouts: router({
+    list: permissionProcedure(Permissions.SECURITY_READ).query(async () => {
+      const accounts = await getLockedAccounts();
+      return accounts.map(a => ({
+        email: a.email,
+        failedCount: a.failedCount,
+        lockedUntil: a.lockedUntil.toISOString(),
+        lastFailedAt: a.lastFailedAt.toISOString(),
+        lastIpAddress: a.lastIpAddress || null,
+      }));
+    }),
+
+    // Clear failures and lift a lockout early
+    unlock: permissionProcedure(Permissions.SECURITY_MANAGE)
+      .input(z.object({ email: z.string().email() }))
+      .mutation(async ({ ctx, input }) => {
+        const success = await clearAccountFailures(input.email);
+
+        const { clientIp, userAgent } = getRequestClientInfo(ctx.req);
+        await logAuditEvent({
+          userId: ctx.user.id,
+          userEmail: ctx.user.email || undefined,
+          action: AuditActions.ACCOUNT_UNLOCKED,
+          resourceType: ResourceTypes.USER,
+          details: { targetEmail: input.email.toLowerCase() },
+          ipAddress: clientIp,
+          userAgent,
+          success,
+        });
+
+        return { success };
+      }),
+  }),
+
+  // Accounts frozen by the admin behavior rules (see ./adminActivityRules.ts)
+  accountFreezes: router({
+    list: permissionProcedure(Permissions.SECURITY_READ).query(async () => {
+      const freezes = await getFrozenAccounts();
+      return freezes.map(f => ({
+        userId: f.userId,
+        userEmail: f.userEmail || null,
+        rule: f.rule,
+        reason: f.reason || null,
+        frozenAt: f.frozenAt.toISOString(),
+      }));
+    }),
+
+    // Lift a freeze so the admin can sign in again
+    unfreeze: permissionProcedure(Permissions.SECURITY_MANAGE)
+      .input(z.object({ userId: z.string().uuid() }))
+      .mutation(async ({ ctx, input }) => {
+        if (input.userId === ctx.user.id) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "You cannot lift a freeze on your own account" });
+        }
+
+        const success = await unfreezeAccount(input.userId, ctx.user.id);
+
+        const { clientIp, userAgent } = getRequestClientInfo(ctx.req);
+        await logAuditEvent({
+          userId: ctx.user.id,
+          userEmail: ctx.user.email || undefined,
+          action: AuditActions.ACCOUNT_UNFROZEN,
+          resourceType: ResourceTypes.USER,
+          resourceId: input.userId,
+          ipAddress: clientIp,
+          userAgent,
+          success,
+        });
+
+        if (!success) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "This account is not frozen" });
+        }
+        return { success };
+      }),
+  }),
+
+  // Admin session management across all users (super admin)
+  sessions: router({
+    listAll: permissionProcedure(Permissions.SECURITY_READ)
+      .input(z.object({ userId: z.string().uuid().optional() }).optional())
+      .query(async ({ ctx, input }) => {
+        const sessions = await getAllActiveSessions(input?.userId);
+
+        // Resolve user emails and geo locations once per unique user / IP
+        const userIds = Array.from(new Set(sessions.map(s => s.userId)));
+        const ips = Array.from(new Set(sessions.map(s => s.ipAddress).filter((ip): ip is string => !!ip)));
+
+        const users = await Promise.all(userIds.map(id => getAuthUserById(id)));
+        const emailByUser = new Map(userIds.map((id, i) => [id, users[i]?.email || null]));
+
+        const geos = await Promise.all(ips.map(ip => getGeoLocation(ip)));
+        const geoByIp = new Map(ips.map((ip, i) => [ip, geos[i]]));
+
+        const currentToken = ctx.req.cookies?.[AUTH_COOKIE_NAME];
+
+        return sessions.map(s => {
+          const geo = s.ipAddress ? geoByIp.get(s.ipAddress) : null;
+          return {
+            id: s.id,
+            userId: s.userId,
+            userEmail: emailByUser.get(s.userId) || null,
+            deviceFingerprint: s.deviceFingerprint || null,
+            ipAddress: s.ipAddress || null,
+            userAgent: s.userAgent || null,
+            location: geo?.isValid ? formatLocation(geo) : null,
+            countryCode: geo?.isValid ? geo.countryCode : null,
+            createdAt: s.createdAt.toISOString(),
+            lastActivityAt: s.lastActivityAt.toISOString(),
+            expiresAt: s.expiresAt.toISOString(),
+            isCurrent: s.sessionToken === currentToken,
+          };
+        });
+      }),
+
+    // Force-revoke a single session
+    revoke: permissionProcedure(Permissions.SECURITY_MANAGE)
+      .input(
+        z.object({
+          sessionId: z.string().uuid(),
+          reason: z.string().trim().min(3, "A reason is required").max(500),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const session = await getSessionById(input.sessionId);
+        if (!session) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Session not found" });
+        }
+
+        const success = await revokeSession(session.id, 'admin_revoked');
+        const tokensRevoked = success ? await revokeSessionTokens(session.id, 'admin_revoked') : 0;
+
+        const { clientIp, userAgent } = getRequestClientInfo(ctx.req);
+        await logAuditEvent({
+          userId: ctx.user.id,
+          userEmail: ctx.user.email || undefined,
+          action: AuditActions.SESSION_REVOKED,
+          resourceType: ResourceTypes.SESSION,
+          resourceId: session.id,
+          details: {
+            reason: input.reason,
+            targetUserId: session.userId,
+            sessionIp: session.ipAddress,
+            deviceFingerprint: session.deviceFingerprint,
+            tokensRevoked,
+          },
+          ipAddress: clientIp,
+          userAgent,
+          success,
+        });
+
+        return { success };
+      }),
+
+    // Force-revoke every session (and refresh token) for a user
+    revokeAllForUser: permissionProcedure(Permissions.SECURITY_MANAGE)
+      .input(
+        z.object({
+          userId: z.string().uuid(),
+          reason: z.string().trim().min(3, "A reason is required").max(500),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const sessionsRevoked = await revokeAllUserSessions(input.userId, 'admin_revoked_all');
+        const tokensRevoked = await revokeAllUserTokens(input.userId, 'admin_revoked_all');
+
+        const { clientIp, userAgent } = getRequestClientInfo(ctx.req);
+        await logAuditEvent({
+          userId: ctx.user.id,
+          userEmail: ctx.user.email || undefined,
+          action: AuditActions.SESSION_REVOKED,
+          resourceType: ResourceTypes.USER,
+          resourceId: input.userId,
+          details: {
+            reason: input.reason,
+            targetUserId: input.userId,
+            scope: 'all',
+            sessionsRevoked,
+            tokensRevoked,
+          },
+          ipAddress: clientIp,
+          userAgent,
+        });
+
+        return { success: true, sessionsRevoked, tokensRevoked };
+      }),
+  }),
+
+  // Read-only "view as user" for support staff
+  impersonation: router({
+    start: permissionProcedure(Permissions.USERS_IMPERSONATE)
+      .input(
+        z.object({
+          userId: z.string().uuid(),
+          reason: z.string().trim().min(3).max(500),
+          durationMinutes: z.number().int().min(5).max(IMPERSONATION_MAX_MINUTES).default(IMPERSONATION_DEFAULT_MINUTES),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        if (input.userId === ctx.user.id) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "You cannot impersonate yourself" });
+        }
+
+        // Portal admins are never impersonated; their access is managed through roles
+        const targetAccess = await getUserAccess(input.userId);
+        if (targetAccess.roles.length > 0) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Admin accounts cannot be impersonated" });
+        }
+
+        const target = await getAuthUserById(input.userId);
+        if (!target) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "User not found" });
+        }
+
+        const { clientIp, userAgent } = getRequestClientInfo(ctx.req);
+        const session = await startImpersonation({
+          adminId: ctx.user.id,
+          adminEmail: ctx.user.email,
+          targetUserId: target.id,
+          targetEmail: target.email,
+          reason: input.reason,
+          durationMinutes: input.durationMinutes,
+          ipAddress: clientIp,
+          userAgent,
+        });
+        if (!session) {
+          throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Failed to start impersonation" });
+        }
+
+        await logAuditEvent({
+          userId: ctx.user.id,
+          userEmail: ctx.user.email || undefined,
+          action: AuditActions.IMPERSONATION_STARTED,
+          resourceType: ResourceTypes.USER,
+          resourceId: target.id,
+          details: {
+            impersonationId: session.id,
+            impersonatedUserId: target.id,
+            impersonatedEmail: target.email,
+            reason: input.reason,
+            expiresAt: session.expiresAt.toISOString(),
+          },
+          ipAddress: clientIp,
+          userAgent,
+        });
+
+        ctx.res.cookie(IMPERSONATION_COOKIE_NAME, session.id, {
+          httpOnly: true,
+          secure: process.env.NODE_ENV === "production",
+          sameSite: "strict",
+          maxAge: session.expiresAt.getTime() - Date.now(),
+          path: "/",
+        });
+
+        return {
+          success: true,
+          email: target.email || null,
+          expiresAt: session.expiresAt.toISOString(),
+        };
+      }),
+
+    // Allowed while impersonating (see IMPERSONATION_ALLOWED_MUTATIONS)
+    stop: protectedProcedure.mutation(async ({ ctx }) => {
+      ctx.res.clearCookie(IMPERSONATION_COOKIE_NAME, { path: "/" });
+      if (!ctx.impersonation || !ctx.impersonator) {
+        return { success: true };
+      }
+
+      await endImpersonation(ctx.impersonation.id, 'stopped');
+
+      const { clientIp, userAgent } = getRequestClientInfo(ctx.req);
+      await logAuditEvent({
+        userId: ctx.impersonator.id,
+        userEmail: ctx.impersonator.email,
+        action: AuditActions.IMPERSONATION_ENDED,
+        resourceType: ResourceTypes.USER,
+        resourceId: ctx.impersonation.targetUserId,
+        details: {
+          impersonationId: ctx.impersonation.id,
+          impersonatedUserId: ctx.impersonation.targetUserId,
+          impersonatedEmail: ctx.impersonation.targetEmail,
+        },
+        ipAddress: clientIp,
+        userAgent,
+      });
+
+      return { success: true };
+    }),
+  }),
+
+  // ============ ADMIN INVITATIONS ============
+  invitations: router({
+    list: permissionProcedure(Permissions.ROLES_MANAGE).query(async () => {
+      return listInvitations();
+    }),
+
+    // Invite an email with a preassigned role; the link token is returned once.
+    // super_admin can't be invited: granting it needs a second approval (users.addRole)
+    create: permissionProcedure(Permissions.ROLES_MANAGE)
+      .input(
+        z.object({
+          email: z.string().trim().email().max(255),
+          role: z.enum(PORTAL_ROLES.filter(r => r !== Roles.SUPER_ADMIN) as [Role, ...Role[]]),
+          expiresInDays: z.number().int().min(1).max(MAX_INVITE_EXPIRY_DAYS).default(DEFAULT_INVITE_EXPIRY_DAYS),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const result = await createInvitation({
+          email: input.email,
+          role: input.role,
+          expiresInDays: input.expiresInDays,
+          invitedBy: ctx.user.id,
+          invitedByEmail: ctx.user.email || undefined,
+        });
+        if ('error' in result) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: result.error });
+        }
+
+        const { invitation, token } = result;
+        const emailSent = await sendInvitationEmail(invitation, token);
+
+        const { clientIp, userAgent } = getRequestClientInfo(ctx.req);
+        await logAuditEvent({
+          userId: ctx.user.id,
+          userEmail: ctx.user.email || undefined,
+          action: AuditActions.INVITATION_CREATED,
+          resourceType: ResourceTypes.INVITATION,
+          resourceId: invitation.id,
+          details: {
+            email: invitation.email,
+            role: invitation.role,
+            expiresAt: invitation.expiresAt.toISOString(),
+            emailSent,
+          },
+          ipAddress: clientIp,
+          userAgent,
+        });
+
+        return { id: invitation.id, token, emailSent, expiresAt: invitation.expiresAt };
+      }),
+
+    revoke: permissionProcedure(Permissions.ROLES_MANAGE)
+      .input(z.object({ id: z.string().uuid() }))
+      .mutation(async ({ ctx, input }) => {
+        const invitation = await revokeInvitation(input.id, ctx.user.id);
+        if (!invitation) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Only pending invitations can be revoked",
+          });
+        }
+
+        const { clientIp, userAgent } = getRequestClientInfo(ctx.req);
+        await logAuditEvent({
+          userId: ctx.user.id,
+          userEmail: ctx.user.email || undefined,
+          action: AuditActions.INVITATION_REVOKED,
+          resourceType: ResourceTypes.INVITATION,
+          resourceId: invitation.id,
+          details: { email: invitation.email, role: invitation.role },
+          ipAddress: clientIp,
+          userAgent,
+        });
+
+        return { success: true };
+      }),
+  }),
+
+  // ============ JUST-IN-TIME ROLE ELEVATION ============
+  roleElevation: router({
+    // Any admin may request a role for themselves
+    request: adminProcedure
+      .input(
+        z.object({
+          role: z.enum(PORTAL_ROLES as [Role, ...Role[]]),
+          reason: z.string().trim().min(10).max(500),
+          durationHours: z.number().int().min(1).max(ROLE_ELEVATION_MAX_HOURS),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        if (ctx.roles.includes(input.role)) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "You already hold this role" });
+        }
+        if (await hasPendingRoleElevation(ctx.user.id, input.role)) {
+          throw new TRPCError({ code: "CONFLICT", message: "You already have a pending request for this role" });
+        }
+
+        const request = await createRoleElevationRequest({
+          userId: ctx.user.id,
+          userEmail: ctx.user.email,
+          role: input.role,
+          reason: input.reason,
+          durationMinutes: input.durationHours * 60,
+        });
+        if (!request) {
+          throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Failed to create request" });
+        }
+
+        const { clientIp, userAgent } = getRequestClientInfo(ctx.req);
+        await logAuditEvent({
+          userId: ctx.user.id,
+          userEmail: ctx.user.email || undefined,
+          action: AuditActions.ROLE_ELEVATION_REQUESTED,
+          resourceType: ResourceTypes.ROLE_ELEVATION,
+          resourceId: request.id,
+          details: {
+            role: request.role,
+            reason: request.reason,
+            durationMinutes: request.durationMinutes,
+          },
+          ipAddress: clientIp,
+          userAgent,
+        });
+
+        return request;
+      }),
+
+    mine: adminProcedure.query(async ({ ctx }) => {
+      return listRoleElevationRequests({ userId: ctx.user.id }, 50);
+    }),
+
+    cancel: adminProcedure
+      .input(z.object({ id: z.string().uuid() }))
+      .mutation(async ({ ctx, input }) => {
+        const cancelled = await cancelRoleElevation(input.id, ctx.user.id);
+        if (!cancelled) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "No pending request found" });
+        }
+
+        const { clientIp, userAgent } = getRequestClientInfo(ctx.req);
+        await logAuditEvent({
+          userId: ctx.user.id,
+          userEmail: ctx.user.email || undefined,
+          action: AuditActions.ROLE_ELEVATION_CANCELLED,
+          resourceType: ResourceTypes.ROLE_ELEVATION,
+          resourceId: input.id,
+          ipAddress: clientIp,
+          userAgent,
+        });
+
+        return { success: true };
+      }),
+
+    list: permissionProcedure(Permissions.ROLES_MANAGE)
+      .input(
+        z.object({
+          status: z.enum([
+            RoleElevationStatus.PENDING,
+            RoleElevationStatus.APPROVED,
+            RoleElevationStatus.DENIED,
+            RoleElevationStatus.CANCELLED,
+            RoleElevationStatus.EXPIRED,
+          ]).optional(),
+        }).optional()
+      )
+      .query(async ({ input }) => {
+        return listRoleElevationRequests({ status: input?.status });
+      }),
+
+    // Reviews are limited to super admins other than the requester
+    review: permissionProcedure(Permissions.ROLES_MANAGE)
+      .input(
+        z.object({
+          id: z.string().uuid(),
+          decision: z.enum(["approve", "deny"]),
+          note: z.string().trim().max(500).optional(),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        if (!ctx.roles.includes(Roles.SUPER_ADMIN)) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Only super admins can review role requests" });
+        }
+
+        const existing = await getRoleElevationRequest(input.id);
+        if (!existing || existing.status !== RoleElevationStatus.PENDING) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "No pending request found" });
+        }
+        if (existing.userId === ctx.user.id) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "You cannot review your own request" });
+        }
+
+        const reviewer = { id: ctx.user.id, email: ctx.user.email };
+        const reviewed = input.decision === "approve"
+          ? await approveRoleElevation(input.id, reviewer, input.note)
+          : await denyRoleElevation(input.id, reviewer, input.note);
+        if (!reviewed) {
+          throw new TRPCError({ code: "CONFLICT", message: "The request was already reviewed or could not be updated" });
+        }
+
+        const { clientIp, userAgent } = getRequestClientInfo(ctx.req);
+        if (input.decision === "approve") {
+          await logAuditEvent({
+            userId: ctx.user.id,
+            userEmail: ctx.user.email || undefined,
+            action: AuditActions.ROLE_GRANTED,
+            resourceType: ResourceTypes.ROLE,
+            resourceId: reviewed.userRoleId || undefined,
+            details: {
+              targetUserId: reviewed.userId,
+              targetEmail: reviewed.userEmail,
+              role: reviewed.role,
+              reason: reviewed.reason,
+              note: input.note,
+              expiresAt: reviewed.grantExpiresAt?.toISOString(),
+              elevationRequestId: reviewed.id,
+            },
+            ipAddress: clientIp,
+            userAgent,
+          });
+        } else {
+          await logAuditEvent({
+            userId: ctx.user.id,
+            userEmail: ctx.user.email || undefined,
+            action: AuditActions.ROLE_ELEVATION_DENIED,
+            resourceType: ResourceTypes.ROLE_ELEVATION,
+            resourceId: reviewed.id,
+            details: {
+              targetUserId: reviewed.userId,
+              targetEmail: reviewed.userEmail,
+              role: reviewed.role,
+              note: input.note,
+            },
+            ipAddress: clientIp,
+            userAgent,
+          });
+        }
+
+        return reviewed;
+      }),
+  }),
+
+  // ============ FOUR-EYES APPROVAL ============
+  pendingOperations: router({
+    // Operations the caller could approve, plus their own requests
+    list: adminProcedure
+      .input(
+        z.object({
+          status: z.enum([
+            PendingOperationStatus.PENDING,
+            PendingOperationStatus.EXECUTED,
+            PendingOperationStatus.FAILED,
+            PendingOperationStatus.REJECTED,
+            PendingOperationStatus.CANCELLED,
+            PendingOperationStatus.EXPIRED,
+          ]).optional(),
+        }).optional()
+      )
+      .query(async ({ ctx, input }) => {
+        const operations = await listPendingOperations({ status: input?.status });
+        const mayApprove = (operation: FourEyesOperation) =>
+          hasPermission(ctx.permissions, fourEyesRequirements[operation].permission);
+
+        // The stored input can be large (imports) and is not needed to review
+        return operations
+          .filter(operation => operation.requestedBy === ctx.user.id || mayApprove(operation.operation))
+          .map(({ input: _input, ...operation }) => ({
+            ...operation,
+            isMine: operation.requestedBy === ctx.user.id,
+            canReview: operation.requestedBy !== ctx.user.id
+              && operation.status === PendingOperationStatus.PENDING
+              && mayApprove(operation.operation),
+          }));
+      }),
+
+    cancel: adminProcedure
+      .input(z.object({ id: z.string().uuid() }))
+      .mutation(async ({ ctx, input }) => {
+        const cancelled = await cancelPendingOperation(input.id, ctx.user.id);
+        if (!cancelled) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "No pending operation found" });
+        }
+
+        const { clientIp, userAgent } = getRequestClientInfo(ctx.req);
+        await logAuditEvent({
+          userId: ctx.user.id,
+          userEmail: ctx.user.email || undefined,
+          action: AuditActions.OPERATION_CANCELLED,
+          resourceType: ResourceTypes.PENDING_OPERATION,
+          resourceId: input.id,
+          ipAddress: clientIp,
+          userAgent,
+        });
+
+        return { success: true };
+      }),
+
+    // A second admin holding the operation's permission approves (which runs
+    // it) or rejects; requesters cannot review their own operations
+    review: adminProcedure
+      .input(
+        z.object({
+          id: z.string().uuid(),
+          decision: z.enum(["approve", "reject"]),
+          note: z.string().trim().max(500).optional(),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const existing = await getPendingOperation(input.id);
+        if (!existing || existing.status !== PendingOperationStatus.PENDING) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "No pending operation found" });
+        }
+        const requirement = fourEyesRequirements[existing.operation];
+        if (!requirement || !hasPermission(ctx.permissions, requirement.permission)) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "You do not have permission to review this operation" });
+        }
+        if (existing.requestedBy === ctx.user.id) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "You cannot review your own operation" });
+        }
+
+        const reviewer = { id: ctx.user.id, email: ctx.user.email };
+        const reviewed = input.decision === "approve"
+          ? await approvePendingOperation(input.id, reviewer, input.note)
+          : await rejectPendingOperation(input.id, reviewer, input.note);
+        if (!reviewed) {
+          throw new TRPCError({ code: "CONFLICT", message: "The operation was already reviewed, has expired or could not be updated" });
+        }
+
+        const { clientIp, userAgent } = getRequestClientInfo(ctx.req);
+        const auditDetails = {
+          operation: reviewed.operation,
+          summary: reviewed.summary,
+          requestedBy: reviewed.requestedBy,
+          requestedByEmail: reviewed.requestedByEmail,
+          note: input.note,
+        };
+        await logAuditEvent({
+          userId: ctx.user.id,
+          userEmail: ctx.user.email || undefined,
+          action: input.decision === "approve" ? AuditActions.OPERATION_APPROVED : AuditActions.OPERATION_REJECTED,
+          resourceType: ResourceTypes.PENDING_OPERATION,
+          resourceId: reviewed.id,
+          details: auditDetails,
+          ipAddress: clientIp,
+          userAgent,
+        });
+
+        if (input.decision === "reject") {
+          return { status: PendingOperationStatus.REJECTED, error: null };
+        }
 
-      // Check if user has super_admin role in database (RBAC)
-      const isSuperAdmin = await isUserSuperAdmin(user.id);
-      if (!isSuperAdmin) {
-        return null; // Non-admin users get null (treated as not logged in)
-      }
+        const error = await executeApprovedOperation(ctx, reviewed);
+        await recordOperationOutcome(reviewed.id, error);
+        await logAuditEvent({
+          userId: ctx.user.id,
+          userEmail: ctx.user.email || undefined,
+          action: AuditActions.OPERATION_EXECUTED,
+          resourceType: ResourceTypes.PENDING_OPERATION,
+          resourceId: reviewed.id,
+          details: auditDetails,
+          ipAddress: clientIp,
+          userAgent,
+          success: !error,
+          errorMessage: error,
+        });
 
-      return {
-        id: user.id,
-        openId: user.id,
-        email: user.email,
-        name: user.user_metadata?.full_name || user.email?.split("@")[0] || "Admin",
-        role: "super_admin",
-        isSuperAdmin: true,
-      };
+        return {
+          status: error ? PendingOperationStatus.FAILED : PendingOperationStatus.EXECUTED,
+          error: error || null,
+        };
+      }),
+  }),
+
+  // ============ SERVICE ACCOUNTS & API KEYS ============
+  apiKeys: router({
+    // Router namespaces a key may be scoped to
+    namespaces: permissionProcedure(Permissions.SECURITY_MANAGE).query((): string[] => {
+      return Object.keys(appRouter._def.record)
+        .filter(name => !API_KEY_BLOCKED_NAMESPACES.has(name))
+        .sort();
     }),
 
-    login: publicProcedure
+    serviceAccounts: permissionProcedure(Permissions.SECURITY_MANAGE).query(async () => {
+      return listServiceAccounts();
+    }),
+
+    createServiceAccount: permissionProcedure(Permissions.SECURITY_MANAGE)
       .input(
         z.object({
-          email: z.string().email(),
-          password: z.string().min(6),
+          name: z.string().trim().regex(/^[a-z0-9][a-z0-9-]{2,48}$/, "Use 3-49 lowercase letters, digits or dashes"),
+          description: z.string().trim().max(500).optional(),
+          // Service accounts never hold super_admin
+          role: z.enum(PORTAL_ROLES.filter(r => r !== Roles.SUPER_ADMIN) as [Role, ...Role[]]),
         })
       )
       .mutation(async ({ ctx, input }) => {
-        // NOTE: We no longer check email before login.
-        // This prevents email enumeration attacks.
-        // Role check happens AFTER successful auth.
+        const account = await createServiceAccount({
+          name: input.name,
+          description: input.description,
+          role: input.role,
+          createdBy: ctx.user.id,
+        });
+        if (!account) {
+          throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Failed to create service account. The name may already be in use." });
+        }
 
-        const { user, session, error } = await signInWithEmail(
-          input.email,
-          input.password
-        );
+        const { clientIp, userAgent } = getRequestClientInfo(ctx.req);
+        await logAuditEvent({
+          userId: ctx.user.id,
+          userEmail: ctx.user.email || undefined,
+          action: AuditActions.SERVICE_ACCOUNT_CREATED,
+          resourceType: ResourceTypes.SERVICE_ACCOUNT,
+          resourceId: account.id,
+          details: { name: account.name, role: account.role, userId: account.userId },
+          ipAddress: clientIp,
+          userAgent,
+        });
 
-        const clientIp = ctx.req.ip || ctx.req.headers['x-forwarded-for']?.toString();
-        const userAgent = ctx.req.headers['user-agent'];
+        return account;
+      }),
 
-        if (error || !user || !session) {
-          // Log failed login attempt
-          await logFailedLogin(
-            input.email,
-            error || "Invalid credentials",
-            clientIp,
-            userAgent
-          );
-          // Track for anomaly detection (brute force detection)
-          await trackFailedLogin(input.email, clientIp, userAgent);
-          throw new TRPCError({
-            code: "UNAUTHORIZED",
-            message: error || "Invalid credentials",
-          });
+    setServiceAccountDisabled: permissionProcedure(Permissions.SECURITY_MANAGE)
+      .input(z.object({ id: z.string().uuid(), disabled: z.boolean() }))
+      .mutation(async ({ ctx, input }) => {
+        const updated = await setServiceAccountDisabled(input.id, input.disabled);
+        if (!updated) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Service account not found" });
         }
 
-        // Check if user has super_admin role in database (RBAC)
-        const isSuperAdmin = await isUserSuperAdmin(user.id);
-        if (!isSuperAdmin) {
-          // Log failed login (non-admin trying to access admin portal)
-          await logFailedLogin(
-            input.email,
-            "User is not a super_admin",
-            clientIp,
-            userAgent
-          );
-          // Track for anomaly detection
-          await trackFailedLogin(input.email, clientIp, userAgent);
-          // Don't reveal that the user exists but isn't an admin
-          // Use the same error message as invalid credentials
-          throw new TRPCError({
-            code: "UNAUTHORIZED",
-            message: "Invalid credentials",
-          });
-        }
+        const { clientIp, userAgent } = getRequestClientInfo(ctx.req);
+        await logAuditEvent({
+          userId: ctx.user.id,
+          userEmail: ctx.user.email || undefined,
+          action: input.disabled ? AuditActions.SERVICE_ACCOUNT_DISABLED : AuditActions.SERVICE_ACCOUNT_ENABLED,
+          resourceType: ResourceTypes.SERVICE_ACCOUNT,
+          resourceId: input.id,
+          ipAddress: clientIp,
+          userAgent,
+        });
 
-        // Log successful login
-        await logLogin(
-          user.id,
-          user.email || input.email,
-          clientIp,
-          userAgent
-        );
+        return { success: true };
+      }),
 
-        // Generate device fingerprint for anomaly detection
-        const deviceFingerprint = generateDeviceFingerprint(userAgent, clientIp);
+    list: permissionProcedure(Permissions.SECURITY_MANAGE)
+      .input(z.object({ serviceAccountId: z.string().uuid().optional() }).optional())
+      .query(async ({ input }) => {
+        return listApiKeys(input?.serviceAccountId);
+      }),
 
-        // Run anomaly detection checks
-        const anomalyResult = await runLoginAnomalyChecks(
-          user.id,
-          user.email || input.email,
-          deviceFingerprint,
-          clientIp,
-          userAgent
+    create: permissionProcedure(Permissions.SECURITY_MANAGE)
+      .input(
+        z.object({
+          serviceAccountId: z.string().uuid(),
+          name: z.string().trim().min(3).max(100),
+          scopes: z
+            .array(
+              z.object({
+                namespace: z.string().regex(/^(\*|[a-zA-Z]+)$/),
+                access: z.enum([ApiKeyAccess.READ, ApiKeyAccess.WRITE]),
+              })
+            )
+            .min(1)
+            .max(50),
+          expiresInDays: z.number().int().min(1).max(API_KEY_MAX_DAYS),
+          rateLimitPerMinute: z.number().int().min(1).max(1000).default(API_KEY_DEFAULT_RATE_LIMIT),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const namespaces = new Set(Object.keys(appRouter._def.record));
+        const invalid = input.scopes.filter(
+          s => s.namespace !== "*" && (!namespaces.has(s.namespace) || API_KEY_BLOCKED_NAMESPACES.has(s.namespace))
         );
-
-        if (anomalyResult.anomaliesDetected.length > 0) {
-          console.log(`[Auth] Anomalies detected for ${user.email}:`, anomalyResult.anomaliesDetected);
+        if (invalid.length > 0) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `Keys cannot be scoped to: ${invalid.map(s => s.namespace).join(", ")}`,
+          });
         }
 
-        // Create tracked session (enforces concurrent session limits)
-        const sessionResult = await createSession(
-          user.id,
-          session.access_token,
-          clientIp,
-          userAgent
-        );
-
-        if (sessionResult.revokedSessionId) {
-          console.log(`[Auth] Revoked old session ${sessionResult.revokedSessionId} due to session limit`);
+        const account = await getServiceAccount(input.serviceAccountId);
+        if (!account || account.disabledAt) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Active service account not found" });
         }
 
-        // Create refresh token for token rotation
-        const refreshTokenResult = await createRefreshToken(
-          user.id,
-          sessionResult.session?.id,
-          clientIp,
-          userAgent
-        );
-
-        // Set auth cookie with enhanced security settings
-        ctx.res.cookie(AUTH_COOKIE_NAME, session.access_token, {
-          httpOnly: true,  // Prevent XSS access to cookie
-          secure: process.env.NODE_ENV === "production",  // HTTPS only in production
-          sameSite: "strict",  // Strict CSRF protection (changed from lax)
-          maxAge: 60 * 60 * 24 * 1 * 1000, // 1 day (reduced from 7 days for security)
-          path: "/",
+        const created = await createApiKey({
+          serviceAccountId: account.id,
+          name: input.name,
+          scopes: input.scopes,
+          expiresAt: new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000),
+          rateLimitPerMinute: input.rateLimitPerMinute,
+          createdBy: ctx.user.id,
         });
-
-        // Set refresh token cookie (longer lived, but also httpOnly)
-        if (refreshTokenResult) {
-          ctx.res.cookie('tavvy_refresh_token', refreshTokenResult.token, {
-            httpOnly: true,
-            secure: process.env.NODE_ENV === "production",
-            sameSite: "strict",
-            maxAge: 60 * 60 * 24 * 7 * 1000, // 7 days
-            path: "/",
-          });
+        if (!created) {
+          throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Failed to create API key" });
         }
 
-        return {
-          success: true,
-          user: {
-            id: user.id,
-            email: user.email,
-            name: user.user_metadata?.full_name || "Admin",
-            isSuperAdmin: true,
+        const { clientIp, userAgent } = getRequestClientInfo(ctx.req);
+        await logAuditEvent({
+          userId: ctx.user.id,
+          userEmail: ctx.user.email || undefined,
+          action: AuditActions.API_KEY_CREATED,
+          resourceType: ResourceTypes.API_KEY,
+          resourceId: created.apiKey.id,
+          details: {
+            name: created.apiKey.name,
+            keyPrefix: created.apiKey.keyPrefix,
+            serviceAccount: account.name,
+            scopes: input.scopes,
+            expiresAt: created.apiKey.expiresAt,
+            rateLimitPerMinute: created.apiKey.rateLimitPerMinute,
           },
-        };
-      }),
-
-    // Refresh access token using refresh token rotation
-    refresh: publicProcedure.mutation(async ({ ctx }) => {
-      const refreshToken = ctx.req.cookies?.['tavvy_refresh_token'];
-      
-      if (!refreshToken) {
-        throw new TRPCError({
-          code: "UNAUTHORIZED",
-          message: "No refresh token provided",
+          ipAddress: clientIp,
+          userAgent,
         });
-      }
-
-      const clientIp = ctx.req.ip || ctx.req.headers['x-forwarded-for']?.toString();
-      const userAgent = ctx.req.headers['user-agent'];
-
-      const result = await rotateRefreshToken(refreshToken, clientIp, userAgent);
 
-      if (!result.success) {
-        // Clear cookies on failure
-        ctx.res.clearCookie(AUTH_COOKIE_NAME, { path: "/" });
-        ctx.res.clearCookie('tavvy_refresh_token', { path: "/" });
-        
-        throw new TRPCError({
-          code: result.securityAlert ? "FORBIDDEN" : "UNAUTHORIZED",
-          message: result.error || "Token refresh failed",
-        });
-      }
+        // The plaintext key is never retrievable again
+        return created;
+      }),
 
-      // Set new tokens
-      if (result.tokenPair) {
-        ctx.res.cookie(AUTH_COOKIE_NAME, result.tokenPair.accessToken, {
-          httpOnly: true,
-          secure: process.env.NODE_ENV === "production",
-          sameSite: "strict",
-          maxAge: 60 * 60 * 1000, // 1 hour
-          path: "/",
-        });
+    revoke: permissionProcedure(Permissions.SECURITY_MANAGE)
+      .input(z.object({ id: z.string().uuid() }))
+      .mutation(async ({ ctx, input }) => {
+        const revoked = await revokeApiKey(input.id, ctx.user.id);
+        if (!revoked) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Active API key not found" });
+        }
 
-        ctx.res.cookie('tavvy_refresh_token', result.tokenPair.refreshToken, {
-          httpOnly: true,
-          secure: process.env.NODE_ENV === "production",
-          sameSite: "strict",
-          maxAge: 60 * 60 * 24 * 7 * 1000, // 7 days
-          path: "/",
+        const { clientIp, userAgent } = getRequestClientInfo(ctx.req);
+        await logAuditEvent({
+          userId: ctx.user.id,
+          userEmail: ctx.user.email || undefined,
+          action: AuditActions.API_KEY_REVOKED,
+          resourceType: ResourceTypes.API_KEY,
+          resourceId: revoked.id,
+          details: { name: revoked.name, keyPrefix: revoked.keyPrefix, serviceAccount: revoked.serviceAccountName },
+          ipAddress: clientIp,
+          userAgent,
         });
-      }
-
-      return { success: true };
-    }),
 
-    logout: publicProcedure.mutation(async ({ ctx }) => {
-      // Revoke the session in the database
-      const token = ctx.req.cookies?.[AUTH_COOKIE_NAME];
-      if (token) {
-        await revokeSessionByToken(token, 'user_logout');
-      }
-      // Clear both auth and refresh token cookies
-      ctx.res.clearCookie(AUTH_COOKIE_NAME, { path: "/" });
-      ctx.res.clearCookie('tavvy_refresh_token', { path: "/" });
-      return { success: true };
-    }),
+        return { success: true };
+      }),
 
-    // Get all active sessions for the current user
-    getSessions: protectedProcedure.query(async ({ ctx }) => {
-      if (!ctx.user?.id) return [];
-      const sessions = await getUserSessions(ctx.user.id);
-      return sessions.map(s => ({
-        id: s.id,
-        ipAddress: s.ipAddress,
-        userAgent: s.userAgent,
-        createdAt: s.createdAt.toISOString(),
-        lastActivityAt: s.lastActivityAt.toISOString(),
-        isCurrent: s.sessionToken === ctx.req.cookies?.[AUTH_COOKIE_NAME],
-      }));
-    }),
+    usage: permissionProcedure(Permissions.SECURITY_MANAGE)
+      .input(z.object({ id: z.string().uuid(), days: z.number().int().min(1).max(90).default(30) }))
+      .query(async ({ input }) => {
+        return getApiKeyUsage(input.id, input.days);
+      }),
+  }),
 
-    // Logout from all devices
-    logoutAll: protectedProcedure.mutation(async ({ ctx }) => {
-      if (!ctx.user?.id) return { success: false, count: 0 };
-      // Revoke all sessions and refresh tokens
-      const sessionCount = await revokeAllUserSessions(ctx.user.id, 'user_logout_all');
-      const tokenCount = await revokeAllUserTokens(ctx.user.id, 'user_logout_all');
-      // Clear cookies
-      ctx.res.clearCookie(AUTH_COOKIE_NAME, { path: "/" });
-      ctx.res.clearCookie('tavvy_refresh_token', { path: "/" });
-      return { success: true, sessionsRevoked: sessionCount, tokensRevoked: tokenCount };
+  // ============ CSP VIOLATION REPORTS ============
+  cspReports: router({
+    settings: permissionProcedure(Permissions.SECURITY_READ).query(() => {
+      return getCspSettings();
     }),
 
-    // Get security anomalies (super admin only)
-    getAnomalies: protectedProcedure
-      .input(z.object({ limit: z.number().min(1).max(100).default(50) }).optional())
+    list: permissionProcedure(Permissions.SECURITY_READ)
+      .input(
+        z.object({
+          directive: z.string().max(100).optional(),
+          disposition: z.enum(Object.values(CspDispositions) as [CspDisposition, ...CspDisposition[]]).optional(),
+          search: z.string().trim().max(200).optional(),
+          limit: z.number().int().min(1).max(500).default(100),
+          offset: z.number().int().min(0).default(0),
+        })
+      )
       .query(async ({ input }) => {
-        const anomalies = await getUnacknowledgedAnomalies(input?.limit || 50);
-        return anomalies;
+        return listCspReports(
+          { directive: input.directive, disposition: input.disposition, search: input.search },
+          input.limit,
+          input.offset
+        );
       }),
 
-    // Acknowledge a security anomaly
-    acknowledgeAnomaly: protectedProcedure
-      .input(z.object({ anomalyId: z.string().uuid() }))
-      .mutation(async ({ ctx, input }) => {
-        if (!ctx.user?.id) return { success: false };
-        const success = await acknowledgeAnomaly(input.anomalyId, ctx.user.id);
-        return { success };
+    delete: permissionProcedure(Permissions.SECURITY_MANAGE)
+      .input(z.object({ id: z.string().uuid() }))
+      .mutation(async ({ input }) => {
+        const deleted = await deleteCspReport(input.id);
+        if (!deleted) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Report not found" });
+        }
+        return { success: true };
       }),
   }),
 
   // Debug router - for testing connections
   debug: router({
-    testDbConnection: protectedProcedure.query(async () => {
+    testDbConnection: permissionProcedure(Permissions.SYSTEM_MANAGE).query(async () => {
       console.log("[Debug] Testing database connection...");
       const result = await testConnection();
       console.log("[Debug] Connection test result:", result);
@@ -581,7 +2586,7 @@ export const appRouter = router({
 
   // Places router - search and manage places from Supabase
   places: router({
-    search: protectedProcedure
+    search: permissionProcedure(Permissions.PLACES_READ)
       .input(
         z.object({
           query: z.string().min(1),
@@ -620,24 +2625,24 @@ export const appRouter = router({
         return searchPlaces(input.query, input.limit, input.offset);
       }),
 
-    getById: protectedProcedure
+    getById: permissionProcedure(Permissions.PLACES_READ)
       .input(z.object({ id: z.string() }))
       .query(async ({ input }) => {
         return getPlaceById(input.id);
       }),
 
-    getCount: protectedProcedure.query(async () => {
+    getCount: permissionProcedure(Permissions.PLACES_READ).query(async () => {
       return getPlacesCount();
     }),
 
-    getSignals: protectedProcedure
+    getSignals: permissionProcedure(Permissions.PLACES_READ)
       .input(z.object({ placeId: z.string() }))
       .query(async ({ input }) => {
         return getPlaceSignalAggregates(input.placeId);
       }),
 
     // Advanced search with filters
-    advancedSearch: protectedProcedure
+    advancedSearch: permissionProcedure(Permissions.PLACES_READ)
       .input(
         z.object({
           filters: z.object({
@@ -657,31 +2662,31 @@ export const appRouter = router({
       }),
 
     // Get distinct countries for dropdown
-    getCountries: protectedProcedure.query(async () => {
+    getCountries: permissionProcedure(Permissions.PLACES_READ).query(async () => {
       return getDistinctCountries();
     }),
 
     // Get distinct regions/states for dropdown
-    getRegions: protectedProcedure
+    getRegions: permissionProcedure(Permissions.PLACES_READ)
       .input(z.object({ country: z.string().optional() }))
       .query(async ({ input }) => {
         return getDistinctRegions(input.country);
       }),
 
     // Get distinct cities for dropdown
-    getCities: protectedProcedure
+    getCities: permissionProcedure(Permissions.PLACES_READ)
       .input(z.object({ country: z.string().optional(), region: z.string().optional() }))
       .query(async ({ input }) => {
         return getDistinctCities(input.country, input.region);
       }),
 
     // Get distinct categories for dropdown
-    getCategories: protectedProcedure.query(async () => {
+    getCategories: permissionProcedure(Permissions.PLACES_READ).query(async () => {
       return getDistinctCategories();
     }),
 
     // Search fsq_places_raw - name required, location filters optional
-    searchFsq: protectedProcedure
+    searchFsq: permissionProcedure(Permissions.PLACES_READ)
       .input(
         z.object({
           name: z.string().min(2), // Required - at least 2 characters
@@ -706,21 +2711,21 @@ export const appRouter = router({
       }),
 
     // Get regions from fsq_places_raw for a specific country
-    getFsqRegions: protectedProcedure
+    getFsqRegions: permissionProcedure(Permissions.PLACES_READ)
       .input(z.object({ country: z.string().min(1) }))
       .query(async ({ input }) => {
         return getFsqRegions(input.country);
       }),
 
     // Get cities from fsq_places_raw for a specific country/region
-    getFsqCities: protectedProcedure
+    getFsqCities: permissionProcedure(Permissions.PLACES_READ)
       .input(z.object({ country: z.string().min(1), region: z.string().optional() }))
       .query(async ({ input }) => {
         return getFsqCities(input.country, input.region);
       }),
 
     // Typesense-specific endpoints
-    autocomplete: protectedProcedure
+    autocomplete: permissionProcedure(Permissions.PLACES_READ)
       .input(
         z.object({
           query: z.string().min(2),
@@ -731,11 +2736,11 @@ export const appRouter = router({
         return getAutocompleteSuggestions(input.query, input.limit);
       }),
 
-    typesenseStats: protectedProcedure.query(async () => {
+    typesenseStats: permissionProcedure(Permissions.PLACES_READ).query(async () => {
       return getTypesenseStats();
     }),
 
-    typesenseHealth: protectedProcedure.query(async () => {
+    typesenseHealth: permissionProcedure(Permissions.PLACES_READ).query(async () => {
       return typesenseHealthCheck();
     }),
   }),
@@ -744,12 +2749,12 @@ export const appRouter = router({
   tavvyPlaces: router({
     
     // Get tavvy categories for dropdown
-    getTavvyCategories: protectedProcedure.query(async () => {
+    getTavvyCategories: permissionProcedure(Permissions.PLACES_READ).query(async () => {
       return getTavvyCategories();
     }),
 
     // Create a new tavvy place
-    create: protectedProcedure
+    create: permissionProcedure(Permissions.PLACES_WRITE)
       .input(
         z.object({
           name: z.string().min(1, "Name is required").max(200),
@@ -808,21 +2813,22 @@ export const appRouter = router({
       }),
 
     // Get all tavvy places (paginated)
-    getTavvyPlaces: protectedProcedure
+    getTavvyPlaces: permissionProcedure(Permissions.PLACES_READ)
       .input(
         z.object({
           limit: z.number().min(1).max(5000).default(100),
           offset: z.number().min(0).default(0),
         }).optional()
       )
-      .query(async ({ input }) => {
+      .query(async ({ ctx, input }) => {
         const limit = input?.limit || 50;
         const offset = input?.offset || 0;
-        return getTavvyPlaces(limit, offset);
+        // While viewing as a user, only show the places they created
+        return getTavvyPlaces(limit, offset, ctx.impersonation ? ctx.user.id : undefined);
       }),
 
     // Get a single tavvy place by ID
-    getTavvyPlace: protectedProcedure
+    getTavvyPlace: permissionProcedure(Permissions.PLACES_READ)
       .input(z.object({ id: z.string().uuid() }))
       .query(async ({ input }) => {
         const place = await getTavvyPlaceById(input.id);
@@ -836,7 +2842,7 @@ export const appRouter = router({
       }),
 
     // Update a tavvy place
-    updateTavvyPlace: protectedProcedure
+    updateTavvyPlace: permissionProcedure(Permissions.PLACES_WRITE)
       .input(
         z.object({
           id: z.string().uuid(),
@@ -888,7 +2894,7 @@ export const appRouter = router({
       }),
 
     // Delete a tavvy place (soft delete)
-    deleteTavvyPlace: protectedProcedure
+    deleteTavvyPlace: permissionProcedure(Permissions.PLACES_DELETE)
       .input(z.object({ id: z.string().uuid() }))
       .mutation(async ({ ctx, input }) => {
         const userId = ctx.user?.id;
@@ -913,11 +2919,11 @@ export const appRouter = router({
 
   // Signals router - get signal definitions
   signals: router({
-    getAll: protectedProcedure.query(async () => {
+    getAll: permissionProcedure(Permissions.PLACES_READ).query(async () => {
       return getAllReviewItems();
     }),
 
-    getByType: protectedProcedure
+    getByType: permissionProcedure(Permissions.PLACES_READ)
       .input(z.object({ type: z.enum(["best_for", "vibe", "heads_up"]) }))
       .query(async ({ input }) => {
         return getReviewItemsByType(input.type);
@@ -926,7 +2932,7 @@ export const appRouter = router({
 
   // Reviews router - submit reviews
   reviews: router({
-    submitQuick: protectedProcedure
+    submitQuick: permissionProcedure(Permissions.SIGNALS_SUBMIT)
       .input(
         z.object({
           placeId: z.string(),
@@ -970,20 +2976,12 @@ export const appRouter = router({
         return result;
       }),
 
-    batchImport: protectedProcedure
-      .input(
-        z.object({
-          reviews: z.array(
-            z.object({
-              place_id: z.string(),
-              signal_slug: z.string(),
-              tap_count: z.number().min(1).max(10),
-            })
-          ),
-          fileName: z.string(),
-        })
-      )
+    batchImport: permissionProcedure(Permissions.SIGNALS_IMPORT)
+      .input(fourEyesInputSchemas[FourEyesOperations.IMPORT_REVIEWS])
       .mutation(async ({ ctx, input }) => {
+        const pending = await requireSecondApproval(ctx, FourEyesOperations.IMPORT_REVIEWS, input);
+        if (pending) return pending;
+
         const db = await getDb();
         if (!db)
           throw new TRPCError({
@@ -1080,12 +3078,12 @@ export const appRouter = router({
 
   // Rep stats router
   stats: router({
-    getMyStats: protectedProcedure.query(async ({ ctx }) => {
+    getMyStats: adminProcedure.query(async ({ ctx }) => {
       const userId = ctx.user?.id || ctx.user?.openId || "anonymous";
       return getRepStats(userId);
     }),
 
-    getActivityLog: protectedProcedure
+    getActivityLog: adminProcedure
       .input(
         z
           .object({
@@ -1107,7 +3105,7 @@ export const appRouter = router({
           .limit(50);
       }),
 
-    getBatchJobs: protectedProcedure.query(async ({ ctx }) => {
+    getBatchJobs: adminProcedure.query(async ({ ctx }) => {
       const db = await getDb();
       if (!db) return [];
 
@@ -1124,19 +3122,19 @@ export const appRouter = router({
 
   // ============ ARTICLES ROUTER ============
   articles: router({
-    getAll: protectedProcedure.query(async () => {
+    getAll: permissionProcedure(Permissions.CONTENT_READ).query(async () => {
       return getAllArticles();
     }),
 
-    getCategories: protectedProcedure.query(async () => {
+    getCategories: permissionProcedure(Permissions.CONTENT_READ).query(async () => {
       return getArticleCategories();
     }),
 
-    getUniverses: protectedProcedure.query(async () => {
+    getUniverses: permissionProcedure(Permissions.CONTENT_READ).query(async () => {
       return getAllUniverses();
     }),
 
-    create: protectedProcedure
+    create: permissionProcedure(Permissions.CONTENT_WRITE)
       .input(
         z.object({
           title: z.string().min(1),
@@ -1175,7 +3173,7 @@ export const appRouter = router({
         return { id };
       }),
 
-    update: protectedProcedure
+    update: permissionProcedure(Permissions.CONTENT_WRITE)
       .input(
         z.object({
           id: z.string(),
@@ -1205,7 +3203,7 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    delete: protectedProcedure
+    delete: permissionProcedure(Permissions.CONTENT_DELETE)
       .input(z.object({ id: z.string() }))
       .mutation(async ({ input }) => {
         const success = await deleteArticle(input.id);
@@ -1218,39 +3216,22 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    bulkImport: protectedProcedure
-      .input(
-        z.object({
-          articles: z.array(z.object({
-            title: z.string(),
-            slug: z.string(),
-            excerpt: z.string().optional(),
-            content: z.string().optional(),
-            author_name: z.string().optional(),
-            category_id: z.string().nullable().optional(),
-            content_blocks: z.any().optional(),
-            section_images: z.any().optional(),
-            cover_image_url: z.string().optional(),
-            read_time_minutes: z.number().optional(),
-            article_template_type: z.string().optional(),
-            is_featured: z.boolean().optional(),
-            status: z.string().optional(),
-          })),
-          updateExisting: z.boolean().default(false),
-        })
-      )
-      .mutation(async ({ input }) => {
+    bulkImport: permissionProcedure(Permissions.CONTENT_WRITE)
+      .input(fourEyesInputSchemas[FourEyesOperations.IMPORT_ARTICLES])
+      .mutation(async ({ ctx, input }) => {
+        const pending = await requireSecondApproval(ctx, FourEyesOperations.IMPORT_ARTICLES, input);
+        if (pending) return pending;
         return bulkImportArticles(input.articles, input.updateExisting);
       }),
   }),
 
   // ============ CITIES ROUTER ============
   cities: router({
-    getAll: protectedProcedure.query(async () => {
+    getAll: permissionProcedure(Permissions.CONTENT_READ).query(async () => {
       return getAllCities();
     }),
 
-    create: protectedProcedure
+    create: permissionProcedure(Permissions.CONTENT_WRITE)
       .input(
         z.object({
           name: z.string().min(1),
@@ -1308,7 +3289,7 @@ export const appRouter = router({
         return { id };
       }),
 
-    update: protectedProcedure
+    update: permissionProcedure(Permissions.CONTENT_WRITE)
       .input(
         z.object({
           id: z.string(),
@@ -1356,7 +3337,7 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    delete: protectedProcedure
+    delete: permissionProcedure(Permissions.CONTENT_DELETE)
       .input(z.object({ id: z.string() }))
       .mutation(async ({ input }) => {
         const success = await deleteCity(input.id);
@@ -1372,7 +3353,7 @@ export const appRouter = router({
 
   // ============ UNIVERSES ROUTER ============
   universes: router({
-    getAll: protectedProcedure
+    getAll: permissionProcedure(Permissions.CONTENT_READ)
       .input(
         z.object({
           type: z.enum(['all', 'universes', 'planets']).optional().default('universes'),
@@ -1383,11 +3364,11 @@ export const appRouter = router({
         return getUniverses(input);
       }),
 
-    getCategories: protectedProcedure.query(async () => {
+    getCategories: permissionProcedure(Permissions.CONTENT_READ).query(async () => {
       return getUniverseCategories();
     }),
 
-    create: protectedProcedure
+    create: permissionProcedure(Permissions.CONTENT_WRITE)
       .input(
         z.object({
           name: z.string().min(1),
@@ -1427,7 +3408,7 @@ export const appRouter = router({
         return { id };
       }),
 
-    update: protectedProcedure
+    update: permissionProcedure(Permissions.CONTENT_WRITE)
       .input(
         z.object({
           id: z.string(),
@@ -1463,9 +3444,11 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    delete: protectedProcedure
-      .input(z.object({ id: z.string() }))
-      .mutation(async ({ input }) => {
+    delete: permissionProcedure(Permissions.CONTENT_DELETE)
+      .input(fourEyesInputSchemas[FourEyesOperations.DELETE_UNIVERSE])
+      .mutation(async ({ ctx, input }) => {
+        const pending = await requireSecondApproval(ctx, FourEyesOperations.DELETE_UNIVERSE, input);
+        if (pending) return pending;
         const success = await deleteUniverse(input.id);
         if (!success) {
           throw new TRPCError({
@@ -1477,7 +3460,7 @@ export const appRouter = router({
       }),
 
     // Get a single universe by ID
-    getById: protectedProcedure
+    getById: permissionProcedure(Permissions.CONTENT_READ)
       .input(z.object({ id: z.string() }))
       .query(async ({ input }) => {
         const universe = await getUniverseById(input.id);
@@ -1491,13 +3474,13 @@ export const appRouter = router({
       }),
 
     // ============ PLANETS (Child Universes) ============
-    getPlanets: protectedProcedure
+    getPlanets: permissionProcedure(Permissions.CONTENT_READ)
       .input(z.object({ universeId: z.string() }))
       .query(async ({ input }) => {
         return getPlanetsByUniverse(input.universeId);
       }),
 
-    createPlanet: protectedProcedure
+    createPlanet: permissionProcedure(Permissions.CONTENT_WRITE)
       .input(
         z.object({
           name: z.string().min(1),
@@ -1526,7 +3509,7 @@ export const appRouter = router({
         return { id };
       }),
 
-    updatePlanet: protectedProcedure
+    updatePlanet: permissionProcedure(Permissions.CONTENT_WRITE)
       .input(
         z.object({
           id: z.string(),
@@ -1550,7 +3533,7 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    deletePlanet: protectedProcedure
+    deletePlanet: permissionProcedure(Permissions.CONTENT_DELETE)
       .input(z.object({ id: z.string() }))
       .mutation(async ({ input }) => {
         const success = await deletePlanet(input.id);
@@ -1564,13 +3547,13 @@ export const appRouter = router({
       }),
 
     // ============ UNIVERSE PLACES ============
-    getPlaces: protectedProcedure
+    getPlaces: permissionProcedure(Permissions.CONTENT_READ)
       .input(z.object({ universeId: z.string() }))
       .query(async ({ input }) => {
         return getUniversePlaces(input.universeId);
       }),
 
-    linkPlace: protectedProcedure
+    linkPlace: permissionProcedure(Permissions.CONTENT_WRITE)
       .input(
         z.object({
           universeId: z.string(),
@@ -1591,7 +3574,7 @@ export const appRouter = router({
         return result;
       }),
 
-    unlinkPlace: protectedProcedure
+    unlinkPlace: permissionProcedure(Permissions.CONTENT_WRITE)
       .input(
         z.object({
           universeId: z.string(),
@@ -1609,7 +3592,7 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    searchPlaces: protectedProcedure
+    searchPlaces: permissionProcedure(Permissions.CONTENT_READ)
       .input(
         z.object({
           query: z.string().min(1),
@@ -1621,7 +3604,7 @@ export const appRouter = router({
         return searchPlacesForLinking(input.query, input.limit, input.excludeUniverseId);
       }),
 
-    updatePlaceOrder: protectedProcedure
+    updatePlaceOrder: permissionProcedure(Permissions.CONTENT_WRITE)
       .input(
         z.object({
           universeId: z.string(),
@@ -1644,7 +3627,7 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    togglePlaceFeatured: protectedProcedure
+    togglePlaceFeatured: permissionProcedure(Permissions.CONTENT_WRITE)
       .input(
         z.object({
           universeId: z.string(),
@@ -1668,13 +3651,13 @@ export const appRouter = router({
       }),
 
     // ============ UNIVERSE RIDES ============
-    getRides: protectedProcedure
+    getRides: permissionProcedure(Permissions.CONTENT_READ)
       .input(z.object({ universeId: z.string() }))
       .query(async ({ input }) => {
         return getUniverseRides(input.universeId);
       }),
 
-    linkRide: protectedProcedure
+    linkRide: permissionProcedure(Permissions.CONTENT_WRITE)
       .input(
         z.object({
           universeId: z.string(),
@@ -1695,7 +3678,7 @@ export const appRouter = router({
         return result;
       }),
 
-    unlinkRide: protectedProcedure
+    unlinkRide: permissionProcedure(Permissions.CONTENT_WRITE)
       .input(
         z.object({
           universeId: z.string(),
@@ -1713,7 +3696,7 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    searchRides: protectedProcedure
+    searchRides: permissionProcedure(Permissions.CONTENT_READ)
       .input(
         z.object({
           query: z.string().min(1),
@@ -1725,7 +3708,7 @@ export const appRouter = router({
         return searchRidesForLinking(input.query, input.limit, input.excludeUniverseId);
       }),
 
-    toggleRideFeatured: protectedProcedure
+    toggleRideFeatured: permissionProcedure(Permissions.CONTENT_WRITE)
       .input(
         z.object({
           universeId: z.string(),
@@ -1751,7 +3734,7 @@ export const appRouter = router({
 
   // ============ RIDES ROUTER ============
   rides: router({
-    getAll: protectedProcedure
+    getAll: permissionProcedure(Permissions.CONTENT_READ)
       .input(
         z.object({
           status: z.string().optional(),
@@ -1763,7 +3746,7 @@ export const appRouter = router({
         return getAllRides(input);
       }),
 
-    getById: protectedProcedure
+    getById: permissionProcedure(Permissions.CONTENT_READ)
       .input(z.object({ id: z.string() }))
       .query(async ({ input }) => {
         const ride = await getRideById(input.id);
@@ -1776,7 +3759,7 @@ export const appRouter = router({
         return ride;
       }),
 
-    create: protectedProcedure
+    create: permissionProcedure(Permissions.CONTENT_WRITE)
       .input(
         z.object({
           name: z.string().min(1),
@@ -1836,7 +3819,7 @@ export const appRouter = router({
         return { id };
       }),
 
-    update: protectedProcedure
+    update: permissionProcedure(Permissions.CONTENT_WRITE)
       .input(
         z.object({
           id: z.string(),
@@ -1879,7 +3862,7 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    delete: protectedProcedure
+    delete: permissionProcedure(Permissions.CONTENT_DELETE)
       .input(z.object({ id: z.string() }))
       .mutation(async ({ input }) => {
         const success = await deleteRide(input.id);
@@ -1895,7 +3878,7 @@ export const appRouter = router({
 
   // ============ BUSINESS CLAIMS ROUTER ============
   businessClaims: router({
-    getAll: protectedProcedure
+    getAll: permissionProcedure(Permissions.PROVIDERS_READ)
       .input(
         z.object({
           status: z.enum(["pending", "verified", "rejected", "expired"]).optional(),
@@ -1905,7 +3888,7 @@ export const appRouter = router({
         return getBusinessClaims(input?.status);
       }),
 
-    getById: protectedProcedure
+    getById: permissionProcedure(Permissions.PROVIDERS_READ)
       .input(z.object({ id: z.string() }))
       .query(async ({ input }) => {
         const claim = await getBusinessClaimById(input.id);
@@ -1918,7 +3901,7 @@ export const appRouter = router({
         return claim;
       }),
 
-    approve: protectedProcedure
+    approve: permissionProcedure(Permissions.PROVIDERS_WRITE)
       .input(z.object({ id: z.string() }))
       .mutation(async ({ ctx, input }) => {
         const adminId = ctx.user?.id || "unknown";
@@ -1932,7 +3915,7 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    reject: protectedProcedure
+    reject: permissionProcedure(Permissions.PROVIDERS_WRITE)
       .input(z.object({ id: z.string() }))
       .mutation(async ({ ctx, input }) => {
         const adminId = ctx.user?.id || "unknown";
@@ -1949,7 +3932,7 @@ export const appRouter = router({
 
   // ============ BADGE CREDENTIALS ROUTER ============
   badgeCredentials: router({
-    getAll: protectedProcedure
+    getAll: permissionProcedure(Permissions.PROVIDERS_READ)
       .input(
         z.object({
           status: z.string().optional(),
@@ -1965,11 +3948,11 @@ export const appRouter = router({
         );
       }),
 
-    getStats: protectedProcedure.query(async () => {
+    getStats: permissionProcedure(Permissions.PROVIDERS_READ).query(async () => {
       return getBadgeCredentialStats();
     }),
 
-    approve: protectedProcedure
+    approve: permissionProcedure(Permissions.PROVIDERS_WRITE)
       .input(z.object({ cardId: z.string() }))
       .mutation(async ({ ctx, input }) => {
         const adminId = ctx.user?.id || "unknown";
@@ -1983,7 +3966,7 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    reject: protectedProcedure
+    reject: permissionProcedure(Permissions.PROVIDERS_WRITE)
       .input(z.object({ cardId: z.string() }))
       .mutation(async ({ ctx, input }) => {
         const adminId = ctx.user?.id || "unknown";
@@ -2000,7 +3983,7 @@ export const appRouter = router({
 
   // ============ MODERATION ROUTER ============
   moderation: router({
-    getFlags: protectedProcedure
+    getFlags: permissionProcedure(Permissions.MODERATION_READ)
       .input(
         z.object({
           status: z.enum(["pending", "reviewed", "dismissed", "actioned"]).optional(),
@@ -2010,7 +3993,7 @@ export const appRouter = router({
         return getContentFlags(input?.status);
       }),
 
-    getQueue: protectedProcedure
+    getQueue: permissionProcedure(Permissions.MODERATION_READ)
       .input(
         z.object({
           status: z.enum(["pending", "approved", "rejected"]).optional(),
@@ -2020,7 +4003,7 @@ export const appRouter = router({
         return getModerationQueue(input?.status);
       }),
 
-    reviewFlag: protectedProcedure
+    reviewFlag: permissionProcedure(Permissions.MODERATION_WRITE)
       .input(
         z.object({
           id: z.string(),
@@ -2039,7 +4022,7 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    reviewQueueItem: protectedProcedure
+    reviewQueueItem: permissionProcedure(Permissions.MODERATION_WRITE)
       .input(
         z.object({
           id: z.string(),
@@ -2064,25 +4047,51 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    getStats: protectedProcedure.query(async () => {
+    getStats: permissionProcedure(Permissions.MODERATION_READ).query(async () => {
       return getModerationStats();
     }),
   }),
 
   // ============ AUDIT LOG ROUTER ============
   auditLog: router({
-    getAll: protectedProcedure
+    // Unified admin event stream (audit_log, including backfilled admin_activity_log rows)
+    getEvents: permissionProcedure(Permissions.AUDIT_READ)
       .input(
         z.object({
           limit: z.number().min(1).max(500).default(100),
-          adminId: z.string().optional(),
+          offset: z.number().min(0).default(0),
+          actor: z.string().trim().max(255).optional(),
+          actions: z.array(z.string()).max(50).optional(),
+          resourceType: z.string().optional(),
+          resourceId: z.string().trim().optional(),
+          from: z.date().optional(),
+          to: z.date().optional(),
+          search: z.string().trim().max(200).optional(),
+          success: z.boolean().optional(),
         }).optional()
       )
       .query(async ({ input }) => {
-        return getAdminActivityLog(input?.limit || 100, input?.adminId);
+        const { limit = 100, offset = 0, ...filters } = input || {};
+        return queryAdminEvents(filters, limit, offset);
       }),
 
-    log: protectedProcedure
+    getFacets: permissionProcedure(Permissions.AUDIT_READ).query(async () => {
+      return getAdminEventFacets();
+    }),
+
+    // Walks the tamper-evident hash chain and reports the first broken link
+    verifyChain: permissionProcedure(Permissions.AUDIT_READ).query(async () => {
+      const result = await verifyAuditChain();
+      if (!result) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to verify audit log",
+        });
+      }
+      return result;
+    }),
+
+    log: adminProcedure
       .input(
         z.object({
           actionType: z.string(),
@@ -2110,9 +4119,62 @@ export const appRouter = router({
       }),
   }),
 
+  // ============ SCHEDULED JOBS ============
+  jobs: router({
+    list: permissionProcedure(Permissions.SYSTEM_MANAGE).query(async () => {
+      return listJobs();
+    }),
+
+    runs: permissionProcedure(Permissions.SYSTEM_MANAGE)
+      .input(
+        z.object({
+          jobName: z.string().max(100).optional(),
+          status: z.enum(Object.values(JobRunStatus) as [JobRunStatusType, ...JobRunStatusType[]]).optional(),
+          limit: z.number().int().min(1).max(200).default(50),
+          offset: z.number().int().min(0).default(0),
+        })
+      )
+      .query(async ({ input }) => {
+        return listJobRuns({ jobName: input.jobName, status: input.status }, input.limit, input.offset);
+      }),
+
+    trigger: permissionProcedure(Permissions.SYSTEM_MANAGE)
+      .input(z.object({ name: z.string().max(100) }))
+      .mutation(async ({ ctx, input }) => {
+        const outcome = await startJob(input.name, JobTriggers.MANUAL, {
+          triggeredBy: ctx.user.id,
+          triggeredByEmail: ctx.user.email,
+        });
+
+        if (!outcome.started) {
+          if (outcome.reason === "unknown_job") {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Unknown job" });
+          }
+          if (outcome.reason === "already_running") {
+            throw new TRPCError({ code: "CONFLICT", message: "This job is already running" });
+          }
+          throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Failed to start job" });
+        }
+
+        const { clientIp, userAgent } = getRequestClientInfo(ctx.req);
+        await logAuditEvent({
+          userId: ctx.user.id,
+          userEmail: ctx.user.email || undefined,
+          action: AuditActions.JOB_TRIGGERED,
+          resourceType: ResourceTypes.SCHEDULED_JOB,
+          resourceId: input.name,
+          details: { runId: outcome.run.id },
+          ipAddress: clientIp,
+          userAgent,
+        });
+
+        return outcome.run;
+      }),
+  }),
+
   // ============ PLACE OVERRIDES ROUTER ============
   overrides: router({
-    getAll: protectedProcedure
+    getAll: permissionProcedure(Permissions.PLACES_READ)
       .input(
         z.object({
           status: z.enum(["pending", "approved", "rejected"]).optional(),
@@ -2122,7 +4184,7 @@ export const appRouter = router({
         return getPlaceOverrides(input?.status);
       }),
 
-    create: protectedProcedure
+    create: permissionProcedure(Permissions.PLACES_WRITE)
       .input(
         z.object({
           placeId: z.string(),
@@ -2149,7 +4211,7 @@ export const appRouter = router({
         return { id };
       }),
 
-    review: protectedProcedure
+    review: permissionProcedure(Permissions.PLACES_WRITE)
       .input(
         z.object({
           id: z.string(),
@@ -2171,7 +4233,7 @@ export const appRouter = router({
 
   // ============ USER MANAGEMENT ============
   users: router({
-    getAll: protectedProcedure
+    getAll: permissionProcedure(Permissions.USERS_READ)
       .input(
         z.object({
           limit: z.number().optional().default(50),
@@ -2184,27 +4246,23 @@ export const appRouter = router({
         return getUsers(limit, offset, search);
       }),
 
-    getById: protectedProcedure
+    getById: permissionProcedure(Permissions.USERS_READ)
       .input(z.object({ id: z.string() }))
       .query(async ({ input }) => {
         return getUserById(input.id);
       }),
 
-    getRoles: protectedProcedure
+    getRoles: permissionProcedure(Permissions.USERS_READ)
       .input(z.object({ userId: z.string() }))
       .query(async ({ input }) => {
         return getUserRoles(input.userId);
       }),
 
-    addRole: protectedProcedure
-      .input(
-        z.object({
-          userId: z.string(),
-          role: z.string(),
-          expiresAt: z.string().optional(),
-        })
-      )
+    addRole: permissionProcedure(Permissions.ROLES_MANAGE)
+      .input(fourEyesInputSchemas[FourEyesOperations.GRANT_ROLE])
       .mutation(async ({ ctx, input }) => {
+        const pending = await requireSecondApproval(ctx, FourEyesOperations.GRANT_ROLE, input);
+        if (pending) return pending;
         const adminId = ctx.user?.id || "unknown";
         const success = await addUserRole(input.userId, input.role, adminId, input.expiresAt);
         if (!success) {
@@ -2213,10 +4271,11 @@ export const appRouter = router({
             message: "Failed to add user role",
           });
         }
+        invalidateUserAccess(input.userId);
         return { success: true };
       }),
 
-    removeRole: protectedProcedure
+    removeRole: permissionProcedure(Permissions.ROLES_MANAGE)
       .input(
         z.object({
           userId: z.string(),
@@ -2232,16 +4291,17 @@ export const appRouter = router({
             message: "Failed to remove user role",
           });
         }
+        invalidateUserAccess(input.userId);
         return { success: true };
       }),
 
-    getStrikes: protectedProcedure
+    getStrikes: permissionProcedure(Permissions.USERS_READ)
       .input(z.object({ userId: z.string() }))
       .query(async ({ input }) => {
         return getUserStrikes(input.userId);
       }),
 
-    addStrike: protectedProcedure
+    addStrike: permissionProcedure(Permissions.USERS_MODERATE)
       .input(
         z.object({
           userId: z.string(),
@@ -2268,7 +4328,7 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    removeStrike: protectedProcedure
+    removeStrike: permissionProcedure(Permissions.USERS_MODERATE)
       .input(z.object({ strikeId: z.string() }))
       .mutation(async ({ ctx, input }) => {
         const adminId = ctx.user?.id || "unknown";
@@ -2282,13 +4342,13 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    getGamification: protectedProcedure
+    getGamification: permissionProcedure(Permissions.USERS_READ)
       .input(z.object({ userId: z.string() }))
       .query(async ({ input }) => {
         return getUserGamification(input.userId);
       }),
 
-    block: protectedProcedure
+    block: permissionProcedure(Permissions.USERS_MODERATE)
       .input(z.object({ userId: z.string() }))
       .mutation(async ({ ctx, input }) => {
         const adminId = ctx.user?.id || "unknown";
@@ -2302,7 +4362,7 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    unblock: protectedProcedure
+    unblock: permissionProcedure(Permissions.USERS_MODERATE)
       .input(z.object({ userId: z.string() }))
       .mutation(async ({ ctx, input }) => {
         const adminId = ctx.user?.id || "unknown";
@@ -2316,17 +4376,17 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    isBlocked: protectedProcedure
+    isBlocked: permissionProcedure(Permissions.USERS_READ)
       .input(z.object({ userId: z.string() }))
       .query(async ({ input }) => {
         return isUserBlocked(input.userId);
       }),
 
-    getStats: protectedProcedure.query(async () => {
+    getStats: permissionProcedure(Permissions.USERS_READ).query(async () => {
       return getUserStats();
     }),
 
-    update: protectedProcedure
+    update: permissionProcedure(Permissions.USERS_WRITE)
       .input(
         z.object({
           userId: z.string(),
@@ -2343,7 +4403,7 @@ export const appRouter = router({
         return updateUser(input.userId, input.data);
       }),
 
-    updateEmail: protectedProcedure
+    updateEmail: permissionProcedure(Permissions.USERS_WRITE)
       .input(
         z.object({
           userId: z.string(),
@@ -2354,16 +4414,18 @@ export const appRouter = router({
         return updateUserEmail(input.userId, input.email);
       }),
 
-    delete: protectedProcedure
-      .input(z.object({ userId: z.string() }))
-      .mutation(async ({ input }) => {
+    delete: permissionProcedure(Permissions.USERS_DELETE)
+      .input(fourEyesInputSchemas[FourEyesOperations.DELETE_USER])
+      .mutation(async ({ ctx, input }) => {
+        const pending = await requireSecondApproval(ctx, FourEyesOperations.DELETE_USER, input);
+        if (pending) return pending;
         return deleteUser(input.userId);
       }),
   }),
 
   // ============ PRO PROVIDERS MANAGEMENT ============
   pros: router({
-    create: protectedProcedure
+    create: permissionProcedure(Permissions.PROVIDERS_WRITE)
       .input(
         z.object({
           user_id: z.string().optional(),
@@ -2403,7 +4465,7 @@ export const appRouter = router({
         return result;
       }),
 
-    getAll: protectedProcedure
+    getAll: permissionProcedure(Permissions.PROVIDERS_READ)
       .input(
         z.object({
           limit: z.number().optional().default(50),
@@ -2419,13 +4481,13 @@ export const appRouter = router({
         return getProsWithPlaces(limit, offset, search, providerType, isVerified, isActive);
       }),
 
-    getById: protectedProcedure
+    getById: permissionProcedure(Permissions.PROVIDERS_READ)
       .input(z.object({ id: z.string() }))
       .query(async ({ input }) => {
         return getProWithPlaceById(input.id);
       }),
 
-    update: protectedProcedure
+    update: permissionProcedure(Permissions.PROVIDERS_WRITE)
       .input(
         z.object({
           id: z.string(),
@@ -2444,7 +4506,7 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    verify: protectedProcedure
+    verify: permissionProcedure(Permissions.PROVIDERS_WRITE)
       .input(z.object({ id: z.string() }))
       .mutation(async ({ ctx, input }) => {
         const adminId = ctx.user?.id || "unknown";
@@ -2458,7 +4520,7 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    unverify: protectedProcedure
+    unverify: permissionProcedure(Permissions.PROVIDERS_WRITE)
       .input(z.object({ id: z.string() }))
       .mutation(async ({ ctx, input }) => {
         const adminId = ctx.user?.id || "unknown";
@@ -2472,7 +4534,7 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    activate: protectedProcedure
+    activate: permissionProcedure(Permissions.PROVIDERS_WRITE)
       .input(z.object({ id: z.string() }))
       .mutation(async ({ ctx, input }) => {
         const adminId = ctx.user?.id || "unknown";
@@ -2486,7 +4548,7 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    deactivate: protectedProcedure
+    deactivate: permissionProcedure(Permissions.PROVIDERS_WRITE)
       .input(z.object({ id: z.string() }))
       .mutation(async ({ ctx, input }) => {
         const adminId = ctx.user?.id || "unknown";
@@ -2500,7 +4562,7 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    feature: protectedProcedure
+    feature: permissionProcedure(Permissions.PROVIDERS_WRITE)
       .input(z.object({ id: z.string() }))
       .mutation(async ({ ctx, input }) => {
         const adminId = ctx.user?.id || "unknown";
@@ -2514,7 +4576,7 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    unfeature: protectedProcedure
+    unfeature: permissionProcedure(Permissions.PROVIDERS_WRITE)
       .input(z.object({ id: z.string() }))
       .mutation(async ({ ctx, input }) => {
         const adminId = ctx.user?.id || "unknown";
@@ -2528,24 +4590,24 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    getReviews: protectedProcedure
+    getReviews: permissionProcedure(Permissions.PROVIDERS_READ)
       .input(z.object({ proId: z.string() }))
       .query(async ({ input }) => {
         return getProReviews(input.proId);
       }),
 
-    getStats: protectedProcedure.query(async () => {
+    getStats: permissionProcedure(Permissions.PROVIDERS_READ).query(async () => {
       return getProStatsNew();
     }),
 
-    getProviderTypes: protectedProcedure.query(async () => {
+    getProviderTypes: permissionProcedure(Permissions.PROVIDERS_READ).query(async () => {
       return getDistinctProviderTypesNew();
     }),
   }),
 
   // ============ STORY MODERATION ============
   stories: router({
-    getAll: protectedProcedure
+    getAll: permissionProcedure(Permissions.MODERATION_READ)
       .input(
         z.object({
           limit: z.number().optional().default(50),
@@ -2554,24 +4616,25 @@ export const appRouter = router({
           hasReports: z.boolean().optional(),
         }).optional()
       )
-      .query(async ({ input }) => {
+      .query(async ({ ctx, input }) => {
         const { limit, offset, status, hasReports } = input || {};
-        return getStories(limit, offset, status, hasReports);
+        // While viewing as a user, only show their stories
+        return getStories(limit, offset, status, hasReports, ctx.impersonation ? ctx.user.id : undefined);
       }),
 
-    getById: protectedProcedure
+    getById: permissionProcedure(Permissions.MODERATION_READ)
       .input(z.object({ id: z.string() }))
       .query(async ({ input }) => {
         return getStoryById(input.id);
       }),
 
-    getReports: protectedProcedure
+    getReports: permissionProcedure(Permissions.MODERATION_READ)
       .input(z.object({ storyId: z.string() }))
       .query(async ({ input }) => {
         return getStoryReports(input.storyId);
       }),
 
-    getReported: protectedProcedure
+    getReported: permissionProcedure(Permissions.MODERATION_READ)
       .input(
         z.object({
           limit: z.number().optional().default(50),
@@ -2583,7 +4646,7 @@ export const appRouter = router({
         return getReportedStories(limit, offset);
       }),
 
-    updateStatus: protectedProcedure
+    updateStatus: permissionProcedure(Permissions.MODERATION_WRITE)
       .input(
         z.object({
           id: z.string(),
@@ -2602,7 +4665,7 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    delete: protectedProcedure
+    delete: permissionProcedure(Permissions.MODERATION_WRITE)
       .input(z.object({ id: z.string() }))
       .mutation(async ({ ctx, input }) => {
         const adminId = ctx.user?.id || "unknown";
@@ -2616,7 +4679,7 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    dismissReports: protectedProcedure
+    dismissReports: permissionProcedure(Permissions.MODERATION_WRITE)
       .input(z.object({ storyId: z.string() }))
       .mutation(async ({ ctx, input }) => {
         const adminId = ctx.user?.id || "unknown";
@@ -2630,14 +4693,14 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    getStats: protectedProcedure.query(async () => {
+    getStats: permissionProcedure(Permissions.MODERATION_READ).query(async () => {
       return getStoryStats();
     }),
   }),
 
   // ============ PHOTO MODERATION ============
   photos: router({
-    getAll: protectedProcedure
+    getAll: permissionProcedure(Permissions.MODERATION_READ)
       .input(
         z.object({
           limit: z.number().optional().default(50),
@@ -2651,19 +4714,19 @@ export const appRouter = router({
         return getPhotos(limit, offset, status, isFlagged);
       }),
 
-    getById: protectedProcedure
+    getById: permissionProcedure(Permissions.MODERATION_READ)
       .input(z.object({ id: z.string() }))
       .query(async ({ input }) => {
         return getPhotoById(input.id);
       }),
 
-    getReports: protectedProcedure
+    getReports: permissionProcedure(Permissions.MODERATION_READ)
       .input(z.object({ photoId: z.string() }))
       .query(async ({ input }) => {
         return getPhotoReports(input.photoId);
       }),
 
-    getReported: protectedProcedure
+    getReported: permissionProcedure(Permissions.MODERATION_READ)
       .input(
         z.object({
           limit: z.number().optional().default(50),
@@ -2675,7 +4738,7 @@ export const appRouter = router({
         return getReportedPhotos(limit, offset);
       }),
 
-    getFlagged: protectedProcedure
+    getFlagged: permissionProcedure(Permissions.MODERATION_READ)
       .input(
         z.object({
           limit: z.number().optional().default(50),
@@ -2687,7 +4750,7 @@ export const appRouter = router({
         return getFlaggedPhotos(limit, offset);
       }),
 
-    updateStatus: protectedProcedure
+    updateStatus: permissionProcedure(Permissions.MODERATION_WRITE)
       .input(
         z.object({
           id: z.string(),
@@ -2706,7 +4769,7 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    approve: protectedProcedure
+    approve: permissionProcedure(Permissions.MODERATION_WRITE)
       .input(z.object({ id: z.string() }))
       .mutation(async ({ ctx, input }) => {
         const adminId = ctx.user?.id || "unknown";
@@ -2720,7 +4783,7 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    reject: protectedProcedure
+    reject: permissionProcedure(Permissions.MODERATION_WRITE)
       .input(
         z.object({
           id: z.string(),
@@ -2739,7 +4802,7 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    delete: protectedProcedure
+    delete: permissionProcedure(Permissions.MODERATION_WRITE)
       .input(z.object({ id: z.string() }))
       .mutation(async ({ ctx, input }) => {
         const adminId = ctx.user?.id || "unknown";
@@ -2753,7 +4816,7 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    setCover: protectedProcedure
+    setCover: permissionProcedure(Permissions.MODERATION_WRITE)
       .input(
         z.object({
           id: z.string(),
@@ -2772,7 +4835,7 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    dismissReports: protectedProcedure
+    dismissReports: permissionProcedure(Permissions.MODERATION_WRITE)
       .input(z.object({ photoId: z.string() }))
       .mutation(async ({ ctx, input }) => {
         const adminId = ctx.user?.id || "unknown";
@@ -2786,14 +4849,14 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    getStats: protectedProcedure.query(async () => {
+    getStats: permissionProcedure(Permissions.MODERATION_READ).query(async () => {
       return getPhotoStats();
     }),
   }),
 
   // ============ REVIEW MODERATION ============
   reviewModeration: router({
-    getAll: protectedProcedure
+    getAll: permissionProcedure(Permissions.MODERATION_READ)
       .input(
         z.object({
           limit: z.number().optional().default(50),
@@ -2808,19 +4871,19 @@ export const appRouter = router({
         return getReviews(limit, offset, status, minRating, maxRating);
       }),
 
-    getById: protectedProcedure
+    getById: permissionProcedure(Permissions.MODERATION_READ)
       .input(z.object({ id: z.string() }))
       .query(async ({ input }) => {
         return getReviewById(input.id);
       }),
 
-    getReports: protectedProcedure
+    getReports: permissionProcedure(Permissions.MODERATION_READ)
       .input(z.object({ reviewId: z.string() }))
       .query(async ({ input }) => {
         return getReviewReports(input.reviewId);
       }),
 
-    getReported: protectedProcedure
+    getReported: permissionProcedure(Permissions.MODERATION_READ)
       .input(
         z.object({
           limit: z.number().optional().default(50),
@@ -2832,7 +4895,7 @@ export const appRouter = router({
         return getReportedReviews(limit, offset);
       }),
 
-    getFlagged: protectedProcedure
+    getFlagged: permissionProcedure(Permissions.MODERATION_READ)
       .input(
         z.object({
           limit: z.number().optional().default(50),
@@ -2844,7 +4907,7 @@ export const appRouter = router({
         return getFlaggedReviews(limit, offset);
       }),
 
-    updateStatus: protectedProcedure
+    updateStatus: permissionProcedure(Permissions.MODERATION_WRITE)
       .input(
         z.object({
           id: z.string(),
@@ -2863,7 +4926,7 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    approve: protectedProcedure
+    approve: permissionProcedure(Permissions.MODERATION_WRITE)
       .input(z.object({ id: z.string() }))
       .mutation(async ({ ctx, input }) => {
         const adminId = ctx.user?.id || "unknown";
@@ -2877,7 +4940,7 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    reject: protectedProcedure
+    reject: permissionProcedure(Permissions.MODERATION_WRITE)
       .input(
         z.object({
           id: z.string(),
@@ -2896,7 +4959,7 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    delete: protectedProcedure
+    delete: permissionProcedure(Permissions.MODERATION_WRITE)
       .input(z.object({ id: z.string() }))
       .mutation(async ({ ctx, input }) => {
         const adminId = ctx.user?.id || "unknown";
@@ -2910,7 +4973,7 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    dismissReports: protectedProcedure
+    dismissReports: permissionProcedure(Permissions.MODERATION_WRITE)
       .input(z.object({ reviewId: z.string() }))
       .mutation(async ({ ctx, input }) => {
         const adminId = ctx.user?.id || "unknown";
@@ -2924,14 +4987,14 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    getStats: protectedProcedure.query(async () => {
+    getStats: permissionProcedure(Permissions.MODERATION_READ).query(async () => {
       return getReviewStats();
     }),
   }),
 
   // ============ PLACE EDITING ============
   placeEdit: router({
-    create: protectedProcedure
+    create: permissionProcedure(Permissions.PLACES_WRITE)
       .input(
         z.object({
           name: z.string().min(1),
@@ -2967,7 +5030,7 @@ export const appRouter = router({
         return { success: true, placeId: result.placeId };
       }),
 
-    update: protectedProcedure
+    update: permissionProcedure(Permissions.PLACES_WRITE)
       .input(
         z.object({
           id: z.string(),
@@ -2987,7 +5050,7 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    delete: protectedProcedure
+    delete: permissionProcedure(Permissions.PLACES_DELETE)
       .input(z.object({ id: z.string() }))
       .mutation(async ({ ctx, input }) => {
         const adminId = ctx.user?.id || "unknown";
@@ -3001,13 +5064,13 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    getForEdit: protectedProcedure
+    getForEdit: permissionProcedure(Permissions.PLACES_READ)
       .input(z.object({ id: z.string() }))
       .query(async ({ input }) => {
         return getPlaceForEdit(input.id);
       }),
 
-    verify: protectedProcedure
+    verify: permissionProcedure(Permissions.PLACES_WRITE)
       .input(z.object({ id: z.string() }))
       .mutation(async ({ ctx, input }) => {
         const adminId = ctx.user?.id || "unknown";
@@ -3021,7 +5084,7 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    unverify: protectedProcedure
+    unverify: permissionProcedure(Permissions.PLACES_WRITE)
       .input(z.object({ id: z.string() }))
       .mutation(async ({ ctx, input }) => {
         const adminId = ctx.user?.id || "unknown";
@@ -3035,7 +5098,7 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    feature: protectedProcedure
+    feature: permissionProcedure(Permissions.PLACES_WRITE)
       .input(z.object({ id: z.string() }))
       .mutation(async ({ ctx, input }) => {
         const adminId = ctx.user?.id || "unknown";
@@ -3049,7 +5112,7 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    unfeature: protectedProcedure
+    unfeature: permissionProcedure(Permissions.PLACES_WRITE)
       .input(z.object({ id: z.string() }))
       .mutation(async ({ ctx, input }) => {
         const adminId = ctx.user?.id || "unknown";
@@ -3063,7 +5126,7 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    activate: protectedProcedure
+    activate: permissionProcedure(Permissions.PLACES_WRITE)
       .input(z.object({ id: z.string() }))
       .mutation(async ({ ctx, input }) => {
         const adminId = ctx.user?.id || "unknown";
@@ -3077,7 +5140,7 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    deactivate: protectedProcedure
+    deactivate: permissionProcedure(Permissions.PLACES_WRITE)
       .input(z.object({ id: z.string() }))
       .mutation(async ({ ctx, input }) => {
         const adminId = ctx.user?.id || "unknown";
@@ -3091,20 +5154,20 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    getPhotos: protectedProcedure
+    getPhotos: permissionProcedure(Permissions.PLACES_READ)
       .input(z.object({ placeId: z.string() }))
       .query(async ({ input }) => {
         return getPlacePhotosForEdit(input.placeId);
       }),
 
-    getCategories: protectedProcedure.query(async () => {
+    getCategories: permissionProcedure(Permissions.PLACES_READ).query(async () => {
       return getDistinctCategories();
     }),
   }),
 
   // ============ VERIFICATION SYNC ============
   verificationSync: router({
-    getAll: protectedProcedure
+    getAll: permissionProcedure(Permissions.PROVIDERS_READ)
       .input(
         z.object({ status: z.string().optional() }).optional()
       )
@@ -3112,11 +5175,11 @@ export const appRouter = router({
         return getVerifications(input?.status);
       }),
 
-    getStats: protectedProcedure.query(async () => {
+    getStats: permissionProcedure(Permissions.PROVIDERS_READ).query(async () => {
       return getVerificationStats();
     }),
 
-    approve: protectedProcedure
+    approve: permissionProcedure(Permissions.PROVIDERS_WRITE)
       .input(
         z.object({
           verificationId: z.string(),
@@ -3148,7 +5211,7 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    reject: protectedProcedure
+    reject: permissionProcedure(Permissions.PROVIDERS_WRITE)
       .input(
         z.object({
           verificationId: z.string(),
@@ -3173,7 +5236,7 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    syncToProvider: protectedProcedure
+    syncToProvider: permissionProcedure(Permissions.PROVIDERS_WRITE)
       .input(
         z.object({
           userId: z.string(),
@@ -3204,7 +5267,7 @@ export const appRouter = router({
 
   // ============ PLACE OVERRIDES ============
   placeOverrides: router({
-    getAll: protectedProcedure
+    getAll: permissionProcedure(Permissions.PLACES_READ)
       .input(
         z.object({
           limit: z.number().optional().default(50),
@@ -3217,7 +5280,7 @@ export const appRouter = router({
         return getPlaceOverridesAdmin(limit, offset, placeId);
       }),
 
-    create: protectedProcedure
+    create: permissionProcedure(Permissions.PLACES_WRITE)
       .input(
         z.object({
           placeId: z.string(),
@@ -3246,7 +5309,7 @@ export const appRouter = router({
         return { success: true, overrideId: result.overrideId };
       }),
 
-    revert: protectedProcedure
+    revert: permissionProcedure(Permissions.PLACES_WRITE)
       .input(z.object({ id: z.string() }))
       .mutation(async ({ ctx, input }) => {
         const adminId = ctx.user?.id || "unknown";
@@ -3260,7 +5323,7 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    delete: protectedProcedure
+    delete: permissionProcedure(Permissions.PLACES_WRITE)
       .input(z.object({ id: z.string() }))
       .mutation(async ({ ctx, input }) => {
         const adminId = ctx.user?.id || "unknown";
@@ -3275,9 +5338,10 @@ export const appRouter = router({
       }),
   }),
 
-  // Drafts router - manage content drafts for Universal Add
+  // Drafts router - manage content drafts for Universal Add. Every query is
+  // filtered on ctx.user.id, which is the viewed user while impersonating.
   drafts: router({
-    create: protectedProcedure
+    create: permissionProcedure(Permissions.PLACES_WRITE)
       .input(
         z.object({
           latitude: z.number(),
@@ -3307,7 +5371,7 @@ export const appRouter = router({
         }
         return draft;
       }),
-    get: protectedProcedure
+    get: permissionProcedure(Permissions.PLACES_WRITE)
       .input(z.object({ id: z.string().uuid() }))
       .query(async ({ ctx, input }) => {
         const userId = ctx.user?.id;
@@ -3320,14 +5384,14 @@ export const appRouter = router({
         }
         return draft;
       }),
-    getActive: protectedProcedure.query(async ({ ctx }) => {
+    getActive: permissionProcedure(Permissions.PLACES_WRITE).query(async ({ ctx }) => {
       const userId = ctx.user?.id;
       if (!userId) {
         throw new TRPCError({ code: "UNAUTHORIZED" });
       }
       return await getActiveDraft(userId);
     }),
-    list: protectedProcedure
+    list: permissionProcedure(Permissions.PLACES_WRITE)
       .input(
         z.object({
           limit: z.number().min(1).max(5000).default(100),
@@ -3341,7 +5405,7 @@ export const appRouter = router({
         }
         return await getUserDrafts(userId, input?.limit || 50, input?.offset || 0);
       }),
-    update: protectedProcedure
+    update: permissionProcedure(Permissions.PLACES_WRITE)
       .input(
         z.object({
           id: z.string().uuid(),
@@ -3378,7 +5442,7 @@ export const appRouter = router({
         }
         return draft;
       }),
-    delete: protectedProcedure
+    delete: permissionProcedure(Permissions.PLACES_WRITE)
       .input(z.object({ id: z.string().uuid() }))
       .mutation(async ({ ctx, input }) => {
         const userId = ctx.user?.id;
@@ -3394,7 +5458,7 @@ export const appRouter = router({
         }
         return { success: true };
       }),
-    snooze: protectedProcedure
+    snooze: permissionProcedure(Permissions.PLACES_WRITE)
       .input(
         z.object({
           id: z.string().uuid(),
@@ -3415,7 +5479,7 @@ export const appRouter = router({
         }
         return draft;
       }),
-    submit: protectedProcedure
+    submit: permissionProcedure(Permissions.PLACES_WRITE)
       .input(z.object({ id: z.string().uuid() }))
       .mutation(async ({ ctx, input }) => {
         const userId = ctx.user?.id;
@@ -3431,14 +5495,14 @@ export const appRouter = router({
         }
         return result;
       }),
-    getPendingOffline: protectedProcedure.query(async ({ ctx }) => {
+    getPendingOffline: permissionProcedure(Permissions.PLACES_WRITE).query(async ({ ctx }) => {
       const userId = ctx.user?.id;
       if (!userId) {
         throw new TRPCError({ code: "UNAUTHORIZED" });
       }
       return await getPendingOfflineDrafts(userId);
     }),
-    markSynced: protectedProcedure
+    markSynced: permissionProcedure(Permissions.PLACES_WRITE)
       .input(z.object({ id: z.string().uuid() }))
       .mutation(async ({ ctx, input }) => {
         const userId = ctx.user?.id;
@@ -3458,11 +5522,11 @@ export const appRouter = router({
 
   // ============ DIGITAL CARDS (eCards) ADMIN ============
   digitalCards: router({
-    getStats: protectedProcedure.query(async () => {
+    getStats: permissionProcedure(Permissions.PROVIDERS_READ).query(async () => {
       return getDigitalCardStats();
     }),
 
-    getAll: protectedProcedure
+    getAll: permissionProcedure(Permissions.PROVIDERS_READ)
       .input(
         z.object({
           limit: z.number().min(1).max(500).default(50),
@@ -3470,11 +5534,12 @@ export const appRouter = router({
           search: z.string().optional(),
         }).optional()
       )
-      .query(async ({ input }) => {
-        return getDigitalCards(input?.limit || 50, input?.offset || 0, input?.search);
+      .query(async ({ ctx, input }) => {
+        // While viewing as a user, only show their eCards
+        return getDigitalCards(input?.limit || 50, input?.offset || 0, input?.search, ctx.impersonation ? ctx.user.id : undefined);
       }),
 
-    getById: protectedProcedure
+    getById: permissionProcedure(Permissions.PROVIDERS_READ)
       .input(z.object({ id: z.string() }))
       .query(async ({ input }) => {
         const card = await getDigitalCardById(input.id);
@@ -3484,13 +5549,13 @@ export const appRouter = router({
         return card;
       }),
 
-    getLinks: protectedProcedure
+    getLinks: permissionProcedure(Permissions.PROVIDERS_READ)
       .input(z.object({ cardId: z.string() }))
       .query(async ({ input }) => {
         return getDigitalCardLinks(input.cardId);
       }),
 
-    update: protectedProcedure
+    update: permissionProcedure(Permissions.PROVIDERS_WRITE)
       .input(
         z.object({
           id: z.string(),
@@ -3505,7 +5570,7 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    delete: protectedProcedure
+    delete: permissionProcedure(Permissions.PROVIDERS_WRITE)
       .input(z.object({ id: z.string() }))
       .mutation(async ({ input }) => {
         const success = await deleteDigitalCard(input.id);
@@ -3518,11 +5583,11 @@ export const appRouter = router({
 
   // ============ EVENTS ADMIN ============
   events: router({
-    getStats: protectedProcedure.query(async () => {
+    getStats: permissionProcedure(Permissions.CONTENT_READ).query(async () => {
       return getEventStats();
     }),
 
-    getAll: protectedProcedure
+    getAll: permissionProcedure(Permissions.CONTENT_READ)
       .input(
         z.object({
           limit: z.number().min(1).max(500).default(50),
@@ -3534,7 +5599,7 @@ export const appRouter = router({
         return getEvents(input?.limit || 50, input?.offset || 0, input?.status);
       }),
 
-    getById: protectedProcedure
+    getById: permissionProcedure(Permissions.CONTENT_READ)
       .input(z.object({ id: z.string() }))
       .query(async ({ input }) => {
         const event = await getEventById(input.id);
@@ -3544,7 +5609,7 @@ export const appRouter = router({
         return event;
       }),
 
-    update: protectedProcedure
+    update: permissionProcedure(Permissions.CONTENT_WRITE)
       .input(
         z.object({
           id: z.string(),
@@ -3559,7 +5624,7 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    delete: protectedProcedure
+    delete: permissionProcedure(Permissions.CONTENT_DELETE)
       .input(z.object({ id: z.string() }))
       .mutation(async ({ input }) => {
         const success = await deleteEvent(input.id);
@@ -3572,11 +5637,11 @@ export const appRouter = router({
 
   // ============ LIVE SESSIONS ADMIN ============
   liveSessions: router({
-    getStats: protectedProcedure.query(async () => {
+    getStats: permissionProcedure(Permissions.CONTENT_READ).query(async () => {
       return getLiveSessionStats();
     }),
 
-    getAll: protectedProcedure
+    getAll: permissionProcedure(Permissions.CONTENT_READ)
       .input(
         z.object({
           limit: z.number().min(1).max(500).default(50),
@@ -3588,7 +5653,7 @@ export const appRouter = router({
         return getLiveSessions(input?.limit || 50, input?.offset || 0, input?.status);
       }),
 
-    getById: protectedProcedure
+    getById: permissionProcedure(Permissions.CONTENT_READ)
       .input(z.object({ id: z.string() }))
       .query(async ({ input }) => {
         const session = await getLiveSessionById(input.id);
@@ -3598,7 +5663,7 @@ export const appRouter = router({
         return session;
       }),
 
-    update: protectedProcedure
+    update: permissionProcedure(Permissions.CONTENT_WRITE)
       .input(
         z.object({
           id: z.string(),
@@ -3613,7 +5678,7 @@ export const appRouter = router({
         return { success: true };
       }),
 
-    end: protectedProcedure
+    end: permissionProcedure(Permissions.CONTENT_WRITE)
       .input(z.object({ id: z.string() }))
       .mutation(async ({ input }) => {
         const success = await endLiveSession(input.id);
@@ -3626,11 +5691,11 @@ export const appRouter = router({
 
   // ============ LEADS / PROJECT REQUESTS ADMIN ============
   leads: router({
-    getStats: protectedProcedure.query(async () => {
+    getStats: permissionProcedure(Permissions.PROVIDERS_READ).query(async () => {
       return getLeadsStats();
     }),
 
-    getAll: protectedProcedure
+    getAll: permissionProcedure(Permissions.PROVIDERS_READ)
       .input(
         z.object({
           limit: z.number().min(1).max(500).default(50),
@@ -3642,7 +5707,7 @@ export const appRouter = router({
         return getProjectRequests(input?.limit || 50, input?.offset || 0, input?.status);
       }),
 
-    getById: protectedProcedure
+    getById: permissionProcedure(Permissions.PROVIDERS_READ)
       .input(z.object({ id: z.string() }))
       .query(async ({ input }) => {
         const request = await getProjectRequestById(input.id);
@@ -3652,13 +5717,13 @@ export const appRouter = router({
         return request;
       }),
 
-    getBids: protectedProcedure
+    getBids: permissionProcedure(Permissions.PROVIDERS_READ)
       .input(z.object({ requestId: z.string() }))
       .query(async ({ input }) => {
         return getProjectBids(input.requestId);
       }),
 
-    update: protectedProcedure
+    update: permissionProcedure(Permissions.PROVIDERS_WRITE)
       .input(
         z.object({
           id: z.string(),
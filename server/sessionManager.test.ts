@@ -0,0 +1,49 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("./supabaseAuth", () => ({ supabaseAdmin: {} }));
+
+import {
+  getSessionLimitForRoles,
+  getSessionLimitPolicy,
+  SessionLimitActions,
+} from "./sessionManager";
+
+describe("Concurrent session limits", () => {
+  afterEach(() => {
+    delete process.env.MAX_CONCURRENT_SESSIONS;
+    delete process.env.MAX_CONCURRENT_SESSIONS_BY_ROLE;
+    delete process.env.SESSION_LIMIT_ACTION;
+  });
+
+  it("defaults to three sessions and evicting the oldest", () => {
+    expect(getSessionLimitPolicy()).toEqual({
+      defaultLimit: 3,
+      roleLimits: {},
+      action: SessionLimitActions.EVICT_OLDEST,
+    });
+    expect(getSessionLimitForRoles(["support"])).toBe(3);
+  });
+
+  it("applies the strictest limit configured for any of the user's roles", () => {
+    process.env.MAX_CONCURRENT_SESSIONS = "4";
+    process.env.MAX_CONCURRENT_SESSIONS_BY_ROLE = "super_admin:1, support:6, bogus";
+    process.env.SESSION_LIMIT_ACTION = "block";
+
+    const policy = getSessionLimitPolicy();
+    expect(policy.roleLimits).toEqual({ super_admin: 1, support: 6 });
+    expect(policy.action).toBe(SessionLimitActions.BLOCK);
+
+    expect(getSessionLimitForRoles(["super_admin", "support"], policy)).toBe(1);
+    // Roles without their own limit don't pull a configured one down to the default
+    expect(getSessionLimitForRoles(["support", "content_editor"], policy)).toBe(6);
+    expect(getSessionLimitForRoles(["content_editor"], policy)).toBe(4);
+  });
+
+  it("treats 0 as unlimited", () => {
+    process.env.MAX_CONCURRENT_SESSIONS_BY_ROLE = "support:0";
+    expect(getSessionLimitForRoles(["support"])).toBe(0);
+
+    process.env.MAX_CONCURRENT_SESSIONS_BY_ROLE = "support:0,super_admin:2";
+    expect(getSessionLimitForRoles(["support", "super_admin"])).toBe(2);
+  });
+});
@@ -9,9 +9,32 @@ import { supabaseAdmin } from "./supabaseAuth";
 import crypto from "crypto";
 
 // Configuration
-const MAX_CONCURRENT_SESSIONS = 3; // Maximum active sessions per user
+const DEFAULT_MAX_CONCURRENT_SESSIONS = 3; // Maximum active sessions per user
 const SESSION_DURATION_HOURS = 24; // Session duration in hours
 
+// What happens when a sign-in would exceed the concurrent session limit
+export const SessionLimitActions = {
+  EVICT_OLDEST: 'evict_oldest',
+  BLOCK: 'block',
+} as const;
+
+export type SessionLimitAction = typeof SessionLimitActions[keyof typeof SessionLimitActions];
+
+export interface SessionLimitPolicy {
+  // Applies to users none of whose roles has its own limit; 0 means unlimited
+  defaultLimit: number;
+  roleLimits: Record<string, number>;
+  action: SessionLimitAction;
+}
+
+export interface SessionLimitResult {
+  allowed: boolean;
+  limit: number;
+  action: SessionLimitAction;
+  activeSessionCount: number;
+  revokedSessionIds: string[];
+}
+
 export interface SessionInfo {
   id: string;
   userId: string;
@@ -28,10 +51,27 @@ export interface SessionInfo {
 export interface CreateSessionResult {
   success: boolean;
   session?: SessionInfo;
-  revokedSessionId?: string; // If an old session was revoked to make room
   error?: string;
 }
 
+/**
+ * Map a user_sessions row to SessionInfo
+ */
+function mapSession(s: any): SessionInfo {
+  return {
+    id: s.id,
+    userId: s.user_id,
+    sessionToken: s.session_token,
+    refreshToken: s.refresh_token,
+    ipAddress: s.ip_address,
+    userAgent: s.user_agent,
+    deviceFingerprint: s.device_fingerprint,
+    createdAt: new Date(s.created_at),
+    lastActivityAt: new Date(s.last_activity_at),
+    expiresAt: new Date(s.expires_at),
+  };
+}
+
 /**
  * Generate a secure random token
  */
@@ -47,9 +87,114 @@ export function generateDeviceFingerprint(userAgent?: string, ipAddress?: string
   return crypto.createHash('sha256').update(data).digest('hex').substring(0, 16);
 }
 
+/**
+ * Session limit settings from the environment:
+ * MAX_CONCURRENT_SESSIONS (default 3), MAX_CONCURRENT_SESSIONS_BY_ROLE
+ * ("super_admin:2,support:5") and SESSION_LIMIT_ACTION (evict_oldest | block)
+ */
+export function getSessionLimitPolicy(): SessionLimitPolicy {
+  const parseLimit = (value: string | undefined) => {
+    const limit = parseInt(value || '', 10);
+    return Number.isFinite(limit) && limit >= 0 ? limit : null;
+  };
+
+  const roleLimits: Record<string, number> = {};
+  for (const entry of (process.env.MAX_CONCURRENT_SESSIONS_BY_ROLE || '').split(',')) {
+    const [role, value] = entry.split(':').map(part => part.trim());
+    const limit = parseLimit(value);
+    if (role && limit !== null) roleLimits[role] = limit;
+  }
+
+  return {
+    defaultLimit: parseLimit(process.env.MAX_CONCURRENT_SESSIONS) ?? DEFAULT_MAX_CONCURRENT_SESSIONS,
+    roleLimits,
+    action: process.env.SESSION_LIMIT_ACTION === SessionLimitActions.BLOCK
+      ? SessionLimitActions.BLOCK
+      : SessionLimitActions.EVICT_OLDEST,
+  };
+}
+
+/**
+ * Concurrent session limit for a user with these roles: the strictest limit
+ * configured for any of them, else the default (0 = unlimited)
+ */
+export function getSessionLimitForRoles(
+  roles: string[],
+  policy: SessionLimitPolicy = getSessionLimitPolicy()
+): number {
+  const limits = roles
+    .filter(role => role in policy.roleLimits)
+    .map(role => policy.roleLimits[role]);
+  if (limits.length === 0) return policy.defaultLimit;
+
+  const bounded = limits.filter(limit => limit > 0);
+  return bounded.length > 0 ? Math.min(...bounded) : 0;
+}
+
+/**
+ * Make room for a new session before sign-in completes: at the limit, either
+ * revoke the oldest active sessions or refuse the sign-in (per policy)
+ */
+export async function enforceSessionLimit(userId: string, roles: string[]): Promise<SessionLimitResult> {
+  const policy = getSessionLimitPolicy();
+  const limit = getSessionLimitForRoles(roles, policy);
+  const result: SessionLimitResult = {
+    allowed: true,
+    limit,
+    action: policy.action,
+    activeSessionCount: 0,
+    revokedSessionIds: [],
+  };
+  if (limit === 0) return result;
+
+  try {
+    const { data: active, error } = await supabaseAdmin
+      .from('user_sessions')
+      .select('id')
+      .eq('user_id', userId)
+      .is('revoked_at', null)
+      .gt('expires_at', new Date().toISOString())
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      // Fail open: an unreadable session table must not lock everyone out
+      console.error('[SessionManager] Error counting sessions:', error);
+      return result;
+    }
+
+    result.activeSessionCount = active?.length || 0;
+    const excess = result.activeSessionCount - limit + 1;
+    if (excess <= 0) return result;
+
+    if (policy.action === SessionLimitActions.BLOCK) {
+      return { ...result, allowed: false };
+    }
+
+    const oldestIds = (active || []).slice(0, excess).map(s => s.id as string);
+    const { error: revokeError } = await supabaseAdmin
+      .from('user_sessions')
+      .update({
+        revoked_at: new Date().toISOString(),
+        revoked_reason: 'session_limit',
+      })
+      .in('id', oldestIds);
+
+    if (revokeError) {
+      console.error('[SessionManager] Error revoking old sessions:', revokeError);
+      return result;
+    }
+
+    console.log(`[SessionManager] Revoked ${oldestIds.length} oldest session(s) for user ${userId} (limit ${limit})`);
+    return { ...result, revokedSessionIds: oldestIds };
+  } catch (err) {
+    console.error('[SessionManager] Exception enforcing session limit:', err);
+    return result;
+  }
+}
+
 /**
  * Create a new session for a user
- * Enforces concurrent session limits by revoking oldest session if needed
+ * (call enforceSessionLimit first to keep within the concurrent session limit)
  */
 export async function createSession(
   userId: string,
@@ -58,32 +203,6 @@ export async function createSession(
   userAgent?: string
 ): Promise<CreateSessionResult> {
   try {
-    // Count current active sessions
-    const { data: countData, error: countError } = await supabaseAdmin
-      .rpc('count_active_sessions', { p_user_id: userId });
-
-    if (countError) {
-      console.error('[SessionManager] Error counting sessions:', countError);
-      return { success: false, error: 'Failed to check session count' };
-    }
-
-    const activeSessionCount = countData || 0;
-    let revokedSessionId: string | undefined;
-
-    // If at limit, revoke oldest session
-    if (activeSessionCount >= MAX_CONCURRENT_SESSIONS) {
-      const { data: revokedId, error: revokeError } = await supabaseAdmin
-        .rpc('revoke_oldest_session', { p_user_id: userId });
-
-      if (revokeError) {
-        console.error('[SessionManager] Error revoking old session:', revokeError);
-        // Continue anyway - we'll try to create the new session
-      } else {
-        revokedSessionId = revokedId;
-        console.log(`[SessionManager] Revoked oldest session ${revokedId} for user ${userId}`);
-      }
-    }
-
     // Create new session
     const sessionToken = generateToken();
     const refreshToken = generateToken();
@@ -123,7 +242,6 @@ export async function createSession(
         lastActivityAt: new Date(session.last_activity_at),
         expiresAt: new Date(session.expires_at),
       },
-      revokedSessionId,
     };
   } catch (err) {
     console.error('[SessionManager] Exception creating session:', err);
@@ -265,6 +383,86 @@ export async function getUserSessions(userId: string): Promise<SessionInfo[]> {
   }
 }
 
+/**
+ * Get all active sessions across all users (super admin view)
+ */
+export async function getAllActiveSessions(userId?: string, limit: number = 500): Promise<SessionInfo[]> {
+  try {
+    let query = supabaseAdmin
+      .from('user_sessions')
+      .select('*')
+      .is('revoked_at', null)
+      .gt('expires_at', new Date().toISOString())
+      .order('last_activity_at', { ascending: false })
+      .limit(limit);
+
+    if (userId) {
+      query = query.eq('user_id', userId);
+    }
+
+    const { data: sessions, error } = await query;
+
+    if (error || !sessions) {
+      if (error) console.error('[SessionManager] Error getting all sessions:', error);
+      return [];
+    }
+
+    return sessions.map(mapSession);
+  } catch (err) {
+    console.error('[SessionManager] Exception getting all sessions:', err);
+    return [];
+  }
+}
+
+/**
+ * Get a single session by ID
+ */
+export async function getSessionById(sessionId: string): Promise<SessionInfo | null> {
+  try {
+    const { data: session, error } = await supabaseAdmin
+      .from('user_sessions')
+      .select('*')
+      .eq('id', sessionId)
+      .maybeSingle();
+
+    if (error || !session) {
+      return null;
+    }
+
+    return mapSession(session);
+  } catch (err) {
+    console.error('[SessionManager] Exception getting session:', err);
+    return null;
+  }
+}
+
+/**
+ * Check whether a token belongs to a tracked, unrevoked and unexpired session
+ * (only sign-ins that went through completeLogin have one, so tokens obtained
+ * directly from Supabase are rejected; errors fail closed)
+ */
+export async function isSessionActive(sessionToken: string): Promise<boolean> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('user_sessions')
+      .select('id')
+      .eq('session_token', sessionToken)
+      .is('revoked_at', null)
+      .gt('expires_at', new Date().toISOString())
+      .limit(1);
+
+    if (error) {
+      console.error('[SessionManager] Error checking session:', error);
+      return false;
+    }
+
+    return (data || []).length > 0;
+  } catch (err) {
+    console.error('[SessionManager] Exception checking session:', err);
+    return false;
+  }
+}
+
 /**
  * Revoke session by token (for logout)
  */
@@ -292,3 +490,54 @@ export async function revokeSessionByToken(
     return false;
   }
 }
+
+/**
+ * Record that the session's user just re-entered their password (step-up)
+ */
+export async function recordSessionReauthentication(sessionToken: string): Promise<boolean> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('user_sessions')
+      .update({ reauthenticated_at: new Date().toISOString() })
+      .eq('session_token', sessionToken)
+      .is('revoked_at', null)
+      .select('id');
+
+    if (error) {
+      console.error('[SessionManager] Error recording re-authentication:', error);
+      return false;
+    }
+
+    return (data || []).length > 0;
+  } catch (err) {
+    console.error('[SessionManager] Exception recording re-authentication:', err);
+    return false;
+  }
+}
+
+/**
+ * When the session last re-authenticated, or null if never (or untracked)
+ */
+export async function getSessionReauthenticatedAt(sessionToken: string): Promise<Date | null> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('user_sessions')
+      .select('reauthenticated_at')
+      .eq('session_token', sessionToken)
+      .is('revoked_at', null)
+      .not('reauthenticated_at', 'is', null)
+      .order('reauthenticated_at', { ascending: false })
+      .limit(1);
+
+    if (error) {
+      console.error('[SessionManager] Error reading re-authentication:', error);
+      return null;
+    }
+
+    const row = (data || [])[0];
+    return row ? new Date(row.reauthenticated_at) : null;
+  } catch (err) {
+    console.error('[SessionManager] Exception reading re-authentication:', err);
+    return null;
+  }
+}
@@ -0,0 +1,42 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+const { getSessionReauthenticatedAt } = vi.hoisted(() => ({ getSessionReauthenticatedAt: vi.fn() }));
+vi.mock("./sessionManager", () => ({ getSessionReauthenticatedAt }));
+
+import { hasFreshStepUp, isStepUpFresh, STEP_UP_PROCEDURES } from "./stepUpAuth";
+
+describe("Step-up authentication", () => {
+  afterEach(() => {
+    delete process.env.STEP_UP_WINDOW_MINUTES;
+    getSessionReauthenticatedAt.mockReset();
+  });
+
+  it("covers the destructive user and place procedures", () => {
+    expect(STEP_UP_PROCEDURES.has("users.delete")).toBe(true);
+    expect(STEP_UP_PROCEDURES.has("users.updateEmail")).toBe(true);
+    expect(STEP_UP_PROCEDURES.has("users.addRole")).toBe(true);
+    expect(STEP_UP_PROCEDURES.has("placeEdit.delete")).toBe(true);
+    expect(STEP_UP_PROCEDURES.has("users.list")).toBe(false);
+  });
+
+  it("treats re-authentications within the window as fresh", () => {
+    const now = new Date("2026-03-01T12:00:00Z");
+    expect(isStepUpFresh(new Date("2026-03-01T11:56:00Z"), now)).toBe(true);
+    expect(isStepUpFresh(new Date("2026-03-01T11:54:00Z"), now)).toBe(false);
+    expect(isStepUpFresh(null, now)).toBe(false);
+
+    process.env.STEP_UP_WINDOW_MINUTES = "10";
+    expect(isStepUpFresh(new Date("2026-03-01T11:54:00Z"), now)).toBe(true);
+  });
+
+  it("requires a session token and a recorded re-authentication", async () => {
+    await expect(hasFreshStepUp(undefined)).resolves.toBe(false);
+    expect(getSessionReauthenticatedAt).not.toHaveBeenCalled();
+
+    getSessionReauthenticatedAt.mockResolvedValueOnce(null);
+    await expect(hasFreshStepUp("token")).resolves.toBe(false);
+
+    getSessionReauthenticatedAt.mockResolvedValueOnce(new Date());
+    await expect(hasFreshStepUp("token")).resolves.toBe(true);
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Step-Up Authentication Module
+ *
+ * Sensitive procedures need more than a valid session cookie: the admin must
+ * have re-authenticated on this session within the last few minutes, with
+ * their password (auth.reauthenticate) or a passkey
+ * (auth.reauthenticateWithPasskey). Without that, the procedure fails with
+ * STEP_UP_REQUIRED_ERR_MSG and the client prompts for either and retries.
+ */
+
+import { getSessionReauthenticatedAt } from "./sessionManager";
+
+// Configuration
+const DEFAULT_WINDOW_MINUTES = 5;
+
+// Procedures that require a recent re-authentication
+export const STEP_UP_PROCEDURES: ReadonlySet<string> = new Set([
+  "users.delete",
+  "users.updateEmail",
+  "users.addRole",
+  "placeEdit.delete",
+  "pendingOperations.review",
+]);
+
+/**
+ * How long a re-authentication stays fresh (STEP_UP_WINDOW_MINUTES)
+ */
+export function getStepUpWindowMinutes(): number {
+  const minutes = parseInt(process.env.STEP_UP_WINDOW_MINUTES || '', 10);
+  return Number.isFinite(minutes) && minutes > 0 ? minutes : DEFAULT_WINDOW_MINUTES;
+}
+
+/**
+ * Whether a re-authentication time is still within the window
+ */
+export function isStepUpFresh(reauthenticatedAt: Date | null, now: Date = new Date()): boolean {
+  if (!reauthenticatedAt) return false;
+  return now.getTime() - reauthenticatedAt.getTime() <= getStepUpWindowMinutes() * 60 * 1000;
+}
+
+/**
+ * Whether the session behind this token re-authenticated recently
+ */
+export async function hasFreshStepUp(sessionToken: string | undefined): Promise<boolean> {
+  if (!sessionToken) return false;
+  return isStepUpFresh(await getSessionReauthenticatedAt(sessionToken));
+}
@@ -40,18 +40,69 @@ export async function signInWithEmail(email: string, password: string) {
   return { user: data.user, session: data.session, error: null };
 }
 
+/**
+ * Check a user's password without leaving a session behind: Supabase can only
+ * check a password by signing in, so the session it issues is revoked at once
+ */
+export async function verifyUserPassword(email: string, password: string) {
+  const { data, error } = await supabaseAuth.auth.signInWithPassword({
+    email,
+    password,
+  });
+
+  if (error || !data.session) {
+    return { valid: false, error: error?.message || "Invalid credentials" };
+  }
+
+  const { error: signOutError } = await supabaseAdmin.auth.admin.signOut(data.session.access_token, 'local');
+  if (signOutError) {
+    console.error('[SupabaseAuth] Failed to revoke password check session:', signOutError.message);
+  }
+
+  return { valid: true, error: null };
+}
+
+/**
+ * Issue a session for an already-authenticated user (e.g. after a passkey
+ * ceremony) by generating and immediately redeeming a magic link server-side
+ */
+export async function createSessionForEmail(email: string) {
+  const { data: linkData, error: linkError } = await supabaseAdmin.auth.admin.generateLink({
+    type: 'magiclink',
+    email,
+  });
+
+  if (linkError || !linkData.properties?.hashed_token) {
+    return { user: null, session: null, error: linkError?.message || "Failed to create session" };
+  }
+
+  const { data, error } = await supabaseAuth.auth.verifyOtp({
+    type: 'magiclink',
+    token_hash: linkData.properties.hashed_token,
+  });
+
+  if (error || !data.session) {
+    return { user: null, session: null, error: error?.message || "Failed to create session" };
+  }
+
+  return { user: data.user, session: data.session, error: null };
+}
+
 export async function signUpWithEmail(
   email: string,
   password: string,
-  fullName: string
+  fullName: string,
+  options: { metadata?: Record<string, unknown>; emailRedirectTo?: string } = {}
 ) {
   const { data, error } = await supabaseAuth.auth.signUp({
     email,
     password,
     options: {
       data: {
+        ...options.metadata,
         full_name: fullName,
       },
+      emailRedirectTo: options.emailRedirectTo,
     },
   });
 
@@ -62,6 +113,52 @@ export async function signUpWithEmail(
   return { user: data.user, session: data.session, error: null };
 }
 
+/**
+ * Set a user's password and record when it changed (used for rotation)
+ */
+export async function updateUserPassword(userId: string, password: string) {
+  const { error } = await supabaseAdmin.auth.admin.updateUserById(userId, {
+    password,
+    // Merged into the existing app_metadata
+    app_metadata: { password_changed_at: new Date().toISOString() },
+  });
+
+  return { error: error?.message || null };
+}
+
+/**
+ * Email a password reset link that lands on redirectTo with a recovery
+ * access token in the fragment
+ */
+export async function sendPasswordResetEmail(email: string, redirectTo: string) {
+  const { error } = await supabaseAuth.auth.resetPasswordForEmail(email, { redirectTo });
+  return { error: error?.message || null };
+}
+
+/**
+ * Whether an access token (already verified) comes from a password recovery
+ * link rather than a normal sign-in
+ */
+export function isRecoveryToken(token: string): boolean {
+  try {
+    const payload = JSON.parse(Buffer.from(token.split('.')[1] || '', 'base64url').toString('utf8'));
+    return Array.isArray(payload.amr) && payload.amr.some((entry: { method?: string }) => entry?.method === 'recovery');
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * End every Supabase session of the token's user (e.g. after a password reset)
+ */
+export async function signOutEverywhere(token: string) {
+  const { error } = await supabaseAdmin.auth.admin.signOut(token, 'global');
+  if (error) {
+    console.error('[SupabaseAuth] Failed to end sessions:', error.message);
+  }
+  return { error: error?.message || null };
+}
+
 export async function verifySupabaseToken(token: string) {
   const {
     data: { user },
@@ -75,6 +172,16 @@ export async function verifySupabaseToken(token: string) {
   return user;
 }
 
+export async function getAuthUserById(userId: string) {
+  const { data, error } = await supabaseAdmin.auth.admin.getUserById(userId);
+
+  if (error || !data.user) {
+    return null;
+  }
+
+  return data.user;
+}
+
 export async function signOut() {
   const { error } = await supabaseAuth.auth.signOut();
   return { error: error?.message || null };
@@ -1,4 +1,5 @@
 import { supabaseAdmin } from "./supabaseAuth";
+import { logAuditEvent } from "./auditLog";
 
 // Use the admin client with service role key for all database operations
 // This bypasses RLS policies and allows full access to all tables
@@ -2399,45 +2400,10 @@ export async function reviewModerationItem(
 }
 
 // ============ ADMIN ACTIVITY LOG (AUDIT) ============
-export interface AdminActivityLog {
-  id: string;
-  admin_id: string;
-  action_type: string;
-  target_id: string | null;
-  target_type: string | null;
-  notes: string | null;
-  created_at: string;
-}
-
-export async function getAdminActivityLog(
-  limit: number = 100,
-  adminId?: string
-): Promise<AdminActivityLog[]> {
-  try {
-    let query = supabase
-      .from("admin_activity_log")
-      .select("*")
-      .order("created_at", { ascending: false })
-      .limit(limit);
-
-    if (adminId) {
-      query = query.eq("admin_id", adminId);
-    }
-
-    const { data, error } = await query;
-
-    if (error) {
-      console.error("[Supabase] Get admin activity log error:", error);
-      return [];
-    }
-
-    return data || [];
-  } catch (error) {
-    console.error("[Supabase] Get admin activity log error:", error);
-    return [];
-  }
-}
-
+/**
+ * Record an admin action in the unified audit_log event stream
+ * (admin_activity_log is no longer written; see migration 017)
+ */
 export async function logAdminActivity(
   adminId: string,
   actionType: string,
@@ -2445,27 +2411,14 @@ export async function logAdminActivity(
   targetType?: string,
   notes?: string
 ): Promise<boolean> {
-  try {
-    const { error } = await supabase
-      .from("admin_activity_log")
-      .insert({
-        admin_id: adminId,
-        action_type: actionType,
-        target_id: targetId || null,
-        target_type: targetType || null,
-        notes: notes || null,
-      });
-
-    if (error) {
-      console.error("[Supabase] Log admin activity error:", error);
-      return false;
-    }
-
-    return true;
-  } catch (error) {
-    console.error("[Supabase] Log admin activity error:", error);
-    return false;
-  }
+  return logAuditEvent({
+    // Some callers fall back to "unknown" when there is no session
+    userId: adminId && adminId !== "unknown" ? adminId : undefined,
+    action: actionType,
+    resourceType: targetType || "unknown",
+    resourceId: targetId,
+    details: notes ? { notes } : {},
+  });
 }
 
 // ============ PLACE OVERRIDES ============
@@ -3566,7 +3519,8 @@ export async function getStories(
   limit: number = 50,
   offset: number = 0,
   status?: string,
-  hasReports?: boolean
+  hasReports?: boolean,
+  userId?: string
 ): Promise<{ stories: PlaceStory[]; total: number }> {
   try {
     let query = supabase
@@ -3581,6 +3535,10 @@ export async function getStories(
       query = query.eq("status", status);
     }
 
+    if (userId) {
+      query = query.eq("user_id", userId);
+    }
+
     const { data, error, count } = await query
       .range(offset, offset + limit - 1)
       .order("created_at", { ascending: false });
@@ -5464,13 +5422,20 @@ export async function getPlaceOverridesAdmin(
 
 export async function getTavvyPlaces(
   limit: number = 50,
-  offset: number = 0
+  offset: number = 0,
+  createdBy?: string
 ): Promise<{ places: TavvyPlace[]; total: number }> {
   try {
-    const { data, error, count } = await supabase
+    let query = supabase
       .from("tavvy_places")
       .select("*", { count: "exact" })
-      .eq("is_deleted", false)
+      .eq("is_deleted", false);
+
+    if (createdBy) {
+      query = query.eq("created_by", createdBy);
+    }
+
+    const { data, error, count } = await query
       .order("created_at", { ascending: false })
       .range(offset, offset + limit - 1);
 
@@ -6367,7 +6332,7 @@ export async function updateBadgeApprovalStatus(
 }
 
 // ============ DIGITAL CARDS (eCards) ADMIN ============
-export async function getDigitalCards(limit = 50, offset = 0, search?: string) {
+export async function getDigitalCards(limit = 50, offset = 0, search?: string, userId?: string) {
   let query = supabase
     .from("digital_cards")
     .select("*", { count: "exact" })
@@ -6378,6 +6343,10 @@ export async function getDigitalCards(limit = 50, offset = 0, search?: string) {
     query = query.or(`full_name.ilike.%${search}%,company.ilike.%${search}%,email.ilike.%${search}%,slug.ilike.%${search}%`);
   }
 
+  if (userId) {
+    query = query.eq("user_id", userId);
+  }
+
   const { data, error, count } = await query;
   if (error) {
     console.error("[Supabase] getDigitalCards error:", error);
@@ -6590,6 +6559,24 @@ export async function endLiveSession(id: string) {
   return true;
 }
 
+// End sessions still marked active well past their scheduled end
+export async function endStaleLiveSessions(graceMinutes = 60) {
+  const now = new Date();
+  const cutoff = new Date(now.getTime() - graceMinutes * 60 * 1000).toISOString();
+  const { data, error } = await supabase
+    .from("live_sessions")
+    .update({ status: "ended", actual_end_at: now.toISOString(), updated_at: now.toISOString() })
+    .eq("status", "active")
+    .lt("scheduled_end_at", cutoff)
+    .select("id");
+
+  if (error) {
+    console.error("[Supabase] endStaleLiveSessions error:", error);
+    return 0;
+  }
+  return data?.length || 0;
+}
+
 export async function getLiveSessionStats() {
   const { count: total } = await supabase.from("live_sessions").select("*", { count: "exact", head: true });
   const { count: active } = await supabase.from("live_sessions").select("*", { count: "exact", head: true }).eq("status", "active");
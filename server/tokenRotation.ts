@@ -268,6 +268,36 @@ export async function revokeAllUserTokens(
   }
 }
 
+/**
+ * Revoke all refresh tokens issued for a session
+ */
+export async function revokeSessionTokens(
+  sessionId: string,
+  reason: string = 'session_revoked'
+): Promise<number> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('refresh_tokens')
+      .update({
+        revoked_at: new Date().toISOString(),
+        revoked_reason: reason,
+      })
+      .eq('session_id', sessionId)
+      .is('revoked_at', null)
+      .select();
+
+    if (error) {
+      console.error('[TokenRotation] Error revoking session tokens:', error);
+      return 0;
+    }
+
+    return data?.length || 0;
+  } catch (err) {
+    console.error('[TokenRotation] Exception revoking session tokens:', err);
+    return 0;
+  }
+}
+
 /**
  * Get active refresh tokens for a user (for admin view)
  */
@@ -338,8 +368,3 @@ export async function cleanupOldTokens(): Promise<number> {
     return 0;
   }
 }
-
-// Run cleanup periodically (every 6 hours)
-setInterval(() => {
-  cleanupOldTokens().catch(err => console.error('[TokenRotation] Cleanup error:', err));
-}, 6 * 60 * 60 * 1000);
@@ -0,0 +1,400 @@
+/**
+ * Trusted Devices Module
+ *
+ * Devices an admin has named and marked as trusted; signing in from one is
+ * not reported as a new-device anomaly. A sign-in from a device that is
+ * neither trusted nor seen before emails the admin a single-use link to
+ * either trust the device or sign that session out.
+ */
+
+import crypto from "crypto";
+import { supabaseAdmin } from "./supabaseAuth";
+import { escapeHtml, sendEmail } from "./alertService";
+
+// Configuration
+const MAX_TRUSTED_DEVICES_PER_USER = 20;
+const CONFIRMATION_TTL_HOURS = 24;
+
+export interface TrustedDeviceInfo {
+  id: string;
+  deviceFingerprint: string;
+  name: string;
+  userAgent?: string;
+  ipAddress?: string;
+  createdAt: Date;
+  lastUsedAt?: Date;
+}
+
+export interface DeviceConfirmationInfo {
+  id: string;
+  userId: string;
+  sessionId?: string;
+  deviceFingerprint: string;
+  userAgent?: string;
+  ipAddress?: string;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+export interface NewDeviceSignIn {
+  userId: string;
+  email: string;
+  sessionId?: string;
+  deviceFingerprint: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+function mapTrustedDevice(d: any): TrustedDeviceInfo {
+  return {
+    id: d.id,
+    deviceFingerprint: d.device_fingerprint,
+    name: d.name,
+    userAgent: d.user_agent || undefined,
+    ipAddress: d.ip_address || undefined,
+    createdAt: new Date(d.created_at),
+    lastUsedAt: d.last_used_at ? new Date(d.last_used_at) : undefined,
+  };
+}
+
+function mapConfirmation(c: any): DeviceConfirmationInfo {
+  return {
+    id: c.id,
+    userId: c.user_id,
+    sessionId: c.session_id || undefined,
+    deviceFingerprint: c.device_fingerprint,
+    userAgent: c.user_agent || undefined,
+    ipAddress: c.ip_address || undefined,
+    createdAt: new Date(c.created_at),
+    expiresAt: new Date(c.expires_at),
+  };
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Readable default name for a device, e.g. "Chrome on macOS"
+ */
+export function describeDevice(userAgent?: string): string {
+  if (!userAgent) return 'Unknown device';
+
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge' :
+    /OPR\//.test(userAgent) ? 'Opera' :
+    /Firefox\//.test(userAgent) ? 'Firefox' :
+    /Chrome\//.test(userAgent) ? 'Chrome' :
+    /Safari\//.test(userAgent) ? 'Safari' :
+    null;
+  const os =
+    /iPhone|iPad/.test(userAgent) ? 'iOS' :
+    /Android/.test(userAgent) ? 'Android' :
+    /Mac OS X/.test(userAgent) ? 'macOS' :
+    /Windows/.test(userAgent) ? 'Windows' :
+    /Linux/.test(userAgent) ? 'Linux' :
+    null;
+
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os || 'Unknown device';
+}
+
+// ============ TRUSTED DEVICES ============
+
+/**
+ * List a user's trusted devices, most recently used first
+ */
+export async function listTrustedDevices(userId: string): Promise<TrustedDeviceInfo[]> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('trusted_devices')
+      .select('id, device_fingerprint, name, user_agent, ip_address, created_at, last_used_at')
+      .eq('user_id', userId)
+      .order('last_used_at', { ascending: false, nullsFirst: false });
+
+    if (error) {
+      console.error('[TrustedDevices] Error listing devices:', error);
+      return [];
+    }
+
+    return (data || []).map(mapTrustedDevice);
+  } catch (err) {
+    console.error('[TrustedDevices] Exception listing devices:', err);
+    return [];
+  }
+}
+
+/**
+ * Whether the user trusts this device; records the use when it does
+ */
+export async function isTrustedDevice(userId: string, deviceFingerprint: string): Promise<boolean> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('trusted_devices')
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .eq('device_fingerprint', deviceFingerprint)
+      .select('id');
+
+    if (error) {
+      console.error('[TrustedDevices] Error checking device:', error);
+      return false;
+    }
+
+    return (data || []).length > 0;
+  } catch (err) {
+    console.error('[TrustedDevices] Exception checking device:', err);
+    return false;
+  }
+}
+
+/**
+ * Trust a device (or rename it if already trusted). Returns null on failure
+ * or when the user already has the maximum number of trusted devices.
+ */
+export async function trustDevice(
+  userId: string,
+  deviceFingerprint: string,
+  name: string,
+  userAgent?: string,
+  ipAddress?: string
+): Promise<TrustedDeviceInfo | null> {
+  try {
+    const { data: existing, error: listError } = await supabaseAdmin
+      .from('trusted_devices')
+      .select('device_fingerprint')
+      .eq('user_id', userId);
+
+    if (listError) {
+      console.error('[TrustedDevices] Error counting devices:', listError);
+      return null;
+    }
+
+    const alreadyTrusted = (existing || []).some(d => d.device_fingerprint === deviceFingerprint);
+    if (!alreadyTrusted && (existing || []).length >= MAX_TRUSTED_DEVICES_PER_USER) {
+      console.warn(`[TrustedDevices] User ${userId} reached the trusted device limit`);
+      return null;
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('trusted_devices')
+      .upsert(
+        {
+          user_id: userId,
+          device_fingerprint: deviceFingerprint,
+          name,
+          user_agent: userAgent || null,
+          ip_address: ipAddress || null,
+          last_used_at: new Date().toISOString(),
+        },
+        { onConflict: 'user_id,device_fingerprint' }
+      )
+      .select('id, device_fingerprint, name, user_agent, ip_address, created_at, last_used_at')
+      .single();
+
+    if (error || !data) {
+      console.error('[TrustedDevices] Error trusting device:', error);
+      return null;
+    }
+
+    return mapTrustedDevice(data);
+  } catch (err) {
+    console.error('[TrustedDevices] Exception trusting device:', err);
+    return null;
+  }
+}
+
+/**
+ * Rename one of a user's trusted devices
+ */
+export async function renameTrustedDevice(userId: string, deviceId: string, name: string): Promise<boolean> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('trusted_devices')
+      .update({ name })
+      .eq('id', deviceId)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) {
+      console.error('[TrustedDevices] Error renaming device:', error);
+      return false;
+    }
+
+    return !!data && data.length > 0;
+  } catch (err) {
+    console.error('[TrustedDevices] Exception renaming device:', err);
+    return false;
+  }
+}
+
+/**
+ * Stop trusting one of a user's devices
+ */
+export async function removeTrustedDevice(userId: string, deviceId: string): Promise<boolean> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('trusted_devices')
+      .delete()
+      .eq('id', deviceId)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) {
+      console.error('[TrustedDevices] Error removing device:', error);
+      return false;
+    }
+
+    return !!data && data.length > 0;
+  } catch (err) {
+    console.error('[TrustedDevices] Exception removing device:', err);
+    return false;
+  }
+}
+
+// ============ NEW DEVICE CONFIRMATION ============
+
+/**
+ * Store a confirmation for a new-device sign-in and return its link token
+ * (only the hash is kept)
+ */
+export async function createDeviceConfirmation(signIn: NewDeviceSignIn): Promise<string | null> {
+  const token = crypto.randomBytes(32).toString('base64url');
+
+  try {
+    const { error } = await supabaseAdmin
+      .from('device_confirmations')
+      .insert({
+        user_id: signIn.userId,
+        session_id: signIn.sessionId || null,
+        device_fingerprint: signIn.deviceFingerprint,
+        token_hash: hashToken(token),
+        user_agent: signIn.userAgent || null,
+        ip_address: signIn.ipAddress || null,
+        expires_at: new Date(Date.now() + CONFIRMATION_TTL_HOURS * 60 * 60 * 1000).toISOString(),
+      });
+
+    if (error) {
+      console.error('[TrustedDevices] Error creating confirmation:', error);
+      return null;
+    }
+
+    return token;
+  } catch (err) {
+    console.error('[TrustedDevices] Exception creating confirmation:', err);
+    return null;
+  }
+}
+
+/**
+ * Look up a pending (unused, unexpired) confirmation without consuming it
+ */
+export async function getDeviceConfirmation(token: string): Promise<DeviceConfirmationInfo | null> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('device_confirmations')
+      .select('*')
+      .eq('token_hash', hashToken(token))
+      .is('confirmed_at', null)
+      .is('denied_at', null)
+      .gt('expires_at', new Date().toISOString())
+      .maybeSingle();
+
+    if (error || !data) {
+      if (error) console.error('[TrustedDevices] Error reading confirmation:', error);
+      return null;
+    }
+
+    return mapConfirmation(data);
+  } catch (err) {
+    console.error('[TrustedDevices] Exception reading confirmation:', err);
+    return null;
+  }
+}
+
+/**
+ * Consume a confirmation link: "confirmed" (it was me) or "denied" (it
+ * wasn't). Returns the confirmation, or null if the link is invalid, expired
+ * or already used. Trusting the device / revoking the session is up to the caller.
+ */
+export async function redeemDeviceConfirmation(
+  token: string,
+  decision: 'confirmed' | 'denied'
+): Promise<DeviceConfirmationInfo | null> {
+  try {
+    // Single use: only the first update that still sees both columns empty wins
+    const { data, error } = await supabaseAdmin
+      .from('device_confirmations')
+      .update(decision === 'confirmed'
+        ? { confirmed_at: new Date().toISOString() }
+        : { denied_at: new Date().toISOString() })
+      .eq('token_hash', hashToken(token))
+      .is('confirmed_at', null)
+      .is('denied_at', null)
+      .gt('expires_at', new Date().toISOString())
+      .select('*');
+
+    if (error) {
+      console.error('[TrustedDevices] Error redeeming confirmation:', error);
+      return null;
+    }
+
+    return data && data.length > 0 ? mapConfirmation(data[0]) : null;
+  } catch (err) {
+    console.error('[TrustedDevices] Exception redeeming confirmation:', err);
+    return null;
+  }
+}
+
+/**
+ * Email the admin about a sign-in from a new device, with a link to confirm
+ * it. Needs ADMIN_PORTAL_URL (links are never built from request headers).
+ */
+export async function sendNewDeviceConfirmation(signIn: NewDeviceSignIn): Promise<boolean> {
+  const portalUrl = process.env.ADMIN_PORTAL_URL?.replace(/\/+$/, '');
+  if (!portalUrl) {
+    console.log('[TrustedDevices] New-device emails not configured (missing ADMIN_PORTAL_URL)');
+    return false;
+  }
+
+  const token = await createDeviceConfirmation(signIn);
+  if (!token) return false;
+
+  const link = `${portalUrl}/device/confirm#token=${token}`;
+  const device = escapeHtml(describeDevice(signIn.userAgent));
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2 style="color: #111827;">New sign-in to your Tavvy admin account</h2>
+      <p style="color: #374151;">
+        Your account was just used to sign in from a device we haven't seen before.
+      </p>
+      <table style="width: 100%; border-collapse: collapse; margin: 15px 0;">
+        <tr>
+          <td style="padding: 8px 0; color: #6b7280; width: 120px;">Device</td>
+          <td style="padding: 8px 0; color: #111827;">${device}</td>
+        </tr>
+        <tr>
+          <td style="padding: 8px 0; color: #6b7280;">IP Address</td>
+          <td style="padding: 8px 0; color: #111827;">${escapeHtml(signIn.ipAddress || 'unknown')}</td>
+        </tr>
+        <tr>
+          <td style="padding: 8px 0; color: #6b7280;">Time</td>
+          <td style="padding: 8px 0; color: #111827;">${new Date().toISOString()}</td>
+        </tr>
+      </table>
+      <p style="color: #374151;">
+        Open the link below to confirm it was you and trust this device, or to sign it out if it wasn't.
+        The link expires in ${CONFIRMATION_TTL_HOURS} hours.
+      </p>
+      <a href="${link}" style="display: inline-block; background: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: 500;">
+        Review this sign-in
+      </a>
+    </div>
+  `;
+
+  const sent = await sendEmail([signIn.email], 'New sign-in to your Tavvy admin account', html);
+  if (sent) {
+    console.log(`[TrustedDevices] New-device confirmation sent to ${signIn.email}`);
+  }
+  return sent;
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("./supabaseAuth", () => ({ supabaseAdmin: {} }));
+
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpAuthUrl,
+  generateRecoveryCodes,
+  generateTotp,
+  getTotpStep,
+  verifyTotp,
+} from "./twoFactor";
+
+// RFC 6238 test secret ("12345678901234567890"), 6-digit truncation of the SHA-1 vectors
+const RFC_SECRET = base32Encode(Buffer.from("12345678901234567890"));
+
+describe("two-factor TOTP", () => {
+  it("round-trips base32", () => {
+    expect(RFC_SECRET).toBe("GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ");
+    expect(base32Decode(RFC_SECRET.toLowerCase()).toString()).toBe("12345678901234567890");
+  });
+
+  it("matches the RFC 6238 test vectors", () => {
+    expect(generateTotp(RFC_SECRET, 59 * 1000)).toBe("287082");
+    expect(generateTotp(RFC_SECRET, 1111111109 * 1000)).toBe("081804");
+    expect(generateTotp(RFC_SECRET, 1234567890 * 1000)).toBe("005924");
+  });
+
+  it("accepts codes within one step of drift and rejects others", () => {
+    const now = 1234567890 * 1000;
+    const previous = generateTotp(RFC_SECRET, now - 30 * 1000);
+    const stale = generateTotp(RFC_SECRET, now - 90 * 1000);
+
+    expect(verifyTotp(RFC_SECRET, previous, null, now)).toBe(getTotpStep(now) - 1);
+    expect(verifyTotp(RFC_SECRET, stale, null, now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "abc123", null, now)).toBeNull();
+  });
+
+  it("rejects a code that was already used", () => {
+    const now = 1234567890 * 1000;
+    const code = generateTotp(RFC_SECRET, now);
+    const step = verifyTotp(RFC_SECRET, code, null, now);
+
+    expect(step).toBe(getTotpStep(now));
+    expect(verifyTotp(RFC_SECRET, code, step, now)).toBeNull();
+  });
+
+  it("builds an otpauth URL for authenticator apps", () => {
+    const url = buildOtpAuthUrl(RFC_SECRET, "admin@example.com");
+    expect(url.startsWith("otpauth://totp/Tavvy%20Admin%3Aadmin%40example.com?")).toBe(true);
+    expect(url).toContain(`secret=${RFC_SECRET}`);
+  });
+
+  it("generates unique recovery codes", () => {
+    const codes = generateRecoveryCodes();
+    expect(codes).toHaveLength(10);
+    expect(new Set(codes).size).toBe(10);
+    for (const code of codes) {
+      expect(code).toMatch(/^[a-z2-7]{5}-[a-z2-7]{5}$/);
+    }
+  });
+});
@@ -0,0 +1,609 @@
+/**
+ * Two-Factor Authentication Module
+ *
+ * Implements TOTP (RFC 6238) enrollment and verification, one-time recovery
+ * codes, and short-lived login challenges used between the password step
+ * and the second-factor step of portal login.
+ * TOTP secrets and pending session tokens are stored encrypted (AES-256-GCM).
+ */
+
+import crypto from "crypto";
+import QRCode from "qrcode";
+import { supabaseAdmin } from "./supabaseAuth";
+
+// Configuration
+const TOTP_ISSUER = 'Tavvy Admin';
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const TOTP_WINDOW_STEPS = 1; // Accept codes from one step before/after (clock drift)
+const TOTP_SECRET_BYTES = 20;
+const RECOVERY_CODE_COUNT = 10;
+const LOGIN_CHALLENGE_TTL_MINUTES = 5;
+const LOGIN_CHALLENGE_MAX_ATTEMPTS = 5;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export type LoginChallengePurpose = 'verify' | 'enroll';
+
+export interface LoginChallenge {
+  id: string;
+  userId: string;
+  email: string;
+  purpose: LoginChallengePurpose;
+  attempts: number;
+  expiresAt: Date;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt?: Date;
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+}
+
+export interface SecondFactorResult {
+  success: boolean;
+  method?: 'totp' | 'recovery_code';
+}
+
+// ============ ENCODING & CRYPTO HELPERS ============
+
+/**
+ * Encode bytes as RFC 4648 base32 (no padding)
+ */
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (let i = 0; i < buffer.length; i++) {
+    value = (value << 8) | buffer[i];
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+/**
+ * Decode an RFC 4648 base32 string (case-insensitive, padding/spaces ignored)
+ */
+export function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Derive the encryption key for secrets at rest
+ */
+function getEncryptionKey(): Buffer {
+  const secret = process.env.TWO_FACTOR_ENCRYPTION_KEY || process.env.JWT_SECRET;
+  if (!secret) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('TWO_FACTOR_ENCRYPTION_KEY (or JWT_SECRET) must be set in production');
+    }
+    console.warn('[TwoFactor] TWO_FACTOR_ENCRYPTION_KEY not set, using development key');
+    return crypto.createHash('sha256').update('tavvy-dev-two-factor-key').digest();
+  }
+  return crypto.createHash('sha256').update(secret).digest();
+}
+
+function encrypt(plaintext: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return [iv, tag, encrypted].map(b => b.toString('base64url')).join('.');
+}
+
+function decrypt(payload: string): string {
+  const [iv, tag, encrypted] = payload.split('.').map(p => Buffer.from(p, 'base64url'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+}
+
+function hashValue(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+// ============ TOTP ============
+
+/**
+ * Generate a new random TOTP secret (base32)
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(TOTP_SECRET_BYTES));
+}
+
+/**
+ * Compute the HOTP value for a counter (RFC 4226)
+ */
+function hotp(key: Buffer, counter: number): string {
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = crypto.createHmac('sha1', key).update(counterBuffer).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * Get the TOTP time step for a timestamp
+ */
+export function getTotpStep(timestampMs: number = Date.now()): number {
+  return Math.floor(timestampMs / 1000 / TOTP_STEP_SECONDS);
+}
+
+/**
+ * Generate the TOTP code for a secret at a given time
+ */
+export function generateTotp(secret: string, timestampMs: number = Date.now()): string {
+  return hotp(base32Decode(secret), getTotpStep(timestampMs));
+}
+
+/**
+ * Verify a TOTP code within the allowed drift window.
+ * Returns the matched time step, or null if the code is invalid or was
+ * already used (step not after lastUsedStep).
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  lastUsedStep?: number | null,
+  timestampMs: number = Date.now()
+): number | null {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d+$/.test(normalized) || normalized.length !== TOTP_DIGITS) {
+    return null;
+  }
+
+  const key = base32Decode(secret);
+  const currentStep = getTotpStep(timestampMs);
+
+  for (let drift = -TOTP_WINDOW_STEPS; drift <= TOTP_WINDOW_STEPS; drift++) {
+    const step = currentStep + drift;
+    if (lastUsedStep != null && step <= lastUsedStep) continue;
+
+    const expected = hotp(key, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Build the otpauth:// URL used by authenticator apps
+ */
+export function buildOtpAuthUrl(secret: string, accountName: string): string {
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: TOTP_ISSUER,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+// ============ RECOVERY CODES ============
+
+/**
+ * Normalize a recovery code for hashing/comparison
+ */
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Generate a set of human-friendly recovery codes (xxxxx-xxxxx)
+ */
+export function generateRecoveryCodes(count: number = RECOVERY_CODE_COUNT): string[] {
+  return Array.from({ length: count }, () => {
+    const raw = base32Encode(crypto.randomBytes(7)).toLowerCase().substring(0, 10);
+    return `${raw.substring(0, 5)}-${raw.substring(5, 10)}`;
+  });
+}
+
+/**
+ * Replace all recovery codes for a user, returning the new plaintext codes
+ */
+async function replaceRecoveryCodes(userId: string): Promise<string[] | null> {
+  const codes = generateRecoveryCodes();
+
+  const { error: deleteError } = await supabaseAdmin
+    .from('admin_recovery_codes')
+    .delete()
+    .eq('user_id', userId);
+
+  if (deleteError) {
+    console.error('[TwoFactor] Error clearing recovery codes:', deleteError);
+    return null;
+  }
+
+  const { error: insertError } = await supabaseAdmin
+    .from('admin_recovery_codes')
+    .insert(codes.map(code => ({
+      user_id: userId,
+      code_hash: hashValue(normalizeRecoveryCode(code)),
+    })));
+
+  if (insertError) {
+    console.error('[TwoFactor] Error storing recovery codes:', insertError);
+    return null;
+  }
+
+  return codes;
+}
+
+/**
+ * Consume a recovery code if it is valid and unused
+ */
+async function consumeRecoveryCode(userId: string, code: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from('admin_recovery_codes')
+    .update({ used_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .eq('code_hash', hashValue(normalizeRecoveryCode(code)))
+    .is('used_at', null)
+    .select('id');
+
+  if (error) {
+    console.error('[TwoFactor] Error consuming recovery code:', error);
+    return false;
+  }
+
+  return !!data && data.length > 0;
+}
+
+// ============ ENROLLMENT & VERIFICATION ============
+
+/**
+ * Get two-factor status for a user
+ */
+export async function getTwoFactorStatus(userId: string): Promise<TwoFactorStatus> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('admin_two_factor')
+      .select('enabled_at')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('[TwoFactor] Error fetching status:', error);
+      return { enabled: false, recoveryCodesRemaining: 0 };
+    }
+
+    if (!data?.enabled_at) {
+      return { enabled: false, recoveryCodesRemaining: 0 };
+    }
+
+    const { count } = await supabaseAdmin
+      .from('admin_recovery_codes')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .is('used_at', null);
+
+    return {
+      enabled: true,
+      enabledAt: new Date(data.enabled_at),
+      recoveryCodesRemaining: count || 0,
+    };
+  } catch (err) {
+    console.error('[TwoFactor] Exception fetching status:', err);
+    return { enabled: false, recoveryCodesRemaining: 0 };
+  }
+}
+
+/**
+ * Start TOTP enrollment: generate a pending secret and its QR code.
+ * The secret only becomes active once confirmed with a valid code.
+ */
+export async function startTwoFactorEnrollment(
+  userId: string,
+  accountName: string
+): Promise<TwoFactorEnrollment | null> {
+  try {
+    const secret = generateTotpSecret();
+
+    const { error } = await supabaseAdmin
+      .from('admin_two_factor')
+      .upsert({
+        user_id: userId,
+        pending_secret_encrypted: encrypt(secret),
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'user_id' });
+
+    if (error) {
+      console.error('[TwoFactor] Error starting enrollment:', error);
+      return null;
+    }
+
+    const otpauthUrl = buildOtpAuthUrl(secret, accountName);
+    const qrCodeDataUrl = await QRCode.toDataURL(otpauthUrl);
+
+    return { secret, otpauthUrl, qrCodeDataUrl };
+  } catch (err) {
+    console.error('[TwoFactor] Exception starting enrollment:', err);
+    return null;
+  }
+}
+
+/**
+ * Confirm enrollment with a code from the pending secret.
+ * Returns freshly generated recovery codes on success.
+ */
+export async function confirmTwoFactorEnrollment(
+  userId: string,
+  code: string
+): Promise<string[] | null> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('admin_two_factor')
+      .select('pending_secret_encrypted')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error || !data?.pending_secret_encrypted) {
+      return null;
+    }
+
+    const secret = decrypt(data.pending_secret_encrypted);
+    const step = verifyTotp(secret, code);
+    if (step === null) {
+      return null;
+    }
+
+    const { error: updateError } = await supabaseAdmin
+      .from('admin_two_factor')
+      .update({
+        secret_encrypted: data.pending_secret_encrypted,
+        pending_secret_encrypted: null,
+        enabled_at: new Date().toISOString(),
+        last_used_step: step,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('user_id', userId);
+
+    if (updateError) {
+      console.error('[TwoFactor] Error confirming enrollment:', updateError);
+      return null;
+    }
+
+    return replaceRecoveryCodes(userId);
+  } catch (err) {
+    console.error('[TwoFactor] Exception confirming enrollment:', err);
+    return null;
+  }
+}
+
+/**
+ * Verify a second factor: a TOTP code or an unused recovery code
+ */
+export async function verifySecondFactor(
+  userId: string,
+  code: string
+): Promise<SecondFactorResult> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('admin_two_factor')
+      .select('secret_encrypted, enabled_at, last_used_step')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error || !data?.enabled_at || !data.secret_encrypted) {
+      return { success: false };
+    }
+
+    const secret = decrypt(data.secret_encrypted);
+    const step = verifyTotp(secret, code, data.last_used_step);
+
+    if (step !== null) {
+      // Record the step so the same code can't be replayed
+      await supabaseAdmin
+        .from('admin_two_factor')
+        .update({ last_used_step: step, updated_at: new Date().toISOString() })
+        .eq('user_id', userId);
+      return { success: true, method: 'totp' };
+    }
+
+    if (await consumeRecoveryCode(userId, code)) {
+      return { success: true, method: 'recovery_code' };
+    }
+
+    return { success: false };
+  } catch (err) {
+    console.error('[TwoFactor] Exception verifying second factor:', err);
+    return { success: false };
+  }
+}
+
+/**
+ * Regenerate recovery codes (invalidates all previous codes)
+ */
+export async function regenerateRecoveryCodes(userId: string): Promise<string[] | null> {
+  try {
+    return await replaceRecoveryCodes(userId);
+  } catch (err) {
+    console.error('[TwoFactor] Exception regenerating recovery codes:', err);
+    return null;
+  }
+}
+
+/**
+ * Disable two-factor authentication for a user
+ */
+export async function disableTwoFactor(userId: string): Promise<boolean> {
+  try {
+    const { error } = await supabaseAdmin
+      .from('admin_two_factor')
+      .delete()
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('[TwoFactor] Error disabling two-factor:', error);
+      return false;
+    }
+
+    await supabaseAdmin
+      .from('admin_recovery_codes')
+      .delete()
+      .eq('user_id', userId);
+
+    return true;
+  } catch (err) {
+    console.error('[TwoFactor] Exception disabling two-factor:', err);
+    return false;
+  }
+}
+
+// ============ LOGIN CHALLENGES ============
+
+/**
+ * Create a login challenge after a successful password step.
+ * The Supabase access token is held server-side (encrypted) until the
+ * second factor is verified; the client only receives an opaque token.
+ */
+export async function createLoginChallenge(
+  userId: string,
+  email: string,
+  accessToken: string,
+  purpose: LoginChallengePurpose,
+  ipAddress?: string,
+  userAgent?: string
+): Promise<string | null> {
+  try {
+    const token = crypto.randomBytes(32).toString('base64url');
+    const expiresAt = new Date(Date.now() + LOGIN_CHALLENGE_TTL_MINUTES * 60 * 1000);
+
+    const { error } = await supabaseAdmin
+      .from('login_challenges')
+      .insert({
+        token_hash: hashValue(token),
+        user_id: userId,
+        email,
+        purpose,
+        access_token_encrypted: encrypt(accessToken),
+        ip_address: ipAddress || null,
+        user_agent: userAgent || null,
+        expires_at: expiresAt.toISOString(),
+      });
+
+    if (error) {
+      console.error('[TwoFactor] Error creating login challenge:', error);
+      return null;
+    }
+
+    return token;
+  } catch (err) {
+    console.error('[TwoFactor] Exception creating login challenge:', err);
+    return null;
+  }
+}
+
+/**
+ * Look up an active (unexpired, unconsumed, not locked) login challenge
+ */
+export async function getLoginChallenge(token: string): Promise<LoginChallenge | null> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('login_challenges')
+      .select('id, user_id, email, purpose, attempts, expires_at')
+      .eq('token_hash', hashValue(token))
+      .is('consumed_at', null)
+      .gt('expires_at', new Date().toISOString())
+      .maybeSingle();
+
+    if (error || !data || data.attempts >= LOGIN_CHALLENGE_MAX_ATTEMPTS) {
+      return null;
+    }
+
+    return {
+      id: data.id,
+      userId: data.user_id,
+      email: data.email,
+      purpose: data.purpose,
+      attempts: data.attempts,
+      expiresAt: new Date(data.expires_at),
+    };
+  } catch (err) {
+    console.error('[TwoFactor] Exception fetching login challenge:', err);
+    return null;
+  }
+}
+
+/**
+ * Record a failed second-factor attempt against a challenge
+ */
+export async function recordChallengeFailure(challenge: LoginChallenge): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('login_challenges')
+    .update({ attempts: challenge.attempts + 1 })
+    .eq('id', challenge.id);
+
+  if (error) {
+    console.error('[TwoFactor] Error recording challenge failure:', error);
+  }
+}
+
+/**
+ * Consume a challenge and release the held access token
+ */
+export async function consumeLoginChallenge(challenge: LoginChallenge): Promise<string | null> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('login_challenges')
+      .update({ consumed_at: new Date().toISOString() })
+      .eq('id', challenge.id)
+      .is('consumed_at', null)
+      .select('access_token_encrypted')
+      .maybeSingle();
+
+    if (error || !data) {
+      return null;
+    }
+
+    return decrypt(data.access_token_encrypted);
+  } catch (err) {
+    console.error('[TwoFactor] Exception consuming login challenge:', err);
+    return null;
+  }
+}
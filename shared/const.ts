@@ -3,3 +3,5 @@ export const ONE_YEAR_MS = 1000 * 60 * 60 * 24 * 365;
 export const AXIOS_TIMEOUT_MS = 30_000;
 export const UNAUTHED_ERR_MSG = 'Please login (10001)';
 export const NOT_ADMIN_ERR_MSG = 'You do not have required permission (10002)';
+export const PASSWORD_ROTATION_ERR_MSG = 'Your password has expired. Please choose a new one (10003)';
+export const STEP_UP_REQUIRED_ERR_MSG = 'Please confirm your password to continue (10004)';
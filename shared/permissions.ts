@@ -0,0 +1,133 @@
+/**
+ * Role-based permission model for the admin portal.
+ *
+ * Roles are stored in the Supabase `user_roles` table. Each role maps to a
+ * fixed set of permissions; procedures and pages declare the permission they
+ * need and the caller's granted permissions are checked against it.
+ * Shared between server (enforcement) and client (navigation filtering).
+ */
+
+// Portal roles, matching the `role` column in user_roles
+export const Roles = {
+  SUPER_ADMIN: 'super_admin',
+  MODERATOR: 'moderator',
+  CONTENT_EDITOR: 'content_editor',
+  REP: 'rep',
+  SUPPORT: 'support',
+} as const;
+
+export type Role = typeof Roles[keyof typeof Roles];
+
+export const PORTAL_ROLES: readonly Role[] = Object.values(Roles);
+
+// Permissions, named <area>:<action>
+export const Permissions = {
+  // Places
+  PLACES_READ: 'places:read',
+  PLACES_WRITE: 'places:write',
+  PLACES_DELETE: 'places:delete',
+
+  // Signals / reviews entered by reps
+  SIGNALS_SUBMIT: 'signals:submit',
+  SIGNALS_IMPORT: 'signals:import',
+
+  // Atlas, cities, universes, rides, events
+  CONTENT_READ: 'content:read',
+  CONTENT_WRITE: 'content:write',
+  CONTENT_DELETE: 'content:delete',
+
+  // Stories, photos, reviews, flags
+  MODERATION_READ: 'moderation:read',
+  MODERATION_WRITE: 'moderation:write',
+
+  // Pros, eCards, claims, verifications, leads
+  PROVIDERS_READ: 'providers:read',
+  PROVIDERS_WRITE: 'providers:write',
+
+  // User management
+  USERS_READ: 'users:read',
+  USERS_MODERATE: 'users:moderate',
+  USERS_WRITE: 'users:write',
+  USERS_DELETE: 'users:delete',
+  USERS_IMPERSONATE: 'users:impersonate',
+  ROLES_MANAGE: 'roles:manage',
+
+  // Audit & security
+  AUDIT_READ: 'audit:read',
+  SECURITY_READ: 'security:read',
+  SECURITY_MANAGE: 'security:manage',
+
+  // System
+  SYSTEM_MANAGE: 'system:manage',
+} as const;
+
+export type Permission = typeof Permissions[keyof typeof Permissions];
+
+export const ALL_PERMISSIONS: readonly Permission[] = Object.values(Permissions);
+
+// Permission sets granted by each role
+export const RolePermissions: Record<Role, readonly Permission[]> = {
+  [Roles.SUPER_ADMIN]: ALL_PERMISSIONS,
+  [Roles.MODERATOR]: [
+    Permissions.PLACES_READ,
+    Permissions.CONTENT_READ,
+    Permissions.MODERATION_READ,
+    Permissions.MODERATION_WRITE,
+    Permissions.PROVIDERS_READ,
+    Permissions.USERS_READ,
+    Permissions.USERS_MODERATE,
+    Permissions.AUDIT_READ,
+  ],
+  [Roles.CONTENT_EDITOR]: [
+    Permissions.PLACES_READ,
+    Permissions.PLACES_WRITE,
+    Permissions.CONTENT_READ,
+    Permissions.CONTENT_WRITE,
+    Permissions.CONTENT_DELETE,
+  ],
+  [Roles.REP]: [
+    Permissions.PLACES_READ,
+    Permissions.PLACES_WRITE,
+    Permissions.SIGNALS_SUBMIT,
+    Permissions.SIGNALS_IMPORT,
+  ],
+  [Roles.SUPPORT]: [
+    Permissions.PLACES_READ,
+    Permissions.CONTENT_READ,
+    Permissions.MODERATION_READ,
+    Permissions.PROVIDERS_READ,
+    Permissions.USERS_READ,
+    Permissions.USERS_IMPERSONATE,
+    Permissions.AUDIT_READ,
+  ],
+};
+
+/**
+ * Check whether a role name is one of the portal roles
+ */
+export function isPortalRole(role: string): role is Role {
+  return (PORTAL_ROLES as readonly string[]).includes(role);
+}
+
+/**
+ * Resolve the union of permissions granted by a list of roles.
+ * Unknown role names are ignored.
+ */
+export function getPermissionsForRoles(roles: readonly string[]): Permission[] {
+  const granted = new Set<Permission>();
+  for (const role of roles) {
+    if (!isPortalRole(role)) continue;
+    RolePermissions[role].forEach(p => granted.add(p));
+  }
+  return ALL_PERMISSIONS.filter(p => granted.has(p));
+}
+
+/**
+ * Check whether a set of granted permissions includes the required one
+ */
+export function hasPermission(
+  granted: readonly string[] | undefined | null,
+  permission: Permission
+): boolean {
+  return !!granted && granted.includes(permission);
+}
@@ -0,0 +1,67 @@
+-- ============================================================
+-- TavvY Admin Portal - Two-Factor Authentication Migration
+-- ============================================================
+-- This migration creates the tables used for TOTP two-factor
+-- authentication on portal login: enrolled secrets, one-time
+-- recovery codes and pending login challenges.
+-- Run this in your Supabase SQL Editor.
+-- ============================================================
+
+-- ============ TWO-FACTOR SECRETS ============
+-- One row per admin; secrets are encrypted by the server (AES-256-GCM)
+CREATE TABLE IF NOT EXISTS public.admin_two_factor (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    secret_encrypted TEXT,
+    pending_secret_encrypted TEXT,
+    enabled_at TIMESTAMP WITH TIME ZONE,
+    last_used_step BIGINT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- ============ RECOVERY CODES ============
+-- Only SHA-256 hashes of recovery codes are stored
+CREATE TABLE IF NOT EXISTS public.admin_recovery_codes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    code_hash VARCHAR(64) NOT NULL,
+    used_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_recovery_codes_user_id ON public.admin_recovery_codes(user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_admin_recovery_codes_user_hash ON public.admin_recovery_codes(user_id, code_hash);
+
+-- ============ LOGIN CHALLENGES ============
+-- Pending second-factor step after a successful password check.
+-- The Supabase access token is held here (encrypted) until verified.
+CREATE TABLE IF NOT EXISTS public.login_challenges (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    token_hash VARCHAR(64) NOT NULL UNIQUE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    email VARCHAR(255) NOT NULL,
+    purpose VARCHAR(20) NOT NULL CHECK (purpose IN ('verify', 'enroll')),
+    access_token_encrypted TEXT NOT NULL,
+    ip_address VARCHAR(64),
+    user_agent TEXT,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    consumed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_login_challenges_user_id ON public.login_challenges(user_id);
+CREATE INDEX IF NOT EXISTS idx_login_challenges_expires_at ON public.login_challenges(expires_at);
+
+-- ============ ROW LEVEL SECURITY ============
+-- No policies: only the service role (server) may read or write these tables
+ALTER TABLE public.admin_two_factor ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.admin_recovery_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.login_challenges ENABLE ROW LEVEL SECURITY;
+
+-- ============ SUCCESS MESSAGE ============
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration completed successfully!';
+    RAISE NOTICE 'Created tables: admin_two_factor, admin_recovery_codes, login_challenges';
+END $$;
@@ -0,0 +1,35 @@
+-- ============================================================
+-- TavvY Admin Portal - Passkeys (WebAuthn) Migration
+-- ============================================================
+-- This migration creates the admin_passkeys table used for
+-- passkey registration and passwordless sign-in.
+-- Run this in your Supabase SQL Editor.
+-- ============================================================
+
+-- ============ PASSKEYS TABLE ============
+CREATE TABLE IF NOT EXISTS public.admin_passkeys (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    credential_id TEXT NOT NULL UNIQUE,
+    public_key TEXT NOT NULL,
+    counter BIGINT NOT NULL DEFAULT 0,
+    transports TEXT[] DEFAULT '{}',
+    device_type VARCHAR(32),
+    backed_up BOOLEAN DEFAULT false,
+    name VARCHAR(100) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    last_used_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_passkeys_user_id ON public.admin_passkeys(user_id);
+
+-- ============ ROW LEVEL SECURITY ============
+-- No policies: only the service role (server) may read or write this table
+ALTER TABLE public.admin_passkeys ENABLE ROW LEVEL SECURITY;
+
+-- ============ SUCCESS MESSAGE ============
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration completed successfully!';
+    RAISE NOTICE 'Created table: admin_passkeys';
+END $$;
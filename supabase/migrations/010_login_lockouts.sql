@@ -0,0 +1,33 @@
+-- ============================================================
+-- TavvY Admin Portal - Login Lockouts Migration
+-- ============================================================
+-- This migration creates the login_lockouts table used for
+-- per-account failed login tracking, exponential back-off and
+-- temporary lockouts. Keyed by lower-cased email so tracking
+-- survives IP rotation and server restarts.
+-- Run this in your Supabase SQL Editor.
+-- ============================================================
+
+-- ============ LOGIN LOCKOUTS TABLE ============
+CREATE TABLE IF NOT EXISTS public.login_lockouts (
+    email VARCHAR(255) PRIMARY KEY,
+    failed_count INTEGER NOT NULL DEFAULT 0,
+    first_failed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    last_failed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    last_ip_address VARCHAR(64),
+    locked_until TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_login_lockouts_locked_until ON public.login_lockouts(locked_until);
+
+-- ============ ROW LEVEL SECURITY ============
+-- No policies: only the service role (server) may read or write this table
+ALTER TABLE public.login_lockouts ENABLE ROW LEVEL SECURITY;
+
+-- ============ SUCCESS MESSAGE ============
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration completed successfully!';
+    RAISE NOTICE 'Created table: login_lockouts';
+END $$;
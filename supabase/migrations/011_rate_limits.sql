@@ -0,0 +1,69 @@
+-- ============================================================
+-- TavvY Admin Portal - Rate Limits Migration
+-- ============================================================
+-- This migration creates the shared sliding-window rate limit
+-- store used when RATE_LIMIT_STORE=sql, so limits survive
+-- deploys and apply across multiple server instances.
+-- Run this in your Supabase SQL Editor.
+-- ============================================================
+
+-- ============ RATE LIMIT HITS TABLE ============
+-- One row per counted request (sliding log)
+CREATE TABLE IF NOT EXISTS public.rate_limit_hits (
+    id BIGSERIAL PRIMARY KEY,
+    key TEXT NOT NULL,
+    hit_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_hits_key_hit_at ON public.rate_limit_hits(key, hit_at);
+CREATE INDEX IF NOT EXISTS idx_rate_limit_hits_hit_at ON public.rate_limit_hits(hit_at);
+
+-- ============ RATE LIMIT FUNCTION ============
+-- Atomically prunes the key's window, counts it, and records the hit
+-- if it fits. Rejected requests are not recorded.
+CREATE OR REPLACE FUNCTION public.rate_limit_hit(p_key TEXT, p_window_ms INTEGER, p_max INTEGER)
+RETURNS TABLE (allowed BOOLEAN, hit_count INTEGER, oldest_hit_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_window_start TIMESTAMP WITH TIME ZONE := NOW() - (p_window_ms || ' milliseconds')::INTERVAL;
+    v_count INTEGER;
+BEGIN
+    -- Serialize concurrent requests for the same key
+    PERFORM pg_advisory_xact_lock(hashtext(p_key));
+
+    DELETE FROM public.rate_limit_hits
+    WHERE key = p_key AND hit_at <= v_window_start;
+
+    SELECT COUNT(*) INTO v_count
+    FROM public.rate_limit_hits
+    WHERE key = p_key;
+
+    IF v_count < p_max THEN
+        INSERT INTO public.rate_limit_hits (key) VALUES (p_key);
+        v_count := v_count + 1;
+        allowed := true;
+    ELSE
+        allowed := false;
+    END IF;
+
+    hit_count := v_count;
+    SELECT MIN(h.hit_at) INTO oldest_hit_at
+    FROM public.rate_limit_hits h
+    WHERE h.key = p_key;
+
+    RETURN NEXT;
+END;
+$$;
+
+-- ============ ROW LEVEL SECURITY ============
+-- No policies: only the service role (server) may read or write this table
+ALTER TABLE public.rate_limit_hits ENABLE ROW LEVEL SECURITY;
+
+-- ============ SUCCESS MESSAGE ============
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration completed successfully!';
+    RAISE NOTICE 'Created table: rate_limit_hits';
+    RAISE NOTICE 'Created function: rate_limit_hit';
+END $$;
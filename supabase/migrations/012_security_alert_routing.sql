@@ -0,0 +1,45 @@
+-- ============================================================
+-- TavvY Admin Portal - Security Alert Routing Migration
+-- ============================================================
+-- This migration creates the queue for low-severity alerts that
+-- are batched into hourly or daily digests, and tracks which
+-- critical anomalies have been escalated to the second tier.
+-- Run this in your Supabase SQL Editor.
+-- ============================================================
+
+-- ============ DIGEST QUEUE TABLE ============
+-- One row per alert per digest route; sent_at is set when the
+-- digest containing it is claimed for sending
+CREATE TABLE IF NOT EXISTS public.security_alert_digest_queue (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    delivery VARCHAR(16) NOT NULL CHECK (delivery IN ('hourly', 'daily')),
+    channels TEXT[] NOT NULL DEFAULT '{}',
+    email_to TEXT[] NOT NULL DEFAULT '{}',
+    alert JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    sent_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_security_alert_digest_queue_pending
+    ON public.security_alert_digest_queue(delivery, created_at)
+    WHERE sent_at IS NULL;
+
+-- ============ ESCALATION TRACKING ============
+ALTER TABLE IF EXISTS public.login_anomalies
+    ADD COLUMN IF NOT EXISTS escalated_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_login_anomalies_unescalated_critical
+    ON public.login_anomalies(created_at)
+    WHERE severity = 'critical' AND acknowledged_at IS NULL AND escalated_at IS NULL;
+
+-- ============ ROW LEVEL SECURITY ============
+-- No policies: only the service role (server) may read or write this table
+ALTER TABLE public.security_alert_digest_queue ENABLE ROW LEVEL SECURITY;
+
+-- ============ SUCCESS MESSAGE ============
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration completed successfully!';
+    RAISE NOTICE 'Created table: security_alert_digest_queue';
+    RAISE NOTICE 'Added column: login_anomalies.escalated_at';
+END $$;
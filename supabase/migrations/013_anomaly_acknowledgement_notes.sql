@@ -0,0 +1,22 @@
+-- ============================================================
+-- TavvY Admin Portal - Anomaly Acknowledgement Notes Migration
+-- ============================================================
+-- This migration lets admins record what they did when they
+-- acknowledge a login anomaly on the Security page, and indexes
+-- the columns the anomaly timeline filters on.
+-- Run this in your Supabase SQL Editor.
+-- ============================================================
+
+-- ============ LOGIN ANOMALIES ============
+ALTER TABLE IF EXISTS public.login_anomalies
+    ADD COLUMN IF NOT EXISTS acknowledgement_note TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_login_anomalies_created_at ON public.login_anomalies(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_login_anomalies_type_created_at ON public.login_anomalies(anomaly_type, created_at DESC);
+
+-- ============ SUCCESS MESSAGE ============
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration completed successfully!';
+    RAISE NOTICE 'Added column: login_anomalies.acknowledgement_note';
+END $$;
@@ -0,0 +1,39 @@
+-- ============================================================
+-- TavvY Admin Portal - Impersonation Sessions Migration
+-- ============================================================
+-- This migration creates the admin_impersonation_sessions table
+-- used for time-boxed, read-only "view as user" support sessions.
+-- Every request made during a session is also written to
+-- audit_log with both the admin and the impersonated user id.
+-- Run this in your Supabase SQL Editor.
+-- ============================================================
+
+-- ============ IMPERSONATION SESSIONS TABLE ============
+CREATE TABLE IF NOT EXISTS public.admin_impersonation_sessions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    admin_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    admin_email VARCHAR(255),
+    target_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    target_email VARCHAR(255),
+    reason TEXT NOT NULL,
+    started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    ended_at TIMESTAMP WITH TIME ZONE,
+    end_reason VARCHAR(32),
+    ip_address VARCHAR(64),
+    user_agent TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_impersonation_sessions_admin_id ON public.admin_impersonation_sessions(admin_id);
+CREATE INDEX IF NOT EXISTS idx_admin_impersonation_sessions_target_user_id ON public.admin_impersonation_sessions(target_user_id);
+
+-- ============ ROW LEVEL SECURITY ============
+-- No policies: only the service role (server) may read or write this table
+ALTER TABLE public.admin_impersonation_sessions ENABLE ROW LEVEL SECURITY;
+
+-- ============ SUCCESS MESSAGE ============
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration completed successfully!';
+    RAISE NOTICE 'Created table: admin_impersonation_sessions';
+END $$;
@@ -0,0 +1,48 @@
+-- ============================================================
+-- TavvY Admin Portal - Just-in-Time Role Elevation Migration
+-- ============================================================
+-- This migration creates the role_elevation_requests table.
+-- An admin requests a portal role for a reason and duration;
+-- a different super admin approves or denies it. Approved
+-- requests are granted in user_roles with an expiry and the
+-- server removes expired grants automatically.
+-- Run this in your Supabase SQL Editor.
+-- ============================================================
+
+-- ============ ROLE ELEVATION REQUESTS TABLE ============
+CREATE TABLE IF NOT EXISTS public.role_elevation_requests (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    user_email VARCHAR(255),
+    role VARCHAR(50) NOT NULL,
+    reason TEXT NOT NULL,
+    duration_minutes INTEGER NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'approved', 'denied', 'cancelled', 'expired')),
+    requested_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    reviewed_by_email VARCHAR(255),
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    review_note TEXT,
+    user_role_id UUID,
+    grant_expires_at TIMESTAMP WITH TIME ZONE,
+    revoked_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_role_elevation_requests_user_id ON public.role_elevation_requests(user_id);
+CREATE INDEX IF NOT EXISTS idx_role_elevation_requests_status ON public.role_elevation_requests(status);
+CREATE INDEX IF NOT EXISTS idx_role_elevation_requests_user_role_id ON public.role_elevation_requests(user_role_id);
+
+-- Speeds up the sweep that removes expired grants
+CREATE INDEX IF NOT EXISTS idx_user_roles_expires_at ON public.user_roles(expires_at) WHERE expires_at IS NOT NULL;
+
+-- ============ ROW LEVEL SECURITY ============
+-- No policies: only the service role (server) may read or write this table
+ALTER TABLE public.role_elevation_requests ENABLE ROW LEVEL SECURITY;
+
+-- ============ SUCCESS MESSAGE ============
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration completed successfully!';
+    RAISE NOTICE 'Created table: role_elevation_requests';
+END $$;
@@ -0,0 +1,26 @@
+-- ============================================================
+-- TavvY Admin Portal - Audit Log Hash Chain Migration
+-- ============================================================
+-- This migration adds tamper-evidence columns to audit_log.
+-- Each new entry stores its sequence number, the previous
+-- entry's hash and a hash of its own content, so edited or
+-- deleted rows are detected by the chain verification.
+-- Rows written before this migration stay unchained.
+-- Run this in your Supabase SQL Editor.
+-- ============================================================
+
+-- ============ HASH CHAIN COLUMNS ============
+ALTER TABLE IF EXISTS public.audit_log
+    ADD COLUMN IF NOT EXISTS chain_seq BIGINT,
+    ADD COLUMN IF NOT EXISTS prev_hash VARCHAR(64),
+    ADD COLUMN IF NOT EXISTS entry_hash VARCHAR(64);
+
+-- One entry per sequence number; concurrent writers retry on conflict
+CREATE UNIQUE INDEX IF NOT EXISTS idx_audit_log_chain_seq ON public.audit_log(chain_seq) WHERE chain_seq IS NOT NULL;
+
+-- ============ SUCCESS MESSAGE ============
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration completed successfully!';
+    RAISE NOTICE 'Added columns to audit_log: chain_seq, prev_hash, entry_hash';
+END $$;
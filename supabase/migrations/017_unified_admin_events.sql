@@ -0,0 +1,90 @@
+-- ============================================================
+-- TavvY Admin Portal - Unified Admin Event Stream Migration
+-- ============================================================
+-- audit_log becomes the single store for admin activity.
+-- This migration:
+--   * adds a search_text column for free-text search,
+--   * adds the audit_log_facets view used by filter pickers,
+--   * backfills admin_activity_log rows into audit_log.
+-- The server no longer writes admin_activity_log; the table is
+-- kept for reference. Backfilled rows predate the hash chain
+-- and are left unchained. Safe to run more than once.
+-- Run this in your Supabase SQL Editor.
+-- ============================================================
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- ============ SEARCH & FILTER SUPPORT ============
+ALTER TABLE IF EXISTS public.audit_log
+    ADD COLUMN IF NOT EXISTS legacy_activity_id TEXT,
+    ADD COLUMN IF NOT EXISTS search_text TEXT GENERATED ALWAYS AS (
+        lower(
+            coalesce(user_email, '') || ' ' ||
+            coalesce(action, '') || ' ' ||
+            coalesce(resource_type, '') || ' ' ||
+            coalesce(resource_id, '') || ' ' ||
+            coalesce(details::text, '') || ' ' ||
+            coalesce(error_message, '')
+        )
+    ) STORED;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_audit_log_legacy_activity_id ON public.audit_log(legacy_activity_id) WHERE legacy_activity_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON public.audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_user_id ON public.audit_log(user_id);
+CREATE INDEX IF NOT EXISTS idx_audit_log_action ON public.audit_log(action);
+CREATE INDEX IF NOT EXISTS idx_audit_log_resource ON public.audit_log(resource_type, resource_id);
+CREATE INDEX IF NOT EXISTS idx_audit_log_search_text ON public.audit_log USING gin (search_text gin_trgm_ops);
+
+-- ============ FACETS VIEW ============
+CREATE OR REPLACE VIEW public.audit_log_facets AS
+    SELECT 'action'::text AS facet, action AS value, COUNT(*) AS count
+    FROM public.audit_log
+    GROUP BY action
+    UNION ALL
+    SELECT 'resource_type'::text AS facet, resource_type AS value, COUNT(*) AS count
+    FROM public.audit_log
+    GROUP BY resource_type;
+
+-- Views bypass RLS: only the service role (server) may read this one
+REVOKE ALL ON public.audit_log_facets FROM anon, authenticated;
+
+-- ============ BACKFILL LEGACY ROWS ============
+DO $$
+DECLARE
+    copied INTEGER := 0;
+BEGIN
+    IF to_regclass('public.admin_activity_log') IS NOT NULL THEN
+        INSERT INTO public.audit_log (
+            user_id, user_email, action, resource_type, resource_id,
+            details, success, created_at, legacy_activity_id
+        )
+        SELECT
+            CASE
+                WHEN a.admin_id::text ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+                THEN a.admin_id::text::uuid
+            END,
+            u.email,
+            a.action_type,
+            coalesce(a.target_type, 'unknown'),
+            a.target_id::text,
+            jsonb_strip_nulls(jsonb_build_object('notes', a.notes, 'source', 'admin_activity_log')),
+            TRUE,
+            coalesce(a.created_at, NOW()),
+            a.id::text
+        FROM public.admin_activity_log a
+        LEFT JOIN auth.users u ON u.id::text = a.admin_id::text
+        WHERE a.action_type IS NOT NULL
+          AND NOT EXISTS (
+              SELECT 1 FROM public.audit_log l WHERE l.legacy_activity_id = a.id::text
+          );
+
+        GET DIAGNOSTICS copied = ROW_COUNT;
+
+        COMMENT ON TABLE public.admin_activity_log IS
+            'Deprecated: backfilled into audit_log by migration 017 and no longer written.';
+    END IF;
+
+    RAISE NOTICE 'Migration completed successfully!';
+    RAISE NOTICE 'Added to audit_log: search_text, legacy_activity_id, audit_log_facets view';
+    RAISE NOTICE 'Backfilled % admin_activity_log row(s)', copied;
+END $$;
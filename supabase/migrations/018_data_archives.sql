@@ -0,0 +1,44 @@
+-- ============================================================
+-- TavvY Admin Portal - Data Retention Archives Migration
+-- ============================================================
+-- This migration creates the data_archives table. When a
+-- retention policy is configured (AUDIT_LOG_RETENTION_DAYS,
+-- LOGIN_ANOMALY_RETENTION_DAYS), rows older than the cutoff
+-- are written to gzip-compressed NDJSON files in storage,
+-- recorded here, and deleted from their source table.
+-- Run this in your Supabase SQL Editor.
+-- ============================================================
+
+-- ============ DATA ARCHIVES TABLE ============
+CREATE TABLE IF NOT EXISTS public.data_archives (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    table_name VARCHAR(64) NOT NULL,
+    storage_key TEXT NOT NULL,
+    storage_url TEXT,
+    row_count INTEGER NOT NULL,
+    first_created_at TIMESTAMP WITH TIME ZONE,
+    last_created_at TIMESTAMP WITH TIME ZONE,
+    size_bytes INTEGER,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_data_archives_table_name ON public.data_archives(table_name, created_at DESC);
+
+-- Retention and exports scan by age
+DO $$
+BEGIN
+    IF to_regclass('public.login_anomalies') IS NOT NULL THEN
+        CREATE INDEX IF NOT EXISTS idx_login_anomalies_created_at ON public.login_anomalies(created_at);
+    END IF;
+END $$;
+
+-- ============ ROW LEVEL SECURITY ============
+-- No policies: only the service role (server) may read or write this table
+ALTER TABLE public.data_archives ENABLE ROW LEVEL SECURITY;
+
+-- ============ SUCCESS MESSAGE ============
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration completed successfully!';
+    RAISE NOTICE 'Created table: data_archives';
+END $$;
@@ -0,0 +1,66 @@
+-- ============================================================
+-- TavvY Admin Portal - Scheduled Jobs Migration
+-- ============================================================
+-- This migration creates the tables behind the in-process job
+-- scheduler:
+--   * job_runs: history of every run with status, duration,
+--     result and error,
+--   * scheduled_job_locks: one lease row per running job so
+--     that no two instances run the same job at once.
+-- Scheduled runs are unique per (job_name, scheduled_for), so
+-- each schedule slot runs on a single instance.
+-- Run this in your Supabase SQL Editor.
+-- ============================================================
+
+-- ============ JOB RUNS TABLE ============
+CREATE TABLE IF NOT EXISTS public.job_runs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    job_name VARCHAR(100) NOT NULL,
+    trigger VARCHAR(20) NOT NULL CHECK (trigger IN ('schedule', 'manual')),
+    scheduled_for TIMESTAMP WITH TIME ZONE,
+    triggered_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    triggered_by_email VARCHAR(255),
+    instance_id VARCHAR(255) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'running'
+        CHECK (status IN ('running', 'succeeded', 'failed')),
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    finished_at TIMESTAMP WITH TIME ZONE,
+    duration_ms INTEGER,
+    result JSONB,
+    error TEXT
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_job_runs_schedule_slot ON public.job_runs(job_name, scheduled_for) WHERE trigger = 'schedule';
+CREATE INDEX IF NOT EXISTS idx_job_runs_job_started ON public.job_runs(job_name, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_job_runs_started_at ON public.job_runs(started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_job_runs_running ON public.job_runs(job_name, instance_id) WHERE status = 'running';
+
+-- ============ JOB LOCKS TABLE ============
+CREATE TABLE IF NOT EXISTS public.scheduled_job_locks (
+    job_name VARCHAR(100) PRIMARY KEY,
+    locked_by VARCHAR(255) NOT NULL,
+    locked_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    locked_until TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+-- ============ LATEST RUN VIEW ============
+CREATE OR REPLACE VIEW public.job_runs_latest AS
+    SELECT DISTINCT ON (job_name) *
+    FROM public.job_runs
+    ORDER BY job_name, started_at DESC;
+
+-- Views bypass RLS: only the service role (server) may read this one
+REVOKE ALL ON public.job_runs_latest FROM anon, authenticated;
+
+-- ============ ROW LEVEL SECURITY ============
+-- No policies: only the service role (server) may read or write these tables
+ALTER TABLE public.job_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.scheduled_job_locks ENABLE ROW LEVEL SECURITY;
+
+-- ============ SUCCESS MESSAGE ============
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration completed successfully!';
+    RAISE NOTICE 'Created tables: job_runs, scheduled_job_locks';
+    RAISE NOTICE 'Created view: job_runs_latest';
+END $$;
@@ -0,0 +1,89 @@
+-- ============================================================
+-- TavvY Admin Portal - Service Accounts & API Keys Migration
+-- ============================================================
+-- This migration creates:
+--   * service_accounts: password-less auth users used by
+--     scripts and integrations; their role is in user_roles,
+--   * api_keys: hashed, scoped, expiring keys bound to a
+--     service account (the plaintext key is never stored),
+--   * api_key_usage_daily: request counts per key and day,
+--   * api_key_record_usage(): counts one request atomically.
+-- Run this in your Supabase SQL Editor.
+-- ============================================================
+
+-- ============ SERVICE ACCOUNTS TABLE ============
+CREATE TABLE IF NOT EXISTS public.service_accounts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+    name VARCHAR(50) NOT NULL UNIQUE,
+    description TEXT,
+    role VARCHAR(50) NOT NULL,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    disabled_at TIMESTAMP WITH TIME ZONE
+);
+
+-- ============ API KEYS TABLE ============
+CREATE TABLE IF NOT EXISTS public.api_keys (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    service_account_id UUID NOT NULL REFERENCES public.service_accounts(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    key_prefix VARCHAR(12) NOT NULL UNIQUE,
+    key_hash CHAR(64) NOT NULL,
+    scopes TEXT[] NOT NULL DEFAULT '{}',
+    rate_limit_per_minute INTEGER NOT NULL DEFAULT 120,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    revoked_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    last_used_at TIMESTAMP WITH TIME ZONE,
+    last_used_ip VARCHAR(45),
+    usage_count BIGINT NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_service_account_id ON public.api_keys(service_account_id);
+
+-- ============ DAILY USAGE TABLE ============
+CREATE TABLE IF NOT EXISTS public.api_key_usage_daily (
+    api_key_id UUID NOT NULL REFERENCES public.api_keys(id) ON DELETE CASCADE,
+    day DATE NOT NULL,
+    request_count BIGINT NOT NULL DEFAULT 0,
+    PRIMARY KEY (api_key_id, day)
+);
+
+-- ============ USAGE FUNCTION ============
+CREATE OR REPLACE FUNCTION public.api_key_record_usage(p_key_id UUID, p_ip TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    UPDATE public.api_keys
+    SET usage_count = usage_count + 1,
+        last_used_at = NOW(),
+        last_used_ip = LEFT(p_ip, 45)
+    WHERE id = p_key_id;
+
+    INSERT INTO public.api_key_usage_daily (api_key_id, day, request_count)
+    VALUES (p_key_id, (NOW() AT TIME ZONE 'UTC')::DATE, 1)
+    ON CONFLICT (api_key_id, day)
+    DO UPDATE SET request_count = public.api_key_usage_daily.request_count + 1;
+END;
+$$;
+
+-- Only the service role (server) may call this function
+REVOKE ALL ON FUNCTION public.api_key_record_usage(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- ============ ROW LEVEL SECURITY ============
+-- No policies: only the service role (server) may read or write these tables
+ALTER TABLE public.service_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.api_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.api_key_usage_daily ENABLE ROW LEVEL SECURITY;
+
+-- ============ SUCCESS MESSAGE ============
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration completed successfully!';
+    RAISE NOTICE 'Created tables: service_accounts, api_keys, api_key_usage_daily';
+    RAISE NOTICE 'Created function: api_key_record_usage';
+END $$;
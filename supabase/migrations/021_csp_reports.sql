@@ -0,0 +1,86 @@
+-- ============================================================
+-- TavvY Admin Portal - CSP Violation Reports Migration
+-- ============================================================
+-- This migration creates the csp_reports table. Browsers post
+-- Content-Security-Policy violations to /api/csp-report; the
+-- server groups them by directive, blocked URI and disposition
+-- (enforced or report-only) and stores one row per group with
+-- a running count and the most recent example.
+-- Run this in your Supabase SQL Editor.
+-- ============================================================
+
+-- ============ CSP REPORTS TABLE ============
+CREATE TABLE IF NOT EXISTS public.csp_reports (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    directive VARCHAR(100) NOT NULL,
+    blocked_uri TEXT NOT NULL,
+    disposition VARCHAR(10) NOT NULL DEFAULT 'enforce'
+        CHECK (disposition IN ('enforce', 'report')),
+    count BIGINT NOT NULL DEFAULT 0,
+    document_uri TEXT,
+    source_file TEXT,
+    line_number INTEGER,
+    column_number INTEGER,
+    sample TEXT,
+    user_agent TEXT,
+    first_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    last_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    UNIQUE (directive, blocked_uri, disposition)
+);
+
+CREATE INDEX IF NOT EXISTS idx_csp_reports_last_seen_at ON public.csp_reports(last_seen_at DESC);
+
+-- ============ RECORD FUNCTION ============
+-- Adds p_count occurrences to a group, creating it if needed,
+-- and keeps the latest example
+CREATE OR REPLACE FUNCTION public.csp_report_record(
+    p_directive TEXT,
+    p_blocked_uri TEXT,
+    p_disposition TEXT,
+    p_count INTEGER,
+    p_document_uri TEXT,
+    p_source_file TEXT,
+    p_line_number INTEGER,
+    p_column_number INTEGER,
+    p_sample TEXT,
+    p_user_agent TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    INSERT INTO public.csp_reports (
+        directive, blocked_uri, disposition, count, document_uri,
+        source_file, line_number, column_number, sample, user_agent
+    )
+    VALUES (
+        p_directive, p_blocked_uri, p_disposition, p_count, p_document_uri,
+        p_source_file, p_line_number, p_column_number, p_sample, p_user_agent
+    )
+    ON CONFLICT (directive, blocked_uri, disposition)
+    DO UPDATE SET
+        count = public.csp_reports.count + EXCLUDED.count,
+        document_uri = EXCLUDED.document_uri,
+        source_file = EXCLUDED.source_file,
+        line_number = EXCLUDED.line_number,
+        column_number = EXCLUDED.column_number,
+        sample = EXCLUDED.sample,
+        user_agent = EXCLUDED.user_agent,
+        last_seen_at = NOW();
+END;
+$$;
+
+-- Only the service role (server) may call this function
+REVOKE ALL ON FUNCTION public.csp_report_record(TEXT, TEXT, TEXT, INTEGER, TEXT, TEXT, INTEGER, INTEGER, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- ============ ROW LEVEL SECURITY ============
+-- No policies: only the service role (server) may read or write this table
+ALTER TABLE public.csp_reports ENABLE ROW LEVEL SECURITY;
+
+-- ============ SUCCESS MESSAGE ============
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration completed successfully!';
+    RAISE NOTICE 'Created table: csp_reports';
+    RAISE NOTICE 'Created function: csp_report_record';
+END $$;
@@ -0,0 +1,21 @@
+-- ============================================================
+-- TavvY Admin Portal - Step-Up Re-Authentication Migration
+-- ============================================================
+-- This migration records when each admin session last
+-- re-entered its password. Sensitive procedures (deleting
+-- users, changing emails, granting roles, deleting places)
+-- require a re-authentication within the last few minutes,
+-- so a stolen session cookie alone is not enough.
+-- Run this in your Supabase SQL Editor.
+-- ============================================================
+
+-- ============ RE-AUTHENTICATION COLUMN ============
+ALTER TABLE IF EXISTS public.user_sessions
+    ADD COLUMN IF NOT EXISTS reauthenticated_at TIMESTAMP WITH TIME ZONE;
+
+-- ============ SUCCESS MESSAGE ============
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration completed successfully!';
+    RAISE NOTICE 'Added column to user_sessions: reauthenticated_at';
+END $$;
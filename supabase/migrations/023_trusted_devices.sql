@@ -0,0 +1,57 @@
+-- ============================================================
+-- TavvY Admin Portal - Trusted Devices Migration
+-- ============================================================
+-- This migration creates:
+--   * trusted_devices: devices an admin has named and marked
+--     as trusted, so signing in from them is not reported as
+--     a new-device anomaly,
+--   * device_confirmations: single-use links emailed after a
+--     sign-in from a new device; the admin either trusts the
+--     device or signs that session out (only a hash of the
+--     link token is stored).
+-- Run this in your Supabase SQL Editor.
+-- ============================================================
+
+-- ============ TRUSTED DEVICES TABLE ============
+CREATE TABLE IF NOT EXISTS public.trusted_devices (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    device_fingerprint VARCHAR(64) NOT NULL,
+    name VARCHAR(100) NOT NULL,
+    user_agent TEXT,
+    ip_address VARCHAR(45),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    last_used_at TIMESTAMP WITH TIME ZONE,
+    UNIQUE (user_id, device_fingerprint)
+);
+
+CREATE INDEX IF NOT EXISTS idx_trusted_devices_user_id ON public.trusted_devices(user_id);
+
+-- ============ DEVICE CONFIRMATIONS TABLE ============
+CREATE TABLE IF NOT EXISTS public.device_confirmations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    session_id UUID,
+    device_fingerprint VARCHAR(64) NOT NULL,
+    token_hash CHAR(64) NOT NULL UNIQUE,
+    user_agent TEXT,
+    ip_address VARCHAR(45),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    confirmed_at TIMESTAMP WITH TIME ZONE,
+    denied_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_device_confirmations_user_id ON public.device_confirmations(user_id);
+
+-- ============ ROW LEVEL SECURITY ============
+-- No policies: only the service role (server) may read or write these tables
+ALTER TABLE public.trusted_devices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.device_confirmations ENABLE ROW LEVEL SECURITY;
+
+-- ============ SUCCESS MESSAGE ============
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration completed successfully!';
+    RAISE NOTICE 'Created tables: trusted_devices, device_confirmations';
+END $$;
@@ -0,0 +1,42 @@
+-- ============================================================
+-- TavvY Admin Portal - Admin Invitations Migration
+-- ============================================================
+-- This migration creates the admin_invitations table. Signup
+-- is by invitation only: a super admin invites an email with
+-- a preassigned role and an expiry, and the invitee accepts
+-- through a signed, single-use link. Accepting creates the
+-- account and grants the role.
+-- Also disable "Allow new users to sign up" under
+-- Authentication > Providers > Email in the Supabase
+-- dashboard, so accounts cannot be created around the portal.
+-- Run this in your Supabase SQL Editor.
+-- ============================================================
+
+-- ============ INVITATIONS TABLE ============
+CREATE TABLE IF NOT EXISTS public.admin_invitations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    email VARCHAR(255) NOT NULL,
+    role VARCHAR(50) NOT NULL,
+    invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    invited_by_email VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    accepted_at TIMESTAMP WITH TIME ZONE,
+    accepted_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    revoked_by UUID REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_invitations_email ON public.admin_invitations(email);
+CREATE INDEX IF NOT EXISTS idx_admin_invitations_created_at ON public.admin_invitations(created_at DESC);
+
+-- ============ ROW LEVEL SECURITY ============
+-- No policies: only the service role (server) may read or write this table
+ALTER TABLE public.admin_invitations ENABLE ROW LEVEL SECURITY;
+
+-- ============ SUCCESS MESSAGE ============
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration completed successfully!';
+    RAISE NOTICE 'Created table: admin_invitations';
+END $$;
@@ -0,0 +1,43 @@
+-- ============================================================
+-- TavvY Admin Portal - Account Freezes Migration
+-- ============================================================
+-- This migration creates the account_freezes table. When an
+-- admin behavior rule listed in ADMIN_AUTO_FREEZE_RULES
+-- matches (mass deletion, off-hours role grant, bulk export
+-- after a new-device sign-in), the acting account is frozen:
+-- its sessions are revoked and sign-in is refused until a
+-- security admin lifts the freeze.
+-- Run this in your Supabase SQL Editor.
+-- ============================================================
+
+-- ============ ACCOUNT FREEZES TABLE ============
+CREATE TABLE IF NOT EXISTS public.account_freezes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    user_email VARCHAR(255),
+    rule VARCHAR(50) NOT NULL,
+    reason TEXT,
+    frozen_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    unfrozen_at TIMESTAMP WITH TIME ZONE,
+    unfrozen_by UUID REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+-- At most one active freeze per account
+CREATE UNIQUE INDEX IF NOT EXISTS idx_account_freezes_active
+    ON public.account_freezes(user_id) WHERE unfrozen_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_account_freezes_frozen_at ON public.account_freezes(frozen_at DESC);
+
+-- Export rule looks up recent new-device sign-ins per user
+CREATE INDEX IF NOT EXISTS idx_login_anomalies_user_type_created
+    ON public.login_anomalies(user_id, anomaly_type, created_at DESC);
+
+-- ============ ROW LEVEL SECURITY ============
+-- No policies: only the service role (server) may read or write this table
+ALTER TABLE public.account_freezes ENABLE ROW LEVEL SECURITY;
+
+-- ============ SUCCESS MESSAGE ============
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration completed successfully!';
+    RAISE NOTICE 'Created table: account_freezes';
+END $$;
@@ -0,0 +1,50 @@
+-- ============================================================
+-- TavvY Admin Portal - Pending Operations Migration
+-- ============================================================
+-- This migration creates the pending_operations table for
+-- four-eyes approval. Deleting a user or a universe, granting
+-- super_admin and large bulk imports are stored here instead
+-- of running, and only run once a second admin with the same
+-- permission approves them. Unapproved requests expire.
+-- Run this in your Supabase SQL Editor.
+-- ============================================================
+
+-- ============ PENDING OPERATIONS TABLE ============
+CREATE TABLE IF NOT EXISTS public.pending_operations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    operation VARCHAR(100) NOT NULL,
+    summary TEXT NOT NULL,
+    resource_id VARCHAR(255),
+    item_count INTEGER,
+    input JSONB,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'approved', 'executed', 'failed', 'rejected', 'cancelled', 'expired')),
+    requested_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    requested_by_email VARCHAR(255),
+    requested_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    reviewed_by_email VARCHAR(255),
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    review_note TEXT,
+    executed_at TIMESTAMP WITH TIME ZONE,
+    error TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_pending_operations_status_expires
+    ON public.pending_operations(status, expires_at);
+CREATE INDEX IF NOT EXISTS idx_pending_operations_requested_at
+    ON public.pending_operations(requested_at DESC);
+CREATE INDEX IF NOT EXISTS idx_pending_operations_resource
+    ON public.pending_operations(operation, resource_id) WHERE status = 'pending';
+
+-- ============ ROW LEVEL SECURITY ============
+-- No policies: only the service role (server) may read or write this table
+ALTER TABLE public.pending_operations ENABLE ROW LEVEL SECURITY;
+
+-- ============ SUCCESS MESSAGE ============
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration completed successfully!';
+    RAISE NOTICE 'Created table: pending_operations';
+END $$;
@@ -0,0 +1,41 @@
+-- ============================================================
+-- TavvY Admin Portal - Anomaly Daily Counts Migration
+-- ============================================================
+-- This migration creates the login_anomaly_daily_counts
+-- function behind the anomaly trend chart. Counts are grouped
+-- per UTC day and anomaly type in the database, so the chart
+-- stays correct however many anomalies were logged (the API
+-- caps row reads at 1000). One row is returned per day, with
+-- the per-type counts as a JSON object.
+-- Run this in your Supabase SQL Editor.
+-- ============================================================
+
+-- ============ DAILY COUNTS FUNCTION ============
+CREATE OR REPLACE FUNCTION public.login_anomaly_daily_counts(p_since TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE (day TEXT, counts JSONB)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT per_type.day, jsonb_object_agg(per_type.anomaly_type, per_type.total)
+    FROM (
+        SELECT
+            to_char(date_trunc('day', created_at AT TIME ZONE 'UTC'), 'YYYY-MM-DD') AS day,
+            anomaly_type,
+            count(*) AS total
+        FROM public.login_anomalies
+        WHERE created_at >= p_since
+        GROUP BY 1, 2
+    ) AS per_type
+    GROUP BY per_type.day
+    ORDER BY per_type.day;
+$$;
+
+-- Only the service role (server) may call this function
+REVOKE ALL ON FUNCTION public.login_anomaly_daily_counts(TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+
+-- ============ SUCCESS MESSAGE ============
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration completed successfully!';
+    RAISE NOTICE 'Created function: login_anomaly_daily_counts';
+END $$;
@@ -0,0 +1,113 @@
+-- ============================================================
+-- TavvY Admin Portal - Audit Log Chain Append Migration
+-- ============================================================
+-- This migration moves audit chain sequencing into the
+-- database and adds anchored chain heads:
+--   * audit_log_chain_head holds the latest sequence number and
+--     hash; audit_log_append locks it, assigns chain_seq and
+--     prev_hash, links the server's keyed content hash into
+--     entry_hash and inserts the entry in one transaction, so
+--     concurrent instances never race for a sequence number,
+--   * audit_log_anchors stores the chain head periodically,
+--     signed by the server, so truncating the log is detected.
+-- entry_hash for new entries is
+--   sha256('<chain_seq>:<prev_hash>:<content_hash>')
+-- (see computeAuditLinkHash in server/auditLog.ts).
+-- Run this in your Supabase SQL Editor after 016.
+-- ============================================================
+
+-- ============ CONTENT HASH COLUMN ============
+ALTER TABLE IF EXISTS public.audit_log
+    ADD COLUMN IF NOT EXISTS content_hash VARCHAR(64);
+
+-- ============ CHAIN HEAD TABLE ============
+-- Single row; seeded from the newest chained entry
+CREATE TABLE IF NOT EXISTS public.audit_log_chain_head (
+    id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id),
+    chain_seq BIGINT NOT NULL,
+    entry_hash VARCHAR(64) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO public.audit_log_chain_head (id, chain_seq, entry_hash)
+SELECT TRUE, COALESCE(latest.chain_seq, 0), COALESCE(latest.entry_hash, repeat('0', 64))
+FROM (SELECT 1) AS seed
+LEFT JOIN LATERAL (
+    SELECT chain_seq, entry_hash
+    FROM public.audit_log
+    WHERE chain_seq IS NOT NULL
+    ORDER BY chain_seq DESC
+    LIMIT 1
+) AS latest ON TRUE
+ON CONFLICT (id) DO NOTHING;
+
+-- ============ APPEND FUNCTION ============
+-- p_entry holds the audit_log columns; p_content_hash is the
+-- server's keyed hash of that content
+CREATE OR REPLACE FUNCTION public.audit_log_append(
+    p_entry JSONB,
+    p_content_hash TEXT
+)
+RETURNS BIGINT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_seq BIGINT;
+    v_prev_hash TEXT;
+    v_entry_hash TEXT;
+BEGIN
+    SELECT chain_seq, entry_hash INTO v_seq, v_prev_hash
+    FROM public.audit_log_chain_head
+    WHERE id
+    FOR UPDATE;
+
+    v_seq := v_seq + 1;
+    v_entry_hash := encode(
+        sha256(convert_to(v_seq::TEXT || ':' || v_prev_hash || ':' || p_content_hash, 'UTF8')),
+        'hex'
+    );
+
+    INSERT INTO public.audit_log (
+        user_id, user_email, action, resource_type, resource_id, details,
+        ip_address, user_agent, success, error_message, created_at,
+        chain_seq, prev_hash, entry_hash, content_hash
+    )
+    SELECT
+        entry.user_id, entry.user_email, entry.action, entry.resource_type, entry.resource_id, entry.details,
+        entry.ip_address, entry.user_agent, entry.success, entry.error_message, entry.created_at,
+        v_seq, v_prev_hash, v_entry_hash, p_content_hash
+    FROM jsonb_populate_record(NULL::public.audit_log, p_entry) AS entry;
+
+    UPDATE public.audit_log_chain_head
+    SET chain_seq = v_seq, entry_hash = v_entry_hash, updated_at = NOW()
+    WHERE id;
+
+    RETURN v_seq;
+END;
+$$;
+
+-- Only the service role (server) may call this function
+REVOKE ALL ON FUNCTION public.audit_log_append(JSONB, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- ============ ANCHORS TABLE ============
+CREATE TABLE IF NOT EXISTS public.audit_log_anchors (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    chain_seq BIGINT NOT NULL UNIQUE,
+    entry_hash VARCHAR(64) NOT NULL,
+    signature VARCHAR(64) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- ============ ROW LEVEL SECURITY ============
+-- No policies: only the service role (server) may read or write these tables
+ALTER TABLE public.audit_log_chain_head ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.audit_log_anchors ENABLE ROW LEVEL SECURITY;
+
+-- ============ SUCCESS MESSAGE ============
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration completed successfully!';
+    RAISE NOTICE 'Added column to audit_log: content_hash';
+    RAISE NOTICE 'Created tables: audit_log_chain_head, audit_log_anchors';
+    RAISE NOTICE 'Created function: audit_log_append';
+END $$;
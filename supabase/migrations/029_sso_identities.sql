@@ -0,0 +1,47 @@
+-- ============================================================
+-- TavvY Admin Portal - SSO Identities Migration
+-- ============================================================
+-- This migration creates the sso_identities table linking
+-- portal accounts to OIDC provider identities (issuer +
+-- subject). Once linked, SSO sign-ins match on the identity
+-- rather than the email claim; an account is linked by email
+-- only on its first SSO sign-in, and only when the provider
+-- marks the email as verified. Accounts provisioned by SSO
+-- before this migration are linked from their app metadata.
+-- Run this in your Supabase SQL Editor.
+-- ============================================================
+
+-- ============ SSO IDENTITIES TABLE ============
+CREATE TABLE IF NOT EXISTS public.sso_identities (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    issuer TEXT NOT NULL,
+    subject TEXT NOT NULL,
+    email VARCHAR(255),
+    linked_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    last_login_at TIMESTAMP WITH TIME ZONE,
+    UNIQUE (issuer, subject),
+    -- One identity per account and provider
+    UNIQUE (user_id, issuer)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sso_identities_user_id ON public.sso_identities(user_id);
+
+-- ============ BACKFILL PROVISIONED ACCOUNTS ============
+INSERT INTO public.sso_identities (user_id, issuer, subject, email)
+SELECT id, raw_app_meta_data->>'sso_issuer', raw_app_meta_data->>'sso_subject', email
+FROM auth.users
+WHERE raw_app_meta_data->>'sso_issuer' IS NOT NULL
+  AND raw_app_meta_data->>'sso_subject' IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+-- ============ ROW LEVEL SECURITY ============
+-- No policies: only the service role (server) may read or write this table
+ALTER TABLE public.sso_identities ENABLE ROW LEVEL SECURITY;
+
+-- ============ SUCCESS MESSAGE ============
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration completed successfully!';
+    RAISE NOTICE 'Created table: sso_identities';
+END $$;
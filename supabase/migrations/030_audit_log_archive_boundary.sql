@@ -0,0 +1,27 @@
+-- ============================================================
+-- TavvY Admin Portal - Audit Log Archive Boundary Migration
+-- ============================================================
+-- This migration records where retention cut the audit_log
+-- hash chain. Each audit_log archive stores its last chained
+-- entry (sequence number and entry hash), signed like an
+-- anchor, so chain verification resumes from that entry
+-- instead of reporting the archived entries as missing.
+-- Run this in your Supabase SQL Editor.
+-- ============================================================
+
+-- ============ ARCHIVE BOUNDARY COLUMNS ============
+ALTER TABLE public.data_archives ADD COLUMN IF NOT EXISTS last_chain_seq BIGINT;
+ALTER TABLE public.data_archives ADD COLUMN IF NOT EXISTS last_entry_hash TEXT;
+ALTER TABLE public.data_archives ADD COLUMN IF NOT EXISTS chain_signature TEXT;
+
+-- Verification reads the latest boundary
+CREATE INDEX IF NOT EXISTS idx_data_archives_chain_seq
+    ON public.data_archives(table_name, last_chain_seq DESC)
+    WHERE last_chain_seq IS NOT NULL;
+
+-- ============ SUCCESS MESSAGE ============
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration completed successfully!';
+    RAISE NOTICE 'Added columns: data_archives.last_chain_seq, last_entry_hash, chain_signature';
+END $$;
@@ -0,0 +1,19 @@
+import path from "path";
+import { defineConfig } from "vitest/config";
+
+// Tests live next to the server modules; vite.config.ts roots at client/, so
+// vitest gets its own config rooted at the repository
+export default defineConfig({
+  root: path.resolve(import.meta.dirname),
+  resolve: {
+    alias: {
+      "@": path.resolve(import.meta.dirname, "client", "src"),
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+      "@assets": path.resolve(import.meta.dirname, "attached_assets"),
+    },
+  },
+  test: {
+    environment: "node",
+    include: ["server/**/*.test.ts", "shared/**/*.test.ts"],
+  },
+});